@@ -5,11 +5,16 @@
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/account-share-response.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/account-share-response.json
 
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/message-sign-request.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/message-sign-request.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/message-sign-request-typed.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/message-sign-request-typed.json
 
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/message-sign-response.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/message-sign-response.json
 
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/multisig-request.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/multisig-request.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/multisig-response.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/multisig-response.json
+
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/signed-transaction-ethereum.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-response-ethereum.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/signed-transaction-bitcoin.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-response-bitcoin.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/signed-transaction-bitcoin-segwit.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-response-bitcoin-segwit.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/signed-transaction-cosmos.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-response-cosmos.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/signed-transaction-aeternity.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-response-aeternity.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/signed-transaction-tezos.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-response-tezos.json
@@ -17,10 +22,19 @@
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/signed-transaction-substrate.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-response-substrate.json
 
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-ethereum.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-ethereum.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-ethereum-access-list.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-ethereum-access-list.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-ethereum-eip1559.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-ethereum-eip1559.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-bitcoin.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-bitcoin.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-bitcoin-segwit.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-bitcoin-segwit.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-bitcoin-psbt.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-bitcoin-psbt.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-bitcoin-replaceable.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-bitcoin-replaceable.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-cosmos.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-cosmos.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-cosmos-extended.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-cosmos-extended.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-aeternity.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-aeternity.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-tezos.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-tezos.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-tezos-entrypoints.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-tezos-entrypoints.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-tezos-curve.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-tezos-curve.json
+./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-tezos-curve-entrypoints.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-tezos-curve-entrypoints.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-tezos-sapling.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-tezos-sapling.json
 ./node_modules/.bin/ts-json-schema-generator --path 'packages/core/src/serializer/schemas/definitions/unsigned-transaction-substrate.ts' --tsconfig 'tsconfig.json' > packages/core/src/serializer/schemas/generated/transaction-sign-request-substrate.json
 
@@ -7,9 +7,13 @@ import { IAirGapTransaction, IAirGapTransactionResult, IProtocolTransactionCurso
 import { IAirGapWallet } from './interfaces/IAirGapWallet'
 import { AeternityProtocol } from './protocols/aeternity/AeternityProtocol'
 import { BitcoinProtocol } from './protocols/bitcoin/BitcoinProtocol'
+import { BitcoinSegwitProtocol } from './protocols/bitcoin/BitcoinSegwitProtocol'
 import { BitcoinTestnetProtocol } from './protocols/bitcoin/BitcoinTestnetProtocol'
 import { CosmosDelegationActionType, CosmosProtocol } from './protocols/cosmos/CosmosProtocol'
 import { GenericERC20 } from './protocols/ethereum/erc20/GenericERC20'
+import { GenericERC721 } from './protocols/ethereum/erc721/GenericERC721'
+import { GenericERC1155 } from './protocols/ethereum/erc1155/GenericERC1155'
+import { BaseEthereumNFTProtocol } from './protocols/ethereum/nft/BaseEthereumNFTProtocol'
 import { EthereumClassicProtocol } from './protocols/ethereum/EthereumClassicProtocol'
 import { EthereumRopstenProtocol } from './protocols/ethereum/EthereumRopstenProtocol'
 import { GroestlcoinProtocol } from './protocols/groestlcoin/GroestlcoinProtocol'
@@ -23,9 +27,11 @@ import {
 } from './protocols/ICoinDelegateProtocol'
 import { CoinAddress, FeeDefaults, ICoinProtocol } from './protocols/ICoinProtocol'
 import { ICoinSubProtocol, SubProtocolType } from './protocols/ICoinSubProtocol'
+import { SubstrateProxyType } from './protocols/substrate/helpers/data/proxy/SubstrateProxyType'
 import { SubstratePayee } from './protocols/substrate/helpers/data/staking/SubstratePayee'
 import { KusamaProtocol } from './protocols/substrate/implementations/KusamaProtocol'
 import { PolkadotProtocol } from './protocols/substrate/implementations/PolkadotProtocol'
+import { SubstrateChainProtocol } from './protocols/substrate/implementations/SubstrateChainProtocol'
 import { SubstrateProtocol } from './protocols/substrate/SubstrateProtocol'
 import { TezosBTC } from './protocols/tezos/fa/TezosBTC'
 import { TezosFAProtocol } from './protocols/tezos/fa/TezosFAProtocol'
@@ -45,23 +51,36 @@ import { IACMessageType } from './serializer/interfaces'
 import { IACMessageDefinitionObject, Message } from './serializer/message'
 import { AccountShareResponse } from './serializer/schemas/definitions/account-share-response'
 import { MessageSignRequest } from './serializer/schemas/definitions/message-sign-request'
+import { TypedMessageSignRequest } from './serializer/schemas/definitions/message-sign-request-typed'
 import { MessageSignResponse } from './serializer/schemas/definitions/message-sign-response'
+import { MultisigRequest } from './serializer/schemas/definitions/multisig-request'
+import { MultisigResponse } from './serializer/schemas/definitions/multisig-response'
 import { SignedTransaction } from './serializer/schemas/definitions/signed-transaction'
 import { SignedAeternityTransaction } from './serializer/schemas/definitions/signed-transaction-aeternity'
 import { SignedBitcoinTransaction } from './serializer/schemas/definitions/signed-transaction-bitcoin'
+import { SignedBitcoinSegwitTransaction } from './serializer/schemas/definitions/signed-transaction-bitcoin-segwit'
 import { SignedCosmosTransaction } from './serializer/schemas/definitions/signed-transaction-cosmos'
 import { SignedEthereumTransaction } from './serializer/schemas/definitions/signed-transaction-ethereum'
 import { SignedTezosTransaction } from './serializer/schemas/definitions/signed-transaction-tezos'
 import { UnsignedTransaction } from './serializer/schemas/definitions/unsigned-transaction'
 import { UnsignedAeternityTransaction } from './serializer/schemas/definitions/unsigned-transaction-aeternity'
 import { UnsignedBitcoinTransaction } from './serializer/schemas/definitions/unsigned-transaction-bitcoin'
+import { UnsignedBitcoinPsbtTransaction } from './serializer/schemas/definitions/unsigned-transaction-bitcoin-psbt'
+import { UnsignedBitcoinSegwitTransaction } from './serializer/schemas/definitions/unsigned-transaction-bitcoin-segwit'
 import { UnsignedEthereumTransaction } from './serializer/schemas/definitions/unsigned-transaction-ethereum'
+import { UnsignedEthereumAccessListTransaction } from './serializer/schemas/definitions/unsigned-transaction-ethereum-access-list'
+import { UnsignedEthereumEIP1559Transaction } from './serializer/schemas/definitions/unsigned-transaction-ethereum-eip1559'
 import { UnsignedTezosTransaction } from './serializer/schemas/definitions/unsigned-transaction-tezos'
 import { IACPayloadType, Serializer } from './serializer/serializer'
 import {
   RawAeternityTransaction,
+  RawBitcoinPsbtTransaction,
   RawBitcoinTransaction,
+  EthereumAccessListItem,
+  RawEthereumAccessListTransaction,
+  RawEthereumEIP1559Transaction,
   RawEthereumTransaction,
+  RawEthereumTypedTransaction,
   RawSubstrateTransaction,
   RawTezosTransaction,
   UnsignedCosmosTransaction
@@ -77,6 +96,7 @@ import { AirGapWallet, SerializedAirGapWallet } from './wallet/AirGapWallet'
 import { AeternityProtocolOptions, AeternalBlockExplorer, AeternityProtocolNetwork } from './protocols/aeternity/AeternityProtocolOptions'
 import { AeternityCryptoClient } from './protocols/aeternity/AeternityCryptoClient'
 import { BitcoinCryptoClient } from './protocols/bitcoin/BitcoinCryptoClient'
+import { BitcoinSegwitCryptoClient } from './protocols/bitcoin/BitcoinSegwitCryptoClient'
 import {
   BitcoinProtocolNetworkExtras,
   BitcoinProtocolNetwork,
@@ -87,10 +107,16 @@ import {
 import { CosmosCryptoClient } from './protocols/cosmos/CosmosCryptoClient'
 import {
   MintscanBlockExplorer,
+  CosmosChainBlockExplorer,
+  CosmosChainDescriptor,
+  CosmosCurrency,
+  COSMOS_HUB,
   CosmosProtocolNetwork,
   CosmosProtocolConfig,
   CosmosProtocolOptions
 } from './protocols/cosmos/CosmosProtocolOptions'
+import { CosmosDenomProtocol } from './protocols/cosmos/CosmosDenomProtocol'
+import { createCosmosChainProtocol } from './protocols/cosmos/CosmosChainProtocolFactory'
 import { EthereumCryptoClient } from './protocols/ethereum/EthereumCryptoClient'
 import { SubstrateCryptoClient } from './protocols/substrate/SubstrateCryptoClient'
 import { TezosCryptoClient } from './protocols/tezos/TezosCryptoClient'
@@ -101,7 +127,9 @@ import {
   EthereumProtocolConfig,
   EthereumProtocolOptions,
   EthereumERC20ProtocolConfig,
-  EthereumERC20ProtocolOptions
+  EthereumERC20ProtocolOptions,
+  EthereumNFTProtocolConfig,
+  EthereumNFTProtocolOptions
 } from './protocols/ethereum/EthereumProtocolOptions'
 import { ProtocolBlockExplorer } from './utils/ProtocolBlockExplorer'
 import { NetworkType, ProtocolNetwork } from './utils/ProtocolNetwork'
@@ -117,8 +145,11 @@ import {
   PolkascanBlockExplorer,
   SubstrateProtocolConfig,
   SubstrateProtocolNetwork,
-  SubstrateProtocolOptions
+  SubstrateProtocolOptions,
+  SubstrateChainDescriptor,
+  SubstrateChainProtocolConfig
 } from './protocols/substrate/SubstrateProtocolOptions'
+import { createSubstrateChainProtocol } from './protocols/substrate/SubstrateChainProtocolFactory'
 import {
   KusamaProtocolNetworkExtras,
   KusamaPolkascanBlockExplorer,
@@ -155,6 +186,17 @@ import {
 } from './protocols/tezos/fa/TezosFAProtocolOptions'
 import { TezosTransactionResult } from './protocols/tezos/types/TezosTransactionResult'
 import { TezosTransactionCursor } from './protocols/tezos/types/TezosTransactionCursor'
+import { TezosCurve } from './protocols/tezos/types/TezosCurve'
+import { TezosMessageType } from './protocols/tezos/types/TezosMessageType'
+import { TezosContractOrigination } from './protocols/tezos/contract/TezosContractOrigination'
+import {
+  createPermitData,
+  hashMichelsonData,
+  packMichelsonData,
+  packMichelsonValue,
+  TezosMichelsonData,
+  unpackMichelsonData
+} from './protocols/tezos/TezosMichelsonData'
 import { generateId } from './serializer/utils/generateId'
 import { ProtocolSymbols, MainProtocolSymbols, SubProtocolSymbols } from './utils/ProtocolSymbols'
 import { TezosUtils } from './protocols/tezos/TezosUtils'
@@ -168,28 +210,105 @@ import { ImportAccountAction, ImportAccoutActionContext } from './actions/GetKtA
 import { CosmosUnbondingDelegation, CosmosValidator } from './protocols/cosmos/CosmosNodeClient'
 import { SubstrateElectionStatus } from './protocols/substrate/helpers/data/staking/SubstrateEraElectionStatus'
 import { SubstrateNominationStatus } from './protocols/substrate/helpers/data/staking/SubstrateNominationStatus'
-import { SubstrateNominatorDetails, SubstrateStakingDetails } from './protocols/substrate/helpers/data/staking/SubstrateNominatorDetails'
+import {
+  SubstrateNominatorDetails,
+  SubstrateNominatorEraReward,
+  SubstratePendingPayout,
+  SubstrateStakingDetails
+} from './protocols/substrate/helpers/data/staking/SubstrateNominatorDetails'
 import { SubstrateStakingActionType } from './protocols/substrate/helpers/data/staking/SubstrateStakingActionType'
 import { SubstrateValidatorDetails } from './protocols/substrate/helpers/data/staking/SubstrateValidatorDetails'
 import { IAirGapSignedTransaction } from './interfaces/IAirGapSignedTransaction'
 import { Action } from './actions/Action'
-import { SubstrateTransaction } from './protocols/substrate/helpers/data/transaction/SubstrateTransaction'
+import { SubstrateTransaction, SubstrateTransactionType } from './protocols/substrate/helpers/data/transaction/SubstrateTransaction'
+import { SubstrateSignatureType } from './protocols/substrate/helpers/data/transaction/SubstrateSignature'
 import { LinkedAction } from './actions/LinkedAction'
 import { SimpleAction } from './actions/SimpleAction'
 import { RepeatableAction } from './actions/RepeatableAction'
 import { TezosWrappedOperation } from './protocols/tezos/types/TezosWrappedOperation'
 import { assertNever } from './utils/assert'
-import { CosmosTransaction } from './protocols/cosmos/CosmosTransaction'
+import { CosmosSignMode, CosmosTransaction } from './protocols/cosmos/CosmosTransaction'
 import { CosmosAddress } from './protocols/cosmos/CosmosAddress'
+import { CosmosVoteOption, CosmosWeightedVoteOption } from './protocols/cosmos/cosmos-message/CosmosVoteMessage'
 import { TezosETHtz } from './protocols/tezos/fa/TezosETHtz'
 import { TezosWrapped } from './protocols/tezos/fa/TezosWrapped'
 import { TezosKolibriUSD } from './protocols/tezos/fa/TezosKolibriUSD'
-import { TezosSaplingExternalMethodProvider, TezosSaplingProtocolConfig, TezosSaplingProtocolOptions, TezosShieldedTezProtocolConfig } from './protocols/tezos/sapling/TezosSaplingProtocolOptions'
+import {
+  TezosSaplingExternalMethodProvider,
+  TezosSaplingProtocolConfig,
+  TezosSaplingProtocolOptions,
+  TezosShieldedTezProtocolConfig
+} from './protocols/tezos/sapling/TezosSaplingProtocolOptions'
 import { TezosSaplingTransaction } from './protocols/tezos/types/sapling/TezosSaplingTransaction'
 import { TezosDomains } from './protocols/tezos/domains/TezosDomains'
+import { TezosMultisigProtocol } from './protocols/tezos/multisig/TezosMultisigProtocol'
+import { TezosContractCallDecoder } from './protocols/tezos/contract/TezosContractCallDecoder'
+import {
+  TezosContractCallDetails,
+  TezosContractCallParameter,
+  TezosContractCallWarning,
+  TezosContractCallWarningType
+} from './protocols/tezos/types/contract/TezosContractCallDetails'
+import { TezosContractEntrypointType } from './protocols/tezos/types/contract/TezosContractEntrypointType'
+import {
+  TezosMultisigAction,
+  TezosMultisigActionType,
+  TezosMultisigChangeKeysAction,
+  TezosMultisigDelegateAction,
+  TezosMultisigLambdaAction,
+  TezosMultisigTransferAction
+} from './protocols/tezos/types/multisig/TezosMultisigAction'
+import { TezosMultisigPayload, TezosMultisigStorage } from './protocols/tezos/types/multisig/TezosMultisigPayload'
 import { AeternityAddress } from './protocols/aeternity/AeternityAddress'
 import { BitcoinAddress } from './protocols/bitcoin/BitcoinAddress'
+import { BitcoinSegwitAddress } from './protocols/bitcoin/BitcoinSegwitAddress'
+import { BitcoinMultisigAddress, BitcoinMultisigScripts } from './protocols/bitcoin/BitcoinMultisigAddress'
+import {
+  BitcoinAddressType,
+  BitcoinMultisigAddressType,
+  BitcoinMultisigConfig,
+  BitcoinMultisigTransactionOptions,
+  BitcoinPsbtKeyOrigin,
+  BitcoinPsbtOptions,
+  BitcoinTransactionOptions
+} from './protocols/bitcoin/BitcoinTypes'
+import { AccumulativeCoinSelector } from './protocols/bitcoin/coinselection/AccumulativeCoinSelector'
+import { BranchAndBoundCoinSelector } from './protocols/bitcoin/coinselection/BranchAndBoundCoinSelector'
+import { CoinSelection, CoinSelectionContext, CoinSelectionUTXO, CoinSelector } from './protocols/bitcoin/coinselection/CoinSelector'
+import { LargestFirstCoinSelector } from './protocols/bitcoin/coinselection/LargestFirstCoinSelector'
+import { OldestFirstCoinSelector } from './protocols/bitcoin/coinselection/OldestFirstCoinSelector'
+import { Outpoint, OutpointCoinSelector } from './protocols/bitcoin/coinselection/OutpointCoinSelector'
+import { BitcoinPsbt } from './protocols/bitcoin/BitcoinPsbt'
+import {
+  decodeFunctionCall,
+  encodeFunctionCall,
+  EthereumABIItem,
+  EthereumABIParameter,
+  EthereumABIValue,
+  EthereumDecodedCall,
+  EthereumDecodedParameter
+} from './protocols/ethereum/EthereumABI'
 import { EthereumAddress } from './protocols/ethereum/EthereumAddress'
+import {
+  EthereumTypedData,
+  EthereumTypedDataDomain,
+  EthereumTypedDataField,
+  EthereumTypedDataTypes
+} from './protocols/ethereum/EthereumTypedData'
+import { EthereumTypedTransaction } from './protocols/ethereum/EthereumTypedTransaction'
+import {
+  EthereumContractCall,
+  EthereumEIP1559FeeDefaults,
+  EthereumFeeHistory,
+  EthereumMessageType,
+  EthereumNFTBalance,
+  EthereumNFTMetadata,
+  EthereumNFTStandard,
+  EthereumNFTTransactionOptions,
+  EthereumNFTTransfer,
+  EthereumTransactionOptions,
+  EthereumTransactionType
+} from './protocols/ethereum/EthereumTypes'
 import { SubstrateAddress } from './protocols/substrate/helpers/data/account/SubstrateAddress'
 import { TezosAddress } from './protocols/tezos/TezosAddress'
 
@@ -230,14 +349,38 @@ export {
 export {
   BitcoinProtocol,
   BitcoinTestnetProtocol,
+  BitcoinSegwitProtocol,
   BitcoinCryptoClient,
+  BitcoinSegwitCryptoClient,
   BitcoinProtocolNetworkExtras,
   BlockcypherBlockExplorer,
   BitcoinProtocolNetwork,
   BitcoinProtocolConfig,
   BitcoinProtocolOptions,
   BitcoinAddress,
-  RawBitcoinTransaction
+  BitcoinSegwitAddress,
+  BitcoinMultisigAddress,
+  BitcoinMultisigScripts,
+  BitcoinAddressType,
+  BitcoinMultisigAddressType,
+  BitcoinMultisigConfig,
+  BitcoinMultisigTransactionOptions,
+  BitcoinPsbt,
+  BitcoinPsbtKeyOrigin,
+  BitcoinPsbtOptions,
+  BitcoinTransactionOptions,
+  CoinSelector,
+  CoinSelectionContext,
+  CoinSelection,
+  CoinSelectionUTXO,
+  AccumulativeCoinSelector,
+  BranchAndBoundCoinSelector,
+  LargestFirstCoinSelector,
+  OldestFirstCoinSelector,
+  OutpointCoinSelector,
+  Outpoint,
+  RawBitcoinTransaction,
+  RawBitcoinPsbtTransaction
 }
 
 // Cosmos
@@ -252,7 +395,16 @@ export {
   CosmosValidator,
   CosmosDelegationActionType,
   CosmosAddress,
-  CosmosTransaction
+  CosmosTransaction,
+  CosmosSignMode,
+  CosmosVoteOption,
+  CosmosWeightedVoteOption,
+  CosmosChainBlockExplorer,
+  CosmosChainDescriptor,
+  CosmosCurrency,
+  COSMOS_HUB,
+  CosmosDenomProtocol,
+  createCosmosChainProtocol
 }
 
 // Ethereum
@@ -261,6 +413,9 @@ export {
   EthereumRopstenProtocol,
   EthereumClassicProtocol,
   GenericERC20,
+  BaseEthereumNFTProtocol,
+  GenericERC721,
+  GenericERC1155,
   EthereumCryptoClient,
   EthereumProtocolNetworkExtras,
   EtherscanBlockExplorer,
@@ -269,8 +424,37 @@ export {
   EthereumProtocolOptions,
   EthereumERC20ProtocolConfig,
   EthereumERC20ProtocolOptions,
+  EthereumNFTProtocolConfig,
+  EthereumNFTProtocolOptions,
   EthereumAddress,
-  RawEthereumTransaction
+  EthereumABIItem,
+  EthereumABIParameter,
+  EthereumABIValue,
+  EthereumDecodedCall,
+  EthereumDecodedParameter,
+  EthereumContractCall,
+  EthereumNFTStandard,
+  EthereumNFTTransactionOptions,
+  EthereumNFTTransfer,
+  EthereumNFTBalance,
+  EthereumNFTMetadata,
+  encodeFunctionCall,
+  decodeFunctionCall,
+  EthereumTypedTransaction,
+  EthereumTypedData,
+  EthereumTypedDataDomain,
+  EthereumTypedDataField,
+  EthereumTypedDataTypes,
+  EthereumMessageType,
+  EthereumTransactionType,
+  EthereumTransactionOptions,
+  EthereumFeeHistory,
+  EthereumEIP1559FeeDefaults,
+  EthereumAccessListItem,
+  RawEthereumTransaction,
+  RawEthereumAccessListTransaction,
+  RawEthereumEIP1559Transaction,
+  RawEthereumTypedTransaction
 }
 
 // Groestlcoin
@@ -290,12 +474,17 @@ export {
   PolkadotProtocol,
   KusamaProtocol,
   SubstratePayee,
+  SubstrateProxyType,
   SubstrateCryptoClient,
   SubstrateProtocolNetworkExtras,
   PolkascanBlockExplorer,
   SubstrateProtocolConfig,
   SubstrateProtocolNetwork,
   SubstrateProtocolOptions,
+  SubstrateChainDescriptor,
+  SubstrateChainProtocolConfig,
+  SubstrateChainProtocol,
+  createSubstrateChainProtocol,
   KusamaProtocolNetworkExtras,
   KusamaPolkascanBlockExplorer,
   KusamaProtocolConfig,
@@ -309,10 +498,14 @@ export {
   SubstrateElectionStatus,
   SubstrateNominationStatus,
   SubstrateNominatorDetails,
+  SubstrateNominatorEraReward,
+  SubstratePendingPayout,
   SubstrateStakingDetails,
   SubstrateStakingActionType,
   SubstrateValidatorDetails,
   SubstrateTransaction,
+  SubstrateTransactionType,
+  SubstrateSignatureType,
   SubstrateAddress,
   RawSubstrateTransaction
 }
@@ -333,6 +526,15 @@ export {
   TezosKolibriUSD,
   TezosTransactionResult,
   TezosTransactionCursor,
+  TezosCurve,
+  TezosMessageType,
+  TezosMichelsonData,
+  TezosContractOrigination,
+  packMichelsonValue,
+  packMichelsonData,
+  unpackMichelsonData,
+  hashMichelsonData,
+  createPermitData,
   BakerInfo,
   DelegationRewardInfo,
   DelegationInfo,
@@ -366,7 +568,22 @@ export {
   TezosWrappedOperation,
   TezosAddress,
   RawTezosTransaction,
-  TezosDomains
+  TezosDomains,
+  TezosMultisigProtocol,
+  TezosMultisigAction,
+  TezosMultisigActionType,
+  TezosMultisigTransferAction,
+  TezosMultisigDelegateAction,
+  TezosMultisigChangeKeysAction,
+  TezosMultisigLambdaAction,
+  TezosMultisigPayload,
+  TezosMultisigStorage,
+  TezosContractCallDecoder,
+  TezosContractCallDetails,
+  TezosContractCallParameter,
+  TezosContractCallWarning,
+  TezosContractCallWarningType,
+  TezosContractEntrypointType
 }
 
 // Serializer
@@ -375,16 +592,24 @@ export {
   IACMessageDefinitionObject,
   AccountShareResponse,
   MessageSignRequest,
+  TypedMessageSignRequest,
   MessageSignResponse,
+  MultisigRequest,
+  MultisigResponse,
   SignedTransaction,
   UnsignedTransaction,
   UnsignedAeternityTransaction,
   UnsignedBitcoinTransaction,
+  UnsignedBitcoinPsbtTransaction,
+  UnsignedBitcoinSegwitTransaction,
   UnsignedCosmosTransaction,
   UnsignedEthereumTransaction,
+  UnsignedEthereumAccessListTransaction,
+  UnsignedEthereumEIP1559Transaction,
   UnsignedTezosTransaction,
   SignedAeternityTransaction,
   SignedBitcoinTransaction,
+  SignedBitcoinSegwitTransaction,
   SignedCosmosTransaction,
   SignedEthereumTransaction,
   SignedTezosTransaction,
@@ -10,7 +10,10 @@ import { AeternityTransactionCursor } from '../protocols/aeternity/AeternityType
 export enum AirGapTransactionType {
   SPEND = 'Spend Transaction',
   DELEGATE = 'Delegation',
-  UNDELEGATE = 'Undelegate'
+  UNDELEGATE = 'Undelegate',
+  REDELEGATE = 'Redelegate',
+  VOTE = 'Vote',
+  DEPOSIT = 'Deposit'
 }
 
 export enum AirGapTransactionStatus {
@@ -2,7 +2,8 @@ import { ICoinProtocol } from './ICoinProtocol'
 
 export enum SubProtocolType {
   ACCOUNT = 'account',
-  TOKEN = 'token'
+  TOKEN = 'token',
+  NFT = 'nft'
 }
 
 export interface ICoinSubProtocol extends ICoinProtocol {
@@ -2,7 +2,7 @@ import { CoinAddress } from '../ICoinProtocol'
 
 export class BitcoinAddress implements CoinAddress {
   // TODO: types
-  private constructor(
+  protected constructor(
     private readonly value: string,
     public readonly visibilityDerivationIndex?: number,
     public readonly addressDerivationIndex?: number
@@ -3,7 +3,7 @@ import { CoinAddress } from '../ICoinProtocol'
 import { Secp256k1CryptoClient } from '../Secp256k1CryptoClient'
 
 export class BitcoinCryptoClient extends Secp256k1CryptoClient {
-  constructor(private readonly protocol: ICoinProtocol, private readonly bitcoinJSMessage: any) {
+  constructor(private readonly protocol: ICoinProtocol, protected readonly bitcoinJSMessage: any) {
     super()
   }
 
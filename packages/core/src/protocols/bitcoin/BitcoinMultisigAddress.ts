@@ -0,0 +1,87 @@
+import * as bitcoinJS from '../../dependencies/src/bitgo-utxo-lib-5d91049fd7a988382df81c8260e244ee56d57aac/src/index'
+import { InvalidValueError, UnsupportedError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+import { assertNever } from '../../utils/assert'
+
+import { BitcoinAddress } from './BitcoinAddress'
+import { BitcoinMultisigAddressType } from './BitcoinTypes'
+
+// standardness limit of P2SH redeem scripts (520 bytes) with compressed public keys
+const MAX_COSIGNERS: number = 15
+
+export interface BitcoinMultisigScripts {
+  outputScript: Buffer
+  redeemScript?: Buffer
+  witnessScript?: Buffer
+}
+
+export class BitcoinMultisigAddress extends BitcoinAddress {
+  private constructor(
+    value: string,
+    public readonly addressType: BitcoinMultisigAddressType,
+    public readonly scripts: BitcoinMultisigScripts,
+    visibilityDerivationIndex?: number,
+    addressDerivationIndex?: number
+  ) {
+    super(value, visibilityDerivationIndex, addressDerivationIndex)
+  }
+
+  public static fromNodes(
+    nodes: any[],
+    threshold: number,
+    addressType: BitcoinMultisigAddressType,
+    visibilityDerivationIndex: number,
+    addressDerivationIndex: number
+  ): BitcoinMultisigAddress {
+    const publicKeys: Buffer[] = nodes.map((node: any) =>
+      node.derive(visibilityDerivationIndex).derive(addressDerivationIndex).getPublicKeyBuffer()
+    )
+    const scripts: BitcoinMultisigScripts = BitcoinMultisigAddress.getScripts(publicKeys, threshold, addressType)
+
+    return new BitcoinMultisigAddress(
+      bitcoinJS.address.fromOutputScript(scripts.outputScript, nodes[0].getNetwork()),
+      addressType,
+      scripts,
+      visibilityDerivationIndex,
+      addressDerivationIndex
+    )
+  }
+
+  public static getScripts(publicKeys: Buffer[], threshold: number, addressType: BitcoinMultisigAddressType): BitcoinMultisigScripts {
+    if (publicKeys.length > MAX_COSIGNERS) {
+      throw new UnsupportedError(Domain.BITCOIN, `Multisig wallets are limited to ${MAX_COSIGNERS} cosigners.`)
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > publicKeys.length) {
+      throw new InvalidValueError(Domain.BITCOIN, `Invalid multisig threshold ${threshold} of ${publicKeys.length}.`)
+    }
+
+    // BIP67: the public keys are sorted lexicographically, so that all cosigners derive the same script
+    const multisigScript: Buffer = bitcoinJS.script.multisig.output.encode(
+      threshold,
+      [...publicKeys].sort((a: Buffer, b: Buffer) => a.compare(b))
+    )
+    const witnessProgram: Buffer = bitcoinJS.script.witnessScriptHash.output.encode(bitcoinJS.crypto.sha256(multisigScript))
+
+    switch (addressType) {
+      case BitcoinMultisigAddressType.P2SH:
+        return {
+          outputScript: bitcoinJS.script.scriptHash.output.encode(bitcoinJS.crypto.hash160(multisigScript)),
+          redeemScript: multisigScript
+        }
+      case BitcoinMultisigAddressType.P2SH_P2WSH:
+        return {
+          outputScript: bitcoinJS.script.scriptHash.output.encode(bitcoinJS.crypto.hash160(witnessProgram)),
+          redeemScript: witnessProgram,
+          witnessScript: multisigScript
+        }
+      case BitcoinMultisigAddressType.P2WSH:
+        return {
+          outputScript: witnessProgram,
+          witnessScript: multisigScript
+        }
+      default:
+        assertNever(addressType)
+        throw new UnsupportedError(Domain.BITCOIN, `Unsupported multisig address type ${addressType}`)
+    }
+  }
+}
@@ -1,4 +1,14 @@
-import { BitcoinBlockbookTransactionCursor, BitcoinBlockbookTransactionResult } from './BitcoinTypes'
+import {
+  BitcoinAddressType,
+  BitcoinBlockbookTransactionCursor,
+  BitcoinBlockbookTransactionResult,
+  BitcoinMultisigAddressType,
+  BitcoinMultisigConfig,
+  BitcoinMultisigTransactionOptions,
+  BitcoinPsbtKeyOrigin,
+  BitcoinPsbtOptions,
+  BitcoinTransactionOptions
+} from './BitcoinTypes'
 
 import axios from '../../dependencies/src/axios-0.19.0/index'
 import BigNumber from '../../dependencies/src/bignumber.js-9.0.0/bignumber'
@@ -6,18 +16,34 @@ import { mnemonicToSeed } from '../../dependencies/src/bip39-2.5.0/index'
 import * as bitcoinJSMessage from '../../dependencies/src/bitcoinjs-message-2.1.1/index'
 import { IAirGapSignedTransaction } from '../../interfaces/IAirGapSignedTransaction'
 import { AirGapTransactionStatus, IAirGapTransaction } from '../../interfaces/IAirGapTransaction'
+import { MultisigRequest } from '../../serializer/schemas/definitions/multisig-request'
+import { MultisigResponse } from '../../serializer/schemas/definitions/multisig-response'
 import { SignedBitcoinTransaction } from '../../serializer/schemas/definitions/signed-transaction-bitcoin'
 import { UnsignedTransaction } from '../../serializer/schemas/definitions/unsigned-transaction'
-import { RawBitcoinTransaction } from '../../serializer/types'
+import { IInTransaction, IOutTransaction, RawBitcoinPsbtTransaction, RawBitcoinTransaction } from '../../serializer/types'
 import { CurrencyUnit, FeeDefaults, ICoinProtocol } from '../ICoinProtocol'
 import { MainProtocolSymbols, ProtocolSymbols } from '../../utils/ProtocolSymbols'
 
 import { BitcoinAddress } from './BitcoinAddress'
+import { BitcoinMultisigAddress, BitcoinMultisigScripts } from './BitcoinMultisigAddress'
 import { BitcoinProtocolOptions } from './BitcoinProtocolOptions'
 import { BitcoinCryptoClient } from './BitcoinCryptoClient'
+import { BitcoinPsbt, PsbtBip32Derivation, PsbtInput, PsbtOutput } from './BitcoinPsbt'
+import {
+  estimateMultisigVirtualSize,
+  estimateVirtualSize,
+  getDustThreshold,
+  getMultisigDustThreshold,
+  MAX_OUTPUT_SCRIPT_LENGTH,
+  MULTISIG_OUTPUT_SCRIPT_LENGTH,
+  OUTPUT_SCRIPT_LENGTH
+} from './BitcoinTransactionSize'
+import { AccumulativeCoinSelector } from './coinselection/AccumulativeCoinSelector'
+import { CoinSelection, CoinSelectionContext, CoinSelectionUTXO, CoinSelector } from './coinselection/CoinSelector'
 import { ICoinSubProtocol } from '../ICoinSubProtocol'
-import { BalanceError, InvalidValueError, ConditionViolationError, NetworkError } from '../../errors'
+import { BalanceError, InvalidValueError, ConditionViolationError, NetworkError, ProtocolErrorType, UnsupportedError } from '../../errors'
 import { Domain } from '../../errors/coinlib-error'
+import { assertNever } from '../../utils/assert'
 
 interface UTXOResponse {
   txid: string
@@ -29,8 +55,14 @@ interface UTXOResponse {
   path: string
 }
 
+interface MultisigUTXO extends CoinSelectionUTXO {
+  address: string
+  derivationPath: string
+}
+
 export interface Vin {
   txid: string
+  vout?: number
   sequence: any
   n: number
   addresses: string[]
@@ -59,6 +91,7 @@ export interface Transaction {
   valueIn: string
   fees: string
   hex: string
+  vsize?: number
 }
 
 export interface Token {
@@ -102,7 +135,36 @@ export interface AddressResponse {
   transactions?: Transaction[]
 }
 
-const DUST_AMOUNT: number = 50
+// confirmation targets in blocks
+const FEE_ESTIMATION_TARGETS: Record<keyof FeeDefaults, number> = {
+  low: 10,
+  medium: 5,
+  high: 2
+}
+
+// satoshis per virtual byte, the default minimum relay fee rate
+const MIN_FEE_RATE: number = 1
+
+// the highest sequence number that signals replaceability (BIP125)
+const REPLACEABLE_SEQUENCE: number = 0xfffffffd
+
+const UNKNOWN_MASTER_FINGERPRINT: string = '00000000'
+
+const DEFAULT_MULTISIG_ADDRESS_COUNT: number = 20
+
+function getPathIndexes(path: string): [number, number] {
+  const result: number[] = path
+    .split('/')
+    .slice(-2)
+    .map((item: string) => parseInt(item, 10))
+    .filter((item: number) => !isNaN(item))
+
+  if (result.length !== 2) {
+    throw new ConditionViolationError(Domain.BITCOIN, 'Unexpected path format')
+  }
+
+  return [result[0], result[1]]
+}
 
 export class BitcoinProtocol implements ICoinProtocol {
   public symbol: string = 'BTC'
@@ -206,8 +268,8 @@ export class BitcoinProtocol implements ICoinProtocol {
   }
 
   public async getAddressFromExtendedPublicKey(
-    extendedPublicKey: string, 
-    visibilityDerivationIndex: number, 
+    extendedPublicKey: string,
+    visibilityDerivationIndex: number,
     addressDerivationIndex: number
   ): Promise<BitcoinAddress> {
     // broadcaster knows this (both broadcaster and signer)
@@ -233,7 +295,7 @@ export class BitcoinProtocol implements ICoinProtocol {
     const node = this.options.config.bitcoinJSLib.HDNode.fromBase58(publicKey, this.options.network.extras.network)
 
     return BitcoinAddress.from(
-      node, 
+      node,
       current.visibilityDerivationIndex,
       current.addressDerivationIndex !== undefined ? current.addressDerivationIndex + 1 : undefined
     )
@@ -243,7 +305,7 @@ export class BitcoinProtocol implements ICoinProtocol {
     const transactionBuilder = new this.options.config.bitcoinJSLib.TransactionBuilder(this.options.network.extras.network)
 
     for (const input of transaction.ins) {
-      transactionBuilder.addInput(input.txId, input.vout)
+      transactionBuilder.addInput(input.txId, input.vout, input.sequence)
     }
 
     for (const output of transaction.outs) {
@@ -264,40 +326,24 @@ export class BitcoinProtocol implements ICoinProtocol {
     return transactionBuilder.build().toHex()
   }
 
-  public async signWithExtendedPrivateKey(extendedPrivateKey: string, transaction: RawBitcoinTransaction): Promise<string> {
+  public async signWithExtendedPrivateKey(
+    extendedPrivateKey: string,
+    transaction: RawBitcoinTransaction | RawBitcoinPsbtTransaction
+  ): Promise<string> {
+    if (this.isPsbtTransaction(transaction)) {
+      return this.signPsbtWithExtendedPrivateKey(extendedPrivateKey, transaction.psbt)
+    }
+
     const transactionBuilder = new this.options.config.bitcoinJSLib.TransactionBuilder(this.options.network.extras.network)
     const node = this.options.config.bitcoinJSLib.HDNode.fromBase58(extendedPrivateKey, this.options.network.extras.network)
 
     for (const input of transaction.ins) {
-      transactionBuilder.addInput(input.txId, input.vout)
+      transactionBuilder.addInput(input.txId, input.vout, input.sequence)
     }
-    const changeAddressBatchSize: number = 10
-    const changeAddressMaxAddresses: number = 500
 
     for (const output of transaction.outs) {
-      let changeAddressIsValid: boolean = false
       if (output.isChange) {
-        if (output.derivationPath) {
-          const generatedChangeAddress: string[] = (await this.getAddressesFromExtendedPublicKey(
-            extendedPrivateKey,
-            1,
-            1,
-            parseInt(output.derivationPath, 10)
-          )).map((address: BitcoinAddress) => address.getValue())
-          changeAddressIsValid = generatedChangeAddress.includes(output.recipient)
-        } else {
-          for (let x = 0; x < changeAddressMaxAddresses; x += changeAddressBatchSize) {
-            const addresses: string[] = (await this.getAddressesFromExtendedPublicKey(extendedPrivateKey, 1, changeAddressBatchSize, x))
-              .map((address: BitcoinAddress) => address.getValue())
-            if (addresses.indexOf(output.recipient) >= 0) {
-              changeAddressIsValid = true
-              x = changeAddressMaxAddresses
-            }
-          }
-        }
-        if (!changeAddressIsValid) {
-          throw new InvalidValueError(Domain.BITCOIN, 'Change address could not be verified.')
-        }
+        await this.assertChangeAddress(extendedPrivateKey, output)
       }
       transactionBuilder.addOutput(output.recipient, new BigNumber(output.value).toNumber())
     }
@@ -309,9 +355,184 @@ export class BitcoinProtocol implements ICoinProtocol {
     return transactionBuilder.build().toHex()
   }
 
+  protected async assertChangeAddress(extendedPrivateKey: string, output: IOutTransaction): Promise<void> {
+    const changeAddressBatchSize: number = 10
+    const changeAddressMaxAddresses: number = 500
+
+    let changeAddressIsValid: boolean = false
+    if (output.derivationPath) {
+      const generatedChangeAddress: string[] = (
+        await this.getAddressesFromExtendedPublicKey(extendedPrivateKey, 1, 1, parseInt(output.derivationPath, 10))
+      ).map((address: BitcoinAddress) => address.getValue())
+      changeAddressIsValid = generatedChangeAddress.includes(output.recipient)
+    } else {
+      for (let x = 0; x < changeAddressMaxAddresses; x += changeAddressBatchSize) {
+        const addresses: string[] = (
+          await this.getAddressesFromExtendedPublicKey(extendedPrivateKey, 1, changeAddressBatchSize, x)
+        ).map((address: BitcoinAddress) => address.getValue())
+        if (addresses.indexOf(output.recipient) >= 0) {
+          changeAddressIsValid = true
+          x = changeAddressMaxAddresses
+        }
+      }
+    }
+    if (!changeAddressIsValid) {
+      throw new InvalidValueError(Domain.BITCOIN, 'Change address could not be verified.')
+    }
+  }
+
+  protected async signPsbtWithExtendedPrivateKey(extendedPrivateKey: string, psbt: string): Promise<string> {
+    const node = this.getExtendedNode(extendedPrivateKey)
+    const bitcoinPsbt: BitcoinPsbt = this.decodePsbt(psbt)
+
+    let signedInputs: number = 0
+    bitcoinPsbt.inputs.forEach((input, index: number) => {
+      const keyNode = this.findPsbtKeyNode(node, input.bip32Derivations)
+      if (keyNode !== undefined) {
+        bitcoinPsbt.signInput(index, keyNode.keyPair)
+        signedInputs++
+      }
+    })
+
+    if (signedInputs === 0) {
+      throw new ConditionViolationError(Domain.BITCOIN, 'None of the PSBT inputs can be signed with the provided key.')
+    }
+
+    return bitcoinPsbt.toBase64()
+  }
+
+  public async getPsbtFromRawTransaction(
+    transaction: RawBitcoinTransaction,
+    keyOrigin?: BitcoinPsbtKeyOrigin,
+    options: BitcoinPsbtOptions = {}
+  ): Promise<string> {
+    const bitcoinJSLib = this.options.config.bitcoinJSLib
+    const network = this.options.network.extras.network
+
+    const bitcoinPsbt: BitcoinPsbt = this.createPsbt(transaction, options)
+    const node = keyOrigin !== undefined ? this.getExtendedNode(keyOrigin.extendedPublicKey) : undefined
+    const accountDerivationPath: string = keyOrigin?.derivationPath ?? this.standardDerivationPath
+    const masterFingerprint: Buffer = Buffer.from(keyOrigin?.masterFingerprint ?? UNKNOWN_MASTER_FINGERPRINT, 'hex')
+
+    for (let index: number = 0; index < transaction.ins.length; index++) {
+      const input: IInTransaction = transaction.ins[index]
+      const script: Buffer = bitcoinJSLib.address.toOutputScript(input.address, network)
+
+      if (node !== undefined && input.derivationPath) {
+        const publicKey: Buffer = node.derivePath(input.derivationPath).getPublicKeyBuffer()
+        const nestedRedeemScript: Buffer = bitcoinJSLib.script.witnessPubKeyHash.output.encode(bitcoinJSLib.crypto.hash160(publicKey))
+        if (bitcoinJSLib.script.scriptHash.output.encode(bitcoinJSLib.crypto.hash160(nestedRedeemScript)).equals(script)) {
+          bitcoinPsbt.inputs[index].redeemScript = nestedRedeemScript
+        }
+        bitcoinPsbt.inputs[index].bip32Derivations.push({
+          publicKey,
+          masterFingerprint,
+          path: `${accountDerivationPath}/${input.derivationPath}`
+        })
+      }
+
+      // BIP174 requires the whole previous transaction for inputs which are not (known to be) SegWit
+      const program: Buffer = bitcoinPsbt.inputs[index].redeemScript ?? script
+      if (bitcoinJSLib.script.witnessPubKeyHash.output.check(program) || bitcoinJSLib.script.witnessScriptHash.output.check(program)) {
+        bitcoinPsbt.inputs[index].witnessUtxo = { script, value: new BigNumber(input.value).toNumber() }
+      } else {
+        bitcoinPsbt.inputs[index].nonWitnessUtxo = await this.getRawPreviousTransaction(input.txId)
+      }
+    }
+
+    transaction.outs.forEach((output, index: number) => {
+      if (node !== undefined && output.isChange && output.derivationPath) {
+        const changePath: string = `1/${output.derivationPath}`
+        bitcoinPsbt.outputs[index].bip32Derivations.push({
+          publicKey: node.derivePath(changePath).getPublicKeyBuffer(),
+          masterFingerprint,
+          path: `${accountDerivationPath}/${changePath}`
+        })
+      }
+    })
+
+    return bitcoinPsbt.toBase64()
+  }
+
+  // outputs are only marked as change if they can be derived from the extended public key, the derivations of the PSBT are not trusted
+  public async getRawTransactionFromPsbt(psbt: string | Buffer, extendedPublicKey?: string): Promise<RawBitcoinTransaction> {
+    return this.getRawTransactionFromPsbtWithChange(
+      psbt,
+      async (script: Buffer, derivation: PsbtBip32Derivation) =>
+        extendedPublicKey !== undefined && this.isChangeScriptOfExtendedPublicKey(script, extendedPublicKey, derivation)
+    )
+  }
+
+  // outputs are only marked as change if they are addresses of the multisig wallet
+  public async getRawTransactionFromMultisigPsbt(config: BitcoinMultisigConfig, psbt: string | Buffer): Promise<RawBitcoinTransaction> {
+    return this.getRawTransactionFromPsbtWithChange(psbt, async (script: Buffer, derivation: PsbtBip32Derivation) => {
+      const changeAddress: BitcoinMultisigAddress | undefined = await this.getMultisigAddressOfDerivation(config, derivation)
+
+      return changeAddress?.visibilityDerivationIndex === 1 && changeAddress.scripts.outputScript.equals(script)
+    })
+  }
+
+  private async getRawTransactionFromPsbtWithChange(
+    psbt: string | Buffer,
+    isChangeScript: (script: Buffer, derivation: PsbtBip32Derivation) => Promise<boolean>
+  ): Promise<RawBitcoinTransaction> {
+    const bitcoinJSLib = this.options.config.bitcoinJSLib
+    const network = this.options.network.extras.network
+    const bitcoinPsbt: BitcoinPsbt = this.decodePsbt(psbt)
+
+    const changeDerivations: (PsbtBip32Derivation | undefined)[] = await Promise.all(
+      bitcoinPsbt.transaction.outs.map(async (output, index: number) => {
+        for (const derivation of bitcoinPsbt.outputs[index].bip32Derivations) {
+          if (await isChangeScript(output.script, derivation)) {
+            return derivation
+          }
+        }
+
+        return undefined
+      })
+    )
+
+    return {
+      ins: bitcoinPsbt.transaction.ins.map((input, index: number) => {
+        const derivation: PsbtBip32Derivation | undefined = bitcoinPsbt.inputs[index].bip32Derivations[0]
+
+        return {
+          txId: Buffer.from(input.hash).reverse().toString('hex'),
+          value: bitcoinPsbt.getInputValue(index).toString(),
+          vout: input.index,
+          address: bitcoinJSLib.address.fromOutputScript(bitcoinPsbt.getInputScript(index), network),
+          derivationPath: derivation !== undefined ? this.getRelativeDerivationPath(derivation.path).join('/') : undefined,
+          ...(input.sequence !== bitcoinJSLib.Transaction.DEFAULT_SEQUENCE ? { sequence: input.sequence } : {})
+        }
+      }),
+      outs: bitcoinPsbt.transaction.outs.map((output, index: number) => {
+        const changeDerivation: PsbtBip32Derivation | undefined = changeDerivations[index]
+
+        return {
+          recipient: bitcoinJSLib.address.fromOutputScript(output.script, network),
+          isChange: changeDerivation !== undefined,
+          value: output.value.toString(),
+          derivationPath: changeDerivation !== undefined ? this.getRelativeDerivationPath(changeDerivation.path)[1].toString() : ''
+        }
+      })
+    }
+  }
+
+  public async finalizePsbt(psbt: string | Buffer): Promise<string> {
+    const bitcoinPsbt: BitcoinPsbt = this.decodePsbt(psbt)
+    bitcoinPsbt.finalize()
+
+    return bitcoinPsbt.extractTransaction().toHex()
+  }
+
   public async getTransactionDetails(unsignedTx: UnsignedTransaction): Promise<IAirGapTransaction[]> {
     // out of public information (both broadcaster and signer)
-    const transaction = unsignedTx.transaction as RawBitcoinTransaction
+    const transaction: RawBitcoinTransaction = this.isPsbtTransaction(unsignedTx.transaction)
+      ? await this.getRawTransactionFromPsbt(
+          unsignedTx.transaction.psbt,
+          unsignedTx.publicKey.length > 0 ? unsignedTx.publicKey : undefined
+        )
+      : unsignedTx.transaction
 
     let feeCalculator = new BigNumber(0)
 
@@ -353,7 +574,10 @@ export class BitcoinProtocol implements ICoinProtocol {
       transactionDetails: signedTx.transaction
     }
 
-    const bitcoinTx = this.options.config.bitcoinJSLib.Transaction.fromHex(signedTx.transaction)
+    const rawTransaction: string = BitcoinPsbt.isPsbt(signedTx.transaction)
+      ? await this.finalizePsbt(signedTx.transaction)
+      : signedTx.transaction
+    const bitcoinTx = this.options.config.bitcoinJSLib.Transaction.fromHex(rawTransaction)
     bitcoinTx.outs.forEach((output) => {
       const address = this.options.config.bitcoinJSLib.address.fromOutputScript(output.script, this.options.network.extras.network)
       // only works if one output is target and rest is change, but this way we can filter out change addresses
@@ -418,22 +642,45 @@ export class BitcoinProtocol implements ICoinProtocol {
     publicKey: string,
     recipients: string[],
     values: string[],
-    data?: any
+    data?: BitcoinTransactionOptions
   ): Promise<FeeDefaults> {
-    const result = (await axios.get(`${this.options.network.extras.indexerApi}/api/v2/estimatefee/5`)).data.result
-    const estimatedFee = new BigNumber(result).shiftedBy(this.feeDecimals)
-    if (estimatedFee.isZero()) {
+    const feeRates: Record<keyof FeeDefaults, BigNumber> | undefined = await this.getFeeRates()
+    if (feeRates === undefined) {
       return this.feeDefaults
     }
-    const feeStepFactor = new BigNumber(0.5)
-    const mediumFee = estimatedFee
-    const lowFee = mediumFee.minus(mediumFee.times(feeStepFactor)).integerValue(BigNumber.ROUND_FLOOR)
-    const highFee = mediumFee.plus(mediumFee.times(feeStepFactor)).integerValue(BigNumber.ROUND_FLOOR)
+
+    const utxos: UTXOResponse[] = await this.getUtxosOfExtendedPublicKey(publicKey)
+    const totalValue: BigNumber = values.reduce((accumulator: BigNumber, value: string) => accumulator.plus(value), new BigNumber(0))
+    const outputScriptLengths: number[] = recipients.map((recipient: string) => this.getOutputScriptLength(recipient))
+    const addressType: BitcoinAddressType = this.getAddressTypeOfExtendedPublicKey(publicKey)
+    const coinSelector: CoinSelector = data?.coinSelector ?? new AccumulativeCoinSelector()
+
+    const estimateFee = (feeRate: BigNumber): string => {
+      let fee: BigNumber
+      try {
+        fee = coinSelector.select(utxos, this.getCoinSelectionContext(totalValue, outputScriptLengths, addressType, { feeRate })).fee
+      } catch (error) {
+        if (error.code !== ProtocolErrorType.BALANCE) {
+          throw error
+        }
+
+        // not enough balance, assume that all available inputs are going to be spent
+        fee = this.getFeeForSize(
+          estimateVirtualSize(new Array(Math.max(utxos.length, 1)).fill(addressType), [
+            ...outputScriptLengths,
+            OUTPUT_SCRIPT_LENGTH[addressType]
+          ]),
+          feeRate
+        )
+      }
+
+      return fee.shiftedBy(-this.feeDecimals).toFixed()
+    }
 
     return {
-      low: lowFee.shiftedBy(-this.feeDecimals).toFixed(),
-      medium: mediumFee.shiftedBy(-this.feeDecimals).toFixed(),
-      high: highFee.shiftedBy(-this.feeDecimals).toFixed()
+      low: estimateFee(feeRates.low),
+      medium: estimateFee(feeRates.medium),
+      high: estimateFee(feeRates.high)
     }
   }
 
@@ -451,10 +698,10 @@ export class BitcoinProtocol implements ICoinProtocol {
     offset: number,
     recipients: string[],
     values: string[],
-    fee: string
+    fee: string,
+    data?: BitcoinTransactionOptions
   ): Promise<RawBitcoinTransaction> {
     const wrappedValues: BigNumber[] = values.map((value: string) => new BigNumber(value))
-    const wrappedFee: BigNumber = new BigNumber(fee)
 
     const transaction: RawBitcoinTransaction = {
       ins: [],
@@ -465,39 +712,25 @@ export class BitcoinProtocol implements ICoinProtocol {
       throw new ConditionViolationError(Domain.BITCOIN, 'recipients do not match values')
     }
 
-    console.log(`${this.options.network.extras.indexerApi}/api/v2/utxo/${extendedPublicKey}?confirmed=true`)
-    const { data: utxos }: { data: UTXOResponse[] } = await axios.get<UTXOResponse[]>(
-      `${this.options.network.extras.indexerApi}/api/v2/utxo/${extendedPublicKey}?confirmed=true`,
-      {
-        responseType: 'json'
-      }
-    )
+    const utxos: UTXOResponse[] = await this.getUtxosOfExtendedPublicKey(extendedPublicKey)
 
     if (utxos.length <= 0) {
       throw new BalanceError(Domain.BITCOIN, 'not enough balance') // no transactions found on those addresses, probably won't find anything in the next ones
     }
 
-    const totalRequiredBalance: BigNumber = wrappedValues
-      .reduce((accumulator: BigNumber, currentValue: BigNumber) => accumulator.plus(currentValue))
-      .plus(wrappedFee)
-    let valueAccumulator: BigNumber = new BigNumber(0)
-
-    const getPathIndexes = (path: string): [number, number] => {
-      const result = path
-        .split('/')
-        .slice(-2)
-        .map((item) => parseInt(item))
-        .filter((item) => !isNaN(item))
-
-      if (result.length !== 2) {
-        throw new ConditionViolationError(Domain.BITCOIN, 'Unexpected path format')
-      }
-
-      return [result[0], result[1]]
-    }
+    const totalValue: BigNumber = wrappedValues.reduce((accumulator: BigNumber, currentValue: BigNumber) => accumulator.plus(currentValue))
+    const coinSelector: CoinSelector = data?.coinSelector ?? new AccumulativeCoinSelector()
+    const selection: CoinSelection<UTXOResponse> = coinSelector.select(
+      utxos,
+      this.getCoinSelectionContext(
+        totalValue,
+        recipients.map((recipient: string) => this.getOutputScriptLength(recipient)),
+        this.getAddressTypeOfExtendedPublicKey(extendedPublicKey),
+        data?.feeRate !== undefined ? { feeRate: new BigNumber(data.feeRate) } : { fee: new BigNumber(fee) }
+      )
+    )
 
-    for (const utxo of utxos) {
-      valueAccumulator = valueAccumulator.plus(utxo.value)
+    for (const utxo of selection.utxos) {
       const indexes: [number, number] = getPathIndexes(utxo.path)
 
       const derivedAddress: BitcoinAddress = await this.getAddressFromExtendedPublicKey(extendedPublicKey, indexes[0], indexes[1])
@@ -507,19 +740,12 @@ export class BitcoinProtocol implements ICoinProtocol {
           value: new BigNumber(utxo.value).toString(10),
           vout: utxo.vout,
           address: utxo.address,
-          derivationPath: indexes.join('/')
+          derivationPath: indexes.join('/'),
+          ...(data?.replaceable ? { sequence: REPLACEABLE_SEQUENCE } : {})
         })
       } else {
         throw new NetworkError(Domain.BITCOIN, `Invalid address ${utxo.address} returned from API`)
       }
-
-      if (valueAccumulator.isGreaterThanOrEqualTo(totalRequiredBalance)) {
-        break
-      }
-    }
-
-    if (valueAccumulator.isLessThan(totalRequiredBalance)) {
-      throw new BalanceError(Domain.BITCOIN, 'not enough balance')
     }
 
     for (let i = 0; i < recipients.length; i++) {
@@ -529,7 +755,6 @@ export class BitcoinProtocol implements ICoinProtocol {
         value: wrappedValues[i].toString(10),
         derivationPath: '' // TODO: Remove this as soon as our serializer supports optional properties
       })
-      valueAccumulator = valueAccumulator.minus(wrappedValues[i])
     }
 
     const lastUsedInternalAddress: number = Math.max(
@@ -540,17 +765,13 @@ export class BitcoinProtocol implements ICoinProtocol {
         .map((indexes: [number, number]) => indexes[1])
     )
 
-    // If the change is considered dust, the transaction will fail.
-    // Dust is a variable value around 300-600 satoshis, depending on the configuration.
-    // We set a low fee here to not block any transactions, but it might still fail due to "dust".
-    const changeValue: BigNumber = valueAccumulator.minus(wrappedFee)
-    if (changeValue.isGreaterThan(new BigNumber(DUST_AMOUNT))) {
+    if (selection.change.isGreaterThan(0)) {
       const changeAddressIndex: number = lastUsedInternalAddress + 1
       const derivedAddress: BitcoinAddress = await this.getAddressFromExtendedPublicKey(extendedPublicKey, 1, changeAddressIndex)
       transaction.outs.push({
         recipient: derivedAddress.getValue(),
         isChange: true,
-        value: changeValue.toString(10),
+        value: selection.change.toString(10),
         derivationPath: changeAddressIndex.toString()
       })
     }
@@ -617,11 +838,9 @@ export class BitcoinProtocol implements ICoinProtocol {
       // tx.addOutput(recipients[i], values[i])
     }
 
-    // If the change is considered dust, the transaction will fail.
-    // Dust is a variable value around 300-600 satoshis, depending on the configuration.
-    // We set a low fee here to not block any transactions, but it might still fail due to "dust".
+    // If the change is considered dust, it is added to the fee instead.
     const changeValue: BigNumber = valueAccumulator.minus(wrappedFee)
-    if (changeValue.isGreaterThan(new BigNumber(DUST_AMOUNT))) {
+    if (changeValue.isGreaterThanOrEqualTo(getDustThreshold(this.getAddressTypeOfExtendedPublicKey(publicKey)))) {
       transaction.outs.push({
         recipient: address,
         isChange: true,
@@ -632,8 +851,320 @@ export class BitcoinProtocol implements ICoinProtocol {
     return transaction
   }
 
+  public async prepareFeeBumpTransaction(
+    extendedPublicKey: string,
+    txId: string,
+    feeRate: string
+  ): Promise<RawBitcoinTransaction> {
+    const original: Transaction = await this.getUnconfirmedTransaction(txId)
+    if (!original.vin.some((input: Vin) => input.sequence <= REPLACEABLE_SEQUENCE)) {
+      throw new ConditionViolationError(Domain.BITCOIN, `transaction ${txId} does not signal replaceability (BIP125)`)
+    }
+
+    const ownAddresses: Map<string, [number, number]> = await this.getOwnAddresses(extendedPublicKey)
+    const addressType: BitcoinAddressType = this.getAddressTypeOfExtendedPublicKey(extendedPublicKey)
+
+    const transaction: RawBitcoinTransaction = {
+      ins: original.vin.map((input: Vin) => {
+        const indexes: [number, number] | undefined = ownAddresses.get(input.addresses[0])
+        if (indexes === undefined) {
+          throw new ConditionViolationError(Domain.BITCOIN, `input ${input.n} of transaction ${txId} can't be signed by this wallet`)
+        }
+
+        return {
+          txId: input.txid,
+          value: input.value,
+          vout: input.vout ?? 0,
+          address: input.addresses[0],
+          derivationPath: indexes.join('/'),
+          // the replacement can be bumped again
+          sequence: REPLACEABLE_SEQUENCE
+        }
+      }),
+      outs: original.vout.map((output: Vout) => {
+        const indexes: [number, number] | undefined = ownAddresses.get(output.addresses[0])
+        const isChange: boolean = indexes !== undefined && indexes[0] === 1
+
+        return {
+          recipient: output.addresses[0],
+          isChange,
+          value: output.value,
+          derivationPath: isChange && indexes !== undefined ? indexes[1].toString() : ''
+        }
+      })
+    }
+
+    const changeIndex: number = transaction.outs.findIndex((output: IOutTransaction) => output.isChange)
+    if (changeIndex < 0) {
+      throw new BalanceError(Domain.BITCOIN, `transaction ${txId} has no change output to pay for a higher fee`)
+    }
+
+    const originalFee: BigNumber = new BigNumber(original.fees)
+    const getFee = (outputs: IOutTransaction[]): BigNumber => {
+      const virtualSize: number = estimateVirtualSize(
+        new Array(transaction.ins.length).fill(addressType),
+        outputs.map((output: IOutTransaction) => this.getOutputScriptLength(output.recipient))
+      )
+
+      // BIP125 requires the replacement to pay for its own relay on top of the fee of the original transaction
+      return BigNumber.max(
+        this.getFeeForSize(virtualSize, new BigNumber(feeRate)),
+        originalFee.plus(this.getFeeForSize(virtualSize, new BigNumber(MIN_FEE_RATE)))
+      )
+    }
+
+    const change: BigNumber = new BigNumber(transaction.outs[changeIndex].value).minus(getFee(transaction.outs).minus(originalFee))
+    if (change.isGreaterThanOrEqualTo(getDustThreshold(addressType))) {
+      transaction.outs[changeIndex].value = change.toString(10)
+    } else {
+      // the change would be dust, add all of it to the fee
+      const outs: IOutTransaction[] = transaction.outs.filter((_: IOutTransaction, index: number) => index !== changeIndex)
+      const available: BigNumber = originalFee.plus(transaction.outs[changeIndex].value)
+      if (available.isLessThan(getFee(outs))) {
+        throw new BalanceError(Domain.BITCOIN, `the change of transaction ${txId} is not sufficient to pay for a higher fee`)
+      }
+      transaction.outs = outs
+    }
+
+    return transaction
+  }
+
+  public async prepareChildPaysForParentTransaction(
+    extendedPublicKey: string,
+    txId: string,
+    feeRate: string
+  ): Promise<RawBitcoinTransaction> {
+    const parent: Transaction = await this.getUnconfirmedTransaction(txId)
+    const ownAddresses: Map<string, [number, number]> = await this.getOwnAddresses(extendedPublicKey)
+    const addressType: BitcoinAddressType = this.getAddressTypeOfExtendedPublicKey(extendedPublicKey)
+
+    const output: Vout | undefined = parent.vout
+      .filter((candidate: Vout) => !candidate.spent && ownAddresses.has(candidate.addresses[0]))
+      .sort((a: Vout, b: Vout) => new BigNumber(b.value).comparedTo(a.value))[0]
+    if (output === undefined) {
+      throw new ConditionViolationError(Domain.BITCOIN, `transaction ${txId} has no unspent output belonging to this wallet`)
+    }
+
+    const indexes: [number, number] = ownAddresses.get(output.addresses[0]) as [number, number]
+    const changeAddressIndex: number =
+      Math.max(
+        -1,
+        ...Array.from(ownAddresses.values())
+          .filter((ownIndexes: [number, number]) => ownIndexes[0] === 1)
+          .map((ownIndexes: [number, number]) => ownIndexes[1])
+      ) + 1
+    const changeAddress: BitcoinAddress = await this.getAddressFromExtendedPublicKey(extendedPublicKey, 1, changeAddressIndex)
+
+    // the child has to pay for the parent as well, so that the package reaches the requested fee rate
+    const parentVirtualSize: number = parent.vsize ?? parent.hex.length / 2
+    const childVirtualSize: number = estimateVirtualSize([addressType], [OUTPUT_SCRIPT_LENGTH[addressType]])
+    const fee: BigNumber = BigNumber.max(
+      this.getFeeForSize(parentVirtualSize + childVirtualSize, new BigNumber(feeRate)).minus(parent.fees),
+      this.getFeeForSize(childVirtualSize, new BigNumber(MIN_FEE_RATE))
+    )
+
+    const value: BigNumber = new BigNumber(output.value).minus(fee)
+    if (value.isLessThan(getDustThreshold(addressType))) {
+      throw new BalanceError(Domain.BITCOIN, `output ${output.n} of transaction ${txId} is not sufficient to pay for the parent`)
+    }
+
+    const transaction: RawBitcoinTransaction = {
+      ins: [
+        {
+          txId,
+          value: output.value,
+          vout: output.n,
+          address: output.addresses[0],
+          derivationPath: indexes.join('/'),
+          sequence: REPLACEABLE_SEQUENCE
+        }
+      ],
+      outs: [
+        {
+          recipient: changeAddress.getValue(),
+          isChange: true,
+          value: value.toString(10),
+          derivationPath: changeAddressIndex.toString()
+        }
+      ]
+    }
+
+    return transaction
+  }
+
+  public async getAddressFromMultisigConfig(
+    config: BitcoinMultisigConfig,
+    visibilityDerivationIndex: number,
+    addressDerivationIndex: number
+  ): Promise<BitcoinMultisigAddress> {
+    return BitcoinMultisigAddress.fromNodes(
+      config.cosigners.map((cosigner: BitcoinPsbtKeyOrigin) => this.getExtendedNode(cosigner.extendedPublicKey)),
+      config.threshold,
+      config.addressType,
+      visibilityDerivationIndex,
+      addressDerivationIndex
+    )
+  }
+
+  public async getAddressesFromMultisigConfig(
+    config: BitcoinMultisigConfig,
+    visibilityDerivationIndex: number,
+    addressCount: number,
+    offset: number
+  ): Promise<BitcoinMultisigAddress[]> {
+    const generatorArray = Array.from(new Array(addressCount), (_, i) => i + offset)
+
+    return Promise.all(generatorArray.map((x) => this.getAddressFromMultisigConfig(config, visibilityDerivationIndex, x)))
+  }
+
+  public async prepareMultisigTransaction(
+    config: BitcoinMultisigConfig,
+    recipients: string[],
+    values: string[],
+    fee: string,
+    data?: BitcoinMultisigTransactionOptions
+  ): Promise<RawBitcoinPsbtTransaction> {
+    if (recipients.length !== values.length) {
+      throw new ConditionViolationError(Domain.BITCOIN, 'recipients do not match values')
+    }
+
+    const addressCount: number = data?.addressCount ?? DEFAULT_MULTISIG_ADDRESS_COUNT
+    const utxos: MultisigUTXO[] = await this.getUtxosOfAddresses([
+      ...(await this.getAddressesFromMultisigConfig(config, 0, addressCount, 0)),
+      ...(await this.getAddressesFromMultisigConfig(config, 1, addressCount, 0))
+    ])
+
+    if (utxos.length <= 0) {
+      throw new BalanceError(Domain.BITCOIN, 'not enough balance')
+    }
+
+    const totalValue: BigNumber = values.reduce((accumulator: BigNumber, value: string) => accumulator.plus(value), new BigNumber(0))
+    const outputScriptLengths: number[] = recipients.map((recipient: string) => this.getOutputScriptLength(recipient))
+    const coinSelector: CoinSelector = data?.coinSelector ?? new AccumulativeCoinSelector()
+    const selection: CoinSelection<MultisigUTXO> = coinSelector.select(
+      utxos,
+      this.createCoinSelectionContext(
+        totalValue,
+        getMultisigDustThreshold(config.addressType),
+        data?.feeRate !== undefined ? { feeRate: new BigNumber(data.feeRate) } : { fee: new BigNumber(fee) },
+        (inputCount: number, withChange: boolean) =>
+          estimateMultisigVirtualSize(
+            config.addressType,
+            config.threshold,
+            config.cosigners.length,
+            inputCount,
+            withChange ? [...outputScriptLengths, MULTISIG_OUTPUT_SCRIPT_LENGTH[config.addressType]] : outputScriptLengths
+          )
+      )
+    )
+
+    const transaction: RawBitcoinTransaction = {
+      ins: selection.utxos.map((utxo: MultisigUTXO) => ({
+        txId: utxo.txid,
+        value: new BigNumber(utxo.value).toString(10),
+        vout: utxo.vout,
+        address: utxo.address,
+        derivationPath: utxo.derivationPath,
+        ...(data?.replaceable ? { sequence: REPLACEABLE_SEQUENCE } : {})
+      })),
+      outs: recipients.map((recipient: string, index: number) => ({
+        recipient,
+        isChange: false,
+        value: new BigNumber(values[index]).toString(10),
+        derivationPath: ''
+      }))
+    }
+
+    if (selection.change.isGreaterThan(0)) {
+      const changeAddressIndex: number =
+        Math.max(
+          -1,
+          ...utxos
+            .map((utxo: MultisigUTXO) => getPathIndexes(utxo.derivationPath))
+            .filter((indexes: [number, number]) => indexes[0] === 1)
+            .map((indexes: [number, number]) => indexes[1])
+        ) + 1
+      const changeAddress: BitcoinMultisigAddress = await this.getAddressFromMultisigConfig(config, 1, changeAddressIndex)
+      transaction.outs.push({
+        recipient: changeAddress.getValue(),
+        isChange: true,
+        value: selection.change.toString(10),
+        derivationPath: changeAddressIndex.toString()
+      })
+    }
+
+    return { psbt: await this.getMultisigPsbtFromRawTransaction(config, transaction) }
+  }
+
+  public async createMultisigRequest(
+    extendedPublicKey: string,
+    psbt: string,
+    responses: MultisigResponse[] = [],
+    callbackURL: string = ''
+  ): Promise<MultisigRequest> {
+    // the serializer does not support optional properties yet, so the callback URL is always set
+    return {
+      signingPeers: Array.from(
+        new Set(responses.reduce((peers: string[], response: MultisigResponse) => peers.concat(response.signingPeers), []))
+      ),
+      transaction: psbt,
+      signature: responses.length > 0 ? await this.combineMultisigResponses(responses) : '',
+      publicKey: extendedPublicKey,
+      callbackURL
+    }
+  }
+
+  public async signMultisigRequest(
+    config: BitcoinMultisigConfig,
+    extendedPrivateKey: string,
+    request: MultisigRequest
+  ): Promise<MultisigResponse> {
+    const node = this.getExtendedNode(extendedPrivateKey)
+    if (!this.getExtendedNode(request.publicKey).getIdentifier().equals(node.getIdentifier())) {
+      throw new ConditionViolationError(Domain.BITCOIN, 'Multisig request is addressed to another cosigner.')
+    }
+    if (
+      !config.cosigners.some((cosigner: BitcoinPsbtKeyOrigin) =>
+        this.getExtendedNode(cosigner.extendedPublicKey).getIdentifier().equals(node.getIdentifier())
+      )
+    ) {
+      throw new ConditionViolationError(Domain.BITCOIN, 'Extended private key is not a cosigner of the multisig wallet.')
+    }
+
+    // the signature of a request is a PSBT with the partial signatures of the previous signers
+    const psbt: string =
+      request.signature.length > 0 ? await this.combinePsbts([request.transaction, request.signature]) : request.transaction
+    await this.assertMultisigPsbt(config, psbt)
+
+    return {
+      signingPeers: [...request.signingPeers, node.getFingerprint().toString('hex')],
+      transaction: request.transaction,
+      signature: await this.signPsbtWithExtendedPrivateKey(extendedPrivateKey, psbt)
+    }
+  }
+
+  public async combineMultisigResponses(responses: MultisigResponse[]): Promise<string> {
+    return this.combinePsbts(
+      responses.reduce((psbts: string[], response: MultisigResponse) => psbts.concat(response.transaction, response.signature), [])
+    )
+  }
+
+  public async combinePsbts(psbts: (string | Buffer)[]): Promise<string> {
+    if (psbts.length === 0) {
+      throw new ConditionViolationError(Domain.BITCOIN, 'No PSBTs to combine.')
+    }
+
+    const [combined, ...others]: BitcoinPsbt[] = psbts.map((psbt: string | Buffer) => this.decodePsbt(psbt))
+    others.forEach((other: BitcoinPsbt) => {
+      combined.combine(other)
+    })
+
+    return combined.toBase64()
+  }
+
   public async broadcastTransaction(rawTransaction: string): Promise<string> {
-    const { data } = await axios.post(this.options.network.extras.indexerApi + '/api/v2/sendtx/', rawTransaction)
+    const transaction: string = BitcoinPsbt.isPsbt(rawTransaction) ? await this.finalizePsbt(rawTransaction) : rawTransaction
+    const { data } = await axios.post(this.options.network.extras.indexerApi + '/api/v2/sendtx/', transaction)
 
     return data.result
   }
@@ -799,6 +1330,353 @@ export class BitcoinProtocol implements ICoinProtocol {
     }
   }
 
+  protected getAddressTypeOfExtendedPublicKey(extendedPublicKey: string): BitcoinAddressType {
+    return BitcoinAddressType.P2PKH
+  }
+
+  private async getUtxosOfExtendedPublicKey(extendedPublicKey: string): Promise<UTXOResponse[]> {
+    const { data: utxos }: { data: UTXOResponse[] } = await axios.get<UTXOResponse[]>(
+      `${this.options.network.extras.indexerApi}/api/v2/utxo/${extendedPublicKey}?confirmed=true`,
+      {
+        responseType: 'json'
+      }
+    )
+
+    return utxos
+  }
+
+  private async getUtxosOfAddresses(addresses: BitcoinMultisigAddress[]): Promise<MultisigUTXO[]> {
+    const utxos: MultisigUTXO[][] = await Promise.all(
+      addresses.map(async (address: BitcoinMultisigAddress) => {
+        const { data }: { data: UTXOResponse[] } = await axios.get<UTXOResponse[]>(
+          `${this.options.network.extras.indexerApi}/api/v2/utxo/${address.getValue()}?confirmed=true`,
+          {
+            responseType: 'json'
+          }
+        )
+
+        return data.map((utxo: UTXOResponse) => ({
+          txid: utxo.txid,
+          vout: utxo.vout,
+          value: utxo.value,
+          confirmations: utxo.confirmations,
+          address: address.getValue(),
+          derivationPath: `${address.visibilityDerivationIndex}/${address.addressDerivationIndex}`
+        }))
+      })
+    )
+
+    return utxos.reduce((flattened: MultisigUTXO[], addressUtxos: MultisigUTXO[]) => flattened.concat(addressUtxos), [])
+  }
+
+  private async getFeeRates(): Promise<Record<keyof FeeDefaults, BigNumber> | undefined> {
+    const [low, medium, high]: BigNumber[] = await Promise.all(
+      [FEE_ESTIMATION_TARGETS.low, FEE_ESTIMATION_TARGETS.medium, FEE_ESTIMATION_TARGETS.high].map(async (target: number) => {
+        const { data }: { data: { result: string } } = await axios.get(
+          `${this.options.network.extras.indexerApi}/api/v2/estimatefee/${target}`
+        )
+
+        // the indexer returns the fee rate in BTC per kilobyte
+        return new BigNumber(data.result).shiftedBy(this.feeDecimals).dividedBy(1000)
+      })
+    )
+
+    // the indexer returns 0 or -1 if it could not estimate the fee rate
+    if (![low, medium, high].every((feeRate: BigNumber) => feeRate.isGreaterThan(0))) {
+      return undefined
+    }
+
+    return {
+      low: BigNumber.max(low, MIN_FEE_RATE),
+      medium: BigNumber.max(medium, MIN_FEE_RATE),
+      high: BigNumber.max(high, MIN_FEE_RATE)
+    }
+  }
+
+  private async getUnconfirmedTransaction(txId: string): Promise<Transaction> {
+    const { data: transaction }: { data: Transaction } = await axios.get(`${this.options.network.extras.indexerApi}/api/v2/tx/${txId}`)
+    if (transaction.confirmations > 0) {
+      throw new ConditionViolationError(Domain.BITCOIN, `transaction ${txId} is already confirmed`)
+    }
+
+    return transaction
+  }
+
+  private async getRawPreviousTransaction(txId: string): Promise<Buffer> {
+    const { data: transaction }: { data: Transaction } = await axios.get(`${this.options.network.extras.indexerApi}/api/v2/tx/${txId}`)
+
+    return Buffer.from(transaction.hex, 'hex')
+  }
+
+  private async getOwnAddresses(extendedPublicKey: string): Promise<Map<string, [number, number]>> {
+    const { data }: { data: XPubResponse } = await axios.get(
+      `${this.options.network.extras.indexerApi}/api/v2/xpub/${extendedPublicKey}?details=tokens&tokens=used`
+    )
+
+    return new Map(
+      (data.tokens ?? [])
+        .filter((token: Token) => token.type === 'XPUBAddress')
+        .map((token: Token): [string, [number, number]] => [token.name, getPathIndexes(token.path)])
+    )
+  }
+
+  private getFeeForSize(virtualSize: number, feeRate: BigNumber): BigNumber {
+    return feeRate.times(virtualSize).integerValue(BigNumber.ROUND_CEIL)
+  }
+
+  private getOutputScriptLength(address: string): number {
+    try {
+      return this.options.config.bitcoinJSLib.address.toOutputScript(address, this.options.network.extras.network).length
+    } catch (error) {
+      return MAX_OUTPUT_SCRIPT_LENGTH
+    }
+  }
+
+  private getCoinSelectionContext(
+    targetValue: BigNumber,
+    outputScriptLengths: number[],
+    addressType: BitcoinAddressType,
+    feeOption: { fee: BigNumber } | { feeRate: BigNumber }
+  ): CoinSelectionContext {
+    return this.createCoinSelectionContext(
+      targetValue,
+      getDustThreshold(addressType),
+      feeOption,
+      (inputCount: number, withChange: boolean) =>
+        estimateVirtualSize(
+          new Array(inputCount).fill(addressType),
+          withChange ? [...outputScriptLengths, OUTPUT_SCRIPT_LENGTH[addressType]] : outputScriptLengths
+        )
+    )
+  }
+
+  private createCoinSelectionContext(
+    targetValue: BigNumber,
+    dustThreshold: number,
+    feeOption: { fee: BigNumber } | { feeRate: BigNumber },
+    estimateSize: (inputCount: number, withChange: boolean) => number
+  ): CoinSelectionContext {
+    return {
+      targetValue,
+      dustThreshold: new BigNumber(dustThreshold),
+      getFee: (inputCount: number, withChange: boolean): BigNumber =>
+        'fee' in feeOption ? feeOption.fee : this.getFeeForSize(estimateSize(inputCount, withChange), feeOption.feeRate)
+    }
+  }
+
+  private createPsbt(transaction: RawBitcoinTransaction, options: BitcoinPsbtOptions = {}): BitcoinPsbt {
+    const transactionBuilder = new this.options.config.bitcoinJSLib.TransactionBuilder(this.options.network.extras.network)
+    for (const input of transaction.ins) {
+      transactionBuilder.addInput(input.txId, input.vout, input.sequence ?? (options.replaceable ? REPLACEABLE_SEQUENCE : undefined))
+    }
+    for (const output of transaction.outs) {
+      transactionBuilder.addOutput(output.recipient, new BigNumber(output.value).toNumber())
+    }
+
+    return BitcoinPsbt.fromTransaction(transactionBuilder.buildIncomplete())
+  }
+
+  private async getMultisigPsbtFromRawTransaction(config: BitcoinMultisigConfig, transaction: RawBitcoinTransaction): Promise<string> {
+    const bitcoinPsbt: BitcoinPsbt = this.createPsbt(transaction)
+    const nodes: any[] = config.cosigners.map((cosigner: BitcoinPsbtKeyOrigin) => this.getExtendedNode(cosigner.extendedPublicKey))
+
+    // every cosigner needs to find its own key, see BIP174 on multisig
+    const getDerivations = (relativePath: string): PsbtBip32Derivation[] =>
+      config.cosigners.map((cosigner: BitcoinPsbtKeyOrigin, index: number) => ({
+        publicKey: nodes[index].derivePath(relativePath).getPublicKeyBuffer(),
+        masterFingerprint: Buffer.from(cosigner.masterFingerprint ?? UNKNOWN_MASTER_FINGERPRINT, 'hex'),
+        path: `${cosigner.derivationPath ?? this.getMultisigDerivationPath(config.addressType)}/${relativePath}`
+      }))
+    const getAddress = (relativePath: string, expectedAddress: string): BitcoinMultisigAddress => {
+      const [visibilityIndex, addressIndex]: [number, number] = getPathIndexes(relativePath)
+      const address: BitcoinMultisigAddress = BitcoinMultisigAddress.fromNodes(
+        nodes,
+        config.threshold,
+        config.addressType,
+        visibilityIndex,
+        addressIndex
+      )
+      if (address.getValue() !== expectedAddress) {
+        throw new ConditionViolationError(Domain.BITCOIN, `address ${expectedAddress} does not belong to the multisig wallet`)
+      }
+
+      return address
+    }
+
+    for (let index: number = 0; index < transaction.ins.length; index++) {
+      const input: IInTransaction = transaction.ins[index]
+      const relativePath: string = input.derivationPath ?? ''
+      const { outputScript, redeemScript, witnessScript } = getAddress(relativePath, input.address).scripts
+
+      // plain P2SH inputs are not SegWit, BIP174 requires the whole previous transaction for them
+      if (config.addressType === BitcoinMultisigAddressType.P2SH) {
+        bitcoinPsbt.inputs[index].nonWitnessUtxo = await this.getRawPreviousTransaction(input.txId)
+      } else {
+        bitcoinPsbt.inputs[index].witnessUtxo = { script: outputScript, value: new BigNumber(input.value).toNumber() }
+      }
+      bitcoinPsbt.inputs[index].redeemScript = redeemScript
+      bitcoinPsbt.inputs[index].witnessScript = witnessScript
+      bitcoinPsbt.inputs[index].bip32Derivations = getDerivations(relativePath)
+    }
+
+    transaction.outs.forEach((output, index: number) => {
+      if (output.isChange && output.derivationPath) {
+        const relativePath: string = `1/${output.derivationPath}`
+        const { redeemScript, witnessScript } = getAddress(relativePath, output.recipient).scripts
+
+        bitcoinPsbt.outputs[index].redeemScript = redeemScript
+        bitcoinPsbt.outputs[index].witnessScript = witnessScript
+        bitcoinPsbt.outputs[index].bip32Derivations = getDerivations(relativePath)
+      }
+    })
+
+    return bitcoinPsbt.toBase64()
+  }
+
+  private getMultisigDerivationPath(addressType: BitcoinMultisigAddressType): string {
+    const coinType: string = this.standardDerivationPath.split('/')[2]
+
+    // BIP45 for legacy and BIP48 for SegWit multisig wallets
+    switch (addressType) {
+      case BitcoinMultisigAddressType.P2SH:
+        return `m/45'`
+      case BitcoinMultisigAddressType.P2SH_P2WSH:
+        return `m/48'/${coinType}/0'/1'`
+      case BitcoinMultisigAddressType.P2WSH:
+        return `m/48'/${coinType}/0'/2'`
+      default:
+        assertNever(addressType)
+        throw new UnsupportedError(Domain.BITCOIN, `Unsupported multisig address type ${addressType}`)
+    }
+  }
+
+  protected getExtendedNode(extendedKey: string): any {
+    return this.options.config.bitcoinJSLib.HDNode.fromBase58(extendedKey, this.options.network.extras.network)
+  }
+
+  protected isPsbtTransaction(transaction: RawBitcoinTransaction | RawBitcoinPsbtTransaction): transaction is RawBitcoinPsbtTransaction {
+    return (transaction as RawBitcoinPsbtTransaction).psbt !== undefined
+  }
+
+  private decodePsbt(psbt: string | Buffer): BitcoinPsbt {
+    const network = this.options.network.extras.network
+
+    return typeof psbt === 'string' ? BitcoinPsbt.fromString(psbt, network) : BitcoinPsbt.fromBuffer(psbt, network)
+  }
+
+  private getRelativeDerivationPath(path: string): number[] {
+    // account level extended keys can only derive the last two (change and address index) levels, which are never hardened
+    return path
+      .split('/')
+      .slice(-2)
+      .map((segment: string) => (segment.endsWith(`'`) || segment.endsWith('h') ? NaN : parseInt(segment, 10)))
+  }
+
+  private findPsbtKeyNode(node: any, derivations: PsbtBip32Derivation[]): any | undefined {
+    for (const derivation of derivations) {
+      const [visibilityIndex, addressIndex]: number[] = this.getRelativeDerivationPath(derivation.path)
+      if (isNaN(visibilityIndex) || isNaN(addressIndex)) {
+        continue
+      }
+
+      const keyNode = node.derive(visibilityIndex).derive(addressIndex)
+      if (keyNode.getPublicKeyBuffer().equals(derivation.publicKey)) {
+        return keyNode
+      }
+    }
+
+    return undefined
+  }
+
+  // the change address is derived from the extended public key, the derivation of the PSBT only provides its index
+  private async isChangeScriptOfExtendedPublicKey(
+    script: Buffer,
+    extendedPublicKey: string,
+    derivation: PsbtBip32Derivation
+  ): Promise<boolean> {
+    const [visibilityIndex, addressIndex]: number[] = this.getRelativeDerivationPath(derivation.path)
+    if (visibilityIndex !== 1 || isNaN(addressIndex)) {
+      return false
+    }
+
+    try {
+      const changeAddress: BitcoinAddress = await this.getAddressFromExtendedPublicKey(extendedPublicKey, visibilityIndex, addressIndex)
+
+      const changeScript: Buffer = this.options.config.bitcoinJSLib.address.toOutputScript(
+        changeAddress.getValue(),
+        this.options.network.extras.network
+      )
+
+      return changeScript.equals(script)
+    } catch {
+      // not an extended public key of this protocol
+      return false
+    }
+  }
+
+  // the scripts of a PSBT could contain other keys or another threshold, so they are rebuilt from the cosigners of the wallet
+  private async assertMultisigPsbt(config: BitcoinMultisigConfig, psbt: string): Promise<void> {
+    const bitcoinPsbt: BitcoinPsbt = this.decodePsbt(psbt)
+    const isSameScript = (expected: Buffer | undefined, actual: Buffer | undefined): boolean =>
+      expected === undefined || actual === undefined ? expected === actual : expected.equals(actual)
+    const isOfConfig = async (
+      derivations: PsbtBip32Derivation[],
+      scripts: BitcoinMultisigScripts,
+      visibilityIndex?: number
+    ): Promise<boolean> => {
+      for (const derivation of derivations) {
+        const address: BitcoinMultisigAddress | undefined = await this.getMultisigAddressOfDerivation(config, derivation)
+        if (
+          address !== undefined &&
+          (visibilityIndex === undefined || address.visibilityDerivationIndex === visibilityIndex) &&
+          isSameScript(address.scripts.outputScript, scripts.outputScript) &&
+          isSameScript(address.scripts.redeemScript, scripts.redeemScript) &&
+          isSameScript(address.scripts.witnessScript, scripts.witnessScript)
+        ) {
+          return true
+        }
+      }
+
+      return false
+    }
+
+    for (let index: number = 0; index < bitcoinPsbt.inputs.length; index++) {
+      const input: PsbtInput = bitcoinPsbt.inputs[index]
+      const scripts: BitcoinMultisigScripts = {
+        outputScript: bitcoinPsbt.getInputScript(index),
+        redeemScript: input.redeemScript,
+        witnessScript: input.witnessScript
+      }
+      if (!(await isOfConfig(input.bip32Derivations, scripts))) {
+        throw new ConditionViolationError(Domain.BITCOIN, `Input ${index} does not belong to the multisig wallet.`)
+      }
+    }
+
+    // outputs without derivations are recipients, all others claim to be change
+    for (let index: number = 0; index < bitcoinPsbt.outputs.length; index++) {
+      const output: PsbtOutput = bitcoinPsbt.outputs[index]
+      const scripts: BitcoinMultisigScripts = {
+        outputScript: bitcoinPsbt.transaction.outs[index].script,
+        redeemScript: output.redeemScript,
+        witnessScript: output.witnessScript
+      }
+      if (output.bip32Derivations.length > 0 && !(await isOfConfig(output.bip32Derivations, scripts, 1))) {
+        throw new ConditionViolationError(Domain.BITCOIN, `Change output ${index} does not belong to the multisig wallet.`)
+      }
+    }
+  }
+
+  private async getMultisigAddressOfDerivation(
+    config: BitcoinMultisigConfig,
+    derivation: PsbtBip32Derivation
+  ): Promise<BitcoinMultisigAddress | undefined> {
+    const [visibilityIndex, addressIndex]: number[] = this.getRelativeDerivationPath(derivation.path)
+
+    return isNaN(visibilityIndex) || isNaN(addressIndex)
+      ? undefined
+      : this.getAddressFromMultisigConfig(config, visibilityIndex, addressIndex)
+  }
+
   private containsSome(needles: any[], haystack: any[]): boolean {
     for (const needle of needles) {
       if (haystack.indexOf(needle) > -1) {
@@ -0,0 +1,568 @@
+import * as bitcoinJS from '../../dependencies/src/bitgo-utxo-lib-5d91049fd7a988382df81c8260e244ee56d57aac/src/index'
+import * as varuint from '../../dependencies/src/varuint-bitcoin-1.1.2/index'
+import { ConditionViolationError, InvalidValueError, UnsupportedError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+
+// BIP174: https://github.com/bitcoin/bips/blob/master/bip-0174.mediawiki
+const PSBT_MAGIC: Buffer = Buffer.from('70736274ff', 'hex')
+
+const HARDENED_OFFSET: number = 0x80000000
+
+enum PsbtGlobalType {
+  UNSIGNED_TX = 0x00
+}
+
+enum PsbtInputType {
+  NON_WITNESS_UTXO = 0x00,
+  WITNESS_UTXO = 0x01,
+  PARTIAL_SIG = 0x02,
+  SIGHASH_TYPE = 0x03,
+  REDEEM_SCRIPT = 0x04,
+  WITNESS_SCRIPT = 0x05,
+  BIP32_DERIVATION = 0x06,
+  FINAL_SCRIPTSIG = 0x07,
+  FINAL_SCRIPTWITNESS = 0x08
+}
+
+enum PsbtOutputType {
+  REDEEM_SCRIPT = 0x00,
+  WITNESS_SCRIPT = 0x01,
+  BIP32_DERIVATION = 0x02
+}
+
+export interface PsbtKeyValue {
+  key: Buffer
+  value: Buffer
+}
+
+export interface PsbtWitnessUtxo {
+  script: Buffer
+  value: number
+}
+
+export interface PsbtPartialSignature {
+  publicKey: Buffer
+  signature: Buffer
+}
+
+export interface PsbtBip32Derivation {
+  publicKey: Buffer
+  masterFingerprint: Buffer
+  path: string
+}
+
+export interface PsbtInput {
+  nonWitnessUtxo?: Buffer
+  witnessUtxo?: PsbtWitnessUtxo
+  partialSignatures: PsbtPartialSignature[]
+  sighashType?: number
+  redeemScript?: Buffer
+  witnessScript?: Buffer
+  bip32Derivations: PsbtBip32Derivation[]
+  finalScriptSig?: Buffer
+  finalScriptWitness?: Buffer
+  unknownKeyValues: PsbtKeyValue[]
+}
+
+export interface PsbtOutput {
+  redeemScript?: Buffer
+  witnessScript?: Buffer
+  bip32Derivations: PsbtBip32Derivation[]
+  unknownKeyValues: PsbtKeyValue[]
+}
+
+class PsbtReader {
+  private offset: number = 0
+
+  constructor(private readonly buffer: Buffer) {}
+
+  public isAtEnd(): boolean {
+    return this.offset >= this.buffer.length
+  }
+
+  public readSlice(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new InvalidValueError(Domain.BITCOIN, 'Unexpected end of PSBT data.')
+    }
+    const slice: Buffer = this.buffer.slice(this.offset, this.offset + length)
+    this.offset += length
+
+    return slice
+  }
+
+  public readVarInt(): number {
+    const value: number = varuint.decode(this.buffer, this.offset)
+    this.offset += varuint.decode.bytes
+
+    return value
+  }
+
+  public readVarSlice(): Buffer {
+    return this.readSlice(this.readVarInt())
+  }
+
+  public readKeyValueMap(): PsbtKeyValue[] {
+    const keyValues: PsbtKeyValue[] = []
+    for (let keyLength: number = this.readVarInt(); keyLength !== 0; keyLength = this.readVarInt()) {
+      const key: Buffer = this.readSlice(keyLength)
+      const value: Buffer = this.readVarSlice()
+      if (keyValues.some((keyValue: PsbtKeyValue) => keyValue.key.equals(key))) {
+        throw new InvalidValueError(Domain.BITCOIN, `Duplicate PSBT key ${key.toString('hex')}.`)
+      }
+      keyValues.push({ key, value })
+    }
+
+    return keyValues
+  }
+}
+
+function encodeVarSlice(slice: Buffer): Buffer {
+  return Buffer.concat([varuint.encode(slice.length), slice])
+}
+
+function encodeKeyValueMap(keyValues: PsbtKeyValue[]): Buffer {
+  return Buffer.concat([
+    ...keyValues.map((keyValue: PsbtKeyValue) => Buffer.concat([encodeVarSlice(keyValue.key), encodeVarSlice(keyValue.value)])),
+    Buffer.from([0x00])
+  ])
+}
+
+function typedKey(type: number, keyData: Buffer = Buffer.alloc(0)): Buffer {
+  return Buffer.concat([Buffer.from([type]), keyData])
+}
+
+function decodeWitnessUtxo(value: Buffer): PsbtWitnessUtxo {
+  const reader: PsbtReader = new PsbtReader(value)
+  const amount: number = bitcoinJS.bufferutils.readUInt64LE(reader.readSlice(8), 0)
+
+  return { value: amount, script: reader.readVarSlice() }
+}
+
+function encodeWitnessUtxo(witnessUtxo: PsbtWitnessUtxo): Buffer {
+  const amount: Buffer = Buffer.alloc(8)
+  bitcoinJS.bufferutils.writeUInt64LE(amount, witnessUtxo.value, 0)
+
+  return Buffer.concat([amount, encodeVarSlice(witnessUtxo.script)])
+}
+
+function decodeBip32Derivation(publicKey: Buffer, value: Buffer): PsbtBip32Derivation {
+  if (value.length < 4 || value.length % 4 !== 0) {
+    throw new InvalidValueError(Domain.BITCOIN, 'Invalid PSBT BIP32 derivation.')
+  }
+  const indexes: string[] = []
+  for (let offset: number = 4; offset < value.length; offset += 4) {
+    const index: number = value.readUInt32LE(offset)
+    indexes.push(index >= HARDENED_OFFSET ? `${index - HARDENED_OFFSET}'` : index.toString())
+  }
+
+  return { publicKey, masterFingerprint: value.slice(0, 4), path: ['m', ...indexes].join('/') }
+}
+
+function encodeBip32Derivation(derivation: PsbtBip32Derivation): Buffer {
+  const indexes: Buffer[] = derivation.path
+    .split('/')
+    .filter((segment: string) => segment !== 'm')
+    .map((segment: string) => {
+      const isHardened: boolean = segment.endsWith(`'`) || segment.endsWith('h')
+      const index: Buffer = Buffer.alloc(4)
+      index.writeUInt32LE(parseInt(segment, 10) + (isHardened ? HARDENED_OFFSET : 0), 0)
+
+      return index
+    })
+
+  return Buffer.concat([derivation.masterFingerprint, ...indexes])
+}
+
+function decodeWitnessStack(value: Buffer): Buffer[] {
+  const reader: PsbtReader = new PsbtReader(value)
+  const count: number = reader.readVarInt()
+
+  return Array.from(new Array(count), () => reader.readVarSlice())
+}
+
+function encodeWitnessStack(witness: Buffer[]): Buffer {
+  return Buffer.concat([varuint.encode(witness.length), ...witness.map(encodeVarSlice)])
+}
+
+export class BitcoinPsbt {
+  private constructor(
+    public readonly transaction: any,
+    public readonly inputs: PsbtInput[],
+    public readonly outputs: PsbtOutput[],
+    private readonly unknownKeyValues: PsbtKeyValue[] = []
+  ) {}
+
+  public static isPsbt(psbt: string | Buffer): boolean {
+    if (typeof psbt === 'string') {
+      return BitcoinPsbt.isPsbt(BitcoinPsbt.decodeString(psbt))
+    }
+
+    return psbt.slice(0, PSBT_MAGIC.length).equals(PSBT_MAGIC)
+  }
+
+  public static fromTransaction(transaction: any): BitcoinPsbt {
+    const unsignedTransaction = transaction.clone()
+    unsignedTransaction.ins.forEach((input: any) => {
+      input.script = Buffer.alloc(0)
+      input.witness = []
+    })
+
+    return new BitcoinPsbt(
+      unsignedTransaction,
+      unsignedTransaction.ins.map(() => ({ partialSignatures: [], bip32Derivations: [], unknownKeyValues: [] })),
+      unsignedTransaction.outs.map(() => ({ bip32Derivations: [], unknownKeyValues: [] }))
+    )
+  }
+
+  public static fromString(psbt: string, network: any): BitcoinPsbt {
+    return BitcoinPsbt.fromBuffer(BitcoinPsbt.decodeString(psbt), network)
+  }
+
+  public static fromBuffer(buffer: Buffer, network: any): BitcoinPsbt {
+    if (!BitcoinPsbt.isPsbt(buffer)) {
+      throw new InvalidValueError(Domain.BITCOIN, 'Invalid PSBT magic bytes.')
+    }
+
+    const reader: PsbtReader = new PsbtReader(buffer.slice(PSBT_MAGIC.length))
+
+    let transaction: any | undefined
+    const globalUnknownKeyValues: PsbtKeyValue[] = []
+    for (const keyValue of reader.readKeyValueMap()) {
+      if (keyValue.key[0] === PsbtGlobalType.UNSIGNED_TX && keyValue.key.length === 1) {
+        transaction = bitcoinJS.Transaction.fromBuffer(keyValue.value, network)
+      } else {
+        globalUnknownKeyValues.push(keyValue)
+      }
+    }
+
+    if (transaction === undefined) {
+      throw new InvalidValueError(Domain.BITCOIN, 'PSBT does not contain an unsigned transaction.')
+    }
+    if (transaction.ins.some((input: any) => input.script.length > 0 || input.witness.length > 0)) {
+      throw new InvalidValueError(Domain.BITCOIN, 'PSBT unsigned transaction must not contain scripts or witnesses.')
+    }
+
+    const inputs: PsbtInput[] = transaction.ins.map(() => BitcoinPsbt.decodeInput(reader.readKeyValueMap()))
+    const outputs: PsbtOutput[] = transaction.outs.map(() => BitcoinPsbt.decodeOutput(reader.readKeyValueMap()))
+
+    if (!reader.isAtEnd()) {
+      throw new InvalidValueError(Domain.BITCOIN, 'Unexpected data after the last PSBT output.')
+    }
+
+    return new BitcoinPsbt(transaction, inputs, outputs, globalUnknownKeyValues)
+  }
+
+  public toBuffer(): Buffer {
+    return Buffer.concat([
+      PSBT_MAGIC,
+      encodeKeyValueMap([{ key: typedKey(PsbtGlobalType.UNSIGNED_TX), value: this.transaction.toBuffer() }, ...this.unknownKeyValues]),
+      ...this.inputs.map((input: PsbtInput) => encodeKeyValueMap(BitcoinPsbt.encodeInput(input))),
+      ...this.outputs.map((output: PsbtOutput) => encodeKeyValueMap(BitcoinPsbt.encodeOutput(output)))
+    ])
+  }
+
+  public toBase64(): string {
+    return this.toBuffer().toString('base64')
+  }
+
+  public getInputValue(index: number): number {
+    return this.getPreviousOutput(index).value
+  }
+
+  public getInputScript(index: number): Buffer {
+    return this.getPreviousOutput(index).script
+  }
+
+  public isFinalized(): boolean {
+    return this.inputs.every((input: PsbtInput) => input.finalScriptSig !== undefined || input.finalScriptWitness !== undefined)
+  }
+
+  // other sighash types leave parts of the transaction unsigned, so they have to be allowed explicitly
+  public signInput(index: number, keyPair: any, allowedSighashTypes: number[] = [bitcoinJS.Transaction.SIGHASH_ALL]): void {
+    const input: PsbtInput = this.inputs[index]
+    const hashType: number = input.sighashType ?? bitcoinJS.Transaction.SIGHASH_ALL
+    if (!allowedSighashTypes.includes(hashType)) {
+      throw new ConditionViolationError(Domain.BITCOIN, `Sighash type ${hashType} of input ${index} is not allowed.`)
+    }
+
+    const prevOutScript: Buffer = this.getInputScript(index)
+
+    if (
+      input.redeemScript !== undefined &&
+      !bitcoinJS.script.scriptHash.output.encode(bitcoinJS.crypto.hash160(input.redeemScript)).equals(prevOutScript)
+    ) {
+      throw new ConditionViolationError(Domain.BITCOIN, `Redeem script of input ${index} does not match its previous output.`)
+    }
+
+    const scriptCode: Buffer = input.redeemScript ?? prevOutScript
+    if (
+      input.witnessScript !== undefined &&
+      !bitcoinJS.script.witnessScriptHash.output.encode(bitcoinJS.crypto.sha256(input.witnessScript)).equals(scriptCode)
+    ) {
+      throw new ConditionViolationError(Domain.BITCOIN, `Witness script of input ${index} does not match its previous output.`)
+    }
+
+    let hash: Buffer
+    if (input.witnessScript !== undefined) {
+      hash = this.transaction.hashForWitnessV0(index, input.witnessScript, this.getInputValue(index), hashType)
+    } else if (bitcoinJS.script.witnessPubKeyHash.output.check(scriptCode)) {
+      const signScript: Buffer = bitcoinJS.script.pubKeyHash.output.encode(scriptCode.slice(2))
+      hash = this.transaction.hashForWitnessV0(index, signScript, this.getInputValue(index), hashType)
+    } else {
+      hash = this.transaction.hashForSignature(index, scriptCode, hashType)
+    }
+
+    const publicKey: Buffer = keyPair.getPublicKeyBuffer()
+    const signature: Buffer = keyPair.sign(hash).toScriptSignature(hashType)
+    input.partialSignatures = [
+      ...input.partialSignatures.filter((partialSignature: PsbtPartialSignature) => !partialSignature.publicKey.equals(publicKey)),
+      { publicKey, signature }
+    ]
+  }
+
+  public combine(other: BitcoinPsbt): void {
+    if (!other.transaction.getHash().equals(this.transaction.getHash())) {
+      throw new InvalidValueError(Domain.BITCOIN, 'PSBTs of different transactions cannot be combined.')
+    }
+
+    this.inputs.forEach((input: PsbtInput, index: number) => {
+      const otherInput: PsbtInput = other.inputs[index]
+      input.partialSignatures = [
+        ...input.partialSignatures,
+        ...otherInput.partialSignatures.filter(
+          (partialSignature: PsbtPartialSignature) =>
+            !input.partialSignatures.some((ownSignature: PsbtPartialSignature) => ownSignature.publicKey.equals(partialSignature.publicKey))
+        )
+      ]
+      input.finalScriptSig = input.finalScriptSig ?? otherInput.finalScriptSig
+      input.finalScriptWitness = input.finalScriptWitness ?? otherInput.finalScriptWitness
+    })
+  }
+
+  public finalize(): void {
+    this.inputs.forEach((_: PsbtInput, index: number) => {
+      this.finalizeInput(index)
+    })
+  }
+
+  public extractTransaction(): any {
+    if (!this.isFinalized()) {
+      throw new ConditionViolationError(Domain.BITCOIN, 'PSBT is not finalized.')
+    }
+
+    const transaction = this.transaction.clone()
+    this.inputs.forEach((input: PsbtInput, index: number) => {
+      transaction.setInputScript(index, input.finalScriptSig ?? Buffer.alloc(0))
+      transaction.setWitness(index, input.finalScriptWitness !== undefined ? decodeWitnessStack(input.finalScriptWitness) : [])
+    })
+
+    return transaction
+  }
+
+  private finalizeInput(index: number): void {
+    const input: PsbtInput = this.inputs[index]
+    if (input.finalScriptSig !== undefined || input.finalScriptWitness !== undefined) {
+      return
+    }
+
+    const scriptCode: Buffer = input.redeemScript ?? this.getInputScript(index)
+    const [partialSignature]: PsbtPartialSignature[] = input.partialSignatures
+    if (partialSignature === undefined) {
+      throw new ConditionViolationError(Domain.BITCOIN, `Input ${index} has not been signed.`)
+    }
+
+    const multisigScript: Buffer = input.witnessScript ?? scriptCode
+    if (bitcoinJS.script.multisig.output.check(multisigScript)) {
+      const { m, pubKeys }: { m: number; pubKeys: Buffer[] } = bitcoinJS.script.multisig.output.decode(multisigScript)
+      // the signatures have to be in the same order as the public keys of the script
+      const signatures: Buffer[] = pubKeys
+        .map((publicKey: Buffer) =>
+          input.partialSignatures.find((signature: PsbtPartialSignature) => signature.publicKey.equals(publicKey))
+        )
+        .filter((signature: PsbtPartialSignature | undefined): signature is PsbtPartialSignature => signature !== undefined)
+        .map((signature: PsbtPartialSignature) => signature.signature)
+        .slice(0, m)
+      if (signatures.length < m) {
+        throw new ConditionViolationError(Domain.BITCOIN, `Input ${index} has ${signatures.length} of ${m} required signatures.`)
+      }
+
+      if (input.witnessScript !== undefined) {
+        // OP_CHECKMULTISIG consumes one more item than it uses
+        input.finalScriptWitness = encodeWitnessStack([Buffer.alloc(0), ...signatures, input.witnessScript])
+        if (input.redeemScript !== undefined) {
+          input.finalScriptSig = bitcoinJS.script.compile([input.redeemScript])
+        }
+      } else {
+        input.finalScriptSig = bitcoinJS.script.compile([bitcoinJS.opcodes.OP_0, ...signatures, multisigScript])
+      }
+    } else if (bitcoinJS.script.pubKeyHash.output.check(scriptCode)) {
+      input.finalScriptSig = bitcoinJS.script.pubKeyHash.input.encode(partialSignature.signature, partialSignature.publicKey)
+    } else if (bitcoinJS.script.witnessPubKeyHash.output.check(scriptCode)) {
+      input.finalScriptWitness = encodeWitnessStack([partialSignature.signature, partialSignature.publicKey])
+      if (input.redeemScript !== undefined) {
+        input.finalScriptSig = bitcoinJS.script.compile([input.redeemScript])
+      }
+    } else {
+      throw new UnsupportedError(Domain.BITCOIN, `Input ${index} has an unsupported script type.`)
+    }
+
+    input.partialSignatures = []
+    input.sighashType = undefined
+    input.redeemScript = undefined
+    input.witnessScript = undefined
+    input.bip32Derivations = []
+  }
+
+  private getPreviousOutput(index: number): PsbtWitnessUtxo {
+    const input: PsbtInput = this.inputs[index]
+    if (input.nonWitnessUtxo !== undefined) {
+      return this.getNonWitnessUtxoOutput(index)
+    }
+
+    // only SegWit signatures commit to the amount, the witness UTXO of a legacy input could claim any value
+    if (input.witnessUtxo !== undefined && this.isWitnessScript(input.witnessUtxo.script, input.redeemScript)) {
+      return input.witnessUtxo
+    }
+
+    throw new ConditionViolationError(Domain.BITCOIN, `Input ${index} is missing its previous transaction.`)
+  }
+
+  private isWitnessScript(script: Buffer, redeemScript?: Buffer): boolean {
+    const program: Buffer =
+      redeemScript !== undefined && bitcoinJS.script.scriptHash.output.encode(bitcoinJS.crypto.hash160(redeemScript)).equals(script)
+        ? redeemScript
+        : script
+
+    return bitcoinJS.script.witnessPubKeyHash.output.check(program) || bitcoinJS.script.witnessScriptHash.output.check(program)
+  }
+
+  private getNonWitnessUtxoOutput(index: number): PsbtWitnessUtxo {
+    const nonWitnessUtxo: Buffer | undefined = this.inputs[index].nonWitnessUtxo
+    if (nonWitnessUtxo === undefined) {
+      throw new ConditionViolationError(Domain.BITCOIN, `Input ${index} is missing its previous output.`)
+    }
+
+    const previousTransaction = bitcoinJS.Transaction.fromBuffer(nonWitnessUtxo, this.transaction.network)
+    if (!previousTransaction.getHash().equals(this.transaction.ins[index].hash)) {
+      throw new InvalidValueError(Domain.BITCOIN, `Previous transaction of input ${index} does not match its outpoint.`)
+    }
+
+    return previousTransaction.outs[this.transaction.ins[index].index]
+  }
+
+  private static decodeString(psbt: string): Buffer {
+    // PSBTs are usually exchanged base64 encoded, but some tools also use hex
+    return /^([0-9a-fA-F]{2})+$/.test(psbt) ? Buffer.from(psbt, 'hex') : Buffer.from(psbt, 'base64')
+  }
+
+  private static decodeInput(keyValues: PsbtKeyValue[]): PsbtInput {
+    const input: PsbtInput = { partialSignatures: [], bip32Derivations: [], unknownKeyValues: [] }
+    for (const { key, value } of keyValues) {
+      const keyData: Buffer = key.slice(1)
+      switch (key[0]) {
+        case PsbtInputType.NON_WITNESS_UTXO:
+          input.nonWitnessUtxo = value
+          break
+        case PsbtInputType.WITNESS_UTXO:
+          input.witnessUtxo = decodeWitnessUtxo(value)
+          break
+        case PsbtInputType.PARTIAL_SIG:
+          input.partialSignatures.push({ publicKey: keyData, signature: value })
+          break
+        case PsbtInputType.SIGHASH_TYPE:
+          input.sighashType = value.readUInt32LE(0)
+          break
+        case PsbtInputType.REDEEM_SCRIPT:
+          input.redeemScript = value
+          break
+        case PsbtInputType.WITNESS_SCRIPT:
+          input.witnessScript = value
+          break
+        case PsbtInputType.BIP32_DERIVATION:
+          input.bip32Derivations.push(decodeBip32Derivation(keyData, value))
+          break
+        case PsbtInputType.FINAL_SCRIPTSIG:
+          input.finalScriptSig = value
+          break
+        case PsbtInputType.FINAL_SCRIPTWITNESS:
+          input.finalScriptWitness = value
+          break
+        default:
+          input.unknownKeyValues.push({ key, value })
+      }
+    }
+
+    return input
+  }
+
+  private static encodeInput(input: PsbtInput): PsbtKeyValue[] {
+    const keyValues: PsbtKeyValue[] = []
+    if (input.nonWitnessUtxo !== undefined) {
+      keyValues.push({ key: typedKey(PsbtInputType.NON_WITNESS_UTXO), value: input.nonWitnessUtxo })
+    }
+    if (input.witnessUtxo !== undefined) {
+      keyValues.push({ key: typedKey(PsbtInputType.WITNESS_UTXO), value: encodeWitnessUtxo(input.witnessUtxo) })
+    }
+    for (const partialSignature of input.partialSignatures) {
+      keyValues.push({ key: typedKey(PsbtInputType.PARTIAL_SIG, partialSignature.publicKey), value: partialSignature.signature })
+    }
+    if (input.sighashType !== undefined) {
+      const sighashType: Buffer = Buffer.alloc(4)
+      sighashType.writeUInt32LE(input.sighashType, 0)
+      keyValues.push({ key: typedKey(PsbtInputType.SIGHASH_TYPE), value: sighashType })
+    }
+    if (input.redeemScript !== undefined) {
+      keyValues.push({ key: typedKey(PsbtInputType.REDEEM_SCRIPT), value: input.redeemScript })
+    }
+    if (input.witnessScript !== undefined) {
+      keyValues.push({ key: typedKey(PsbtInputType.WITNESS_SCRIPT), value: input.witnessScript })
+    }
+    for (const derivation of input.bip32Derivations) {
+      keyValues.push({ key: typedKey(PsbtInputType.BIP32_DERIVATION, derivation.publicKey), value: encodeBip32Derivation(derivation) })
+    }
+    if (input.finalScriptSig !== undefined) {
+      keyValues.push({ key: typedKey(PsbtInputType.FINAL_SCRIPTSIG), value: input.finalScriptSig })
+    }
+    if (input.finalScriptWitness !== undefined) {
+      keyValues.push({ key: typedKey(PsbtInputType.FINAL_SCRIPTWITNESS), value: input.finalScriptWitness })
+    }
+
+    return [...keyValues, ...input.unknownKeyValues]
+  }
+
+  private static decodeOutput(keyValues: PsbtKeyValue[]): PsbtOutput {
+    const output: PsbtOutput = { bip32Derivations: [], unknownKeyValues: [] }
+    for (const { key, value } of keyValues) {
+      switch (key[0]) {
+        case PsbtOutputType.REDEEM_SCRIPT:
+          output.redeemScript = value
+          break
+        case PsbtOutputType.WITNESS_SCRIPT:
+          output.witnessScript = value
+          break
+        case PsbtOutputType.BIP32_DERIVATION:
+          output.bip32Derivations.push(decodeBip32Derivation(key.slice(1), value))
+          break
+        default:
+          output.unknownKeyValues.push({ key, value })
+      }
+    }
+
+    return output
+  }
+
+  private static encodeOutput(output: PsbtOutput): PsbtKeyValue[] {
+    const keyValues: PsbtKeyValue[] = []
+    if (output.redeemScript !== undefined) {
+      keyValues.push({ key: typedKey(PsbtOutputType.REDEEM_SCRIPT), value: output.redeemScript })
+    }
+    if (output.witnessScript !== undefined) {
+      keyValues.push({ key: typedKey(PsbtOutputType.WITNESS_SCRIPT), value: output.witnessScript })
+    }
+    for (const derivation of output.bip32Derivations) {
+      keyValues.push({ key: typedKey(PsbtOutputType.BIP32_DERIVATION, derivation.publicKey), value: encodeBip32Derivation(derivation) })
+    }
+
+    return [...keyValues, ...output.unknownKeyValues]
+  }
+}
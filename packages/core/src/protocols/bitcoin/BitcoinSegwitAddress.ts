@@ -0,0 +1,61 @@
+import * as bitcoinJS from '../../dependencies/src/bitgo-utxo-lib-5d91049fd7a988382df81c8260e244ee56d57aac/src/index'
+import { UnsupportedError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+import { assertNever } from '../../utils/assert'
+
+import { BitcoinAddress } from './BitcoinAddress'
+import { BitcoinAddressType } from './BitcoinTypes'
+
+export class BitcoinSegwitAddress extends BitcoinAddress {
+  private constructor(
+    value: string,
+    public readonly addressType: BitcoinAddressType,
+    visibilityDerivationIndex?: number,
+    addressDerivationIndex?: number
+  ) {
+    super(value, visibilityDerivationIndex, addressDerivationIndex)
+  }
+
+  public static fromNode(
+    node: any,
+    addressType: BitcoinAddressType,
+    visibilityDerivationIndex?: number,
+    addressDerivationIndex?: number
+  ): BitcoinSegwitAddress {
+    const _node =
+      visibilityDerivationIndex !== undefined && addressDerivationIndex !== undefined
+        ? node.derive(visibilityDerivationIndex).derive(addressDerivationIndex)
+        : node
+
+    return new BitcoinSegwitAddress(
+      BitcoinSegwitAddress.encode(_node.getPublicKeyBuffer(), addressType, _node.getNetwork()),
+      addressType,
+      visibilityDerivationIndex,
+      addressDerivationIndex
+    )
+  }
+
+  public static getOutputScript(publicKey: Buffer, addressType: BitcoinAddressType): Buffer {
+    const publicKeyHash: Buffer = bitcoinJS.crypto.hash160(publicKey)
+
+    switch (addressType) {
+      case BitcoinAddressType.P2PKH:
+        return bitcoinJS.script.pubKeyHash.output.encode(publicKeyHash)
+      case BitcoinAddressType.P2SH_P2WPKH:
+        return bitcoinJS.script.scriptHash.output.encode(bitcoinJS.crypto.hash160(BitcoinSegwitAddress.getRedeemScript(publicKey)))
+      case BitcoinAddressType.P2WPKH:
+        return bitcoinJS.script.witnessPubKeyHash.output.encode(publicKeyHash)
+      default:
+        assertNever(addressType)
+        throw new UnsupportedError(Domain.BITCOIN, `Unsupported address type ${addressType}`)
+    }
+  }
+
+  public static getRedeemScript(publicKey: Buffer): Buffer {
+    return bitcoinJS.script.witnessPubKeyHash.output.encode(bitcoinJS.crypto.hash160(publicKey))
+  }
+
+  private static encode(publicKey: Buffer, addressType: BitcoinAddressType, network: any): string {
+    return bitcoinJS.address.fromOutputScript(BitcoinSegwitAddress.getOutputScript(publicKey, addressType), network)
+  }
+}
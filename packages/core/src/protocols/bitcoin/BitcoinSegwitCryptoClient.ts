@@ -0,0 +1,22 @@
+import { BitcoinCryptoClient } from './BitcoinCryptoClient'
+import { BitcoinSegwitProtocol } from './BitcoinSegwitProtocol'
+import { BitcoinAddressType } from './BitcoinTypes'
+
+export class BitcoinSegwitCryptoClient extends BitcoinCryptoClient {
+  constructor(private readonly segwitProtocol: BitcoinSegwitProtocol, bitcoinJSMessage: any) {
+    super(segwitProtocol, bitcoinJSMessage)
+  }
+
+  public async signMessage(message: string, keypair: { privateKey: Buffer }): Promise<string> {
+    const segwitType: string | undefined =
+      this.segwitProtocol.defaultAddressType === BitcoinAddressType.P2WPKH
+        ? 'p2wpkh'
+        : this.segwitProtocol.defaultAddressType === BitcoinAddressType.P2SH_P2WPKH
+        ? 'p2sh(p2wpkh)'
+        : undefined
+
+    const signature: Buffer = this.bitcoinJSMessage.sign(message, keypair.privateKey, true, { segwitType })
+
+    return signature.toString('base64')
+  }
+}
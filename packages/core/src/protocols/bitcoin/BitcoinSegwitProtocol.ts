@@ -0,0 +1,259 @@
+import * as BigInteger from '../../dependencies/src/bigi-1.4.2/lib/index'
+import BigNumber from '../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import * as bitcoinJSMessage from '../../dependencies/src/bitcoinjs-message-2.1.1/index'
+import * as bs58check from '../../dependencies/src/bs58check-2.1.2/index'
+import { ConditionViolationError, InvalidValueError, UnsupportedError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+import { IAirGapSignedTransaction } from '../../interfaces/IAirGapSignedTransaction'
+import { IInTransaction, RawBitcoinPsbtTransaction, RawBitcoinTransaction } from '../../serializer/types'
+import { assertNever } from '../../utils/assert'
+import { MainProtocolSymbols, ProtocolSymbols } from '../../utils/ProtocolSymbols'
+
+import { BitcoinProtocol } from './BitcoinProtocol'
+import { BitcoinProtocolOptions } from './BitcoinProtocolOptions'
+import { BitcoinSegwitAddress } from './BitcoinSegwitAddress'
+import { BitcoinSegwitCryptoClient } from './BitcoinSegwitCryptoClient'
+import { BitcoinAddressType } from './BitcoinTypes'
+
+interface ExtendedKeyVersion {
+  public: number
+  private: number
+}
+
+type ExtendedKeyVersions = { [key in BitcoinAddressType]: ExtendedKeyVersion }
+
+// SLIP-0132 version bytes, used to tell the address type of an extended key apart (xpub, ypub, zpub)
+const MAINNET_EXTENDED_KEY_VERSIONS: ExtendedKeyVersions = {
+  [BitcoinAddressType.P2PKH]: { public: 0x0488b21e, private: 0x0488ade4 },
+  [BitcoinAddressType.P2SH_P2WPKH]: { public: 0x049d7cb2, private: 0x049d7878 },
+  [BitcoinAddressType.P2WPKH]: { public: 0x04b24746, private: 0x04b2430c }
+}
+
+const TESTNET_EXTENDED_KEY_VERSIONS: ExtendedKeyVersions = {
+  [BitcoinAddressType.P2PKH]: { public: 0x043587cf, private: 0x04358394 },
+  [BitcoinAddressType.P2SH_P2WPKH]: { public: 0x044a5262, private: 0x044a4e28 },
+  [BitcoinAddressType.P2WPKH]: { public: 0x045f1cf6, private: 0x045f18bc }
+}
+
+interface DecodedExtendedKey {
+  node: any
+  addressType: BitcoinAddressType
+}
+
+export class BitcoinSegwitProtocol extends BitcoinProtocol {
+  public name: string = 'Bitcoin (SegWit)'
+  public identifier: ProtocolSymbols = MainProtocolSymbols.BTC_SEGWIT
+
+  public standardDerivationPath: string = `m/84'/0'/0'`
+
+  public addressValidationPattern: string = '^(?:[13][a-km-zA-HJ-NP-Z1-9]{25,34}|bc1[ac-hj-np-z02-9]{39,59})$'
+  public addressPlaceholder: string = 'bc1...'
+
+  public readonly cryptoClient: BitcoinSegwitCryptoClient
+
+  constructor(
+    options: BitcoinProtocolOptions = new BitcoinProtocolOptions(),
+    public readonly defaultAddressType: BitcoinAddressType = BitcoinAddressType.P2WPKH
+  ) {
+    super(options)
+    this.cryptoClient = new BitcoinSegwitCryptoClient(this, bitcoinJSMessage)
+  }
+
+  public async getPublicKeyFromHexSecret(secret: string, derivationPath: string): Promise<string> {
+    const bitcoinNode = this.options.config.bitcoinJSLib.HDNode.fromSeedHex(secret, this.options.network.extras.network)
+
+    return this.encodeExtendedKey(bitcoinNode.derivePath(derivationPath).neutered(), this.getAddressTypeFromDerivationPath(derivationPath))
+  }
+
+  public async getExtendedPrivateKeyFromHexSecret(secret: string, derivationPath: string): Promise<string> {
+    const bitcoinNode = this.options.config.bitcoinJSLib.HDNode.fromSeedHex(secret, this.options.network.extras.network)
+
+    return this.encodeExtendedKey(bitcoinNode.derivePath(derivationPath), this.getAddressTypeFromDerivationPath(derivationPath))
+  }
+
+  public async getAddressFromPublicKey(publicKey: string): Promise<BitcoinSegwitAddress> {
+    const { node, addressType }: DecodedExtendedKey = this.decodeExtendedKey(publicKey)
+
+    return BitcoinSegwitAddress.fromNode(node, addressType)
+  }
+
+  public async getAddressesFromPublicKey(publicKey: string): Promise<BitcoinSegwitAddress[]> {
+    return [await this.getAddressFromPublicKey(publicKey)]
+  }
+
+  public async getAddressFromExtendedPublicKey(
+    extendedPublicKey: string,
+    visibilityDerivationIndex: number,
+    addressDerivationIndex: number
+  ): Promise<BitcoinSegwitAddress> {
+    const { node, addressType }: DecodedExtendedKey = this.decodeExtendedKey(extendedPublicKey)
+
+    return BitcoinSegwitAddress.fromNode(node, addressType, visibilityDerivationIndex, addressDerivationIndex)
+  }
+
+  public async getAddressesFromExtendedPublicKey(
+    extendedPublicKey: string,
+    visibilityDerivationIndex: number,
+    addressCount: number,
+    offset: number
+  ): Promise<BitcoinSegwitAddress[]> {
+    const { node, addressType }: DecodedExtendedKey = this.decodeExtendedKey(extendedPublicKey)
+    const generatorArray: number[] = Array.from(new Array(addressCount), (_, i: number) => i + offset)
+
+    return generatorArray.map((x: number) => BitcoinSegwitAddress.fromNode(node, addressType, visibilityDerivationIndex, x))
+  }
+
+  public async getNextAddressFromPublicKey(publicKey: string, current: BitcoinSegwitAddress): Promise<BitcoinSegwitAddress> {
+    const { node, addressType }: DecodedExtendedKey = this.decodeExtendedKey(publicKey)
+
+    return BitcoinSegwitAddress.fromNode(
+      node,
+      addressType,
+      current.visibilityDerivationIndex,
+      current.addressDerivationIndex !== undefined ? current.addressDerivationIndex + 1 : undefined
+    )
+  }
+
+  public async signWithPrivateKey(privateKey: Buffer, transaction: RawBitcoinTransaction): Promise<IAirGapSignedTransaction> {
+    const bitcoinJSLib = this.options.config.bitcoinJSLib
+    const keyPair = new bitcoinJSLib.ECPair(BigInteger.fromBuffer(privateKey), null, { network: this.options.network.extras.network })
+    const changeAddress: string = bitcoinJSLib.address.fromOutputScript(
+      BitcoinSegwitAddress.getOutputScript(keyPair.getPublicKeyBuffer(), this.defaultAddressType),
+      this.options.network.extras.network
+    )
+
+    const transactionBuilder = new bitcoinJSLib.TransactionBuilder(this.options.network.extras.network)
+    for (const input of transaction.ins) {
+      this.addInput(transactionBuilder, input, keyPair.getPublicKeyBuffer(), this.defaultAddressType)
+    }
+
+    for (const output of transaction.outs) {
+      if (output.isChange && output.recipient !== changeAddress) {
+        throw new ConditionViolationError(Domain.BITCOIN, 'Change address could not be verified.')
+      }
+      transactionBuilder.addOutput(output.recipient, new BigNumber(output.value).toNumber())
+    }
+
+    for (let i = 0; i < transaction.ins.length; i++) {
+      this.signInput(transactionBuilder, i, keyPair, new BigNumber(transaction.ins[i].value).toNumber(), this.defaultAddressType)
+    }
+
+    return transactionBuilder.build().toHex()
+  }
+
+  public async signWithExtendedPrivateKey(
+    extendedPrivateKey: string,
+    transaction: RawBitcoinTransaction | RawBitcoinPsbtTransaction
+  ): Promise<string> {
+    if (this.isPsbtTransaction(transaction)) {
+      return this.signPsbtWithExtendedPrivateKey(extendedPrivateKey, transaction.psbt)
+    }
+
+    const { node, addressType }: DecodedExtendedKey = this.decodeExtendedKey(extendedPrivateKey)
+    const transactionBuilder = new this.options.config.bitcoinJSLib.TransactionBuilder(this.options.network.extras.network)
+
+    const keyPairs = transaction.ins.map((input) => node.derivePath(input.derivationPath).keyPair)
+    transaction.ins.forEach((input, index: number) => {
+      this.addInput(transactionBuilder, input, keyPairs[index].getPublicKeyBuffer(), addressType)
+    })
+
+    for (const output of transaction.outs) {
+      if (output.isChange) {
+        await this.assertChangeAddress(extendedPrivateKey, output)
+      }
+      transactionBuilder.addOutput(output.recipient, new BigNumber(output.value).toNumber())
+    }
+
+    for (let i = 0; i < transaction.ins.length; i++) {
+      this.signInput(transactionBuilder, i, keyPairs[i], new BigNumber(transaction.ins[i].value).toNumber(), addressType)
+    }
+
+    return transactionBuilder.build().toHex()
+  }
+
+  public async encryptAsymmetric(message: string, publicKey: string): Promise<string> {
+    return super.encryptAsymmetric(message, this.decodeExtendedKey(publicKey).node.toBase58())
+  }
+
+  protected getExtendedNode(extendedKey: string): any {
+    return this.decodeExtendedKey(extendedKey).node
+  }
+
+  protected getAddressTypeOfExtendedPublicKey(extendedPublicKey: string): BitcoinAddressType {
+    return this.decodeExtendedKey(extendedPublicKey).addressType
+  }
+
+  private addInput(transactionBuilder: any, input: IInTransaction, publicKey: Buffer, addressType: BitcoinAddressType): void {
+    if (addressType === BitcoinAddressType.P2WPKH) {
+      transactionBuilder.addInput(input.txId, input.vout, input.sequence, BitcoinSegwitAddress.getOutputScript(publicKey, addressType))
+    } else {
+      transactionBuilder.addInput(input.txId, input.vout, input.sequence)
+    }
+  }
+
+  private signInput(transactionBuilder: any, index: number, keyPair: any, value: number, addressType: BitcoinAddressType): void {
+    switch (addressType) {
+      case BitcoinAddressType.P2PKH:
+        transactionBuilder.sign(index, keyPair)
+        break
+      case BitcoinAddressType.P2SH_P2WPKH:
+        transactionBuilder.sign(index, keyPair, BitcoinSegwitAddress.getRedeemScript(keyPair.getPublicKeyBuffer()), undefined, value)
+        break
+      case BitcoinAddressType.P2WPKH:
+        transactionBuilder.sign(index, keyPair, undefined, undefined, value)
+        break
+      default:
+        assertNever(addressType)
+        throw new UnsupportedError(Domain.BITCOIN, `Unsupported address type ${addressType}`)
+    }
+  }
+
+  private getExtendedKeyVersions(): ExtendedKeyVersions {
+    return this.options.network.extras.network.bip32.public === MAINNET_EXTENDED_KEY_VERSIONS[BitcoinAddressType.P2PKH].public
+      ? MAINNET_EXTENDED_KEY_VERSIONS
+      : TESTNET_EXTENDED_KEY_VERSIONS
+  }
+
+  private getAddressTypeFromDerivationPath(derivationPath: string): BitcoinAddressType {
+    const purpose: number = parseInt(derivationPath.split('/')[1], 10)
+    switch (purpose) {
+      case 44:
+        return BitcoinAddressType.P2PKH
+      case 49:
+        return BitcoinAddressType.P2SH_P2WPKH
+      case 84:
+        return BitcoinAddressType.P2WPKH
+      default:
+        return this.defaultAddressType
+    }
+  }
+
+  private encodeExtendedKey(node: any, addressType: BitcoinAddressType): string {
+    const version: ExtendedKeyVersion = this.getExtendedKeyVersions()[addressType]
+    const buffer: Buffer = bs58check.decode(node.toBase58())
+    buffer.writeUInt32BE(node.isNeutered() ? version.public : version.private, 0)
+
+    return bs58check.encode(buffer)
+  }
+
+  private decodeExtendedKey(extendedKey: string): DecodedExtendedKey {
+    const versions: ExtendedKeyVersions = this.getExtendedKeyVersions()
+    const buffer: Buffer = bs58check.decode(extendedKey)
+    const version: number = buffer.readUInt32BE(0)
+
+    const addressType: BitcoinAddressType | undefined = (Object.keys(versions) as BitcoinAddressType[]).find(
+      (type: BitcoinAddressType) => versions[type].public === version || versions[type].private === version
+    )
+    if (addressType === undefined) {
+      throw new InvalidValueError(Domain.BITCOIN, 'Unknown extended key version.')
+    }
+
+    const standardVersion: ExtendedKeyVersion = versions[BitcoinAddressType.P2PKH]
+    buffer.writeUInt32BE(version === versions[addressType].public ? standardVersion.public : standardVersion.private, 0)
+
+    return {
+      node: this.options.config.bitcoinJSLib.HDNode.fromBase58(bs58check.encode(buffer), this.options.network.extras.network),
+      addressType
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { UnsupportedError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+import { assertNever } from '../../utils/assert'
+
+import { BitcoinAddressType, BitcoinMultisigAddressType } from './BitcoinTypes'
+
+// All sizes are expressed in weight units (BIP141), one virtual byte equals four weight units.
+
+// version (4), input count (1), output count (1), locktime (4)
+const TRANSACTION_OVERHEAD_WEIGHT: number = 10 * 4
+// segwit marker (1) and flag (1), only present if at least one input has a witness
+const WITNESS_OVERHEAD_WEIGHT: number = 2
+
+// outpoint (36), sequence (4) and the script sig, plus the witness for SegWit inputs, assuming 72 byte DER signatures
+const INPUT_WEIGHT: Record<BitcoinAddressType, number> = {
+  [BitcoinAddressType.P2PKH]: (36 + 4 + 1 + 107) * 4,
+  [BitcoinAddressType.P2SH_P2WPKH]: (36 + 4 + 1 + 23) * 4 + 108,
+  [BitcoinAddressType.P2WPKH]: (36 + 4 + 1) * 4 + 108
+}
+
+export const OUTPUT_SCRIPT_LENGTH: Record<BitcoinAddressType, number> = {
+  [BitcoinAddressType.P2PKH]: 25,
+  [BitcoinAddressType.P2SH_P2WPKH]: 23,
+  [BitcoinAddressType.P2WPKH]: 22
+}
+
+export const MULTISIG_OUTPUT_SCRIPT_LENGTH: Record<BitcoinMultisigAddressType, number> = {
+  [BitcoinMultisigAddressType.P2SH]: 23,
+  [BitcoinMultisigAddressType.P2SH_P2WSH]: 23,
+  [BitcoinMultisigAddressType.P2WSH]: 34
+}
+
+// the default dust relay fee rate of Bitcoin Core, in satoshis per virtual byte
+const DUST_RELAY_FEE_RATE: number = 3
+
+// P2WSH, the longest of the standard output scripts
+export const MAX_OUTPUT_SCRIPT_LENGTH: number = 34
+
+function getOutputWeight(scriptLength: number): number {
+  // value (8), script length (1) and the script itself
+  return (8 + 1 + scriptLength) * 4
+}
+
+function getVarIntLength(value: number): number {
+  return value < 0xfd ? 1 : value <= 0xffff ? 3 : 5
+}
+
+function getPushLength(dataLength: number): number {
+  // OP_PUSHDATA1 and OP_PUSHDATA2 add another one or two length bytes
+  return (dataLength < 0x4c ? 1 : dataLength <= 0xff ? 2 : 3) + dataLength
+}
+
+function getMultisigInputWeight(addressType: BitcoinMultisigAddressType, threshold: number, cosignerCount: number): number {
+  // OP_m, the compressed public keys, OP_n and OP_CHECKMULTISIG
+  const scriptLength: number = cosignerCount * 34 + 3
+  // OP_CHECKMULTISIG consumes an additional empty item, followed by the signatures and the script
+  const scriptSigLength: number = threshold * 73 + 1 + getPushLength(scriptLength)
+  const witnessWeight: number = getVarIntLength(threshold + 2) + 1 + threshold * 73 + getVarIntLength(scriptLength) + scriptLength
+
+  switch (addressType) {
+    case BitcoinMultisigAddressType.P2SH:
+      return (36 + 4 + getVarIntLength(scriptSigLength) + scriptSigLength) * 4
+    case BitcoinMultisigAddressType.P2SH_P2WSH:
+      // the script sig only pushes the witness program
+      return (36 + 4 + 1 + 35) * 4 + witnessWeight
+    case BitcoinMultisigAddressType.P2WSH:
+      return (36 + 4 + 1) * 4 + witnessWeight
+    default:
+      assertNever(addressType)
+      throw new UnsupportedError(Domain.BITCOIN, `Unsupported multisig address type ${addressType}`)
+  }
+}
+
+function getVirtualSize(inputWeights: number[], hasWitness: boolean, outputScriptLengths: number[]): number {
+  const weight: number =
+    TRANSACTION_OVERHEAD_WEIGHT +
+    (hasWitness ? WITNESS_OVERHEAD_WEIGHT : 0) +
+    inputWeights.reduce((sum: number, inputWeight: number) => sum + inputWeight, 0) +
+    outputScriptLengths.reduce((sum: number, scriptLength: number) => sum + getOutputWeight(scriptLength), 0)
+
+  return Math.ceil(weight / 4)
+}
+
+export function estimateVirtualSize(inputTypes: BitcoinAddressType[], outputScriptLengths: number[]): number {
+  return getVirtualSize(
+    inputTypes.map((inputType: BitcoinAddressType) => INPUT_WEIGHT[inputType]),
+    inputTypes.some((inputType: BitcoinAddressType) => inputType !== BitcoinAddressType.P2PKH),
+    outputScriptLengths
+  )
+}
+
+export function estimateMultisigVirtualSize(
+  addressType: BitcoinMultisigAddressType,
+  threshold: number,
+  cosignerCount: number,
+  inputCount: number,
+  outputScriptLengths: number[]
+): number {
+  return getVirtualSize(
+    new Array(inputCount).fill(getMultisigInputWeight(addressType, threshold, cosignerCount)),
+    inputCount > 0 && addressType !== BitcoinMultisigAddressType.P2SH,
+    outputScriptLengths
+  )
+}
+
+/**
+ * An output is considered dust if its value is lower than the cost of creating and spending it at the dust relay fee rate.
+ * Mirrors `GetDustThreshold` of Bitcoin Core, e.g. 546 satoshis for P2PKH and 294 satoshis for P2WPKH outputs.
+ */
+export function getDustThreshold(addressType: BitcoinAddressType): number {
+  return getDustThresholdOfScript(OUTPUT_SCRIPT_LENGTH[addressType], addressType === BitcoinAddressType.P2WPKH)
+}
+
+export function getMultisigDustThreshold(addressType: BitcoinMultisigAddressType): number {
+  return getDustThresholdOfScript(MULTISIG_OUTPUT_SCRIPT_LENGTH[addressType], addressType === BitcoinMultisigAddressType.P2WSH)
+}
+
+function getDustThresholdOfScript(scriptLength: number, isWitnessProgram: boolean): number {
+  const outputSize: number = getOutputWeight(scriptLength) / 4
+  // outpoint (36), script length (1) and sequence (4), plus the discounted signature and public key
+  const spendingInputSize: number = isWitnessProgram ? 36 + 1 + 4 + Math.floor(107 / 4) : 36 + 1 + 107 + 4
+
+  return (outputSize + spendingInputSize) * DUST_RELAY_FEE_RATE
+}
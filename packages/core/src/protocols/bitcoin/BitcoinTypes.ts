@@ -1,5 +1,7 @@
 import { IAirGapTransaction } from '../../interfaces/IAirGapTransaction'
 
+import { CoinSelector } from './coinselection/CoinSelector'
+
 export interface BitcoinTransactionCursor {
   offset: number
 }
@@ -17,3 +19,48 @@ export interface BitcoinBlockbookTransactionResult {
   transactions: IAirGapTransaction[]
   cursor: BitcoinBlockbookTransactionCursor
 }
+
+export enum BitcoinAddressType {
+  P2PKH = 'p2pkh',
+  P2SH_P2WPKH = 'p2sh-p2wpkh',
+  P2WPKH = 'p2wpkh'
+}
+
+export enum BitcoinMultisigAddressType {
+  P2SH = 'p2sh',
+  P2SH_P2WSH = 'p2sh-p2wsh',
+  P2WSH = 'p2wsh'
+}
+
+export interface BitcoinPsbtKeyOrigin {
+  extendedPublicKey: string
+  derivationPath?: string
+  masterFingerprint?: string
+}
+
+export interface BitcoinPsbtOptions {
+  // signals replaceability (BIP125) on all inputs, so that the transaction can be fee bumped later
+  replaceable?: boolean
+}
+
+export interface BitcoinTransactionOptions {
+  // fee rate in satoshis per virtual byte, replaces the absolute fee if set
+  feeRate?: string
+  // signals replaceability (BIP125) on all inputs, so that the transaction can be fee bumped later
+  replaceable?: boolean
+  // defaults to spending the UTXOs in the order returned by the indexer
+  coinSelector?: CoinSelector
+}
+
+export interface BitcoinMultisigConfig {
+  // number of signatures required to spend from the wallet
+  threshold: number
+  // the public keys of each address are sorted (BIP67), so the order of the cosigners does not change the addresses
+  cosigners: BitcoinPsbtKeyOrigin[]
+  addressType: BitcoinMultisigAddressType
+}
+
+export interface BitcoinMultisigTransactionOptions extends BitcoinTransactionOptions {
+  // number of receiving and change addresses that are checked for UTXOs
+  addressCount?: number
+}
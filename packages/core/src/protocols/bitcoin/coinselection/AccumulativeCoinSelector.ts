@@ -0,0 +1,18 @@
+import { BalanceError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+
+import { accumulate, CoinSelection, CoinSelectionContext, CoinSelectionUTXO, CoinSelector } from './CoinSelector'
+
+/**
+ * Spends the UTXOs in the order they were returned by the indexer.
+ */
+export class AccumulativeCoinSelector implements CoinSelector {
+  public select<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): CoinSelection<T> {
+    const selection: CoinSelection<T> | undefined = accumulate(utxos, context)
+    if (selection === undefined) {
+      throw new BalanceError(Domain.BITCOIN, 'not enough balance')
+    }
+
+    return selection
+  }
+}
@@ -0,0 +1,75 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+
+import { CoinSelection, CoinSelectionContext, CoinSelectionUTXO, CoinSelector, getSelectionValue } from './CoinSelector'
+import { LargestFirstCoinSelector } from './LargestFirstCoinSelector'
+
+const MAX_TRIES: number = 100000
+
+function searchWithoutChange<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): T[] | undefined {
+  const baseFee: BigNumber = context.getFee(0, false)
+  const inputFee: BigNumber = context.getFee(1, false).minus(baseFee)
+  // spending more than this would leave a remainder that could pay for its own change output
+  const costOfChange: BigNumber = context.getFee(0, true).minus(baseFee).plus(inputFee)
+
+  const target: number = context.targetValue.plus(baseFee).toNumber()
+  const upperBound: number = target + costOfChange.toNumber()
+
+  const candidates: { utxo: T; effectiveValue: number }[] = utxos
+    .map((utxo: T) => ({ utxo, effectiveValue: new BigNumber(utxo.value).minus(inputFee).toNumber() }))
+    .filter((candidate: { utxo: T; effectiveValue: number }) => candidate.effectiveValue > 0)
+    .sort((a: { effectiveValue: number }, b: { effectiveValue: number }) => b.effectiveValue - a.effectiveValue)
+
+  // the inclusion decisions of the current branch, an explicit stack so that large wallets do not exceed the call stack
+  const included: boolean[] = []
+  let current: number = 0
+  let remaining: number = candidates.reduce((sum: number, candidate: { effectiveValue: number }) => sum + candidate.effectiveValue, 0)
+
+  for (let tries: number = 0; tries < MAX_TRIES; tries++) {
+    if (current <= upperBound && current >= target) {
+      return candidates.filter((_: { utxo: T }, index: number) => included[index]).map((candidate: { utxo: T }) => candidate.utxo)
+    }
+
+    if (current > upperBound || current + remaining < target) {
+      // go back to the last included candidate and explore the branch without it
+      while (included.length > 0 && !included[included.length - 1]) {
+        included.pop()
+        remaining += candidates[included.length].effectiveValue
+      }
+      if (included.length === 0) {
+        return undefined
+      }
+      included[included.length - 1] = false
+      current -= candidates[included.length - 1].effectiveValue
+    } else {
+      const effectiveValue: number = candidates[included.length].effectiveValue
+      included.push(true)
+      current += effectiveValue
+      remaining -= effectiveValue
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Searches for a set of UTXOs that matches the target value closely enough to not need a change output,
+ * which saves the fee of the change output and does not reveal which output is the change.
+ * The search is a depth-first branch-and-bound over the effective values (value minus the fee to spend the input).
+ * If no such set can be found, the fallback selector is used.
+ */
+export class BranchAndBoundCoinSelector implements CoinSelector {
+  constructor(public readonly fallback: CoinSelector = new LargestFirstCoinSelector()) {}
+
+  public select<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): CoinSelection<T> {
+    const selected: T[] | undefined = searchWithoutChange(utxos, context)
+    if (selected !== undefined) {
+      const value: BigNumber = getSelectionValue(selected)
+      // the search works with approximated fees, make sure the actual fee is covered
+      if (value.isGreaterThanOrEqualTo(context.targetValue.plus(context.getFee(selected.length, false)))) {
+        return { utxos: selected, fee: value.minus(context.targetValue), change: new BigNumber(0) }
+      }
+    }
+
+    return this.fallback.select(utxos, context)
+  }
+}
@@ -0,0 +1,65 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+
+export interface CoinSelectionUTXO {
+  txid: string
+  vout: number
+  value: string
+  confirmations: number
+}
+
+export interface CoinSelectionContext {
+  // the total value of all recipient outputs
+  targetValue: BigNumber
+  // the smallest change value that is not considered dust
+  dustThreshold: BigNumber
+  getFee(inputCount: number, withChange: boolean): BigNumber
+}
+
+export interface CoinSelection<T extends CoinSelectionUTXO> {
+  utxos: T[]
+  fee: BigNumber
+  change: BigNumber
+}
+
+export interface CoinSelector {
+  select<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): CoinSelection<T>
+}
+
+export function getSelectionValue(utxos: CoinSelectionUTXO[]): BigNumber {
+  return utxos.reduce((accumulator: BigNumber, utxo: CoinSelectionUTXO) => accumulator.plus(utxo.value), new BigNumber(0))
+}
+
+/**
+ * Calculates the fee and the change of a transaction spending the given UTXOs.
+ * If the change would be dust, it is added to the fee instead.
+ * Returns undefined if the UTXOs do not cover the target value and the fee.
+ */
+export function completeSelection<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): CoinSelection<T> | undefined {
+  const value: BigNumber = getSelectionValue(utxos)
+
+  const feeWithChange: BigNumber = context.getFee(utxos.length, true)
+  const change: BigNumber = value.minus(context.targetValue).minus(feeWithChange)
+  if (change.isGreaterThanOrEqualTo(context.dustThreshold)) {
+    return { utxos, fee: feeWithChange, change }
+  }
+
+  if (value.isGreaterThanOrEqualTo(context.targetValue.plus(context.getFee(utxos.length, false)))) {
+    return { utxos, fee: value.minus(context.targetValue), change: new BigNumber(0) }
+  }
+
+  return undefined
+}
+
+/**
+ * Adds the UTXOs in the given order until they cover the target value and the fee.
+ */
+export function accumulate<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): CoinSelection<T> | undefined {
+  for (let i: number = 1; i <= utxos.length; i++) {
+    const selection: CoinSelection<T> | undefined = completeSelection(utxos.slice(0, i), context)
+    if (selection !== undefined) {
+      return selection
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,21 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { BalanceError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+
+import { accumulate, CoinSelection, CoinSelectionContext, CoinSelectionUTXO, CoinSelector } from './CoinSelector'
+
+/**
+ * Spends the UTXOs with the highest value first, which minimizes the number of inputs.
+ */
+export class LargestFirstCoinSelector implements CoinSelector {
+  public select<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): CoinSelection<T> {
+    const sorted: T[] = utxos.slice().sort((a: T, b: T) => new BigNumber(b.value).comparedTo(a.value))
+
+    const selection: CoinSelection<T> | undefined = accumulate(sorted, context)
+    if (selection === undefined) {
+      throw new BalanceError(Domain.BITCOIN, 'not enough balance')
+    }
+
+    return selection
+  }
+}
@@ -0,0 +1,20 @@
+import { BalanceError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+
+import { accumulate, CoinSelection, CoinSelectionContext, CoinSelectionUTXO, CoinSelector } from './CoinSelector'
+
+/**
+ * Spends the UTXOs with the most confirmations first, which consolidates old coins.
+ */
+export class OldestFirstCoinSelector implements CoinSelector {
+  public select<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): CoinSelection<T> {
+    const sorted: T[] = utxos.slice().sort((a: T, b: T) => b.confirmations - a.confirmations)
+
+    const selection: CoinSelection<T> | undefined = accumulate(sorted, context)
+    if (selection === undefined) {
+      throw new BalanceError(Domain.BITCOIN, 'not enough balance')
+    }
+
+    return selection
+  }
+}
@@ -0,0 +1,34 @@
+import { BalanceError, InvalidValueError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+
+import { CoinSelection, CoinSelectionContext, CoinSelectionUTXO, CoinSelector, completeSelection } from './CoinSelector'
+
+export interface Outpoint {
+  txid: string
+  vout: number
+}
+
+/**
+ * Spends exactly the given outpoints (coin control).
+ */
+export class OutpointCoinSelector implements CoinSelector {
+  constructor(public readonly outpoints: Outpoint[]) {}
+
+  public select<T extends CoinSelectionUTXO>(utxos: T[], context: CoinSelectionContext): CoinSelection<T> {
+    const selected: T[] = this.outpoints.map((outpoint: Outpoint) => {
+      const utxo: T | undefined = utxos.find((candidate: T) => candidate.txid === outpoint.txid && candidate.vout === outpoint.vout)
+      if (utxo === undefined) {
+        throw new InvalidValueError(Domain.BITCOIN, `outpoint ${outpoint.txid}:${outpoint.vout} is not spendable`)
+      }
+
+      return utxo
+    })
+
+    const selection: CoinSelection<T> | undefined = completeSelection(selected, context)
+    if (selection === undefined) {
+      throw new BalanceError(Domain.BITCOIN, 'not enough balance in the selected outpoints')
+    }
+
+    return selection
+  }
+}
@@ -4,16 +4,16 @@ import * as sha from '../../dependencies/src/sha.js-2.4.11/index'
 import { CoinAddress } from '../ICoinProtocol'
 
 export class CosmosAddress implements CoinAddress {
-  private static readonly addressPrefix: string = 'cosmos'
+  private static readonly defaultAddressPrefix: string = 'cosmos'
 
   private constructor(private readonly value: string) {}
 
-  public static from(publicKey: string): CosmosAddress {
+  public static from(publicKey: string, addressPrefix: string = CosmosAddress.defaultAddressPrefix): CosmosAddress {
     const pubkey = Buffer.from(publicKey, 'hex')
 
     const sha256Hash: string = sha('sha256').update(pubkey).digest()
     const hash = new RIPEMD160().update(Buffer.from(sha256Hash)).digest()
-    const address = BECH32.encode(CosmosAddress.addressPrefix, BECH32.toWords(hash))
+    const address = BECH32.encode(addressPrefix, BECH32.toWords(hash))
 
     return new CosmosAddress(address)
   }
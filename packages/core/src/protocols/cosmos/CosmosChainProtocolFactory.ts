@@ -0,0 +1,58 @@
+import { IACMessageType } from '../../serializer/interfaces'
+import { SchemaInfo } from '../../serializer/schemas/schema'
+import { Serializer } from '../../serializer/serializer'
+import { NetworkType } from '../../utils/ProtocolNetwork'
+import { MainProtocolSymbols, ProtocolSymbols } from '../../utils/ProtocolSymbols'
+import { addSubProtocol } from '../../utils/subProtocols'
+
+import { CosmosCoin } from './CosmosCoin'
+import { CosmosDenomProtocol } from './CosmosDenomProtocol'
+import { CosmosNodeClient } from './CosmosNodeClient'
+import { CosmosProtocol } from './CosmosProtocol'
+import {
+  CosmosChainBlockExplorer,
+  CosmosChainDescriptor,
+  CosmosCurrency,
+  CosmosProtocolConfig,
+  CosmosProtocolNetwork,
+  CosmosProtocolOptions
+} from './CosmosProtocolOptions'
+
+const registeredIdentifiers: Set<string> = new Set([MainProtocolSymbols.COSMOS])
+
+// Cosmos SDK chains share the transaction format of the Cosmos Hub, so they reuse its schemas under their own identifier
+function registerSerializerSchemas(identifier: ProtocolSymbols): void {
+  if (registeredIdentifiers.has(identifier)) {
+    return
+  }
+
+  for (const schemaId of [IACMessageType.TransactionSignRequest, IACMessageType.TransactionSignResponse]) {
+    const [schema, ...variants]: SchemaInfo[] = Serializer.getSchemaVariants(schemaId, MainProtocolSymbols.COSMOS)
+    Serializer.addSchema(schemaId, schema, identifier)
+    variants.forEach((variant: SchemaInfo) => {
+      Serializer.addSchemaVariant(schemaId, variant, identifier)
+    })
+  }
+  registeredIdentifiers.add(identifier)
+}
+
+export function createCosmosChainProtocol(chain: CosmosChainDescriptor, networkType: NetworkType = NetworkType.MAINNET): CosmosProtocol {
+  const options: CosmosProtocolOptions = new CosmosProtocolOptions(
+    new CosmosProtocolNetwork(chain.chainID, networkType, chain.restUrl, new CosmosChainBlockExplorer(chain.blockExplorerUrl)),
+    new CosmosProtocolConfig(new CosmosNodeClient(chain.restUrl, false, chain.currency.denom), chain)
+  )
+  const protocol: CosmosProtocol = new CosmosProtocol(options)
+
+  for (const currency of [chain.currency, ...chain.tokens]) {
+    CosmosCoin.addSupportedDenomination(currency.denom)
+  }
+  registerSerializerSchemas(protocol.identifier)
+
+  chain.tokens.forEach((token: CosmosCurrency) => {
+    const subProtocol: CosmosDenomProtocol = new CosmosDenomProtocol(options, token)
+    registerSerializerSchemas(subProtocol.identifier)
+    addSubProtocol(protocol, subProtocol)
+  })
+
+  return protocol
+}
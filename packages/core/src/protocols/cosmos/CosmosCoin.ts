@@ -1,14 +1,16 @@
 import { UnsupportedError } from '../../errors'
 import { Domain } from '../../errors/coinlib-error'
-import { JSONConvertible, RPCConvertible } from './CosmosTransaction'
+import { JSONConvertible, ProtobufConvertible, RPCConvertible } from './CosmosTransaction'
+import { ProtobufReader } from './protobuf/ProtobufReader'
+import { ProtobufWriter } from './protobuf/ProtobufWriter'
 
 export interface CosmosCoinJSON {
   denom: string
   amount: string
 }
 
-export class CosmosCoin implements JSONConvertible, RPCConvertible {
-  private static readonly supportedDenominations = ['uatom']
+export class CosmosCoin implements JSONConvertible, RPCConvertible, ProtobufConvertible {
+  private static readonly supportedDenominations: Set<string> = new Set(['uatom'])
   public readonly denom: string
   public readonly amount: string
 
@@ -17,6 +19,10 @@ export class CosmosCoin implements JSONConvertible, RPCConvertible {
     this.amount = amount
   }
 
+  public static addSupportedDenomination(denom: string): void {
+    CosmosCoin.supportedDenominations.add(denom)
+  }
+
   public toJSON(): CosmosCoinJSON {
     return {
       amount: this.amount,
@@ -25,7 +31,7 @@ export class CosmosCoin implements JSONConvertible, RPCConvertible {
   }
 
   public static fromJSON(json: CosmosCoinJSON): CosmosCoin {
-    if (!CosmosCoin.supportedDenominations.includes(json.denom)) {
+    if (!CosmosCoin.supportedDenominations.has(json.denom)) {
       throw new UnsupportedError(Domain.COSMOS, 'Unsupported cosmos denomination')
     }
 
@@ -42,4 +48,14 @@ export class CosmosCoin implements JSONConvertible, RPCConvertible {
   public static fromRPCBody(json: any): CosmosCoin {
     return new CosmosCoin(json.denom, json.amount)
   }
+
+  public toProtobuf(): Buffer {
+    return new ProtobufWriter().string(1, this.denom).string(2, this.amount).finish()
+  }
+
+  public static fromProtobuf(bytes: Buffer): CosmosCoin {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+
+    return new CosmosCoin(reader.string(1), reader.string(2))
+  }
 }
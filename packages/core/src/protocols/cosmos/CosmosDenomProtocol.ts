@@ -0,0 +1,31 @@
+import { ProtocolSymbols } from '../../utils/ProtocolSymbols'
+import { ICoinSubProtocol, SubProtocolType } from '../ICoinSubProtocol'
+
+import { CosmosProtocol } from './CosmosProtocol'
+import { CosmosCurrency, CosmosProtocolOptions } from './CosmosProtocolOptions'
+
+export class CosmosDenomProtocol extends CosmosProtocol implements ICoinSubProtocol {
+  public isSubProtocol: boolean = true
+  public subProtocolType: SubProtocolType = SubProtocolType.TOKEN
+
+  protected get denom(): string {
+    return this.currency.denom
+  }
+
+  constructor(public readonly options: CosmosProtocolOptions, public readonly currency: CosmosCurrency) {
+    super(options)
+
+    this.symbol = currency.symbol
+    this.name = currency.name
+    this.marketSymbol = currency.marketSymbol
+    // chains configured from a descriptor are not part of the protocol symbol enums
+    this.identifier = `${options.config.chain.identifier}-${currency.symbol.toLowerCase()}` as ProtocolSymbols
+    this.decimals = currency.decimals
+    this.units = CosmosProtocol.currencyUnits(currency)
+  }
+
+  // only the tokens held in the bank module count, they cannot be staked
+  public async getBalanceOfAddresses(addresses: string[]): Promise<string> {
+    return this.getBalance(addresses, false)
+  }
+}
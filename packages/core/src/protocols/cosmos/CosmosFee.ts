@@ -1,7 +1,9 @@
 import { CosmosCoin } from './CosmosCoin'
-import { JSONConvertible, RPCConvertible } from './CosmosTransaction'
+import { JSONConvertible, ProtobufConvertible, RPCConvertible } from './CosmosTransaction'
+import { ProtobufReader } from './protobuf/ProtobufReader'
+import { ProtobufWriter } from './protobuf/ProtobufWriter'
 
-export class CosmosFee implements JSONConvertible, RPCConvertible {
+export class CosmosFee implements JSONConvertible, RPCConvertible, ProtobufConvertible {
   public readonly amount: CosmosCoin[]
   public readonly gas: string
 
@@ -37,4 +39,23 @@ export class CosmosFee implements JSONConvertible, RPCConvertible {
       json.gas
     )
   }
+
+  public toProtobuf(): Buffer {
+    return new ProtobufWriter()
+      .messages(
+        1,
+        this.amount.map((value: CosmosCoin) => value.toProtobuf())
+      )
+      .uint64(2, this.gas)
+      .finish()
+  }
+
+  public static fromProtobuf(bytes: Buffer): CosmosFee {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+
+    return new CosmosFee(
+      reader.repeatedBytes(1).map((value: Buffer) => CosmosCoin.fromProtobuf(value)),
+      reader.uint64(2)
+    )
+  }
 }
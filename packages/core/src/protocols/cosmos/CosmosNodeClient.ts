@@ -1,5 +1,7 @@
 import Axios, { AxiosResponse } from '../../dependencies/src/axios-0.19.0/index'
 import BigNumber from '../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { NetworkError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
 import { CosmosMessageType } from './cosmos-message/CosmosMessage'
 
 export interface CosmosNodeInfo {
@@ -94,8 +96,16 @@ export interface CosmosValidatorCommissionRate {
 }
 
 export interface CosmosBroadcastSignedTransactionResponse {
-  txhash: string
-  height: number
+  tx_response: {
+    txhash: string
+    height: string
+    code: number
+    raw_log: string
+  }
+}
+
+export interface CosmosBalancesResponse {
+  balances: CosmosAccountCoin[]
 }
 
 export interface CosmosRewardDetails {
@@ -137,28 +147,60 @@ export interface CosmosSendTx {
             ]
           }
         }
-      ],
+      ]
       fee: {
         amount: [
           {
             denom: string
             amount: string
           }
-        ],
+        ]
         gas: string
-      },
-      memo: string,
+      }
+      memo: string
+    }
+  }
+  timestamp: string
+}
+
+export interface CosmosTxMessage {
+  '@type': string
+  [field: string]: any
+}
+
+export interface CosmosTxResponse {
+  height: string
+  txhash: string
+  gas_wanted: string
+  gas_used: string
+  tx: {
+    body: {
+      messages: CosmosTxMessage[]
+      memo: string
+    }
+    auth_info: {
+      fee: {
+        amount: CosmosAccountCoin[]
+        gas_limit: string
+      }
     }
   }
   timestamp: string
 }
 
+export interface CosmosGetTxsEventResponse {
+  tx_responses: CosmosTxResponse[] | null
+  pagination: {
+    total: string
+  } | null
+}
+
 export class CosmosNodeClient {
-  constructor(public readonly baseURL: string, public useCORSProxy: boolean = false) { }
+  constructor(public readonly baseURL: string, public useCORSProxy: boolean = false, public readonly denom: string = 'uatom') {}
 
-  public async fetchBalance(address: string, totalBalance?: boolean): Promise<BigNumber> {
-    const response = await Axios.get(this.url(`/bank/balances/${address}`))
-    const data: any[] = response.data.result
+  public async fetchBalance(address: string, totalBalance?: boolean, denom: string = this.denom): Promise<BigNumber> {
+    const response: AxiosResponse<CosmosBalancesResponse> = await Axios.get(this.url(`/cosmos/bank/v1beta1/balances/${address}`))
+    const data: CosmosAccountCoin[] = response.data.balances.filter((coin: CosmosAccountCoin) => coin.denom === denom)
     if (data.length > 0) {
       const availableBalance = data[0].amount
       if (totalBalance) {
@@ -179,23 +221,46 @@ export class CosmosNodeClient {
     }
   }
 
-  public async fetchSendTransactionsFor(address: string, page: number = 1, limit: number = 10, isSender: boolean = true): Promise<CosmosPagedSendTxsResponse> {
-    const response = await Axios.get<CosmosPagedSendTxsResponse>(this.url(`/txs?message.action=send&transfer.${isSender ? 'sender' : 'recipient'}=${address}&page=${page}&limit=${limit}`))
-    const data = response.data
-    const result: CosmosPagedSendTxsResponse = {
-      ...data,
-      txs: data.txs?.map(tx => ({
-        ...tx,
+  public async fetchSendTransactionsFor(
+    address: string,
+    page: number = 1,
+    limit: number = 10,
+    isSender: boolean = true
+  ): Promise<CosmosPagedSendTxsResponse> {
+    const events: string = `events=message.action='send'&events=transfer.${isSender ? 'sender' : 'recipient'}='${address}'`
+    const pagination: string = `pagination.offset=${(page - 1) * limit}&pagination.limit=${limit}&pagination.count_total=true`
+    const response: AxiosResponse<CosmosGetTxsEventResponse> = await Axios.get(this.url(`/cosmos/tx/v1beta1/txs?${events}&${pagination}`))
+    const txResponses: CosmosTxResponse[] = response.data.tx_responses ?? []
+    const totalCount: number = Number(response.data.pagination?.total ?? txResponses.length)
+
+    // the responses are mapped to the shape of the legacy REST endpoint, only send messages are kept
+    return {
+      total_count: totalCount.toString(),
+      count: txResponses.length.toString(),
+      page_number: page.toString(),
+      page_total: Math.ceil(totalCount / limit).toString(),
+      limit: limit.toString(),
+      txs: txResponses.map((txResponse: CosmosTxResponse) => ({
+        height: txResponse.height,
+        txhash: txResponse.txhash,
+        gas_wanted: txResponse.gas_wanted,
+        gas_used: txResponse.gas_used,
         tx: {
-          ...tx.tx,
+          type: 'cosmos-sdk/StdTx',
           value: {
-            ...tx.tx.value,
-            msg: tx.tx.value.msg.filter(msg => msg.type === CosmosMessageType.Send.value) as any
+            msg: txResponse.tx.body.messages
+              .filter((message: CosmosTxMessage) => message['@type'] === CosmosMessageType.Send.typeUrl)
+              .map((message: CosmosTxMessage) => ({
+                type: CosmosMessageType.Send.value,
+                value: { from_address: message.from_address, to_address: message.to_address, amount: message.amount }
+              })) as any,
+            fee: { amount: txResponse.tx.auth_info.fee.amount as any, gas: txResponse.tx.auth_info.fee.gas_limit },
+            memo: txResponse.tx.body.memo
           }
-        }
-      })) ?? []
+        },
+        timestamp: txResponse.timestamp
+      }))
     }
-    return result
   }
 
   public async fetchNodeInfo(): Promise<CosmosNodeInfo> {
@@ -206,13 +271,20 @@ export class CosmosNodeClient {
   }
 
   public async broadcastSignedTransaction(transaction: string): Promise<string> {
-    const response: AxiosResponse<CosmosBroadcastSignedTransactionResponse> = await Axios.post(this.url(`/txs`), transaction, {
-      headers: {
-        'Content-type': 'application/json'
+    const response: AxiosResponse<CosmosBroadcastSignedTransactionResponse> = await Axios.post(
+      this.url(`/cosmos/tx/v1beta1/txs`),
+      JSON.stringify({ tx_bytes: transaction, mode: 'BROADCAST_MODE_SYNC' }),
+      {
+        headers: {
+          'Content-type': 'application/json'
+        }
       }
-    })
+    )
+    if (response.data.tx_response.code !== 0) {
+      throw new NetworkError(Domain.COSMOS, response.data.tx_response.raw_log)
+    }
 
-    return response.data.txhash
+    return response.data.tx_response.txhash
   }
 
   public async fetchAccount(address: string): Promise<CosmosAccount> {
@@ -292,6 +364,7 @@ export class CosmosNodeClient {
   public async fetchTotalReward(delegatorAddress: string): Promise<BigNumber> {
     const totalRewards = await Axios.get(this.url(`/distribution/delegators/${delegatorAddress}/rewards`))
       .then((response) => response.data.result.total as { denom: string; amount: string }[])
+      .then((total) => total.filter((coin) => coin.denom === this.denom))
       .catch(() => [])
 
     if (totalRewards.length > 0) {
@@ -333,7 +406,7 @@ export class CosmosNodeClient {
         gas_adjustment: '1.2',
         fees: [
           {
-            denom: 'uatom',
+            denom: this.denom,
             amount: fee.toFixed()
           }
         ],
@@ -371,7 +444,7 @@ export class CosmosNodeClient {
         gas_adjustment: '1.2',
         fees: [
           {
-            denom: 'uatom',
+            denom: this.denom,
             amount: fee.toFixed()
           }
         ],
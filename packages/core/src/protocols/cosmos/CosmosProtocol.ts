@@ -10,15 +10,18 @@ import { AirGapTransactionStatus, IAirGapTransaction } from '../../interfaces/IA
 import { SignedCosmosTransaction } from '../../serializer/schemas/definitions/signed-transaction-cosmos'
 import { UnsignedCosmosTransaction } from '../../serializer/types'
 import { assertFields } from '../../utils/assert'
-import { MainProtocolSymbols, ProtocolSymbols } from '../../utils/ProtocolSymbols'
+import { ProtocolSymbols } from '../../utils/ProtocolSymbols'
+import { getSubProtocolsByIdentifier } from '../../utils/subProtocols'
 import { DelegateeDetails, DelegationDetails, DelegatorAction, DelegatorDetails, ICoinDelegateProtocol } from '../ICoinDelegateProtocol'
 import { CurrencyUnit, FeeDefaults } from '../ICoinProtocol'
 import { ICoinSubProtocol } from '../ICoinSubProtocol'
 import { NonExtendedProtocol } from '../NonExtendedProtocol'
 
 import { CosmosDelegateMessage } from './cosmos-message/CosmosDelegateMessage'
-import { CosmosMessageType } from './cosmos-message/CosmosMessage'
+import { CosmosMessage } from './cosmos-message/CosmosMessage'
+import { CosmosRedelegateMessage } from './cosmos-message/CosmosRedelegateMessage'
 import { CosmosSendMessage } from './cosmos-message/CosmosSendMessage'
+import { CosmosVoteMessage, CosmosVoteOption, CosmosWeightedVoteOption } from './cosmos-message/CosmosVoteMessage'
 import { CosmosWithdrawDelegationRewardMessage } from './cosmos-message/CosmosWithdrawDelegationRewardMessage'
 import { CosmosAddress } from './CosmosAddress'
 import { CosmosCoin } from './CosmosCoin'
@@ -34,49 +37,36 @@ import {
   CosmosUnbondingDelegation,
   CosmosValidator
 } from './CosmosNodeClient'
-import { CosmosProtocolOptions } from './CosmosProtocolOptions'
-import { CosmosTransaction } from './CosmosTransaction'
+import { CosmosChainDescriptor, CosmosCurrency, CosmosProtocolOptions } from './CosmosProtocolOptions'
+import { CosmosSignMode, CosmosTransaction } from './CosmosTransaction'
 import { CosmosTransactionCursor, CosmosTransactionResult } from './CosmosTypes'
 
 export enum CosmosDelegationActionType {
   DELEGATE = 'delegate',
   UNDELEGATE = 'undelegate',
+  REDELEGATE = 'redelegate',
+  VOTE = 'vote',
   WITHDRAW_ALL_REWARDS = 'withdraw_all_rewards',
   WITHDRAW_VALIDATOR_REWARDS = 'withdraw_validator_rewards'
 }
 
 export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegateProtocol {
-  public symbol: string = 'ATOM'
-  public name: string = 'Cosmos'
-  public marketSymbol: string = 'atom'
-  public feeSymbol: string = 'atom'
-  public feeDefaults: FeeDefaults = {
-    low: '0.0005',
-    medium: '0.005',
-    high: '0.0075'
-  }
-  public decimals: number = 6
-  public feeDecimals: number = 6
-  public identifier: ProtocolSymbols = MainProtocolSymbols.COSMOS
-  public units: CurrencyUnit[] = [
-    {
-      unitSymbol: 'atom',
-      factor: '1'
-    },
-    {
-      unitSymbol: 'uatom',
-      factor: '0.000001'
-    }
-  ]
+  public symbol: string
+  public name: string
+  public marketSymbol: string
+  public feeSymbol: string
+  public feeDefaults: FeeDefaults
+  public decimals: number
+  public feeDecimals: number
+  public identifier: ProtocolSymbols
+  public units: CurrencyUnit[]
   public supportsHD: boolean = false
-  public standardDerivationPath: string = `m/44'/118'/0'/0/0`
+  public standardDerivationPath: string
   public addressIsCaseSensitive: boolean = false
-  public addressValidationPattern: string = '^(cosmos|cosmosvaloper)[a-zA-Z0-9]{39}$'
-  public addressPlaceholder: string = 'cosmos...'
-
-  public subProtocols?: ICoinSubProtocol[]
+  public addressValidationPattern: string
+  public addressPlaceholder: string
 
-  private readonly defaultGas: BigNumber = new BigNumber('200000')
+  protected readonly defaultGas: BigNumber
 
   public readonly cryptoClient: CosmosCryptoClient = new CosmosCryptoClient()
 
@@ -84,8 +74,60 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
     return this.options.config.nodeClient
   }
 
+  get chain(): CosmosChainDescriptor {
+    return this.options.config.chain
+  }
+
+  get subProtocols(): ICoinSubProtocol[] {
+    return getSubProtocolsByIdentifier(this.identifier, this.options.network)
+  }
+
+  // the denomination this protocol transfers, sub protocols use one of the additional bank denominations of the chain
+  protected get denom(): string {
+    return this.chain.currency.denom
+  }
+
   constructor(public readonly options: CosmosProtocolOptions = new CosmosProtocolOptions()) {
     super()
+    const chain: CosmosChainDescriptor = this.chain
+    const feeCurrency: CosmosCurrency =
+      [chain.currency, ...chain.tokens].find((currency: CosmosCurrency) => currency.denom === chain.feeDenom) ?? chain.currency
+
+    this.symbol = chain.currency.symbol
+    this.name = chain.name
+    this.marketSymbol = chain.currency.marketSymbol
+    this.feeSymbol = feeCurrency.marketSymbol
+    this.decimals = chain.currency.decimals
+    this.feeDecimals = feeCurrency.decimals
+    // chains configured from a descriptor are not part of the protocol symbol enums
+    this.identifier = chain.identifier as ProtocolSymbols
+    this.units = CosmosProtocol.currencyUnits(chain.currency)
+    this.standardDerivationPath = `m/44'/${chain.coinType}'/0'/0/0`
+    this.addressValidationPattern = `^(${chain.bech32Prefixes.account}|${chain.bech32Prefixes.validator})[a-zA-Z0-9]{39}$`
+    this.addressPlaceholder = `${chain.bech32Prefixes.account}...`
+    this.defaultGas = new BigNumber(chain.defaultGas)
+    this.feeDefaults = {
+      low: this.feeFromGasPrice(chain.gasPrices.low),
+      medium: this.feeFromGasPrice(chain.gasPrices.medium),
+      high: this.feeFromGasPrice(chain.gasPrices.high)
+    }
+  }
+
+  protected static currencyUnits(currency: CosmosCurrency): CurrencyUnit[] {
+    return [
+      {
+        unitSymbol: currency.symbol.toLowerCase(),
+        factor: '1'
+      },
+      {
+        unitSymbol: currency.denom,
+        factor: new BigNumber(1).shiftedBy(-currency.decimals).toFixed()
+      }
+    ]
+  }
+
+  private feeFromGasPrice(gasPrice: string): string {
+    return this.defaultGas.times(gasPrice).shiftedBy(-this.feeDecimals).toFixed()
   }
 
   public async getBlockExplorerLinkForAddress(address: string): Promise<string> {
@@ -144,7 +186,7 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
   }
 
   public async getAddressFromPublicKey(publicKey: string): Promise<CosmosAddress> {
-    return CosmosAddress.from(publicKey)
+    return CosmosAddress.from(publicKey, this.chain.bech32Prefixes.account)
   }
 
   public async getAddressesFromPublicKey(publicKey: string): Promise<CosmosAddress[]> {
@@ -223,25 +265,27 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
     for (const transaction of allTransactions) {
       const timestamp = new Date(transaction.timestamp).getTime() / 1000
       const fee = transaction.tx.value.fee.amount
-        .filter((coin) => coin.denom === 'uatom')
+        .filter((coin) => coin.denom === this.chain.feeDenom)
         .map((coin) => new BigNumber(coin.amount))
-        .reduce((current, next) => current.plus(next))
+        .reduce((current, next) => current.plus(next), new BigNumber(0))
       result = result.concat(
-        transaction.tx.value.msg.map((msg) => ({
-          from: [msg.value.from_address],
-          to: [msg.value.to_address],
-          isInbound: msg.value.to_address === address,
-          amount: msg.value.amount
-            .filter((coin) => coin.denom === 'uatom')
-            .map((coin) => new BigNumber(coin.amount))
-            .reduce((current, next) => current.plus(next))
-            .toFixed(),
-          fee: fee.toFixed(),
-          protocolIdentifier: this.identifier,
-          network: this.options.network,
-          hash: transaction.txhash,
-          timestamp
-        }))
+        transaction.tx.value.msg
+          .filter((msg) => msg.value.amount.some((coin) => coin.denom === this.denom))
+          .map((msg) => ({
+            from: [msg.value.from_address],
+            to: [msg.value.to_address],
+            isInbound: msg.value.to_address === address,
+            amount: msg.value.amount
+              .filter((coin) => coin.denom === this.denom)
+              .map((coin) => new BigNumber(coin.amount))
+              .reduce((current, next) => current.plus(next))
+              .toFixed(),
+            fee: fee.toFixed(),
+            protocolIdentifier: this.identifier,
+            network: this.options.network,
+            hash: transaction.txhash,
+            timestamp
+          }))
       )
     }
 
@@ -266,35 +310,16 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
     }
   }
 
-  public async signWithPrivateKey(privateKey: Buffer, transaction: CosmosTransaction): Promise<string> {
-    const publicKey = this.getPublicKeyFromPrivateKey(privateKey)
-    const toSign = transaction.toRPCBody()
-    // TODO: check if sorting is needed
-    const sha256Hash: string = sha('sha256')
-      .update(Buffer.from(JSON.stringify(toSign)))
-      .digest()
-    const hash = Buffer.from(sha256Hash)
-    const signed = SECP256K1.sign(hash, privateKey)
-    const sigBase64 = Buffer.from(signed.signature, 'binary').toString('base64')
-    const signedTransaction = {
-      tx: {
-        msg: toSign.msgs,
-        fee: toSign.fee,
-        signatures: [
-          {
-            signature: sigBase64,
-            pub_key: {
-              type: 'tendermint/PubKeySecp256k1',
-              value: publicKey.toString('base64')
-            }
-          }
-        ],
-        memo: toSign.memo
-      },
-      mode: 'sync'
-    }
+  public async signWithPrivateKey(
+    privateKey: Buffer,
+    transaction: CosmosTransaction,
+    signMode: CosmosSignMode = CosmosSignMode.DIRECT
+  ): Promise<string> {
+    const publicKey: Buffer = this.getPublicKeyFromPrivateKey(privateKey)
+    const sha256Hash: string = sha('sha256').update(transaction.toSignBytes(publicKey, signMode)).digest()
+    const signed: { signature: Buffer } = SECP256K1.sign(Buffer.from(sha256Hash), privateKey)
 
-    return JSON.stringify(signedTransaction)
+    return transaction.toTxRaw(publicKey, signMode, Buffer.from(signed.signature)).toString('base64')
   }
 
   public async getTransactionDetails(transaction: UnsignedCosmosTransaction): Promise<IAirGapTransaction[]> {
@@ -304,45 +329,7 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
   }
 
   public async getTransactionDetailsFromSigned(transaction: SignedCosmosTransaction): Promise<IAirGapTransaction[]> {
-    const json = JSON.parse(transaction.transaction).tx
-    const fee: string = (json.fee.amount as { amount: string }[])
-      .map(({ amount }: { amount: string }) => new BigNumber(amount))
-      .reduce((current: BigNumber, next: BigNumber) => current.plus(next))
-      .toString(10)
-    const result = json.msg
-      .map((message) => {
-        const type: string = message.type
-        switch (type) {
-          case CosmosMessageType.Send.value:
-            const sendMessage = CosmosSendMessage.fromRPCBody(message)
-
-            return sendMessage.toAirGapTransaction(this, fee)
-          case CosmosMessageType.Undelegate.value:
-          case CosmosMessageType.Delegate.value:
-            const delegateMessage = CosmosDelegateMessage.fromRPCBody(message)
-
-            return delegateMessage.toAirGapTransaction(this, fee)
-          case CosmosMessageType.WithdrawDelegationReward.value:
-            const withdrawMessage = CosmosWithdrawDelegationRewardMessage.fromRPCBody(message)
-
-            return withdrawMessage.toAirGapTransaction(this, fee)
-          default:
-            throw new InvalidValueError(Domain.COSMOS, 'Unknown transaction')
-        }
-      })
-      .map((tx: IAirGapTransaction) => {
-        if (!tx.transactionDetails) {
-          tx.transactionDetails = {}
-        }
-        tx.transactionDetails.accountNumber = json.accountNumber
-        tx.transactionDetails.chainID = json.chainID
-        tx.transactionDetails.memo = json.memo
-        tx.transactionDetails.sequence = json.sequence
-
-        return tx
-      })
-
-    return result
+    return CosmosTransaction.fromTxRaw(Buffer.from(transaction.transaction, 'base64')).toAirGapTransactions(this)
   }
 
   public async getBalanceOfAddresses(addresses: string[]): Promise<string> {
@@ -360,13 +347,13 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
   }
 
   public async getBalanceOfPublicKeyForSubProtocols(publicKey: string, subProtocols: ICoinSubProtocol[]): Promise<string[]> {
-    throw Promise.reject('get balance of sub protocols not supported')
+    return Promise.all(subProtocols.map((subProtocol: ICoinSubProtocol) => subProtocol.getBalanceOfPublicKey(publicKey)))
   }
 
-  private async getBalance(addresses: string[], totalBalance: boolean = true): Promise<string> {
+  protected async getBalance(addresses: string[], totalBalance: boolean = true): Promise<string> {
     const promises: Promise<BigNumber>[] = []
     for (const address of addresses) {
-      promises.push(this.nodeClient.fetchBalance(address, totalBalance))
+      promises.push(this.nodeClient.fetchBalance(address, totalBalance, this.denom))
     }
 
     return (
@@ -384,6 +371,10 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
 
     const balanceWrapper = new BigNumber(balance)
 
+    if (this.denom !== this.chain.feeDenom) {
+      return balanceWrapper.toFixed()
+    }
+
     let maxFee: BigNumber
     if (fee !== undefined) {
       maxFee = new BigNumber(fee)
@@ -427,27 +418,34 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
     }
 
     const address: string = (await this.getAddressFromPublicKey(publicKey)).getValue()
-    const nodeInfo: CosmosNodeInfo = await this.nodeClient.fetchNodeInfo()
+    const chainID: string = await this.fetchChainID()
     const account: CosmosAccount = await this.nodeClient.fetchAccount(address)
     const balance: BigNumber = new BigNumber(await this.getAvailableBalanceOfAddresses([address]))
 
-    if (balance.lt(values.reduce((pv: BigNumber, cv: string) => pv.plus(cv), wrappedFee))) {
-      throw new BalanceError(Domain.COSMOS, 'not enough balance')
+    if (this.denom === this.chain.feeDenom) {
+      if (balance.lt(values.reduce((pv: BigNumber, cv: string) => pv.plus(cv), wrappedFee))) {
+        throw new BalanceError(Domain.COSMOS, 'not enough balance')
+      }
+    } else {
+      const feeBalance: BigNumber = await this.nodeClient.fetchBalance(address, false, this.chain.feeDenom)
+      if (balance.lt(values.reduce((pv: BigNumber, cv: string) => pv.plus(cv), new BigNumber(0))) || feeBalance.lt(wrappedFee)) {
+        throw new BalanceError(Domain.COSMOS, 'not enough balance')
+      }
     }
 
     const messages: CosmosSendMessage[] = []
     for (let i: number = 0; i < recipients.length; ++i) {
       const message: CosmosSendMessage = new CosmosSendMessage(address, recipients[i], [
-        new CosmosCoin('uatom', wrappedValues[i].toString(10))
+        new CosmosCoin(this.denom, wrappedValues[i].toString(10))
       ])
       messages.push(message)
     }
     const memo: string = data !== undefined && typeof data === 'string' ? data : ''
     const transaction: CosmosTransaction = new CosmosTransaction(
       messages,
-      new CosmosFee([new CosmosCoin('uatom', wrappedFee.toString(10))], this.defaultGas.toString(10)),
+      new CosmosFee([new CosmosCoin(this.chain.feeDenom, wrappedFee.toString(10))], this.defaultGas.toString(10)),
       memo,
-      nodeInfo.network,
+      chainID,
       account.value.account_number,
       account.value.sequence ?? '0'
     )
@@ -543,6 +541,14 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
         assertFields(`${CosmosDelegationActionType[type]} action`, data, 'validator', 'amount')
 
         return [await this.undelegate(publicKey, data.validator, data.amount)]
+      case CosmosDelegationActionType.REDELEGATE:
+        assertFields(`${CosmosDelegationActionType[type]} action`, data, 'sourceValidator', 'validator', 'amount')
+
+        return [await this.redelegate(publicKey, data.sourceValidator, data.validator, data.amount)]
+      case CosmosDelegationActionType.VOTE:
+        assertFields(`${CosmosDelegationActionType[type]} action`, data, 'proposal', 'option')
+
+        return [await this.vote(publicKey, data.proposal, data.option)]
       case CosmosDelegationActionType.WITHDRAW_ALL_REWARDS:
         return [await this.withdrawDelegationRewards(publicKey)]
       case CosmosDelegationActionType.WITHDRAW_VALIDATOR_REWARDS:
@@ -566,26 +572,65 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
     memo?: string
   ): Promise<CosmosTransaction> {
     const address: string = (await this.getAddressFromPublicKey(publicKey)).getValue()
-    const nodeInfo: CosmosNodeInfo = await this.nodeClient.fetchNodeInfo()
-    const account: CosmosAccount = await this.nodeClient.fetchAccount(address)
     const message: CosmosDelegateMessage = new CosmosDelegateMessage(
       address,
       Array.isArray(validatorAddress) ? validatorAddress[0] : validatorAddress,
-      new CosmosCoin('uatom', amount),
+      new CosmosCoin(this.chain.currency.denom, amount),
       undelegate
     )
 
-    return new CosmosTransaction(
-      [message],
-      new CosmosFee(
-        [new CosmosCoin('uatom', new BigNumber(this.feeDefaults.low).shiftedBy(this.feeDecimals).toString(10))],
-        this.defaultGas.toString(10)
-      ),
-      memo !== undefined ? memo : '',
-      nodeInfo.network,
-      account.value.account_number,
-      account.value.sequence ?? '0'
+    return this.prepareDelegatorTransaction(address, [message], memo)
+  }
+
+  public async redelegate(
+    publicKey: string,
+    sourceValidatorAddress: string,
+    destinationValidatorAddress: string,
+    amount: string,
+    memo?: string
+  ): Promise<CosmosTransaction> {
+    if (sourceValidatorAddress === destinationValidatorAddress) {
+      throw new InvalidValueError(Domain.COSMOS, 'Cannot redelegate to the same validator.')
+    }
+
+    const address: string = (await this.getAddressFromPublicKey(publicKey)).getValue()
+    const message: CosmosRedelegateMessage = new CosmosRedelegateMessage(
+      address,
+      sourceValidatorAddress,
+      destinationValidatorAddress,
+      new CosmosCoin(this.chain.currency.denom, amount)
     )
+
+    return this.prepareDelegatorTransaction(address, [message], memo)
+  }
+
+  public async vote(
+    publicKey: string,
+    proposalId: string,
+    options: CosmosVoteOption | CosmosWeightedVoteOption[],
+    memo?: string
+  ): Promise<CosmosTransaction> {
+    const weighted: boolean = Array.isArray(options)
+    const weightedOptions: CosmosWeightedVoteOption[] = Array.isArray(options) ? options : [{ option: options, weight: '1' }]
+    if (
+      weightedOptions.some(
+        (option: CosmosWeightedVoteOption) =>
+          CosmosVoteOption[option.option] === undefined || option.option === CosmosVoteOption.UNSPECIFIED
+      )
+    ) {
+      throw new InvalidValueError(Domain.COSMOS, 'Invalid vote option.')
+    }
+    if (
+      weighted &&
+      !weightedOptions.reduce((sum: BigNumber, option: CosmosWeightedVoteOption) => sum.plus(option.weight), new BigNumber(0)).eq(1)
+    ) {
+      throw new InvalidValueError(Domain.COSMOS, 'The weights of the vote options must add up to 1.')
+    }
+
+    const address: string = (await this.getAddressFromPublicKey(publicKey)).getValue()
+    const message: CosmosVoteMessage = new CosmosVoteMessage(address, proposalId, weightedOptions, weighted)
+
+    return this.prepareDelegatorTransaction(address, [message], memo)
   }
 
   public async withdrawDelegationRewards(publicKey: string, _validatorAddresses: string[] = [], memo?: string): Promise<CosmosTransaction> {
@@ -605,25 +650,41 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
     }
 
     const address: string = (await this.getAddressFromPublicKey(publicKey)).getValue()
-    const nodeInfo: CosmosNodeInfo = await this.nodeClient.fetchNodeInfo()
-    const account: CosmosAccount = await this.nodeClient.fetchAccount(address)
     const messages: CosmosWithdrawDelegationRewardMessage[] = validatorAddresses.map(
       (validatorAddress: string) => new CosmosWithdrawDelegationRewardMessage(address, validatorAddress)
     )
 
+    return this.prepareDelegatorTransaction(address, messages, memo)
+  }
+
+  private async prepareDelegatorTransaction(address: string, messages: CosmosMessage[], memo?: string): Promise<CosmosTransaction> {
+    const chainID: string = await this.fetchChainID()
+    const account: CosmosAccount = await this.nodeClient.fetchAccount(address)
+
     return new CosmosTransaction(
       messages,
       new CosmosFee(
-        [new CosmosCoin('uatom', new BigNumber(this.feeDefaults.low).shiftedBy(this.feeDecimals).toString(10))],
+        [new CosmosCoin(this.chain.feeDenom, new BigNumber(this.feeDefaults.low).shiftedBy(this.feeDecimals).toString(10))],
         this.defaultGas.toString(10)
       ),
       memo !== undefined ? memo : '',
-      nodeInfo.network,
+      chainID,
       account.value.account_number,
       account.value.sequence ?? '0'
     )
   }
 
+  // the node reports the current chain ID, which has to belong to the configured chain
+  private async fetchChainID(): Promise<string> {
+    const nodeInfo: CosmosNodeInfo = await this.nodeClient.fetchNodeInfo()
+    const chainName = (chainID: string): string => chainID.replace(/-\d+$/, '')
+    if (chainName(nodeInfo.network) !== chainName(this.chain.chainID)) {
+      throw new InvalidValueError(Domain.COSMOS, `The node is connected to ${nodeInfo.network} instead of ${this.chain.chainID}.`)
+    }
+
+    return nodeInfo.network
+  }
+
   public async withdrawAllDelegationRewards(delegatorAddress: string, fee: BigNumber, memo?: string): Promise<string> {
     const nodeInfo: CosmosNodeInfo = await this.nodeClient.fetchNodeInfo()
     const account: CosmosAccount = await this.nodeClient.fetchAccount(delegatorAddress)
@@ -708,6 +769,7 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
       : delegations.length > 0
     const availableActions = this.getAvailableDelegatorActions(
       isDelegating,
+      delegations.length > 0,
       availableBalance,
       unclaimedTotalRewards,
       unclaimedValidatorRewards
@@ -723,6 +785,7 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
 
   private getAvailableDelegatorActions(
     isDelegating: boolean,
+    hasDelegations: boolean,
     availableBalance: BigNumber,
     unclaimedTotalRewards: BigNumber,
     unclaimedDelegationRewards?: BigNumber
@@ -740,9 +803,22 @@ export class CosmosProtocol extends NonExtendedProtocol implements ICoinDelegate
     }
 
     if (isDelegating) {
+      actions.push(
+        {
+          type: CosmosDelegationActionType.UNDELEGATE,
+          args: ['validator', 'amount']
+        },
+        {
+          type: CosmosDelegationActionType.REDELEGATE,
+          args: ['sourceValidator', 'validator', 'amount']
+        }
+      )
+    }
+
+    if (hasDelegations && hasSufficientBalance) {
       actions.push({
-        type: CosmosDelegationActionType.UNDELEGATE,
-        args: ['validator', 'amount']
+        type: CosmosDelegationActionType.VOTE,
+        args: ['proposal', 'option']
       })
     }
 
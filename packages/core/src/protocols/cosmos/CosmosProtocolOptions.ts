@@ -1,6 +1,7 @@
 import { ProtocolBlockExplorer } from '../../utils/ProtocolBlockExplorer'
 import { NetworkType, ProtocolNetwork } from '../../utils/ProtocolNetwork'
 import { ProtocolOptions } from '../../utils/ProtocolOptions'
+import { MainProtocolSymbols } from '../../utils/ProtocolSymbols'
 import { CosmosNodeClient } from './CosmosNodeClient'
 
 // tslint:disable:max-classes-per-file
@@ -11,6 +12,70 @@ const NODE_URL: string = 'https://cosmos-node.prod.gke.papers.tech'
 
 const BLOCK_EXPLORER_URL: string = 'https://www.mintscan.io'
 
+export interface CosmosCurrency {
+  denom: string
+  symbol: string
+  name: string
+  marketSymbol: string
+  decimals: number
+}
+
+export interface CosmosGasPrices {
+  low: string
+  medium: string
+  high: string
+}
+
+export interface CosmosChainDescriptor {
+  identifier: string
+  name: string
+  // the node has to report the same chain ID, apart from the revision number which is bumped on chain upgrades
+  chainID: string
+  bech32Prefixes: {
+    account: string
+    validator: string
+  }
+  coinType: number
+  // the staking currency of the chain
+  currency: CosmosCurrency
+  // additional bank denominations, each of them is exposed as a sub protocol
+  tokens: CosmosCurrency[]
+  feeDenom: string
+  // prices per unit of gas, in the base denomination of the fee currency
+  gasPrices: CosmosGasPrices
+  defaultGas: string
+  restUrl: string
+  blockExplorerUrl: string
+}
+
+export const COSMOS_HUB: CosmosChainDescriptor = {
+  identifier: MainProtocolSymbols.COSMOS,
+  name: 'Cosmos',
+  chainID: 'cosmoshub-4',
+  bech32Prefixes: {
+    account: 'cosmos',
+    validator: 'cosmosvaloper'
+  },
+  coinType: 118,
+  currency: {
+    denom: 'uatom',
+    symbol: 'ATOM',
+    name: 'Cosmos',
+    marketSymbol: 'atom',
+    decimals: 6
+  },
+  tokens: [],
+  feeDenom: 'uatom',
+  gasPrices: {
+    low: '0.0025',
+    medium: '0.025',
+    high: '0.0375'
+  },
+  defaultGas: '200000',
+  restUrl: NODE_URL,
+  blockExplorerUrl: `${BLOCK_EXPLORER_URL}/cosmos`
+}
+
 export class MintscanBlockExplorer implements ProtocolBlockExplorer {
   constructor(public readonly blockExplorer: string = BLOCK_EXPLORER_URL) { }
 
@@ -22,6 +87,17 @@ export class MintscanBlockExplorer implements ProtocolBlockExplorer {
   }
 }
 
+export class CosmosChainBlockExplorer implements ProtocolBlockExplorer {
+  constructor(public readonly blockExplorer: string) { }
+
+  public async getAddressLink(address: string): Promise<string> {
+    return `${this.blockExplorer}/account/${address}/`
+  }
+  public async getTransactionLink(transactionId: string): Promise<string> {
+    return `${this.blockExplorer}/txs/${transactionId}`
+  }
+}
+
 export class CosmosProtocolNetwork extends ProtocolNetwork<undefined> {
   constructor(
     name: string = MAINNET_NAME,
@@ -37,7 +113,8 @@ export class CosmosProtocolNetwork extends ProtocolNetwork<undefined> {
 
 export class CosmosProtocolConfig {
   constructor(
-    public readonly nodeClient: CosmosNodeClient = new CosmosNodeClient(NODE_URL)
+    public readonly nodeClient: CosmosNodeClient = new CosmosNodeClient(NODE_URL),
+    public readonly chain: CosmosChainDescriptor = COSMOS_HUB
   ) { }
 }
 
@@ -3,13 +3,33 @@ import { InvalidValueError } from '../../errors'
 import { Domain } from '../../errors/coinlib-error'
 import { IAirGapTransaction } from '../../interfaces/IAirGapTransaction'
 import { SerializableUnsignedCosmosTransaction } from '../../serializer/schemas/definitions/unsigned-transaction-cosmos'
+import { SerializableUnsignedCosmosExtendedTransaction } from '../../serializer/schemas/definitions/unsigned-transaction-cosmos-extended'
 
 import { CosmosDelegateMessage } from './cosmos-message/CosmosDelegateMessage'
-import { CosmosMessage, CosmosMessageType, CosmosMessageTypeIndex } from './cosmos-message/CosmosMessage'
+import { CosmosDepositMessage } from './cosmos-message/CosmosDepositMessage'
+import { CosmosIBCTransferMessage } from './cosmos-message/CosmosIBCTransferMessage'
+import { CosmosMessage, CosmosMessageJSON, CosmosMessageType, CosmosMessageTypeIndex } from './cosmos-message/CosmosMessage'
+import { CosmosRedelegateMessage } from './cosmos-message/CosmosRedelegateMessage'
 import { CosmosSendMessage } from './cosmos-message/CosmosSendMessage'
+import { CosmosVoteMessage } from './cosmos-message/CosmosVoteMessage'
 import { CosmosWithdrawDelegationRewardMessage } from './cosmos-message/CosmosWithdrawDelegationRewardMessage'
 import { CosmosFee } from './CosmosFee'
 import { CosmosProtocol } from './CosmosProtocol'
+import { ProtobufReader } from './protobuf/ProtobufReader'
+import { ProtobufWriter } from './protobuf/ProtobufWriter'
+
+const SECP256K1_PUBLIC_KEY_TYPE_URL: string = '/cosmos.crypto.secp256k1.PubKey'
+
+// the extended sign request schema requires every field on every message, the fields a message does not use are left empty
+const EMPTY_MESSAGE_EXTENSION: Partial<CosmosMessageJSON> = {
+  sourceValidatorAddress: '',
+  proposalId: '',
+  options: [],
+  sourcePort: '',
+  sourceChannel: '',
+  timeoutHeight: { revisionNumber: '', revisionHeight: '' },
+  timeoutTimestamp: ''
+}
 
 export interface JSONConvertible {
   toJSON(): any
@@ -19,6 +39,19 @@ export interface RPCConvertible {
   toRPCBody(): any
 }
 
+export interface ProtobufConvertible {
+  toProtobuf(): Buffer
+}
+
+export enum CosmosSignMode {
+  DIRECT = 1,
+  LEGACY_AMINO_JSON = 127
+}
+
+function encodeAny(typeUrl: string, value: Buffer): Buffer {
+  return new ProtobufWriter().string(1, typeUrl).bytes(2, value).finish()
+}
+
 export class CosmosTransaction implements JSONConvertible, RPCConvertible {
   public readonly messages: CosmosMessage[]
   public readonly fee: CosmosFee
@@ -37,12 +70,18 @@ export class CosmosTransaction implements JSONConvertible, RPCConvertible {
   }
 
   public toJSON() {
+    const messages: CosmosMessageJSON[] = this.messages.map((value) => value.toJSON())
+    // transactions with only the original messages keep the original schema, so they can still be signed by older versions
+    const isExtended: boolean = messages.some(
+      (message: CosmosMessageJSON) => message.type > CosmosMessageTypeIndex.WITHDRAW_DELEGATION_REWARD
+    )
+
     return {
       accountNumber: this.accountNumber,
       chainID: this.chainID,
       fee: this.fee.toJSON(),
       memo: this.memo,
-      messages: this.messages.map((value) => value.toJSON()),
+      messages: isExtended ? messages.map((message: CosmosMessageJSON) => ({ ...EMPTY_MESSAGE_EXTENSION, ...message })) : messages,
       sequence: this.sequence
     }
   }
@@ -58,6 +97,48 @@ export class CosmosTransaction implements JSONConvertible, RPCConvertible {
     }
   }
 
+  public toBodyProtobuf(): Buffer {
+    return new ProtobufWriter()
+      .messages(
+        1,
+        this.messages.map((message: CosmosMessage) => encodeAny(message.type.typeUrl, message.toProtobuf()))
+      )
+      .string(2, this.memo)
+      .finish()
+  }
+
+  public toAuthInfoProtobuf(publicKey: Buffer, signMode: CosmosSignMode): Buffer {
+    const signerInfo: Buffer = new ProtobufWriter()
+      .message(1, encodeAny(SECP256K1_PUBLIC_KEY_TYPE_URL, new ProtobufWriter().bytes(1, publicKey).finish()))
+      .message(2, new ProtobufWriter().message(1, new ProtobufWriter().uint64(1, signMode).finish()).finish())
+      .uint64(3, this.sequence)
+      .finish()
+
+    return new ProtobufWriter().message(1, signerInfo).message(2, this.fee.toProtobuf()).finish()
+  }
+
+  // SIGN_MODE_DIRECT signs the protobuf SignDoc, SIGN_MODE_LEGACY_AMINO_JSON the sorted Amino JSON of the transaction
+  public toSignBytes(publicKey: Buffer, signMode: CosmosSignMode): Buffer {
+    if (signMode === CosmosSignMode.LEGACY_AMINO_JSON) {
+      return Buffer.from(JSON.stringify(this.toRPCBody()))
+    }
+
+    return new ProtobufWriter()
+      .bytes(1, this.toBodyProtobuf())
+      .bytes(2, this.toAuthInfoProtobuf(publicKey, signMode))
+      .string(3, this.chainID)
+      .uint64(4, this.accountNumber)
+      .finish()
+  }
+
+  public toTxRaw(publicKey: Buffer, signMode: CosmosSignMode, signature: Buffer): Buffer {
+    return new ProtobufWriter()
+      .bytes(1, this.toBodyProtobuf())
+      .bytes(2, this.toAuthInfoProtobuf(publicKey, signMode))
+      .message(3, signature)
+      .finish()
+  }
+
   public toAirGapTransactions(protocol: CosmosProtocol): IAirGapTransaction[] {
     const fee = this.fee.amount.map((value) => new BigNumber(value.amount)).reduce((prev, next) => prev.plus(next))
 
@@ -76,8 +157,8 @@ export class CosmosTransaction implements JSONConvertible, RPCConvertible {
       })
   }
 
-  public static fromJSON(json: SerializableUnsignedCosmosTransaction): CosmosTransaction {
-    const messages: CosmosMessage[] = json.transaction.messages.map((value) => {
+  public static fromJSON(json: SerializableUnsignedCosmosTransaction | SerializableUnsignedCosmosExtendedTransaction): CosmosTransaction {
+    const messages: CosmosMessage[] = (json.transaction.messages as CosmosMessageJSON[]).map((value: CosmosMessageJSON) => {
       const type: CosmosMessageTypeIndex = value.type
       switch (type) {
         case CosmosMessageType.Send.index:
@@ -87,6 +168,15 @@ export class CosmosTransaction implements JSONConvertible, RPCConvertible {
           return CosmosDelegateMessage.fromJSON(value)
         case CosmosMessageType.WithdrawDelegationReward.index:
           return CosmosWithdrawDelegationRewardMessage.fromJSON(value)
+        case CosmosMessageType.Redelegate.index:
+          return CosmosRedelegateMessage.fromJSON(value)
+        case CosmosMessageType.Vote.index:
+        case CosmosMessageType.VoteWeighted.index:
+          return CosmosVoteMessage.fromJSON(value)
+        case CosmosMessageType.Deposit.index:
+          return CosmosDepositMessage.fromJSON(value)
+        case CosmosMessageType.IBCTransfer.index:
+          return CosmosIBCTransferMessage.fromJSON(value)
         default:
           throw new InvalidValueError(Domain.COSMOS, 'Unknown message')
       }
@@ -113,6 +203,15 @@ export class CosmosTransaction implements JSONConvertible, RPCConvertible {
           return CosmosDelegateMessage.fromRPCBody(value)
         case CosmosMessageType.WithdrawDelegationReward.value:
           return CosmosWithdrawDelegationRewardMessage.fromRPCBody(value)
+        case CosmosMessageType.Redelegate.value:
+          return CosmosRedelegateMessage.fromRPCBody(value)
+        case CosmosMessageType.Vote.value:
+        case CosmosMessageType.VoteWeighted.value:
+          return CosmosVoteMessage.fromRPCBody(value)
+        case CosmosMessageType.Deposit.value:
+          return CosmosDepositMessage.fromRPCBody(value)
+        case CosmosMessageType.IBCTransfer.value:
+          return CosmosIBCTransferMessage.fromRPCBody(value)
         default:
           throw new InvalidValueError(Domain.COSMOS, 'Unknown message')
       }
@@ -120,4 +219,47 @@ export class CosmosTransaction implements JSONConvertible, RPCConvertible {
 
     return new CosmosTransaction(messages, CosmosFee.fromRPCBody(json.fee), json.memo, json.chain_id, json.account_number, json.sequence)
   }
+
+  // the chain ID and the account number are only part of the SignDoc, they cannot be recovered from a signed transaction
+  public static fromTxRaw(txRaw: Buffer): CosmosTransaction {
+    const reader: ProtobufReader = new ProtobufReader(txRaw)
+    const body: ProtobufReader = reader.message(1)
+    const authInfo: ProtobufReader = reader.message(2)
+    const signerInfos: ProtobufReader[] = authInfo.messages(1)
+    if (signerInfos.length !== 1) {
+      throw new InvalidValueError(Domain.COSMOS, 'Expected exactly one signer.')
+    }
+
+    return new CosmosTransaction(
+      body.messages(1).map((message: ProtobufReader) => CosmosTransaction.messageFromProtobuf(message.string(1), message.bytes(2))),
+      CosmosFee.fromProtobuf(authInfo.bytes(2)),
+      body.string(2),
+      '',
+      '',
+      signerInfos[0].uint64(3)
+    )
+  }
+
+  private static messageFromProtobuf(typeUrl: string, value: Buffer): CosmosMessage {
+    switch (typeUrl) {
+      case CosmosMessageType.Send.typeUrl:
+        return CosmosSendMessage.fromProtobuf(value)
+      case CosmosMessageType.Delegate.typeUrl:
+      case CosmosMessageType.Undelegate.typeUrl:
+        return CosmosDelegateMessage.fromProtobuf(value, typeUrl === CosmosMessageType.Undelegate.typeUrl)
+      case CosmosMessageType.WithdrawDelegationReward.typeUrl:
+        return CosmosWithdrawDelegationRewardMessage.fromProtobuf(value)
+      case CosmosMessageType.Redelegate.typeUrl:
+        return CosmosRedelegateMessage.fromProtobuf(value)
+      case CosmosMessageType.Vote.typeUrl:
+      case CosmosMessageType.VoteWeighted.typeUrl:
+        return CosmosVoteMessage.fromProtobuf(value, typeUrl === CosmosMessageType.VoteWeighted.typeUrl)
+      case CosmosMessageType.Deposit.typeUrl:
+        return CosmosDepositMessage.fromProtobuf(value)
+      case CosmosMessageType.IBCTransfer.typeUrl:
+        return CosmosIBCTransferMessage.fromProtobuf(value)
+      default:
+        throw new InvalidValueError(Domain.COSMOS, `Unknown message ${typeUrl}`)
+    }
+  }
 }
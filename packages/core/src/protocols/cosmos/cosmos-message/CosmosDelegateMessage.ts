@@ -1,6 +1,8 @@
 import { AirGapTransactionType, IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
 import { CosmosCoin } from '../CosmosCoin'
 import { CosmosProtocol } from '../CosmosProtocol'
+import { ProtobufReader } from '../protobuf/ProtobufReader'
+import { ProtobufWriter } from '../protobuf/ProtobufWriter'
 
 import { CosmosMessage, CosmosMessageJSON, CosmosMessageType, CosmosMessageTypeIndex } from './CosmosMessage'
 
@@ -71,4 +73,19 @@ export class CosmosDelegateMessage implements CosmosMessage {
       json.type === CosmosMessageType.Undelegate.value
     )
   }
+
+  public toProtobuf(): Buffer {
+    return new ProtobufWriter()
+      .string(1, this.delegatorAddress)
+      .string(2, this.validatorAddress)
+      .message(3, this.amount.toProtobuf())
+      .finish()
+  }
+
+  // MsgDelegate and MsgUndelegate share their fields, only the type URL tells them apart
+  public static fromProtobuf(bytes: Buffer, undelegate: boolean = false): CosmosDelegateMessage {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+
+    return new CosmosDelegateMessage(reader.string(1), reader.string(2), CosmosCoin.fromProtobuf(reader.bytes(3)), undelegate)
+  }
 }
@@ -0,0 +1,100 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { AirGapTransactionType, IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
+import { CosmosCoin, CosmosCoinJSON } from '../CosmosCoin'
+import { CosmosProtocol } from '../CosmosProtocol'
+import { ProtobufReader } from '../protobuf/ProtobufReader'
+import { ProtobufWriter } from '../protobuf/ProtobufWriter'
+
+import { CosmosMessage, CosmosMessageJSON, CosmosMessageType } from './CosmosMessage'
+
+export class CosmosDepositMessage implements CosmosMessage {
+  public readonly depositorAddress: string
+  public readonly proposalId: string
+  public readonly amount: CosmosCoin[]
+
+  public readonly type: CosmosMessageType = CosmosMessageType.Deposit
+
+  constructor(depositorAddress: string, proposalId: string, amount: CosmosCoin[]) {
+    this.depositorAddress = depositorAddress
+    this.proposalId = proposalId
+    this.amount = amount
+  }
+
+  public toJSON(): CosmosMessageJSON {
+    return {
+      type: this.type.index,
+      amount: this.amount.map((value: CosmosCoin) => value.toJSON()),
+      fromAddress: this.depositorAddress,
+      toAddress: '',
+      proposalId: this.proposalId
+    }
+  }
+
+  public static fromJSON(json: CosmosMessageJSON): CosmosDepositMessage {
+    return new CosmosDepositMessage(
+      json.fromAddress,
+      json.proposalId ?? '',
+      json.amount.map((value: CosmosCoinJSON) => CosmosCoin.fromJSON(value))
+    )
+  }
+
+  public toRPCBody(): any {
+    return {
+      type: this.type.value,
+      value: {
+        amount: this.amount.map((value: CosmosCoin) => value.toRPCBody()),
+        depositor: this.depositorAddress,
+        proposal_id: this.proposalId
+      }
+    }
+  }
+
+  public static fromRPCBody(json: any): CosmosDepositMessage {
+    return new CosmosDepositMessage(
+      json.value.depositor,
+      json.value.proposal_id,
+      json.value.amount.map((value) => CosmosCoin.fromRPCBody(value))
+    )
+  }
+
+  public toAirGapTransaction(protocol: CosmosProtocol, fee: string): IAirGapTransaction {
+    return {
+      amount: this.amount
+        .map((value: CosmosCoin) => new BigNumber(value.amount))
+        .reduce((prev: BigNumber, next: BigNumber) => prev.plus(next), new BigNumber(0))
+        .toString(10),
+      from: [this.depositorAddress],
+      to: [`Proposal #${this.proposalId}`],
+      isInbound: false,
+      fee,
+      protocolIdentifier: protocol.identifier,
+      network: protocol.options.network,
+      transactionDetails: this.toRPCBody(),
+      extra: {
+        type: AirGapTransactionType.DEPOSIT,
+        proposalId: this.proposalId
+      }
+    }
+  }
+
+  public toProtobuf(): Buffer {
+    return new ProtobufWriter()
+      .uint64(1, this.proposalId)
+      .string(2, this.depositorAddress)
+      .messages(
+        3,
+        this.amount.map((value: CosmosCoin) => value.toProtobuf())
+      )
+      .finish()
+  }
+
+  public static fromProtobuf(bytes: Buffer): CosmosDepositMessage {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+
+    return new CosmosDepositMessage(
+      reader.string(2),
+      reader.uint64(1),
+      reader.repeatedBytes(3).map((value: Buffer) => CosmosCoin.fromProtobuf(value))
+    )
+  }
+}
@@ -0,0 +1,156 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { AirGapTransactionType, IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
+import { CosmosCoin } from '../CosmosCoin'
+import { CosmosProtocol } from '../CosmosProtocol'
+import { ProtobufReader } from '../protobuf/ProtobufReader'
+import { ProtobufWriter } from '../protobuf/ProtobufWriter'
+
+import { CosmosMessage, CosmosMessageJSON, CosmosMessageType } from './CosmosMessage'
+
+export interface CosmosHeight {
+  revisionNumber: string
+  revisionHeight: string
+}
+
+// the Amino JSON of IBC messages omits zero integers
+function omitZero(key: string, value: string): { [key: string]: string } {
+  return new BigNumber(value).isZero() ? {} : { [key]: value }
+}
+
+export class CosmosIBCTransferMessage implements CosmosMessage {
+  public readonly sourcePort: string
+  public readonly sourceChannel: string
+  public readonly token: CosmosCoin
+  public readonly senderAddress: string
+  public readonly receiverAddress: string
+  public readonly timeoutHeight: CosmosHeight
+  public readonly timeoutTimestamp: string
+
+  public readonly type: CosmosMessageType = CosmosMessageType.IBCTransfer
+
+  constructor(
+    sourcePort: string,
+    sourceChannel: string,
+    token: CosmosCoin,
+    senderAddress: string,
+    receiverAddress: string,
+    timeoutHeight: CosmosHeight,
+    timeoutTimestamp: string
+  ) {
+    this.sourcePort = sourcePort
+    this.sourceChannel = sourceChannel
+    this.token = token
+    this.senderAddress = senderAddress
+    this.receiverAddress = receiverAddress
+    this.timeoutHeight = timeoutHeight
+    this.timeoutTimestamp = timeoutTimestamp
+  }
+
+  public toJSON(): CosmosMessageJSON {
+    return {
+      type: this.type.index,
+      amount: [this.token.toJSON()],
+      fromAddress: this.senderAddress,
+      toAddress: this.receiverAddress,
+      sourcePort: this.sourcePort,
+      sourceChannel: this.sourceChannel,
+      timeoutHeight: { revisionNumber: this.timeoutHeight.revisionNumber, revisionHeight: this.timeoutHeight.revisionHeight },
+      timeoutTimestamp: this.timeoutTimestamp
+    }
+  }
+
+  public static fromJSON(json: CosmosMessageJSON): CosmosIBCTransferMessage {
+    return new CosmosIBCTransferMessage(
+      json.sourcePort ?? '',
+      json.sourceChannel ?? '',
+      CosmosCoin.fromJSON(json.amount[0]),
+      json.fromAddress,
+      json.toAddress,
+      {
+        revisionNumber: json.timeoutHeight?.revisionNumber ?? '0',
+        revisionHeight: json.timeoutHeight?.revisionHeight ?? '0'
+      },
+      json.timeoutTimestamp ?? '0'
+    )
+  }
+
+  public toRPCBody(): any {
+    return {
+      type: this.type.value,
+      value: {
+        receiver: this.receiverAddress,
+        sender: this.senderAddress,
+        source_channel: this.sourceChannel,
+        source_port: this.sourcePort,
+        timeout_height: {
+          ...omitZero('revision_height', this.timeoutHeight.revisionHeight),
+          ...omitZero('revision_number', this.timeoutHeight.revisionNumber)
+        },
+        ...omitZero('timeout_timestamp', this.timeoutTimestamp),
+        token: this.token.toRPCBody()
+      }
+    }
+  }
+
+  public static fromRPCBody(json: any): CosmosIBCTransferMessage {
+    return new CosmosIBCTransferMessage(
+      json.value.source_port,
+      json.value.source_channel,
+      CosmosCoin.fromRPCBody(json.value.token),
+      json.value.sender,
+      json.value.receiver,
+      {
+        revisionNumber: json.value.timeout_height.revision_number ?? '0',
+        revisionHeight: json.value.timeout_height.revision_height ?? '0'
+      },
+      json.value.timeout_timestamp ?? '0'
+    )
+  }
+
+  public toAirGapTransaction(protocol: CosmosProtocol, fee: string): IAirGapTransaction {
+    return {
+      amount: this.token.amount,
+      from: [this.senderAddress],
+      to: [this.receiverAddress],
+      isInbound: false,
+      fee,
+      protocolIdentifier: protocol.identifier,
+      network: protocol.options.network,
+      transactionDetails: this.toRPCBody(),
+      extra: {
+        type: AirGapTransactionType.SPEND,
+        sourcePort: this.sourcePort,
+        sourceChannel: this.sourceChannel,
+        timeoutHeight: this.timeoutHeight,
+        timeoutTimestamp: this.timeoutTimestamp
+      }
+    }
+  }
+
+  public toProtobuf(): Buffer {
+    return new ProtobufWriter()
+      .string(1, this.sourcePort)
+      .string(2, this.sourceChannel)
+      .message(3, this.token.toProtobuf())
+      .string(4, this.senderAddress)
+      .string(5, this.receiverAddress)
+      .message(6, new ProtobufWriter().uint64(1, this.timeoutHeight.revisionNumber).uint64(2, this.timeoutHeight.revisionHeight).finish())
+      .uint64(7, this.timeoutTimestamp)
+      .finish()
+  }
+
+  public static fromProtobuf(bytes: Buffer): CosmosIBCTransferMessage {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+    const timeoutHeight: ProtobufReader = reader.message(6)
+
+    return new CosmosIBCTransferMessage(
+      reader.string(1),
+      reader.string(2),
+      CosmosCoin.fromProtobuf(reader.bytes(3)),
+      reader.string(4),
+      reader.string(5),
+      { revisionNumber: timeoutHeight.uint64(1), revisionHeight: timeoutHeight.uint64(2) },
+      reader.uint64(7)
+    )
+  }
+}
@@ -3,20 +3,42 @@ import { Domain } from '../../../errors/coinlib-error'
 import { IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
 import { CosmosCoinJSON } from '../CosmosCoin'
 import { CosmosProtocol } from '../CosmosProtocol'
-import { JSONConvertible, RPCConvertible } from '../CosmosTransaction'
+import { JSONConvertible, ProtobufConvertible, RPCConvertible } from '../CosmosTransaction'
 
 export interface CosmosMessageJSON {
   type: CosmosMessageTypeIndex
   amount: CosmosCoinJSON[]
   fromAddress: string
   toAddress: string
+  sourceValidatorAddress?: string
+  proposalId?: string
+  options?: CosmosWeightedVoteOptionJSON[]
+  sourcePort?: string
+  sourceChannel?: string
+  timeoutHeight?: CosmosHeightJSON
+  timeoutTimestamp?: string
+}
+
+export interface CosmosWeightedVoteOptionJSON {
+  option: number
+  weight: string
+}
+
+export interface CosmosHeightJSON {
+  revisionNumber: string
+  revisionHeight: string
 }
 
 export enum CosmosMessageTypeIndex {
   SEND = 0,
   DELEGATE = 1,
   UNDELEGATE = 2,
-  WITHDRAW_DELEGATION_REWARD = 3
+  WITHDRAW_DELEGATION_REWARD = 3,
+  REDELEGATE = 4,
+  VOTE = 5,
+  VOTE_WEIGHTED = 6,
+  DEPOSIT = 7,
+  IBC_TRANSFER = 8
 }
 
 export class CosmosMessageType {
@@ -24,24 +46,54 @@ export class CosmosMessageType {
   public static Delegate: CosmosMessageType = new CosmosMessageType(CosmosMessageTypeIndex.DELEGATE)
   public static Undelegate: CosmosMessageType = new CosmosMessageType(CosmosMessageTypeIndex.UNDELEGATE)
   public static WithdrawDelegationReward: CosmosMessageType = new CosmosMessageType(CosmosMessageTypeIndex.WITHDRAW_DELEGATION_REWARD)
+  public static Redelegate: CosmosMessageType = new CosmosMessageType(CosmosMessageTypeIndex.REDELEGATE)
+  public static Vote: CosmosMessageType = new CosmosMessageType(CosmosMessageTypeIndex.VOTE)
+  public static VoteWeighted: CosmosMessageType = new CosmosMessageType(CosmosMessageTypeIndex.VOTE_WEIGHTED)
+  public static Deposit: CosmosMessageType = new CosmosMessageType(CosmosMessageTypeIndex.DEPOSIT)
+  public static IBCTransfer: CosmosMessageType = new CosmosMessageType(CosmosMessageTypeIndex.IBC_TRANSFER)
 
   public readonly index: CosmosMessageTypeIndex
   public readonly value: string
+  public readonly typeUrl: string
 
   constructor(index: CosmosMessageTypeIndex) {
     this.index = index
     switch (index) {
       case CosmosMessageTypeIndex.SEND:
         this.value = 'cosmos-sdk/MsgSend'
+        this.typeUrl = '/cosmos.bank.v1beta1.MsgSend'
         break
       case CosmosMessageTypeIndex.DELEGATE:
         this.value = 'cosmos-sdk/MsgDelegate'
+        this.typeUrl = '/cosmos.staking.v1beta1.MsgDelegate'
         break
       case CosmosMessageTypeIndex.UNDELEGATE:
         this.value = 'cosmos-sdk/MsgUndelegate'
+        this.typeUrl = '/cosmos.staking.v1beta1.MsgUndelegate'
         break
       case CosmosMessageTypeIndex.WITHDRAW_DELEGATION_REWARD:
         this.value = 'cosmos-sdk/MsgWithdrawDelegationReward'
+        this.typeUrl = '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward'
+        break
+      case CosmosMessageTypeIndex.REDELEGATE:
+        this.value = 'cosmos-sdk/MsgBeginRedelegate'
+        this.typeUrl = '/cosmos.staking.v1beta1.MsgBeginRedelegate'
+        break
+      case CosmosMessageTypeIndex.VOTE:
+        this.value = 'cosmos-sdk/MsgVote'
+        this.typeUrl = '/cosmos.gov.v1beta1.MsgVote'
+        break
+      case CosmosMessageTypeIndex.VOTE_WEIGHTED:
+        this.value = 'cosmos-sdk/MsgVoteWeighted'
+        this.typeUrl = '/cosmos.gov.v1beta1.MsgVoteWeighted'
+        break
+      case CosmosMessageTypeIndex.DEPOSIT:
+        this.value = 'cosmos-sdk/MsgDeposit'
+        this.typeUrl = '/cosmos.gov.v1beta1.MsgDeposit'
+        break
+      case CosmosMessageTypeIndex.IBC_TRANSFER:
+        this.value = 'cosmos-sdk/MsgTransfer'
+        this.typeUrl = '/ibc.applications.transfer.v1.MsgTransfer'
         break
       default:
         throw new InvalidValueError(Domain.COSMOS, 'Unknown message')
@@ -49,7 +101,7 @@ export class CosmosMessageType {
   }
 }
 
-export interface CosmosMessage extends JSONConvertible, RPCConvertible {
+export interface CosmosMessage extends JSONConvertible, RPCConvertible, ProtobufConvertible {
   type: CosmosMessageType
 
   toAirGapTransaction(protocol: CosmosProtocol, fee: string): IAirGapTransaction
@@ -0,0 +1,95 @@
+import { AirGapTransactionType, IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
+import { CosmosCoin } from '../CosmosCoin'
+import { CosmosProtocol } from '../CosmosProtocol'
+import { ProtobufReader } from '../protobuf/ProtobufReader'
+import { ProtobufWriter } from '../protobuf/ProtobufWriter'
+
+import { CosmosMessage, CosmosMessageJSON, CosmosMessageType } from './CosmosMessage'
+
+export class CosmosRedelegateMessage implements CosmosMessage {
+  public readonly delegatorAddress: string
+  public readonly sourceValidatorAddress: string
+  public readonly destinationValidatorAddress: string
+  public readonly amount: CosmosCoin
+
+  public readonly type: CosmosMessageType = CosmosMessageType.Redelegate
+
+  constructor(delegatorAddress: string, sourceValidatorAddress: string, destinationValidatorAddress: string, amount: CosmosCoin) {
+    this.delegatorAddress = delegatorAddress
+    this.sourceValidatorAddress = sourceValidatorAddress
+    this.destinationValidatorAddress = destinationValidatorAddress
+    this.amount = amount
+  }
+
+  public toJSON(): CosmosMessageJSON {
+    return {
+      type: this.type.index,
+      amount: [this.amount.toJSON()],
+      fromAddress: this.delegatorAddress,
+      toAddress: this.destinationValidatorAddress,
+      sourceValidatorAddress: this.sourceValidatorAddress
+    }
+  }
+
+  public static fromJSON(json: CosmosMessageJSON): CosmosRedelegateMessage {
+    return new CosmosRedelegateMessage(
+      json.fromAddress,
+      json.sourceValidatorAddress ?? '',
+      json.toAddress,
+      CosmosCoin.fromJSON(json.amount[0])
+    )
+  }
+
+  public toRPCBody(): any {
+    return {
+      type: this.type.value,
+      value: {
+        amount: this.amount.toRPCBody(),
+        delegator_address: this.delegatorAddress,
+        validator_dst_address: this.destinationValidatorAddress,
+        validator_src_address: this.sourceValidatorAddress
+      }
+    }
+  }
+
+  public static fromRPCBody(json: any): CosmosRedelegateMessage {
+    return new CosmosRedelegateMessage(
+      json.value.delegator_address,
+      json.value.validator_src_address,
+      json.value.validator_dst_address,
+      CosmosCoin.fromRPCBody(json.value.amount)
+    )
+  }
+
+  public toAirGapTransaction(protocol: CosmosProtocol, fee: string): IAirGapTransaction {
+    return {
+      amount: this.amount.amount,
+      from: [this.delegatorAddress],
+      to: [this.destinationValidatorAddress],
+      isInbound: false,
+      fee,
+      protocolIdentifier: protocol.identifier,
+      network: protocol.options.network,
+      transactionDetails: this.toRPCBody(),
+      extra: {
+        type: AirGapTransactionType.REDELEGATE,
+        sourceValidator: this.sourceValidatorAddress
+      }
+    }
+  }
+
+  public toProtobuf(): Buffer {
+    return new ProtobufWriter()
+      .string(1, this.delegatorAddress)
+      .string(2, this.sourceValidatorAddress)
+      .string(3, this.destinationValidatorAddress)
+      .message(4, this.amount.toProtobuf())
+      .finish()
+  }
+
+  public static fromProtobuf(bytes: Buffer): CosmosRedelegateMessage {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+
+    return new CosmosRedelegateMessage(reader.string(1), reader.string(2), reader.string(3), CosmosCoin.fromProtobuf(reader.bytes(4)))
+  }
+}
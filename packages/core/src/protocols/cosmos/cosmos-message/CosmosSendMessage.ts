@@ -2,6 +2,8 @@ import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
 import { AirGapTransactionType, IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
 import { CosmosCoin, CosmosCoinJSON } from '../CosmosCoin'
 import { CosmosProtocol } from '../CosmosProtocol'
+import { ProtobufReader } from '../protobuf/ProtobufReader'
+import { ProtobufWriter } from '../protobuf/ProtobufWriter'
 
 import { CosmosMessage, CosmosMessageJSON, CosmosMessageType } from './CosmosMessage'
 
@@ -72,4 +74,25 @@ export class CosmosSendMessage implements CosmosMessage {
       json.value.amount.map((value) => CosmosCoin.fromRPCBody(value))
     )
   }
+
+  public toProtobuf(): Buffer {
+    return new ProtobufWriter()
+      .string(1, this.fromAddress)
+      .string(2, this.toAddress)
+      .messages(
+        3,
+        this.amount.map((value: CosmosCoin) => value.toProtobuf())
+      )
+      .finish()
+  }
+
+  public static fromProtobuf(bytes: Buffer): CosmosSendMessage {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+
+    return new CosmosSendMessage(
+      reader.string(1),
+      reader.string(2),
+      reader.repeatedBytes(3).map((value: Buffer) => CosmosCoin.fromProtobuf(value))
+    )
+  }
 }
@@ -0,0 +1,149 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { AirGapTransactionType, IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
+import { CosmosProtocol } from '../CosmosProtocol'
+import { ProtobufReader } from '../protobuf/ProtobufReader'
+import { ProtobufWriter } from '../protobuf/ProtobufWriter'
+
+import { CosmosMessage, CosmosMessageJSON, CosmosMessageType, CosmosMessageTypeIndex, CosmosWeightedVoteOptionJSON } from './CosmosMessage'
+
+// sdk.Dec values are fixed-point numbers with 18 decimals
+const DEC_PRECISION: number = 18
+
+export enum CosmosVoteOption {
+  UNSPECIFIED = 0,
+  YES = 1,
+  ABSTAIN = 2,
+  NO = 3,
+  NO_WITH_VETO = 4
+}
+
+export interface CosmosWeightedVoteOption {
+  option: CosmosVoteOption
+  weight: string
+}
+
+export class CosmosVoteMessage implements CosmosMessage {
+  public readonly voterAddress: string
+  public readonly proposalId: string
+  public readonly options: CosmosWeightedVoteOption[]
+
+  public readonly type: CosmosMessageType
+
+  constructor(voterAddress: string, proposalId: string, options: CosmosWeightedVoteOption[], weighted: boolean = false) {
+    this.voterAddress = voterAddress
+    this.proposalId = proposalId
+    this.options = options
+    this.type = weighted ? CosmosMessageType.VoteWeighted : CosmosMessageType.Vote
+  }
+
+  public toJSON(): CosmosMessageJSON {
+    return {
+      type: this.type.index,
+      amount: [],
+      fromAddress: this.voterAddress,
+      toAddress: '',
+      proposalId: this.proposalId,
+      options: this.options.map((option: CosmosWeightedVoteOption) => ({ option: option.option, weight: option.weight }))
+    }
+  }
+
+  public static fromJSON(json: CosmosMessageJSON): CosmosVoteMessage {
+    return new CosmosVoteMessage(
+      json.fromAddress,
+      json.proposalId ?? '',
+      (json.options ?? []).map((option: CosmosWeightedVoteOptionJSON) => ({ option: option.option, weight: option.weight })),
+      json.type === CosmosMessageType.VoteWeighted.index
+    )
+  }
+
+  public toRPCBody(): any {
+    if (this.type.index === CosmosMessageTypeIndex.VOTE_WEIGHTED) {
+      return {
+        type: this.type.value,
+        value: {
+          options: this.options.map((option: CosmosWeightedVoteOption) => ({
+            option: option.option,
+            weight: new BigNumber(option.weight).toFixed(DEC_PRECISION)
+          })),
+          proposal_id: this.proposalId,
+          voter: this.voterAddress
+        }
+      }
+    }
+
+    return {
+      type: this.type.value,
+      value: {
+        option: this.options[0].option,
+        proposal_id: this.proposalId,
+        voter: this.voterAddress
+      }
+    }
+  }
+
+  public static fromRPCBody(json: any): CosmosVoteMessage {
+    if (json.type === CosmosMessageType.VoteWeighted.value) {
+      return new CosmosVoteMessage(
+        json.value.voter,
+        json.value.proposal_id,
+        json.value.options.map((option: any) => ({ option: option.option, weight: new BigNumber(option.weight).toFixed() })),
+        true
+      )
+    }
+
+    return new CosmosVoteMessage(json.value.voter, json.value.proposal_id, [{ option: json.value.option, weight: '1' }])
+  }
+
+  public toAirGapTransaction(protocol: CosmosProtocol, fee: string): IAirGapTransaction {
+    return {
+      amount: '0',
+      from: [this.voterAddress],
+      to: [`Proposal #${this.proposalId}`],
+      isInbound: false,
+      fee,
+      protocolIdentifier: protocol.identifier,
+      network: protocol.options.network,
+      transactionDetails: this.toRPCBody(),
+      extra: {
+        type: AirGapTransactionType.VOTE,
+        proposalId: this.proposalId,
+        options: this.options.map((option: CosmosWeightedVoteOption) => ({
+          option: CosmosVoteOption[option.option],
+          weight: option.weight
+        }))
+      }
+    }
+  }
+
+  public toProtobuf(): Buffer {
+    const writer: ProtobufWriter = new ProtobufWriter().uint64(1, this.proposalId).string(2, this.voterAddress)
+    if (this.type.index === CosmosMessageTypeIndex.VOTE_WEIGHTED) {
+      return writer
+        .messages(
+          3,
+          this.options.map((option: CosmosWeightedVoteOption) =>
+            new ProtobufWriter()
+              .uint64(1, option.option)
+              .string(2, new BigNumber(option.weight).shiftedBy(DEC_PRECISION).toFixed())
+              .finish()
+          )
+        )
+        .finish()
+    }
+
+    return writer.uint64(3, this.options[0].option).finish()
+  }
+
+  // MsgVote and MsgVoteWeighted share the first two fields, the third one is either a single option or the weighted options
+  public static fromProtobuf(bytes: Buffer, weighted: boolean = false): CosmosVoteMessage {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+    const options: CosmosWeightedVoteOption[] = weighted
+      ? reader.messages(3).map((option: ProtobufReader) => ({
+          option: parseInt(option.uint64(1), 10),
+          weight: new BigNumber(option.string(2)).shiftedBy(-DEC_PRECISION).toFixed()
+        }))
+      : [{ option: parseInt(reader.uint64(3), 10), weight: '1' }]
+
+    return new CosmosVoteMessage(reader.string(2), reader.uint64(1), options, weighted)
+  }
+}
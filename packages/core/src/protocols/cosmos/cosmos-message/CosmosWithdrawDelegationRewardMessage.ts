@@ -1,5 +1,7 @@
 import { IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
 import { CosmosProtocol } from '../CosmosProtocol'
+import { ProtobufReader } from '../protobuf/ProtobufReader'
+import { ProtobufWriter } from '../protobuf/ProtobufWriter'
 
 import { CosmosMessage, CosmosMessageJSON, CosmosMessageType } from './CosmosMessage'
 
@@ -52,4 +54,14 @@ export class CosmosWithdrawDelegationRewardMessage implements CosmosMessage {
   public static fromRPCBody(json: any): CosmosWithdrawDelegationRewardMessage {
     return new CosmosWithdrawDelegationRewardMessage(json.value.delegator_address, json.value.validator_address)
   }
+
+  public toProtobuf(): Buffer {
+    return new ProtobufWriter().string(1, this.delegatorAddress).string(2, this.validatorAddress).finish()
+  }
+
+  public static fromProtobuf(bytes: Buffer): CosmosWithdrawDelegationRewardMessage {
+    const reader: ProtobufReader = new ProtobufReader(bytes)
+
+    return new CosmosWithdrawDelegationRewardMessage(reader.string(1), reader.string(2))
+  }
 }
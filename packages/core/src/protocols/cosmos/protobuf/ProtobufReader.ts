@@ -0,0 +1,110 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+
+import { ProtobufWireType } from './ProtobufWriter'
+
+type ProtobufValue = BigNumber | Buffer
+
+function decodeVarint(bytes: Buffer, offset: number): [BigNumber, number] {
+  let value: BigNumber = new BigNumber(0)
+  let factor: BigNumber = new BigNumber(1)
+  for (let index: number = offset; index < bytes.length; index++) {
+    value = value.plus(factor.times(bytes[index] & 0x7f))
+    if ((bytes[index] & 0x80) === 0) {
+      return [value, index + 1]
+    }
+    factor = factor.times(0x80)
+  }
+
+  throw new InvalidValueError(Domain.COSMOS, 'Protobuf data is too short.')
+}
+
+/**
+ * Reads all fields of a protobuf message, the field types are only known once the values are requested.
+ */
+export class ProtobufReader {
+  private readonly fields: Map<number, ProtobufValue[]> = new Map()
+
+  constructor(bytes: Buffer) {
+    let offset: number = 0
+    while (offset < bytes.length) {
+      const [tag, valueOffset]: [BigNumber, number] = decodeVarint(bytes, offset)
+      const [value, nextOffset]: [ProtobufValue, number] = this.decodeValue(bytes, valueOffset, tag.mod(8).toNumber())
+
+      const field: number = tag.idiv(8).toNumber()
+      this.fields.set(field, (this.fields.get(field) ?? []).concat([value]))
+      offset = nextOffset
+    }
+  }
+
+  public uint64(field: number): string {
+    const value: ProtobufValue | undefined = this.last(field)
+    if (value !== undefined && !BigNumber.isBigNumber(value)) {
+      throw new InvalidValueError(Domain.COSMOS, `Protobuf field ${field} is not a varint.`)
+    }
+
+    return value !== undefined ? value.toFixed() : '0'
+  }
+
+  public string(field: number): string {
+    return this.bytes(field).toString('utf8')
+  }
+
+  public bytes(field: number): Buffer {
+    const value: ProtobufValue | undefined = this.last(field)
+
+    return value !== undefined ? this.toBuffer(field, value) : Buffer.alloc(0)
+  }
+
+  public repeatedBytes(field: number): Buffer[] {
+    return (this.fields.get(field) ?? []).map((value: ProtobufValue) => this.toBuffer(field, value))
+  }
+
+  public message(field: number): ProtobufReader {
+    return new ProtobufReader(this.bytes(field))
+  }
+
+  public messages(field: number): ProtobufReader[] {
+    return this.repeatedBytes(field).map((bytes: Buffer) => new ProtobufReader(bytes))
+  }
+
+  private last(field: number): ProtobufValue | undefined {
+    const values: ProtobufValue[] | undefined = this.fields.get(field)
+
+    return values !== undefined ? values[values.length - 1] : undefined
+  }
+
+  private toBuffer(field: number, value: ProtobufValue): Buffer {
+    if (BigNumber.isBigNumber(value)) {
+      throw new InvalidValueError(Domain.COSMOS, `Protobuf field ${field} is not length-delimited.`)
+    }
+
+    return value
+  }
+
+  private decodeValue(bytes: Buffer, offset: number, wireType: number): [ProtobufValue, number] {
+    switch (wireType) {
+      case ProtobufWireType.VARINT:
+        return decodeVarint(bytes, offset)
+      case ProtobufWireType.LENGTH_DELIMITED:
+        const [length, start]: [BigNumber, number] = decodeVarint(bytes, offset)
+        const end: number = start + length.toNumber()
+        if (end > bytes.length) {
+          throw new InvalidValueError(Domain.COSMOS, 'Protobuf data is too short.')
+        }
+
+        return [bytes.slice(start, end), end]
+      case ProtobufWireType.FIXED64:
+      case ProtobufWireType.FIXED32:
+        const size: number = wireType === ProtobufWireType.FIXED64 ? 8 : 4
+        if (offset + size > bytes.length) {
+          throw new InvalidValueError(Domain.COSMOS, 'Protobuf data is too short.')
+        }
+
+        return [bytes.slice(offset, offset + size), offset + size]
+      default:
+        throw new InvalidValueError(Domain.COSMOS, `Unsupported protobuf wire type ${wireType}.`)
+    }
+  }
+}
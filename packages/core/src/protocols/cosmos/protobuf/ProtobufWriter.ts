@@ -0,0 +1,72 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+
+export enum ProtobufWireType {
+  VARINT = 0,
+  FIXED64 = 1,
+  LENGTH_DELIMITED = 2,
+  FIXED32 = 5
+}
+
+export function encodeVarint(value: BigNumber.Value): Buffer {
+  let remaining: BigNumber = new BigNumber(value)
+  if (!remaining.isInteger() || remaining.isNegative()) {
+    throw new InvalidValueError(Domain.COSMOS, `Invalid unsigned integer ${value}.`)
+  }
+
+  const bytes: number[] = []
+  while (remaining.gte(0x80)) {
+    bytes.push(remaining.mod(0x80).plus(0x80).toNumber())
+    remaining = remaining.idiv(0x80)
+  }
+  bytes.push(remaining.toNumber())
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Writes protobuf messages field by field. Scalars with the default value are omitted like proto3 does, so the output is canonical.
+ */
+export class ProtobufWriter {
+  private readonly chunks: Buffer[] = []
+
+  public uint64(field: number, value: BigNumber.Value): ProtobufWriter {
+    if (!new BigNumber(value).isZero()) {
+      this.tag(field, ProtobufWireType.VARINT)
+      this.chunks.push(encodeVarint(value))
+    }
+
+    return this
+  }
+
+  public string(field: number, value: string): ProtobufWriter {
+    return this.bytes(field, Buffer.from(value, 'utf8'))
+  }
+
+  public bytes(field: number, value: Buffer): ProtobufWriter {
+    return value.length > 0 ? this.message(field, value) : this
+  }
+
+  // embedded messages are written even if they are empty, their presence is significant
+  public message(field: number, value: Buffer): ProtobufWriter {
+    this.tag(field, ProtobufWireType.LENGTH_DELIMITED)
+    this.chunks.push(encodeVarint(value.length), value)
+
+    return this
+  }
+
+  public messages(field: number, values: Buffer[]): ProtobufWriter {
+    values.forEach((value: Buffer) => this.message(field, value))
+
+    return this
+  }
+
+  public finish(): Buffer {
+    return Buffer.concat(this.chunks)
+  }
+
+  private tag(field: number, wireType: ProtobufWireType): void {
+    this.chunks.push(encodeVarint(field * 8 + wireType))
+  }
+}
@@ -7,9 +7,12 @@ import { Domain } from '../../errors/coinlib-error'
 import { IAirGapSignedTransaction } from '../../interfaces/IAirGapSignedTransaction'
 import { AirGapTransactionStatus, IAirGapTransaction } from '../../interfaces/IAirGapTransaction'
 import { Network } from '../../networks'
+import { MessageSignRequest } from '../../serializer/schemas/definitions/message-sign-request'
+import { TypedMessageSignRequest } from '../../serializer/schemas/definitions/message-sign-request-typed'
 import { SignedEthereumTransaction } from '../../serializer/schemas/definitions/signed-transaction-ethereum'
 import { UnsignedTransaction } from '../../serializer/schemas/definitions/unsigned-transaction'
-import { RawEthereumTransaction } from '../../serializer/types'
+import { RawEthereumTransaction, RawEthereumTypedTransaction } from '../../serializer/types'
+import { assertNever } from '../../utils/assert'
 import { MainProtocolSymbols, ProtocolSymbols } from '../../utils/ProtocolSymbols'
 import { getSubProtocolsByIdentifier } from '../../utils/subProtocols'
 import { CurrencyUnit, FeeDefaults, ICoinProtocol } from '../ICoinProtocol'
@@ -17,14 +20,49 @@ import { ICoinSubProtocol, SubProtocolType } from '../ICoinSubProtocol'
 
 import { EthereumInfoClient } from './clients/info-clients/InfoClient'
 import { EthereumNodeClient } from './clients/node-clients/NodeClient'
+import { decodeFunctionCall, encodeFunctionCall, EthereumABIItem, EthereumDecodedCall } from './EthereumABI'
 import { EthereumAddress } from './EthereumAddress'
 import { EthereumCryptoClient } from './EthereumCryptoClient'
 import { EthereumProtocolOptions } from './EthereumProtocolOptions'
-import { EthereumTransactionCursor, EthereumTransactionResult } from './EthereumTypes'
+import { EthereumTypedData, parseTypedData } from './EthereumTypedData'
+import { EthereumTypedTransaction } from './EthereumTypedTransaction'
+import {
+  EthereumEIP1559FeeDefaults,
+  EthereumFeeHistory,
+  EthereumMessageType,
+  EthereumTransactionCursor,
+  EthereumTransactionOptions,
+  EthereumTransactionResult,
+  EthereumTransactionType
+} from './EthereumTypes'
 import { EthereumUtils } from './utils/utils'
 
 const EthereumTransaction = require('../../dependencies/src/ethereumjs-tx-1.3.7/index')
 
+const FEE_HISTORY_BLOCK_COUNT: number = 10
+// the priority fees of the low, medium and high fee defaults
+const FEE_HISTORY_REWARD_PERCENTILES: number[] = [25, 50, 75]
+// the base fee can increase by 12.5% per block, doubling it keeps the transaction valid for at least 6 full blocks
+const BASE_FEE_MULTIPLIER: number = 2
+
+function getMaxFeePerGas(transaction: RawEthereumTransaction | RawEthereumTypedTransaction): string {
+  return EthereumTypedTransaction.isRawTypedTransaction(transaction) && transaction.type === EthereumTransactionType.EIP1559
+    ? transaction.maxFeePerGas
+    : transaction.gasPrice
+}
+
+function getCallData(options?: EthereumTransactionOptions): string | undefined {
+  return options?.contractCall !== undefined
+    ? encodeFunctionCall(options.contractCall.abi, options.contractCall.method, options.contractCall.args)
+    : undefined
+}
+
+function getMedian(values: BigNumber[]): BigNumber {
+  const sorted: BigNumber[] = [...values].sort((a: BigNumber, b: BigNumber) => a.comparedTo(b))
+
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : new BigNumber(0)
+}
+
 export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient, InfoClient extends EthereumInfoClient>
   implements ICoinProtocol {
   public symbol: string = 'ETH'
@@ -44,6 +82,9 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
   public identifier: ProtocolSymbols = MainProtocolSymbols.ETH
   protected readonly MAX_GAS_ESTIMATE: string = '300000'
 
+  // the ABIs of known contracts by their lowercase address, used to show the decoded calls of transactions
+  protected readonly contractABIs: Map<string, EthereumABIItem[]> = new Map()
+
   public units: CurrencyUnit[] = [
     {
       unitSymbol: 'ETH',
@@ -167,10 +208,19 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
     return Promise.reject('extended private key signing for ether not implemented')
   }
 
-  public async signWithPrivateKey(privateKey: Buffer, transaction: RawEthereumTransaction): Promise<IAirGapSignedTransaction> {
+  public async signWithPrivateKey(
+    privateKey: Buffer,
+    transaction: RawEthereumTransaction | RawEthereumTypedTransaction
+  ): Promise<IAirGapSignedTransaction> {
     if (!transaction.value.startsWith('0x')) {
       transaction.value = EthereumUtils.toHex(parseInt(transaction.value, 10))
     }
+    if (EthereumTypedTransaction.isRawTypedTransaction(transaction)) {
+      const typedTx = EthereumTypedTransaction.fromRaw(transaction)
+      typedTx.sign(privateKey)
+
+      return typedTx.serialize().toString('hex')
+    }
     const tx = new EthereumTransaction(transaction)
     tx.sign(privateKey)
 
@@ -178,7 +228,7 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
   }
 
   public async getTransactionDetails(unsignedTx: UnsignedTransaction): Promise<IAirGapTransaction[]> {
-    const transaction = unsignedTx.transaction as RawEthereumTransaction
+    const transaction = unsignedTx.transaction as RawEthereumTransaction | RawEthereumTypedTransaction
     const address: EthereumAddress = await this.getAddressFromPublicKey(unsignedTx.publicKey)
 
     return [
@@ -186,17 +236,23 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
         from: [address.getValue()],
         to: [transaction.to],
         amount: new BigNumber(transaction.value).toString(10),
-        fee: new BigNumber(transaction.gasLimit).multipliedBy(new BigNumber(transaction.gasPrice)).toString(10),
+        // for EIP-1559 transactions this is the maximum fee, the actual fee depends on the base fee of the block
+        fee: new BigNumber(transaction.gasLimit).multipliedBy(new BigNumber(getMaxFeePerGas(transaction))).toString(10),
         protocolIdentifier: this.identifier,
         network: this.options.network,
         isInbound: false,
         data: transaction.data,
+        extra: await this.getContractCallExtra(transaction.to, transaction.data),
         transactionDetails: unsignedTx
       }
     ]
   }
 
   public async getTransactionDetailsFromSigned(transaction: SignedEthereumTransaction): Promise<IAirGapTransaction[]> {
+    if (EthereumTypedTransaction.isSerializedTypedTransaction(transaction.transaction)) {
+      return this.getTypedTransactionDetailsFromSigned(transaction)
+    }
+
     const ethTx = new EthereumTransaction(transaction.transaction)
 
     const hexValue = ethTx.value.toString('hex') || '0x0'
@@ -216,13 +272,62 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
         hash: `0x${ethTx.hash().toString('hex')}`,
         data: `0x${ethTx.data.toString('hex')}`,
         extra: {
-          nonce: parseInt(hexNonce, 16)
+          nonce: parseInt(hexNonce, 16),
+          ...(await this.getContractCallExtra(`0x${ethTx.to.toString('hex')}`, `0x${ethTx.data.toString('hex')}`))
+        },
+        transactionDetails: transaction.transaction
+      }
+    ]
+  }
+
+  private async getTypedTransactionDetailsFromSigned(transaction: SignedEthereumTransaction): Promise<IAirGapTransaction[]> {
+    const typedTx: EthereumTypedTransaction = EthereumTypedTransaction.fromSerialized(transaction.transaction)
+    const rawTx: RawEthereumTypedTransaction = typedTx.transaction
+
+    return [
+      {
+        from: [typedTx.getSenderAddress()],
+        to: [ethUtil.toChecksumAddress(rawTx.to)],
+        amount: new BigNumber(rawTx.value).toString(10),
+        fee: new BigNumber(rawTx.gasLimit).multipliedBy(new BigNumber(getMaxFeePerGas(rawTx))).toString(10),
+        protocolIdentifier: this.identifier,
+        network: this.options.network,
+        isInbound: false,
+        hash: `0x${typedTx.hash().toString('hex')}`,
+        data: rawTx.data,
+        extra: {
+          nonce: new BigNumber(rawTx.nonce).toNumber(),
+          ...(await this.getContractCallExtra(rawTx.to, rawTx.data))
         },
         transactionDetails: transaction.transaction
       }
     ]
   }
 
+  public addContractABI(contractAddress: string, abi: EthereumABIItem[]): void {
+    this.contractABIs.set(contractAddress.toLowerCase(), abi)
+  }
+
+  // returns undefined if the ABI of the contract is not known or the data is not a call of one of its functions
+  public async decodeContractCall(contractAddress: string, data: string): Promise<EthereumDecodedCall | undefined> {
+    const abi: EthereumABIItem[] | undefined = this.contractABIs.get(contractAddress.toLowerCase())
+    if (abi === undefined || ethUtil.stripHexPrefix(data).length === 0) {
+      return undefined
+    }
+
+    try {
+      return decodeFunctionCall(abi, data)
+    } catch (error) {
+      return undefined
+    }
+  }
+
+  private async getContractCallExtra(contractAddress: string, data: string): Promise<{ contractCall?: EthereumDecodedCall }> {
+    const contractCall: EthereumDecodedCall | undefined = await this.decodeContractCall(contractAddress, data)
+
+    return contractCall !== undefined ? { contractCall } : {}
+  }
+
   public async getBalanceOfPublicKey(publicKey: string): Promise<string> {
     const address: EthereumAddress = await this.getAddressFromPublicKey(publicKey)
 
@@ -241,15 +346,25 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
 
   public async getBalanceOfPublicKeyForSubProtocols(publicKey: string, subProtocols: ICoinSubProtocol[]): Promise<string[]> {
     const address: string = await this.getAddressFromPublicKey(publicKey).then((address: EthereumAddress) => address.getValue())
-    const contractAddresses = subProtocols.map((subProtocol) => {
-      if (subProtocol.subProtocolType === SubProtocolType.TOKEN && subProtocol.contractAddress) {
-        return subProtocol.contractAddress
-      } else {
-        throw new UnsupportedError(Domain.ETHEREUM, 'can only retrieve balance of ERC20 tokens')
-      }
-    })
+    const contractAddresses = subProtocols
+      .filter((subProtocol) => subProtocol.subProtocolType !== SubProtocolType.NFT)
+      .map((subProtocol) => {
+        if (subProtocol.subProtocolType === SubProtocolType.TOKEN && subProtocol.contractAddress) {
+          return subProtocol.contractAddress
+        } else {
+          throw new UnsupportedError(Domain.ETHEREUM, 'can only retrieve balance of ERC20 tokens and NFTs')
+        }
+      })
     const balances = await this.options.nodeClient.callBalanceOfOnContracts(contractAddresses, address)
-    return contractAddresses.map((contractAddresse) => balances[contractAddresse]?.toFixed() ?? '0')
+
+    // NFT balances cannot be batched, each standard counts the tokens differently
+    return Promise.all(
+      subProtocols.map((subProtocol) =>
+        subProtocol.subProtocolType === SubProtocolType.NFT
+          ? subProtocol.getBalanceOfPublicKey(publicKey)
+          : balances[subProtocol.contractAddress as string]?.toFixed() ?? '0'
+      )
+    )
   }
 
   public getBalanceOfExtendedPublicKey(extendedPublicKey: string, offset: number = 0): Promise<string> {
@@ -310,7 +425,7 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
     publicKey: string,
     recipients: string[],
     values: string[],
-    data?: any
+    data?: EthereumTransactionOptions
   ): Promise<FeeDefaults> {
     if (recipients.length !== values.length) {
       return Promise.reject('recipients length does not match with values')
@@ -323,12 +438,21 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
       address,
       recipients[0],
       EthereumUtils.toHex(values[0]),
-      undefined,
+      getCallData(data),
       EthereumUtils.toHex(this.MAX_GAS_ESTIMATE)
     )
+
+    return this.estimateFeeDefaults(estimatedGas, data)
+  }
+
+  protected async estimateFeeDefaults(gasLimit: BigNumber, options?: EthereumTransactionOptions): Promise<FeeDefaults> {
+    if (options?.type === EthereumTransactionType.EIP1559) {
+      return this.estimateEIP1559FeeDefaults(gasLimit)
+    }
+
     const gasPrise = await this.options.nodeClient.getGasPrice()
     const feeStepFactor = new BigNumber(0.5)
-    const estimatedFee = estimatedGas.times(gasPrise)
+    const estimatedFee = gasLimit.times(gasPrise)
     const lowFee = estimatedFee.minus(estimatedFee.times(feeStepFactor).integerValue(BigNumber.ROUND_FLOOR))
     const mediumFee = estimatedFee
     const highFee = mediumFee.plus(mediumFee.times(feeStepFactor).integerValue(BigNumber.ROUND_FLOOR))
@@ -340,13 +464,46 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
     }
   }
 
+  private async estimateEIP1559FeeDefaults(gasLimit: BigNumber): Promise<EthereumEIP1559FeeDefaults> {
+    const baseFeePerGas: BigNumber | undefined = await this.options.nodeClient.getBaseFeePerGas()
+    if (baseFeePerGas === undefined) {
+      throw new UnsupportedError(Domain.ETHEREUM, 'EIP-1559 transactions are not supported by this network.')
+    }
+    const [low, medium, high]: BigNumber[] = await this.estimateMaxPriorityFeesPerGas()
+    const getMaxFee = (maxPriorityFeePerGas: BigNumber): string =>
+      gasLimit.times(baseFeePerGas.times(BASE_FEE_MULTIPLIER).plus(maxPriorityFeePerGas)).shiftedBy(-this.feeDecimals).toFixed()
+
+    return {
+      low: getMaxFee(low),
+      medium: getMaxFee(medium),
+      high: getMaxFee(high),
+      maxPriorityFeePerGas: {
+        low: low.toFixed(),
+        medium: medium.toFixed(),
+        high: high.toFixed()
+      }
+    }
+  }
+
+  // the median priority fee of the last blocks at each of the reward percentiles
+  private async estimateMaxPriorityFeesPerGas(): Promise<BigNumber[]> {
+    const feeHistory: EthereumFeeHistory = await this.options.nodeClient.getFeeHistory(
+      FEE_HISTORY_BLOCK_COUNT,
+      FEE_HISTORY_REWARD_PERCENTILES
+    )
+
+    return FEE_HISTORY_REWARD_PERCENTILES.map((_: number, index: number) =>
+      getMedian(feeHistory.reward.map((rewards: BigNumber[]) => rewards[index]))
+    )
+  }
+
   public async prepareTransactionFromPublicKey(
     publicKey: string,
     recipients: string[],
     values: string[],
     fee: string,
-    data?: any
-  ): Promise<RawEthereumTransaction> {
+    data?: EthereumTransactionOptions
+  ): Promise<RawEthereumTransaction | RawEthereumTypedTransaction> {
     const wrappedValues: BigNumber[] = values.map((value: string) => new BigNumber(value))
     const wrappedFee: BigNumber = new BigNumber(fee)
 
@@ -361,34 +518,78 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
     }
 
     const amount = EthereumUtils.toHex(wrappedValues[0].toFixed())
+    const callData: string | undefined = getCallData(data)
 
     const balance = await this.getBalanceOfPublicKey(publicKey)
     const gasLimit = await this.options.nodeClient.estimateTransactionGas(
       address,
       recipients[0],
       amount,
-      undefined,
+      callData,
       EthereumUtils.toHex(this.MAX_GAS_ESTIMATE)
     )
-    const gasPrice = wrappedFee.div(gasLimit).integerValue(BigNumber.ROUND_CEIL)
     if (new BigNumber(balance).gte(new BigNumber(wrappedValues[0].plus(wrappedFee)))) {
       const txCount = await this.options.nodeClient.fetchTransactionCount(address)
-      const transaction: RawEthereumTransaction = {
-        nonce: EthereumUtils.toHex(txCount),
-        gasLimit: EthereumUtils.toHex(gasLimit.toFixed()),
-        gasPrice: EthereumUtils.toHex(gasPrice.toFixed()), // 10 Gwei
-        to: recipients[0],
-        value: amount,
-        chainId: this.options.network.extras.chainID,
-        data: '0x'
-      }
 
-      return transaction
+      return this.createRawTransaction(txCount, gasLimit, wrappedFee, recipients[0], amount, callData ?? '0x', data)
     } else {
       throw new BalanceError(Domain.BITCOIN, 'not enough balance')
     }
   }
 
+  // the fee is split evenly over the gas, for EIP-1559 transactions this results in the maximum fee per gas
+  protected async createRawTransaction(
+    nonce: number,
+    gasLimit: BigNumber,
+    fee: BigNumber,
+    to: string,
+    value: string,
+    data: string,
+    options?: EthereumTransactionOptions
+  ): Promise<RawEthereumTransaction | RawEthereumTypedTransaction> {
+    const gasPrice: BigNumber = fee.div(gasLimit).integerValue(BigNumber.ROUND_CEIL)
+    const transaction: RawEthereumTransaction = {
+      nonce: EthereumUtils.toHex(nonce),
+      gasLimit: EthereumUtils.toHex(gasLimit.toFixed()),
+      gasPrice: EthereumUtils.toHex(gasPrice.toFixed()),
+      to,
+      value,
+      chainId: this.options.network.extras.chainID,
+      data
+    }
+
+    if (options?.type === undefined) {
+      return transaction
+    }
+
+    switch (options.type) {
+      case EthereumTransactionType.ACCESS_LIST:
+        return { ...transaction, type: EthereumTransactionType.ACCESS_LIST, accessList: options.accessList ?? [] }
+      case EthereumTransactionType.EIP1559: {
+        const maxPriorityFeePerGas: BigNumber = BigNumber.min(
+          options.maxPriorityFeePerGas ?? (await this.estimateMaxPriorityFeesPerGas())[1],
+          gasPrice
+        )
+
+        return {
+          type: EthereumTransactionType.EIP1559,
+          nonce: transaction.nonce,
+          maxPriorityFeePerGas: EthereumUtils.toHex(maxPriorityFeePerGas.toFixed()),
+          maxFeePerGas: transaction.gasPrice,
+          gasLimit: transaction.gasLimit,
+          to,
+          value,
+          chainId: transaction.chainId,
+          data,
+          accessList: options.accessList ?? []
+        }
+      }
+      default:
+        assertNever(options.type)
+        throw new UnsupportedError(Domain.ETHEREUM, `Unsupported transaction type ${options.type}`)
+    }
+  }
+
   public async broadcastTransaction(rawTransaction: string): Promise<string> {
     return this.options.nodeClient.sendSignedTransaction(`0x${rawTransaction}`)
   }
@@ -444,6 +645,37 @@ export abstract class BaseEthereumProtocol<NodeClient extends EthereumNodeClient
     return this.cryptoClient.verifyMessage(message, signature, publicKey)
   }
 
+  public async signTypedData(typedData: EthereumTypedData, keypair: { privateKey: Buffer }): Promise<string> {
+    return this.cryptoClient.signTypedData(typedData, keypair)
+  }
+
+  public async verifyTypedData(typedData: EthereumTypedData, signature: string, publicKey: string): Promise<boolean> {
+    return this.cryptoClient.verifyTypedData(typedData, signature, publicKey)
+  }
+
+  public async createTypedDataSignRequest(
+    publicKey: string,
+    typedData: EthereumTypedData,
+    callbackURL: string = ''
+  ): Promise<TypedMessageSignRequest> {
+    return {
+      message: JSON.stringify(typedData),
+      messageType: EthereumMessageType.TYPED_DATA_V4,
+      publicKey,
+      callbackURL
+    }
+  }
+
+  // returns the typed data of a request, so that its fields can be shown before signing
+  public async getTypedDataFromMessageSignRequest(request: MessageSignRequest | TypedMessageSignRequest): Promise<EthereumTypedData> {
+    const messageType: string | undefined = (request as TypedMessageSignRequest).messageType
+    if (messageType !== EthereumMessageType.TYPED_DATA_V4) {
+      throw new UnsupportedError(Domain.ETHEREUM, `Message sign request of type ${messageType} does not contain typed data.`)
+    }
+
+    return parseTypedData(request.message)
+  }
+
   public async encryptAsymmetric(message: string, publicKey: string): Promise<string> {
     return this.cryptoClient.encryptAsymmetric(message, publicKey)
   }
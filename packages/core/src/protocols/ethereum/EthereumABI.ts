@@ -0,0 +1,420 @@
+import * as ethUtil from '../../dependencies/src/ethereumjs-util-5.2.0/index'
+import { InvalidValueError, NotFoundError, UnsupportedError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+
+// contract ABI encoding, see https://docs.soliditylang.org/en/latest/abi-spec.html
+
+export interface EthereumABIParameter {
+  name: string
+  type: string
+  components?: EthereumABIParameter[]
+  indexed?: boolean
+}
+
+export interface EthereumABIItem {
+  type: 'function' | 'constructor' | 'event' | 'error' | 'fallback' | 'receive'
+  name?: string
+  inputs?: EthereumABIParameter[]
+  outputs?: EthereumABIParameter[]
+  stateMutability?: string
+}
+
+// integers can be passed as numbers, decimal or hex strings, tuples as arrays or objects keyed by the component names
+export type EthereumABIValue = string | number | boolean | EthereumABIValue[] | { [name: string]: EthereumABIValue }
+
+export interface EthereumDecodedParameter {
+  name: string
+  type: string
+  value: EthereumABIValue
+}
+
+export interface EthereumDecodedCall {
+  name: string
+  signature: string
+  parameters: EthereumDecodedParameter[]
+}
+
+const WORD_LENGTH: number = 32
+const SELECTOR_LENGTH: number = 4
+
+interface ArrayType {
+  item: EthereumABIParameter
+  length?: number
+}
+
+function getArrayType(parameter: EthereumABIParameter): ArrayType | undefined {
+  const match: RegExpExecArray | null = /^(.*)\[(\d*)\]$/.exec(parameter.type)
+  if (match === null) {
+    return undefined
+  }
+
+  return { item: { ...parameter, type: match[1] }, length: match[2] === '' ? undefined : parseInt(match[2], 10) }
+}
+
+function getComponents(parameter: EthereumABIParameter): EthereumABIParameter[] {
+  if (parameter.components === undefined) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Tuple ${parameter.name} has no components.`)
+  }
+
+  return parameter.components
+}
+
+// the bit size of an integer type, `uint` and `int` are aliases of `uint256` and `int256`
+function getIntegerSize(type: string): number | undefined {
+  const match: RegExpExecArray | null = /^u?int(\d*)$/.exec(type)
+  if (match === null) {
+    return undefined
+  }
+  const size: number = match[1] === '' ? 256 : parseInt(match[1], 10)
+  if (size < 8 || size > 256 || size % 8 !== 0) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Invalid integer type ${type}.`)
+  }
+
+  return size
+}
+
+function getFixedBytesSize(type: string): number | undefined {
+  const match: RegExpExecArray | null = /^bytes(\d+)$/.exec(type)
+  if (match === null) {
+    return undefined
+  }
+  const size: number = parseInt(match[1], 10)
+  if (size < 1 || size > WORD_LENGTH) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Invalid bytes type ${type}.`)
+  }
+
+  return size
+}
+
+function getCanonicalType(parameter: EthereumABIParameter): string {
+  const arrayType: ArrayType | undefined = getArrayType(parameter)
+  if (arrayType !== undefined) {
+    return `${getCanonicalType(arrayType.item)}[${arrayType.length ?? ''}]`
+  }
+  if (parameter.type === 'tuple') {
+    return `(${getComponents(parameter).map(getCanonicalType).join(',')})`
+  }
+
+  return parameter.type === 'uint' || parameter.type === 'int' ? `${parameter.type}256` : parameter.type
+}
+
+function isDynamic(parameter: EthereumABIParameter): boolean {
+  const arrayType: ArrayType | undefined = getArrayType(parameter)
+  if (arrayType !== undefined) {
+    return arrayType.length === undefined || isDynamic(arrayType.item)
+  }
+  if (parameter.type === 'tuple') {
+    return getComponents(parameter).some(isDynamic)
+  }
+
+  return parameter.type === 'bytes' || parameter.type === 'string'
+}
+
+// the length of a parameter in the head of its enclosing tuple, dynamic parameters are referenced by their offset
+function getHeadLength(parameter: EthereumABIParameter): number {
+  if (isDynamic(parameter)) {
+    return WORD_LENGTH
+  }
+  const arrayType: ArrayType | undefined = getArrayType(parameter)
+  if (arrayType !== undefined) {
+    return (arrayType.length ?? 0) * getHeadLength(arrayType.item)
+  }
+  if (parameter.type === 'tuple') {
+    return getComponents(parameter).reduce((sum: number, component: EthereumABIParameter) => sum + getHeadLength(component), 0)
+  }
+
+  return WORD_LENGTH
+}
+
+function toBigInteger(value: EthereumABIValue, type: string): any {
+  if (typeof value === 'string' && /^-?0x[0-9a-f]+$/i.test(value)) {
+    const negative: boolean = value.startsWith('-')
+    const integer = new ethUtil.BN(value.slice(negative ? 3 : 2), 16)
+
+    return negative ? integer.neg() : integer
+  } else if ((typeof value === 'string' && /^-?\d+$/.test(value)) || (typeof value === 'number' && Number.isSafeInteger(value))) {
+    return new ethUtil.BN(value.toString(), 10)
+  }
+
+  throw new InvalidValueError(Domain.ETHEREUM, `Invalid ${type} value ${value}.`)
+}
+
+function encodeUint(value: number): Buffer {
+  return new ethUtil.BN(value).toArrayLike(Buffer, 'be', WORD_LENGTH)
+}
+
+function padRight(data: Buffer): Buffer {
+  return ethUtil.setLengthRight(data, Math.ceil(data.length / WORD_LENGTH) * WORD_LENGTH)
+}
+
+function toBytes(value: EthereumABIValue, type: string): Buffer {
+  if (typeof value !== 'string' || !ethUtil.isHexString(value)) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Invalid ${type} value ${value}, expected a hex string.`)
+  }
+
+  return ethUtil.toBuffer(value)
+}
+
+function toTupleValues(parameters: EthereumABIParameter[], value: EthereumABIValue): EthereumABIValue[] {
+  if (Array.isArray(value)) {
+    return value
+  }
+  if (typeof value === 'object' && value !== null) {
+    return parameters.map((parameter: EthereumABIParameter) => value[parameter.name])
+  }
+
+  throw new InvalidValueError(Domain.ETHEREUM, `Invalid tuple value ${value}.`)
+}
+
+function encodeInteger(type: string, size: number, value: EthereumABIValue): Buffer {
+  const integer = toBigInteger(value, type)
+  const isInRange: boolean = type.startsWith('int')
+    ? integer.bitLength() < size || integer.eq(new ethUtil.BN(1).ishln(size - 1).ineg())
+    : !integer.isNeg() && integer.bitLength() <= size
+  if (!isInRange) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Value ${value} is out of range of ${type}.`)
+  }
+
+  // signed integers are encoded in two's complement
+  return integer.toTwos(256).toArrayLike(Buffer, 'be', WORD_LENGTH)
+}
+
+function encodeTuple(parameters: EthereumABIParameter[], values: EthereumABIValue[]): Buffer {
+  if (parameters.length !== values.length) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Expected ${parameters.length} values, got ${values.length}.`)
+  }
+
+  const heads: Buffer[] = []
+  const tails: Buffer[] = []
+  let tailOffset: number = parameters.reduce((sum: number, parameter: EthereumABIParameter) => sum + getHeadLength(parameter), 0)
+  parameters.forEach((parameter: EthereumABIParameter, index: number) => {
+    if (values[index] === undefined || values[index] === null) {
+      throw new InvalidValueError(Domain.ETHEREUM, `Missing value of ${parameter.type} ${parameter.name}.`)
+    }
+    const encoded: Buffer = encodeValue(parameter, values[index])
+    if (isDynamic(parameter)) {
+      heads.push(encodeUint(tailOffset))
+      tails.push(encoded)
+      tailOffset += encoded.length
+    } else {
+      heads.push(encoded)
+    }
+  })
+
+  return Buffer.concat([...heads, ...tails])
+}
+
+function encodeValue(parameter: EthereumABIParameter, value: EthereumABIValue): Buffer {
+  const type: string = parameter.type
+  const arrayType: ArrayType | undefined = getArrayType(parameter)
+  if (arrayType !== undefined) {
+    if (!Array.isArray(value) || (arrayType.length !== undefined && value.length !== arrayType.length)) {
+      throw new InvalidValueError(Domain.ETHEREUM, `Expected an array of type ${type} for ${parameter.name}.`)
+    }
+    const items: Buffer = encodeTuple(
+      value.map(() => arrayType.item),
+      value
+    )
+
+    return arrayType.length === undefined ? Buffer.concat([encodeUint(value.length), items]) : items
+  }
+
+  if (type === 'tuple') {
+    const components: EthereumABIParameter[] = getComponents(parameter)
+
+    return encodeTuple(components, toTupleValues(components, value))
+  }
+  if (type === 'bool') {
+    if (typeof value !== 'boolean') {
+      throw new InvalidValueError(Domain.ETHEREUM, `Invalid bool value ${value}.`)
+    }
+
+    return encodeUint(value ? 1 : 0)
+  }
+  if (type === 'address') {
+    if (typeof value !== 'string' || !ethUtil.isValidAddress(value)) {
+      throw new InvalidValueError(Domain.ETHEREUM, `Invalid address ${value}.`)
+    }
+
+    return ethUtil.setLengthLeft(ethUtil.toBuffer(value), WORD_LENGTH)
+  }
+  if (type === 'string' || type === 'bytes') {
+    const bytes: Buffer = type === 'string' ? Buffer.from(String(value), 'utf8') : toBytes(value, type)
+
+    return Buffer.concat([encodeUint(bytes.length), padRight(bytes)])
+  }
+
+  const bytesSize: number | undefined = getFixedBytesSize(type)
+  if (bytesSize !== undefined) {
+    const bytes: Buffer = toBytes(value, type)
+    if (bytes.length !== bytesSize) {
+      throw new InvalidValueError(Domain.ETHEREUM, `Invalid ${type} value ${value}, expected ${bytesSize} bytes.`)
+    }
+
+    return ethUtil.setLengthRight(bytes, WORD_LENGTH)
+  }
+
+  const integerSize: number | undefined = getIntegerSize(type)
+  if (integerSize !== undefined) {
+    return encodeInteger(type, integerSize, value)
+  }
+
+  throw new UnsupportedError(Domain.ETHEREUM, `Unsupported ABI type ${type}.`)
+}
+
+function readWord(data: Buffer, offset: number): Buffer {
+  if (offset < 0 || offset + WORD_LENGTH > data.length) {
+    throw new InvalidValueError(Domain.ETHEREUM, 'ABI data is too short.')
+  }
+
+  return data.slice(offset, offset + WORD_LENGTH)
+}
+
+// offsets and lengths are bounded by the data, which also rules out absurd allocations for malicious input
+function readLength(data: Buffer, offset: number): number {
+  const length = new ethUtil.BN(readWord(data, offset))
+  if (length.gtn(data.length)) {
+    throw new InvalidValueError(Domain.ETHEREUM, 'Invalid ABI offset or length.')
+  }
+
+  return length.toNumber()
+}
+
+function decodeTuple(parameters: EthereumABIParameter[], data: Buffer, offset: number): EthereumABIValue[] {
+  let headOffset: number = offset
+
+  return parameters.map((parameter: EthereumABIParameter) => {
+    const value: EthereumABIValue = isDynamic(parameter)
+      ? decodeValue(parameter, data, offset + readLength(data, headOffset))
+      : decodeValue(parameter, data, headOffset)
+    headOffset += getHeadLength(parameter)
+
+    return value
+  })
+}
+
+function decodeValue(parameter: EthereumABIParameter, data: Buffer, offset: number): EthereumABIValue {
+  const type: string = parameter.type
+
+  const arrayType: ArrayType | undefined = getArrayType(parameter)
+  if (arrayType !== undefined) {
+    const length: number = arrayType.length ?? readLength(data, offset)
+    const items: EthereumABIParameter[] = []
+    for (let i: number = 0; i < length; i++) {
+      items.push(arrayType.item)
+    }
+
+    return decodeTuple(items, data, arrayType.length === undefined ? offset + WORD_LENGTH : offset)
+  }
+
+  if (type === 'tuple') {
+    const components: EthereumABIParameter[] = getComponents(parameter)
+    const values: EthereumABIValue[] = decodeTuple(components, data, offset)
+
+    return components.reduce(
+      (tuple: { [name: string]: EthereumABIValue }, component: EthereumABIParameter, index: number) => ({
+        ...tuple,
+        [component.name || index.toString()]: values[index]
+      }),
+      {}
+    )
+  }
+
+  const word: Buffer = readWord(data, offset)
+  if (type === 'bool') {
+    const value = new ethUtil.BN(word)
+    if (value.gtn(1)) {
+      throw new InvalidValueError(Domain.ETHEREUM, `Invalid bool value 0x${word.toString('hex')}.`)
+    }
+
+    return value.eqn(1)
+  }
+  if (type === 'address') {
+    return ethUtil.toChecksumAddress(ethUtil.bufferToHex(word.slice(WORD_LENGTH - 20)))
+  }
+  if (type === 'string' || type === 'bytes') {
+    const length: number = readLength(data, offset)
+    if (offset + WORD_LENGTH + length > data.length) {
+      throw new InvalidValueError(Domain.ETHEREUM, 'ABI data is too short.')
+    }
+    const bytes: Buffer = data.slice(offset + WORD_LENGTH, offset + WORD_LENGTH + length)
+
+    return type === 'string' ? bytes.toString('utf8') : ethUtil.bufferToHex(bytes)
+  }
+
+  const bytesSize: number | undefined = getFixedBytesSize(type)
+  if (bytesSize !== undefined) {
+    return ethUtil.bufferToHex(word.slice(0, bytesSize))
+  }
+
+  if (getIntegerSize(type) !== undefined) {
+    const integer = new ethUtil.BN(word)
+
+    return (type.startsWith('int') ? integer.fromTwos(256) : integer).toString(10)
+  }
+
+  throw new UnsupportedError(Domain.ETHEREUM, `Unsupported ABI type ${type}.`)
+}
+
+export function encodeParameters(parameters: EthereumABIParameter[], values: EthereumABIValue[]): Buffer {
+  return encodeTuple(parameters, values)
+}
+
+export function decodeParameters(parameters: EthereumABIParameter[], data: Buffer): EthereumDecodedParameter[] {
+  return decodeTuple(parameters, data, 0).map((value: EthereumABIValue, index: number) => ({
+    name: parameters[index].name,
+    type: getCanonicalType(parameters[index]),
+    value
+  }))
+}
+
+export function getFunctionSignature(item: EthereumABIItem): string {
+  return `${item.name}(${(item.inputs ?? []).map(getCanonicalType).join(',')})`
+}
+
+export function getFunctionSelector(item: EthereumABIItem): string {
+  return ethUtil.bufferToHex(ethUtil.keccak256(Buffer.from(getFunctionSignature(item), 'utf8')).slice(0, SELECTOR_LENGTH))
+}
+
+// the method is either the name of a function or its signature, if the function is overloaded
+function findFunction(abi: EthereumABIItem[], method: string): EthereumABIItem {
+  const matches: EthereumABIItem[] = abi.filter(
+    (item: EthereumABIItem) => item.type === 'function' && (item.name === method || getFunctionSignature(item) === method)
+  )
+  if (matches.length === 0) {
+    throw new NotFoundError(Domain.ETHEREUM, `Function ${method} not found in the ABI.`)
+  } else if (matches.length > 1) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Function ${method} is overloaded, use its signature instead.`)
+  }
+
+  return matches[0]
+}
+
+export function encodeFunctionCall(abi: EthereumABIItem[], method: string, args: EthereumABIValue[]): string {
+  const item: EthereumABIItem = findFunction(abi, method)
+
+  return `${getFunctionSelector(item)}${encodeParameters(item.inputs ?? [], args).toString('hex')}`
+}
+
+export function decodeFunctionResult(abi: EthereumABIItem[], method: string, data: string): EthereumDecodedParameter[] {
+  const item: EthereumABIItem = findFunction(abi, method)
+
+  return decodeParameters(item.outputs ?? [], ethUtil.toBuffer(ethUtil.addHexPrefix(data)))
+}
+
+export function decodeFunctionCall(abi: EthereumABIItem[], data: string): EthereumDecodedCall {
+  const buffer: Buffer = ethUtil.toBuffer(ethUtil.addHexPrefix(data))
+  const selector: string = ethUtil.bufferToHex(buffer.slice(0, SELECTOR_LENGTH))
+  const item: EthereumABIItem | undefined = abi.find(
+    (abiItem: EthereumABIItem) => abiItem.type === 'function' && getFunctionSelector(abiItem) === selector
+  )
+  if (item === undefined || buffer.length < SELECTOR_LENGTH) {
+    throw new NotFoundError(Domain.ETHEREUM, `No function with selector ${selector} found in the ABI.`)
+  }
+
+  return {
+    name: item.name ?? '',
+    signature: getFunctionSignature(item),
+    parameters: decodeParameters(item.inputs ?? [], buffer.slice(SELECTOR_LENGTH))
+  }
+}
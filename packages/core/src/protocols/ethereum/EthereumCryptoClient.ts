@@ -7,6 +7,7 @@ import { BaseEthereumProtocol } from './BaseEthereumProtocol'
 import { EthereumInfoClient } from './clients/info-clients/InfoClient'
 import { EthereumNodeClient } from './clients/node-clients/NodeClient'
 import { EthereumAddress } from './EthereumAddress'
+import { EthereumTypedData, hashTypedData } from './EthereumTypedData'
 
 export class EthereumCryptoClient extends Secp256k1CryptoClient {
   constructor(private readonly protocol: BaseEthereumProtocol<EthereumNodeClient, EthereumInfoClient>) {
@@ -14,22 +15,35 @@ export class EthereumCryptoClient extends Secp256k1CryptoClient {
   }
 
   public async signMessage(message: string, keypair: { privateKey: Buffer }): Promise<string> {
+    return this.sign(EthereumJSUtils.hashPersonalMessage(EthereumJSUtils.toBuffer(message)), keypair)
+  }
+
+  public async verifyMessage(message: string, signature: string, publicKey: string): Promise<boolean> {
+    return this.verify(EthereumJSUtils.hashPersonalMessage(EthereumJSUtils.toBuffer(message)), signature, publicKey)
+  }
+
+  public async signTypedData(typedData: EthereumTypedData, keypair: { privateKey: Buffer }): Promise<string> {
+    return this.sign(hashTypedData(typedData), keypair)
+  }
+
+  public async verifyTypedData(typedData: EthereumTypedData, signature: string, publicKey: string): Promise<boolean> {
+    return this.verify(hashTypedData(typedData), signature, publicKey)
+  }
+
+  private async sign(messageHash: Buffer, keypair: { privateKey: Buffer }): Promise<string> {
     if (!keypair.privateKey) {
       throw new NotFoundError(Domain.ETHEREUM, `Private key not provided`)
     }
 
-    const messageBuffer: Buffer = EthereumJSUtils.hashPersonalMessage(EthereumJSUtils.toBuffer(message))
-    const signature: { v: string; r: string; s: string } = EthereumJSUtils.ecsign(messageBuffer, keypair.privateKey)
+    const signature: { v: string; r: string; s: string } = EthereumJSUtils.ecsign(messageHash, keypair.privateKey)
 
     return EthereumJSUtils.toRpcSig(signature.v, signature.r, signature.s)
   }
 
-  public async verifyMessage(message: string, signature: string, publicKey: string): Promise<boolean> {
-    const msgBuffer: Buffer = EthereumJSUtils.toBuffer(message)
-    const msgHash: string = EthereumJSUtils.hashPersonalMessage(msgBuffer)
+  private async verify(messageHash: Buffer, signature: string, publicKey: string): Promise<boolean> {
     const signatureBuffer: Buffer = EthereumJSUtils.toBuffer(signature)
     const signatureParams: { v: string; r: string; s: string } = EthereumJSUtils.fromRpcSig(signatureBuffer)
-    const recoveredPublicKey: Buffer = EthereumJSUtils.ecrecover(msgHash, signatureParams.v, signatureParams.r, signatureParams.s)
+    const recoveredPublicKey: Buffer = EthereumJSUtils.ecrecover(messageHash, signatureParams.v, signatureParams.r, signatureParams.s)
     const recoveredAddressBuffer: Buffer = EthereumJSUtils.publicToAddress(recoveredPublicKey)
     const recoveredAddress: string = EthereumJSUtils.bufferToHex(recoveredAddressBuffer)
 
@@ -80,3 +80,22 @@ export class EthereumERC20ProtocolOptions extends EthereumProtocolOptions {
     super(network, config)
   }
 }
+
+export class EthereumNFTProtocolConfig {
+  constructor(
+    public readonly symbol: string,
+    public readonly name: string,
+    public readonly marketSymbol: string,
+    public readonly identifier: SubProtocolSymbols,
+    public readonly contractAddress: string
+  ) {}
+}
+
+export class EthereumNFTProtocolOptions extends EthereumProtocolOptions {
+  constructor(
+    public readonly network: EthereumProtocolNetwork = new EthereumProtocolNetwork(),
+    public readonly config: EthereumNFTProtocolConfig
+  ) {
+    super(network, config)
+  }
+}
@@ -0,0 +1,174 @@
+import * as ethUtil from '../../dependencies/src/ethereumjs-util-5.2.0/index'
+import { InvalidValueError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+
+// EIP-712 typed structured data, as used by eth_signTypedData_v4
+
+export interface EthereumTypedDataField {
+  name: string
+  type: string
+}
+
+export interface EthereumTypedDataTypes {
+  EIP712Domain: EthereumTypedDataField[]
+  [type: string]: EthereumTypedDataField[]
+}
+
+export interface EthereumTypedDataDomain {
+  name?: string
+  version?: string
+  chainId?: number | string
+  verifyingContract?: string
+  salt?: string
+}
+
+export interface EthereumTypedData {
+  types: EthereumTypedDataTypes
+  primaryType: string
+  domain: EthereumTypedDataDomain
+  message: { [field: string]: unknown }
+}
+
+const DOMAIN_TYPE: string = 'EIP712Domain'
+
+function getFields(type: string, types: EthereumTypedDataTypes): EthereumTypedDataField[] {
+  const fields: EthereumTypedDataField[] | undefined = types[type]
+  if (fields === undefined) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Unknown typed data type ${type}.`)
+  }
+
+  return fields
+}
+
+// the struct name of a type, without any array suffixes
+function getBaseType(type: string): string {
+  return type.replace(/(\[\d*\])+$/, '')
+}
+
+function findDependencies(type: string, types: EthereumTypedDataTypes, dependencies: string[] = []): string[] {
+  const baseType: string = getBaseType(type)
+  if (dependencies.indexOf(baseType) !== -1 || types[baseType] === undefined) {
+    return dependencies
+  }
+
+  dependencies.push(baseType)
+  for (const field of types[baseType]) {
+    findDependencies(field.type, types, dependencies)
+  }
+
+  return dependencies
+}
+
+function toBigInteger(value: unknown): any {
+  if (typeof value === 'string' && value.startsWith('0x')) {
+    return new ethUtil.BN(ethUtil.stripHexPrefix(value), 16)
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    return new ethUtil.BN(value.toString(), 10)
+  }
+
+  throw new InvalidValueError(Domain.ETHEREUM, `Invalid typed data integer ${value}.`)
+}
+
+function encodeValue(type: string, value: unknown, types: EthereumTypedDataTypes): Buffer {
+  if (types[type] !== undefined) {
+    // missing structs are encoded as zero
+    return value === undefined || value === null ? Buffer.alloc(32) : hashStruct(type, value as { [field: string]: unknown }, types)
+  }
+
+  if (type.endsWith(']')) {
+    if (!Array.isArray(value)) {
+      throw new InvalidValueError(Domain.ETHEREUM, `Expected an array for typed data type ${type}.`)
+    }
+    const itemType: string = type.slice(0, type.lastIndexOf('['))
+
+    return ethUtil.keccak256(Buffer.concat(value.map((item: unknown) => encodeValue(itemType, item, types))))
+  }
+
+  if (type === 'string') {
+    return ethUtil.keccak256(Buffer.from(value as string, 'utf8'))
+  }
+  if (type === 'bytes') {
+    return ethUtil.keccak256(ethUtil.toBuffer(value))
+  }
+  if (type === 'bool') {
+    return ethUtil.setLengthLeft(ethUtil.toBuffer(value ? 1 : 0), 32)
+  }
+  if (type === 'address') {
+    return ethUtil.setLengthLeft(ethUtil.toBuffer(value), 32)
+  }
+  if (/^bytes([1-9]|[12]\d|3[0-2])$/.test(type)) {
+    return ethUtil.setLengthRight(ethUtil.toBuffer(value), 32)
+  }
+  if (/^u?int(\d*)$/.test(type)) {
+    // signed integers are encoded in two's complement
+    return toBigInteger(value).toTwos(256).toArrayLike(Buffer, 'be', 32)
+  }
+
+  throw new InvalidValueError(Domain.ETHEREUM, `Unsupported typed data type ${type}.`)
+}
+
+export function encodeType(type: string, types: EthereumTypedDataTypes): string {
+  const [primary, ...dependencies]: string[] = findDependencies(type, types)
+  if (primary === undefined) {
+    throw new InvalidValueError(Domain.ETHEREUM, `Unknown typed data type ${type}.`)
+  }
+
+  return [primary, ...dependencies.sort()]
+    .map(
+      (name: string) =>
+        `${name}(${getFields(name, types)
+          .map((field: EthereumTypedDataField) => `${field.type} ${field.name}`)
+          .join(',')})`
+    )
+    .join('')
+}
+
+export function hashType(type: string, types: EthereumTypedDataTypes): Buffer {
+  return ethUtil.keccak256(Buffer.from(encodeType(type, types), 'utf8'))
+}
+
+export function hashStruct(type: string, data: { [field: string]: unknown }, types: EthereumTypedDataTypes): Buffer {
+  const encodedFields: Buffer[] = getFields(type, types).map((field: EthereumTypedDataField) =>
+    encodeValue(field.type, data[field.name], types)
+  )
+
+  return ethUtil.keccak256(Buffer.concat([hashType(type, types), ...encodedFields]))
+}
+
+export function getDomainSeparator(typedData: EthereumTypedData): Buffer {
+  return hashStruct(DOMAIN_TYPE, typedData.domain as { [field: string]: unknown }, typedData.types)
+}
+
+// the hash that is signed: keccak256("\x19\x01" ‖ domainSeparator ‖ hashStruct(message))
+export function hashTypedData(typedData: EthereumTypedData): Buffer {
+  const parts: Buffer[] = [Buffer.from('1901', 'hex'), getDomainSeparator(typedData)]
+  if (typedData.primaryType !== DOMAIN_TYPE) {
+    parts.push(hashStruct(typedData.primaryType, typedData.message, typedData.types))
+  }
+
+  return ethUtil.keccak256(Buffer.concat(parts))
+}
+
+export function parseTypedData(json: string): EthereumTypedData {
+  let typedData: Partial<EthereumTypedData>
+  try {
+    typedData = JSON.parse(json)
+  } catch (error) {
+    throw new InvalidValueError(Domain.ETHEREUM, 'Typed data is not valid JSON.')
+  }
+
+  if (
+    typeof typedData !== 'object' ||
+    typedData === null ||
+    typeof typedData.types !== 'object' ||
+    typedData.types[DOMAIN_TYPE] === undefined ||
+    typeof typedData.primaryType !== 'string' ||
+    typeof typedData.domain !== 'object' ||
+    typeof typedData.message !== 'object'
+  ) {
+    throw new InvalidValueError(Domain.ETHEREUM, 'Typed data requires types including EIP712Domain, a primaryType, a domain and a message.')
+  }
+  getFields(typedData.primaryType, typedData.types)
+
+  return typedData as EthereumTypedData
+}
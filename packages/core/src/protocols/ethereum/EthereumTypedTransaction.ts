@@ -0,0 +1,174 @@
+import * as ethUtil from '../../dependencies/src/ethereumjs-util-5.2.0/index'
+import { InvalidValueError, UnsupportedError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+import { EthereumAccessListItem, RawEthereumTransaction, RawEthereumTypedTransaction } from '../../serializer/types'
+import { assertNever } from '../../utils/assert'
+
+import { EthereumTransactionType } from './EthereumTypes'
+
+interface EthereumSignature {
+  yParity: number
+  r: Buffer
+  s: Buffer
+}
+
+// quantities are encoded without leading zeros
+function toQuantity(value: string): Buffer {
+  return ethUtil.stripZeros(ethUtil.toBuffer(value))
+}
+
+function toHexQuantity(value: Buffer): string {
+  return ethUtil.addHexPrefix(new ethUtil.BN(value).toString(16))
+}
+
+function encodeAccessList(accessList: EthereumAccessListItem[]): Buffer[][] {
+  return accessList.map((item: EthereumAccessListItem) => [
+    ethUtil.toBuffer(item.address),
+    item.storageKeys.map((storageKey: string) => ethUtil.toBuffer(storageKey))
+  ]) as any
+}
+
+function decodeAccessList(accessList: [Buffer, Buffer[]][]): EthereumAccessListItem[] {
+  return accessList.map(([address, storageKeys]: [Buffer, Buffer[]]) => ({
+    address: ethUtil.bufferToHex(address),
+    storageKeys: storageKeys.map((storageKey: Buffer) => ethUtil.bufferToHex(storageKey))
+  }))
+}
+
+/**
+ * A transaction in an EIP-2718 envelope, either with an access list (EIP-2930) or with a base and priority fee (EIP-1559).
+ * Legacy transactions are handled by ethereumjs-tx.
+ */
+export class EthereumTypedTransaction {
+  private constructor(public readonly transaction: RawEthereumTypedTransaction, private signature?: EthereumSignature) {}
+
+  public static fromRaw(transaction: RawEthereumTypedTransaction): EthereumTypedTransaction {
+    return new EthereumTypedTransaction(transaction)
+  }
+
+  public static fromSerialized(serialized: string): EthereumTypedTransaction {
+    const buffer: Buffer = ethUtil.toBuffer(ethUtil.addHexPrefix(serialized))
+    const fields: any[] = ethUtil.rlp.decode(buffer.slice(1))
+    const type: number = buffer[0]
+
+    const toSignature = (signatureFields: Buffer[]): EthereumSignature | undefined =>
+      signatureFields.length === 3
+        ? { yParity: ethUtil.bufferToInt(signatureFields[0]), r: signatureFields[1], s: signatureFields[2] }
+        : undefined
+
+    if (type === 0x01 && (fields.length === 8 || fields.length === 11)) {
+      const [chainId, nonce, gasPrice, gasLimit, to, value, data, accessList, ...signature] = fields
+
+      return new EthereumTypedTransaction(
+        {
+          type: EthereumTransactionType.ACCESS_LIST,
+          chainId: ethUtil.bufferToInt(chainId),
+          nonce: toHexQuantity(nonce),
+          gasPrice: toHexQuantity(gasPrice),
+          gasLimit: toHexQuantity(gasLimit),
+          to: ethUtil.bufferToHex(to),
+          value: toHexQuantity(value),
+          data: ethUtil.bufferToHex(data),
+          accessList: decodeAccessList(accessList)
+        },
+        toSignature(signature)
+      )
+    } else if (type === 0x02 && (fields.length === 9 || fields.length === 12)) {
+      const [chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data, accessList, ...signature] = fields
+
+      return new EthereumTypedTransaction(
+        {
+          type: EthereumTransactionType.EIP1559,
+          chainId: ethUtil.bufferToInt(chainId),
+          nonce: toHexQuantity(nonce),
+          maxPriorityFeePerGas: toHexQuantity(maxPriorityFeePerGas),
+          maxFeePerGas: toHexQuantity(maxFeePerGas),
+          gasLimit: toHexQuantity(gasLimit),
+          to: ethUtil.bufferToHex(to),
+          value: toHexQuantity(value),
+          data: ethUtil.bufferToHex(data),
+          accessList: decodeAccessList(accessList)
+        },
+        toSignature(signature)
+      )
+    }
+
+    throw new InvalidValueError(Domain.ETHEREUM, `Invalid typed transaction ${serialized}`)
+  }
+
+  public static isRawTypedTransaction(
+    transaction: RawEthereumTransaction | RawEthereumTypedTransaction
+  ): transaction is RawEthereumTypedTransaction {
+    return (transaction as RawEthereumTypedTransaction).type !== undefined
+  }
+
+  // a serialized transaction starts with its type if it is typed or with an RLP list prefix (>= 0xc0) if it is a legacy transaction
+  public static isSerializedTypedTransaction(serialized: string): boolean {
+    const firstByte: number = parseInt(ethUtil.stripHexPrefix(serialized).slice(0, 2), 16)
+
+    return firstByte >= 0 && firstByte <= 0x7f
+  }
+
+  public get isSigned(): boolean {
+    return this.signature !== undefined
+  }
+
+  public sign(privateKey: Buffer): void {
+    const { r, s, v } = ethUtil.ecsign(this.getMessageToSign(), privateKey)
+    this.signature = { yParity: v - 27, r, s }
+  }
+
+  public serialize(): Buffer {
+    const signatureFields: Buffer[] = this.signature
+      ? [toQuantity(ethUtil.intToHex(this.signature.yParity)), ethUtil.stripZeros(this.signature.r), ethUtil.stripZeros(this.signature.s)]
+      : []
+
+    return this.encode(signatureFields)
+  }
+
+  public hash(): Buffer {
+    return ethUtil.keccak256(this.serialize())
+  }
+
+  public getSenderAddress(): string {
+    if (this.signature === undefined) {
+      throw new UnsupportedError(Domain.ETHEREUM, 'Cannot recover the sender of an unsigned transaction.')
+    }
+
+    const publicKey: Buffer = ethUtil.ecrecover(this.getMessageToSign(), this.signature.yParity + 27, this.signature.r, this.signature.s)
+
+    return ethUtil.toChecksumAddress(ethUtil.bufferToHex(ethUtil.publicToAddress(publicKey)))
+  }
+
+  private getMessageToSign(): Buffer {
+    return ethUtil.keccak256(this.encode([]))
+  }
+
+  private encode(signatureFields: Buffer[]): Buffer {
+    const transaction: RawEthereumTypedTransaction = this.transaction
+    const common: Buffer[] = [toQuantity(ethUtil.intToHex(transaction.chainId)), toQuantity(transaction.nonce)]
+    const payload: Buffer[] = [
+      toQuantity(transaction.gasLimit),
+      ethUtil.toBuffer(transaction.to),
+      toQuantity(transaction.value),
+      ethUtil.toBuffer(transaction.data)
+    ]
+
+    let fees: Buffer[]
+    switch (transaction.type) {
+      case EthereumTransactionType.ACCESS_LIST:
+        fees = [toQuantity(transaction.gasPrice)]
+        break
+      case EthereumTransactionType.EIP1559:
+        fees = [toQuantity(transaction.maxPriorityFeePerGas), toQuantity(transaction.maxFeePerGas)]
+        break
+      default:
+        assertNever(transaction)
+        throw new UnsupportedError(Domain.ETHEREUM, 'Unsupported transaction type')
+    }
+
+    const fields: any[] = [...common, ...fees, ...payload, encodeAccessList(transaction.accessList), ...signatureFields]
+
+    return Buffer.concat([ethUtil.toBuffer(transaction.type), ethUtil.rlp.encode(fields)])
+  }
+}
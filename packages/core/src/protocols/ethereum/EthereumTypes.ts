@@ -1,4 +1,9 @@
+import { BigNumber } from '../../dependencies/src/bignumber.js-9.0.0/bignumber'
 import { IAirGapTransaction } from '../../interfaces/IAirGapTransaction'
+import { EthereumAccessListItem } from '../../serializer/types'
+import { FeeDefaults } from '../ICoinProtocol'
+
+import { EthereumABIItem, EthereumABIValue } from './EthereumABI'
 
 export interface EthereumTransactionCursor {
   page: number
@@ -8,3 +13,79 @@ export interface EthereumTransactionResult {
   transactions: IAirGapTransaction[]
   cursor: EthereumTransactionCursor
 }
+
+// the formats of a typed MessageSignRequest, requests without a type are signed with personal_sign
+export enum EthereumMessageType {
+  TYPED_DATA_V4 = 'eth_signTypedData_v4'
+}
+
+// the values are the EIP-2718 envelope types
+export enum EthereumTransactionType {
+  ACCESS_LIST = '0x1',
+  EIP1559 = '0x2'
+}
+
+export interface EthereumTransactionOptions {
+  // defaults to a legacy transaction
+  type?: EthereumTransactionType
+  // tip per gas in wei, only used for EIP-1559 transactions, estimated from the fee history if not set
+  maxPriorityFeePerGas?: string
+  accessList?: EthereumAccessListItem[]
+  // call of a contract function, the recipient is the contract
+  contractCall?: EthereumContractCall
+}
+
+export interface EthereumContractCall {
+  abi: EthereumABIItem[]
+  // the name or, if it is overloaded, the signature of the function
+  method: string
+  args: EthereumABIValue[]
+}
+
+export interface EthereumFeeHistory {
+  oldestBlock: number
+  // contains the base fee of the next block as last element
+  baseFeePerGas: BigNumber[]
+  gasUsedRatio: number[]
+  // priority fees of each block at the requested percentiles
+  reward: BigNumber[][]
+}
+
+export interface EthereumEIP1559FeeDefaults extends FeeDefaults {
+  // tip per gas in wei that belongs to each of the maximum fees
+  maxPriorityFeePerGas: FeeDefaults
+}
+
+export enum EthereumNFTStandard {
+  ERC721 = 'erc721',
+  ERC1155 = 'erc1155'
+}
+
+export interface EthereumNFTTransactionOptions extends EthereumTransactionOptions {
+  // the tokens to transfer, the values are their amounts
+  tokenIds: string[]
+}
+
+export interface EthereumNFTTransfer {
+  hash: string
+  blockNumber: string
+  timestamp: number
+  from: string
+  to: string
+  tokenId: string
+  amount: string
+  gas: string
+  gasPrice: string
+}
+
+export interface EthereumNFTBalance {
+  tokenId: string
+  amount: string
+}
+
+export interface EthereumNFTMetadata {
+  name?: string
+  description?: string
+  image?: string
+  [property: string]: unknown
+}
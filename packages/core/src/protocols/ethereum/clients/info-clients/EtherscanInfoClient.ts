@@ -4,7 +4,7 @@ import { AirGapTransactionStatus, IAirGapTransaction } from '../../../../interfa
 import { EthereumProtocol } from '../../EthereumProtocol'
 import { BLOCK_EXPLORER_API } from '../../EthereumProtocolOptions'
 import { EthereumInfoClient } from './InfoClient'
-import { EthereumTransactionCursor, EthereumTransactionResult } from '../../EthereumTypes'
+import { EthereumNFTStandard, EthereumNFTTransfer, EthereumTransactionCursor, EthereumTransactionResult } from '../../EthereumTypes'
 import { isArray } from '../../../../dependencies/src/validate.js-0.13.1/validate'
 import { NetworkError } from '../../../../errors'
 import { Domain } from '../../../../errors/coinlib-error'
@@ -110,4 +110,37 @@ export class EtherscanInfoClient extends EthereumInfoClient {
       }
     }
   }
+
+  public async fetchNFTTransfers(
+    standard: EthereumNFTStandard,
+    contractAddress: string,
+    address: string,
+    page: number,
+    limit: number,
+    ascending: boolean = false
+  ): Promise<EthereumNFTTransfer[]> {
+    const action: string = standard === EthereumNFTStandard.ERC1155 ? 'token1155tx' : 'tokennfttx'
+    const sort: string = ascending ? 'asc' : 'desc'
+    const url = `${this.baseURL}/api?module=account&action=${action}&address=${address}&contractAddress=${contractAddress}&page=${page}&offset=${limit}&sort=${sort}&apiKey=P63MEHEYBM5BGEG5WFN76VPNCET8B2MAP7`
+
+    const response = await Axios.get(url)
+    const transferResponse = response.data
+    const transfers = transferResponse.result
+    if (transferResponse.status === '0' && (transfers === undefined || !isArray(transfers))) {
+      throw new NetworkError(Domain.ETHEREUM, transferResponse.message)
+    }
+
+    return transfers.map((transfer: any) => ({
+      hash: transfer.hash,
+      blockNumber: transfer.blockNumber,
+      timestamp: parseInt(transfer.timeStamp, 10),
+      from: transfer.from,
+      to: transfer.to,
+      tokenId: transfer.tokenID,
+      // ERC-721 transfers always move a single token
+      amount: transfer.tokenValue ?? '1',
+      gas: transfer.gas,
+      gasPrice: transfer.gasPrice
+    }))
+  }
 }
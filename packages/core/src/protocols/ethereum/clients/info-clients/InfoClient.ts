@@ -1,5 +1,5 @@
 import { EthereumProtocol } from '../../EthereumProtocol'
-import { EthereumTransactionCursor, EthereumTransactionResult } from '../../EthereumTypes'
+import { EthereumNFTStandard, EthereumNFTTransfer, EthereumTransactionCursor, EthereumTransactionResult } from '../../EthereumTypes'
 
 export abstract class EthereumInfoClient {
   public baseURL: string
@@ -21,4 +21,13 @@ export abstract class EthereumInfoClient {
     limit: number,
     cursor?: EthereumTransactionCursor
   ): Promise<EthereumTransactionResult>
+  // transfers of the tokens of an NFT contract from or to the address, the newest first unless ascending is set
+  public abstract fetchNFTTransfers(
+    standard: EthereumNFTStandard,
+    contractAddress: string,
+    address: string,
+    page: number,
+    limit: number,
+    ascending?: boolean
+  ): Promise<EthereumNFTTransfer[]>
 }
@@ -6,6 +6,7 @@ import { Domain } from '../../../../errors/coinlib-error'
 import { AirGapTransactionStatus } from '../../../../interfaces/IAirGapTransaction'
 import { RPCConvertible } from '../../../cosmos/CosmosTransaction'
 import { NODE_URL } from '../../EthereumProtocolOptions'
+import { EthereumFeeHistory } from '../../EthereumTypes'
 import { EthereumUtils } from '../../utils/utils'
 
 import { EthereumNodeClient } from './NodeClient'
@@ -179,6 +180,12 @@ export class AirGapNodeClient extends EthereumNodeClient {
     return new BigNumber(response.result)
   }
 
+  public async callContract(contractAddress: string, data: string): Promise<string> {
+    const body = new EthereumRPCBody('eth_call', [{ to: contractAddress, data }, EthereumRPCBody.blockLatest])
+
+    return (await this.send(body)).result
+  }
+
   public async callBalanceOfOnContracts(contractAddresses: string[], address: string): Promise<{ [contractAddress: string]: BigNumber }> {
     const bodies = contractAddresses.map((contractAddress, index) => this.balanceOfBody(contractAddress, address, index))
     const responses = await this.batchSend(bodies)
@@ -223,6 +230,27 @@ export class AirGapNodeClient extends EthereumNodeClient {
     return new BigNumber(response.result)
   }
 
+  public async getBaseFeePerGas(): Promise<BigNumber | undefined> {
+    const body = new EthereumRPCBody('eth_getBlockByNumber', [EthereumRPCBody.blockPending, false])
+
+    const response = await this.send(body)
+
+    return response.result.baseFeePerGas !== undefined ? new BigNumber(response.result.baseFeePerGas) : undefined
+  }
+
+  public async getFeeHistory(blockCount: number, rewardPercentiles: number[]): Promise<EthereumFeeHistory> {
+    const body = new EthereumRPCBody('eth_feeHistory', [EthereumUtils.toHex(blockCount), EthereumRPCBody.blockLatest, rewardPercentiles])
+
+    const response = await this.send(body)
+
+    return {
+      oldestBlock: new BigNumber(response.result.oldestBlock).toNumber(),
+      baseFeePerGas: response.result.baseFeePerGas.map((baseFee: string) => new BigNumber(baseFee)),
+      gasUsedRatio: response.result.gasUsedRatio,
+      reward: (response.result.reward ?? []).map((rewards: string[]) => rewards.map((reward: string) => new BigNumber(reward)))
+    }
+  }
+
   private async send(body: EthereumRPCBody): Promise<EthereumRPCResponse> {
     const data = (await axios.post(this.baseURL, body.toRPCBody())).data
     if (data.error !== undefined) {
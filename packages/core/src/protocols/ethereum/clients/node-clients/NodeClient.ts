@@ -1,5 +1,6 @@
 import { BigNumber } from '../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
 import { AirGapTransactionStatus } from '../../../../interfaces/IAirGapTransaction'
+import { EthereumFeeHistory } from '../../EthereumTypes'
 
 export abstract class EthereumNodeClient {
   public baseURL: string
@@ -12,6 +13,8 @@ export abstract class EthereumNodeClient {
   public abstract fetchTransactionCount(address: string): Promise<number>
   public abstract sendSignedTransaction(transaction: string): Promise<string>
   public abstract callBalanceOf(contractAddress: string, address: string): Promise<BigNumber>
+  // returns the ABI encoded result of the call
+  public abstract callContract(contractAddress: string, data: string): Promise<string>
   public abstract getTransactionStatus(transactionHash: string): Promise<AirGapTransactionStatus>
   public abstract estimateTransferGas(
     contractAddress: string,
@@ -28,6 +31,9 @@ export abstract class EthereumNodeClient {
     gas?: string
   ): Promise<BigNumber>
   public abstract getGasPrice(): Promise<BigNumber>
+  // undefined if the network does not support EIP-1559
+  public abstract getBaseFeePerGas(): Promise<BigNumber | undefined>
+  public abstract getFeeHistory(blockCount: number, rewardPercentiles: number[]): Promise<EthereumFeeHistory>
 
   public abstract callBalanceOfOnContracts(contractAddresses: string[], address: string): Promise<{ [contractAddress: string]: BigNumber }>
 }
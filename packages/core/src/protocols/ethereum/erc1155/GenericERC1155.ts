@@ -0,0 +1,96 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+import { EthereumABIItem, EthereumDecodedCall, EthereumDecodedParameter } from '../EthereumABI'
+import { EthereumNFTProtocolOptions } from '../EthereumProtocolOptions'
+import { EthereumContractCall, EthereumNFTStandard } from '../EthereumTypes'
+import { BaseEthereumNFTProtocol, EthereumNFTTransferDetails } from '../nft/BaseEthereumNFTProtocol'
+
+const ERC1155_ABI: EthereumABIItem[] = [
+  {
+    type: 'function',
+    name: 'balanceOf',
+    inputs: [
+      { name: 'account', type: 'address' },
+      { name: 'id', type: 'uint256' }
+    ],
+    outputs: [{ name: 'balance', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'uri',
+    inputs: [{ name: 'id', type: 'uint256' }],
+    outputs: [{ name: 'uri', type: 'string' }]
+  },
+  {
+    type: 'function',
+    name: 'safeTransferFrom',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'id', type: 'uint256' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'data', type: 'bytes' }
+    ]
+  },
+  {
+    type: 'function',
+    name: 'safeBatchTransferFrom',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'ids', type: 'uint256[]' },
+      { name: 'amounts', type: 'uint256[]' },
+      { name: 'data', type: 'bytes' }
+    ]
+  }
+]
+
+export class GenericERC1155 extends BaseEthereumNFTProtocol {
+  public readonly standard: EthereumNFTStandard = EthereumNFTStandard.ERC1155
+
+  constructor(options: EthereumNFTProtocolOptions) {
+    super(options, ERC1155_ABI)
+  }
+
+  public async getTokenBalance(address: string, tokenId: string): Promise<BigNumber> {
+    const [balance]: EthereumDecodedParameter[] = await this.callContract('balanceOf', [address, tokenId])
+
+    return new BigNumber(balance.value as string)
+  }
+
+  public async getTokenMetadataURI(tokenId: string): Promise<string> {
+    const [uri]: EthereumDecodedParameter[] = await this.callContract('uri', [tokenId])
+
+    return this.resolveMetadataURI(uri.value as string, tokenId)
+  }
+
+  // the URI is a template, the `{id}` placeholder is replaced by the token ID as 64 hex characters
+  protected resolveMetadataURI(uri: string, tokenId: string): string {
+    const id: string = new BigNumber(tokenId).toString(16).padStart(64, '0')
+
+    return super.resolveMetadataURI(uri.replace(/\{id\}/g, id), tokenId)
+  }
+
+  protected createTransferCall(from: string, to: string, tokenIds: string[], amounts: string[]): EthereumContractCall {
+    return tokenIds.length === 1
+      ? { abi: this.abi, method: 'safeTransferFrom', args: [from, to, tokenIds[0], amounts[0], '0x'] }
+      : { abi: this.abi, method: 'safeBatchTransferFrom', args: [from, to, tokenIds, amounts, '0x'] }
+  }
+
+  protected getTransferDetails(call: EthereumDecodedCall): EthereumNFTTransferDetails[] {
+    const [, to, ids, amounts]: EthereumDecodedParameter[] = call.parameters
+    switch (call.name) {
+      case 'safeTransferFrom':
+        return [{ to: to.value as string, tokenId: ids.value as string, amount: amounts.value as string }]
+      case 'safeBatchTransferFrom':
+        return (ids.value as string[]).map((tokenId: string, index: number) => ({
+          to: to.value as string,
+          tokenId,
+          amount: (amounts.value as string[])[index]
+        }))
+      default:
+        throw new InvalidValueError(Domain.ETHEREUM, `Unexpected call of ${call.signature}.`)
+    }
+  }
+}
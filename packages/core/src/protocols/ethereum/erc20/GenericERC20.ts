@@ -6,7 +6,7 @@ import { IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
 import { SignedEthereumTransaction } from '../../../serializer/schemas/definitions/signed-transaction-ethereum'
 import { UnsignedTransaction } from '../../../serializer/schemas/definitions/unsigned-transaction'
 import { UnsignedEthereumTransaction } from '../../../serializer/schemas/definitions/unsigned-transaction-ethereum'
-import { RawEthereumTransaction } from '../../../serializer/types'
+import { RawEthereumTransaction, RawEthereumTypedTransaction } from '../../../serializer/types'
 import { FeeDefaults } from '../../ICoinProtocol'
 import { ICoinSubProtocol, SubProtocolType } from '../../ICoinSubProtocol'
 import { BaseEthereumProtocol } from '../BaseEthereumProtocol'
@@ -15,11 +15,10 @@ import { AirGapNodeClient, EthereumRPCDataTransfer } from '../clients/node-clien
 import { EthereumERC20ProtocolOptions } from '../EthereumProtocolOptions'
 import { EthereumUtils } from '../utils/utils'
 import { EthereumAddress } from '../EthereumAddress'
+import { EthereumTransactionOptions } from '../EthereumTypes'
 import { BalanceError, ConditionViolationError } from '../../../errors'
 import { Domain } from '../../../errors/coinlib-error'
 
-const EthereumTransaction = require('../../../dependencies/src/ethereumjs-tx-1.3.7/index')
-
 export class GenericERC20 extends BaseEthereumProtocol<AirGapNodeClient, EtherscanInfoClient> implements ICoinSubProtocol {
   public isSubProtocol: boolean = true
   public subProtocolType: SubProtocolType = SubProtocolType.TOKEN
@@ -52,7 +51,10 @@ export class GenericERC20 extends BaseEthereumProtocol<AirGapNodeClient, Ethersc
     return balances.reduce((a: BigNumber, b: BigNumber) => a.plus(b)).toString(10)
   }
 
-  public signWithPrivateKey(privateKey: Buffer, transaction: RawEthereumTransaction): Promise<IAirGapSignedTransaction> {
+  public signWithPrivateKey(
+    privateKey: Buffer,
+    transaction: RawEthereumTransaction | RawEthereumTypedTransaction
+  ): Promise<IAirGapSignedTransaction> {
     if (!transaction.data || transaction.data === '0x') {
       transaction.data = new EthereumRPCDataTransfer(transaction.to, transaction.value).abiEncoded() // backwards-compatible fix
     }
@@ -74,7 +76,7 @@ export class GenericERC20 extends BaseEthereumProtocol<AirGapNodeClient, Ethersc
     publicKey: string,
     recipients: string[],
     values: string[],
-    data?: any
+    data?: EthereumTransactionOptions
   ): Promise<FeeDefaults> {
     if (recipients.length !== values.length) {
       return Promise.reject('recipients length does not match with values')
@@ -84,26 +86,17 @@ export class GenericERC20 extends BaseEthereumProtocol<AirGapNodeClient, Ethersc
     }
     const address: string = (await this.getAddressFromPublicKey(publicKey)).getValue()
     const estimatedGas = await this.estimateGas(address, recipients[0], EthereumUtils.toHex(values[0]))
-    const gasPrise = await this.options.nodeClient.getGasPrice()
-    const feeStepFactor = new BigNumber(0.5)
-    const estimatedFee = estimatedGas.times(gasPrise)
-    const lowFee = estimatedFee.minus(estimatedFee.times(feeStepFactor).integerValue(BigNumber.ROUND_FLOOR))
-    const mediumFee = estimatedFee
-    const highFee = mediumFee.plus(mediumFee.times(feeStepFactor).integerValue(BigNumber.ROUND_FLOOR))
-
-    return {
-      low: lowFee.shiftedBy(-this.feeDecimals).toFixed(),
-      medium: mediumFee.shiftedBy(-this.feeDecimals).toFixed(),
-      high: highFee.shiftedBy(-this.feeDecimals).toFixed()
-    }
+
+    return this.estimateFeeDefaults(estimatedGas, data)
   }
 
   public async prepareTransactionFromPublicKey(
     publicKey: string,
     recipients: string[],
     values: string[],
-    fee: string
-  ): Promise<RawEthereumTransaction> {
+    fee: string,
+    data?: EthereumTransactionOptions
+  ): Promise<RawEthereumTransaction | RawEthereumTypedTransaction> {
     const wrappedValues: BigNumber[] = values.map((value: string) => new BigNumber(value))
     const wrappedFee: BigNumber = new BigNumber(fee)
 
@@ -125,20 +118,16 @@ export class GenericERC20 extends BaseEthereumProtocol<AirGapNodeClient, Ethersc
 
       if (ethBalance.isGreaterThanOrEqualTo(wrappedFee)) {
         const txCount: number = await this.options.nodeClient.fetchTransactionCount(address)
-        const gasPrice: BigNumber = wrappedFee.isEqualTo(0)
-          ? new BigNumber(0)
-          : wrappedFee.div(estimatedGas).integerValue(BigNumber.ROUND_CEIL)
-        const transaction: RawEthereumTransaction = {
-          nonce: EthereumUtils.toHex(txCount),
-          gasLimit: EthereumUtils.toHex(estimatedGas.toFixed()),
-          gasPrice: EthereumUtils.toHex(gasPrice.toFixed()),
-          to: this.contractAddress,
-          value: EthereumUtils.toHex(new BigNumber(0).toFixed()),
-          chainId: this.options.network.extras.chainID,
-          data: new EthereumRPCDataTransfer(recipients[0], EthereumUtils.toHex(wrappedValues[0].toFixed())).abiEncoded()
-        }
-
-        return transaction
+
+        return this.createRawTransaction(
+          txCount,
+          estimatedGas,
+          wrappedFee,
+          this.contractAddress,
+          EthereumUtils.toHex(new BigNumber(0).toFixed()),
+          new EthereumRPCDataTransfer(recipients[0], EthereumUtils.toHex(wrappedValues[0].toFixed())).abiEncoded(),
+          data
+        )
       } else {
         throw new BalanceError(Domain.ERC20, 'not enough ETH balance')
       }
@@ -180,8 +169,7 @@ export class GenericERC20 extends BaseEthereumProtocol<AirGapNodeClient, Ethersc
 
     const ethTx: IAirGapTransaction = ethTxs[0]
 
-    const extractedTx = new EthereumTransaction(signedTx.transaction)
-    const tokenTransferDetails = new EthereumRPCDataTransfer(`0x${extractedTx.data.toString('hex')}`)
+    const tokenTransferDetails = new EthereumRPCDataTransfer(ethTx.data as string)
     ethTx.to = [ethUtil.toChecksumAddress(tokenTransferDetails.recipient)]
     ethTx.amount = new BigNumber(tokenTransferDetails.amount).toString(10)
 
@@ -0,0 +1,109 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError, UnsupportedError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+import { EthereumABIItem, EthereumDecodedCall, EthereumDecodedParameter } from '../EthereumABI'
+import { EthereumNFTProtocolOptions } from '../EthereumProtocolOptions'
+import { EthereumContractCall, EthereumNFTStandard } from '../EthereumTypes'
+import { BaseEthereumNFTProtocol, EthereumNFTTransferDetails } from '../nft/BaseEthereumNFTProtocol'
+
+const SAFE_TRANSFER_FROM: string = 'safeTransferFrom(address,address,uint256)'
+
+const ERC721_ABI: EthereumABIItem[] = [
+  {
+    type: 'function',
+    name: 'balanceOf',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: 'balance', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'ownerOf',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: 'owner', type: 'address' }]
+  },
+  {
+    type: 'function',
+    name: 'tokenURI',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: 'uri', type: 'string' }]
+  },
+  {
+    type: 'function',
+    name: 'safeTransferFrom',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'tokenId', type: 'uint256' }
+    ]
+  },
+  {
+    type: 'function',
+    name: 'safeTransferFrom',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'tokenId', type: 'uint256' },
+      { name: 'data', type: 'bytes' }
+    ]
+  },
+  {
+    type: 'function',
+    name: 'transferFrom',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'tokenId', type: 'uint256' }
+    ]
+  }
+]
+
+export class GenericERC721 extends BaseEthereumNFTProtocol {
+  public readonly standard: EthereumNFTStandard = EthereumNFTStandard.ERC721
+
+  constructor(options: EthereumNFTProtocolOptions) {
+    super(options, ERC721_ABI)
+  }
+
+  // the contract counts the tokens, which is cheaper than going through the transfers
+  public async getBalanceOfAddresses(addresses: string[]): Promise<string> {
+    const balances: EthereumDecodedParameter[][] = await Promise.all(
+      addresses.map((address: string) => this.callContract('balanceOf', [address]))
+    )
+
+    return balances
+      .reduce((sum: BigNumber, [balance]: EthereumDecodedParameter[]) => sum.plus(balance.value as string), new BigNumber(0))
+      .toFixed()
+  }
+
+  public async getTokenBalance(address: string, tokenId: string): Promise<BigNumber> {
+    const [owner]: EthereumDecodedParameter[] = await this.callContract('ownerOf', [tokenId])
+
+    return new BigNumber((owner.value as string).toLowerCase() === address.toLowerCase() ? 1 : 0)
+  }
+
+  public async getTokenMetadataURI(tokenId: string): Promise<string> {
+    const [uri]: EthereumDecodedParameter[] = await this.callContract('tokenURI', [tokenId])
+
+    return this.resolveMetadataURI(uri.value as string, tokenId)
+  }
+
+  protected createTransferCall(from: string, to: string, tokenIds: string[], amounts: string[]): EthereumContractCall {
+    if (tokenIds.length !== 1) {
+      throw new UnsupportedError(Domain.ETHEREUM, 'ERC-721 transfers are limited to a single token.')
+    }
+    if (!new BigNumber(amounts[0]).eq(1)) {
+      throw new InvalidValueError(Domain.ETHEREUM, 'ERC-721 tokens can only be transferred as a whole.')
+    }
+
+    return { abi: this.abi, method: SAFE_TRANSFER_FROM, args: [from, to, tokenIds[0]] }
+  }
+
+  protected getTransferDetails(call: EthereumDecodedCall): EthereumNFTTransferDetails[] {
+    if (call.name !== 'safeTransferFrom' && call.name !== 'transferFrom') {
+      throw new InvalidValueError(Domain.ETHEREUM, `Unexpected call of ${call.signature}.`)
+    }
+    const [, to, tokenId]: EthereumDecodedParameter[] = call.parameters
+
+    return [{ to: to.value as string, tokenId: tokenId.value as string, amount: '1' }]
+  }
+}
@@ -0,0 +1,286 @@
+import axios from '../../../dependencies/src/axios-0.19.0/index'
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import * as ethUtil from '../../../dependencies/src/ethereumjs-util-5.2.0/index'
+import { BalanceError, ConditionViolationError, InvalidValueError, NetworkError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+import { AirGapTransactionStatus, IAirGapTransaction } from '../../../interfaces/IAirGapTransaction'
+import { SignedEthereumTransaction } from '../../../serializer/schemas/definitions/signed-transaction-ethereum'
+import { UnsignedTransaction } from '../../../serializer/schemas/definitions/unsigned-transaction'
+import { RawEthereumTransaction, RawEthereumTypedTransaction } from '../../../serializer/types'
+import { FeeDefaults } from '../../ICoinProtocol'
+import { ICoinSubProtocol, SubProtocolType } from '../../ICoinSubProtocol'
+import { BaseEthereumProtocol } from '../BaseEthereumProtocol'
+import { EtherscanInfoClient } from '../clients/info-clients/EtherscanInfoClient'
+import { AirGapNodeClient } from '../clients/node-clients/AirGapNodeClient'
+import {
+  decodeFunctionCall,
+  decodeFunctionResult,
+  encodeFunctionCall,
+  EthereumABIItem,
+  EthereumABIValue,
+  EthereumDecodedCall,
+  EthereumDecodedParameter
+} from '../EthereumABI'
+import { EthereumAddress } from '../EthereumAddress'
+import { EthereumNFTProtocolOptions } from '../EthereumProtocolOptions'
+import {
+  EthereumContractCall,
+  EthereumNFTBalance,
+  EthereumNFTMetadata,
+  EthereumNFTStandard,
+  EthereumNFTTransactionOptions,
+  EthereumNFTTransfer,
+  EthereumTransactionCursor,
+  EthereumTransactionResult
+} from '../EthereumTypes'
+import { EthereumUtils } from '../utils/utils'
+
+const IPFS_GATEWAY: string = 'https://ipfs.io/ipfs/'
+const TRANSFERS_PAGE_SIZE: number = 1000
+
+export interface EthereumNFTTransferDetails {
+  to: string
+  tokenId: string
+  amount: string
+}
+
+/**
+ * The common parts of the ERC-721 and ERC-1155 sub-protocols. Balances are counted in tokens, the token IDs are passed in the options.
+ */
+export abstract class BaseEthereumNFTProtocol extends BaseEthereumProtocol<AirGapNodeClient, EtherscanInfoClient>
+  implements ICoinSubProtocol {
+  public isSubProtocol: boolean = true
+  public subProtocolType: SubProtocolType = SubProtocolType.NFT
+  public readonly contractAddress: string
+
+  public abstract readonly standard: EthereumNFTStandard
+
+  constructor(public readonly options: EthereumNFTProtocolOptions, protected readonly abi: EthereumABIItem[]) {
+    super(options)
+
+    this.contractAddress = options.config.contractAddress
+    this.symbol = options.config.symbol
+    this.name = options.config.name
+    this.marketSymbol = options.config.marketSymbol
+    this.identifier = options.config.identifier
+    this.decimals = 0
+
+    this.addContractABI(this.contractAddress, abi)
+  }
+
+  public abstract getTokenBalance(address: string, tokenId: string): Promise<BigNumber>
+  public abstract getTokenMetadataURI(tokenId: string): Promise<string>
+
+  protected abstract createTransferCall(from: string, to: string, tokenIds: string[], amounts: string[]): EthereumContractCall
+  protected abstract getTransferDetails(call: EthereumDecodedCall): EthereumNFTTransferDetails[]
+
+  // the tokens that are currently held by the address, derived from all its transfers
+  public async getOwnedTokens(address: string): Promise<EthereumNFTBalance[]> {
+    const balances: Map<string, BigNumber> = new Map()
+    for (let page: number = 1; ; page++) {
+      const transfers: EthereumNFTTransfer[] = await this.options.infoClient.fetchNFTTransfers(
+        this.standard,
+        this.contractAddress,
+        address,
+        page,
+        TRANSFERS_PAGE_SIZE,
+        true
+      )
+      for (const transfer of transfers) {
+        const balance: BigNumber = balances.get(transfer.tokenId) ?? new BigNumber(0)
+        const isIncoming: boolean = transfer.to.toLowerCase() === address.toLowerCase()
+        const isOutgoing: boolean = transfer.from.toLowerCase() === address.toLowerCase()
+        balances.set(transfer.tokenId, balance.plus(isIncoming ? transfer.amount : 0).minus(isOutgoing ? transfer.amount : 0))
+      }
+      if (transfers.length < TRANSFERS_PAGE_SIZE) {
+        break
+      }
+    }
+
+    const ownedTokens: EthereumNFTBalance[] = []
+    balances.forEach((amount: BigNumber, tokenId: string) => {
+      if (amount.gt(0)) {
+        ownedTokens.push({ tokenId, amount: amount.toFixed() })
+      }
+    })
+
+    return ownedTokens
+  }
+
+  public async getOwnedTokensOfPublicKey(publicKey: string): Promise<EthereumNFTBalance[]> {
+    const address: EthereumAddress = await this.getAddressFromPublicKey(publicKey)
+
+    return this.getOwnedTokens(address.getValue())
+  }
+
+  public async getBalanceOfAddresses(addresses: string[]): Promise<string> {
+    const ownedTokens: EthereumNFTBalance[][] = await Promise.all(addresses.map((address: string) => this.getOwnedTokens(address)))
+
+    return ownedTokens
+      .reduce((all: EthereumNFTBalance[], next: EthereumNFTBalance[]) => all.concat(next), [])
+      .reduce((sum: BigNumber, token: EthereumNFTBalance) => sum.plus(token.amount), new BigNumber(0))
+      .toFixed()
+  }
+
+  public async getTokenMetadata(tokenId: string): Promise<EthereumNFTMetadata> {
+    const uri: string = await this.getTokenMetadataURI(tokenId)
+
+    // on-chain metadata is embedded as data URI
+    const dataURI: RegExpExecArray | null = /^data:application\/json(;base64)?,([\s\S]*)$/.exec(uri)
+    if (dataURI !== null) {
+      // the URI is set by the contract, malformed metadata is shown as none
+      try {
+        return JSON.parse(dataURI[1] !== undefined ? Buffer.from(dataURI[2], 'base64').toString('utf8') : decodeURIComponent(dataURI[2]))
+      } catch {
+        return {}
+      }
+    }
+
+    try {
+      return (await axios.get(uri)).data
+    } catch (error) {
+      throw new NetworkError(Domain.ETHEREUM, `Could not fetch the metadata of token ${tokenId} from ${uri}.`)
+    }
+  }
+
+  public async estimateMaxTransactionValueFromPublicKey(publicKey: string, recipients: string[], fee?: string): Promise<string> {
+    return this.getBalanceOfPublicKey(publicKey)
+  }
+
+  public async estimateFeeDefaultsFromPublicKey(
+    publicKey: string,
+    recipients: string[],
+    values: string[],
+    data?: EthereumNFTTransactionOptions
+  ): Promise<FeeDefaults> {
+    const address: string = (await this.getAddressFromPublicKey(publicKey)).getValue()
+    const estimatedGas: BigNumber = await this.options.nodeClient.estimateTransactionGas(
+      address,
+      this.contractAddress,
+      EthereumUtils.toHex(0),
+      this.encodeTransfer(address, recipients, values, data)
+    )
+
+    return this.estimateFeeDefaults(estimatedGas, data)
+  }
+
+  public async prepareTransactionFromPublicKey(
+    publicKey: string,
+    recipients: string[],
+    values: string[],
+    fee: string,
+    data?: EthereumNFTTransactionOptions
+  ): Promise<RawEthereumTransaction | RawEthereumTypedTransaction> {
+    const address: string = (await this.getAddressFromPublicKey(publicKey)).getValue()
+    const callData: string = this.encodeTransfer(address, recipients, values, data)
+
+    const tokenIds: string[] = data?.tokenIds ?? []
+    const tokenBalances: BigNumber[] = await Promise.all(tokenIds.map((tokenId: string) => this.getTokenBalance(address, tokenId)))
+    tokenBalances.forEach((balance: BigNumber, index: number) => {
+      if (balance.lt(values[index])) {
+        throw new BalanceError(Domain.ETHEREUM, `not enough balance of token ${tokenIds[index]}`)
+      }
+    })
+
+    const ethBalance: BigNumber = new BigNumber(await super.getBalanceOfAddresses([address]))
+    if (ethBalance.lt(fee)) {
+      throw new BalanceError(Domain.ETHEREUM, 'not enough ETH balance')
+    }
+
+    const zero: string = EthereumUtils.toHex(0)
+    const gasLimit: BigNumber = await this.options.nodeClient.estimateTransactionGas(address, this.contractAddress, zero, callData)
+    const txCount: number = await this.options.nodeClient.fetchTransactionCount(address)
+
+    return this.createRawTransaction(txCount, gasLimit, new BigNumber(fee), this.contractAddress, zero, callData, data)
+  }
+
+  public async getTransactionDetails(unsignedTx: UnsignedTransaction): Promise<IAirGapTransaction[]> {
+    return this.toTransferTransactions(await super.getTransactionDetails(unsignedTx))
+  }
+
+  public async getTransactionDetailsFromSigned(signedTx: SignedEthereumTransaction): Promise<IAirGapTransaction[]> {
+    return this.toTransferTransactions(await super.getTransactionDetailsFromSigned(signedTx))
+  }
+
+  public async getTransactionsFromAddresses(
+    addresses: string[],
+    limit: number,
+    cursor?: EthereumTransactionCursor
+  ): Promise<EthereumTransactionResult> {
+    const page: number = cursor?.page ?? 1
+    const transfers: EthereumNFTTransfer[][] = await Promise.all(
+      addresses.map((address: string) =>
+        this.options.infoClient.fetchNFTTransfers(this.standard, this.contractAddress, address, page, limit)
+      )
+    )
+
+    const transactions: IAirGapTransaction[] = transfers.reduce(
+      (all: IAirGapTransaction[], addressTransfers: EthereumNFTTransfer[], index: number) =>
+        all.concat(
+          addressTransfers.map((transfer: EthereumNFTTransfer) => ({
+            hash: transfer.hash,
+            from: [transfer.from],
+            to: [transfer.to],
+            isInbound: transfer.to.toLowerCase() === addresses[index].toLowerCase(),
+            amount: transfer.amount,
+            fee: new BigNumber(transfer.gas).times(transfer.gasPrice).toFixed(),
+            blockHeight: transfer.blockNumber,
+            timestamp: transfer.timestamp,
+            protocolIdentifier: this.identifier,
+            network: this.options.network,
+            status: AirGapTransactionStatus.APPLIED,
+            extra: { tokenId: transfer.tokenId }
+          }))
+        ),
+      []
+    )
+
+    return { transactions, cursor: { page: page + 1 } }
+  }
+
+  protected resolveMetadataURI(uri: string, tokenId: string): string {
+    return uri.startsWith('ipfs://') ? `${IPFS_GATEWAY}${uri.slice('ipfs://'.length).replace(/^ipfs\//, '')}` : uri
+  }
+
+  protected async callContract(method: string, args: EthereumABIValue[]): Promise<EthereumDecodedParameter[]> {
+    const result: string = await this.options.nodeClient.callContract(this.contractAddress, encodeFunctionCall(this.abi, method, args))
+
+    return decodeFunctionResult(this.abi, method, result)
+  }
+
+  private encodeTransfer(from: string, recipients: string[], values: string[], options?: EthereumNFTTransactionOptions): string {
+    const tokenIds: string[] = options?.tokenIds ?? []
+    if (recipients.length !== 1) {
+      throw new ConditionViolationError(Domain.ETHEREUM, 'NFT transfers need exactly one recipient.')
+    }
+    if (tokenIds.length === 0 || tokenIds.length !== values.length) {
+      throw new ConditionViolationError(Domain.ETHEREUM, 'NFT transfers need a token ID for each value.')
+    }
+    const call: EthereumContractCall = this.createTransferCall(from, recipients[0], tokenIds, values)
+
+    return encodeFunctionCall(call.abi, call.method, call.args)
+  }
+
+  // a transaction is shown as one transfer per token, the fee and the ETH sent along with the call are only counted once
+  private toTransferTransactions(ethTxs: IAirGapTransaction[]): IAirGapTransaction[] {
+    if (ethTxs.length !== 1) {
+      throw new ConditionViolationError(Domain.ETHEREUM, 'More than one ETH transaction detected.')
+    }
+    const ethTx: IAirGapTransaction = ethTxs[0]
+
+    let call: EthereumDecodedCall
+    try {
+      call = decodeFunctionCall(this.abi, ethTx.data ?? '0x')
+    } catch (error) {
+      throw new InvalidValueError(Domain.ETHEREUM, `Transaction is not a transfer of ${this.name}.`)
+    }
+
+    return this.getTransferDetails(call).map((transfer: EthereumNFTTransferDetails, index: number) => ({
+      ...ethTx,
+      to: [ethUtil.toChecksumAddress(transfer.to)],
+      amount: transfer.amount,
+      fee: index === 0 ? ethTx.fee : '0',
+      extra: { ...ethTx.extra, tokenId: transfer.tokenId, ethAmount: index === 0 ? ethTx.amount : '0' }
+    }))
+  }
+}
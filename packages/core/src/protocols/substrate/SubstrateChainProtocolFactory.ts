@@ -0,0 +1,60 @@
+import { IACMessageType } from '../../serializer/interfaces'
+import { SchemaInfo } from '../../serializer/schemas/schema'
+import { Serializer } from '../../serializer/serializer'
+import { NetworkType } from '../../utils/ProtocolNetwork'
+import { MainProtocolSymbols, ProtocolSymbols } from '../../utils/ProtocolSymbols'
+
+import { SubstrateAddress } from './helpers/data/account/SubstrateAddress'
+import { SubstrateSignatureType } from './helpers/data/transaction/SubstrateSignature'
+import { SubstrateChainProtocol } from './implementations/SubstrateChainProtocol'
+import { getCustomSubstrateNetwork, SubstrateNetwork } from './SubstrateNetwork'
+import {
+  PolkascanBlockExplorer,
+  SubstrateChainDescriptor,
+  SubstrateChainProtocolConfig,
+  SubstrateProtocolNetwork,
+  SubstrateProtocolNetworkExtras,
+  SubstrateProtocolOptions
+} from './SubstrateProtocolOptions'
+
+const registeredIdentifiers: Set<string> = new Set([MainProtocolSymbols.POLKADOT, MainProtocolSymbols.KUSAMA])
+
+// Substrate chains share the transaction format of Polkadot, so they reuse its schemas under their own identifier
+function registerSerializerSchemas(identifier: ProtocolSymbols): void {
+  if (registeredIdentifiers.has(identifier)) {
+    return
+  }
+
+  for (const schemaId of [IACMessageType.TransactionSignRequest, IACMessageType.TransactionSignResponse]) {
+    const [schema, ...variants]: SchemaInfo[] = Serializer.getSchemaVariants(schemaId, MainProtocolSymbols.POLKADOT)
+    Serializer.addSchema(schemaId, schema, identifier)
+    variants.forEach((variant: SchemaInfo) => {
+      Serializer.addSchemaVariant(schemaId, variant, identifier)
+    })
+  }
+  registeredIdentifiers.add(identifier)
+}
+
+export function createSubstrateChainProtocol(
+  chain: SubstrateChainDescriptor,
+  networkType: NetworkType = NetworkType.MAINNET,
+  signatureType?: SubstrateSignatureType
+): SubstrateChainProtocol {
+  const network: SubstrateNetwork = getCustomSubstrateNetwork(chain.identifier)
+  SubstrateAddress.addSS58Format(network, chain.ss58Format)
+
+  const options: SubstrateProtocolOptions<SubstrateChainProtocolConfig> = new SubstrateProtocolOptions(
+    new SubstrateProtocolNetwork(
+      chain.name,
+      networkType,
+      chain.rpcUrl,
+      new PolkascanBlockExplorer(chain.blockExplorerUrl),
+      new SubstrateProtocolNetworkExtras(chain.blockExplorerApiUrl ?? '', network)
+    ),
+    new SubstrateChainProtocolConfig(chain, signatureType)
+  )
+  const protocol: SubstrateChainProtocol = new SubstrateChainProtocol(options)
+  registerSerializerSchemas(protocol.identifier)
+
+  return protocol
+}
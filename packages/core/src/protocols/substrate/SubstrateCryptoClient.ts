@@ -1,10 +1,21 @@
 import { assert, u8aToU8a } from '@polkadot/util'
-import { sr25519Sign, sr25519Verify, waitReady } from '@polkadot/wasm-crypto'
+import { ed25519Sign, ed25519Verify, sr25519Sign, sr25519Verify, waitReady } from '@polkadot/wasm-crypto'
 
+import SECP256K1 = require('../../dependencies/src/secp256k1-3.7.1/elliptic')
+import { blake2bAsBytes } from '../../utils/blake2b'
 import { Sr25519CryptoClient } from '../Sr25519CryptoClient'
 
+import { SubstrateSignatureType } from './helpers/data/transaction/SubstrateSignature'
+
+function signEcdsa(message: Uint8Array, privateKey: Buffer): Buffer {
+  // the message is hashed before it's signed, the recovery ID is appended to the signature
+  const signed: { signature: Buffer; recovery: number } = SECP256K1.sign(Buffer.from(blake2bAsBytes(message, 256)), privateKey)
+
+  return Buffer.concat([signed.signature, Buffer.from([signed.recovery])])
+}
+
 export class SubstrateCryptoClient extends Sr25519CryptoClient {
-  constructor() {
+  constructor(private readonly signatureType: SubstrateSignatureType = SubstrateSignatureType.Sr25519) {
     super()
   }
 
@@ -12,12 +23,30 @@ export class SubstrateCryptoClient extends Sr25519CryptoClient {
     await waitReady()
     
     const publicKeyBuffer: Buffer = Buffer.from(keypair.publicKey, 'hex')
-    assert(publicKeyBuffer?.length === 32, 'Expected a valid publicKey, 32-bytes')
-    assert(keypair.privateKey?.length === 64, 'Expected a valid secretKey, 64-bytes')
-
     const messageU8a: Uint8Array = u8aToU8a(message)
 
-    return `0x${Buffer.from(sr25519Sign(publicKeyBuffer, keypair.privateKey, messageU8a)).toString('hex')}`
+    let signature: Uint8Array
+    switch (this.signatureType) {
+      case SubstrateSignatureType.Ed25519:
+        assert(publicKeyBuffer?.length === 32, 'Expected a valid publicKey, 32-bytes')
+        assert(keypair.privateKey?.length === 64, 'Expected a valid secretKey, 64-bytes')
+
+        signature = ed25519Sign(publicKeyBuffer, keypair.privateKey.slice(0, 32), messageU8a)
+        break
+      case SubstrateSignatureType.Ecdsa:
+        assert(publicKeyBuffer?.length === 33, 'Expected a valid publicKey, 33-bytes')
+        assert(keypair.privateKey?.length === 32, 'Expected a valid secretKey, 32-bytes')
+
+        signature = signEcdsa(messageU8a, keypair.privateKey)
+        break
+      default:
+        assert(publicKeyBuffer?.length === 32, 'Expected a valid publicKey, 32-bytes')
+        assert(keypair.privateKey?.length === 64, 'Expected a valid secretKey, 64-bytes')
+
+        signature = sr25519Sign(publicKeyBuffer, keypair.privateKey, messageU8a)
+    }
+
+    return `0x${Buffer.from(signature).toString('hex')}`
   }
 
   public async verifyMessage(message: string, signature: string, publicKey: string): Promise<boolean> {
@@ -27,6 +56,17 @@ export class SubstrateCryptoClient extends Sr25519CryptoClient {
     const publicKeyU8a: Uint8Array = u8aToU8a(Buffer.from(publicKey, 'hex'))
     const signatureU8a: Uint8Array = u8aToU8a(signature)
 
-    return sr25519Verify(signatureU8a, messageU8a, publicKeyU8a)
+    switch (this.signatureType) {
+      case SubstrateSignatureType.Ed25519:
+        return ed25519Verify(signatureU8a, messageU8a, publicKeyU8a)
+      case SubstrateSignatureType.Ecdsa:
+        return SECP256K1.verify(
+          Buffer.from(blake2bAsBytes(messageU8a, 256)),
+          Buffer.from(signatureU8a.slice(0, 64)),
+          Buffer.from(publicKeyU8a)
+        )
+      default:
+        return sr25519Verify(signatureU8a, messageU8a, publicKeyU8a)
+    }
   }
 }
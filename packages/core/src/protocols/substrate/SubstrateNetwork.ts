@@ -2,3 +2,16 @@ export enum SubstrateNetwork {
   POLKADOT,
   KUSAMA
 }
+
+// chains configured from a descriptor are identified by the values following the predefined networks
+const customNetworks: Map<string, SubstrateNetwork> = new Map()
+
+export function getCustomSubstrateNetwork(identifier: string): SubstrateNetwork {
+  let network: SubstrateNetwork | undefined = customNetworks.get(identifier)
+  if (network === undefined) {
+    network = SubstrateNetwork.KUSAMA + 1 + customNetworks.size
+    customNetworks.set(identifier, network)
+  }
+
+  return network
+}
@@ -1,12 +1,13 @@
 import { AxiosError } from '../../dependencies/src/axios-0.19.0'
 import BigNumber from '../../dependencies/src/bignumber.js-9.0.0/bignumber'
-import { NetworkError } from '../../errors'
+import { ConditionViolationError, InvalidValueError, NetworkError, UnsupportedError } from '../../errors'
 import { Domain } from '../../errors/coinlib-error'
 import { AirGapTransactionStatus, IAirGapTransaction } from '../../interfaces/IAirGapTransaction'
 import { SignedSubstrateTransaction } from '../../serializer/schemas/definitions/signed-transaction-substrate'
 import { UnsignedSubstrateTransaction } from '../../serializer/schemas/definitions/unsigned-transaction-substrate'
 import { RawSubstrateTransaction } from '../../serializer/types'
 import { assertFields } from '../../utils/assert'
+import { blake2bAsHex } from '../../utils/blake2b'
 import { ProtocolSymbols } from '../../utils/ProtocolSymbols'
 import { DelegateeDetails, DelegationDetails, DelegatorDetails, ICoinDelegateProtocol } from '../ICoinDelegateProtocol'
 import { CurrencyUnit, FeeDefaults } from '../ICoinProtocol'
@@ -14,14 +15,25 @@ import { ICoinSubProtocol } from '../ICoinSubProtocol'
 import { NonExtendedProtocol } from '../NonExtendedProtocol'
 
 import { SubstrateAccountId, SubstrateAddress } from './helpers/data/account/SubstrateAddress'
+import { SubstrateCall } from './helpers/data/metadata/decorator/call/SubstrateCall'
+import { SubstrateMultisig } from './helpers/data/multisig/SubstrateMultisig'
+import { SubstrateMultisigTimepoint } from './helpers/data/multisig/SubstrateMultisigTimepoint'
+import { SubstrateProxyType } from './helpers/data/proxy/SubstrateProxyType'
+import { SCALEAccountId } from './helpers/data/scale/type/SCALEAccountId'
+import { SubstrateNominatorEraReward, SubstratePendingPayout } from './helpers/data/staking/SubstrateNominatorDetails'
 import { SubstratePayee } from './helpers/data/staking/SubstratePayee'
 import { SubstrateStakingActionType } from './helpers/data/staking/SubstrateStakingActionType'
+import { SubstrateRuntimeVersion } from './helpers/data/state/SubstrateRuntimeVersion'
+import { SubstrateTransactionMethod } from './helpers/data/transaction/method/SubstrateTransactionMethod'
 import { SubstrateTransaction, SubstrateTransactionType } from './helpers/data/transaction/SubstrateTransaction'
 import { SubstrateTransactionConfig } from './helpers/SubstrateTransactionController'
 import { SubstrateCryptoClient } from './SubstrateCryptoClient'
+import { SubstrateNetwork } from './SubstrateNetwork'
 import { SubstrateProtocolOptions } from './SubstrateProtocolOptions'
 import { SubstrateTransactionCursor, SubstrateTransactionResult } from './SubstrateTypes'
 
+const MAX_PAYOUTS_PER_BATCH: number = 10
+
 export abstract class SubstrateProtocol extends NonExtendedProtocol implements ICoinDelegateProtocol {
   public abstract symbol: string
   public abstract name: string
@@ -45,10 +57,11 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
 
   protected defaultValidator?: string
 
-  public readonly cryptoClient: SubstrateCryptoClient = new SubstrateCryptoClient()
+  public readonly cryptoClient: SubstrateCryptoClient
 
   constructor(public readonly options: SubstrateProtocolOptions) {
     super()
+    this.cryptoClient = new SubstrateCryptoClient(options.config.signatureType)
   }
 
   public async getBlockExplorerLinkForAddress(address: string): Promise<string> {
@@ -258,6 +271,143 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
     return { encoded }
   }
 
+  // prepares any call of the runtime, the arguments are encoded according to their types in the runtime metadata
+  public async prepareCall(
+    publicKey: string,
+    pallet: string,
+    call: string,
+    args: { [name: string]: unknown },
+    tip: string | number | BigNumber = 0
+  ): Promise<RawSubstrateTransaction> {
+    const [transferableBalance, substrateCall]: [BigNumber, SubstrateCall] = await Promise.all([
+      this.options.accountController.getTransferableBalance(publicKey, false, false),
+      this.options.nodeClient.getCallMetadata(pallet, call)
+    ])
+
+    const encoded: string = await this.options.transactionController.prepareSubmittableTransactions(publicKey, transferableBalance, [
+      {
+        type: SubstrateTransactionType.GENERIC_CALL,
+        tip,
+        args: { call: substrateCall, args }
+      }
+    ])
+
+    return { encoded }
+  }
+
+  public async prepareAddProxy(
+    publicKey: string,
+    delegate: string,
+    proxyType: SubstrateProxyType,
+    delay: number = 0,
+    tip: string | number | BigNumber = 0
+  ): Promise<RawSubstrateTransaction> {
+    return this.prepareSingleTransaction(publicKey, SubstrateTransactionType.ADD_PROXY, { delegate, proxyType, delay }, tip)
+  }
+
+  public async prepareRemoveProxy(
+    publicKey: string,
+    delegate: string,
+    proxyType: SubstrateProxyType,
+    delay: number = 0,
+    tip: string | number | BigNumber = 0
+  ): Promise<RawSubstrateTransaction> {
+    return this.prepareSingleTransaction(publicKey, SubstrateTransactionType.REMOVE_PROXY, { delegate, proxyType, delay }, tip)
+  }
+
+  public async prepareProxyCall(
+    publicKey: string,
+    real: string,
+    type: SubstrateTransactionType,
+    args: any,
+    tip: string | number | BigNumber = 0,
+    forceProxyType?: SubstrateProxyType
+  ): Promise<RawSubstrateTransaction> {
+    const call: SubstrateTransactionMethod = await this.options.transactionController.createTransactionMethod(type, args)
+
+    return this.prepareSingleTransaction(publicKey, SubstrateTransactionType.PROXY, { real, forceProxyType, call }, tip)
+  }
+
+  public async getMultisigAddress(signatories: string[], threshold: number): Promise<string> {
+    const multisig: SubstrateAddress = await this.options.accountController.createMultisigAddress(signatories, threshold)
+
+    return multisig.getValue()
+  }
+
+  public async prepareMultisigCall(
+    publicKey: string,
+    otherSignatories: string[],
+    threshold: number,
+    type: SubstrateTransactionType,
+    args: any,
+    tip: string | number | BigNumber = 0
+  ): Promise<RawSubstrateTransaction> {
+    const network: SubstrateNetwork = this.options.network.extras.network
+    const signer: SubstrateAddress = SubstrateAddress.from(publicKey, network)
+    if (threshold < 2 || threshold > otherSignatories.length + 1) {
+      throw new InvalidValueError(Domain.SUBSTRATE, `Invalid multisig threshold ${threshold}.`)
+    }
+    if (otherSignatories.some((signatory: string) => signer.compare(SubstrateAddress.from(signatory, network)) === 0)) {
+      throw new InvalidValueError(Domain.SUBSTRATE, 'The signer cannot be one of the other signatories.')
+    }
+
+    const [call, runtimeVersion, multisig]: [
+      SubstrateTransactionMethod,
+      SubstrateRuntimeVersion | null,
+      SubstrateAddress
+    ] = await Promise.all([
+      this.options.transactionController.createTransactionMethod(type, args),
+      this.options.nodeClient.getRuntimeVersion(),
+      this.options.accountController.createMultisigAddress([publicKey, ...otherSignatories], threshold)
+    ])
+
+    const callHash: string = blake2bAsHex(call.encode({ network, runtimeVersion: runtimeVersion?.specVersion }), 256)
+    const pending: SubstrateMultisig | null = await this.options.accountController.getPendingMultisig(multisig, callHash)
+    if (pending && pending.approvals.elements.some((approval: SCALEAccountId) => approval.address.compare(signer) === 0)) {
+      throw new ConditionViolationError(Domain.SUBSTRATE, 'The multisig operation has already been approved by this account.')
+    }
+
+    // the operation is opened at the timepoint of its first approval
+    const timepoint: SubstrateMultisigTimepoint | null = pending ? pending.when : null
+    const approvals: number = pending ? pending.approvals.elements.length : 0
+
+    if (approvals + 1 < threshold) {
+      return this.prepareSingleTransaction(
+        publicKey,
+        SubstrateTransactionType.APPROVE_AS_MULTI,
+        { threshold, otherSignatories, timepoint, callHash, maxWeight: 0 },
+        tip
+      )
+    }
+
+    // the last approval executes the call, its weight has to be covered
+    const maxWeight: BigNumber | null = await this.options.transactionController.calculateTransactionWeight(
+      await this.options.transactionController.createTransaction(type, multisig, 0, args)
+    )
+    if (!maxWeight) {
+      return Promise.reject('Could not fetch all necessary data.')
+    }
+
+    return this.prepareSingleTransaction(
+      publicKey,
+      SubstrateTransactionType.AS_MULTI,
+      { threshold, otherSignatories, timepoint, call, storeCall: false, maxWeight },
+      tip
+    )
+  }
+
+  public async prepareBatchAll(
+    publicKey: string,
+    calls: [SubstrateTransactionType, any][],
+    tip: string | number | BigNumber = 0
+  ): Promise<RawSubstrateTransaction> {
+    const methods: SubstrateTransactionMethod[] = await Promise.all(
+      calls.map(([type, args]: [SubstrateTransactionType, any]) => this.options.transactionController.createTransactionMethod(type, args))
+    )
+
+    return this.prepareSingleTransaction(publicKey, SubstrateTransactionType.SUBMIT_BATCH_ALL, { calls: methods }, tip)
+  }
+
   public async broadcastTransaction(encoded: string): Promise<string> {
     const txs: [number | undefined, SubstrateTransaction][] = this.options.transactionController
       .decodeDetails(encoded)
@@ -281,6 +431,8 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
   }
 
   public async getDefaultDelegatee(): Promise<string> {
+    this.assertStakingAvailable()
+
     if (this.defaultValidator) {
       return this.defaultValidator
     }
@@ -291,14 +443,24 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
   }
 
   public async getCurrentDelegateesForPublicKey(publicKey: string): Promise<string[]> {
+    if (!this.options.config.stakingAvailable) {
+      return []
+    }
+
     return this.options.accountController.getCurrentValidators(publicKey)
   }
 
   public async getCurrentDelegateesForAddress(address: string): Promise<string[]> {
+    if (!this.options.config.stakingAvailable) {
+      return []
+    }
+
     return this.options.accountController.getCurrentValidators(address)
   }
 
   public async getDelegateeDetails(address: string): Promise<DelegateeDetails> {
+    this.assertStakingAvailable()
+
     const validatorDetails = await this.options.accountController.getValidatorDetails(address)
 
     return {
@@ -309,10 +471,18 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
   }
 
   public async isPublicKeyDelegating(publicKey: string): Promise<boolean> {
+    if (!this.options.config.stakingAvailable) {
+      return false
+    }
+
     return this.options.accountController.isNominating(publicKey)
   }
 
   public async isAddressDelegating(address: string): Promise<boolean> {
+    if (!this.options.config.stakingAvailable) {
+      return false
+    }
+
     return this.options.accountController.isNominating(address)
   }
 
@@ -323,6 +493,8 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
   }
 
   public async getDelegatorDetailsFromAddress(address: string): Promise<DelegatorDetails> {
+    this.assertStakingAvailable()
+
     return this.options.accountController.getNominatorDetails(address)
   }
 
@@ -333,6 +505,8 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
   }
 
   public async getDelegationDetailsFromAddress(address: string, delegatees: string[]): Promise<DelegationDetails> {
+    this.assertStakingAvailable()
+
     const [nominatorDetails, validatorsDetails] = await Promise.all([
       this.options.accountController.getNominatorDetails(address, delegatees),
       Promise.all(delegatees.map((validator) => this.options.accountController.getValidatorDetails(validator)))
@@ -359,6 +533,7 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
     type: SubstrateStakingActionType,
     data?: any
   ): Promise<RawSubstrateTransaction[]> {
+    this.assertStakingAvailable()
     if (!data) {
       data = {}
     }
@@ -672,7 +847,63 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
     return [{ encoded }]
   }
 
+  // the validators nominated before the current nominations have to be given to find the rewards they paid
+  public async getNominatorRewardHistory(
+    address: string,
+    eras?: number[],
+    pastTargets: string[] = []
+  ): Promise<SubstrateNominatorEraReward[]> {
+    this.assertStakingAvailable()
+
+    return this.options.accountController.getNominatorRewardHistory(address, eras, pastTargets)
+  }
+
+  public async getPendingPayouts(address: string, pastTargets: string[] = []): Promise<SubstratePendingPayout[]> {
+    this.assertStakingAvailable()
+
+    return this.options.accountController.getPendingPayouts(address, pastTargets)
+  }
+
+  public async getValidatorExpectedApy(address: string): Promise<string> {
+    this.assertStakingAvailable()
+
+    const expectedApy: BigNumber = await this.options.accountController.getValidatorExpectedApy(address)
+
+    return expectedApy.toFixed()
+  }
+
+  // claims the pending payouts of the nominator in a single batch, the oldest first as they expire first
+  // the batch is limited to `MAX_PAYOUTS_PER_BATCH` payouts to stay within the block weight, the rest is left for the next batch
+  public async prepareCollectPayouts(
+    publicKey: string,
+    tip: string | number | BigNumber = 0,
+    pastTargets: string[] = []
+  ): Promise<RawSubstrateTransaction> {
+    this.assertStakingAvailable()
+
+    const pendingPayouts: SubstratePendingPayout[] = await this.options.accountController.getPendingPayouts(publicKey, pastTargets)
+    if (pendingPayouts.length === 0) {
+      throw new ConditionViolationError(Domain.SUBSTRATE, 'There are no pending payouts to collect.')
+    }
+
+    const calls: SubstrateTransactionMethod[] = await Promise.all(
+      pendingPayouts
+        .sort((first: SubstratePendingPayout, second: SubstratePendingPayout) => first.eraIndex - second.eraIndex)
+        .slice(0, MAX_PAYOUTS_PER_BATCH)
+        .map((payout: SubstratePendingPayout) =>
+          this.options.transactionController.createTransactionMethod(SubstrateTransactionType.COLLECT_PAYOUT, {
+            validator: payout.validator,
+            era: payout.eraIndex
+          })
+        )
+    )
+
+    return this.prepareSingleTransaction(publicKey, SubstrateTransactionType.SUBMIT_BATCH, { calls }, tip)
+  }
+
   public async estimateMaxDelegationValueFromAddress(address: string): Promise<string> {
+    this.assertStakingAvailable()
+
     const results = await Promise.all([
       this.options.accountController.getTransferableBalance(address, false, false),
       this.getFutureRequiredTransactions(address, 'delegate')
@@ -696,12 +927,14 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
     accountId: SubstrateAccountId,
     intention: 'check' | 'transfer' | 'delegate'
   ): Promise<[SubstrateTransactionType, any][]> {
+    // the staking state does not have to be queried on chains without staking
+    const stakingAvailable: boolean = this.options.config.stakingAvailable
     const results = await Promise.all([
-      this.options.accountController.isBonded(accountId),
-      this.options.accountController.isNominating(accountId),
+      stakingAvailable ? this.options.accountController.isBonded(accountId) : false,
+      stakingAvailable ? this.options.accountController.isNominating(accountId) : false,
       this.options.accountController.getTransferableBalance(accountId),
       this.options.accountController.getTransferableBalance(accountId, false, false),
-      this.options.accountController.getUnlockingBalance(accountId)
+      stakingAvailable ? this.options.accountController.getUnlockingBalance(accountId) : new BigNumber(0)
     ])
 
     const isBonded = results[0]
@@ -806,6 +1039,26 @@ export abstract class SubstrateProtocol extends NonExtendedProtocol implements I
     return requiredTransactions
   }
 
+  private async prepareSingleTransaction(
+    publicKey: string,
+    type: SubstrateTransactionType,
+    args: any,
+    tip: string | number | BigNumber
+  ): Promise<RawSubstrateTransaction> {
+    const transferableBalance: BigNumber = await this.options.accountController.getTransferableBalance(publicKey, false, false)
+    const encoded: string = await this.options.transactionController.prepareSubmittableTransactions(publicKey, transferableBalance, [
+      { type, tip, args }
+    ])
+
+    return { encoded }
+  }
+
+  private assertStakingAvailable(): void {
+    if (!this.options.config.stakingAvailable) {
+      throw new UnsupportedError(Domain.SUBSTRATE, `Staking is not available on ${this.name}.`)
+    }
+  }
+
   private async getTransactionDetailsFromEncoded(encoded: string): Promise<IAirGapTransaction[]> {
     const txs = this.options.transactionController.decodeDetails(encoded)
 
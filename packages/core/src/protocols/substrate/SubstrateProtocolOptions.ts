@@ -3,6 +3,7 @@ import { NetworkType, ProtocolNetwork } from '../../utils/ProtocolNetwork'
 import { ProtocolOptions } from '../../utils/ProtocolOptions'
 
 import { SubstrateBlockExplorerClient } from './helpers/blockexplorer/SubstrateBlockExplorerClient'
+import { SubstrateSignatureType } from './helpers/data/transaction/SubstrateSignature'
 import { SubstrateNodeClient } from './helpers/node/SubstrateNodeClient'
 import { SubstrateAccountController } from './helpers/SubstrateAccountController'
 import { SubstrateTransactionController } from './helpers/SubstrateTransactionController'
@@ -12,6 +13,20 @@ import { SubstrateNetwork } from './SubstrateNetwork'
 
 const MAINNET_NAME: string = 'Mainnet'
 
+export interface SubstrateChainDescriptor {
+  identifier: string
+  name: string
+  symbol: string
+  decimals: number
+  ss58Format: number
+  coinType: number
+  rpcUrl: string
+  blockExplorerUrl: string
+  // the Subscan API of the chain, it is used to list the transactions of an account
+  blockExplorerApiUrl?: string
+  stakingAvailable: boolean
+}
+
 export class SubstrateProtocolNetworkExtras {
   constructor(public readonly apiUrl: string, public readonly network: SubstrateNetwork) {}
 }
@@ -28,7 +43,17 @@ export class PolkascanBlockExplorer implements ProtocolBlockExplorer {
 }
 
 export class SubstrateProtocolConfig {
-  constructor() {}
+  constructor(
+    public readonly stakingAvailable: boolean = true,
+    // the key scheme of the wallet, it determines how keys are derived and transactions are signed
+    public readonly signatureType: SubstrateSignatureType = SubstrateSignatureType.Sr25519
+  ) {}
+}
+
+export class SubstrateChainProtocolConfig extends SubstrateProtocolConfig {
+  constructor(public readonly chain: SubstrateChainDescriptor, signatureType?: SubstrateSignatureType) {
+    super(chain.stakingAvailable, signatureType)
+  }
 }
 
 export class SubstrateProtocolNetwork extends ProtocolNetwork<SubstrateProtocolNetworkExtras> {
@@ -52,7 +77,7 @@ export class SubstrateProtocolOptions<T extends SubstrateProtocolConfig = Substr
   constructor(public readonly network: SubstrateProtocolNetwork, public readonly config: T) {
     this.nodeClient = new SubstrateNodeClient(network.extras.network, network.rpcUrl)
     this.blockExplorerClient = new SubstrateBlockExplorerClient(network.extras.network, network.extras.apiUrl)
-    this.accountController = new SubstrateAccountController(network.extras.network, this.nodeClient)
-    this.transactionController = new SubstrateTransactionController(network.extras.network, this.nodeClient)
+    this.accountController = new SubstrateAccountController(network.extras.network, this.nodeClient, config.signatureType)
+    this.transactionController = new SubstrateTransactionController(network.extras.network, this.nodeClient, config.signatureType)
   }
 }
@@ -2,24 +2,36 @@ import { bip39ToMiniSecret, waitReady } from '@polkadot/wasm-crypto'
 
 import { KeyPair } from '../../../data/KeyPair'
 import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { blake2bAsBytes } from '../../../utils/blake2b'
+import { createEd25519KeyPair } from '../../../utils/ed25519'
+import { createSecp256k1KeyPair } from '../../../utils/secp256k1'
 import { createSr25519KeyPair } from '../../../utils/sr25519'
 import { DelegatorAction } from '../../ICoinDelegateProtocol'
 import { SubstrateNetwork } from '../SubstrateNetwork'
 
 import { SubstrateAccountId, SubstrateAddress } from './data/account/SubstrateAddress'
 import { SubstrateIdentityInfo } from './data/account/SubstrateRegistration'
+import { SubstrateMultisig } from './data/multisig/SubstrateMultisig'
 import { SCALEAccountId } from './data/scale/type/SCALEAccountId'
+import { SCALEArray } from './data/scale/type/SCALEArray'
+import { SCALECompactInt } from './data/scale/type/SCALECompactInt'
+import { SCALEInt } from './data/scale/type/SCALEInt'
+import { SCALETuple } from './data/scale/type/SCALETuple'
 import { SubstrateActiveEraInfo } from './data/staking/SubstrateActiveEraInfo'
 import { SubstrateElectionStatus } from './data/staking/SubstrateEraElectionStatus'
+import { SubstrateEraRewardPoints } from './data/staking/SubstrateEraRewardPoints'
 import { SubstrateExposure } from './data/staking/SubstrateExposure'
 import { SubstrateNominations } from './data/staking/SubstrateNominations'
 import { SubstrateNominationStatus } from './data/staking/SubstrateNominationStatus'
 import {
   SubstrateLockedDetails,
   SubstrateNominatorDetails,
+  SubstrateNominatorEraReward,
   SubstrateNominatorRewardDetails,
+  SubstratePendingPayout,
   SubstrateStakingDetails,
-  SubstrateStakingStatus
+  SubstrateStakingStatus,
+  SubstrateValidatorEraReward
 } from './data/staking/SubstrateNominatorDetails'
 import { SubstrateStakingActionType } from './data/staking/SubstrateStakingActionType'
 import { SubstrateStakingLedger } from './data/staking/SubstrateStakingLedger'
@@ -29,10 +41,19 @@ import {
   SubstrateValidatorStatus
 } from './data/staking/SubstrateValidatorDetails'
 import { SubstrateValidatorPrefs } from './data/staking/SubstrateValidatorPrefs'
+import { SubstrateSignatureType } from './data/transaction/SubstrateSignature'
 import { SubstrateNodeClient } from './node/SubstrateNodeClient'
 
+const MULTISIG_ACCOUNT_PREFIX: string = 'modlpy/utilisuba'
+const DEFAULT_HISTORY_DEPTH: number = 84 // eras
+const YEAR_DURATION: number = 365 * 24 * 60 * 60 * 1000 // in milliseconds
+
 export class SubstrateAccountController {
-  constructor(readonly network: SubstrateNetwork, readonly nodeClient: SubstrateNodeClient) {}
+  constructor(
+    readonly network: SubstrateNetwork,
+    readonly nodeClient: SubstrateNodeClient,
+    readonly signatureType: SubstrateSignatureType = SubstrateSignatureType.Sr25519
+  ) {}
 
   public async createKeyPairFromMnemonic(mnemonic: string, derivationPath: string, password?: string): Promise<KeyPair> {
     await waitReady()
@@ -42,13 +63,37 @@ export class SubstrateAccountController {
   }
 
   public async createKeyPairFromHexSecret(secret: string, derivationPath: string): Promise<KeyPair> {
-    return createSr25519KeyPair(secret, derivationPath)
+    switch (this.signatureType) {
+      case SubstrateSignatureType.Ed25519:
+        return createEd25519KeyPair(secret, derivationPath)
+      case SubstrateSignatureType.Ecdsa:
+        return createSecp256k1KeyPair(secret, derivationPath)
+      default:
+        return createSr25519KeyPair(secret, derivationPath)
+    }
   }
 
   public async createAddressFromPublicKey(publicKey: string): Promise<SubstrateAddress> {
     return SubstrateAddress.from(publicKey, this.network)
   }
 
+  // derived like the multisig pallet does it, the order of the signatories does not matter
+  public async createMultisigAddress(signatories: SubstrateAccountId[], threshold: number): Promise<SubstrateAddress> {
+    const accountIds: SCALEAccountId[] = signatories
+      .map((signatory: SubstrateAccountId) => SCALEAccountId.from(signatory, this.network))
+      .sort((first: SCALEAccountId, second: SCALEAccountId) => first.compare(second))
+    const encoded: Buffer = Buffer.concat([
+      Buffer.from(MULTISIG_ACCOUNT_PREFIX),
+      Buffer.from(SCALEArray.from(accountIds).encode() + SCALEInt.from(threshold, 16).encode(), 'hex')
+    ])
+
+    return SubstrateAddress.from(Buffer.from(blake2bAsBytes(encoded, 256)).toString('hex'), this.network)
+  }
+
+  public async getPendingMultisig(multisig: SubstrateAccountId, callHash: string): Promise<SubstrateMultisig | null> {
+    return this.nodeClient.getMultisig(SubstrateAddress.from(multisig, this.network), callHash)
+  }
+
   public async getBalance(accountId: SubstrateAccountId): Promise<BigNumber> {
     const accountInfo = await this.nodeClient.getAccountInfo(SubstrateAddress.from(accountId, this.network))
 
@@ -251,6 +296,104 @@ export class SubstrateAccountController {
     return slashingSpans ? slashingSpans.prior.elements.length + 1 : 0
   }
 
+  // the rewards of the nominator in each era, split by the validators it has nominated
+  // only the current and the given past targets are looked up, the chain does not keep track of earlier nominations
+  public async getNominatorRewardHistory(
+    accountId: SubstrateAccountId,
+    eras?: number[],
+    pastTargets: SubstrateAccountId[] = []
+  ): Promise<SubstrateNominatorEraReward[]> {
+    const address: SubstrateAddress = SubstrateAddress.from(accountId, this.network)
+
+    const results: [SubstrateActiveEraInfo | null, number | null, SubstrateNominations | null] = await Promise.all([
+      this.nodeClient.getActiveEraInfo(),
+      this.nodeClient.getHistoryDepth(),
+      this.nodeClient.getNominations(address)
+    ])
+
+    const activeEra: SubstrateActiveEraInfo | null = results[0]
+    const historyDepth: number = results[1] ?? DEFAULT_HISTORY_DEPTH
+    const nominations: SubstrateNominations | null = results[2]
+
+    if (!activeEra) {
+      return Promise.reject('Could not fetch all necessary data.')
+    }
+
+    const validators: SubstrateAddress[] = (nominations?.targets.elements.map((target: SCALEAccountId) => target.address) ?? [])
+      .concat(pastTargets.map((target: SubstrateAccountId) => SubstrateAddress.from(target, this.network)))
+      .filter(
+        (validator: SubstrateAddress, index: number, array: SubstrateAddress[]) =>
+          array.findIndex((other: SubstrateAddress) => other.compare(validator) === 0) === index
+      )
+    if (validators.length === 0) {
+      return []
+    }
+
+    const eraIndices: number[] = eras ?? getRewardEras(activeEra.index.toNumber(), historyDepth)
+    const claimedEras: Map<string, Set<number>> = await this.getClaimedEras(validators)
+
+    const rewards: (SubstrateNominatorEraReward | null)[] = await Promise.all(
+      eraIndices.map((era: number) => this.getEraNominatorRewards(address, validators, era, claimedEras))
+    )
+
+    return rewards.filter((reward: SubstrateNominatorEraReward | null): reward is SubstrateNominatorEraReward => reward !== null)
+  }
+
+  // the rewards which have not been paid out yet and can still be claimed
+  public async getPendingPayouts(accountId: SubstrateAccountId, pastTargets: SubstrateAccountId[] = []): Promise<SubstratePendingPayout[]> {
+    const history: SubstrateNominatorEraReward[] = await this.getNominatorRewardHistory(accountId, undefined, pastTargets)
+
+    return history
+      .map((eraReward: SubstrateNominatorEraReward) =>
+        eraReward.validators
+          .filter((validatorReward: SubstrateValidatorEraReward) => !validatorReward.claimed && new BigNumber(validatorReward.amount).gt(0))
+          .map((validatorReward: SubstrateValidatorEraReward) => ({
+            validator: validatorReward.validator,
+            eraIndex: eraReward.eraIndex,
+            amount: validatorReward.amount
+          }))
+      )
+      .reduce(
+        (
+          flatten: { validator: string; eraIndex: number; amount: string }[],
+          toFlatten: { validator: string; eraIndex: number; amount: string }[]
+        ) => flatten.concat(toFlatten),
+        []
+      )
+  }
+
+  // estimated from the rewards of the last eras in which the validator was active, assuming the rewards are restaked each era
+  public async getValidatorExpectedApy(accountId: SubstrateAccountId, eras: number = 5): Promise<BigNumber> {
+    const address: SubstrateAddress = SubstrateAddress.from(accountId, this.network)
+
+    const results: [SubstrateActiveEraInfo | null, BigNumber | null] = await Promise.all([
+      this.nodeClient.getActiveEraInfo(),
+      this.nodeClient.getExpectedEraDuration()
+    ])
+
+    const activeEra: SubstrateActiveEraInfo | null = results[0]
+    const expectedEraDuration: BigNumber | null = results[1]
+
+    if (!activeEra || !expectedEraDuration) {
+      return Promise.reject('Could not fetch all necessary data.')
+    }
+
+    const eraIndices: number[] = Array.from(Array(eras).keys()).map((index: number) => activeEra.index.toNumber() - 1 - index)
+    const eraReturns: (BigNumber | null)[] = await Promise.all(eraIndices.map((era: number) => this.getEraValidatorReturn(address, era)))
+    const activeEraReturns: BigNumber[] = eraReturns.filter((eraReturn: BigNumber | null): eraReturn is BigNumber => eraReturn !== null)
+
+    if (activeEraReturns.length === 0) {
+      return new BigNumber(0)
+    }
+
+    const averageReturn: BigNumber = activeEraReturns
+      .reduce((sum: BigNumber, next: BigNumber) => sum.plus(next), new BigNumber(0))
+      .dividedBy(activeEraReturns.length)
+    const erasPerYear: number = Math.floor(YEAR_DURATION / expectedEraDuration.toNumber())
+
+    return averageReturn.plus(1).exponentiatedBy(erasPerYear).minus(1)
+  }
+
   private async getStakingDetails(
     accountId: SubstrateAccountId,
     stakingLedger: SubstrateStakingLedger | null,
@@ -477,6 +620,133 @@ export class SubstrateAccountController {
     }
   }
 
+  // the eras listed in `Ledger.claimedRewards` of the validators, the ledger is stored under the controller
+  private async getClaimedEras(validators: SubstrateAddress[]): Promise<Map<string, Set<number>>> {
+    const claimedRewards: [string, Set<number>][] = await Promise.all(
+      validators.map(async (validator: SubstrateAddress) => {
+        const controller: SubstrateAddress | null = await this.nodeClient.getBonded(validator)
+        const ledger: SubstrateStakingLedger | null = controller ? await this.nodeClient.getStakingLedger(controller) : null
+
+        return [validator.getValue(), new Set(ledger?.claimedRewards.elements.map((era: SCALEInt) => era.toNumber()) ?? [])] as [
+          string,
+          Set<number>
+        ]
+      })
+    )
+
+    return new Map(claimedRewards)
+  }
+
+  private async getEraNominatorRewards(
+    nominator: SubstrateAddress,
+    validators: SubstrateAddress[],
+    eraIndex: number,
+    claimedEras: Map<string, Set<number>>
+  ): Promise<SubstrateNominatorEraReward | null> {
+    const results: [BigNumber | null, SubstrateEraRewardPoints | null] = await Promise.all([
+      this.nodeClient.getValidatorReward(eraIndex),
+      this.nodeClient.getRewardPoints(eraIndex)
+    ])
+
+    const reward: BigNumber | null = results[0]
+    const rewardPoints: SubstrateEraRewardPoints | null = results[1]
+
+    if (!reward || !rewardPoints) {
+      return null
+    }
+
+    // only the validators which have earned points in the era can have rewarded the nominator
+    const eraValidators: [SubstrateAddress, BigNumber][] = validators
+      .map((validator: SubstrateAddress): [SubstrateAddress, BigNumber | undefined] => [
+        validator,
+        rewardPoints.individual.elements.find(
+          (element: SCALETuple<SCALEAccountId, SCALEInt>) => element.first.address.compare(validator) === 0
+        )?.second?.value
+      ])
+      .filter(
+        (validatorPoints: [SubstrateAddress, BigNumber | undefined]): validatorPoints is [SubstrateAddress, BigNumber] =>
+          validatorPoints[1] !== undefined
+      )
+    const validatorsDetails: [BigNumber | null, SubstrateExposure | null][] = await Promise.all(
+      eraValidators.map(([validator]: [SubstrateAddress, BigNumber]) =>
+        Promise.all([
+          this.nodeClient
+            .getValidatorPrefs(eraIndex, validator)
+            .then((prefs: SubstrateValidatorPrefs | null) => prefs?.commission?.value ?? null),
+          this.nodeClient.getStakersClipped(eraIndex, validator)
+        ])
+      )
+    )
+
+    const validatorRewards: SubstrateValidatorEraReward[] = []
+    eraValidators.forEach(([validator, validatorPoints]: [SubstrateAddress, BigNumber], index: number) => {
+      const [commission, exposure]: [BigNumber | null, SubstrateExposure | null] = validatorsDetails[index]
+      const nominatorStake: BigNumber | undefined = exposure?.others.elements.find(
+        (element: SCALETuple<SCALEAccountId, SCALECompactInt>) => element.first.address.compare(nominator) === 0
+      )?.second?.value
+
+      if (commission === null || !exposure || !nominatorStake) {
+        return
+      }
+
+      const validatorReward: BigNumber = this.calculateValidatorReward(reward, rewardPoints.total.value, validatorPoints)
+      const nominatorReward: BigNumber = this.calculateNominatorReward(validatorReward, commission, exposure.total.value, nominatorStake)
+
+      validatorRewards.push({
+        validator: validator.getValue(),
+        amount: nominatorReward.toFixed(0, BigNumber.ROUND_FLOOR),
+        claimed: claimedEras.get(validator.getValue())?.has(eraIndex) ?? false
+      })
+    })
+
+    if (validatorRewards.length === 0) {
+      return null
+    }
+
+    return {
+      eraIndex,
+      amount: validatorRewards
+        .reduce((sum: BigNumber, next: SubstrateValidatorEraReward) => sum.plus(next.amount), new BigNumber(0))
+        .toFixed(),
+      validators: validatorRewards
+    }
+  }
+
+  // the reward of the stake nominated to the validator in the era, relative to the stake
+  private async getEraValidatorReturn(validator: SubstrateAddress, eraIndex: number): Promise<BigNumber | null> {
+    const results: [
+      BigNumber | null,
+      SubstrateEraRewardPoints | null,
+      SubstrateValidatorPrefs | null,
+      SubstrateExposure | null
+    ] = await Promise.all([
+      this.nodeClient.getValidatorReward(eraIndex),
+      this.nodeClient.getRewardPoints(eraIndex),
+      this.nodeClient.getValidatorPrefs(eraIndex, validator),
+      this.nodeClient.getStakersClipped(eraIndex, validator)
+    ])
+
+    const reward: BigNumber | null = results[0]
+    const rewardPoints: SubstrateEraRewardPoints | null = results[1]
+    const validatorPrefs: SubstrateValidatorPrefs | null = results[2]
+    const exposure: SubstrateExposure | null = results[3]
+
+    const validatorPoints: BigNumber | undefined = rewardPoints?.individual.elements.find(
+      (element: SCALETuple<SCALEAccountId, SCALEInt>) => element.first.address.compare(validator) === 0
+    )?.second?.value
+
+    if (!reward || !rewardPoints || !validatorPrefs || !exposure || !validatorPoints || exposure.total.value.isZero()) {
+      return null
+    }
+
+    const validatorReward: BigNumber = this.calculateValidatorReward(reward, rewardPoints.total.value, validatorPoints)
+
+    return new BigNumber(1)
+      .minus(validatorPrefs.commission.value.dividedBy(1_000_000_000))
+      .multipliedBy(validatorReward)
+      .dividedBy(exposure.total.value)
+  }
+
   private calculateValidatorReward(totalReward: BigNumber, totalPoints: BigNumber, validatorPoints: BigNumber): BigNumber {
     return validatorPoints.dividedBy(totalPoints).multipliedBy(totalReward)
   }
@@ -612,3 +882,10 @@ export class SubstrateAccountController {
     return partitioned
   }
 }
+
+// the eras whose rewards have not expired yet, the rewards of the active era are not available until it ends
+function getRewardEras(activeEraIndex: number, historyDepth: number): number[] {
+  const firstEra: number = Math.max(activeEraIndex - historyDepth, 0)
+
+  return Array.from(Array(activeEraIndex - firstEra).keys()).map((index: number) => firstEra + index)
+}
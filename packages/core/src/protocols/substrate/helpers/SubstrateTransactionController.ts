@@ -1,13 +1,15 @@
-import { sr25519Sign, waitReady } from '@polkadot/wasm-crypto'
+import { ed25519Sign, sr25519Sign, waitReady } from '@polkadot/wasm-crypto'
 
 import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import SECP256K1 = require('../../../dependencies/src/secp256k1-3.7.1/elliptic')
 import { BalanceError } from '../../../errors'
 import { Domain } from '../../../errors/coinlib-error'
 import { blake2bAsBytes } from '../../../utils/blake2b'
 import { SubstrateNetwork } from '../SubstrateNetwork'
 
 import { SubstrateAccountId, SubstrateAddress } from './data/account/SubstrateAddress'
-import { SCALEDecoder } from './data/scale/SCALEDecoder'
+import { SubstrateCall, SubstrateCallArgument } from './data/metadata/decorator/call/SubstrateCall'
+import { SCALEDecoder, SCALEDecodeResult } from './data/scale/SCALEDecoder'
 import { SCALEArray } from './data/scale/type/SCALEArray'
 import { SCALEBytes } from './data/scale/type/SCALEBytes'
 import { SCALECompactInt } from './data/scale/type/SCALECompactInt'
@@ -15,7 +17,10 @@ import { SCALEEnum } from './data/scale/type/SCALEEnum'
 import { SCALEInt } from './data/scale/type/SCALEInt'
 import { SCALEOptional } from './data/scale/type/SCALEOptional'
 import { SCALEString } from './data/scale/type/SCALEString'
-import { SubstrateTransactionMethod } from './data/transaction/method/SubstrateTransactionMethod'
+import { SCALETuple } from './data/scale/type/SCALETuple'
+import { SCALEEncodeConfig } from './data/scale/type/SCALEType'
+import { SubstrateRuntimeVersion } from './data/state/SubstrateRuntimeVersion'
+import { SubstrateNestedCallType, SubstrateTransactionMethod } from './data/transaction/method/SubstrateTransactionMethod'
 import { SubstrateSignature, SubstrateSignatureType } from './data/transaction/SubstrateSignature'
 import { SubstrateTransaction, SubstrateTransactionType } from './data/transaction/SubstrateTransaction'
 import { SubstrateTransactionPayload } from './data/transaction/SubstrateTransactionPayload'
@@ -26,6 +31,7 @@ export interface SubstrateTransactionDetails {
   fee: BigNumber
   transaction: SubstrateTransaction
   payload: string
+  call?: SubstrateCall
 }
 
 export interface SubstrateTransactionConfig {
@@ -34,8 +40,14 @@ export interface SubstrateTransactionConfig {
   args: any
 }
 
+type NestedCallTypeTuple = SCALETuple<SCALEEnum<SubstrateTransactionType>, SCALETuple<SCALEInt, SCALEInt>>
+
 export class SubstrateTransactionController {
-  constructor(readonly network: SubstrateNetwork, readonly nodeClient: SubstrateNodeClient) {}
+  constructor(
+    readonly network: SubstrateNetwork,
+    readonly nodeClient: SubstrateNodeClient,
+    readonly signatureType: SubstrateSignatureType = SubstrateSignatureType.Sr25519
+  ) {}
 
   public async prepareSubmittableTransactions(
     accountId: SubstrateAccountId,
@@ -70,10 +82,12 @@ export class SubstrateTransactionController {
     chainHeight: number | BigNumber = 1,
     nonce: number | BigNumber = 0
   ): Promise<SubstrateTransaction> {
-    const methodId = await this.nodeClient.getTransactionMetadata(type)
+    const methodId: SubstrateCall = await this.getCall(type, args)
 
     return SubstrateTransaction.create(this.network, type, {
       from: accountId,
+      // the placeholder only reserves space for the fee estimation, ECDSA signatures are a byte longer than the others
+      signature: this.signatureType === SubstrateSignatureType.Ecdsa ? SubstrateSignature.create(this.signatureType) : undefined,
       tip: BigNumber.isBigNumber(tip) ? tip : new BigNumber(tip),
       methodId,
       args,
@@ -83,7 +97,7 @@ export class SubstrateTransactionController {
   }
 
   public async createTransactionMethod(type: SubstrateTransactionType, args: any = {}): Promise<SubstrateTransactionMethod> {
-    const methodId = await this.nodeClient.getTransactionMetadata(type)
+    const methodId: SubstrateCall = await this.getCall(type, args)
 
     return SubstrateTransactionMethod.create(this.network, type, methodId.moduleIndex, methodId.callIndex, args)
   }
@@ -109,6 +123,15 @@ export class SubstrateTransactionController {
         scaleRuntimeVersion.encode() +
           scaleType.encode({ network: this.network, runtimeVersion: tx.runtimeVersion }) +
           scaleFee.encode({ network: this.network, runtimeVersion: tx.runtimeVersion }) +
+          (tx.transaction.type === SubstrateTransactionType.GENERIC_CALL && tx.call
+            ? encodeCall(tx.call, { network: this.network, runtimeVersion: tx.runtimeVersion })
+            : '') +
+          (hasNestedCalls(tx.transaction.type)
+            ? encodeNestedCallTypes(tx.transaction.method.getNestedCallTypes(), {
+                network: this.network,
+                runtimeVersion: tx.runtimeVersion
+              })
+            : '') +
           tx.transaction.encode({ network: this.network, runtimeVersion: tx.runtimeVersion }) +
           SCALEString.from(tx.payload).encode({ network: this.network, runtimeVersion: tx.runtimeVersion })
       )
@@ -134,8 +157,11 @@ export class SubstrateTransactionController {
 
       const type = txDecoder.decodeNextEnum((hex) => SubstrateTransactionType[SubstrateTransactionType[hex]])
       const fee = txDecoder.decodeNextCompactInt()
+      const call: SubstrateCall | undefined =
+        type.decoded.value === SubstrateTransactionType.GENERIC_CALL ? decodeNextCall(txDecoder) : undefined
+      const nestedCalls: SubstrateNestedCallType[] = hasNestedCalls(type.decoded.value) ? decodeNextNestedCallTypes(txDecoder) : []
       const transaction = txDecoder.decodeNextObject((network, runtimeVersion, hex) =>
-        SubstrateTransaction.decode(network, runtimeVersion, type.decoded.value, hex)
+        SubstrateTransaction.decode(network, runtimeVersion, type.decoded.value, hex, call, nestedCalls)
       )
       const payload = txDecoder.decodeNextString()
 
@@ -143,7 +169,8 @@ export class SubstrateTransactionController {
         runtimeVersion,
         fee: fee.decoded.value,
         transaction: transaction.decoded,
-        payload: payload.decoded.value
+        payload: payload.decoded.value,
+        call
       }
     })
   }
@@ -153,13 +180,21 @@ export class SubstrateTransactionController {
     const encoded = transaction.encode({ network: this.network, runtimeVersion: runtimeVersion?.specVersion })
     const partialEstimate = await this.nodeClient.getTransferFeeEstimate(encoded)
 
-    if (partialEstimate) {
+    // the fees of generic calls depend on the call, they cannot be reused to estimate other transactions
+    if (partialEstimate && transaction.type !== SubstrateTransactionType.GENERIC_CALL) {
       this.nodeClient.saveLastFee(transaction.type, partialEstimate)
     }
 
     return partialEstimate?.plus(transaction.tip.value) || null
   }
 
+  public async calculateTransactionWeight(transaction: SubstrateTransaction): Promise<BigNumber | null> {
+    const runtimeVersion: SubstrateRuntimeVersion | null = await this.nodeClient.getRuntimeVersion()
+    const encoded: string = transaction.encode({ network: this.network, runtimeVersion: runtimeVersion?.specVersion })
+
+    return this.nodeClient.getTransactionWeight(encoded)
+  }
+
   public async estimateTransactionFees(
     accountId: SubstrateAccountId,
     transationTypes: [SubstrateTransactionType, any][]
@@ -225,31 +260,155 @@ export class SubstrateTransactionController {
       runtimeVersion: runtimeVersion.specVersion,
       fee,
       transaction,
-      payload: payload.encode({ network: this.network, runtimeVersion: runtimeVersion.specVersion })
+      payload: payload.encode({ network: this.network, runtimeVersion: runtimeVersion.specVersion }),
+      call: type === SubstrateTransactionType.GENERIC_CALL ? args.call : undefined
     }
   }
 
+  private async getCall(type: SubstrateTransactionType, args: any): Promise<SubstrateCall> {
+    return type === SubstrateTransactionType.GENERIC_CALL ? args.call : this.nodeClient.getTransactionMetadata(type)
+  }
+
   private async signPayload(
     privateKey: Buffer,
     publicKey: Buffer,
     payload: string,
-    signatureType: SubstrateSignatureType = SubstrateSignatureType.Sr25519
+    signatureType: SubstrateSignatureType = this.signatureType
   ): Promise<SubstrateSignature> {
+    const payloadBuffer: Buffer = Buffer.from(payload, 'hex')
+    const message: Uint8Array | Buffer = payloadBuffer.length > 256 ? blake2bAsBytes(payloadBuffer, 256) : payloadBuffer
+
     switch (signatureType) {
       case SubstrateSignatureType.Sr25519:
-        return this.signSr25519Payload(privateKey, publicKey, payload)
+        return signSr25519Payload(privateKey, publicKey, message)
+      case SubstrateSignatureType.Ed25519:
+        return signEd25519Payload(privateKey, publicKey, message)
+      case SubstrateSignatureType.Ecdsa:
+        return signEcdsaPayload(privateKey, message)
       default:
         return Promise.reject('Signature type not supported.')
     }
   }
+}
 
-  private async signSr25519Payload(privateKey: Buffer, publicKey: Buffer, payload: string): Promise<SubstrateSignature> {
-    await waitReady()
-
-    const payloadBuffer = Buffer.from(payload, 'hex')
-    const message = payloadBuffer.length > 256 ? blake2bAsBytes(payloadBuffer, 256) : payloadBuffer
+// generic calls are serialized with their description, so they can be decoded without the runtime metadata
+function encodeCall(call: SubstrateCall, config: SCALEEncodeConfig): string {
+  const args: SCALEArray<SCALETuple<SCALEString, SCALEString>> = SCALEArray.from(
+    call.args.map((arg: SubstrateCallArgument) => SCALETuple.from(SCALEString.from(arg.name), SCALEString.from(arg.type)))
+  )
+
+  return (
+    SCALEInt.from(call.moduleIndex, 8).encode(config) +
+    SCALEInt.from(call.callIndex, 8).encode(config) +
+    SCALEString.from(call.moduleName).encode(config) +
+    SCALEString.from(call.name).encode(config) +
+    args.encode(config)
+  )
+}
 
-    const signature = sr25519Sign(publicKey, privateKey, message)
-    return SubstrateSignature.create(SubstrateSignatureType.Sr25519, signature)
+function decodeNextCall(decoder: SCALEDecoder): SubstrateCall {
+  const moduleIndex: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(8)
+  const callIndex: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(8)
+  const moduleName: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+  const name: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+  const args: SCALEDecodeResult<SCALEArray<
+    SCALETuple<SCALEString, SCALEString>
+  >> = decoder.decodeNextArray((network: SubstrateNetwork, runtimeVersion: number | undefined, hex: string) =>
+    SCALETuple.decode(network, runtimeVersion, hex, decodeString, decodeString)
+  )
+
+  return {
+    moduleName: moduleName.decoded.value,
+    name: name.decoded.value,
+    moduleIndex: moduleIndex.decoded.toNumber(),
+    callIndex: callIndex.decoded.toNumber(),
+    args: args.decoded.elements.map((arg: SCALETuple<SCALEString, SCALEString>) => ({ name: arg.first.value, type: arg.second.value }))
   }
 }
+
+function hasNestedCalls(type: SubstrateTransactionType): boolean {
+  return (
+    type === SubstrateTransactionType.SUBMIT_BATCH ||
+    type === SubstrateTransactionType.SUBMIT_BATCH_ALL ||
+    type === SubstrateTransactionType.PROXY ||
+    type === SubstrateTransactionType.AS_MULTI
+  )
+}
+
+// the types of nested calls are serialized as well, the calls only identify themselves by their indices
+function encodeNestedCallTypes(nestedCalls: SubstrateNestedCallType[], config: SCALEEncodeConfig): string {
+  const unique: SubstrateNestedCallType[] = nestedCalls.filter(
+    (nestedCall: SubstrateNestedCallType, index: number) =>
+      nestedCalls.findIndex(
+        (other: SubstrateNestedCallType) => other.moduleIndex === nestedCall.moduleIndex && other.callIndex === nestedCall.callIndex
+      ) === index
+  )
+
+  return SCALEArray.from(
+    unique.map((nestedCall: SubstrateNestedCallType) =>
+      SCALETuple.from(
+        SCALEEnum.from(nestedCall.type),
+        SCALETuple.from(SCALEInt.from(nestedCall.moduleIndex, 8), SCALEInt.from(nestedCall.callIndex, 8))
+      )
+    )
+  ).encode(config)
+}
+
+function decodeNextNestedCallTypes(decoder: SCALEDecoder): SubstrateNestedCallType[] {
+  const nestedCalls: SCALEDecodeResult<SCALEArray<NestedCallTypeTuple>> = decoder.decodeNextArray(decodeNestedCallType)
+
+  return nestedCalls.decoded.elements.map((nestedCall: NestedCallTypeTuple) => ({
+    type: nestedCall.first.value,
+    moduleIndex: nestedCall.second.first.toNumber(),
+    callIndex: nestedCall.second.second.toNumber()
+  }))
+}
+
+function decodeNestedCallType(
+  network: SubstrateNetwork,
+  runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<NestedCallTypeTuple> {
+  return SCALETuple.decode(
+    network,
+    runtimeVersion,
+    hex,
+    (_network: SubstrateNetwork, _runtimeVersion: number | undefined, type: string) =>
+      SCALEEnum.decode(type, (value: number) => SubstrateTransactionType[SubstrateTransactionType[value]]),
+    (innerNetwork: SubstrateNetwork, innerRuntimeVersion: number | undefined, indices: string) =>
+      SCALETuple.decode(
+        innerNetwork,
+        innerRuntimeVersion,
+        indices,
+        (_network: SubstrateNetwork, _runtimeVersion: number | undefined, moduleIndex: string) => SCALEInt.decode(moduleIndex, 8),
+        (_network: SubstrateNetwork, _runtimeVersion: number | undefined, callIndex: string) => SCALEInt.decode(callIndex, 8)
+      )
+  )
+}
+
+function decodeString(_network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEString> {
+  return SCALEString.decode(hex)
+}
+
+async function signSr25519Payload(privateKey: Buffer, publicKey: Buffer, message: Uint8Array): Promise<SubstrateSignature> {
+  await waitReady()
+
+  const signature: Uint8Array = sr25519Sign(publicKey, privateKey, message)
+
+  return SubstrateSignature.create(SubstrateSignatureType.Sr25519, signature)
+}
+
+async function signEd25519Payload(privateKey: Buffer, publicKey: Buffer, message: Uint8Array): Promise<SubstrateSignature> {
+  await waitReady()
+
+  const signature: Uint8Array = ed25519Sign(publicKey, privateKey.slice(0, 32), message)
+
+  return SubstrateSignature.create(SubstrateSignatureType.Ed25519, signature)
+}
+
+async function signEcdsaPayload(privateKey: Buffer, message: Uint8Array): Promise<SubstrateSignature> {
+  // the message is hashed before it's signed, the recovery ID is appended to the signature
+  const signed: { signature: Buffer; recovery: number } = SECP256K1.sign(Buffer.from(blake2bAsBytes(message, 256)), privateKey)
+
+  return SubstrateSignature.create(SubstrateSignatureType.Ecdsa, Buffer.concat([signed.signature, Buffer.from([signed.recovery])]))
+}
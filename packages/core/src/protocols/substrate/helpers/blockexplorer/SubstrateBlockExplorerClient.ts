@@ -13,6 +13,11 @@ export class SubstrateBlockExplorerClient {
     protocolDecimals: number,
     cursor?: SubstrateTransactionCursor
   ): Promise<IAirGapTransaction[]> {
+    // chains without an indexer, e.g. local development nodes
+    if (!this.apiUrl) {
+      return []
+    }
+
     const body = cursor ? { row: limit, page: cursor.page, address: address } : { row: limit, page: 0, address: address }
     const responses = await Promise.all([
       axios.post(`${this.apiUrl}/transfers`, body),
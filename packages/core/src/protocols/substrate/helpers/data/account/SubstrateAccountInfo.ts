@@ -49,8 +49,8 @@ export class SubstrateAccountInfo {
     }
 
     if (
-      (network === SubstrateNetwork.KUSAMA && runtimeVersion >= 2030) ||
-      (network === SubstrateNetwork.POLKADOT && runtimeVersion >= 30)
+      !(network === SubstrateNetwork.KUSAMA && runtimeVersion < 2030) &&
+      !(network === SubstrateNetwork.POLKADOT && runtimeVersion < 30)
     ) {
       return {
         consumers: 32,
@@ -1,8 +1,10 @@
 import bs58 = require('../../../../../dependencies/src/bs58-4.0.1')
+import { InvalidValueError } from '../../../../../errors'
+import { Domain } from '../../../../../errors/coinlib-error'
 import { blake2bAsBytes } from '../../../../../utils/blake2b'
 import { hexToBytes, isHex } from '../../../../../utils/hex'
-import { SubstrateNetwork } from '../../../SubstrateNetwork'
 import { CoinAddress } from '../../../../ICoinProtocol'
+import { SubstrateNetwork } from '../../../SubstrateNetwork'
 
 // If changed, the test address in `test/protocols/specs/kusama.ts` must be changed accordingly
 const SS58Format: Map<SubstrateNetwork, number> = new Map([
@@ -10,6 +12,8 @@ const SS58Format: Map<SubstrateNetwork, number> = new Map([
   [SubstrateNetwork.KUSAMA, 2]
 ])
 const SS58_PREFIX = 'SS58PRE'
+const MAX_SS58_FORMAT: number = 16383 // 14 bits
+const ECDSA_PUBLIC_KEY_LENGTH: number = 33 // compressed
 
 export type SubstrateAccountId = string | SubstrateAddress
 
@@ -34,6 +38,14 @@ export class SubstrateAddress implements CoinAddress {
     return SubstrateAddress.placeholder
   }
 
+  public static addSS58Format(network: SubstrateNetwork, format: number): void {
+    if (!Number.isInteger(format) || format < 0 || format > MAX_SS58_FORMAT) {
+      throw new InvalidValueError(Domain.SUBSTRATE, `Invalid SS58 format ${format}.`)
+    }
+
+    SS58Format.set(network, format)
+  }
+
   public static from(accountId: SubstrateAccountId, network: SubstrateNetwork): SubstrateAddress {
     if (typeof accountId === 'string' && isHex(accountId)) {
       return this.fromPublicKey(accountId, network)
@@ -46,8 +58,11 @@ export class SubstrateAddress implements CoinAddress {
 
   public static fromPublicKey(payload: Buffer | Uint8Array | string, network: SubstrateNetwork): SubstrateAddress {
     const ss58Format = SS58Format.get(network)
+    const bytes: Buffer = hexToBytes(payload)
+    // the account ID of an ECDSA key is the hash of the compressed public key
+    const accountId: Buffer = bytes.length === ECDSA_PUBLIC_KEY_LENGTH ? Buffer.from(blake2bAsBytes(bytes, 256)) : bytes
 
-    return this.fromPayload(hexToBytes(payload), ss58Format !== undefined ? ss58Format : 42)
+    return this.fromPayload(accountId, ss58Format !== undefined ? ss58Format : 42)
   }
 
   public static fromEncoded(encoded: string): SubstrateAddress {
@@ -56,17 +71,22 @@ export class SubstrateAddress implements CoinAddress {
 
   private static fromBytes(bytes: Buffer | Uint8Array): SubstrateAddress {
     const buffer = Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes)
-    const checksumBytes = buffer.length === 35 ? 2 : 1
+    // tslint:disable-next-line:no-bitwise
+    const versionBytes: number = (buffer[0] & 0x40) !== 0 ? 2 : 1
+    const checksumBytes: number = buffer.length - versionBytes === 34 ? 2 : 1
 
-    const version = buffer.slice(0, 1)
-    const payload = buffer.slice(1, -checksumBytes)
+    const version: Buffer = buffer.slice(0, versionBytes)
+    const payload: Buffer = buffer.slice(versionBytes, -checksumBytes)
     const checksum = buffer.slice(-checksumBytes)
 
     return new SubstrateAddress(version, payload, checksum)
   }
 
   private static fromPayload(payload: Buffer, format: number) {
-    const version = Buffer.from([format])
+    // formats from 64 on are encoded in two bytes, marked by the second highest bit of the first byte
+    const version: Buffer =
+      // tslint:disable-next-line:no-bitwise
+      format < 64 ? Buffer.from([format]) : Buffer.from([((format & 0xfc) >> 2) | 0x40, (format >> 8) | ((format & 0x03) << 6)])
     const checksum = this.generateChecksum(Buffer.concat([version, payload]))
     const checksumBytes = payload.length === 32 ? 2 : 1
 
@@ -7,6 +7,8 @@ import { MetadataDecorator } from './decorator/MetadataDecorator'
 import { MetadataVersioned } from './MetadataVersioned'
 import { MetadataV11 } from './v11/MetadataV11'
 import { MetadataV12 } from './v12/MetadataV12'
+import { MetadataV13 } from './v13/MetadataV13'
+import { MetadataV14 } from './v14/MetadataV14'
 
 const MAGIC_NUMBER = '6174656d' // `meta` in hex
 
@@ -21,6 +23,12 @@ export class Metadata {
 
     let versioned: MetadataVersioned
     switch (version.decoded.toNumber()) {
+      case 14:
+        versioned = MetadataV14.decode(network, runtimeVersion, raw)
+        break
+      case 13:
+        versioned = MetadataV13.decode(network, runtimeVersion, raw)
+        break
       case 12:
         versioned = MetadataV12.decode(network, runtimeVersion, raw)
         break
@@ -28,7 +36,10 @@ export class Metadata {
         versioned = MetadataV11.decode(network, runtimeVersion, raw)
         break
       default:
-        throw new UnsupportedError(Domain.SUBSTRATE, `Error while parsing metadata, metadata version ${version} is not supported`)
+        throw new UnsupportedError(
+          Domain.SUBSTRATE,
+          `Error while parsing metadata, metadata version ${version.decoded.toNumber()} is not supported`
+        )
     }
 
     return new Metadata(versioned)
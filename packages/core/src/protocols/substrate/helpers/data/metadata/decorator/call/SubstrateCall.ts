@@ -1,6 +1,12 @@
+export interface SubstrateCallArgument {
+  name: string
+  type: string
+}
+
 export interface SubstrateCall {
   moduleName: string
   name: string
   moduleIndex: number
   callIndex: number
+  args: SubstrateCallArgument[]
 }
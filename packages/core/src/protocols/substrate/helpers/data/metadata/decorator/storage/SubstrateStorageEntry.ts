@@ -109,3 +109,29 @@ export class SubstrateDoubleMapStorageEntry extends SubstrateStorageEntry {
       : ''
   }
 }
+
+export class SubstrateNMapStorageEntry extends SubstrateStorageEntry {
+  public constructor(
+    module: string, 
+    prefix: string,
+    public readonly hashers: SubstrateStorageEntryHasher[]
+  ) {
+    super(module, prefix)
+  }
+
+  protected async argsToKeys(args: SCALEType[]): Promise<string> {
+    return args.map((arg: SCALEType) => bytesToHex(arg.encode())).join('')
+  }
+
+  protected async hashArgs(args: SCALEType[]): Promise<string> {
+    const hashes: string[] = await Promise.all(
+      this.hashers.map((hasher: SubstrateStorageEntryHasher, index: number) => {
+        const hasherMethod: ((value: string | Uint8Array) => Promise<string>) | undefined = hasherMethods.get(hasher)
+
+        return hasherMethod && args[index] ? hasherMethod(args[index].encode()) : ''
+      })
+    )
+
+    return hashes.join('')
+  }
+}
@@ -1,5 +1,5 @@
 import { SubstrateNetwork } from '../../../../SubstrateNetwork'
-import { supportedCalls, supportedConstants, supportedStorageEntries } from '../../../node/supported'
+import { supportedConstants, supportedStorageEntries } from '../../../node/supported'
 import { SCALEDecoder } from '../../scale/SCALEDecoder'
 import { SCALEArray } from '../../scale/type/SCALEArray'
 import { SCALEInt } from '../../scale/type/SCALEInt'
@@ -10,7 +10,7 @@ import { MetadataDecorator } from '../decorator/MetadataDecorator'
 import { SubstrateStorageEntry } from '../decorator/storage/SubstrateStorageEntry'
 import { MetadataVersioned } from '../MetadataVersioned'
 
-import { MetadataV11Call } from './module/MetadataV11Call'
+import { MetadataV11Call, MetadataV11CallArgument } from './module/MetadataV11Call'
 import { MetadataV11Constant } from './module/MetadataV11Constants'
 import { MetadataV11Module } from './module/MetadataV11Module'
 import { MetadataV11Storage } from './module/storage/MetadataV11Storage'
@@ -54,10 +54,9 @@ export class MetadataV11 extends MetadataVersioned {
         }
       }
 
-      if (Object.keys(supportedCalls).includes(moduleName)) {
-        const decoratedCalls: SubstrateCall[] = this.createDecoratedCalls(moduleName, callModuleIndex, module.calls.value?.elements || [])
-        calls.push(decoratedCalls)
-      }
+      // all calls are decorated, so they can be built from their argument types
+      const decoratedCalls: SubstrateCall[] = this.createDecoratedCalls(moduleName, callModuleIndex, module.calls.value?.elements || [])
+      calls.push(decoratedCalls)
 
       if (Object.keys(supportedConstants).includes(moduleName)) {
         const decoratedConstants: SubstrateConstant[] = this.createDecoratedConstants(moduleName, module.constants.elements)
@@ -92,7 +91,8 @@ export class MetadataV11 extends MetadataVersioned {
         moduleName,
         name: call.name.value,
         moduleIndex,
-        callIndex: index
+        callIndex: index,
+        args: call.args.elements.map((arg: MetadataV11CallArgument) => ({ name: arg.name.value, type: arg.type.value }))
       }
     })
   }
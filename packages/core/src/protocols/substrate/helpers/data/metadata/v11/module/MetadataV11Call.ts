@@ -5,7 +5,7 @@ import { SCALEArray } from '../../../scale/type/SCALEArray'
 import { SCALEClass } from '../../../scale/type/SCALEClass'
 import { SCALEString } from '../../../scale/type/SCALEString'
 
-class MetadataV11CallArgument extends SCALEClass {
+export class MetadataV11CallArgument extends SCALEClass {
   public static decode(
     network: SubstrateNetwork, 
     runtimeVersion: number | undefined, 
@@ -26,7 +26,7 @@ export class MetadataV11Storage extends SCALEClass {
 
   protected scaleFields = [this.prefix]
 
-  private constructor(readonly prefix: SCALEString, readonly storageEntries: SCALEArray<MetadataV11StorageEntry>) {
+  protected constructor(readonly prefix: SCALEString, readonly storageEntries: SCALEArray<MetadataV11StorageEntry>) {
     super()
   }
 }
@@ -8,7 +8,7 @@ import { SCALEString } from '../../../../scale/type/SCALEString'
 
 import { MetadataV11StorageEntryType } from './MetadataV11StorageEntryType'
 
-enum StorageEntryModifier {
+export enum StorageEntryModifier {
   Optional = 0,
   Default
 }
@@ -31,7 +31,7 @@ export class MetadataV11StorageEntry extends SCALEClass {
 
   protected scaleFields = [this.name, this.modifier, this.type, this.defaultValue]
 
-  private constructor(
+  protected constructor(
     readonly name: SCALEString,
     readonly modifier: SCALEEnum<StorageEntryModifier>,
     readonly type: MetadataV11StorageEntryType,
@@ -16,10 +16,11 @@ import {
   SubstrateStorageEntryHasher
 } from '../../../decorator/storage/SubstrateStorageEntry'
 
-enum StorageEntryType {
+export enum StorageEntryType {
   Plain = 0,
   Map,
-  DoubleMap
+  DoubleMap,
+  NMap // since V13
 }
 
 export abstract class MetadataV11StorageEntryType extends SCALEClass {
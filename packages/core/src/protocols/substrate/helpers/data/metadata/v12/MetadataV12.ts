@@ -1,5 +1,5 @@
 import { SubstrateNetwork } from '../../../../SubstrateNetwork'
-import { supportedCalls, supportedConstants, supportedStorageEntries } from '../../../node/supported'
+import { supportedConstants, supportedStorageEntries } from '../../../node/supported'
 import { SCALEDecoder } from '../../scale/SCALEDecoder'
 import { SCALEArray } from '../../scale/type/SCALEArray'
 import { SCALEInt } from '../../scale/type/SCALEInt'
@@ -8,7 +8,7 @@ import { SubstrateConstant } from '../decorator/constant/SubstrateConstant'
 import { MetadataDecorator } from '../decorator/MetadataDecorator'
 import { SubstrateStorageEntry } from '../decorator/storage/SubstrateStorageEntry'
 import { MetadataVersioned } from '../MetadataVersioned'
-import { MetadataV11Call } from '../v11/module/MetadataV11Call'
+import { MetadataV11Call, MetadataV11CallArgument } from '../v11/module/MetadataV11Call'
 import { MetadataV11Constant } from '../v11/module/MetadataV11Constants'
 import { MetadataV11Storage } from '../v11/module/storage/MetadataV11Storage'
 import { MetadataV11StorageEntry } from '../v11/module/storage/MetadataV11StorageEntry'
@@ -41,7 +41,6 @@ export class MetadataV12 extends MetadataVersioned {
     const calls: SubstrateCall[][] = []
     const constants: SubstrateConstant[][] = []
 
-    let callModuleIndex: number = 0
     for (const module of this.modules.elements) {
       const moduleName: string = module.name.value
 
@@ -53,19 +52,19 @@ export class MetadataV12 extends MetadataVersioned {
         }
       }
 
-      if (Object.keys(supportedCalls).includes(moduleName)) {
-        const decoratedCalls: SubstrateCall[] = this.createDecoratedCalls(moduleName, callModuleIndex, module.calls.value?.elements || [])
-        calls.push(decoratedCalls)
-      }
+      // all calls are decorated, so they can be built from their argument types
+      // V12 modules carry the index that is used to encode their calls
+      const decoratedCalls: SubstrateCall[] = this.createDecoratedCalls(
+        moduleName,
+        module.index.toNumber(),
+        module.calls.value?.elements || []
+      )
+      calls.push(decoratedCalls)
 
       if (Object.keys(supportedConstants).includes(moduleName)) {
         const decoratedConstants: SubstrateConstant[] = this.createDecoratedConstants(moduleName, module.constants.elements)
         constants.push(decoratedConstants)
       }
-
-      if (module.calls.value !== undefined) {
-        callModuleIndex += 1
-      }
     }
 
     return new MetadataDecorator(
@@ -91,7 +90,8 @@ export class MetadataV12 extends MetadataVersioned {
         moduleName,
         name: call.name.value,
         moduleIndex,
-        callIndex: index
+        callIndex: index,
+        args: call.args.elements.map((arg: MetadataV11CallArgument) => ({ name: arg.name.value, type: arg.type.value }))
       }
     })
   }
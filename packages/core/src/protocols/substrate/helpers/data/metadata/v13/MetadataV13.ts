@@ -0,0 +1,20 @@
+import { SubstrateNetwork } from '../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../scale/SCALEDecoder'
+import { SCALEArray } from '../../scale/type/SCALEArray'
+import { SCALEInt } from '../../scale/type/SCALEInt'
+import { MetadataV12 } from '../v12/MetadataV12'
+
+import { MetadataV13Module } from './module/MetadataV13Module'
+
+// V13 is decorated the same way as V12, the N-map storage entries decorate themselves
+export class MetadataV13 extends MetadataV12 {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): MetadataV13 {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const magicNumber: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(32) // 32 bits
+    const version: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(8) // 8 bits
+    const modules: SCALEDecodeResult<SCALEArray<MetadataV13Module>> = decoder.decodeNextArray(MetadataV13Module.decode)
+
+    return new MetadataV13(magicNumber.decoded, version.decoded, modules.decoded)
+  }
+}
@@ -0,0 +1,64 @@
+import { SubstrateNetwork } from '../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../scale/type/SCALEArray'
+import { SCALEInt } from '../../../scale/type/SCALEInt'
+import { SCALEOptional } from '../../../scale/type/SCALEOptional'
+import { SCALEString } from '../../../scale/type/SCALEString'
+import { MetadataV11Call } from '../../v11/module/MetadataV11Call'
+import { MetadataV11Constant } from '../../v11/module/MetadataV11Constants'
+import { MetadataV11Error } from '../../v11/module/MetadataV11Error'
+import { MetadataV11Event } from '../../v11/module/MetadataV11Event'
+import { MetadataV12Module } from '../../v12/module/MetadataV12Module'
+
+import { MetadataV13Storage } from './storage/MetadataV13Storage'
+
+function decodeCalls(
+  network: SubstrateNetwork,
+  runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<SCALEArray<MetadataV11Call>> {
+  return SCALEArray.decode(network, runtimeVersion, hex, MetadataV11Call.decode)
+}
+
+function decodeEvents(
+  network: SubstrateNetwork,
+  runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<SCALEArray<MetadataV11Event>> {
+  return SCALEArray.decode(network, runtimeVersion, hex, MetadataV11Event.decode)
+}
+
+// V13 modules only differ from V12 modules in their storage, which may also contain N-maps
+export class MetadataV13Module extends MetadataV12Module {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): SCALEDecodeResult<MetadataV13Module> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const name: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const storage: SCALEDecodeResult<SCALEOptional<MetadataV13Storage>> = decoder.decodeNextOptional(MetadataV13Storage.decode)
+    const calls: SCALEDecodeResult<SCALEOptional<SCALEArray<MetadataV11Call>>> = decoder.decodeNextOptional(decodeCalls)
+    const events: SCALEDecodeResult<SCALEOptional<SCALEArray<MetadataV11Event>>> = decoder.decodeNextOptional(decodeEvents)
+    const constants: SCALEDecodeResult<SCALEArray<MetadataV11Constant>> = decoder.decodeNextArray(MetadataV11Constant.decode)
+    const errors: SCALEDecodeResult<SCALEArray<MetadataV11Error>> = decoder.decodeNextArray(MetadataV11Error.decode)
+    const index: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(8)
+
+    return {
+      bytesDecoded:
+        name.bytesDecoded +
+        storage.bytesDecoded +
+        calls.bytesDecoded +
+        events.bytesDecoded +
+        constants.bytesDecoded +
+        errors.bytesDecoded +
+        index.bytesDecoded,
+      decoded: new MetadataV13Module(
+        name.decoded,
+        storage.decoded,
+        calls.decoded,
+        events.decoded,
+        constants.decoded,
+        errors.decoded,
+        index.decoded
+      )
+    }
+  }
+}
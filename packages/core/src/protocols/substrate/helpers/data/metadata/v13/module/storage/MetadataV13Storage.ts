@@ -0,0 +1,22 @@
+import { stripHexPrefix } from '../../../../../../../../utils/hex'
+import { SubstrateNetwork } from '../../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../../scale/type/SCALEArray'
+import { SCALEString } from '../../../../scale/type/SCALEString'
+import { MetadataV11Storage } from '../../../v11/module/storage/MetadataV11Storage'
+
+import { MetadataV13StorageEntry } from './MetadataV13StorageEntry'
+
+export class MetadataV13Storage extends MetadataV11Storage {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): SCALEDecodeResult<MetadataV13Storage> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, stripHexPrefix(raw))
+
+    const prefix: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const storageEntries: SCALEDecodeResult<SCALEArray<MetadataV13StorageEntry>> = decoder.decodeNextArray(MetadataV13StorageEntry.decode)
+
+    return {
+      bytesDecoded: prefix.bytesDecoded + storageEntries.bytesDecoded,
+      decoded: new MetadataV13Storage(prefix.decoded, storageEntries.decoded)
+    }
+  }
+}
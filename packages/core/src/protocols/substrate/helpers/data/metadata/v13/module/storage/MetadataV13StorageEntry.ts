@@ -0,0 +1,37 @@
+import { SubstrateNetwork } from '../../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../../scale/type/SCALEArray'
+import { SCALEBytes } from '../../../../scale/type/SCALEBytes'
+import { SCALEEnum } from '../../../../scale/type/SCALEEnum'
+import { SCALEString } from '../../../../scale/type/SCALEString'
+import { MetadataV11StorageEntry, StorageEntryModifier } from '../../../v11/module/storage/MetadataV11StorageEntry'
+import { MetadataV11StorageEntryType } from '../../../v11/module/storage/MetadataV11StorageEntryType'
+
+import { MetadataV13StorageEntryType } from './MetadataV13StorageEntryType'
+
+function decodeString(_network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEString> {
+  return SCALEString.decode(hex)
+}
+
+export class MetadataV13StorageEntry extends MetadataV11StorageEntry {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV13StorageEntry> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const name: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const modifier: SCALEDecodeResult<SCALEEnum<StorageEntryModifier>> = decoder.decodeNextEnum(
+      (value: number) => StorageEntryModifier[StorageEntryModifier[value]]
+    )
+    const type: SCALEDecodeResult<MetadataV11StorageEntryType> = decoder.decodeNextObject(MetadataV13StorageEntryType.decode)
+    const defaultValue: SCALEDecodeResult<SCALEBytes> = decoder.decodeNextBytes()
+    const docs: SCALEDecodeResult<SCALEArray<SCALEString>> = decoder.decodeNextArray(decodeString)
+
+    return {
+      bytesDecoded: name.bytesDecoded + modifier.bytesDecoded + type.bytesDecoded + defaultValue.bytesDecoded + docs.bytesDecoded,
+      decoded: new MetadataV13StorageEntry(name.decoded, modifier.decoded, type.decoded, defaultValue.decoded, docs.decoded)
+    }
+  }
+}
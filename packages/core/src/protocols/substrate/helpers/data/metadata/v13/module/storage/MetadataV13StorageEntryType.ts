@@ -0,0 +1,87 @@
+// tslint:disable: max-classes-per-file
+import { SubstrateNetwork } from '../../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../../scale/type/SCALEArray'
+import { SCALEEnum } from '../../../../scale/type/SCALEEnum'
+import { SCALEString } from '../../../../scale/type/SCALEString'
+import { SCALEType } from '../../../../scale/type/SCALEType'
+import {
+  SubstrateNMapStorageEntry,
+  SubstrateStorageEntry,
+  SubstrateStorageEntryHasher
+} from '../../../decorator/storage/SubstrateStorageEntry'
+import { MetadataV11StorageEntryType, StorageEntryType } from '../../../v11/module/storage/MetadataV11StorageEntryType'
+
+function decodeString(_network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEString> {
+  return SCALEString.decode(hex)
+}
+
+function decodeHasher(
+  _network: SubstrateNetwork,
+  _runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<SCALEEnum<SubstrateStorageEntryHasher>> {
+  return SCALEEnum.decode(hex, (value: number) => SubstrateStorageEntryHasher[SubstrateStorageEntryHasher[value]])
+}
+
+export abstract class MetadataV13StorageEntryType extends MetadataV11StorageEntryType {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV11StorageEntryType> {
+    const prefix: number = parseInt(raw.substr(0, 2), 16)
+    if (prefix !== StorageEntryType.NMap) {
+      return MetadataV11StorageEntryType.decode(network, runtimeVersion, raw)
+    }
+
+    const decoded: SCALEDecodeResult<MetadataV13StorageEntryNMap> = MetadataV13StorageEntryNMap.decode(
+      network,
+      runtimeVersion,
+      raw.slice(2)
+    )
+
+    return {
+      bytesDecoded: decoded.bytesDecoded + 1,
+      decoded: decoded.decoded
+    }
+  }
+}
+
+export class MetadataV13StorageEntryNMap extends MetadataV13StorageEntryType {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV13StorageEntryNMap> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const keys: SCALEDecodeResult<SCALEArray<SCALEString>> = decoder.decodeNextArray(decodeString)
+    const hashers: SCALEDecodeResult<SCALEArray<SCALEEnum<SubstrateStorageEntryHasher>>> = decoder.decodeNextArray(decodeHasher)
+    const value: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+
+    return {
+      bytesDecoded: keys.bytesDecoded + hashers.bytesDecoded + value.bytesDecoded,
+      decoded: new MetadataV13StorageEntryNMap(keys.decoded, hashers.decoded, value.decoded)
+    }
+  }
+
+  protected readonly type: SCALEEnum<StorageEntryType> = SCALEEnum.from(StorageEntryType.NMap)
+  protected readonly _scaleFields: SCALEType[] = [this.keys, this.hashers, this.value]
+
+  private constructor(
+    readonly keys: SCALEArray<SCALEString>,
+    readonly hashers: SCALEArray<SCALEEnum<SubstrateStorageEntryHasher>>,
+    readonly value: SCALEString
+  ) {
+    super()
+  }
+
+  public decorate(moduleName: string, prefix: string): SubstrateStorageEntry {
+    return new SubstrateNMapStorageEntry(
+      moduleName,
+      prefix,
+      this.hashers.elements.map((hasher: SCALEEnum<SubstrateStorageEntryHasher>) => hasher.value)
+    )
+  }
+}
@@ -0,0 +1,115 @@
+import { SubstrateNetwork } from '../../../../SubstrateNetwork'
+import { supportedConstants, supportedStorageEntries } from '../../../node/supported'
+import { SCALEDecoder, SCALEDecodeResult } from '../../scale/SCALEDecoder'
+import { SCALEArray } from '../../scale/type/SCALEArray'
+import { SCALEInt } from '../../scale/type/SCALEInt'
+import { SCALEType } from '../../scale/type/SCALEType'
+import { SubstrateCall } from '../decorator/call/SubstrateCall'
+import { SubstrateConstant } from '../decorator/constant/SubstrateConstant'
+import { MetadataDecorator } from '../decorator/MetadataDecorator'
+import { SubstrateStorageEntry } from '../decorator/storage/SubstrateStorageEntry'
+import { MetadataVersioned } from '../MetadataVersioned'
+
+import { MetadataV14Pallet } from './pallet/MetadataV14Pallet'
+import { MetadataV14PalletConstant } from './pallet/MetadataV14PalletConstant'
+import { MetadataV14PalletStorage } from './pallet/storage/MetadataV14PalletStorage'
+import { MetadataV14PalletStorageEntry } from './pallet/storage/MetadataV14PalletStorageEntry'
+import { MetadataV14PortableRegistry } from './registry/MetadataV14PortableRegistry'
+import { MetadataV14Field, MetadataV14TypeDef, MetadataV14TypeDefVariant, MetadataV14Variant } from './registry/MetadataV14TypeDef'
+
+export class MetadataV14 extends MetadataVersioned {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): MetadataV14 {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const magicNumber: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(32) // 32 bits
+    const version: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(8) // 8 bits
+    const registry: SCALEDecodeResult<MetadataV14PortableRegistry> = decoder.decodeNextObject(MetadataV14PortableRegistry.decode)
+    const pallets: SCALEDecodeResult<SCALEArray<MetadataV14Pallet>> = decoder.decodeNextArray(MetadataV14Pallet.decode)
+
+    return new MetadataV14(magicNumber.decoded, version.decoded, registry.decoded, pallets.decoded)
+  }
+
+  protected scaleFields: SCALEType[] = [this.magicNumber, this.version, this.registry, this.pallets]
+
+  protected constructor(
+    readonly magicNumber: SCALEInt,
+    readonly version: SCALEInt,
+    readonly registry: MetadataV14PortableRegistry,
+    readonly pallets: SCALEArray<MetadataV14Pallet>
+  ) {
+    super()
+  }
+
+  public decorate(): MetadataDecorator {
+    const storageEntries: SubstrateStorageEntry[][] = []
+    const calls: SubstrateCall[][] = []
+    const constants: SubstrateConstant[][] = []
+
+    for (const pallet of this.pallets.elements) {
+      const palletName: string = pallet.name.value
+
+      const storagePrefix: string | undefined = pallet.storage.value?.prefix?.value
+      if (storagePrefix && Object.keys(supportedStorageEntries).includes(storagePrefix)) {
+        const decoratedEntries: SubstrateStorageEntry[] | undefined = createDecoratedStorageEntries(pallet.storage.value)
+        if (decoratedEntries) {
+          storageEntries.push(decoratedEntries)
+        }
+      }
+
+      if (pallet.calls.value) {
+        calls.push(this.createDecoratedCalls(palletName, pallet.index.toNumber(), pallet.calls.value.toNumber()))
+      }
+
+      if (Object.keys(supportedConstants).includes(palletName)) {
+        const decoratedConstants: SubstrateConstant[] = this.createDecoratedConstants(palletName, pallet.constants.elements)
+        constants.push(decoratedConstants)
+      }
+    }
+
+    return new MetadataDecorator(
+      storageEntries.reduce((flatten: SubstrateStorageEntry[], next: SubstrateStorageEntry[]) => flatten.concat(next), []),
+      calls.reduce((flatten: SubstrateCall[], next: SubstrateCall[]) => flatten.concat(next), []),
+      constants.reduce((flatten: SubstrateConstant[], next: SubstrateConstant[]) => flatten.concat(next), [])
+    )
+  }
+
+  // the calls of a pallet are the variants of its call type, the variant index is the call index
+  private createDecoratedCalls(palletName: string, palletIndex: number, callsType: number): SubstrateCall[] {
+    const def: MetadataV14TypeDef = this.registry.type(callsType).def
+    const variants: MetadataV14Variant[] = def instanceof MetadataV14TypeDefVariant ? def.variants.elements : []
+
+    return variants.map((variant: MetadataV14Variant) => {
+      return {
+        moduleName: palletName,
+        name: variant.name.value,
+        moduleIndex: palletIndex,
+        callIndex: variant.index.toNumber(),
+        args: variant.fields.elements.map((field: MetadataV14Field) => ({
+          name: field.name.value?.value ?? '',
+          type: this.registry.typeName(field.type)
+        }))
+      }
+    })
+  }
+
+  private createDecoratedConstants(palletName: string, constants: MetadataV14PalletConstant[]): SubstrateConstant[] {
+    return constants.map((constant: MetadataV14PalletConstant) => {
+      return {
+        moduleName: palletName,
+        name: constant.name.value,
+        value: constant.value.bytes,
+        type: this.registry.typeName(constant.type)
+      }
+    })
+  }
+}
+
+function createDecoratedStorageEntries(storage: MetadataV14PalletStorage | undefined): SubstrateStorageEntry[] | undefined {
+  if (storage) {
+    return storage.storageEntries.elements
+      .filter((entry: MetadataV14PalletStorageEntry) => supportedStorageEntries[storage.prefix.value].includes(entry.name.value))
+      .map((entry: MetadataV14PalletStorageEntry) => entry.type.decorate(storage.prefix.value, entry.name.value))
+  }
+
+  return undefined
+}
@@ -0,0 +1,69 @@
+import { SubstrateNetwork } from '../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../scale/type/SCALEArray'
+import { SCALEClass } from '../../../scale/type/SCALEClass'
+import { SCALECompactInt } from '../../../scale/type/SCALECompactInt'
+import { SCALEInt } from '../../../scale/type/SCALEInt'
+import { SCALEOptional } from '../../../scale/type/SCALEOptional'
+import { SCALEString } from '../../../scale/type/SCALEString'
+import { SCALEType } from '../../../scale/type/SCALEType'
+
+import { MetadataV14PalletConstant } from './MetadataV14PalletConstant'
+import { MetadataV14PalletStorage } from './storage/MetadataV14PalletStorage'
+
+function decodeCompactInt(
+  _network: SubstrateNetwork,
+  _runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<SCALECompactInt> {
+  return SCALECompactInt.decode(hex)
+}
+
+// calls, events and errors are described by the variants of a type in the registry
+export class MetadataV14Pallet extends SCALEClass {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): SCALEDecodeResult<MetadataV14Pallet> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const name: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const storage: SCALEDecodeResult<SCALEOptional<MetadataV14PalletStorage>> = decoder.decodeNextOptional(MetadataV14PalletStorage.decode)
+    const calls: SCALEDecodeResult<SCALEOptional<SCALECompactInt>> = decoder.decodeNextOptional(decodeCompactInt)
+    const events: SCALEDecodeResult<SCALEOptional<SCALECompactInt>> = decoder.decodeNextOptional(decodeCompactInt)
+    const constants: SCALEDecodeResult<SCALEArray<MetadataV14PalletConstant>> = decoder.decodeNextArray(MetadataV14PalletConstant.decode)
+    const errors: SCALEDecodeResult<SCALEOptional<SCALECompactInt>> = decoder.decodeNextOptional(decodeCompactInt)
+    const index: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(8)
+
+    return {
+      bytesDecoded:
+        name.bytesDecoded +
+        storage.bytesDecoded +
+        calls.bytesDecoded +
+        events.bytesDecoded +
+        constants.bytesDecoded +
+        errors.bytesDecoded +
+        index.bytesDecoded,
+      decoded: new MetadataV14Pallet(
+        name.decoded,
+        storage.decoded,
+        calls.decoded,
+        events.decoded,
+        constants.decoded,
+        errors.decoded,
+        index.decoded
+      )
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.name, this.storage, this.calls, this.events, this.constants, this.errors, this.index]
+
+  private constructor(
+    readonly name: SCALEString,
+    readonly storage: SCALEOptional<MetadataV14PalletStorage>,
+    readonly calls: SCALEOptional<SCALECompactInt>,
+    readonly events: SCALEOptional<SCALECompactInt>,
+    readonly constants: SCALEArray<MetadataV14PalletConstant>,
+    readonly errors: SCALEOptional<SCALECompactInt>,
+    readonly index: SCALEInt
+  ) {
+    super()
+  }
+}
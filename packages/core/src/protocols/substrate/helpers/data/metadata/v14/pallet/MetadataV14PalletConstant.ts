@@ -0,0 +1,43 @@
+import { SubstrateNetwork } from '../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../scale/type/SCALEArray'
+import { SCALEBytes } from '../../../scale/type/SCALEBytes'
+import { SCALEClass } from '../../../scale/type/SCALEClass'
+import { SCALECompactInt } from '../../../scale/type/SCALECompactInt'
+import { SCALEString } from '../../../scale/type/SCALEString'
+import { SCALEType } from '../../../scale/type/SCALEType'
+
+function decodeString(_network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEString> {
+  return SCALEString.decode(hex)
+}
+
+export class MetadataV14PalletConstant extends SCALEClass {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14PalletConstant> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const name: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const type: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+    const value: SCALEDecodeResult<SCALEBytes> = decoder.decodeNextBytes()
+    const docs: SCALEDecodeResult<SCALEArray<SCALEString>> = decoder.decodeNextArray(decodeString)
+
+    return {
+      bytesDecoded: name.bytesDecoded + type.bytesDecoded + value.bytesDecoded + docs.bytesDecoded,
+      decoded: new MetadataV14PalletConstant(name.decoded, type.decoded, value.decoded, docs.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.name, this.type, this.value, this.docs]
+
+  private constructor(
+    readonly name: SCALEString,
+    readonly type: SCALECompactInt,
+    readonly value: SCALEBytes,
+    readonly docs: SCALEArray<SCALEString>
+  ) {
+    super()
+  }
+}
@@ -0,0 +1,34 @@
+import { SubstrateNetwork } from '../../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../../scale/type/SCALEArray'
+import { SCALEClass } from '../../../../scale/type/SCALEClass'
+import { SCALEString } from '../../../../scale/type/SCALEString'
+import { SCALEType } from '../../../../scale/type/SCALEType'
+
+import { MetadataV14PalletStorageEntry } from './MetadataV14PalletStorageEntry'
+
+export class MetadataV14PalletStorage extends SCALEClass {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14PalletStorage> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const prefix: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const storageEntries: SCALEDecodeResult<SCALEArray<MetadataV14PalletStorageEntry>> = decoder.decodeNextArray(
+      MetadataV14PalletStorageEntry.decode
+    )
+
+    return {
+      bytesDecoded: prefix.bytesDecoded + storageEntries.bytesDecoded,
+      decoded: new MetadataV14PalletStorage(prefix.decoded, storageEntries.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.prefix, this.storageEntries]
+
+  private constructor(readonly prefix: SCALEString, readonly storageEntries: SCALEArray<MetadataV14PalletStorageEntry>) {
+    super()
+  }
+}
@@ -0,0 +1,50 @@
+import { SubstrateNetwork } from '../../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../../scale/type/SCALEArray'
+import { SCALEBytes } from '../../../../scale/type/SCALEBytes'
+import { SCALEClass } from '../../../../scale/type/SCALEClass'
+import { SCALEEnum } from '../../../../scale/type/SCALEEnum'
+import { SCALEString } from '../../../../scale/type/SCALEString'
+import { SCALEType } from '../../../../scale/type/SCALEType'
+import { StorageEntryModifier } from '../../../v11/module/storage/MetadataV11StorageEntry'
+
+import { MetadataV14PalletStorageEntryType } from './MetadataV14PalletStorageEntryType'
+
+function decodeString(_network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEString> {
+  return SCALEString.decode(hex)
+}
+
+export class MetadataV14PalletStorageEntry extends SCALEClass {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14PalletStorageEntry> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const name: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const modifier: SCALEDecodeResult<SCALEEnum<StorageEntryModifier>> = decoder.decodeNextEnum(
+      (value: number) => StorageEntryModifier[StorageEntryModifier[value]]
+    )
+    const type: SCALEDecodeResult<MetadataV14PalletStorageEntryType> = decoder.decodeNextObject(MetadataV14PalletStorageEntryType.decode)
+    const defaultValue: SCALEDecodeResult<SCALEBytes> = decoder.decodeNextBytes()
+    const docs: SCALEDecodeResult<SCALEArray<SCALEString>> = decoder.decodeNextArray(decodeString)
+
+    return {
+      bytesDecoded: name.bytesDecoded + modifier.bytesDecoded + type.bytesDecoded + defaultValue.bytesDecoded + docs.bytesDecoded,
+      decoded: new MetadataV14PalletStorageEntry(name.decoded, modifier.decoded, type.decoded, defaultValue.decoded, docs.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.name, this.modifier, this.type, this.defaultValue]
+
+  private constructor(
+    readonly name: SCALEString,
+    readonly modifier: SCALEEnum<StorageEntryModifier>,
+    readonly type: MetadataV14PalletStorageEntryType,
+    readonly defaultValue: SCALEBytes,
+    readonly docs: SCALEArray<SCALEString>
+  ) {
+    super()
+  }
+}
@@ -0,0 +1,142 @@
+// tslint:disable: max-classes-per-file
+import { InvalidValueError } from '../../../../../../../../errors'
+import { Domain } from '../../../../../../../../errors/coinlib-error'
+import { SubstrateNetwork } from '../../../../../../SubstrateNetwork'
+import { DecoderMethod, SCALEDecoder, SCALEDecodeResult } from '../../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../../scale/type/SCALEArray'
+import { SCALEClass } from '../../../../scale/type/SCALEClass'
+import { SCALECompactInt } from '../../../../scale/type/SCALECompactInt'
+import { SCALEEnum } from '../../../../scale/type/SCALEEnum'
+import { SCALEType } from '../../../../scale/type/SCALEType'
+import {
+  SubstrateDoubleMapStorageEntry,
+  SubstrateMapStorageEntry,
+  SubstrateNMapStorageEntry,
+  SubstratePlainStorageEntry,
+  SubstrateStorageEntry,
+  SubstrateStorageEntryHasher
+} from '../../../decorator/storage/SubstrateStorageEntry'
+
+function decodeHasher(
+  _network: SubstrateNetwork,
+  _runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<SCALEEnum<SubstrateStorageEntryHasher>> {
+  return SCALEEnum.decode(hex, (value: number) => SubstrateStorageEntryHasher[SubstrateStorageEntryHasher[value]])
+}
+
+enum StorageEntryType {
+  Plain = 0,
+  Map
+}
+
+export abstract class MetadataV14PalletStorageEntryType extends SCALEClass {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14PalletStorageEntryType> {
+    const prefix: number = parseInt(raw.substr(0, 2), 16)
+
+    let decoderMethod: DecoderMethod<MetadataV14PalletStorageEntryType>
+    switch (prefix) {
+      case StorageEntryType.Plain:
+        decoderMethod = MetadataV14PalletStorageEntryPlain.decode
+        break
+      case StorageEntryType.Map:
+        decoderMethod = MetadataV14PalletStorageEntryMap.decode
+        break
+      default:
+        throw new InvalidValueError(Domain.SUBSTRATE, 'Unkown metadata storage entry type')
+    }
+
+    const decoded: SCALEDecodeResult<MetadataV14PalletStorageEntryType> = decoderMethod(network, runtimeVersion, raw.slice(2))
+
+    return {
+      bytesDecoded: decoded.bytesDecoded + 1,
+      decoded: decoded.decoded
+    }
+  }
+
+  protected abstract readonly type: SCALEEnum<StorageEntryType>
+  protected abstract readonly _scaleFields: SCALEType[]
+
+  protected get scaleFields(): SCALEType[] {
+    return [this.type, ...this._scaleFields]
+  }
+
+  public abstract decorate(moduleName: string, prefix: string): SubstrateStorageEntry
+}
+
+export class MetadataV14PalletStorageEntryPlain extends MetadataV14PalletStorageEntryType {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14PalletStorageEntryPlain> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const value: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+
+    return {
+      bytesDecoded: value.bytesDecoded,
+      decoded: new MetadataV14PalletStorageEntryPlain(value.decoded)
+    }
+  }
+
+  protected readonly type: SCALEEnum<StorageEntryType> = SCALEEnum.from(StorageEntryType.Plain)
+  protected readonly _scaleFields: SCALEType[] = [this.value]
+
+  private constructor(readonly value: SCALECompactInt) {
+    super()
+  }
+
+  public decorate(moduleName: string, prefix: string): SubstrateStorageEntry {
+    return new SubstratePlainStorageEntry(moduleName, prefix)
+  }
+}
+
+export class MetadataV14PalletStorageEntryMap extends MetadataV14PalletStorageEntryType {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14PalletStorageEntryMap> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const hashers: SCALEDecodeResult<SCALEArray<SCALEEnum<SubstrateStorageEntryHasher>>> = decoder.decodeNextArray(decodeHasher)
+    const key: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+    const value: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+
+    return {
+      bytesDecoded: hashers.bytesDecoded + key.bytesDecoded + value.bytesDecoded,
+      decoded: new MetadataV14PalletStorageEntryMap(hashers.decoded, key.decoded, value.decoded)
+    }
+  }
+
+  protected readonly type: SCALEEnum<StorageEntryType> = SCALEEnum.from(StorageEntryType.Map)
+  protected readonly _scaleFields: SCALEType[] = [this.hashers, this.key, this.value]
+
+  private constructor(
+    readonly hashers: SCALEArray<SCALEEnum<SubstrateStorageEntryHasher>>,
+    readonly key: SCALECompactInt,
+    readonly value: SCALECompactInt
+  ) {
+    super()
+  }
+
+  // V14 describes all maps by their list of hashers, each hasher hashes one part of the key
+  public decorate(moduleName: string, prefix: string): SubstrateStorageEntry {
+    const hashers: SubstrateStorageEntryHasher[] = this.hashers.elements.map(
+      (hasher: SCALEEnum<SubstrateStorageEntryHasher>) => hasher.value
+    )
+    switch (hashers.length) {
+      case 1:
+        return new SubstrateMapStorageEntry(moduleName, prefix, hashers[0])
+      case 2:
+        return new SubstrateDoubleMapStorageEntry(moduleName, prefix, hashers[0], hashers[1])
+      default:
+        return new SubstrateNMapStorageEntry(moduleName, prefix, hashers)
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { NotFoundError } from '../../../../../../../errors'
+import { Domain } from '../../../../../../../errors/coinlib-error'
+import { SubstrateNetwork } from '../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../scale/type/SCALEArray'
+import { SCALEClass } from '../../../scale/type/SCALEClass'
+import { SCALECompactInt } from '../../../scale/type/SCALECompactInt'
+import { SCALEString } from '../../../scale/type/SCALEString'
+import { SCALEType } from '../../../scale/type/SCALEType'
+
+import { MetadataV14PortableType, MetadataV14Type, MetadataV14TypeParameter } from './MetadataV14Type'
+import {
+  MetadataV14Field,
+  MetadataV14Primitive,
+  MetadataV14TypeDef,
+  MetadataV14TypeDefArray,
+  MetadataV14TypeDefBitSequence,
+  MetadataV14TypeDefCompact,
+  MetadataV14TypeDefComposite,
+  MetadataV14TypeDefPrimitive,
+  MetadataV14TypeDefSequence,
+  MetadataV14TypeDefTuple,
+  MetadataV14TypeDefVariant,
+  MetadataV14Variant
+} from './MetadataV14TypeDef'
+
+// the names under which the primitive types are known to `SCALETypeDefinition`
+const primitiveNames: Record<MetadataV14Primitive, string> = {
+  [MetadataV14Primitive.Bool]: 'bool',
+  [MetadataV14Primitive.Char]: 'char',
+  [MetadataV14Primitive.Str]: 'String',
+  [MetadataV14Primitive.U8]: 'u8',
+  [MetadataV14Primitive.U16]: 'u16',
+  [MetadataV14Primitive.U32]: 'u32',
+  [MetadataV14Primitive.U64]: 'u64',
+  [MetadataV14Primitive.U128]: 'u128',
+  [MetadataV14Primitive.U256]: 'u256',
+  [MetadataV14Primitive.I8]: 'i8',
+  [MetadataV14Primitive.I16]: 'i16',
+  [MetadataV14Primitive.I32]: 'i32',
+  [MetadataV14Primitive.I64]: 'i64',
+  [MetadataV14Primitive.I128]: 'i128',
+  [MetadataV14Primitive.I256]: 'i256'
+}
+
+// runtime types with a dedicated SCALE representation, identified by their path
+const knownTypes: Record<string, string> = {
+  'sp_core::crypto::AccountId32': 'AccountId',
+  'sp_runtime::multiaddress::MultiAddress': 'LookupSource'
+}
+
+function pathName(type: MetadataV14Type): string {
+  const path: string[] = type.path.elements.map((segment: SCALEString) => segment.value)
+
+  return path.length > 0 ? path[path.length - 1] : 'Unknown'
+}
+
+export class MetadataV14PortableRegistry extends SCALEClass {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14PortableRegistry> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const types: SCALEDecodeResult<SCALEArray<MetadataV14PortableType>> = decoder.decodeNextArray(MetadataV14PortableType.decode)
+
+    return {
+      bytesDecoded: types.bytesDecoded,
+      decoded: new MetadataV14PortableRegistry(types.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.types]
+
+  private readonly typesById: Map<number, MetadataV14Type>
+  private readonly typeNames: Map<number, string> = new Map()
+
+  // the types which are currently resolved and the ones which contain themselves, e.g. the call enum of `Utility.batch`
+  private readonly resolving: number[] = []
+  private readonly recursiveTypes: Set<number> = new Set()
+
+  private constructor(readonly types: SCALEArray<MetadataV14PortableType>) {
+    super()
+    this.typesById = new Map(types.elements.map((type: MetadataV14PortableType) => [type.id.toNumber(), type.type]))
+  }
+
+  public type(id: number | SCALECompactInt): MetadataV14Type {
+    const typeId: number = typeof id === 'number' ? id : id.toNumber()
+    const type: MetadataV14Type | undefined = this.typesById.get(typeId)
+    if (type === undefined) {
+      throw new NotFoundError(Domain.SUBSTRATE, `Type ${typeId} is not part of the metadata type registry.`)
+    }
+
+    return type
+  }
+
+  // resolves the type to a name which can be parsed by `SCALETypeDefinition`, structs and enums are described in JSON
+  public typeName(id: number | SCALECompactInt): string {
+    const typeId: number = typeof id === 'number' ? id : id.toNumber()
+    const cached: string | undefined = this.typeNames.get(typeId)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const type: MetadataV14Type = this.type(typeId)
+    // every cycle contains a struct or an enum, the other types are always expanded
+    const isNamed: boolean = type.def instanceof MetadataV14TypeDefComposite || type.def instanceof MetadataV14TypeDefVariant
+    const resolvingIndex: number = this.resolving.indexOf(typeId)
+    if (isNamed && resolvingIndex >= 0) {
+      // the types of a cycle cannot be expanded, they are named after their path and are not supported as arguments
+      this.resolving.slice(resolvingIndex).forEach((recursiveId: number) => this.recursiveTypes.add(recursiveId))
+
+      return pathName(type)
+    }
+
+    this.resolving.push(typeId)
+    const name: string = this.resolveTypeName(type)
+    this.resolving.pop()
+
+    const resolved: string = isNamed && this.recursiveTypes.has(typeId) ? pathName(type) : name
+    this.typeNames.set(typeId, resolved)
+
+    return resolved
+  }
+
+  private resolveTypeName(type: MetadataV14Type): string {
+    const def: MetadataV14TypeDef = type.def
+
+    if (def instanceof MetadataV14TypeDefPrimitive) {
+      return primitiveNames[def.primitive.value]
+    } else if (def instanceof MetadataV14TypeDefCompact) {
+      return `Compact<${this.typeName(def.type)}>`
+    } else if (def instanceof MetadataV14TypeDefSequence) {
+      return `Vec<${this.typeName(def.type)}>`
+    } else if (def instanceof MetadataV14TypeDefArray) {
+      return `[${this.typeName(def.type)}; ${def.length.toNumber()}]`
+    } else if (def instanceof MetadataV14TypeDefTuple) {
+      return `(${def.types.elements.map((element: SCALECompactInt) => this.typeName(element)).join(', ')})`
+    } else if (def instanceof MetadataV14TypeDefBitSequence) {
+      return 'BitVec'
+    }
+
+    return this.pathTypeName(type)
+  }
+
+  private pathTypeName(type: MetadataV14Type): string {
+    const path: string[] = type.path.elements.map((segment: SCALEString) => segment.value)
+    const params: string[] = type.params.elements
+      .map((param: MetadataV14TypeParameter) => param.type.value)
+      .filter((paramType: SCALECompactInt | undefined): paramType is SCALECompactInt => paramType !== undefined)
+      .map((paramType: SCALECompactInt) => this.typeName(paramType))
+
+    const known: string | undefined = knownTypes[path.join('::')]
+    if (known !== undefined) {
+      return known
+    } else if (path.length === 1 && path[0] === 'Option') {
+      return `Option<${params[0]}>`
+    }
+
+    if (type.def instanceof MetadataV14TypeDefComposite) {
+      // wrapper types, e.g. `H256`, `Perbill` or `BoundedVec`, are encoded as their only field
+      return type.def.fields.elements.length === 1
+        ? this.typeName(type.def.fields.elements[0].type)
+        : this.fieldsTypeName(type.def.fields.elements)
+    } else if (type.def instanceof MetadataV14TypeDefVariant) {
+      return JSON.stringify({
+        _enum: type.def.variants.elements.map((variant: MetadataV14Variant) => [
+          variant.index.toNumber(),
+          variant.name.value,
+          variant.fields.elements.length > 0 ? this.fieldsTypeName(variant.fields.elements) : null
+        ])
+      })
+    }
+
+    return pathName(type)
+  }
+
+  // named fields are a struct, unnamed fields a tuple
+  private fieldsTypeName(fields: MetadataV14Field[]): string {
+    const names: (string | undefined)[] = fields.map((field: MetadataV14Field) => field.name.value?.value)
+    if (fields.length === 1 && names[0] === undefined) {
+      return this.typeName(fields[0].type)
+    } else if (fields.length > 0 && names.every((name: string | undefined) => name !== undefined)) {
+      return JSON.stringify({
+        _struct: fields.map((field: MetadataV14Field, index: number) => [names[index], this.typeName(field.type)])
+      })
+    }
+
+    return `(${fields.map((field: MetadataV14Field) => this.typeName(field.type)).join(', ')})`
+  }
+}
@@ -0,0 +1,97 @@
+// tslint:disable: max-classes-per-file
+import { SubstrateNetwork } from '../../../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../scale/type/SCALEArray'
+import { SCALEClass } from '../../../scale/type/SCALEClass'
+import { SCALECompactInt } from '../../../scale/type/SCALECompactInt'
+import { SCALEOptional } from '../../../scale/type/SCALEOptional'
+import { SCALEString } from '../../../scale/type/SCALEString'
+import { SCALEType } from '../../../scale/type/SCALEType'
+
+import { MetadataV14TypeDef } from './MetadataV14TypeDef'
+
+function decodeString(_network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEString> {
+  return SCALEString.decode(hex)
+}
+function decodeCompactInt(
+  _network: SubstrateNetwork,
+  _runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<SCALECompactInt> {
+  return SCALECompactInt.decode(hex)
+}
+
+export class MetadataV14TypeParameter extends SCALEClass {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeParameter> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const name: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const type: SCALEDecodeResult<SCALEOptional<SCALECompactInt>> = decoder.decodeNextOptional(decodeCompactInt)
+
+    return {
+      bytesDecoded: name.bytesDecoded + type.bytesDecoded,
+      decoded: new MetadataV14TypeParameter(name.decoded, type.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.name, this.type]
+
+  private constructor(readonly name: SCALEString, readonly type: SCALEOptional<SCALECompactInt>) {
+    super()
+  }
+}
+
+export class MetadataV14Type extends SCALEClass {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): SCALEDecodeResult<MetadataV14Type> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const path: SCALEDecodeResult<SCALEArray<SCALEString>> = decoder.decodeNextArray(decodeString)
+    const params: SCALEDecodeResult<SCALEArray<MetadataV14TypeParameter>> = decoder.decodeNextArray(MetadataV14TypeParameter.decode)
+    const def: SCALEDecodeResult<MetadataV14TypeDef> = decoder.decodeNextObject(MetadataV14TypeDef.decode)
+    const docs: SCALEDecodeResult<SCALEArray<SCALEString>> = decoder.decodeNextArray(decodeString)
+
+    return {
+      bytesDecoded: path.bytesDecoded + params.bytesDecoded + def.bytesDecoded + docs.bytesDecoded,
+      decoded: new MetadataV14Type(path.decoded, params.decoded, def.decoded, docs.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.path, this.params, this.def, this.docs]
+
+  private constructor(
+    readonly path: SCALEArray<SCALEString>,
+    readonly params: SCALEArray<MetadataV14TypeParameter>,
+    readonly def: MetadataV14TypeDef,
+    readonly docs: SCALEArray<SCALEString>
+  ) {
+    super()
+  }
+}
+
+export class MetadataV14PortableType extends SCALEClass {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14PortableType> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const id: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+    const type: SCALEDecodeResult<MetadataV14Type> = decoder.decodeNextObject(MetadataV14Type.decode)
+
+    return {
+      bytesDecoded: id.bytesDecoded + type.bytesDecoded,
+      decoded: new MetadataV14PortableType(id.decoded, type.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.id, this.type]
+
+  private constructor(readonly id: SCALECompactInt, readonly type: MetadataV14Type) {
+    super()
+  }
+}
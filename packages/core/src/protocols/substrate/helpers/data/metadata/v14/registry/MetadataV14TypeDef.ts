@@ -0,0 +1,353 @@
+// tslint:disable: max-classes-per-file
+import { InvalidValueError } from '../../../../../../../errors'
+import { Domain } from '../../../../../../../errors/coinlib-error'
+import { SubstrateNetwork } from '../../../../../SubstrateNetwork'
+import { DecoderMethod, SCALEDecoder, SCALEDecodeResult } from '../../../scale/SCALEDecoder'
+import { SCALEArray } from '../../../scale/type/SCALEArray'
+import { SCALEClass } from '../../../scale/type/SCALEClass'
+import { SCALECompactInt } from '../../../scale/type/SCALECompactInt'
+import { SCALEEnum } from '../../../scale/type/SCALEEnum'
+import { SCALEInt } from '../../../scale/type/SCALEInt'
+import { SCALEOptional } from '../../../scale/type/SCALEOptional'
+import { SCALEString } from '../../../scale/type/SCALEString'
+import { SCALEType } from '../../../scale/type/SCALEType'
+
+function decodeString(_network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEString> {
+  return SCALEString.decode(hex)
+}
+function decodeCompactInt(
+  _network: SubstrateNetwork,
+  _runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<SCALECompactInt> {
+  return SCALECompactInt.decode(hex)
+}
+
+enum TypeDefKind {
+  Composite = 0,
+  Variant,
+  Sequence,
+  Array,
+  Tuple,
+  Primitive,
+  Compact,
+  BitSequence
+}
+
+export enum MetadataV14Primitive {
+  Bool = 0,
+  Char,
+  Str,
+  U8,
+  U16,
+  U32,
+  U64,
+  U128,
+  U256,
+  I8,
+  I16,
+  I32,
+  I64,
+  I128,
+  I256
+}
+
+export class MetadataV14Field extends SCALEClass {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): SCALEDecodeResult<MetadataV14Field> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const name: SCALEDecodeResult<SCALEOptional<SCALEString>> = decoder.decodeNextOptional(decodeString)
+    const type: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+    const typeName: SCALEDecodeResult<SCALEOptional<SCALEString>> = decoder.decodeNextOptional(decodeString)
+    const docs: SCALEDecodeResult<SCALEArray<SCALEString>> = decoder.decodeNextArray(decodeString)
+
+    return {
+      bytesDecoded: name.bytesDecoded + type.bytesDecoded + typeName.bytesDecoded + docs.bytesDecoded,
+      decoded: new MetadataV14Field(name.decoded, type.decoded, typeName.decoded, docs.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.name, this.type, this.typeName, this.docs]
+
+  private constructor(
+    readonly name: SCALEOptional<SCALEString>,
+    readonly type: SCALECompactInt,
+    readonly typeName: SCALEOptional<SCALEString>,
+    readonly docs: SCALEArray<SCALEString>
+  ) {
+    super()
+  }
+}
+
+export class MetadataV14Variant extends SCALEClass {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): SCALEDecodeResult<MetadataV14Variant> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const name: SCALEDecodeResult<SCALEString> = decoder.decodeNextString()
+    const fields: SCALEDecodeResult<SCALEArray<MetadataV14Field>> = decoder.decodeNextArray(MetadataV14Field.decode)
+    const index: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(8)
+    const docs: SCALEDecodeResult<SCALEArray<SCALEString>> = decoder.decodeNextArray(decodeString)
+
+    return {
+      bytesDecoded: name.bytesDecoded + fields.bytesDecoded + index.bytesDecoded + docs.bytesDecoded,
+      decoded: new MetadataV14Variant(name.decoded, fields.decoded, index.decoded, docs.decoded)
+    }
+  }
+
+  protected scaleFields: SCALEType[] = [this.name, this.fields, this.index, this.docs]
+
+  private constructor(
+    readonly name: SCALEString,
+    readonly fields: SCALEArray<MetadataV14Field>,
+    readonly index: SCALEInt,
+    readonly docs: SCALEArray<SCALEString>
+  ) {
+    super()
+  }
+}
+
+export abstract class MetadataV14TypeDef extends SCALEClass {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): SCALEDecodeResult<MetadataV14TypeDef> {
+    const prefix: number = parseInt(raw.substr(0, 2), 16)
+
+    let decoderMethod: DecoderMethod<MetadataV14TypeDef>
+    switch (prefix) {
+      case TypeDefKind.Composite:
+        decoderMethod = MetadataV14TypeDefComposite.decode
+        break
+      case TypeDefKind.Variant:
+        decoderMethod = MetadataV14TypeDefVariant.decode
+        break
+      case TypeDefKind.Sequence:
+        decoderMethod = MetadataV14TypeDefSequence.decode
+        break
+      case TypeDefKind.Array:
+        decoderMethod = MetadataV14TypeDefArray.decode
+        break
+      case TypeDefKind.Tuple:
+        decoderMethod = MetadataV14TypeDefTuple.decode
+        break
+      case TypeDefKind.Primitive:
+        decoderMethod = MetadataV14TypeDefPrimitive.decode
+        break
+      case TypeDefKind.Compact:
+        decoderMethod = MetadataV14TypeDefCompact.decode
+        break
+      case TypeDefKind.BitSequence:
+        decoderMethod = MetadataV14TypeDefBitSequence.decode
+        break
+      default:
+        throw new InvalidValueError(Domain.SUBSTRATE, 'Unknown metadata type definition')
+    }
+
+    const decoded: SCALEDecodeResult<MetadataV14TypeDef> = decoderMethod(network, runtimeVersion, raw.slice(2))
+
+    return {
+      bytesDecoded: decoded.bytesDecoded + 1,
+      decoded: decoded.decoded
+    }
+  }
+
+  protected abstract readonly kind: SCALEEnum<TypeDefKind>
+  protected abstract readonly _scaleFields: SCALEType[]
+
+  protected get scaleFields(): SCALEType[] {
+    return [this.kind, ...this._scaleFields]
+  }
+}
+
+export class MetadataV14TypeDefComposite extends MetadataV14TypeDef {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeDefComposite> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const fields: SCALEDecodeResult<SCALEArray<MetadataV14Field>> = decoder.decodeNextArray(MetadataV14Field.decode)
+
+    return {
+      bytesDecoded: fields.bytesDecoded,
+      decoded: new MetadataV14TypeDefComposite(fields.decoded)
+    }
+  }
+
+  protected readonly kind: SCALEEnum<TypeDefKind> = SCALEEnum.from(TypeDefKind.Composite)
+  protected readonly _scaleFields: SCALEType[] = [this.fields]
+
+  private constructor(readonly fields: SCALEArray<MetadataV14Field>) {
+    super()
+  }
+}
+
+export class MetadataV14TypeDefVariant extends MetadataV14TypeDef {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeDefVariant> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const variants: SCALEDecodeResult<SCALEArray<MetadataV14Variant>> = decoder.decodeNextArray(MetadataV14Variant.decode)
+
+    return {
+      bytesDecoded: variants.bytesDecoded,
+      decoded: new MetadataV14TypeDefVariant(variants.decoded)
+    }
+  }
+
+  protected readonly kind: SCALEEnum<TypeDefKind> = SCALEEnum.from(TypeDefKind.Variant)
+  protected readonly _scaleFields: SCALEType[] = [this.variants]
+
+  private constructor(readonly variants: SCALEArray<MetadataV14Variant>) {
+    super()
+  }
+}
+
+export class MetadataV14TypeDefSequence extends MetadataV14TypeDef {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeDefSequence> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const type: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+
+    return {
+      bytesDecoded: type.bytesDecoded,
+      decoded: new MetadataV14TypeDefSequence(type.decoded)
+    }
+  }
+
+  protected readonly kind: SCALEEnum<TypeDefKind> = SCALEEnum.from(TypeDefKind.Sequence)
+  protected readonly _scaleFields: SCALEType[] = [this.type]
+
+  private constructor(readonly type: SCALECompactInt) {
+    super()
+  }
+}
+
+export class MetadataV14TypeDefArray extends MetadataV14TypeDef {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeDefArray> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const length: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(32)
+    const type: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+
+    return {
+      bytesDecoded: length.bytesDecoded + type.bytesDecoded,
+      decoded: new MetadataV14TypeDefArray(length.decoded, type.decoded)
+    }
+  }
+
+  protected readonly kind: SCALEEnum<TypeDefKind> = SCALEEnum.from(TypeDefKind.Array)
+  protected readonly _scaleFields: SCALEType[] = [this.length, this.type]
+
+  private constructor(readonly length: SCALEInt, readonly type: SCALECompactInt) {
+    super()
+  }
+}
+
+export class MetadataV14TypeDefTuple extends MetadataV14TypeDef {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeDefTuple> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const types: SCALEDecodeResult<SCALEArray<SCALECompactInt>> = decoder.decodeNextArray(decodeCompactInt)
+
+    return {
+      bytesDecoded: types.bytesDecoded,
+      decoded: new MetadataV14TypeDefTuple(types.decoded)
+    }
+  }
+
+  protected readonly kind: SCALEEnum<TypeDefKind> = SCALEEnum.from(TypeDefKind.Tuple)
+  protected readonly _scaleFields: SCALEType[] = [this.types]
+
+  private constructor(readonly types: SCALEArray<SCALECompactInt>) {
+    super()
+  }
+}
+
+export class MetadataV14TypeDefPrimitive extends MetadataV14TypeDef {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeDefPrimitive> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const primitive: SCALEDecodeResult<SCALEEnum<MetadataV14Primitive>> = decoder.decodeNextEnum(
+      (value: number) => MetadataV14Primitive[MetadataV14Primitive[value]]
+    )
+
+    return {
+      bytesDecoded: primitive.bytesDecoded,
+      decoded: new MetadataV14TypeDefPrimitive(primitive.decoded)
+    }
+  }
+
+  protected readonly kind: SCALEEnum<TypeDefKind> = SCALEEnum.from(TypeDefKind.Primitive)
+  protected readonly _scaleFields: SCALEType[] = [this.primitive]
+
+  private constructor(readonly primitive: SCALEEnum<MetadataV14Primitive>) {
+    super()
+  }
+}
+
+export class MetadataV14TypeDefCompact extends MetadataV14TypeDef {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeDefCompact> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const type: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+
+    return {
+      bytesDecoded: type.bytesDecoded,
+      decoded: new MetadataV14TypeDefCompact(type.decoded)
+    }
+  }
+
+  protected readonly kind: SCALEEnum<TypeDefKind> = SCALEEnum.from(TypeDefKind.Compact)
+  protected readonly _scaleFields: SCALEType[] = [this.type]
+
+  private constructor(readonly type: SCALECompactInt) {
+    super()
+  }
+}
+
+export class MetadataV14TypeDefBitSequence extends MetadataV14TypeDef {
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<MetadataV14TypeDefBitSequence> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const storeType: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+    const orderType: SCALEDecodeResult<SCALECompactInt> = decoder.decodeNextCompactInt()
+
+    return {
+      bytesDecoded: storeType.bytesDecoded + orderType.bytesDecoded,
+      decoded: new MetadataV14TypeDefBitSequence(storeType.decoded, orderType.decoded)
+    }
+  }
+
+  protected readonly kind: SCALEEnum<TypeDefKind> = SCALEEnum.from(TypeDefKind.BitSequence)
+  protected readonly _scaleFields: SCALEType[] = [this.storeType, this.orderType]
+
+  private constructor(readonly storeType: SCALECompactInt, readonly orderType: SCALECompactInt) {
+    super()
+  }
+}
@@ -0,0 +1,32 @@
+import { SubstrateNetwork } from '../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../scale/SCALEDecoder'
+import { SCALEAccountId } from '../scale/type/SCALEAccountId'
+import { SCALEArray } from '../scale/type/SCALEArray'
+import { SCALEInt } from '../scale/type/SCALEInt'
+
+import { SubstrateMultisigTimepoint } from './SubstrateMultisigTimepoint'
+
+function decodeAccountId(network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEAccountId> {
+  return SCALEAccountId.decode(network, hex)
+}
+
+// a multisig operation waiting for approvals
+export class SubstrateMultisig {
+  public static decode(network: SubstrateNetwork, runtimeVersion: number | undefined, raw: string): SubstrateMultisig {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const when: SCALEDecodeResult<SubstrateMultisigTimepoint> = decoder.decodeNextObject(SubstrateMultisigTimepoint.decode)
+    const deposit: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(128)
+    const depositor: SCALEDecodeResult<SCALEAccountId> = decoder.decodeNextAccountId()
+    const approvals: SCALEDecodeResult<SCALEArray<SCALEAccountId>> = decoder.decodeNextArray(decodeAccountId)
+
+    return new SubstrateMultisig(when.decoded, deposit.decoded, depositor.decoded, approvals.decoded)
+  }
+
+  private constructor(
+    readonly when: SubstrateMultisigTimepoint,
+    readonly deposit: SCALEInt,
+    readonly depositor: SCALEAccountId,
+    readonly approvals: SCALEArray<SCALEAccountId>
+  ) {}
+}
@@ -0,0 +1,39 @@
+import BigNumber from '../../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { SubstrateNetwork } from '../../../SubstrateNetwork'
+import { SCALEDecoder, SCALEDecodeResult } from '../scale/SCALEDecoder'
+import { SCALEClass } from '../scale/type/SCALEClass'
+import { SCALEInt } from '../scale/type/SCALEInt'
+import { SCALEType } from '../scale/type/SCALEType'
+
+// the block height and extrinsic index at which a multisig operation has been opened
+export class SubstrateMultisigTimepoint extends SCALEClass {
+  public static from(height: number | BigNumber, index: number | BigNumber): SubstrateMultisigTimepoint {
+    return new SubstrateMultisigTimepoint(SCALEInt.from(height, 32), SCALEInt.from(index, 32))
+  }
+
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string
+  ): SCALEDecodeResult<SubstrateMultisigTimepoint> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const height: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(32)
+    const index: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(32)
+
+    return {
+      bytesDecoded: height.bytesDecoded + index.bytesDecoded,
+      decoded: new SubstrateMultisigTimepoint(height.decoded, index.decoded)
+    }
+  }
+
+  protected readonly scaleFields: SCALEType[] = [this.height, this.index]
+
+  private constructor(readonly height: SCALEInt, readonly index: SCALEInt) {
+    super()
+  }
+
+  public toString(): string {
+    return JSON.stringify({ height: this.height.toNumber(), index: this.index.toNumber() }, null, 2)
+  }
+}
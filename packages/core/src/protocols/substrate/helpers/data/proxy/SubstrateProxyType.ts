@@ -0,0 +1,7 @@
+// the types shared by the Polkadot and Kusama runtimes, other runtimes may define further types
+export enum SubstrateProxyType {
+  ANY = 0,
+  NON_TRANSFER,
+  GOVERNANCE,
+  STAKING
+}
@@ -0,0 +1,486 @@
+import BigNumber from '../../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError, UnsupportedError } from '../../../../../errors'
+import { Domain } from '../../../../../errors/coinlib-error'
+import { addHexPrefix } from '../../../../../utils/hex'
+import { SubstrateNetwork } from '../../../SubstrateNetwork'
+
+import { DecoderMethod, SCALEDecodeResult } from './SCALEDecoder'
+import { SCALEAccountId } from './type/SCALEAccountId'
+import { SCALEArray } from './type/SCALEArray'
+import { SCALEBoolean } from './type/SCALEBoolean'
+import { SCALEBytes } from './type/SCALEBytes'
+import { SCALECompactInt } from './type/SCALECompactInt'
+import { SCALEComposite } from './type/SCALEComposite'
+import { SCALEHash } from './type/SCALEHash'
+import { SCALEInt } from './type/SCALEInt'
+import { SCALEMultiAddress, SCALEMultiAddressType } from './type/SCALEMultiAddress'
+import { SCALEOptional } from './type/SCALEOptional'
+import { SCALEString } from './type/SCALEString'
+import { SCALEType } from './type/SCALEType'
+import { SCALEVariant } from './type/SCALEVariant'
+
+export enum SCALETypeKind {
+  BOOLEAN,
+  INT,
+  COMPACT,
+  BYTES,
+  STRING,
+  HASH,
+  ACCOUNT_ID,
+  MULTI_ADDRESS,
+  ARRAY,
+  OPTIONAL,
+  TUPLE,
+  SIGNED_INT,
+  CHAR,
+  STRUCT,
+  ENUM
+}
+
+export interface SCALEVariantDefinition {
+  index: number
+  name: string
+  // variants without fields have no definition
+  definition?: SCALETypeDefinition
+}
+
+// runtime type names which are plain aliases of the primitive types
+const typeAliases: { [type: string]: string } = {
+  AccountIndex: 'u32',
+  Address: 'LookupSource',
+  Balance: 'u128',
+  BalanceOf: 'u128',
+  BlockNumber: 'u32',
+  EraIndex: 'u32',
+  Hash: 'H256',
+  Index: 'u32',
+  MemberCount: 'u32',
+  Moment: 'u64',
+  Percent: 'u8',
+  Perbill: 'u32',
+  Permill: 'u32',
+  Perquintill: 'u64',
+  PropIndex: 'u32',
+  ProposalIndex: 'u32',
+  ReferendumIndex: 'u32',
+  RegistrarIndex: 'u32',
+  SessionIndex: 'u32',
+  Weight: 'u64'
+}
+
+export class SCALETypeDefinition {
+  public static parse(type: string): SCALETypeDefinition {
+    return SCALETypeDefinition.parseNormalized(type, SCALETypeDefinition.normalize(type))
+  }
+
+  private static normalize(type: string): string {
+    return type
+      .replace(/<T::Lookup\s+as\s+StaticLookup>::Source/g, 'LookupSource')
+      .replace(/<T\s+as\s+[\w:]+(<I>)?>::/g, '')
+      .replace(/T::/g, '')
+      .replace(/<T(,\s*I)?>/g, '')
+      .replace(/\s/g, '')
+  }
+
+  private static parseNormalized(original: string, type: string): SCALETypeDefinition {
+    if (type.startsWith('{') && type.endsWith('}')) {
+      return SCALETypeDefinition.parseDescriptor(original, type)
+    }
+
+    if (type.startsWith('(') && type.endsWith(')')) {
+      return SCALETypeDefinition.parseTuple(original, type)
+    }
+
+    const fixedArray: RegExpMatchArray | null = type.match(/^\[(.+);(\d+)\]$/)
+    if (fixedArray) {
+      return SCALETypeDefinition.parseFixedArray(original, fixedArray[1], parseInt(fixedArray[2], 10))
+    }
+
+    return SCALETypeDefinition.parseGeneric(original, type)
+  }
+
+  private static parseGeneric(original: string, type: string): SCALETypeDefinition {
+    const generic: RegExpMatchArray | null = type.match(/^(\w+)(?:<(.+)>)?$/)
+    if (!generic) {
+      throw new UnsupportedError(Domain.SUBSTRATE, `Unsupported argument type ${original}.`)
+    }
+
+    const name: string = generic[1]
+    const parameters: string[] = generic[2] !== undefined ? SCALETypeDefinition.splitParameters(generic[2]) : []
+    const parseParameter: () => SCALETypeDefinition = (): SCALETypeDefinition => {
+      if (parameters.length !== 1) {
+        throw new UnsupportedError(Domain.SUBSTRATE, `Unsupported argument type ${original}.`)
+      }
+
+      return SCALETypeDefinition.parseNormalized(original, parameters[0])
+    }
+
+    const int: RegExpMatchArray | null = name.match(/^([ui])(8|16|32|64|128|256)$/)
+    if (int) {
+      return new SCALETypeDefinition(int[1] === 'i' ? SCALETypeKind.SIGNED_INT : SCALETypeKind.INT, original, parseInt(int[2], 10))
+    }
+
+    switch (name) {
+      case 'Box':
+        return parseParameter()
+      case 'Compact':
+        return new SCALETypeDefinition(SCALETypeKind.COMPACT, original)
+      case 'Vec':
+        const element: SCALETypeDefinition = parseParameter()
+
+        return element.kind === SCALETypeKind.INT && element.bitLength === 8
+          ? new SCALETypeDefinition(SCALETypeKind.BYTES, original)
+          : new SCALETypeDefinition(SCALETypeKind.ARRAY, original, undefined, [element])
+      case 'Option':
+        return new SCALETypeDefinition(SCALETypeKind.OPTIONAL, original, undefined, [parseParameter()])
+      case 'bool':
+        return new SCALETypeDefinition(SCALETypeKind.BOOLEAN, original)
+      case 'char':
+        return new SCALETypeDefinition(SCALETypeKind.CHAR, original, 32)
+      case 'Bytes':
+        return new SCALETypeDefinition(SCALETypeKind.BYTES, original)
+      case 'Text':
+      case 'String':
+        return new SCALETypeDefinition(SCALETypeKind.STRING, original)
+      case 'H256':
+        return new SCALETypeDefinition(SCALETypeKind.HASH, original, 256)
+      case 'AccountId':
+        return new SCALETypeDefinition(SCALETypeKind.ACCOUNT_ID, original)
+      case 'LookupSource':
+        return new SCALETypeDefinition(SCALETypeKind.MULTI_ADDRESS, original)
+      default:
+        if (typeAliases[name] !== undefined) {
+          return SCALETypeDefinition.parseNormalized(original, typeAliases[name])
+        }
+
+        throw new UnsupportedError(Domain.SUBSTRATE, `Unsupported argument type ${original}.`)
+    }
+  }
+
+  private static parseTuple(original: string, type: string): SCALETypeDefinition {
+    const elements: string[] = SCALETypeDefinition.splitParameters(type.slice(1, -1))
+
+    return new SCALETypeDefinition(
+      SCALETypeKind.TUPLE,
+      original,
+      undefined,
+      elements.map((element: string) => SCALETypeDefinition.parseNormalized(original, element))
+    )
+  }
+
+  private static parseFixedArray(original: string, element: string, length: number): SCALETypeDefinition {
+    if (element === 'u8') {
+      return new SCALETypeDefinition(SCALETypeKind.HASH, original, length * 8)
+    }
+
+    // an array of a fixed length is encoded like a tuple of its elements
+    return new SCALETypeDefinition(
+      SCALETypeKind.TUPLE,
+      original,
+      undefined,
+      new Array(length).fill(SCALETypeDefinition.parseNormalized(original, element))
+    )
+  }
+
+  // structs and enums of the metadata type registry, see `MetadataV14PortableRegistry#typeName`:
+  // `{"_struct":[["name","Type"],...]}` and `{"_enum":[[index,"Name","Type"|null],...]}`
+  private static parseDescriptor(original: string, type: string): SCALETypeDefinition {
+    let descriptor: { _struct?: unknown; _enum?: unknown }
+    try {
+      descriptor = JSON.parse(type)
+    } catch {
+      throw new UnsupportedError(Domain.SUBSTRATE, `Unsupported argument type ${original}.`)
+    }
+
+    const isStruct: boolean =
+      Array.isArray(descriptor._struct) &&
+      descriptor._struct.every((field: unknown) => Array.isArray(field) && typeof field[0] === 'string' && typeof field[1] === 'string')
+    if (isStruct) {
+      const fields: [string, string][] = descriptor._struct as [string, string][]
+
+      return new SCALETypeDefinition(
+        SCALETypeKind.STRUCT,
+        original,
+        undefined,
+        fields.map(([_, field]: [string, string]) => SCALETypeDefinition.parseNormalized(original, field)),
+        fields.map(([name]: [string, string]) => ({ index: 0, name }))
+      )
+    }
+
+    const isEnum: boolean =
+      Array.isArray(descriptor._enum) &&
+      descriptor._enum.every(
+        (variant: unknown) =>
+          Array.isArray(variant) &&
+          Number.isInteger(variant[0]) &&
+          typeof variant[1] === 'string' &&
+          (typeof variant[2] === 'string' || variant[2] === null)
+      )
+    if (isEnum) {
+      const variants: [number, string, string | null][] = descriptor._enum as [number, string, string | null][]
+
+      return new SCALETypeDefinition(
+        SCALETypeKind.ENUM,
+        original,
+        undefined,
+        [],
+        variants.map(([index, name, variant]: [number, string, string | null]) => ({
+          index,
+          name,
+          definition: variant !== null ? SCALETypeDefinition.parseNormalized(original, variant) : undefined
+        }))
+      )
+    }
+
+    throw new UnsupportedError(Domain.SUBSTRATE, `Unsupported argument type ${original}.`)
+  }
+
+  private static splitParameters(parameters: string): string[] {
+    const split: string[] = []
+    let depth: number = 0
+    let start: number = 0
+    for (let i: number = 0; i < parameters.length; i++) {
+      const char: string = parameters.charAt(i)
+      if (char === '<' || char === '(' || char === '[' || char === '{') {
+        depth += 1
+      } else if (char === '>' || char === ')' || char === ']' || char === '}') {
+        depth -= 1
+      } else if (char === ',' && depth === 0) {
+        split.push(parameters.slice(start, i))
+        start = i + 1
+      }
+    }
+    split.push(parameters.slice(start))
+
+    return split.filter((parameter: string) => parameter.length > 0)
+  }
+
+  private constructor(
+    readonly kind: SCALETypeKind,
+    readonly type: string,
+    readonly bitLength?: number,
+    readonly elements: SCALETypeDefinition[] = [],
+    // the fields of a struct (only their names) or the variants of an enum
+    readonly variants: SCALEVariantDefinition[] = []
+  ) {}
+
+  public encode(network: SubstrateNetwork, value: any): SCALEType {
+    if (value instanceof SCALEType) {
+      return value
+    }
+
+    // tslint:disable-next-line: switch-default
+    switch (this.kind) {
+      case SCALETypeKind.BOOLEAN:
+        this.assertValue(typeof value === 'boolean', value)
+
+        return SCALEBoolean.from(value)
+      case SCALETypeKind.INT:
+      case SCALETypeKind.SIGNED_INT:
+        return this.encodeInt(value)
+      case SCALETypeKind.CHAR:
+        this.assertValue(typeof value === 'string' && Array.from(value).length === 1, value)
+
+        return SCALEInt.from(value.codePointAt(0) ?? 0, this.bitLength)
+      case SCALETypeKind.COMPACT:
+        this.assertValue(isUnsignedInteger(value), value)
+
+        return SCALECompactInt.from(value)
+      case SCALETypeKind.BYTES:
+        return SCALEBytes.from(value)
+      case SCALETypeKind.STRING:
+        this.assertValue(typeof value === 'string', value)
+
+        return SCALEString.from(value)
+      case SCALETypeKind.HASH:
+        const hash: SCALEHash = SCALEHash.from(value)
+        this.assertValue(hash.value.length * 8 === this.bitLength, value)
+
+        return hash
+      case SCALETypeKind.ACCOUNT_ID:
+        return SCALEAccountId.from(value, network)
+      case SCALETypeKind.MULTI_ADDRESS:
+        return SCALEMultiAddress.from(value, SCALEMultiAddressType.Id, network)
+      case SCALETypeKind.ARRAY:
+        this.assertValue(Array.isArray(value), value)
+
+        return SCALEArray.from(value.map((element: unknown) => this.elements[0].encode(network, element)))
+      case SCALETypeKind.OPTIONAL:
+        return value !== undefined && value !== null ? SCALEOptional.from(this.elements[0].encode(network, value)) : SCALEOptional.empty()
+      case SCALETypeKind.TUPLE:
+        this.assertValue(Array.isArray(value) && value.length === this.elements.length, value)
+
+        return SCALEComposite.from(
+          this.elements.map((element: SCALETypeDefinition, index: number) => element.encode(network, value[index]))
+        )
+      case SCALETypeKind.STRUCT:
+        return this.encodeStruct(network, value)
+      case SCALETypeKind.ENUM:
+        return this.encodeEnum(network, value)
+    }
+  }
+
+  public decode(network: SubstrateNetwork, runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEType> {
+    // tslint:disable-next-line: switch-default
+    switch (this.kind) {
+      case SCALETypeKind.BOOLEAN:
+        return SCALEBoolean.decode(hex)
+      case SCALETypeKind.INT:
+      case SCALETypeKind.CHAR:
+        return SCALEInt.decode(hex, this.bitLength)
+      case SCALETypeKind.SIGNED_INT:
+        const unsigned: SCALEDecodeResult<SCALEInt> = SCALEInt.decode(hex, this.bitLength)
+        const range: BigNumber = new BigNumber(2).pow(unsigned.bytesDecoded * 8)
+
+        return {
+          bytesDecoded: unsigned.bytesDecoded,
+          decoded: SCALEInt.from(
+            unsigned.decoded.gte(range.dividedBy(2)) ? unsigned.decoded.value.minus(range) : unsigned.decoded.value,
+            this.bitLength
+          )
+        }
+      case SCALETypeKind.COMPACT:
+        return SCALECompactInt.decode(hex)
+      case SCALETypeKind.BYTES:
+        return SCALEBytes.decode(hex)
+      case SCALETypeKind.STRING:
+        return SCALEString.decode(hex)
+      case SCALETypeKind.HASH:
+        return SCALEHash.decode(hex, this.bitLength!)
+      case SCALETypeKind.ACCOUNT_ID:
+        return SCALEAccountId.decode(network, hex)
+      case SCALETypeKind.MULTI_ADDRESS:
+        return SCALEMultiAddress.decode(network, hex, undefined, runtimeVersion)
+      case SCALETypeKind.ARRAY:
+        return SCALEArray.decode(network, runtimeVersion, hex, this.elements[0].decoder())
+      case SCALETypeKind.OPTIONAL:
+        return SCALEOptional.decode(network, runtimeVersion, hex, this.elements[0].decoder())
+      case SCALETypeKind.TUPLE:
+      case SCALETypeKind.STRUCT:
+        return SCALEComposite.decode(
+          network,
+          runtimeVersion,
+          hex,
+          this.elements.map((element: SCALETypeDefinition) => element.decoder())
+        )
+      case SCALETypeKind.ENUM:
+        return SCALEVariant.decode(network, runtimeVersion, hex, (index: number) => this.findVariant(index).definition?.decoder() ?? null)
+    }
+  }
+
+  // the representation shown to the user, addresses are SS58 encoded and numbers are decimal strings
+  public toHumanReadable(value: SCALEType): unknown {
+    // tslint:disable-next-line: switch-default
+    switch (this.kind) {
+      case SCALETypeKind.BOOLEAN:
+        return (value as SCALEBoolean).value
+      case SCALETypeKind.INT:
+      case SCALETypeKind.SIGNED_INT:
+      case SCALETypeKind.COMPACT:
+        return (value as SCALEInt | SCALECompactInt).value.toString(10)
+      case SCALETypeKind.CHAR:
+        return String.fromCodePoint((value as SCALEInt).toNumber())
+      case SCALETypeKind.BYTES:
+      case SCALETypeKind.HASH:
+        return addHexPrefix(value.toString())
+      case SCALETypeKind.STRING:
+        return (value as SCALEString).value
+      case SCALETypeKind.ACCOUNT_ID:
+        return (value as SCALEAccountId).asAddress()
+      case SCALETypeKind.MULTI_ADDRESS:
+        const multiAddress: SCALEMultiAddress<SCALEMultiAddressType> = value as SCALEMultiAddress<SCALEMultiAddressType>
+
+        return SCALEMultiAddress.isOfType(multiAddress, SCALEMultiAddressType.Id) ? multiAddress.value.asAddress() : multiAddress.toString()
+      case SCALETypeKind.ARRAY:
+        return (value as SCALEArray<SCALEType>).elements.map((element: SCALEType) => this.elements[0].toHumanReadable(element))
+      case SCALETypeKind.OPTIONAL:
+        const optional: SCALEOptional<SCALEType> = value as SCALEOptional<SCALEType>
+
+        return optional.value !== undefined ? this.elements[0].toHumanReadable(optional.value) : null
+      case SCALETypeKind.TUPLE:
+        return (value as SCALEComposite).elements.map((element: SCALEType, index: number) => this.elements[index].toHumanReadable(element))
+      case SCALETypeKind.STRUCT:
+        return (value as SCALEComposite).elements.reduce(
+          (fields: { [name: string]: unknown }, element: SCALEType, index: number) =>
+            Object.assign(fields, { [this.variants[index].name]: this.elements[index].toHumanReadable(element) }),
+          {}
+        )
+      case SCALETypeKind.ENUM:
+        const variantValue: SCALEVariant = value as SCALEVariant
+        const variant: SCALEVariantDefinition = this.findVariant(variantValue.index)
+
+        return variant.definition !== undefined && variantValue.value !== undefined
+          ? { [variant.name]: variant.definition.toHumanReadable(variantValue.value) }
+          : variant.name
+    }
+  }
+
+  private encodeInt(value: unknown): SCALEInt {
+    const range: BigNumber = new BigNumber(2).pow(this.bitLength ?? 0)
+    const [min, max]: [BigNumber, BigNumber] =
+      this.kind === SCALETypeKind.SIGNED_INT ? [range.dividedBy(2).negated(), range.dividedBy(2)] : [new BigNumber(0), range]
+    this.assertValue(isInteger(value) && new BigNumber(value).gte(min) && new BigNumber(value).lt(max), value)
+
+    return SCALEInt.from(value, this.bitLength)
+  }
+
+  private encodeStruct(network: SubstrateNetwork, value: unknown): SCALEComposite {
+    this.assertValue(typeof value === 'object' && value !== null && !Array.isArray(value), value)
+
+    return SCALEComposite.from(
+      this.elements.map((element: SCALETypeDefinition, index: number) => {
+        const field: unknown = (value as { [name: string]: unknown })[this.variants[index].name]
+        this.assertValue(field !== undefined, value)
+
+        return element.encode(network, field)
+      })
+    )
+  }
+
+  // variants without fields are given by their name, all others as an object with their name as its only key, e.g. `{ Id: address }`
+  private encodeEnum(network: SubstrateNetwork, value: unknown): SCALEVariant {
+    const entries: [string, unknown][] = typeof value === 'object' && value !== null ? Object.entries(value) : []
+    const [name, fields]: [string | undefined, unknown] =
+      typeof value === 'string' ? [value, undefined] : entries.length === 1 ? entries[0] : [undefined, undefined]
+    const variant: SCALEVariantDefinition | undefined = this.variants.find(
+      (candidate: SCALEVariantDefinition) => candidate.name === name && (candidate.definition === undefined) === (fields === undefined)
+    )
+    if (variant === undefined) {
+      throw new InvalidValueError(Domain.SUBSTRATE, `Invalid value ${value} for argument type ${this.type}.`)
+    }
+
+    return SCALEVariant.from(variant.index, variant.definition?.encode(network, fields))
+  }
+
+  private decoder(): DecoderMethod<SCALEType> {
+    return (network: SubstrateNetwork, runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEType> =>
+      this.decode(network, runtimeVersion, hex)
+  }
+
+  private findVariant(index: number): SCALEVariantDefinition {
+    const variant: SCALEVariantDefinition | undefined = this.variants.find((candidate: SCALEVariantDefinition) => candidate.index === index)
+    if (variant === undefined) {
+      throw new InvalidValueError(Domain.SUBSTRATE, `Unknown variant ${index} of argument type ${this.type}.`)
+    }
+
+    return variant
+  }
+
+  private assertValue(condition: boolean, value: unknown): asserts condition {
+    if (!condition) {
+      throw new InvalidValueError(Domain.SUBSTRATE, `Invalid value ${value} for argument type ${this.type}.`)
+    }
+  }
+}
+
+function isUnsignedInteger(value: unknown): value is number | string | BigNumber {
+  return isInteger(value) && !new BigNumber(value).isNegative()
+}
+
+function isInteger(value: unknown): value is number | string | BigNumber {
+  if (typeof value !== 'number' && typeof value !== 'string' && !BigNumber.isBigNumber(value)) {
+    return false
+  }
+
+  return new BigNumber(value).isInteger()
+}
@@ -0,0 +1,47 @@
+import { stripHexPrefix } from '../../../../../../utils/hex'
+import { SubstrateNetwork } from '../../../../SubstrateNetwork'
+import { DecoderMethod, SCALEDecodeResult } from '../SCALEDecoder'
+
+import { SCALEEncodeConfig, SCALEType } from './SCALEType'
+
+// a fixed number of elements without a length prefix, e.g. the fields of a struct, a tuple or an array of a fixed length
+export class SCALEComposite extends SCALEType {
+  public static from(elements: SCALEType[]): SCALEComposite {
+    return new SCALEComposite(elements)
+  }
+
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    hex: string,
+    decodeElements: DecoderMethod<SCALEType>[]
+  ): SCALEDecodeResult<SCALEComposite> {
+    let _hex: string = stripHexPrefix(hex)
+
+    const elements: SCALEType[] = []
+    let bytesDecoded: number = 0
+    for (const decodeElement of decodeElements) {
+      const element: SCALEDecodeResult<SCALEType> = decodeElement(network, runtimeVersion, _hex)
+      elements.push(element.decoded)
+      bytesDecoded += element.bytesDecoded
+      _hex = _hex.slice(element.bytesDecoded * 2)
+    }
+
+    return {
+      bytesDecoded,
+      decoded: SCALEComposite.from(elements)
+    }
+  }
+
+  private constructor(readonly elements: SCALEType[]) {
+    super()
+  }
+
+  public toString(): string {
+    return `(${this.elements.map((element: SCALEType) => element.toString()).join(', ')})`
+  }
+
+  protected _encode(config?: SCALEEncodeConfig): string {
+    return this.elements.map((element: SCALEType) => element.encode(config)).join('')
+  }
+}
@@ -136,8 +136,7 @@ export class SCALEMultiAddress<T extends SCALEMultiAddressType> extends SCALETyp
       default:
         if (
           (runtimeVersion === undefined) ||
-          (network === SubstrateNetwork.KUSAMA && runtimeVersion >= 2028) ||
-          (network === SubstrateNetwork.POLKADOT && runtimeVersion >= 28)
+          !((network === SubstrateNetwork.KUSAMA && runtimeVersion < 2028) || (network === SubstrateNetwork.POLKADOT && runtimeVersion < 28))
         ) {
           throw new Error('SCALEMultiAddress#decode: Unknown multi address type')
         } else {
@@ -162,8 +161,11 @@ export class SCALEMultiAddress<T extends SCALEMultiAddressType> extends SCALETyp
   protected _encode(config?: SCALEEncodeConfig): string {
     if (
       (config?.network === undefined || config?.runtimeVersion === undefined) ||
-      (config?.network === SubstrateNetwork.KUSAMA && config?.runtimeVersion >= 2028) ||
-      (config?.network === SubstrateNetwork.POLKADOT && config?.runtimeVersion >= 28)
+      // chains configured from a descriptor have always used multi addresses
+      !(
+        (config?.network === SubstrateNetwork.KUSAMA && config?.runtimeVersion < 2028) ||
+        (config?.network === SubstrateNetwork.POLKADOT && config?.runtimeVersion < 28)
+      )
     ) {
       return toHexStringRaw(this.type, 2) + (this.value?.encode(config) ?? '')
     } else {
@@ -0,0 +1,48 @@
+import { stripHexPrefix } from '../../../../../../utils/hex'
+import { SubstrateNetwork } from '../../../../SubstrateNetwork'
+import { DecoderMethod, SCALEDecodeResult } from '../SCALEDecoder'
+
+import { SCALECompactInt } from './SCALECompactInt'
+import { SCALEEncodeConfig, SCALEType } from './SCALEType'
+
+// a value encoded as length-prefixed bytes, e.g. the calls of the multisig pallet
+export class SCALEOpaque<T extends SCALEType> extends SCALEType {
+  public static from<T extends SCALEType>(value: T): SCALEOpaque<T> {
+    return new SCALEOpaque(value)
+  }
+
+  public static decode<T extends SCALEType>(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    hex: string,
+    decodeValue: DecoderMethod<T>
+  ): SCALEDecodeResult<SCALEOpaque<T>> {
+    const _hex: string = stripHexPrefix(hex)
+
+    const length: SCALEDecodeResult<SCALECompactInt> = SCALECompactInt.decode(_hex)
+    const value: SCALEDecodeResult<T> = decodeValue(
+      network,
+      runtimeVersion,
+      _hex.substr(length.bytesDecoded * 2, length.decoded.toNumber() * 2)
+    )
+
+    return {
+      bytesDecoded: length.bytesDecoded + length.decoded.toNumber(),
+      decoded: SCALEOpaque.from(value.decoded)
+    }
+  }
+
+  private constructor(readonly value: T) {
+    super()
+  }
+
+  public toString(): string {
+    return this.value.toString()
+  }
+
+  protected _encode(config?: SCALEEncodeConfig): string {
+    const encoded: string = this.value.encode({ network: config?.network, runtimeVersion: config?.runtimeVersion })
+
+    return SCALECompactInt.from(encoded.length / 2).encode(config) + encoded
+  }
+}
@@ -0,0 +1,48 @@
+import { InvalidValueError } from '../../../../../../errors'
+import { Domain } from '../../../../../../errors/coinlib-error'
+import { stripHexPrefix, toHexStringRaw } from '../../../../../../utils/hex'
+import { SubstrateNetwork } from '../../../../SubstrateNetwork'
+import { DecoderMethod, SCALEDecodeResult } from '../SCALEDecoder'
+
+import { SCALEEncodeConfig, SCALEType } from './SCALEType'
+
+// a variant of an enum with its fields, the variant is encoded as its index in a single byte
+export class SCALEVariant extends SCALEType {
+  public static from(index: number, value?: SCALEType): SCALEVariant {
+    return new SCALEVariant(index, value)
+  }
+
+  public static decode(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    hex: string,
+    getDecoder: (index: number) => DecoderMethod<SCALEType> | null | undefined
+  ): SCALEDecodeResult<SCALEVariant> {
+    const _hex: string = stripHexPrefix(hex)
+
+    const index: number = parseInt(_hex.substr(0, 2), 16)
+    const decoder: DecoderMethod<SCALEType> | null | undefined = getDecoder(index)
+    if (decoder === undefined) {
+      throw new InvalidValueError(Domain.SUBSTRATE, 'SCALEVariant#decode: Unknown variant')
+    }
+
+    const value: SCALEDecodeResult<SCALEType> | undefined = decoder !== null ? decoder(network, runtimeVersion, _hex.slice(2)) : undefined
+
+    return {
+      bytesDecoded: (value?.bytesDecoded ?? 0) + 1,
+      decoded: SCALEVariant.from(index, value?.decoded)
+    }
+  }
+
+  private constructor(readonly index: number, readonly value?: SCALEType) {
+    super()
+  }
+
+  public toString(): string {
+    return this.value !== undefined ? `${this.index}(${this.value.toString()})` : this.index.toString()
+  }
+
+  protected _encode(config?: SCALEEncodeConfig): string {
+    return toHexStringRaw(this.index) + (this.value?.encode(config) ?? '')
+  }
+}
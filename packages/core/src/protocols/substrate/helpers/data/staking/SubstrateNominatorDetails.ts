@@ -12,6 +12,24 @@ export interface SubstrateNominatorRewardDetails {
   timestamp: number
 }
 
+export interface SubstrateValidatorEraReward {
+  validator: string
+  amount: string
+  claimed: boolean
+}
+
+export interface SubstrateNominatorEraReward {
+  eraIndex: number
+  amount: string
+  validators: SubstrateValidatorEraReward[]
+}
+
+export interface SubstratePendingPayout {
+  validator: string
+  eraIndex: number
+  amount: string
+}
+
 export type SubstrateStakingStatus = 'bonded' | 'nominating' | 'nominating_waiting' | 'nominating_inactive'
 
 export interface SubstrateStakingDetails {
@@ -4,17 +4,21 @@ import { SCALEClass } from '../scale/type/SCALEClass'
 import { SCALEEnum } from '../scale/type/SCALEEnum'
 import { SCALEHash } from '../scale/type/SCALEHash'
 
-const SIGNATURE_BITS = 64 * 8 // 64 bytes
-
 export enum SubstrateSignatureType {
   Ed25519 = 0,
   Sr25519,
   Ecdsa
 }
 
+function getSignatureBits(type: SubstrateSignatureType): number {
+  return type === SubstrateSignatureType.Ecdsa
+    ? 65 * 8 // 65 bytes, the recovery ID is appended
+    : 64 * 8 // 64 bytes
+}
+
 export class SubstrateSignature extends SCALEClass {
   public static create(type: SubstrateSignatureType, signature?: string | Uint8Array | Buffer): SubstrateSignature {
-    return new SubstrateSignature(SCALEEnum.from(type), signature ? SCALEHash.from(signature) : SCALEHash.empty(SIGNATURE_BITS))
+    return new SubstrateSignature(SCALEEnum.from(type), signature ? SCALEHash.from(signature) : SCALEHash.empty(getSignatureBits(type)))
   }
 
   public static decode(
@@ -25,7 +29,7 @@ export class SubstrateSignature extends SCALEClass {
     const decoder = new SCALEDecoder(network, runtimeVersion, raw)
 
     const type = decoder.decodeNextEnum((value) => SubstrateSignatureType[SubstrateSignatureType[value]])
-    const signature = decoder.decodeNextHash(SIGNATURE_BITS)
+    const signature: SCALEDecodeResult<SCALEHash> = decoder.decodeNextHash(getSignatureBits(type.decoded.value))
 
     return {
       bytesDecoded: type.bytesDecoded + signature.bytesDecoded,
@@ -13,7 +13,7 @@ import { SCALEHash } from '../scale/type/SCALEHash'
 import { SCALEMultiAddress, SCALEMultiAddressType } from '../scale/type/SCALEMultiAddress'
 import { SCALEEncodeConfig, SCALEType } from '../scale/type/SCALEType'
 
-import { SubstrateTransactionMethod } from './method/SubstrateTransactionMethod'
+import { SubstrateNestedCallType, SubstrateTransactionMethod } from './method/SubstrateTransactionMethod'
 import { SubstrateSignature, SubstrateSignatureType } from './SubstrateSignature'
 
 const VERSION = 4
@@ -42,7 +42,14 @@ export enum SubstrateTransactionType {
   COLLECT_PAYOUT,
   SET_PAYEE,
   SET_CONTROLLER,
-  SUBMIT_BATCH
+  SUBMIT_BATCH,
+  GENERIC_CALL,
+  ADD_PROXY,
+  REMOVE_PROXY,
+  PROXY,
+  AS_MULTI,
+  APPROVE_AS_MULTI,
+  SUBMIT_BATCH_ALL
 }
 
 export class SubstrateTransaction extends SCALEClass {
@@ -88,7 +95,9 @@ export class SubstrateTransaction extends SCALEClass {
     network: SubstrateNetwork, 
     runtimeVersion: number | undefined, 
     type: SubstrateTransactionType, 
-    raw: string
+    raw: string,
+    call?: SubstrateCall,
+    nestedCalls: SubstrateNestedCallType[] = []
   ): SCALEDecodeResult<SubstrateTransaction> {
     const bytes = SCALEBytes.decode(stripHexPrefix(raw))
     const decoder = new SCALEDecoder(network, runtimeVersion, bytes.decoded.bytes.toString('hex'))
@@ -100,7 +109,7 @@ export class SubstrateTransaction extends SCALEClass {
     const nonce = decoder.decodeNextCompactInt()
     const tip = decoder.decodeNextCompactInt()
     const method = decoder.decodeNextObject((network, runtimeVersion, hex) =>
-      SubstrateTransactionMethod.decode(network, runtimeVersion, type, hex)
+      SubstrateTransactionMethod.decode(network, runtimeVersion, type, hex, call, nestedCalls)
     )
 
     return {
@@ -160,7 +169,9 @@ export class SubstrateTransaction extends SCALEClass {
     }
     const parts = this.method.toAirGapTransactionParts()
 
-    return parts.length > 0 ? parts.map((part) => Object.assign(airGapTransaction, part)) : [airGapTransaction]
+    return parts.length > 0
+      ? parts.map((part: Partial<IAirGapTransaction>) => Object.assign({}, airGapTransaction, part))
+      : [airGapTransaction]
   }
 
   protected _encode(config?: SCALEEncodeConfig): string {
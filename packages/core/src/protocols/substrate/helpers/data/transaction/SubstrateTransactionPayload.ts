@@ -1,5 +1,6 @@
 import BigNumber from '../../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
 import { SubstrateNetwork } from '../../../SubstrateNetwork'
+import { SubstrateCall } from '../metadata/decorator/call/SubstrateCall'
 import { SCALEDecoder, SCALEDecodeResult } from '../scale/SCALEDecoder'
 import { SCALEClass } from '../scale/type/SCALEClass'
 import { SCALECompactInt } from '../scale/type/SCALECompactInt'
@@ -36,12 +37,13 @@ export class SubstrateTransactionPayload extends SCALEClass {
     network: SubstrateNetwork,
     runtimeVersion: number | undefined,
     type: SubstrateTransactionType,
-    hex: string
+    hex: string,
+    call?: SubstrateCall
   ): SCALEDecodeResult<SubstrateTransactionPayload> {
     const decoder = new SCALEDecoder(network, runtimeVersion, hex)
 
     const method = decoder.decodeNextObject((network, runtimeVersion, hex) =>
-      SubstrateTransactionMethod.decode(network, runtimeVersion, type, hex)
+      SubstrateTransactionMethod.decode(network, runtimeVersion, type, hex, call)
     )
     const era = decoder.decodeNextEra()
     const nonce = decoder.decodeNextCompactInt()
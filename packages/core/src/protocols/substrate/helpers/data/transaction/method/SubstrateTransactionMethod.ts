@@ -1,5 +1,8 @@
+import { ConditionViolationError, NotFoundError, UnsupportedError } from '../../../../../../errors'
+import { Domain } from '../../../../../../errors/coinlib-error'
 import { IAirGapTransaction } from '../../../../../../interfaces/IAirGapTransaction'
 import { SubstrateNetwork } from '../../../../SubstrateNetwork'
+import { SubstrateCall } from '../../metadata/decorator/call/SubstrateCall'
 import { SCALEDecoder, SCALEDecodeResult } from '../../scale/SCALEDecoder'
 import { SCALEClass } from '../../scale/type/SCALEClass'
 import { SCALEInt } from '../../scale/type/SCALEInt'
@@ -8,6 +11,13 @@ import { SubstrateTransactionType } from '../SubstrateTransaction'
 
 import { SubstrateTransactionMethodArgsDecoder, SubstrateTransactionMethodArgsFactory } from './SubstrateTransactionMethodArgs'
 
+// identifies the type of a nested call, so it can be decoded without the runtime metadata
+export interface SubstrateNestedCallType {
+  moduleIndex: number
+  callIndex: number
+  type: SubstrateTransactionType
+}
+
 export class SubstrateTransactionMethod extends SCALEClass {
   public static create(
     network: SubstrateNetwork,
@@ -17,11 +27,18 @@ export class SubstrateTransactionMethod extends SCALEClass {
     args: any
   ): SubstrateTransactionMethod {
     const argsFactory = SubstrateTransactionMethodArgsFactory.create(network, type, args)
+    const nestedCalls: SubstrateTransactionMethod[] = argsFactory.createNestedCalls()
+
+    if (nestedCalls.some((call: SubstrateTransactionMethod) => call.type === SubstrateTransactionType.GENERIC_CALL)) {
+      throw new UnsupportedError(Domain.SUBSTRATE, 'Generic calls cannot be nested in other calls.')
+    }
 
     return new SubstrateTransactionMethod(
+      type,
       SCALEInt.from(moduleIndex),
       SCALEInt.from(callIndex),
       argsFactory.createFields(),
+      nestedCalls,
       argsFactory.createToAirGapTransactionParts()
     )
   }
@@ -30,14 +47,24 @@ export class SubstrateTransactionMethod extends SCALEClass {
     network: SubstrateNetwork,
     runtimeVersion: number | undefined,
     type: SubstrateTransactionType,
-    raw: string
+    raw: string,
+    call?: SubstrateCall,
+    nestedCalls: SubstrateNestedCallType[] = []
   ): SCALEDecodeResult<SubstrateTransactionMethod> {
     const decoder = new SCALEDecoder(network, runtimeVersion, raw)
 
     const moduleIndex = decoder.decodeNextInt(8)
     const callIndex = decoder.decodeNextInt(8)
 
-    const argsDecoder = SubstrateTransactionMethodArgsDecoder.create(type)
+    if (call && (call.moduleIndex !== moduleIndex.decoded.toNumber() || call.callIndex !== callIndex.decoded.toNumber())) {
+      throw new ConditionViolationError(Domain.SUBSTRATE, `The encoded call does not match ${call.moduleName}.${call.name}.`)
+    }
+
+    const argsDecoder: SubstrateTransactionMethodArgsDecoder<unknown> = SubstrateTransactionMethodArgsDecoder.create(
+      type,
+      call,
+      nestedCalls
+    )
     const args = decoder.decodeNextObject((network, runtimeVersion, hex) => argsDecoder.decode(network, runtimeVersion, hex))
 
     return {
@@ -46,17 +73,51 @@ export class SubstrateTransactionMethod extends SCALEClass {
     }
   }
 
+  public static decodeNested(
+    network: SubstrateNetwork,
+    runtimeVersion: number | undefined,
+    raw: string,
+    nestedCalls: SubstrateNestedCallType[]
+  ): SCALEDecodeResult<SubstrateTransactionMethod> {
+    const decoder: SCALEDecoder = new SCALEDecoder(network, runtimeVersion, raw)
+
+    const moduleIndex: number = decoder.decodeNextInt(8).decoded.toNumber()
+    const callIndex: number = decoder.decodeNextInt(8).decoded.toNumber()
+    const nestedCall: SubstrateNestedCallType | undefined = nestedCalls.find(
+      (call: SubstrateNestedCallType) => call.moduleIndex === moduleIndex && call.callIndex === callIndex
+    )
+
+    if (!nestedCall) {
+      throw new NotFoundError(Domain.SUBSTRATE, `Unknown nested call ${moduleIndex}:${callIndex}.`)
+    }
+
+    return SubstrateTransactionMethod.decode(network, runtimeVersion, nestedCall.type, raw, undefined, nestedCalls)
+  }
+
   protected readonly scaleFields = [this.moduleIndex, this.callIndex, ...this.args.map((arg) => arg[1])]
 
   private constructor(
+    readonly type: SubstrateTransactionType,
     readonly moduleIndex: SCALEInt,
     readonly callIndex: SCALEInt,
     readonly args: [string, SCALEType][],
+    readonly nestedCalls: SubstrateTransactionMethod[],
     readonly toAirGapTransactionParts: () => Partial<IAirGapTransaction>[]
   ) {
     super()
   }
 
+  public getNestedCallTypes(): SubstrateNestedCallType[] {
+    return this.nestedCalls.reduce(
+      (types: SubstrateNestedCallType[], call: SubstrateTransactionMethod) =>
+        types.concat(
+          { moduleIndex: call.moduleIndex.toNumber(), callIndex: call.callIndex.toNumber(), type: call.type },
+          call.getNestedCallTypes()
+        ),
+      []
+    )
+  }
+
   public toString(): string {
     return JSON.stringify(
       {
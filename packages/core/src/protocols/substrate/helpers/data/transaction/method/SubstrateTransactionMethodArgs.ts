@@ -1,21 +1,43 @@
 // tslint:disable: max-classes-per-file
 import BigNumber from '../../../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { ConditionViolationError } from '../../../../../../errors'
+import { Domain } from '../../../../../../errors/coinlib-error'
 import { IAirGapTransaction } from '../../../../../../interfaces/IAirGapTransaction'
 import { assertFields } from '../../../../../../utils/assert'
 import { SubstrateNetwork } from '../../../../SubstrateNetwork'
 import { SubstrateAccountId, SubstrateAddress } from '../../account/SubstrateAddress'
+import { SubstrateCall, SubstrateCallArgument } from '../../metadata/decorator/call/SubstrateCall'
+import { SubstrateMultisigTimepoint } from '../../multisig/SubstrateMultisigTimepoint'
+import { SubstrateProxyType } from '../../proxy/SubstrateProxyType'
 import { SCALEDecoder, SCALEDecodeResult } from '../../scale/SCALEDecoder'
+import { SCALETypeDefinition } from '../../scale/SCALETypeDefinition'
 import { SCALEAccountId } from '../../scale/type/SCALEAccountId'
 import { SCALEArray } from '../../scale/type/SCALEArray'
+import { SCALEBoolean } from '../../scale/type/SCALEBoolean'
 import { SCALECompactInt } from '../../scale/type/SCALECompactInt'
 import { SCALEEnum } from '../../scale/type/SCALEEnum'
+import { SCALEHash } from '../../scale/type/SCALEHash'
 import { SCALEInt } from '../../scale/type/SCALEInt'
 import { SCALEMultiAddress, SCALEMultiAddressType } from '../../scale/type/SCALEMultiAddress'
+import { SCALEOpaque } from '../../scale/type/SCALEOpaque'
+import { SCALEOptional } from '../../scale/type/SCALEOptional'
 import { SCALEType } from '../../scale/type/SCALEType'
 import { SubstratePayee } from '../../staking/SubstratePayee'
 import { SubstrateTransactionType } from '../SubstrateTransaction'
 
-import { SubstrateTransactionMethod } from './SubstrateTransactionMethod'
+import { SubstrateNestedCallType, SubstrateTransactionMethod } from './SubstrateTransactionMethod'
+
+function decodeAccountId(network: SubstrateNetwork, _runtimeVersion: number | undefined, hex: string): SCALEDecodeResult<SCALEAccountId> {
+  return SCALEAccountId.decode(network, hex)
+}
+
+function decodeProxyType(
+  _network: SubstrateNetwork,
+  _runtimeVersion: number | undefined,
+  hex: string
+): SCALEDecodeResult<SCALEEnum<number>> {
+  return SCALEEnum.decode(hex, (value: number) => value)
+}
 
 interface TransferArgs {
   to: SubstrateAccountId
@@ -67,6 +89,40 @@ interface SubmitBatchArgs {
   calls: SubstrateTransactionMethod[]
 }
 
+interface GenericCallArgs {
+  call: SubstrateCall
+  args: { [name: string]: unknown }
+}
+
+interface ProxyDefinitionArgs {
+  delegate: SubstrateAccountId
+  proxyType: SubstrateProxyType
+  delay: number | BigNumber
+}
+
+interface ProxyArgs {
+  real: SubstrateAccountId
+  forceProxyType?: SubstrateProxyType | null
+  call: SubstrateTransactionMethod
+}
+
+interface AsMultiArgs {
+  threshold: number
+  otherSignatories: SubstrateAccountId[]
+  timepoint?: SubstrateMultisigTimepoint | null
+  call: SubstrateTransactionMethod
+  storeCall?: boolean
+  maxWeight: number | BigNumber
+}
+
+interface ApproveAsMultiArgs {
+  threshold: number
+  otherSignatories: SubstrateAccountId[]
+  timepoint?: SubstrateMultisigTimepoint | null
+  callHash: string
+  maxWeight: number | BigNumber
+}
+
 export abstract class SubstrateTransactionMethodArgsFactory<T> {
   public static create(network: SubstrateNetwork, type: SubstrateTransactionType, args: any): SubstrateTransactionMethodArgsFactory<any> {
     // tslint:disable-next-line: switch-default
@@ -102,7 +158,7 @@ export abstract class SubstrateTransactionMethodArgsFactory<T> {
       case SubstrateTransactionType.CANCEL_NOMINATION:
         return new StopNominatingArgsFactory(network, args)
       case SubstrateTransactionType.COLLECT_PAYOUT:
-        assertFields('collectPayout', args, 'eraIndex', 'validators')
+        assertFields('collectPayout', args, 'validator', 'era')
 
         return new PayoutStakersArgsFactory(network, args)
       case SubstrateTransactionType.SET_PAYEE:
@@ -116,6 +172,34 @@ export abstract class SubstrateTransactionMethodArgsFactory<T> {
       case SubstrateTransactionType.SUBMIT_BATCH:
         assertFields('submitBatch', args, 'calls')
 
+        return new SubmitBatchArgsFactory(network, args)
+      case SubstrateTransactionType.GENERIC_CALL:
+        assertFields('genericCall', args, 'call', 'args')
+
+        return new GenericCallArgsFactory(network, args)
+      case SubstrateTransactionType.ADD_PROXY:
+        assertFields('addProxy', args, 'delegate', 'proxyType', 'delay')
+
+        return new ProxyDefinitionArgsFactory(network, args, SubstrateTransactionType.ADD_PROXY)
+      case SubstrateTransactionType.REMOVE_PROXY:
+        assertFields('removeProxy', args, 'delegate', 'proxyType', 'delay')
+
+        return new ProxyDefinitionArgsFactory(network, args, SubstrateTransactionType.REMOVE_PROXY)
+      case SubstrateTransactionType.PROXY:
+        assertFields('proxy', args, 'real', 'call')
+
+        return new ProxyArgsFactory(network, args)
+      case SubstrateTransactionType.AS_MULTI:
+        assertFields('asMulti', args, 'threshold', 'otherSignatories', 'call', 'maxWeight')
+
+        return new AsMultiArgsFactory(network, args)
+      case SubstrateTransactionType.APPROVE_AS_MULTI:
+        assertFields('approveAsMulti', args, 'threshold', 'otherSignatories', 'callHash', 'maxWeight')
+
+        return new ApproveAsMultiArgsFactory(network, args)
+      case SubstrateTransactionType.SUBMIT_BATCH_ALL:
+        assertFields('submitBatchAll', args, 'calls')
+
         return new SubmitBatchArgsFactory(network, args)
     }
   }
@@ -124,10 +208,18 @@ export abstract class SubstrateTransactionMethodArgsFactory<T> {
 
   public abstract createFields(): [string, SCALEType][]
   public abstract createToAirGapTransactionParts(): () => Partial<IAirGapTransaction>[]
+
+  public createNestedCalls(): SubstrateTransactionMethod[] {
+    return []
+  }
 }
 
 export abstract class SubstrateTransactionMethodArgsDecoder<T> {
-  public static create(type: SubstrateTransactionType): SubstrateTransactionMethodArgsDecoder<any> {
+  public static create(
+    type: SubstrateTransactionType,
+    call?: SubstrateCall,
+    nestedCalls: SubstrateNestedCallType[] = []
+  ): SubstrateTransactionMethodArgsDecoder<unknown> {
     // tslint:disable-next-line: switch-default
     switch (type) {
       case SubstrateTransactionType.TRANSFER:
@@ -153,7 +245,23 @@ export abstract class SubstrateTransactionMethodArgsDecoder<T> {
       case SubstrateTransactionType.SET_CONTROLLER:
         return new SetControllerArgsDecoder()
       case SubstrateTransactionType.SUBMIT_BATCH:
-        return new SubmitBatchArgsDecoder()
+      case SubstrateTransactionType.SUBMIT_BATCH_ALL:
+        return new SubmitBatchArgsDecoder(nestedCalls)
+      case SubstrateTransactionType.GENERIC_CALL:
+        if (call === undefined) {
+          throw new ConditionViolationError(Domain.SUBSTRATE, 'A generic call cannot be decoded without its description.')
+        }
+
+        return new GenericCallArgsDecoder(call)
+      case SubstrateTransactionType.ADD_PROXY:
+      case SubstrateTransactionType.REMOVE_PROXY:
+        return new ProxyDefinitionArgsDecoder()
+      case SubstrateTransactionType.PROXY:
+        return new ProxyArgsDecoder(nestedCalls)
+      case SubstrateTransactionType.AS_MULTI:
+        return new AsMultiArgsDecoder(nestedCalls)
+      case SubstrateTransactionType.APPROVE_AS_MULTI:
+        return new ApproveAsMultiArgsDecoder()
     }
   }
 
@@ -468,13 +576,20 @@ class SubmitBatchArgsFactory extends SubstrateTransactionMethodArgsFactory<Submi
     return () =>
       this.args.calls.map((call) => call.toAirGapTransactionParts()).reduce((flatten, toFlatten) => flatten.concat(toFlatten), [])
   }
+
+  public createNestedCalls(): SubstrateTransactionMethod[] {
+    return this.args.calls
+  }
 }
 
 class SubmitBatchArgsDecoder extends SubstrateTransactionMethodArgsDecoder<SubmitBatchArgs> {
+  constructor(private readonly nestedCalls: SubstrateNestedCallType[]) {
+    super()
+  }
+
   protected _decode(decoder: SCALEDecoder): SCALEDecodeResult<SubmitBatchArgs> {
-    // temporary fixed type
     const calls = decoder.decodeNextArray((network, runtimeVersion, hex) =>
-      SubstrateTransactionMethod.decode(network, runtimeVersion, SubstrateTransactionType.COLLECT_PAYOUT, hex)
+      SubstrateTransactionMethod.decodeNested(network, runtimeVersion, hex, this.nestedCalls)
     )
 
     return {
@@ -485,3 +600,321 @@ class SubmitBatchArgsDecoder extends SubstrateTransactionMethodArgsDecoder<Submi
     }
   }
 }
+
+class GenericCallArgsFactory extends SubstrateTransactionMethodArgsFactory<GenericCallArgs> {
+  public createFields(): [string, SCALEType][] {
+    const call: SubstrateCall = this.args.call
+    const names: string[] = call.args.map((arg: SubstrateCallArgument) => arg.name)
+
+    return call.args.map((arg: SubstrateCallArgument) => {
+      const value: unknown = this.args.args[arg.name]
+      if (value === undefined) {
+        throw new ConditionViolationError(
+          Domain.SUBSTRATE,
+          `${call.moduleName}.${call.name}, required: ${names.join(', ')}, but ${arg.name} is missing.`
+        )
+      }
+
+      return [arg.name, SCALETypeDefinition.parse(arg.type).encode(this.network, value)] as [string, SCALEType]
+    })
+  }
+
+  public createToAirGapTransactionParts(): () => Partial<IAirGapTransaction>[] {
+    return (): Partial<IAirGapTransaction>[] => {
+      const fields: [string, SCALEType][] = this.createFields()
+
+      // the names and types of a generic call are part of the unsigned request, only its module and call index are checked by the signer
+      return [
+        {
+          extra: {
+            type: SubstrateTransactionType[SubstrateTransactionType.GENERIC_CALL],
+            verified: false,
+            call: `${this.args.call.moduleName}.${this.args.call.name}`,
+            args: this.args.call.args.reduce(
+              (args: {}, arg: SubstrateCallArgument, index: number) =>
+                Object.assign(args, { [arg.name]: SCALETypeDefinition.parse(arg.type).toHumanReadable(fields[index][1]) }),
+              {}
+            )
+          }
+        }
+      ]
+    }
+  }
+}
+
+class GenericCallArgsDecoder extends SubstrateTransactionMethodArgsDecoder<GenericCallArgs> {
+  constructor(private readonly call: SubstrateCall) {
+    super()
+  }
+
+  protected _decode(decoder: SCALEDecoder): SCALEDecodeResult<GenericCallArgs> {
+    const args: [string, SCALEDecodeResult<SCALEType>][] = this.call.args.map((arg: SubstrateCallArgument) => {
+      const definition: SCALETypeDefinition = SCALETypeDefinition.parse(arg.type)
+
+      return [
+        arg.name,
+        decoder.decodeNextObject((network: SubstrateNetwork, runtimeVersion: number | undefined, hex: string) =>
+          definition.decode(network, runtimeVersion, hex)
+        )
+      ] as [string, SCALEDecodeResult<SCALEType>]
+    })
+
+    return {
+      bytesDecoded: args.reduce(
+        (bytesDecoded: number, [_, arg]: [string, SCALEDecodeResult<SCALEType>]) => bytesDecoded + arg.bytesDecoded,
+        0
+      ),
+      decoded: {
+        call: this.call,
+        args: args.reduce(
+          (decoded: {}, [name, arg]: [string, SCALEDecodeResult<SCALEType>]) => Object.assign(decoded, { [name]: arg.decoded }),
+          {}
+        )
+      }
+    }
+  }
+}
+
+class ProxyDefinitionArgsFactory extends SubstrateTransactionMethodArgsFactory<ProxyDefinitionArgs> {
+  constructor(network: SubstrateNetwork, args: ProxyDefinitionArgs, private readonly type: SubstrateTransactionType) {
+    super(network, args)
+  }
+
+  public createFields(): [string, SCALEType][] {
+    return [
+      ['delegate', SCALEAccountId.from(this.args.delegate, this.network)],
+      ['proxyType', SCALEEnum.from(this.args.proxyType)],
+      ['delay', SCALEInt.from(this.args.delay, 32)]
+    ]
+  }
+
+  public createToAirGapTransactionParts(): () => Partial<IAirGapTransaction>[] {
+    return (): Partial<IAirGapTransaction>[] => [
+      {
+        to: [SubstrateAddress.from(this.args.delegate, this.network).getValue()],
+        extra: {
+          type: SubstrateTransactionType[this.type],
+          proxyType: SubstrateProxyType[this.args.proxyType] ?? this.args.proxyType,
+          delay: this.args.delay.toString()
+        }
+      }
+    ]
+  }
+}
+
+class ProxyDefinitionArgsDecoder extends SubstrateTransactionMethodArgsDecoder<ProxyDefinitionArgs> {
+  protected _decode(decoder: SCALEDecoder): SCALEDecodeResult<ProxyDefinitionArgs> {
+    const delegate: SCALEDecodeResult<SCALEAccountId> = decoder.decodeNextAccountId()
+    const proxyType: SCALEDecodeResult<SCALEEnum<number>> = decoder.decodeNextEnum((value: number) => value)
+    const delay: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(32)
+
+    return {
+      bytesDecoded: delegate.bytesDecoded + proxyType.bytesDecoded + delay.bytesDecoded,
+      decoded: {
+        delegate: delegate.decoded.address,
+        proxyType: proxyType.decoded.value,
+        delay: delay.decoded.value
+      }
+    }
+  }
+}
+
+class ProxyArgsFactory extends SubstrateTransactionMethodArgsFactory<ProxyArgs> {
+  public createFields(): [string, SCALEType][] {
+    const forceProxyType: SubstrateProxyType | null = this.args.forceProxyType ?? null
+
+    return [
+      ['real', SCALEAccountId.from(this.args.real, this.network)],
+      ['forceProxyType', forceProxyType !== null ? SCALEOptional.from(SCALEEnum.from(forceProxyType)) : SCALEOptional.empty()],
+      ['call', this.args.call]
+    ]
+  }
+
+  public createToAirGapTransactionParts(): () => Partial<IAirGapTransaction>[] {
+    return (): Partial<IAirGapTransaction>[] => {
+      const parts: Partial<IAirGapTransaction>[] = this.args.call.toAirGapTransactionParts()
+
+      // the proxied call is executed on behalf of the real account
+      return (parts.length > 0 ? parts : [{}]).map((part: Partial<IAirGapTransaction>) => ({
+        ...part,
+        from: [SubstrateAddress.from(this.args.real, this.network).getValue()],
+        extra: {
+          type: SubstrateTransactionType[SubstrateTransactionType.PROXY],
+          call: SubstrateTransactionType[this.args.call.type]
+        }
+      }))
+    }
+  }
+
+  public createNestedCalls(): SubstrateTransactionMethod[] {
+    return [this.args.call]
+  }
+}
+
+class ProxyArgsDecoder extends SubstrateTransactionMethodArgsDecoder<ProxyArgs> {
+  constructor(private readonly nestedCalls: SubstrateNestedCallType[]) {
+    super()
+  }
+
+  protected _decode(decoder: SCALEDecoder): SCALEDecodeResult<ProxyArgs> {
+    const real: SCALEDecodeResult<SCALEAccountId> = decoder.decodeNextAccountId()
+    const forceProxyType: SCALEDecodeResult<SCALEOptional<SCALEEnum<number>>> = decoder.decodeNextOptional(decodeProxyType)
+    const call: SCALEDecodeResult<SubstrateTransactionMethod> = decoder.decodeNextObject(
+      (network: SubstrateNetwork, runtimeVersion: number | undefined, hex: string) =>
+        SubstrateTransactionMethod.decodeNested(network, runtimeVersion, hex, this.nestedCalls)
+    )
+
+    return {
+      bytesDecoded: real.bytesDecoded + forceProxyType.bytesDecoded + call.bytesDecoded,
+      decoded: {
+        real: real.decoded.address,
+        forceProxyType: forceProxyType.decoded.value?.value ?? null,
+        call: call.decoded
+      }
+    }
+  }
+}
+
+class AsMultiArgsFactory extends SubstrateTransactionMethodArgsFactory<AsMultiArgs> {
+  public createFields(): [string, SCALEType][] {
+    return [
+      ['threshold', SCALEInt.from(this.args.threshold, 16)],
+      ['otherSignatories', createSignatories(this.args.otherSignatories, this.network)],
+      ['maybeTimepoint', this.args.timepoint ? SCALEOptional.from(this.args.timepoint) : SCALEOptional.empty()],
+      ['call', SCALEOpaque.from(this.args.call)],
+      ['storeCall', SCALEBoolean.from(this.args.storeCall ?? false)],
+      ['maxWeight', SCALEInt.from(this.args.maxWeight, 64)]
+    ]
+  }
+
+  public createToAirGapTransactionParts(): () => Partial<IAirGapTransaction>[] {
+    return (): Partial<IAirGapTransaction>[] => {
+      const parts: Partial<IAirGapTransaction>[] = this.args.call.toAirGapTransactionParts()
+
+      return (parts.length > 0 ? parts : [{}]).map((part: Partial<IAirGapTransaction>) => ({
+        ...part,
+        extra: {
+          type: SubstrateTransactionType[SubstrateTransactionType.AS_MULTI],
+          call: SubstrateTransactionType[this.args.call.type],
+          ...createMultisigExtra(this.args, this.network)
+        }
+      }))
+    }
+  }
+
+  public createNestedCalls(): SubstrateTransactionMethod[] {
+    return [this.args.call]
+  }
+}
+
+class AsMultiArgsDecoder extends SubstrateTransactionMethodArgsDecoder<AsMultiArgs> {
+  constructor(private readonly nestedCalls: SubstrateNestedCallType[]) {
+    super()
+  }
+
+  protected _decode(decoder: SCALEDecoder): SCALEDecodeResult<AsMultiArgs> {
+    const threshold: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(16)
+    const otherSignatories: SCALEDecodeResult<SCALEArray<SCALEAccountId>> = decoder.decodeNextArray(decodeAccountId)
+    const timepoint: SCALEDecodeResult<SCALEOptional<SubstrateMultisigTimepoint>> = decoder.decodeNextOptional(
+      SubstrateMultisigTimepoint.decode
+    )
+    const call: SCALEDecodeResult<SCALEOpaque<SubstrateTransactionMethod>> = this.decodeNextCall(decoder)
+    const storeCall: SCALEDecodeResult<SCALEBoolean> = decoder.decodeNextBoolean()
+    const maxWeight: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(64)
+
+    return {
+      bytesDecoded:
+        threshold.bytesDecoded +
+        otherSignatories.bytesDecoded +
+        timepoint.bytesDecoded +
+        call.bytesDecoded +
+        storeCall.bytesDecoded +
+        maxWeight.bytesDecoded,
+      decoded: {
+        threshold: threshold.decoded.toNumber(),
+        otherSignatories: otherSignatories.decoded.elements.map((signatory: SCALEAccountId) => signatory.address),
+        timepoint: timepoint.decoded.value ?? null,
+        call: call.decoded.value,
+        storeCall: storeCall.decoded.value,
+        maxWeight: maxWeight.decoded.value
+      }
+    }
+  }
+
+  private decodeNextCall(decoder: SCALEDecoder): SCALEDecodeResult<SCALEOpaque<SubstrateTransactionMethod>> {
+    return decoder.decodeNextObject((network: SubstrateNetwork, runtimeVersion: number | undefined, hex: string) =>
+      SCALEOpaque.decode(
+        network,
+        runtimeVersion,
+        hex,
+        (innerNetwork: SubstrateNetwork, innerRuntimeVersion: number | undefined, innerHex: string) =>
+          SubstrateTransactionMethod.decodeNested(innerNetwork, innerRuntimeVersion, innerHex, this.nestedCalls)
+      )
+    )
+  }
+}
+
+class ApproveAsMultiArgsFactory extends SubstrateTransactionMethodArgsFactory<ApproveAsMultiArgs> {
+  public createFields(): [string, SCALEType][] {
+    return [
+      ['threshold', SCALEInt.from(this.args.threshold, 16)],
+      ['otherSignatories', createSignatories(this.args.otherSignatories, this.network)],
+      ['maybeTimepoint', this.args.timepoint ? SCALEOptional.from(this.args.timepoint) : SCALEOptional.empty()],
+      ['callHash', SCALEHash.from(this.args.callHash)],
+      ['maxWeight', SCALEInt.from(this.args.maxWeight, 64)]
+    ]
+  }
+
+  public createToAirGapTransactionParts(): () => Partial<IAirGapTransaction>[] {
+    return (): Partial<IAirGapTransaction>[] => [
+      {
+        extra: {
+          type: SubstrateTransactionType[SubstrateTransactionType.APPROVE_AS_MULTI],
+          callHash: this.args.callHash,
+          ...createMultisigExtra(this.args, this.network)
+        }
+      }
+    ]
+  }
+}
+
+class ApproveAsMultiArgsDecoder extends SubstrateTransactionMethodArgsDecoder<ApproveAsMultiArgs> {
+  protected _decode(decoder: SCALEDecoder): SCALEDecodeResult<ApproveAsMultiArgs> {
+    const threshold: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(16)
+    const otherSignatories: SCALEDecodeResult<SCALEArray<SCALEAccountId>> = decoder.decodeNextArray(decodeAccountId)
+    const timepoint: SCALEDecodeResult<SCALEOptional<SubstrateMultisigTimepoint>> = decoder.decodeNextOptional(
+      SubstrateMultisigTimepoint.decode
+    )
+    const callHash: SCALEDecodeResult<SCALEHash> = decoder.decodeNextHash(256)
+    const maxWeight: SCALEDecodeResult<SCALEInt> = decoder.decodeNextInt(64)
+
+    return {
+      bytesDecoded:
+        threshold.bytesDecoded + otherSignatories.bytesDecoded + timepoint.bytesDecoded + callHash.bytesDecoded + maxWeight.bytesDecoded,
+      decoded: {
+        threshold: threshold.decoded.toNumber(),
+        otherSignatories: otherSignatories.decoded.elements.map((signatory: SCALEAccountId) => signatory.address),
+        timepoint: timepoint.decoded.value ?? null,
+        callHash: callHash.decoded.toString(),
+        maxWeight: maxWeight.decoded.value
+      }
+    }
+  }
+}
+
+// the multisig pallet expects the other signatories to be sorted
+function createSignatories(signatories: SubstrateAccountId[], network: SubstrateNetwork): SCALEArray<SCALEAccountId> {
+  return SCALEArray.from(
+    signatories
+      .map((signatory: SubstrateAccountId) => SCALEAccountId.from(signatory, network))
+      .sort((first: SCALEAccountId, second: SCALEAccountId) => first.compare(second))
+  )
+}
+
+function createMultisigExtra(args: AsMultiArgs | ApproveAsMultiArgs, network: SubstrateNetwork): { [key: string]: unknown } {
+  return {
+    threshold: args.threshold,
+    otherSignatories: args.otherSignatories.map((signatory: SubstrateAccountId) => SubstrateAddress.from(signatory, network).getValue()),
+    timepoint: args.timepoint ? { height: args.timepoint.height.toNumber(), index: args.timepoint.index.toNumber() } : null
+  }
+}
@@ -1,9 +1,9 @@
 import { RPCBody } from '../../../../data/RPCBody'
 import axios from '../../../../dependencies/src/axios-0.19.0'
 import BigNumber from '../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
-import { Cache } from '../../../../utils/cache'
 import { NetworkError } from '../../../../errors'
 import { Domain } from '../../../../errors/coinlib-error'
+import { Cache } from '../../../../utils/cache'
 import { addHexPrefix, bytesToHex, stripHexPrefix, toHexString } from '../../../../utils/hex'
 import { SubstrateNetwork } from '../../SubstrateNetwork'
 import { SubstrateAccountInfo } from '../data/account/SubstrateAccountInfo'
@@ -12,11 +12,13 @@ import { SubstrateRegistration } from '../data/account/SubstrateRegistration'
 import { SubstrateCall } from '../data/metadata/decorator/call/SubstrateCall'
 import { MetadataDecorator } from '../data/metadata/decorator/MetadataDecorator'
 import { Metadata } from '../data/metadata/Metadata'
+import { SubstrateMultisig } from '../data/multisig/SubstrateMultisig'
 import { SCALEAccountId } from '../data/scale/type/SCALEAccountId'
 import { SCALEArray } from '../data/scale/type/SCALEArray'
 import { SCALECompactInt } from '../data/scale/type/SCALECompactInt'
 import { SCALEData } from '../data/scale/type/SCALEData'
 import { SCALEEnum } from '../data/scale/type/SCALEEnum'
+import { SCALEHash } from '../data/scale/type/SCALEHash'
 import { SCALEInt } from '../data/scale/type/SCALEInt'
 import { SCALETuple } from '../data/scale/type/SCALETuple'
 import { SCALEType } from '../data/scale/type/SCALEType'
@@ -33,8 +35,6 @@ import { SubstrateRuntimeVersion } from '../data/state/SubstrateRuntimeVersion'
 import { SubstrateTransactionType } from '../data/transaction/SubstrateTransaction'
 
 import {
-  SubstrateCallModuleName,
-  SubstrateCallName,
   SubstrateConstantModuleName,
   SubstrateConstantName,
   SubstrateRpcMethodName,
@@ -78,16 +78,29 @@ export class SubstrateNodeClient {
 
     let call: SubstrateCall | null = null
     if (methodName && callName) {
-      call = await this.getCall(methodName, callName)
+      call = await this.getCallMetadata(methodName, callName)
     }
 
     return call ? call : Promise.reject('Could not find requested item.')
   }
 
+  public async getCallMetadata(moduleName: string, callName: string): Promise<SubstrateCall> {
+    await this.initApi()
+    const call: SubstrateCall | undefined = this.metadata?.call(moduleName, callName)
+
+    return call ? call : Promise.reject(`Could not find requested item: ${moduleName} ${callName}`)
+  }
+
   public async getTransferFeeEstimate(transaction: Uint8Array | string): Promise<BigNumber | null> {
     return this.send('payment', 'queryInfo', [bytesToHex(transaction)]).then((result) => (result ? new BigNumber(result.partialFee) : null))
   }
 
+  public async getTransactionWeight(transaction: Uint8Array | string): Promise<BigNumber | null> {
+    return this.send('payment', 'queryInfo', [bytesToHex(transaction)]).then((result: { weight: number } | null) =>
+      result ? new BigNumber(result.weight) : null
+    )
+  }
+
   public saveLastFee(type: SubstrateTransactionType, fee: BigNumber) {
     this.lastFees.set(type, fee)
   }
@@ -261,12 +274,27 @@ export class SubstrateNodeClient {
     )
   }
 
+  public async getHistoryDepth(): Promise<number | null> {
+    return this.fromStorage('Staking', 'HistoryDepth').then((item: string | null) =>
+      item ? SCALEInt.decode(item, 32).decoded.toNumber() : null
+    )
+  }
+
   public async getSlashingSpan(address: SubstrateAddress): Promise<SubstrateSlashingSpans | null> {
     return this.fromStorage('Staking', 'SlashingSpans', SCALEAccountId.from(address, this.network)).then((item) =>
       item ? SubstrateSlashingSpans.decode(this.network, this.runtimeVersion, item) : null
     )
   }
 
+  public async getMultisig(multisig: SubstrateAddress, callHash: string): Promise<SubstrateMultisig | null> {
+    return this.fromStorage(
+      'Multisig',
+      'Multisigs',
+      SCALEAccountId.from(multisig, this.network),
+      SCALEHash.from(callHash)
+    ).then((item: string | null) => (item ? SubstrateMultisig.decode(this.network, this.runtimeVersion, item) : null))
+  }
+
   public async submitTransaction(encoded: string): Promise<string> {
     return this.send('author', 'submitExtrinsic', [encoded], { allowCache: false })
   }
@@ -295,16 +323,6 @@ export class SubstrateNodeClient {
     return result
   }
 
-  private async getCall<M extends SubstrateCallModuleName, C extends SubstrateCallName<M>>(
-    moduleName: M,
-    callName: C
-  ): Promise<SubstrateCall> {
-    await this.initApi()
-    const call = this.metadata?.call(moduleName, callName)
-
-    return call ? call : Promise.reject(`Could not find requested item: ${moduleName} ${callName}`)
-  }
-
   private async getConstant<M extends SubstrateConstantModuleName, C extends SubstrateConstantName<M>>(
     moduleName: M,
     constantName: C
@@ -17,6 +17,7 @@ export const supportedStorageEntries = {
     'Nominators',
     'CurrentEra',
     'ActiveEra',
+    'HistoryDepth',
     'EraElectionStatus',
     'ErasStakers',
     'ErasStakersClipped',
@@ -26,7 +27,8 @@ export const supportedStorageEntries = {
     'SlashingSpans'
   ] as const,
   Session: ['Validators'] as const,
-  System: ['Account'] as const
+  System: ['Account'] as const,
+  Multisig: ['Multisigs'] as const
 }
 
 export const supportedCalls = {
@@ -43,7 +45,9 @@ export const supportedCalls = {
     'payout_stakers',
     'rebond'
   ] as const,
-  Utility: ['batch'] as const
+  Utility: ['batch', 'batch_all'] as const,
+  Proxy: ['add_proxy', 'remove_proxy', 'proxy'] as const,
+  Multisig: ['as_multi', 'approve_as_multi'] as const
 }
 
 export const supportedConstants = {
@@ -84,7 +88,13 @@ export const supportedCallEndpoints: Map<SubstrateTransactionType, [SubstrateCal
   createCallEndpointEntry(SubstrateTransactionType.SET_PAYEE, 'Staking', 'set_payee'),
   createCallEndpointEntry(SubstrateTransactionType.SET_CONTROLLER, 'Staking', 'set_controller'),
   createCallEndpointEntry(SubstrateTransactionType.REBOND, 'Staking', 'rebond'),
-  createCallEndpointEntry(SubstrateTransactionType.SUBMIT_BATCH, 'Utility', 'batch')
+  createCallEndpointEntry(SubstrateTransactionType.SUBMIT_BATCH, 'Utility', 'batch'),
+  createCallEndpointEntry(SubstrateTransactionType.SUBMIT_BATCH_ALL, 'Utility', 'batch_all'),
+  createCallEndpointEntry(SubstrateTransactionType.ADD_PROXY, 'Proxy', 'add_proxy'),
+  createCallEndpointEntry(SubstrateTransactionType.REMOVE_PROXY, 'Proxy', 'remove_proxy'),
+  createCallEndpointEntry(SubstrateTransactionType.PROXY, 'Proxy', 'proxy'),
+  createCallEndpointEntry(SubstrateTransactionType.AS_MULTI, 'Multisig', 'as_multi'),
+  createCallEndpointEntry(SubstrateTransactionType.APPROVE_AS_MULTI, 'Multisig', 'approve_as_multi')
 ])
 
 function createCallEndpointEntry<M extends SubstrateCallModuleName, C extends SubstrateCallName<M>>(
@@ -2,6 +2,7 @@
 
 import { ProtocolBlockExplorer } from '../../../utils/ProtocolBlockExplorer'
 import { NetworkType, ProtocolNetwork } from '../../../utils/ProtocolNetwork'
+import { SubstrateSignatureType } from '../helpers/data/transaction/SubstrateSignature'
 import { SubstrateNetwork } from '../SubstrateNetwork'
 import { PolkascanBlockExplorer, SubstrateProtocolConfig, SubstrateProtocolOptions } from '../SubstrateProtocolOptions'
 
@@ -23,8 +24,8 @@ export class PolkadotPolkascanBlockExplorer extends PolkascanBlockExplorer {
 }
 
 export class PolkadotProtocolConfig extends SubstrateProtocolConfig {
-  constructor() {
-    super()
+  constructor(signatureType?: SubstrateSignatureType) {
+    super(true, signatureType)
   }
 }
 
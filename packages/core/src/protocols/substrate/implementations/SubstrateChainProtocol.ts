@@ -0,0 +1,57 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { ProtocolSymbols } from '../../../utils/ProtocolSymbols'
+import { CurrencyUnit, FeeDefaults } from '../../ICoinProtocol'
+import { SubstrateProtocol } from '../SubstrateProtocol'
+import { SubstrateChainDescriptor, SubstrateChainProtocolConfig, SubstrateProtocolOptions } from '../SubstrateProtocolOptions'
+
+const DEFAULT_FEE: BigNumber = new BigNumber(100000000) // in Planck
+
+export class SubstrateChainProtocol extends SubstrateProtocol {
+  public symbol: string
+  public name: string
+  public marketSymbol: string
+  public feeSymbol: string
+
+  public decimals: number
+  public feeDecimals: number
+  public identifier: ProtocolSymbols
+
+  public feeDefaults: FeeDefaults
+  public units: CurrencyUnit[]
+  public standardDerivationPath: string
+
+  // the first character of an address depends on the SS58 format of the chain
+  public addressValidationPattern: string = '^[1-9A-HJ-NP-Za-km-z]+$'
+
+  public constructor(public readonly options: SubstrateProtocolOptions<SubstrateChainProtocolConfig>) {
+    super(options)
+
+    const chain: SubstrateChainDescriptor = options.config.chain
+    this.symbol = chain.symbol
+    this.name = chain.name
+    this.marketSymbol = chain.symbol
+    this.feeSymbol = chain.symbol
+    this.decimals = chain.decimals
+    this.feeDecimals = chain.decimals
+    // chains configured from a descriptor are not part of the protocol symbol enums
+    this.identifier = chain.identifier as ProtocolSymbols
+
+    const defaultFee: string = DEFAULT_FEE.shiftedBy(-chain.decimals).toFixed()
+    this.feeDefaults = {
+      low: defaultFee,
+      medium: defaultFee,
+      high: defaultFee
+    }
+    this.units = [
+      {
+        unitSymbol: chain.symbol,
+        factor: '1'
+      },
+      {
+        unitSymbol: 'Planck',
+        factor: new BigNumber(1).shiftedBy(-chain.decimals).toFixed()
+      }
+    ]
+    this.standardDerivationPath = `m/44'/${chain.coinType}'/0'/0/0`
+  }
+}
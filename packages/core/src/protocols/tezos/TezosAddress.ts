@@ -3,17 +3,25 @@ import * as sodium from 'libsodium-wrappers'
 import * as bs58check from '../../dependencies/src/bs58check-2.1.2/index'
 import { CoinAddress } from '../ICoinProtocol'
 
+import { TezosCurve } from './types/TezosCurve'
 import { TezosUtils } from './TezosUtils'
 
 export class TezosAddress implements CoinAddress {
 
   protected constructor(private readonly value: string) {}
   
-  public static async fromPublicKey(publicKey: string): Promise<TezosAddress> {
+  public static async fromPublicKey(publicKey: string, curve: TezosCurve = TezosCurve.ED25519): Promise<TezosAddress> {
     await sodium.ready
 
+    const prefix: Buffer =
+      curve === TezosCurve.SECP256K1
+        ? TezosUtils.tezosPrefixes.tz2
+        : curve === TezosCurve.P256
+        ? TezosUtils.tezosPrefixes.tz3
+        : TezosUtils.tezosPrefixes.tz1
+
     const payload: Uint8Array = sodium.crypto_generichash(20, Buffer.from(publicKey, 'hex'))
-    const address: string = bs58check.encode(Buffer.concat([TezosUtils.tezosPrefixes.tz1, Buffer.from(payload)]))
+    const address: string = bs58check.encode(Buffer.concat([prefix, Buffer.from(payload)]))
 
     return new TezosAddress(address)
   }
@@ -2,46 +2,97 @@ import * as sodium from 'libsodium-wrappers'
 
 import * as bs58check from '../../dependencies/src/bs58check-2.1.2'
 import * as bs58 from '../../dependencies/src/bs58-4.0.1'
+import { ec as EC } from '../../dependencies/src/elliptic-6.5.3/lib/elliptic'
 import { Ed25519CryptoClient } from '../Ed25519CryptoClient'
 import { InvalidValueError } from '../../errors'
 import { Domain } from '../../errors/coinlib-error'
 
+import { TezosCurve } from './types/TezosCurve'
+import { TezosUtils } from './TezosUtils'
+
 export class TezosCryptoClient extends Ed25519CryptoClient {
-  constructor(public readonly edsigPrefix: Uint8Array = new Uint8Array([9, 245, 205, 134, 18])) {
+  constructor(
+    public readonly edsigPrefix: Uint8Array = new Uint8Array([9, 245, 205, 134, 18]),
+    public readonly curve: TezosCurve = TezosCurve.ED25519
+  ) {
     super()
   }
 
   public async signMessage(message: string, keypair: { privateKey: Buffer }): Promise<string> {
-    await sodium.ready
-
     const bufferMessage: Buffer = await this.toBuffer(message)
 
     const hash: Buffer = await this.hash(bufferMessage)
-    const rawSignature: Uint8Array = sodium.crypto_sign_detached(hash, keypair.privateKey)
-    const signature: string = bs58check.encode(Buffer.concat([Buffer.from(this.edsigPrefix), Buffer.from(rawSignature)]))
+    const rawSignature: Buffer = await this.sign(hash, keypair.privateKey)
+    const signature: string = bs58check.encode(Buffer.concat([Buffer.from(this.getSignaturePrefix(this.curve)), rawSignature]))
 
     return signature
   }
 
   public async verifyMessage(message: string, signature: string, publicKey: string): Promise<boolean> {
-    await sodium.ready
-
-    let rawSignature: Uint8Array
+    // `sig` is the generic prefix, the curve of the key is used in that case
+    let curve: TezosCurve
     if (signature.startsWith('edsig')) {
-      const edsigPrefixLength: number = this.edsigPrefix.length
-      const decoded: Buffer = bs58check.decode(signature)
-
-      rawSignature = new Uint8Array(decoded.slice(edsigPrefixLength, decoded.length))
+      curve = TezosCurve.ED25519
+    } else if (signature.startsWith('spsig1')) {
+      curve = TezosCurve.SECP256K1
+    } else if (signature.startsWith('p2sig')) {
+      curve = TezosCurve.P256
+    } else if (signature.startsWith('sig')) {
+      curve = this.curve
     } else {
       throw new InvalidValueError(Domain.TEZOS, `invalid signature: ${signature}`)
     }
 
+    const prefixLength: number = signature.startsWith('sig') ? TezosUtils.tezosPrefixes.sig.length : this.getSignaturePrefix(curve).length
+    const decoded: Buffer = bs58check.decode(signature)
+    const rawSignature: Buffer = decoded.slice(prefixLength, decoded.length)
+
     const bufferMessage = await this.toBuffer(message)
+    const hash: Buffer = await this.hash(bufferMessage)
+
+    return this.verify(hash, rawSignature, publicKey, curve)
+  }
+
+  // signs a hash, ECDSA signatures are returned as `r || s`
+  public async sign(hash: Buffer, privateKey: Buffer, curve: TezosCurve = this.curve): Promise<Buffer> {
+    if (curve === TezosCurve.ED25519) {
+      await sodium.ready
 
-    const hash: Buffer = sodium.crypto_generichash(32, bufferMessage)
-    const isValidSignature: boolean = sodium.crypto_sign_verify_detached(rawSignature, hash, Buffer.from(publicKey, 'hex'))
+      return Buffer.from(sodium.crypto_sign_detached(hash, privateKey))
+    }
+
+    // the signature must be canonical (low s), otherwise it is rejected by the node
+    const signature = new EC(curve).sign(hash, privateKey, { canonical: true })
+
+    return Buffer.concat([signature.r.toArrayLike(Buffer, 'be', 32), signature.s.toArrayLike(Buffer, 'be', 32)])
+  }
+
+  public async verify(hash: Buffer, rawSignature: Buffer, publicKey: string, curve: TezosCurve = this.curve): Promise<boolean> {
+    if (curve === TezosCurve.ED25519) {
+      await sodium.ready
 
-    return isValidSignature
+      return sodium.crypto_sign_verify_detached(rawSignature, hash, Buffer.from(publicKey, 'hex'))
+    }
+
+    try {
+      return new EC(curve)
+        .keyFromPublic(Buffer.from(publicKey, 'hex'))
+        .verify(hash, { r: rawSignature.slice(0, 32), s: rawSignature.slice(32, 64) })
+    } catch {
+      // the public key is not a point of this curve
+      return false
+    }
+  }
+
+  public getSignaturePrefix(curve: TezosCurve): Uint8Array {
+    switch (curve) {
+      case TezosCurve.SECP256K1:
+        return TezosUtils.tezosPrefixes.spsig1
+      case TezosCurve.P256:
+        return TezosUtils.tezosPrefixes.p2sig
+      default:
+        return this.edsigPrefix
+    }
   }
 
   public async toBuffer(message: string): Promise<Buffer> {
@@ -0,0 +1,98 @@
+import { InvalidValueError } from '../../errors'
+import { Domain } from '../../errors/coinlib-error'
+import { blake2bAsHex } from '../../utils/blake2b'
+
+import { TezosUtils } from './TezosUtils'
+import { MichelineTypeNode } from './types/micheline/MichelineNode'
+import { MichelsonType } from './types/michelson/MichelsonType'
+import { MichelsonTypeMeta } from './types/michelson/MichelsonTypeMeta'
+import { isMichelineNode } from './types/utils'
+
+// Michelson data serialized with `PACK`, as signed for dApps and checked by contracts with `CHECK_SIGNATURE`
+
+export interface TezosMichelsonData {
+  packed: string // hex encoded, including the `05` watermark
+  type?: MichelineTypeNode // used to decode the data, e.g. to show addresses instead of their binary form
+}
+
+const PACK_WATERMARK: string = '05'
+
+// the type of the data signed for a TZIP-17 permit: `(pair (pair chain_id address) (pair nat bytes))`
+const PERMIT_TYPE: MichelineTypeNode = {
+  prim: 'pair',
+  args: [
+    { prim: 'pair', args: [{ prim: 'chain_id' }, { prim: 'address' }] },
+    { prim: 'pair', args: [{ prim: 'nat' }, { prim: 'bytes' }] }
+  ]
+}
+
+function getTypeMeta(type: MichelineTypeNode): MichelsonTypeMeta {
+  const meta: MichelsonTypeMeta | undefined = MichelsonTypeMeta.fromMichelineNode(type)
+  if (meta === undefined) {
+    throw new InvalidValueError(Domain.TEZOS, `Invalid Michelson type ${JSON.stringify(type)}.`)
+  }
+
+  return meta
+}
+
+export function packMichelsonValue(value: MichelsonType): string {
+  return `${PACK_WATERMARK}${TezosUtils.encodeMichelsonType(value)}`
+}
+
+export function packMichelsonData(value: unknown, type: MichelineTypeNode): TezosMichelsonData {
+  const michelsonValue: MichelsonType = getTypeMeta(type).createValue(value, { lazyEval: false })
+
+  return { packed: packMichelsonValue(michelsonValue), type }
+}
+
+// without a type, the value is decoded like `TezosUtils.parseHex`
+export function unpackMichelsonData(data: TezosMichelsonData): MichelsonType {
+  const packed: string = data.packed.startsWith('0x') ? data.packed.slice(2) : data.packed
+  if (!packed.startsWith(PACK_WATERMARK)) {
+    throw new InvalidValueError(Domain.TEZOS, 'Packed Michelson data must start with the 05 watermark.')
+  }
+
+  if (data.type === undefined) {
+    return TezosUtils.parseHex(packed)
+  }
+
+  return getTypeMeta(data.type).createValue(TezosUtils.decodeMicheline(packed.slice(PACK_WATERMARK.length)), { lazyEval: false })
+}
+
+export function parseMichelsonData(json: string): TezosMichelsonData {
+  let data: Partial<TezosMichelsonData>
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new InvalidValueError(Domain.TEZOS, 'Michelson data is not valid JSON.')
+  }
+
+  if (typeof data.packed !== 'string' || (data.type !== undefined && !isMichelineNode(data.type))) {
+    throw new InvalidValueError(Domain.TEZOS, 'Invalid Michelson data.')
+  }
+
+  return { packed: data.packed, type: data.type }
+}
+
+// the blake2b hash of packed data, e.g. of a parameter approved by a TZIP-17 permit
+export function hashMichelsonData(data: TezosMichelsonData): string {
+  const packed: string = data.packed.startsWith('0x') ? data.packed.slice(2) : data.packed
+
+  return blake2bAsHex(Buffer.from(packed, 'hex'), 256)
+}
+
+// the data which has to be signed to approve a parameter for a TZIP-17 permit contract
+export function createPermitData(
+  chainId: string,
+  contractAddress: string,
+  counter: number | string,
+  parameterHash: string
+): TezosMichelsonData {
+  return packMichelsonData(
+    [
+      [chainId, contractAddress],
+      [counter, parameterHash]
+    ],
+    PERMIT_TYPE
+  )
+}
@@ -1,5 +1,3 @@
-import * as sodium from 'libsodium-wrappers'
-
 import { localForger } from '../../dependencies/src/@taquito/local-forging-8.0.1-beta.1/packages/taquito-local-forging/src/taquito-local-forging'
 import axios, { AxiosError, AxiosResponse } from '../../dependencies/src/axios-0.19.0/index'
 import BigNumber from '../../dependencies/src/bignumber.js-9.0.0/bignumber'
@@ -9,10 +7,13 @@ import { generateWalletUsingDerivationPath } from '../../dependencies/src/hd-wal
 import { isArray } from '../../dependencies/src/validate.js-0.13.1/validate'
 import { IAirGapSignedTransaction } from '../../interfaces/IAirGapSignedTransaction'
 import { AirGapTransactionStatus, IAirGapTransaction } from '../../interfaces/IAirGapTransaction'
+import { MessageSignRequest } from '../../serializer/schemas/definitions/message-sign-request'
+import { TypedMessageSignRequest } from '../../serializer/schemas/definitions/message-sign-request-typed'
 import { SignedTezosTransaction } from '../../serializer/schemas/definitions/signed-transaction-tezos'
 import { UnsignedTezosTransaction } from '../../serializer/schemas/definitions/unsigned-transaction-tezos'
 import { RawTezosTransaction } from '../../serializer/types'
 import { MainProtocolSymbols, ProtocolSymbols } from '../../utils/ProtocolSymbols'
+import { createSlip10KeyPair } from '../../utils/slip10'
 import { getSubProtocolsByIdentifier } from '../../utils/subProtocols'
 import { DelegateeDetails, DelegationDetails, DelegatorAction, DelegatorDetails, ICoinDelegateProtocol } from '../ICoinDelegateProtocol'
 import { CurrencyUnit, FeeDefaults } from '../ICoinProtocol'
@@ -22,15 +23,23 @@ import { NonExtendedProtocol } from '../NonExtendedProtocol'
 import { TezosRewardsCalculation005 } from './rewardcalculation/TezosRewardCalculation005'
 import { TezosRewardsCalculation006 } from './rewardcalculation/TezosRewardCalculation006'
 import { TezosRewardsCalculationDefault } from './rewardcalculation/TezosRewardCalculationDefault'
+import { TezosContract } from './contract/TezosContract'
+import { TezosContractCallDecoder } from './contract/TezosContractCallDecoder'
+import { TezosContractOrigination } from './contract/TezosContractOrigination'
 import { TezosAddress } from './TezosAddress'
 import { TezosCryptoClient } from './TezosCryptoClient'
+import { createPermitData, hashMichelsonData, parseMichelsonData, TezosMichelsonData, unpackMichelsonData } from './TezosMichelsonData'
 import { TezosProtocolOptions } from './TezosProtocolOptions'
 import { TezosUtils } from './TezosUtils'
+import { TezosContractCallDetails, TezosContractCallWarningType } from './types/contract/TezosContractCallDetails'
+import { TezosContractEntrypointType } from './types/contract/TezosContractEntrypointType'
 import { TezosDelegationOperation } from './types/operations/Delegation'
 import { TezosOriginationOperation } from './types/operations/Origination'
 import { TezosRevealOperation } from './types/operations/Reveal'
 import { TezosOperation } from './types/operations/TezosOperation'
-import { TezosTransactionOperation } from './types/operations/Transaction'
+import { TezosTransactionOperation, TezosTransactionParameters } from './types/operations/Transaction'
+import { TezosCurve } from './types/TezosCurve'
+import { TezosMessageType } from './types/TezosMessageType'
 import { TezosOperationType } from './types/TezosOperationType'
 import { TezosTransactionCursor } from './types/TezosTransactionCursor'
 import { TezosTransactionResult } from './types/TezosTransactionResult'
@@ -44,7 +53,8 @@ import {
   NotFoundError,
   BalanceError,
   PropertyUndefinedError,
-  OperationFailedError
+  OperationFailedError,
+  InvalidValueError
 } from '../../errors/index'
 
 const MAX_OPERATIONS_PER_GROUP: number = 200
@@ -55,6 +65,9 @@ const MINIMAL_FEE: number = 100
 const MINIMAL_FEE_PER_GAS_UNIT: number = 0.1
 const MINIMAL_FEE_PER_BYTE: number = 1
 
+// the amount burned per byte of storage, in mutez
+const STORAGE_COST_PER_BYTE: number = 250
+
 export interface TezosVotingInfo {
   pkh: string
   rolls: number
@@ -209,7 +222,7 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
   protected readonly activationBurn: BigNumber = this.originationSize.times(this.storageCostPerByte)
   protected readonly originationBurn: BigNumber = this.originationSize.times(this.storageCostPerByte) // https://tezos.stackexchange.com/a/787
 
-  public readonly cryptoClient: TezosCryptoClient = new TezosCryptoClient(TezosUtils.tezosPrefixes.edsig)
+  public readonly cryptoClient: TezosCryptoClient
 
   // TODO: Should we remove these getters and replace the calls to `this.options.network...`?
   public get jsonRPCAPI(): string {
@@ -227,6 +240,7 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
   constructor(public readonly options: TezosProtocolOptions = new TezosProtocolOptions()) {
     super()
 
+    this.cryptoClient = new TezosCryptoClient(TezosUtils.tezosPrefixes.edsig, options.config.curve)
     this.headers.apiKey = options.network.extras.conseilApiKey
   }
 
@@ -256,6 +270,10 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
    * @param derivationPath DerivationPath for Key
    */
   public async getPublicKeyFromHexSecret(secret: string, derivationPath: string): Promise<string> {
+    if (this.options.config.curve === TezosCurve.SECP256K1 || this.options.config.curve === TezosCurve.P256) {
+      return createSlip10KeyPair(this.options.config.curve, Buffer.from(secret, 'hex'), derivationPath).publicKey.toString('hex')
+    }
+
     // both AE and Tezos use the same ECC curves (ed25519)
     const { publicKey }: { publicKey: string } = generateWalletUsingDerivationPath(Buffer.from(secret, 'hex'), derivationPath) as any // TODO: Look into typings
 
@@ -268,6 +286,10 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
    * @param derivationPath DerivationPath for Key
    */
   public async getPrivateKeyFromHexSecret(secret: string, derivationPath: string): Promise<Buffer> {
+    if (this.options.config.curve === TezosCurve.SECP256K1 || this.options.config.curve === TezosCurve.P256) {
+      return createSlip10KeyPair(this.options.config.curve, Buffer.from(secret, 'hex'), derivationPath).privateKey
+    }
+
     // both AE and Tezos use the same ECC curves (ed25519)
     const { secretKey }: { secretKey: string } = generateWalletUsingDerivationPath(Buffer.from(secret, 'hex'), derivationPath) as any // TODO: Look into typings
 
@@ -275,7 +297,7 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
   }
 
   public async getAddressFromPublicKey(publicKey: string): Promise<TezosAddress> {
-    return TezosAddress.fromPublicKey(publicKey)
+    return TezosAddress.fromPublicKey(publicKey, this.options.config.curve)
   }
 
   public async getAddressesFromPublicKey(publicKey: string): Promise<TezosAddress[]> {
@@ -406,24 +428,30 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
   }
 
   public async signWithPrivateKey(privateKey: Buffer, transaction: RawTezosTransaction): Promise<IAirGapSignedTransaction> {
-    await sodium.ready
-
     const watermark: string = '03'
     const watermarkedForgedOperationBytesHex: string = watermark + transaction.binaryTransaction
     const watermarkedForgedOperationBytes: Buffer = Buffer.from(watermarkedForgedOperationBytesHex, 'hex')
-    const hashedWatermarkedOpBytes: Buffer = sodium.crypto_generichash(32, watermarkedForgedOperationBytes)
+    const hashedWatermarkedOpBytes: Buffer = await this.cryptoClient.hash(watermarkedForgedOperationBytes)
+
+    // the curve of the transaction takes precedence, offline signers may not be configured for the curve of the account
+    const curve: TezosCurve = transaction.curve ?? this.options.config.curve
+    if (privateKey.length !== (curve === TezosCurve.ED25519 ? 64 : 32)) {
+      throw new InvalidValueError(Domain.TEZOS, `The private key is not a ${curve} key.`)
+    }
 
-    const opSignature: Buffer = sodium.crypto_sign_detached(hashedWatermarkedOpBytes, privateKey)
-    const signedOpBytes: Buffer = Buffer.concat([Buffer.from(transaction.binaryTransaction, 'hex'), Buffer.from(opSignature)])
+    // the signature has 64 bytes for all curves
+    const opSignature: Buffer = await this.cryptoClient.sign(hashedWatermarkedOpBytes, privateKey, curve)
+    const signedOpBytes: Buffer = Buffer.concat([Buffer.from(transaction.binaryTransaction, 'hex'), opSignature])
 
     return signedOpBytes.toString('hex')
   }
 
   public async getTransactionDetails(unsignedTx: UnsignedTezosTransaction): Promise<IAirGapTransaction[]> {
-    const binaryTransaction: string = unsignedTx.transaction.binaryTransaction
-    const wrappedOperations: TezosWrappedOperation = await this.unforgeUnsignedTezosWrappedOperation(binaryTransaction)
+    // the transaction may contain the types of the called entrypoints, see `addEntrypointTypes`
+    const transaction: RawTezosTransaction = unsignedTx.transaction
+    const wrappedOperations: TezosWrappedOperation = await this.unforgeUnsignedTezosWrappedOperation(transaction.binaryTransaction)
 
-    return this.getAirGapTxFromWrappedOperations(wrappedOperations)
+    return this.getAirGapTxFromWrappedOperations(wrappedOperations, transaction.entrypointTypes)
   }
 
   public async getTransactionDetailsFromSigned(signedTx: SignedTezosTransaction): Promise<IAirGapTransaction[]> {
@@ -433,7 +461,10 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
     return this.getAirGapTxFromWrappedOperations(wrappedOperations)
   }
 
-  public async getAirGapTxFromWrappedOperations(wrappedOperations: TezosWrappedOperation): Promise<IAirGapTransaction[]> {
+  public async getAirGapTxFromWrappedOperations(
+    wrappedOperations: TezosWrappedOperation,
+    entrypointTypes: TezosContractEntrypointType[] = []
+  ): Promise<IAirGapTransaction[]> {
     const assertNever: (x: never) => void = (_x: never): void => undefined
 
     return Promise.all(
@@ -456,6 +487,14 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
             const tezosSpendOperation: TezosTransactionOperation = tezosOperation as TezosTransactionOperation
             operation = tezosSpendOperation
             partialTxs = await this.getTransactionOperationDetails(tezosSpendOperation)
+
+            const contractCall: TezosContractCallDetails | undefined = this.getContractCallDetails(tezosSpendOperation, entrypointTypes)
+            if (contractCall !== undefined) {
+              partialTxs = partialTxs.map((partialTx: Partial<IAirGapTransaction>) => ({
+                ...partialTx,
+                extra: { ...partialTx.extra, contractCall }
+              }))
+            }
             break
           case TezosOperationType.ORIGINATION:
             {
@@ -466,7 +505,8 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
                 {
                   from: [operation.source],
                   amount: new BigNumber(tezosOriginationOperation.balance).toFixed(),
-                  to: [delegate ? `Delegate: ${delegate}` : 'Origination']
+                  to: [delegate ? `Delegate: ${delegate}` : 'Origination'],
+                  extra: { origination: this.getOriginationDetails(tezosOriginationOperation) }
                 }
               ]
             }
@@ -769,6 +809,55 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
     return wrappedOperations
   }
 
+  // the storage is shown with the names of the storage type annotations, scripts that cannot be parsed are shown as they are
+  private getOriginationDetails(
+    originationOperation: TezosOriginationOperation
+  ): { storage: unknown; storageBurn: string; delegate?: string } {
+    let storage: unknown
+    try {
+      storage = TezosContractOrigination.fromScript(originationOperation.script).storage.asRawValue()
+    } catch {
+      storage = originationOperation.script?.storage
+    }
+
+    return {
+      storage,
+      // the maximum amount which can be burned, the actual amount depends on the size of the storage
+      storageBurn: new BigNumber(originationOperation.storage_limit ?? 0).times(STORAGE_COST_PER_BYTE).toFixed(),
+      delegate: originationOperation.delegate
+    }
+  }
+
+  // adds the types of the called entrypoints, so that the parameters can be decoded by an offline signer
+  public async addEntrypointTypes(transaction: RawTezosTransaction): Promise<RawTezosTransaction> {
+    const wrappedOperations: TezosWrappedOperation = await this.unforgeUnsignedTezosWrappedOperation(transaction.binaryTransaction)
+    const contractCalls: [string, string][] = wrappedOperations.contents
+      .filter((operation: TezosOperation) => operation.kind === TezosOperationType.TRANSACTION)
+      .map((operation: TezosOperation) => operation as TezosTransactionOperation)
+      .filter((operation: TezosTransactionOperation) => operation.parameters !== undefined)
+      .map((operation: TezosTransactionOperation) => [operation.destination, operation.parameters!.entrypoint] as [string, string])
+    const uniqueContractCalls: [string, string][] = contractCalls.filter(
+      ([address, entrypoint]: [string, string], index: number) =>
+        contractCalls.findIndex((other: [string, string]) => other[0] === address && other[1] === entrypoint) === index
+    )
+
+    const entrypointTypes: TezosContractEntrypointType[] = await Promise.all(
+      uniqueContractCalls.map(async ([contractAddress, entrypoint]: [string, string]) => {
+        const contract: TezosContract = new TezosContract(
+          contractAddress,
+          this.options.network.rpcUrl,
+          this.options.network.extras.conseilUrl,
+          this.options.network.extras.conseilNetwork,
+          this.options.network.extras.conseilApiKey
+        )
+
+        return { contractAddress, entrypoint, type: JSON.stringify(await contract.entrypointType(entrypoint)) }
+      })
+    )
+
+    return { ...transaction, entrypointTypes }
+  }
+
   protected async getTransactionOperationDetails(transactionOperation: TezosTransactionOperation): Promise<Partial<IAirGapTransaction>[]> {
     return [
       {
@@ -779,6 +868,45 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
     ]
   }
 
+  private getContractCallDetails(
+    transactionOperation: TezosTransactionOperation,
+    entrypointTypes: TezosContractEntrypointType[]
+  ): TezosContractCallDetails | undefined {
+    const parameters: TezosTransactionParameters | undefined = transactionOperation.parameters
+    const entrypointType: TezosContractEntrypointType | undefined = parameters
+      ? entrypointTypes.find(
+          (type: TezosContractEntrypointType) =>
+            type.contractAddress === transactionOperation.destination && type.entrypoint === parameters.entrypoint
+        )
+      : undefined
+    if (parameters === undefined) {
+      return undefined
+    }
+    // the parameters can't be checked without the type, the call is shown but not trusted
+    if (entrypointType === undefined) {
+      return {
+        contractAddress: transactionOperation.destination,
+        entrypoint: parameters.entrypoint,
+        warnings: [
+          {
+            type: TezosContractCallWarningType.MISSING_TYPE,
+            message: `The type of the entrypoint ${parameters.entrypoint} is missing, the parameters can't be decoded.`
+          }
+        ]
+      }
+    }
+
+    // operators are only trusted if they are the sender or one of the known token contracts
+    const knownAddresses: string[] = [
+      transactionOperation.source,
+      ...this.subProtocols
+        .map((subProtocol: ICoinSubProtocol) => subProtocol.contractAddress)
+        .filter((address: string | undefined): address is string => address !== undefined)
+    ]
+
+    return new TezosContractCallDecoder(knownAddresses).decode(transactionOperation.destination, parameters, entrypointType.type)
+  }
+
   private async createTransactionOperations(
     previousOperations: TezosOperation[],
     recipients: string[],
@@ -844,7 +972,7 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
     try {
       const binaryTx: string = await this.forgeTezosOperation(tezosWrappedOperation)
 
-      return { binaryTransaction: binaryTx }
+      return this.wrapBinaryTransaction(binaryTx)
     } catch (error) {
       throw new OperationFailedError(Domain.TEZOS, `Forging Tezos TX failed with ${error.message}`)
     }
@@ -1107,6 +1235,9 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
             throw new PropertyUndefinedError(Domain.TEZOS, 'property "script" was not defined')
           }
 
+          // throws if the initial storage does not match the storage type of the code
+          TezosContractOrigination.fromScript(originationOperation.script)
+
           originationOperation.source = originationOperation.source ?? address
           originationOperation.counter = originationOperation.counter ?? defaultCounter
           originationOperation.fee = originationOperation.fee ?? defaultFee
@@ -1427,6 +1558,25 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
     return delegationInfo
   }
 
+  public async prepareOriginationFromPublicKey(
+    publicKey: string,
+    origination: TezosContractOrigination,
+    fee?: string
+  ): Promise<RawTezosTransaction> {
+    const operation: Partial<TezosOriginationOperation> = {
+      kind: TezosOperationType.ORIGINATION,
+      balance: origination.balance.toFixed(),
+      delegate: origination.delegate,
+      script: origination.toJSON(),
+      fee: fee !== undefined ? new BigNumber(fee).shiftedBy(this.decimals).toFixed() : undefined
+    }
+
+    // the gas and storage limits are estimated with a simulation, the fee only if none has been provided
+    const wrappedOperation: TezosWrappedOperation = await this.prepareOperations(publicKey, [operation as TezosOperation], fee === undefined)
+
+    return this.forgeAndWrapOperations(wrappedOperation)
+  }
+
   public async undelegate(publicKey: string): Promise<RawTezosTransaction> {
     return this.delegate(publicKey)
   }
@@ -1487,12 +1637,19 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
 
       const binaryTx: string = await this.forgeTezosOperation(tezosWrappedOperation)
 
-      return { binaryTransaction: binaryTx }
+      return this.wrapBinaryTransaction(binaryTx)
     } catch (error) {
       throw new OperationFailedError(Domain.TEZOS, `Forging Tezos TX failed with ${error.message}`)
     }
   }
 
+  // offline signers only learn the curve of tz2 and tz3 accounts from the transaction
+  private wrapBinaryTransaction(binaryTransaction: string): RawTezosTransaction {
+    return this.options.config.curve !== TezosCurve.ED25519
+      ? { binaryTransaction, curve: this.options.config.curve }
+      : { binaryTransaction }
+  }
+
   private getAmountUsedByPreviousOperations(operations: TezosOperation[]): BigNumber {
     let amountUsed: BigNumber = new BigNumber(0)
 
@@ -1594,7 +1751,7 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
       gas_limit: '10000', // taken from conseiljs
       storage_limit: '0', // taken from conseiljs
       counter: counter.toFixed(),
-      public_key: bs58check.encode(Buffer.concat([TezosUtils.tezosPrefixes.edpk, Buffer.from(publicKey, 'hex')])),
+      public_key: TezosUtils.encodePublicKey(publicKey, this.options.config.curve),
       source: address
     }
 
@@ -1747,6 +1904,47 @@ export class TezosProtocol extends NonExtendedProtocol implements ICoinDelegateP
     return this.cryptoClient.verifyMessage(message, signature, publicKey)
   }
 
+  // the data is unpacked first, so that only well-formed Michelson data is signed
+  public async signMichelsonData(data: TezosMichelsonData, keypair: { privateKey: Buffer }): Promise<string> {
+    unpackMichelsonData(data)
+
+    return this.cryptoClient.signMessage(data.packed, keypair)
+  }
+
+  public async verifyMichelsonData(data: TezosMichelsonData, signature: string, publicKey: string): Promise<boolean> {
+    return this.cryptoClient.verifyMessage(data.packed, signature, publicKey)
+  }
+
+  public async createMichelsonSignRequest(
+    publicKey: string,
+    data: TezosMichelsonData,
+    callbackURL: string = ''
+  ): Promise<TypedMessageSignRequest> {
+    return {
+      message: JSON.stringify(data),
+      messageType: TezosMessageType.MICHELSON,
+      publicKey,
+      callbackURL
+    }
+  }
+
+  // returns the Michelson data of a request, it can be decoded with `unpackMichelsonData` to be shown before signing
+  public async getMichelsonDataFromMessageSignRequest(request: MessageSignRequest | TypedMessageSignRequest): Promise<TezosMichelsonData> {
+    const messageType: string | undefined = (request as TypedMessageSignRequest).messageType
+    if (messageType !== TezosMessageType.MICHELSON) {
+      throw new UnsupportedError(Domain.TEZOS, `Message sign request of type ${messageType} does not contain Michelson data.`)
+    }
+
+    return parseMichelsonData(request.message)
+  }
+
+  // TZIP-17: the data to sign to approve the parameter of a contract call with a permit
+  public async createPermitData(contractAddress: string, parameter: TezosMichelsonData, counter: number | string): Promise<TezosMichelsonData> {
+    const { data: chainId }: AxiosResponse<string> = await axios.get(`${this.options.network.rpcUrl}/chains/main/chain_id`)
+
+    return createPermitData(chainId, contractAddress, counter, hashMichelsonData(parameter))
+  }
+
   public async encryptAsymmetric(message: string, publicKey: string): Promise<string> {
     return this.cryptoClient.encryptAsymmetric(message, publicKey)
   }
@@ -2,6 +2,7 @@ import { ProtocolBlockExplorer } from '../../utils/ProtocolBlockExplorer'
 import { NetworkType, ProtocolNetwork } from '../../utils/ProtocolNetwork'
 import { ProtocolOptions } from '../../utils/ProtocolOptions'
 import { TezosDomains } from './domains/TezosDomains'
+import { TezosCurve } from './types/TezosCurve'
 
 import { TezosNetwork } from './TezosProtocol'
 
@@ -48,7 +49,7 @@ export class TezosProtocolNetwork extends ProtocolNetwork<TezosProtocolNetworkEx
 }
 
 export class TezosProtocolConfig {
-  constructor(public readonly domains?: TezosDomains) {
+  constructor(public readonly domains?: TezosDomains, public readonly curve: TezosCurve = TezosCurve.ED25519) {
   }
 }
 
@@ -1,14 +1,31 @@
-import * as bigInt from '../../dependencies/src/big-integer-1.6.45/BigInteger'
+import {
+  MichelsonValue,
+  valueDecoder,
+  valueEncoder
+} from '../../dependencies/src/@taquito/local-forging-8.0.1-beta.1/packages/taquito-local-forging/src/michelson/codec'
+import { Uint8ArrayConsumer } from '../../dependencies/src/@taquito/local-forging-8.0.1-beta.1/packages/taquito-local-forging/src/uint8array-consumer'
 import * as bs58check from '../../dependencies/src/bs58check-2.1.2/index'
-import { OperationFailedError, UnsupportedError } from '../../errors'
+import { InvalidValueError, UnsupportedError } from '../../errors'
 import { Domain } from '../../errors/coinlib-error'
 
+import { MichelineNode } from './types/micheline/MichelineNode'
+import { MichelsonLambda } from './types/michelson/generics/MichelsonLambda'
 import { MichelsonList } from './types/michelson/generics/MichelsonList'
+import { MichelsonMap } from './types/michelson/generics/MichelsonMap'
+import { MichelsonOption } from './types/michelson/generics/MichelsonOption'
+import { MichelsonOr } from './types/michelson/generics/MichelsonOr'
 import { MichelsonPair } from './types/michelson/generics/MichelsonPair'
-import { MichelsonType } from './types/michelson/MichelsonType'
+import { MichelsonType, MichelsonUnparsingMode } from './types/michelson/MichelsonType'
+import { MichelsonBool } from './types/michelson/primitives/MichelsonBool'
 import { MichelsonBytes } from './types/michelson/primitives/MichelsonBytes'
 import { MichelsonInt } from './types/michelson/primitives/MichelsonInt'
 import { MichelsonString } from './types/michelson/primitives/MichelsonString'
+import { MichelsonUnit } from './types/michelson/primitives/MichelsonUnit'
+import { TezosCurve } from './types/TezosCurve'
+import { isMichelinePrimitive, isMichelinePrimitiveApplication } from './types/utils'
+
+// the primitives of Michelson data, a sequence with any other primitive is code
+const dataPrimitives: string[] = ['Unit', 'True', 'False', 'Pair', 'Left', 'Right', 'Some', 'None', 'Elt']
 
 export class TezosUtils {
   // Tezos - We need to wrap these in Buffer due to non-compatible browser polyfills
@@ -20,6 +37,12 @@ export class TezosUtils {
     edpk: Buffer
     edsk: Buffer
     edsig: Buffer
+    sppk: Buffer
+    spsig1: Buffer
+    p2pk: Buffer
+    p2sig: Buffer
+    sig: Buffer
+    net: Buffer
     branch: Buffer
     sask: Buffer
     zet1: Buffer
@@ -31,6 +54,12 @@ export class TezosUtils {
       edpk: Buffer.from(new Uint8Array([13, 15, 37, 217])),
       edsk: Buffer.from(new Uint8Array([43, 246, 78, 7])),
       edsig: Buffer.from(new Uint8Array([9, 245, 205, 134, 18])),
+      sppk: Buffer.from(new Uint8Array([3, 254, 226, 86])),
+      spsig1: Buffer.from(new Uint8Array([13, 115, 101, 19, 63])),
+      p2pk: Buffer.from(new Uint8Array([3, 178, 139, 127])),
+      p2sig: Buffer.from(new Uint8Array([54, 240, 44, 52])),
+      sig: Buffer.from(new Uint8Array([4, 130, 43])),
+      net: Buffer.from(new Uint8Array([87, 82, 0])),
       branch: Buffer.from(new Uint8Array([1, 52])),
       sask: Buffer.from(new Uint8Array([11, 237, 20, 92])),
       zet1: Buffer.from(new Uint8Array([18, 71, 40, 223]))
@@ -59,122 +88,112 @@ export class TezosUtils {
     if (address.startsWith('tz')) {
       // tz address
       return Buffer.concat([Buffer.from([0]), this.encodeTzAddress(address)])
-    } else if (address.startsWith('kt')) {
-      // kt address
-      return Buffer.concat([Buffer.from([1]), this.prefixAndBase58CheckDecode(address, this.tezosPrefixes.kt)])
+    } else if (address.toLowerCase().startsWith('kt')) {
+      // kt address, padded to the length of a tz address
+      return Buffer.concat([Buffer.from([1]), this.prefixAndBase58CheckDecode(address, this.tezosPrefixes.kt), Buffer.from([0])])
     } else {
       throw new Error(`address format not supported (${address})`)
     }
   }
 
-  public static parseHex(rawHex: string | string[]): MichelsonType {
-    let hex: string[]
-    if (typeof rawHex === 'string') {
-      hex = TezosUtils.hexStringToArray(rawHex)
-    } else {
-      hex = rawHex
-    }
-    const type = hex.shift()
-    switch (type) {
-      case '07': // prim
-        const primType = hex.shift()
-        if (primType === '07') {
-          // pair
-          return TezosUtils.parsePair(hex)
-        }
-        throw new UnsupportedError(Domain.TEZOS, 'Prim type not supported')
-      case '00': // int
-        const intBytes: string[] = []
-        let byte: string | undefined
-        do {
-          byte = hex.shift()
-          if (byte === undefined) {
-            break
-          }
-          intBytes.push(byte)
-        } while (parseInt(byte, 16) >= 127)
-        return MichelsonInt.from(TezosUtils.decodeSignedInt(intBytes.join('')))
-      case '01': // string
-        const stringLength = TezosUtils.hexToLength(hex.splice(0, 4))
-        return MichelsonString.from(TezosUtils.hexToString(hex.splice(0, stringLength)))
-      case '05': // single arg prim
-        return TezosUtils.parseHex(hex)
-      case '02': // list
-        return TezosUtils.parseList(hex)
-      case '0a': // bytes
-        const bytesLength = TezosUtils.hexToLength(hex.splice(0, 4))
-        return MichelsonBytes.from(hex.splice(0, bytesLength).join(''))
-      default:
-        throw new UnsupportedError(Domain.TEZOS, `Type not supported ${type}`)
-    }
+  // the public key with the base58 prefix of its curve, `edpk`, `sppk` or `p2pk`
+  public static encodePublicKey(publicKey: string, curve: TezosCurve = TezosCurve.ED25519): string {
+    const prefix: Buffer =
+      curve === TezosCurve.SECP256K1 ? this.tezosPrefixes.sppk : curve === TezosCurve.P256 ? this.tezosPrefixes.p2pk : this.tezosPrefixes.edpk
+
+    return bs58check.encode(Buffer.concat([prefix, Buffer.from(publicKey, 'hex')]))
   }
 
-  private static decodeSignedInt(hex: string): number {
-    const positive = Buffer.from(hex.slice(0, 2), 'hex')[0] & 0x40 ? false : true
-    const arr = Buffer.from(hex, 'hex').map((v, i) => (i === 0 ? v & 0x3f : v & 0x7f))
-    let n = bigInt.zero
-    for (let i = arr.length - 1; i >= 0; i--) {
-      if (i === 0) {
-        n = n.or(arr[i])
-      } else {
-        n = n.or(bigInt(arr[i]).shiftLeft(7 * i - 1))
-      }
+  public static decodePublicKey(encodedPublicKey: string): { publicKey: string; curve: TezosCurve } {
+    const curve: TezosCurve | undefined = encodedPublicKey.startsWith('edpk')
+      ? TezosCurve.ED25519
+      : encodedPublicKey.startsWith('sppk')
+      ? TezosCurve.SECP256K1
+      : encodedPublicKey.startsWith('p2pk')
+      ? TezosCurve.P256
+      : undefined
+
+    if (curve === undefined) {
+      throw new UnsupportedError(Domain.TEZOS, `public key format not supported (${encodedPublicKey})`)
     }
 
-    return positive ? n.toJSNumber() : n.negate().toJSNumber()
+    // all public key prefixes have the same length
+    return { publicKey: this.prefixAndBase58CheckDecode(encodedPublicKey, this.tezosPrefixes.edpk).toString('hex'), curve }
   }
 
-  private static hexStringToArray(hexString: string): string[] {
-    if (hexString.startsWith('0x')) {
-      hexString = hexString.slice(2)
+  public static parseHex(rawHex: string | string[]): MichelsonType {
+    let hex: string = typeof rawHex === 'string' ? rawHex : rawHex.join('')
+    if (hex.startsWith('0x')) {
+      hex = hex.slice(2)
     }
-    const hexBytes: RegExpMatchArray | null = hexString.match(/.{2}/g)
-    if (hexBytes === null) {
-      throw new OperationFailedError(Domain.TEZOS, 'Cannot parse contract code')
+
+    // packed data is prefixed with the `05` watermark
+    if (hex.startsWith('05')) {
+      hex = hex.slice(2)
     }
 
-    return hexBytes
+    return TezosUtils.fromUntypedMicheline(TezosUtils.decodeMicheline(hex))
   }
 
-  private static parsePair(hex: string[]): MichelsonPair {
-    const first = TezosUtils.parseHex(hex)
-    const second = TezosUtils.parseHex(hex)
+  // the binary form of a Michelson value, as used by `PACK` (without the watermark)
+  public static encodeMichelsonType(value: MichelsonType): string {
+    return TezosUtils.encodeMicheline(value.toMichelineJSON(MichelsonUnparsingMode.OPTIMIZED))
+  }
 
-    return MichelsonPair.from([first, second])
+  public static encodeMicheline(micheline: MichelineNode): string {
+    return valueEncoder(micheline as MichelsonValue)
   }
 
-  private static parseList(hex: string[]): MichelsonList {
-    const items: MichelsonType[] = []
-    const lengthBytes = TezosUtils.hexToLength(hex.splice(0, 4))
-    if (lengthBytes > 0) {
-      const listBytes = hex.splice(0, lengthBytes)
-      while (listBytes.length > 0) {
-        const item = TezosUtils.parseHex(listBytes)
-        items.push(item)
-      }
+  public static decodeMicheline(hex: string): MichelineNode {
+    const consumer: Uint8ArrayConsumer = Uint8ArrayConsumer.fromHexString(hex.startsWith('0x') ? hex.slice(2) : hex)
+    const micheline: MichelineNode = valueDecoder(consumer) as MichelineNode
+    if (consumer.length() > 0) {
+      throw new InvalidValueError(Domain.TEZOS, 'Unexpected bytes after the Micheline expression')
     }
 
-    return MichelsonList.from(items)
+    return micheline
   }
 
-  private static hexToString(hex: string[]): string {
-    return hex.map((byte) => String.fromCharCode(parseInt(byte, 16))).join('')
-  }
-
-  private static hexToLength(hex: string[]): number {
-    const stringValue = hex.reduce((previous, next) => {
-      if (next === '00') {
-        return previous
+  // without a type, values which share their Micheline form (e.g. `nat` and `mutez`) cannot be told apart
+  private static fromUntypedMicheline(micheline: MichelineNode): MichelsonType {
+    if (isMichelinePrimitive('int', micheline)) {
+      return MichelsonInt.from(micheline)
+    } else if (isMichelinePrimitive('string', micheline)) {
+      return MichelsonString.from(micheline)
+    } else if (isMichelinePrimitive('bytes', micheline)) {
+      return MichelsonBytes.from(micheline)
+    } else if (Array.isArray(micheline)) {
+      const isPrimitive = (prims: string[]) => (node: MichelineNode): boolean =>
+        isMichelinePrimitiveApplication(node) && prims.includes(node.prim)
+
+      if (micheline.length > 0 && micheline.every(isPrimitive(['Elt']))) {
+        return MichelsonMap.from(micheline, TezosUtils.fromUntypedMicheline, TezosUtils.fromUntypedMicheline)
+      } else if (micheline.some((node: MichelineNode) => isMichelinePrimitiveApplication(node) && !isPrimitive(dataPrimitives)(node))) {
+        return MichelsonLambda.from(micheline)
       }
 
-      return `${previous}${next}`
-    }, '')
-
-    if (stringValue.length > 0) {
-      return parseInt(stringValue, 16)
+      return MichelsonList.from(micheline.map((node: MichelineNode) => TezosUtils.fromUntypedMicheline(node)))
     }
 
-    return 0
+    const args: MichelsonType[] = (micheline.args ?? []).map((node: MichelineNode) => TezosUtils.fromUntypedMicheline(node))
+    switch (micheline.prim) {
+      case 'Pair':
+        return args.slice(0, -1).reduceRight((pair: MichelsonType, item: MichelsonType) => MichelsonPair.from([item, pair]), args[args.length - 1])
+      case 'Some':
+        return MichelsonOption.from(args[0])
+      case 'None':
+        return MichelsonOption.from(micheline, TezosUtils.fromUntypedMicheline)
+      case 'Left':
+      case 'Right':
+        return MichelsonOr.from([micheline.prim, args[0]], TezosUtils.fromUntypedMicheline, TezosUtils.fromUntypedMicheline)
+      case 'True':
+      case 'False':
+        return MichelsonBool.from(micheline)
+      case 'Unit':
+        return MichelsonUnit.from(micheline)
+      default:
+        throw new UnsupportedError(Domain.TEZOS, `Prim type not supported ${micheline.prim}`)
+    }
   }
 
   private static splitAndReturnRest(payload: string, length: number): { result: string; rest: string } {
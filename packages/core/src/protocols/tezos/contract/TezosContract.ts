@@ -60,6 +60,11 @@ export class TezosContract {
     return this.nodeRequest('storage')
   }
 
+  // the annotated type of the parameters of an entrypoint
+  public async entrypointType(entrypoint: string): Promise<MichelineTypeNode> {
+    return this.nodeRequest(`entrypoints/${entrypoint}`)
+  }
+
   public async createContractCall(entrypointName: string, value: unknown, amount?: BigNumber): Promise<TezosContractCall> {
     await this.waitForEntrypoints()
 
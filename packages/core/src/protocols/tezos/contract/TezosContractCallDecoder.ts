@@ -0,0 +1,297 @@
+import { InvalidValueError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+import {
+  TezosContractCallDetails,
+  TezosContractCallParameter,
+  TezosContractCallWarning,
+  TezosContractCallWarningType
+} from '../types/contract/TezosContractCallDetails'
+import { MichelineDataNode, MichelineNode, MichelineTypeNode } from '../types/micheline/MichelineNode'
+import { michelsonTypeFactories } from '../types/michelson/factories'
+import { MichelsonTypeMeta } from '../types/michelson/MichelsonTypeMeta'
+import { TezosTransactionParameters } from '../types/operations/Transaction'
+import { isMichelinePrimitive, isMichelinePrimitiveApplication, isMichelineSequence, michelineCombTypes } from '../types/utils'
+
+const SET_DELEGATE_ENTRYPOINTS: string[] = ['set_delegate', 'setDelegate']
+// the type of an FA2 operator update, `pair (address %owner) (pair (address %operator) (nat %token_id))`
+const OPERATOR_UPDATE_TYPES: string[] = ['address', 'address', 'nat']
+
+interface DecodeContext {
+  lambdas: MichelineNode[]
+  // the operators added in FA2 operator updates, found by the structure of the type as the annotations can be chosen freely
+  operators: string[]
+}
+
+// decodes the parameters of a contract call with the annotated type of the entrypoint and flags risky calls
+export class TezosContractCallDecoder {
+  // operators which are not one of the known addresses are flagged
+  constructor(private readonly knownAddresses: string[] = []) {}
+
+  // the type may also be the JSON sent along with the transaction, see `TezosContractEntrypointType`
+  public decode(
+    contractAddress: string,
+    parameters: TezosTransactionParameters,
+    type: MichelineTypeNode | string
+  ): TezosContractCallDetails {
+    const details: TezosContractCallDetails = { contractAddress, entrypoint: parameters.entrypoint, warnings: [] }
+
+    const context: DecodeContext = { lambdas: [], operators: [] }
+    let decoded: TezosContractCallParameter
+    try {
+      decoded = this.decodeNode(typeof type === 'string' ? parseType(type) : type, parameters.value, context)
+    } catch (error) {
+      return {
+        ...details,
+        warnings: [
+          {
+            type: TezosContractCallWarningType.INVALID_PARAMETERS,
+            message: `The parameters do not match the type of the entrypoint ${parameters.entrypoint}: ${error.message}`
+          }
+        ]
+      }
+    }
+
+    return {
+      ...details,
+      parameters: decoded,
+      warnings: [
+        ...getParameterWarnings(parameters.entrypoint, decoded),
+        ...this.getOperatorWarnings(context.operators),
+        ...getLambdaWarnings(context.lambdas)
+      ]
+    }
+  }
+
+  private decodeNode(type: MichelineTypeNode, value: MichelineNode, context: DecodeContext): TezosContractCallParameter {
+    if (!isMichelinePrimitiveApplication(type)) {
+      throw new InvalidValueError(Domain.TEZOS, `Invalid Michelson type ${JSON.stringify(type)}.`)
+    }
+
+    const label: string | undefined = getLabel(type)
+    const args: MichelineTypeNode[] = type.args ?? []
+
+    switch (type.prim) {
+      case 'pair': {
+        // right combs are decoded as nested pairs
+        const [firstType, ...restTypes]: MichelineTypeNode[] = args
+        const [firstValue, ...restValues]: MichelineNode[] = getArgs(value, 'Pair', 2)
+
+        return {
+          label,
+          type: type.prim,
+          children: [
+            this.decodeNode(firstType, firstValue, context),
+            this.decodeNode(
+              restTypes.length > 1 ? { prim: 'pair', args: restTypes } : restTypes[0],
+              restValues.length > 1 ? { prim: 'Pair', args: restValues as MichelineDataNode[] } : restValues[0],
+              context
+            )
+          ]
+        }
+      }
+      case 'or': {
+        const prim: string = isMichelinePrimitiveApplication(value) ? value.prim : ''
+        if (prim !== 'Left' && prim !== 'Right') {
+          throw new InvalidValueError(Domain.TEZOS, `Expected Left or Right, got ${JSON.stringify(value)}.`)
+        }
+        const [branch]: MichelineNode[] = getArgs(value, prim, 1)
+
+        return { label, type: type.prim, children: [this.decodeNode(args[prim === 'Left' ? 0 : 1], branch, context)] }
+      }
+      case 'option':
+        if (isMichelinePrimitiveApplication(value) && value.prim === 'None') {
+          return { label, type: type.prim, value: 'None' }
+        }
+
+        return { label, type: type.prim, children: [this.decodeNode(args[0], getArgs(value, 'Some', 1)[0], context)] }
+      case 'list':
+      case 'set':
+        return { label, type: type.prim, children: this.decodeElements(type.prim, args[0], value, context) }
+      case 'map':
+      case 'big_map':
+        // an existing big map is referenced by its ID
+        if (type.prim === 'big_map' && isMichelinePrimitive('int', value)) {
+          return { label, type: type.prim, value: value.int }
+        }
+
+        return {
+          label,
+          type: type.prim,
+          children: getElements(value).map((element: MichelineNode) => {
+            const [key, elementValue]: MichelineNode[] = getArgs(element, 'Elt', 2)
+
+            return {
+              type: 'elt',
+              children: [this.decodeNode(args[0], key, context), this.decodeNode(args[1], elementValue, context)]
+            }
+          })
+        }
+      case 'lambda':
+        if (!isMichelineSequence(value) && !isMichelinePrimitiveApplication(value)) {
+          throw new InvalidValueError(Domain.TEZOS, `Expected a lambda, got ${JSON.stringify(value)}.`)
+        }
+        context.lambdas.push(value)
+
+        return { label, type: type.prim, value: JSON.stringify(value) }
+      default:
+        return { label, type: type.prim, value: decodeValue(type, value) }
+    }
+  }
+
+  private decodeElements(
+    prim: string,
+    elementType: MichelineTypeNode,
+    value: MichelineNode,
+    context: DecodeContext
+  ): TezosContractCallParameter[] {
+    const isOperatorUpdates: boolean = prim === 'list' && isOperatorUpdateType(elementType)
+
+    return getElements(value).map((element: MichelineNode) => {
+      const child: TezosContractCallParameter = this.decodeNode(elementType, element, context)
+      // in FA2 operators are added in the left branch, the first address is the owner, the second the operator
+      if (isOperatorUpdates && isMichelinePrimitiveApplication(element) && element.prim === 'Left') {
+        const addresses: TezosContractCallParameter[] = flatten(child).filter((node: TezosContractCallParameter) => node.type === 'address')
+        context.operators.push(addresses[1].value as string)
+      }
+
+      return child
+    })
+  }
+
+  private getOperatorWarnings(operators: string[]): TezosContractCallWarning[] {
+    return operators
+      .filter((operator: string) => !this.knownAddresses.includes(operator))
+      .map((operator: string) => ({
+        type: TezosContractCallWarningType.UNKNOWN_OPERATOR,
+        message: `The call allows the unknown address ${operator} to transfer tokens.`
+      }))
+  }
+}
+
+function parseType(type: string): MichelineTypeNode {
+  try {
+    return JSON.parse(type)
+  } catch {
+    throw new InvalidValueError(Domain.TEZOS, `Invalid Michelson type ${type}.`)
+  }
+}
+
+// the values are normalized with the Michelson types, e.g. addresses in their binary form are shown base58 encoded
+function decodeValue(type: MichelineTypeNode, value: MichelineNode): string {
+  const meta: MichelsonTypeMeta | undefined =
+    isMichelinePrimitiveApplication(type) && type.prim in michelsonTypeFactories ? MichelsonTypeMeta.fromMichelineNode(type) : undefined
+  const normalized: MichelineNode = meta !== undefined ? meta.createValue(value, { lazyEval: false }).toMichelineJSON() : value
+
+  if (isMichelinePrimitive('int', normalized)) {
+    return normalized.int
+  } else if (isMichelinePrimitive('string', normalized)) {
+    return normalized.string
+  } else if (isMichelinePrimitive('bytes', normalized)) {
+    return normalized.bytes
+  } else if (isMichelinePrimitiveApplication(normalized) && (normalized.args ?? []).length === 0) {
+    return normalized.prim
+  }
+
+  return JSON.stringify(normalized)
+}
+
+function isOperatorUpdateType(type: MichelineTypeNode | undefined): boolean {
+  if (type === undefined || !isMichelinePrimitiveApplication(type) || type.prim !== 'or' || type.args?.length !== 2) {
+    return false
+  }
+
+  return type.args.every((branch: MichelineTypeNode) => {
+    const types: string[] = michelineCombTypes(branch)
+
+    return (
+      types.length === OPERATOR_UPDATE_TYPES.length && types.every((prim: string, index: number) => prim === OPERATOR_UPDATE_TYPES[index])
+    )
+  })
+}
+
+function getLabel(type: MichelineTypeNode): string | undefined {
+  const annots: string[] = isMichelinePrimitiveApplication(type) ? type.annots ?? [] : []
+  const annot: string | undefined =
+    annots.find((next: string) => next.startsWith('%')) ?? annots.find((next: string) => next.startsWith(':'))
+
+  return annot?.slice(1)
+}
+
+// pairs may also be written as a sequence of their values
+function getArgs(value: MichelineNode, prim: string, minLength: number): MichelineNode[] {
+  const args: MichelineNode[] | undefined =
+    isMichelinePrimitiveApplication(value) && value.prim === prim ? value.args : prim === 'Pair' && Array.isArray(value) ? value : undefined
+  if (args === undefined || args.length < minLength) {
+    throw new InvalidValueError(Domain.TEZOS, `Expected ${prim}, got ${JSON.stringify(value)}.`)
+  }
+
+  return args
+}
+
+function getElements(value: MichelineNode): MichelineNode[] {
+  if (!Array.isArray(value)) {
+    throw new InvalidValueError(Domain.TEZOS, `Expected a sequence, got ${JSON.stringify(value)}.`)
+  }
+
+  return value
+}
+
+function getInstructions(code: MichelineNode): string[] {
+  if (Array.isArray(code)) {
+    return code.reduce((instructions: string[], next: MichelineNode) => instructions.concat(getInstructions(next)), [])
+  }
+
+  return isMichelinePrimitiveApplication(code)
+    ? [
+        code.prim,
+        ...(code.args ?? []).reduce((instructions: string[], next: MichelineNode) => instructions.concat(getInstructions(next)), [])
+      ]
+    : []
+}
+
+function flatten(node: TezosContractCallParameter): TezosContractCallParameter[] {
+  return [
+    node,
+    ...(node.children ?? []).reduce(
+      (nodes: TezosContractCallParameter[], child: TezosContractCallParameter) => nodes.concat(flatten(child)),
+      []
+    )
+  ]
+}
+
+function getParameterWarnings(entrypoint: string, parameters: TezosContractCallParameter): TezosContractCallWarning[] {
+  const warnings: TezosContractCallWarning[] = []
+  const nodes: TezosContractCallParameter[] = flatten(parameters)
+
+  // the entrypoint may also be selected in the parameters of the default entrypoint
+  const labels: string[] = [entrypoint, ...nodes.map((node: TezosContractCallParameter) => node.label ?? '')]
+  if (labels.some((label: string) => SET_DELEGATE_ENTRYPOINTS.includes(label))) {
+    warnings.push({ type: TezosContractCallWarningType.SET_DELEGATE, message: 'The call changes the delegate of the contract.' })
+  }
+
+  return warnings
+}
+
+function getLambdaWarnings(lambdas: MichelineNode[]): TezosContractCallWarning[] {
+  const warnings: TezosContractCallWarning[] = []
+  lambdas.forEach((lambda: MichelineNode) => {
+    const instructions: string[] = getInstructions(lambda)
+    if (instructions.includes('SET_DELEGATE')) {
+      warnings.push({
+        type: TezosContractCallWarningType.SET_DELEGATE,
+        message: 'The executed code changes the delegate of the contract.'
+      })
+    }
+
+    // the tez balance of the contract is pushed before the transfer, token balances are not detected
+    const balanceIndex: number = instructions.indexOf('BALANCE')
+    if (balanceIndex >= 0 && instructions.indexOf('TRANSFER_TOKENS', balanceIndex) > balanceIndex) {
+      warnings.push({
+        type: TezosContractCallWarningType.TRANSFER_BALANCE,
+        message: 'The executed code transfers the whole tez balance of the contract.'
+      })
+    }
+  })
+
+  return warnings
+}
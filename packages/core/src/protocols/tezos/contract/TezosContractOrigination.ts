@@ -0,0 +1,96 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+import { MichelineDataNode, MichelinePrimitiveApplication, MichelineTypeNode } from '../types/micheline/MichelineNode'
+import { MichelsonType } from '../types/michelson/MichelsonType'
+import {
+  MichelsonAnnotationPrefix,
+  MichelsonTypeMeta,
+  MichelsonTypeMetaCreateValueConfiguration
+} from '../types/michelson/MichelsonTypeMeta'
+import { TezosOriginationScript } from '../types/operations/Origination'
+import { isMichelinePrimitiveApplication, isMichelineSequence } from '../types/utils'
+
+// the sections every contract script has to define
+const REQUIRED_SECTIONS: string[] = ['parameter', 'storage', 'code']
+
+export class TezosContractOrigination {
+  constructor(
+    readonly code: MichelinePrimitiveApplication<any>[],
+    readonly storage: MichelsonType,
+    readonly balance: BigNumber = new BigNumber(0),
+    readonly delegate?: string
+  ) {}
+
+  // the initial storage is validated against the `storage` type of the code
+  public static from(code: unknown, storage: unknown, balance?: BigNumber, delegate?: string): TezosContractOrigination {
+    const sections: MichelinePrimitiveApplication<any>[] = TezosContractOrigination.validateCode(code)
+
+    return new TezosContractOrigination(sections, TezosContractOrigination.createStorage(sections, storage), balance, delegate)
+  }
+
+  // parses the script of an origination operation, the storage values are named after the annotations of the storage type
+  public static fromScript(script: TezosOriginationScript, balance?: BigNumber, delegate?: string): TezosContractOrigination {
+    if (!(script instanceof Object) || !('code' in script) || !('storage' in script)) {
+      throw new InvalidValueError(Domain.TEZOS, 'Origination script must contain code and storage.')
+    }
+
+    const sections: MichelinePrimitiveApplication<any>[] = TezosContractOrigination.validateCode(script.code)
+    const storage: MichelsonType = TezosContractOrigination.createStorage(sections, script.storage, {
+      onNext: (meta: MichelsonTypeMeta, _raw: unknown, value: MichelsonType): void => {
+        const name: string | undefined = meta.getAnnotation(MichelsonAnnotationPrefix.FIELD, MichelsonAnnotationPrefix.TYPE)
+        if (name) {
+          value.setName(name)
+        }
+      }
+    })
+
+    return new TezosContractOrigination(sections, storage, balance, delegate)
+  }
+
+  private static validateCode(code: unknown): MichelinePrimitiveApplication<any>[] {
+    if (!isMichelineSequence(code) || !code.every(isMichelinePrimitiveApplication)) {
+      throw new InvalidValueError(Domain.TEZOS, 'Contract code must be a Micheline sequence of sections.')
+    }
+
+    const missingSections: string[] = REQUIRED_SECTIONS.filter(
+      (section: string) => TezosContractOrigination.findSection(code, section) === undefined
+    )
+    if (missingSections.length > 0) {
+      throw new InvalidValueError(Domain.TEZOS, `Contract code is missing the sections ${missingSections.join(', ')}.`)
+    }
+
+    return code
+  }
+
+  private static createStorage(
+    code: MichelinePrimitiveApplication<any>[],
+    storage: unknown,
+    configuration: MichelsonTypeMetaCreateValueConfiguration = {}
+  ): MichelsonType {
+    const storageSection: MichelinePrimitiveApplication<any> | undefined = TezosContractOrigination.findSection(code, 'storage')
+    const storageType: MichelsonTypeMeta | undefined = MichelsonTypeMeta.fromMichelineNode(
+      (storageSection?.args ?? [])[0] as MichelineTypeNode
+    )
+    if (storageType === undefined) {
+      throw new InvalidValueError(Domain.TEZOS, 'Contract code has an invalid storage type.')
+    }
+
+    try {
+      return storageType.createValue(storage, { ...configuration, lazyEval: false })
+    } catch (error) {
+      throw new InvalidValueError(Domain.TEZOS, `Initial storage does not match the storage type: ${error.message}`)
+    }
+  }
+
+  private static findSection(code: MichelinePrimitiveApplication<any>[], section: string): MichelinePrimitiveApplication<any> | undefined {
+    return code.find((node: MichelinePrimitiveApplication<any>) => node.prim === section)
+  }
+
+  public toJSON(): TezosOriginationScript {
+    return {
+      code: this.code,
+      storage: this.storage.toMichelineJSON() as MichelineDataNode
+    }
+  }
+}
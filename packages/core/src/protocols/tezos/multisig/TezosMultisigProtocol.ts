@@ -0,0 +1,404 @@
+import axios, { AxiosResponse } from '../../../dependencies/src/axios-0.19.0/index'
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { ConditionViolationError, InvalidValueError } from '../../../errors'
+import { Domain } from '../../../errors/coinlib-error'
+import { MultisigRequest } from '../../../serializer/schemas/definitions/multisig-request'
+import { MultisigResponse } from '../../../serializer/schemas/definitions/multisig-response'
+import { RawTezosTransaction } from '../../../serializer/types'
+import { assertNever } from '../../../utils/assert'
+import { isHex } from '../../../utils/hex'
+import { TezosContract } from '../contract/TezosContract'
+import { packMichelsonData, parseMichelsonData, TezosMichelsonData, unpackMichelsonData } from '../TezosMichelsonData'
+import { TezosProtocol } from '../TezosProtocol'
+import { TezosUtils } from '../TezosUtils'
+import { MichelineDataNode, MichelineNode, MichelinePrimitiveType, MichelineTypeNode } from '../types/micheline/MichelineNode'
+import { MichelsonType } from '../types/michelson/MichelsonType'
+import { MichelsonAnnotationPrefix, MichelsonTypeMeta } from '../types/michelson/MichelsonTypeMeta'
+import { TezosMultisigAction, TezosMultisigActionType } from '../types/multisig/TezosMultisigAction'
+import { TezosMultisigPayload, TezosMultisigStorage } from '../types/multisig/TezosMultisigPayload'
+import { TezosOperation } from '../types/operations/TezosOperation'
+import { TezosTransactionOperation } from '../types/operations/Transaction'
+import { TezosOperationType } from '../types/TezosOperationType'
+import { TezosWrappedOperation } from '../types/TezosWrappedOperation'
+import { isMichelinePrimitive, isMichelinePrimitiveApplication, isMichelineSequence } from '../types/utils'
+
+// the generic multisig contract, see https://github.com/murbard/smart-contracts/blob/master/multisig/michelson/generic.tz
+
+const STORAGE_TYPE: MichelineTypeNode = {
+  prim: 'pair',
+  args: [
+    { prim: 'nat', annots: ['%stored_counter'] },
+    {
+      prim: 'pair',
+      args: [
+        { prim: 'nat', annots: ['%threshold'] },
+        { prim: 'list', args: [{ prim: 'key' }], annots: ['%keys'] }
+      ]
+    }
+  ]
+}
+
+const ACTION_TYPE: MichelineTypeNode = {
+  prim: 'or',
+  args: [
+    { prim: 'lambda', args: [{ prim: 'unit' }, { prim: 'list', args: [{ prim: 'operation' }] }], annots: ['%operation'] },
+    {
+      prim: 'pair',
+      args: [
+        { prim: 'nat', annots: ['%threshold'] },
+        { prim: 'list', args: [{ prim: 'key' }], annots: ['%keys'] }
+      ],
+      annots: ['%change_keys']
+    }
+  ]
+}
+
+// the data checked by the contract: `(pair (pair chain_id address) (pair nat action))`
+const PAYLOAD_TYPE: MichelineTypeNode = {
+  prim: 'pair',
+  args: [
+    { prim: 'pair', args: [{ prim: 'chain_id' }, { prim: 'address' }] },
+    { prim: 'pair', args: [{ prim: 'nat' }, ACTION_TYPE] }
+  ]
+}
+
+const MAIN_ENTRYPOINT: string = 'main'
+const SIGNATURE_SEPARATOR: string = ','
+
+export class TezosMultisigProtocol {
+  private readonly contract: TezosContract
+
+  constructor(public readonly protocol: TezosProtocol, public readonly contractAddress: string) {
+    this.contract = new TezosContract(
+      contractAddress,
+      protocol.options.network.rpcUrl,
+      protocol.options.network.extras.conseilUrl,
+      protocol.options.network.extras.conseilNetwork,
+      protocol.options.network.extras.conseilApiKey
+    )
+  }
+
+  public async getStorage(): Promise<TezosMultisigStorage> {
+    const storage: MichelineDataNode = await this.contract.storage()
+    const value: MichelsonType = this.getTypeMeta(STORAGE_TYPE).createValue(storage, {
+      lazyEval: false,
+      onNext: (meta: MichelsonTypeMeta, _raw: unknown, next: MichelsonType): void => {
+        const name: string | undefined = meta.getAnnotation(MichelsonAnnotationPrefix.FIELD)
+        if (name) {
+          next.setName(name)
+        }
+      }
+    })
+    const { stored_counter, threshold, keys }: { stored_counter: BigNumber; threshold: BigNumber; keys: string[] } = value.asRawValue()
+
+    return { counter: stored_counter.toFixed(), threshold: threshold.toNumber(), keys }
+  }
+
+  // the data the cosigners have to sign to approve the action with the current counter of the contract
+  public async createPayload(action: TezosMultisigAction): Promise<TezosMichelsonData> {
+    const [chainId, storage]: [string, TezosMultisigStorage] = await Promise.all([this.getChainId(), this.getStorage()])
+
+    return packMichelsonData(
+      {
+        prim: 'Pair',
+        args: [
+          { prim: 'Pair', args: [{ string: chainId }, { string: this.contractAddress }] },
+          { prim: 'Pair', args: [{ int: storage.counter }, this.actionToMicheline(action)] }
+        ]
+      },
+      PAYLOAD_TYPE
+    )
+  }
+
+  // decodes the data, so that it can be shown to a cosigner before signing
+  public async getPayloadDetails(data: TezosMichelsonData): Promise<TezosMultisigPayload> {
+    const [target, operation]: MichelineNode[] = this.getArgs(this.unpackPayload(data), 'Pair', 2)
+    const [chainId, contractAddress]: MichelineNode[] = this.getArgs(target, 'Pair', 2)
+    const [counter, action]: MichelineNode[] = this.getArgs(operation, 'Pair', 2)
+
+    return {
+      chainId: this.getPrimitive('string', chainId),
+      contractAddress: this.getPrimitive('string', contractAddress),
+      counter: this.getPrimitive('int', counter),
+      action: this.actionFromMicheline(action)
+    }
+  }
+
+  public async createMultisigRequest(
+    publicKey: string,
+    data: TezosMichelsonData,
+    responses: MultisigResponse[] = [],
+    callbackURL: string = ''
+  ): Promise<MultisigRequest> {
+    const signatures: Map<string, string> = this.collectSignatures(responses)
+
+    // the serializer does not support optional properties yet, so the callback URL is always set
+    return {
+      signingPeers: Array.from(signatures.keys()),
+      transaction: JSON.stringify(data),
+      signature: Array.from(signatures.values()).join(SIGNATURE_SEPARATOR),
+      publicKey,
+      callbackURL
+    }
+  }
+
+  public async signMultisigRequest(privateKey: Buffer, request: MultisigRequest): Promise<MultisigResponse> {
+    const data: TezosMichelsonData = parseMichelsonData(request.transaction)
+    const [payload, chainId]: [TezosMultisigPayload, string] = await Promise.all([this.getPayloadDetails(data), this.getChainId()])
+    if (payload.contractAddress !== this.contractAddress) {
+      throw new ConditionViolationError(Domain.TEZOS, 'Multisig request is addressed to another contract.')
+    }
+    // the payload could otherwise be replayed on the network it was created for
+    if (payload.chainId !== chainId) {
+      throw new ConditionViolationError(Domain.TEZOS, 'Multisig request is addressed to another network.')
+    }
+
+    const signature: string = await this.protocol.signMichelsonData(data, { privateKey })
+    if (!(await this.protocol.verifyMichelsonData(data, signature, this.getRawPublicKey(request.publicKey)))) {
+      throw new ConditionViolationError(Domain.TEZOS, 'Multisig request is addressed to another cosigner.')
+    }
+
+    // the signatures are ordered like the signing peers
+    return {
+      signingPeers: [...request.signingPeers, request.publicKey],
+      transaction: request.transaction,
+      signature: [...this.splitSignatures(request.signature), signature].join(SIGNATURE_SEPARATOR)
+    }
+  }
+
+  public async combineMultisigResponses(responses: MultisigResponse[]): Promise<string> {
+    return Array.from(this.collectSignatures(responses).values()).join(SIGNATURE_SEPARATOR)
+  }
+
+  // the call of the `main` entrypoint with the signatures of the cosigners, it can be submitted by any account
+  public async prepareMainCall(publicKey: string, responses: MultisigResponse[], fee?: string): Promise<RawTezosTransaction> {
+    const transactions: string[] = Array.from(new Set(responses.map((response: MultisigResponse) => response.transaction)))
+    if (transactions.length !== 1) {
+      throw new ConditionViolationError(Domain.TEZOS, 'Multisig responses must sign the same payload.')
+    }
+
+    const data: TezosMichelsonData = parseMichelsonData(transactions[0])
+    const [payload, storage]: [TezosMultisigPayload, TezosMultisigStorage] = await Promise.all([
+      this.getPayloadDetails(data),
+      this.getStorage()
+    ])
+    if (payload.contractAddress !== this.contractAddress) {
+      throw new ConditionViolationError(Domain.TEZOS, 'Multisig payload is addressed to another contract.')
+    }
+    if (payload.counter !== storage.counter) {
+      throw new ConditionViolationError(Domain.TEZOS, `Multisig payload has counter ${payload.counter}, expected ${storage.counter}.`)
+    }
+
+    // the signers are identified by their raw public keys, the contract stores them base58 encoded
+    const keys: string[] = storage.keys.map((key: string) => this.getRawPublicKey(key))
+    const signatures: Map<string, string> = new Map()
+    for (const [signer, signature] of Array.from(this.collectSignatures(responses).entries())) {
+      const rawSigner: string = this.getRawPublicKey(signer)
+      if (!keys.includes(rawSigner)) {
+        throw new ConditionViolationError(Domain.TEZOS, `${signer} is not a cosigner of the multisig contract.`)
+      }
+      if (!(await this.protocol.verifyMichelsonData(data, signature, rawSigner))) {
+        throw new ConditionViolationError(Domain.TEZOS, `Invalid multisig signature of ${signer}.`)
+      }
+      signatures.set(rawSigner, signature)
+    }
+    if (signatures.size < storage.threshold) {
+      throw new ConditionViolationError(
+        Domain.TEZOS,
+        `Multisig payload has ${signatures.size} of ${storage.threshold} required signatures.`
+      )
+    }
+
+    // the contract expects an optional signature for each of its keys, in the same order
+    const signatureList: MichelineDataNode[] = keys.map((key: string) => {
+      const signature: string | undefined = signatures.get(key)
+
+      return signature !== undefined ? { prim: 'Some', args: [{ string: signature }] } : { prim: 'None' }
+    })
+    const operation: Partial<TezosTransactionOperation> = {
+      kind: TezosOperationType.TRANSACTION,
+      amount: '0',
+      destination: this.contractAddress,
+      parameters: {
+        entrypoint: MAIN_ENTRYPOINT,
+        value: { prim: 'Pair', args: [this.getArgs(this.unpackPayload(data), 'Pair', 2)[1], signatureList] }
+      },
+      fee: fee !== undefined ? new BigNumber(fee).shiftedBy(this.protocol.decimals).toFixed() : undefined
+    }
+
+    const wrappedOperation: TezosWrappedOperation = await this.protocol.prepareOperations(
+      publicKey,
+      [operation as TezosOperation],
+      fee === undefined
+    )
+
+    return this.protocol.forgeAndWrapOperations(wrappedOperation)
+  }
+
+  private async getChainId(): Promise<string> {
+    const { data: chainId }: AxiosResponse<string> = await axios.get(`${this.protocol.options.network.rpcUrl}/chains/main/chain_id`)
+
+    return chainId
+  }
+
+  private getTypeMeta(type: MichelineTypeNode): MichelsonTypeMeta {
+    const meta: MichelsonTypeMeta | undefined = MichelsonTypeMeta.fromMichelineNode(type)
+    if (meta === undefined) {
+      throw new InvalidValueError(Domain.TEZOS, `Invalid Michelson type ${JSON.stringify(type)}.`)
+    }
+
+    return meta
+  }
+
+  // the payload is always decoded with the type of the contract, not with the type sent along with it
+  private unpackPayload(data: TezosMichelsonData): MichelineNode {
+    try {
+      return unpackMichelsonData({ packed: data.packed, type: PAYLOAD_TYPE }).toMichelineJSON()
+    } catch (error) {
+      throw new InvalidValueError(Domain.TEZOS, `Invalid multisig payload: ${error.message}`)
+    }
+  }
+
+  private getArgs(node: MichelineNode, prim: string, length: number): MichelineNode[] {
+    if (!isMichelinePrimitiveApplication(node) || node.prim !== prim || node.args === undefined || node.args.length !== length) {
+      throw new InvalidValueError(Domain.TEZOS, `Invalid multisig payload, expected ${prim}, got ${JSON.stringify(node)}.`)
+    }
+
+    return node.args
+  }
+
+  private getPrimitive(type: MichelinePrimitiveType, node: MichelineNode): string {
+    if (!isMichelinePrimitive(type, node)) {
+      throw new InvalidValueError(Domain.TEZOS, `Invalid multisig payload, expected ${type}, got ${JSON.stringify(node)}.`)
+    }
+
+    return node[type]
+  }
+
+  private getRawPublicKey(publicKey: string): string {
+    return isHex(publicKey) ? publicKey : TezosUtils.decodePublicKey(publicKey).publicKey
+  }
+
+  private collectSignatures(responses: MultisigResponse[]): Map<string, string> {
+    const signatures: Map<string, string> = new Map()
+    responses.forEach((response: MultisigResponse) => {
+      const responseSignatures: string[] = this.splitSignatures(response.signature)
+      if (responseSignatures.length !== response.signingPeers.length) {
+        throw new InvalidValueError(Domain.TEZOS, 'Multisig response must contain a signature for each signing peer.')
+      }
+
+      response.signingPeers.forEach((peer: string, index: number) => {
+        signatures.set(peer, responseSignatures[index])
+      })
+    })
+
+    return signatures
+  }
+
+  private splitSignatures(signature: string): string[] {
+    return signature.length > 0 ? signature.split(SIGNATURE_SEPARATOR) : []
+  }
+
+  private actionToMicheline(action: TezosMultisigAction): MichelineNode {
+    switch (action.type) {
+      case TezosMultisigActionType.TRANSFER:
+      case TezosMultisigActionType.DELEGATE:
+      case TezosMultisigActionType.LAMBDA:
+        return { prim: 'Left', args: [this.createLambda(action)] }
+      case TezosMultisigActionType.CHANGE_KEYS:
+        return {
+          prim: 'Right',
+          args: [{ prim: 'Pair', args: [{ int: action.threshold.toString() }, action.keys.map((key: string) => ({ string: key }))] }]
+        }
+      default:
+        assertNever(action)
+        throw new InvalidValueError(Domain.TEZOS, 'Unknown multisig action.')
+    }
+  }
+
+  private actionFromMicheline(action: MichelineNode): TezosMultisigAction {
+    if (isMichelinePrimitiveApplication(action) && action.prim === 'Right') {
+      const [changeKeys]: MichelineNode[] = this.getArgs(action, 'Right', 1)
+      const [threshold, keys]: MichelineNode[] = this.getArgs(changeKeys, 'Pair', 2)
+      if (!isMichelineSequence(keys, false)) {
+        throw new InvalidValueError(Domain.TEZOS, `Invalid multisig payload, expected a list of keys, got ${JSON.stringify(keys)}.`)
+      }
+
+      return {
+        type: TezosMultisigActionType.CHANGE_KEYS,
+        threshold: parseInt(this.getPrimitive('int', threshold), 10),
+        keys: keys.map((key: MichelineNode) => this.getPrimitive('string', key))
+      }
+    }
+
+    // transfers and delegations are recognized if their lambda is the one created for them
+    const [code]: MichelineNode[] = this.getArgs(action, 'Left', 1)
+    const pushed: string[] = isMichelineSequence(code, false)
+      ? code
+          .map((node: MichelineNode) => (isMichelinePrimitiveApplication(node) && node.prim === 'PUSH' ? node.args?.[1] : undefined))
+          .filter((value: MichelineNode | undefined): value is MichelineNode => value !== undefined)
+          .map((value: MichelineNode) =>
+            isMichelinePrimitive('string', value) ? value.string : isMichelinePrimitive('int', value) ? value.int : ''
+          )
+      : []
+    const candidates: TezosMultisigAction[] = [{ type: TezosMultisigActionType.DELEGATE, delegate: pushed[0] }]
+    if (pushed.length === 2) {
+      candidates.push({ type: TezosMultisigActionType.TRANSFER, destination: pushed[0], amount: pushed[1] })
+    }
+
+    const encodedCode: string = TezosUtils.encodeMicheline(code)
+    const recognized: TezosMultisigAction | undefined = candidates.find((candidate: TezosMultisigAction) => {
+      try {
+        return TezosUtils.encodeMicheline(this.createLambda(candidate)) === encodedCode
+      } catch {
+        return false
+      }
+    })
+
+    return recognized ?? { type: TezosMultisigActionType.LAMBDA, code }
+  }
+
+  // the lambdas are created like `tezos-client prepare multisig transaction` does
+  private createLambda(action: TezosMultisigAction): MichelineNode {
+    const prefix: MichelineNode[] = [{ prim: 'DROP' }, { prim: 'NIL', args: [{ prim: 'operation' }] }]
+
+    switch (action.type) {
+      case TezosMultisigActionType.TRANSFER:
+        const transfer: MichelineNode[] = [
+          { prim: 'PUSH', args: [{ prim: 'mutez' }, { int: new BigNumber(action.amount).toFixed() }] },
+          { prim: 'UNIT' },
+          { prim: 'TRANSFER_TOKENS' },
+          { prim: 'CONS' }
+        ]
+
+        return action.destination.toLowerCase().startsWith('kt')
+          ? [
+              ...prefix,
+              { prim: 'PUSH', args: [{ prim: 'address' }, { string: action.destination }] },
+              { prim: 'CONTRACT', args: [{ prim: 'unit' }] },
+              [{ prim: 'IF_NONE', args: [[[{ prim: 'UNIT' }, { prim: 'FAILWITH' }]], []] }],
+              ...transfer
+            ]
+          : [
+              ...prefix,
+              { prim: 'PUSH', args: [{ prim: 'key_hash' }, { string: action.destination }] },
+              { prim: 'IMPLICIT_ACCOUNT' },
+              ...transfer
+            ]
+      case TezosMultisigActionType.DELEGATE:
+        const delegate: MichelineNode[] =
+          action.delegate !== undefined
+            ? [{ prim: 'PUSH', args: [{ prim: 'key_hash' }, { string: action.delegate }] }, { prim: 'SOME' }]
+            : [{ prim: 'NONE', args: [{ prim: 'key_hash' }] }]
+
+        return [...prefix, ...delegate, { prim: 'SET_DELEGATE' }, { prim: 'CONS' }]
+      case TezosMultisigActionType.LAMBDA:
+        return action.code
+      case TezosMultisigActionType.CHANGE_KEYS:
+        throw new InvalidValueError(Domain.TEZOS, 'Changing the keys of a multisig contract is not a lambda.')
+      default:
+        assertNever(action)
+        throw new InvalidValueError(Domain.TEZOS, 'Unknown multisig action.')
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export enum TezosCurve {
+  ED25519 = 'ed25519',
+  SECP256K1 = 'secp256k1',
+  P256 = 'p256'
+}
@@ -0,0 +1,4 @@
+// the formats of a typed MessageSignRequest, requests without a type are signed as raw bytes or text
+export enum TezosMessageType {
+  MICHELSON = 'tezos_michelson'
+}
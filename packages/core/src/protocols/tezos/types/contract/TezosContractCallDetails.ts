@@ -0,0 +1,27 @@
+export enum TezosContractCallWarningType {
+  MISSING_TYPE = 'missing_type',
+  INVALID_PARAMETERS = 'invalid_parameters',
+  UNKNOWN_OPERATOR = 'unknown_operator',
+  SET_DELEGATE = 'set_delegate',
+  TRANSFER_BALANCE = 'transfer_balance'
+}
+
+export interface TezosContractCallWarning {
+  type: TezosContractCallWarningType
+  message: string
+}
+
+// a node of the decoded parameters, labelled with the annotation of its type
+export interface TezosContractCallParameter {
+  label?: string
+  type: string
+  value?: string
+  children?: TezosContractCallParameter[]
+}
+
+export interface TezosContractCallDetails {
+  contractAddress: string
+  entrypoint: string
+  parameters?: TezosContractCallParameter
+  warnings: TezosContractCallWarning[]
+}
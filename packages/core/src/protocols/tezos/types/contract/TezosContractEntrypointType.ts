@@ -0,0 +1,6 @@
+// the type of a contract entrypoint, sent along with a sign request so that the parameters can be decoded offline
+export interface TezosContractEntrypointType {
+  contractAddress: string
+  entrypoint: string
+  type: string // the JSON encoded Micheline type, including the annotations
+}
@@ -1,10 +1,17 @@
 import { MichelineDataNode } from '../micheline/MichelineNode'
 
+// the optimized form is the one used in the binary (packed) representation,
+// e.g. addresses, keys and signatures are encoded as bytes and timestamps as integers
+export enum MichelsonUnparsingMode {
+  READABLE = 'readable',
+  OPTIMIZED = 'optimized'
+}
+
 export abstract class MichelsonType {
   constructor(public name?: string) {}
 
   public abstract asRawValue(): any
-  public abstract toMichelineJSON(): MichelineDataNode
+  public abstract toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode
 
   public eval(): void {
     // default implementation, no action required
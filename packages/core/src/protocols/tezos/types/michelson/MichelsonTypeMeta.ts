@@ -99,7 +99,8 @@ export class MichelsonTypeMeta {
   protected getRawValue(value: unknown): unknown {
     const argName: string | undefined = this.getAnnotation(MichelsonAnnotationPrefix.TYPE, MichelsonAnnotationPrefix.FIELD)
 
-    return value instanceof Object && argName && argName in value
+    // only own properties are looked up, e.g. a field named `keys` must not match `Array.prototype.keys`
+    return value instanceof Object && argName && Object.prototype.hasOwnProperty.call(value, argName)
       ? value[argName]
       : value
   }
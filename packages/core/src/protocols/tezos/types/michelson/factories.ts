@@ -1,16 +1,26 @@
+import BigNumber from '../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
 import { UnsupportedError } from '../../../../errors'
 import { Domain } from '../../../../errors/coinlib-error'
+import { isMichelinePrimitive } from '../utils'
+import { MichelsonLambda } from './generics/MichelsonLambda'
 import { MichelsonList } from './generics/MichelsonList'
+import { MichelsonMap } from './generics/MichelsonMap'
 import { MichelsonOption } from './generics/MichelsonOption'
 import { MichelsonOr } from './generics/MichelsonOr'
 import { MichelsonPair } from './generics/MichelsonPair'
+import { MichelsonSet } from './generics/MichelsonSet'
 import { MichelsonGrammarType } from './grammar/MichelsonGrammarType'
 import { MichelsonType } from './MichelsonType'
 import { MichelsonAddress } from './primitives/MichelsonAddress'
 import { MichelsonBool } from './primitives/MichelsonBool'
 import { MichelsonBytes } from './primitives/MichelsonBytes'
+import { MichelsonChainId } from './primitives/MichelsonChainId'
 import { MichelsonInt } from './primitives/MichelsonInt'
+import { MichelsonKey } from './primitives/MichelsonKey'
+import { MichelsonMutez } from './primitives/MichelsonMutez'
+import { MichelsonSignature } from './primitives/MichelsonSignature'
 import { MichelsonString } from './primitives/MichelsonString'
+import { MichelsonTimestamp } from './primitives/MichelsonTimestamp'
 import { MichelsonUnit } from './primitives/MichelsonUnit'
 
 export const michelsonTypeFactories: Record<MichelsonGrammarType, (...args: unknown[]) => MichelsonType> = {
@@ -18,28 +28,36 @@ export const michelsonTypeFactories: Record<MichelsonGrammarType, (...args: unkn
   int: (...args: unknown[]): MichelsonType => MichelsonInt.from(args[0]),
   string: (...args: unknown[]): MichelsonType => MichelsonString.from(args[0]),
   bytes: (...args: unknown[]): MichelsonType => MichelsonBytes.from(args[0]),
-  mutez: (): MichelsonType => notSupported('mutez'),
+  mutez: (...args: unknown[]): MichelsonType => MichelsonMutez.from(args[0]),
   bool: (...args: unknown[]): MichelsonType => MichelsonBool.from(args[0]),
   key_hash: (...args: unknown[]): MichelsonType => MichelsonString.from(args[0]),
-  timestamp: (): MichelsonType => notSupported('timestamp'),
+  timestamp: (...args: unknown[]): MichelsonType => MichelsonTimestamp.from(args[0]),
   address: (...args: unknown[]): MichelsonType => MichelsonAddress.from(args[0]),
-  key: (): MichelsonType => notSupported('key'),
+  key: (...args: unknown[]): MichelsonType => MichelsonKey.from(args[0]),
   unit: (...args: unknown[]): MichelsonType => MichelsonUnit.from(args[0]),
-  signature: (): MichelsonType => notSupported('signature'),
+  signature: (...args: unknown[]): MichelsonType => MichelsonSignature.from(args[0]),
   option: (...args: unknown[]): MichelsonType => MichelsonOption.from(args[0], args[1]),
   list: (...args: unknown[]): MichelsonType => MichelsonList.from(args[0], args[1]),
-  set: (): MichelsonType => notSupported('set'),
+  set: (...args: unknown[]): MichelsonType => MichelsonSet.from(args[0], args[1]),
   operation: (): MichelsonType => notSupported('operation'),
   contract: (...args: unknown[]): MichelsonType => MichelsonAddress.from(args[0]),
   pair: (...args: unknown[]): MichelsonType => MichelsonPair.from(args[0], undefined, ...args.splice(1)),
   or: (...args: unknown[]): MichelsonType => MichelsonOr.from(args[0], args[1], args[2]),
-  lambda: (...args: unknown[]): MichelsonType => MichelsonString.from(args[0]),
-  map: (): MichelsonType => notSupported('map'),
-  big_map: (...args: unknown[]): MichelsonType => MichelsonInt.from(args[0]),
-  chain_id: (): MichelsonType => notSupported('chain_id'),
+  // lambdas given as a string are kept as such for backwards compatibility
+  lambda: (...args: unknown[]): MichelsonType =>
+    typeof args[0] === 'string' || isMichelinePrimitive('string', args[0]) ? MichelsonString.from(args[0]) : MichelsonLambda.from(args[0]),
+  map: (...args: unknown[]): MichelsonType => MichelsonMap.from(args[0], args[1], args[2]),
+  // an existing big map is referenced by its ID, a new one is created from a map literal
+  big_map: (...args: unknown[]): MichelsonType =>
+    isBigMapId(args[0]) ? MichelsonInt.from(args[0]) : MichelsonMap.from(args[0], args[1], args[2]),
+  chain_id: (...args: unknown[]): MichelsonType => MichelsonChainId.from(args[0]),
   sapling_transaction: (...args: unknown[]): MichelsonType => MichelsonBytes.from(args[0])
 }
 
+function isBigMapId(value: unknown): boolean {
+  return typeof value === 'number' || typeof value === 'string' || BigNumber.isBigNumber(value) || isMichelinePrimitive('int', value)
+}
+
 function notSupported(type: MichelsonGrammarType): MichelsonType {
   throw new UnsupportedError(Domain.TEZOS, `Michelson type ${type} is not supported.`)
 }
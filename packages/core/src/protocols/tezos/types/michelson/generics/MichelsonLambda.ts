@@ -0,0 +1,31 @@
+import { CoinlibAssertionError, Domain } from '../../../../../errors/coinlib-error'
+import { MichelineDataNode } from '../../micheline/MichelineNode'
+import { isMichelinePrimitiveApplication, isMichelineSequence } from '../../utils'
+import { MichelsonType } from '../MichelsonType'
+
+export class MichelsonLambda extends MichelsonType {
+  // the Micheline code of the lambda, usually a sequence of instructions
+  constructor(public readonly code: MichelineDataNode, name?: string) {
+    super(name)
+  }
+
+  public static from(value: unknown, name?: string): MichelsonLambda {
+    if (value instanceof MichelsonLambda) {
+      return value
+    }
+
+    if (!isMichelineSequence(value) && !isMichelinePrimitiveApplication(value)) {
+      throw new CoinlibAssertionError(Domain.TEZOS, 'MichelsonLambda', 'Micheline sequence or primitive application', typeof value)
+    }
+
+    return new MichelsonLambda(value as MichelineDataNode, name)
+  }
+
+  public asRawValue(): Record<string, MichelineDataNode> | MichelineDataNode {
+    return this.name ? { [this.name]: this.code } : this.code
+  }
+
+  public toMichelineJSON(): MichelineDataNode {
+    return this.code
+  }
+}
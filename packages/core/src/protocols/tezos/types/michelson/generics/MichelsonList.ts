@@ -2,7 +2,7 @@ import { Lazy } from '../../../../../data/Lazy'
 import { InvalidValueError } from '../../../../../errors'
 import { Domain, CoinlibAssertionError } from '../../../../../errors/coinlib-error'
 import { MichelineDataNode } from '../../micheline/MichelineNode'
-import { MichelsonType } from '../MichelsonType'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
 
 export class MichelsonList extends MichelsonType {
   constructor(public readonly elements: Lazy<MichelsonType[]>, name?: string) {
@@ -47,8 +47,8 @@ export class MichelsonList extends MichelsonType {
     return this.name ? { [this.name]: value } : value
   }
 
-  public toMichelineJSON(): MichelineDataNode {
-    return this.elements.get().map((element: MichelsonType) => element.toMichelineJSON())
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
+    return this.elements.get().map((element: MichelsonType) => element.toMichelineJSON(mode))
   }
 
   public eval(): void {
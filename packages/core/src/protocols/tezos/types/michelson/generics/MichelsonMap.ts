@@ -0,0 +1,103 @@
+import { Lazy } from '../../../../../data/Lazy'
+import { InvalidValueError } from '../../../../../errors'
+import { CoinlibAssertionError, Domain } from '../../../../../errors/coinlib-error'
+import { isRecord } from '../../../../../utils/type'
+import { MichelineDataNode, MichelineNode } from '../../micheline/MichelineNode'
+import { compareMichelineNodes, isMichelinePrimitiveApplication } from '../../utils'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
+
+export type MichelsonMapEntry = [MichelsonType, MichelsonType]
+
+export class MichelsonMap extends MichelsonType {
+  constructor(public readonly entries: Lazy<MichelsonMapEntry[]>, name?: string) {
+    super(name)
+  }
+
+  public static from(value: unknown, keyMappingFunction?: unknown, valueMappingFunction?: unknown, name?: string): MichelsonMap {
+    if (value instanceof MichelsonMap) {
+      return value
+    }
+
+    let entries: [unknown, unknown][]
+    if (Array.isArray(value) && value.length > 0 && value.every(isMichelinePrimitiveApplication)) {
+      entries = MichelsonMap.entriesFromMicheline(value)
+    } else if (value instanceof Map) {
+      entries = Array.from(value.entries())
+    } else if (Array.isArray(value)) {
+      if (value.some((entry: unknown) => !Array.isArray(entry) || entry.length !== 2)) {
+        throw new InvalidValueError(Domain.TEZOS, 'MichelsonMap: expected an array of key-value tuples.')
+      }
+      entries = value as [unknown, unknown][]
+    } else if (isRecord(value)) {
+      entries = Object.entries(value)
+    } else {
+      throw new CoinlibAssertionError(Domain.TEZOS, 'MichelsonMap', 'Micheline sequence or Map or array or object', typeof value)
+    }
+
+    if (
+      entries.some(([key, value]: [unknown, unknown]) => !(key instanceof MichelsonType) || !(value instanceof MichelsonType)) &&
+      (typeof keyMappingFunction !== 'function' || typeof valueMappingFunction !== 'function')
+    ) {
+      throw new InvalidValueError(Domain.TEZOS, 'MichelsonMap: unknown generic mapping factory functions.')
+    }
+
+    const lazyEntries: Lazy<MichelsonMapEntry[]> = new Lazy(() =>
+      entries.map(([key, value]: [unknown, unknown]) => {
+        const michelsonKey: unknown = key instanceof MichelsonType ? key : (keyMappingFunction as Function)(key)
+        const michelsonValue: unknown = value instanceof MichelsonType ? value : (valueMappingFunction as Function)(value)
+
+        if (!(michelsonKey instanceof MichelsonType) || !(michelsonValue instanceof MichelsonType)) {
+          throw new InvalidValueError(Domain.TEZOS, 'MichelsonMap: unknown generic mapping type.')
+        }
+
+        return [michelsonKey, michelsonValue] as MichelsonMapEntry
+      })
+    )
+
+    return new MichelsonMap(lazyEntries, name)
+  }
+
+  private static entriesFromMicheline(micheline: MichelineNode[]): [unknown, unknown][] {
+    return micheline.map((element: MichelineNode) => {
+      if (!isMichelinePrimitiveApplication(element) || element.prim !== 'Elt' || element.args?.length !== 2) {
+        throw new InvalidValueError(Domain.TEZOS, 'MichelsonMap: expected a sequence of `Elt` primitives.')
+      }
+
+      return [element.args[0], element.args[1]] as [unknown, unknown]
+    })
+  }
+
+  public get(key: MichelsonType): MichelsonType | undefined {
+    const optimizedKey: MichelineDataNode = key.toMichelineJSON(MichelsonUnparsingMode.OPTIMIZED)
+    const entry: MichelsonMapEntry | undefined = this.entries
+      .get()
+      .find(
+        ([entryKey]: MichelsonMapEntry) =>
+          compareMichelineNodes(entryKey.toMichelineJSON(MichelsonUnparsingMode.OPTIMIZED), optimizedKey) === 0
+      )
+
+    return entry ? entry[1] : undefined
+  }
+
+  public asRawValue(): Record<string, [any, any][]> | [any, any][] {
+    const value: [any, any][] = this.entries.get().map(([key, value]: MichelsonMapEntry) => [key.asRawValue(), value.asRawValue()])
+
+    return this.name ? { [this.name]: value } : value
+  }
+
+  // the entries of a map literal must be sorted by their keys
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
+    return this.entries
+      .get()
+      .map(([key, value]: MichelsonMapEntry) => ({ key, value, optimizedKey: key.toMichelineJSON(MichelsonUnparsingMode.OPTIMIZED) }))
+      .sort((first, second) => compareMichelineNodes(first.optimizedKey, second.optimizedKey))
+      .map(({ key, value }) => ({
+        prim: 'Elt',
+        args: [key.toMichelineJSON(mode), value.toMichelineJSON(mode)]
+      }))
+  }
+
+  public eval(): void {
+    this.entries.get()
+  }
+}
@@ -6,7 +6,7 @@ import { Domain } from '../../../../../errors/coinlib-error'
 import { MichelineDataNode, MichelinePrimitiveApplication } from '../../micheline/MichelineNode'
 import { isMichelinePrimitiveApplication } from '../../utils'
 import { MichelsonGrammarData } from '../grammar/MichelsonGrammarData'
-import { MichelsonType } from '../MichelsonType'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
 
 export type MichelsonOptionType = 'Some' | 'None'
 
@@ -85,10 +85,10 @@ export class MichelsonSome extends MichelsonOption {
     return this.name ? { [this.name]: value } : value
   }
 
-  public toMichelineJSON(): MichelineDataNode {
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
     return {
       prim: 'Some',
-      args: [this.value.get().toMichelineJSON()]
+      args: [this.value.get().toMichelineJSON(mode)]
     }
   }
 
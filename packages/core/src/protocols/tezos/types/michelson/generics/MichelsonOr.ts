@@ -5,7 +5,7 @@ import { Domain, CoinlibAssertionError } from '../../../../../errors/coinlib-err
 import { MichelineDataNode, MichelinePrimitiveApplication } from '../../micheline/MichelineNode'
 import { isMichelinePrimitiveApplication } from '../../utils'
 import { MichelsonGrammarData } from '../grammar/MichelsonGrammarData'
-import { MichelsonType } from '../MichelsonType'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
 
 export type MichelsonOrType = 'Left' | 'Right'
 
@@ -120,10 +120,10 @@ export abstract class MichelsonOr extends MichelsonType {
     return this.name ? { [this.name]: this.value.get().asRawValue() } : this.value.get().asRawValue()
   }
 
-  public toMichelineJSON(): MichelineDataNode {
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
     return {
       prim: this.type,
-      args: [this.value.get().toMichelineJSON()]
+      args: [this.value.get().toMichelineJSON(mode)]
     }
   }
 
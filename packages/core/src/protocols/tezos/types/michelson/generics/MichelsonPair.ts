@@ -6,7 +6,7 @@ import { isRecord } from '../../../../../utils/type'
 import { MichelineDataNode, MichelinePrimitiveApplication, MichelineGenericNode } from '../../micheline/MichelineNode'
 import { isMichelinePrimitiveApplication } from '../../utils'
 import { MichelsonGrammarData } from '../grammar/MichelsonGrammarData'
-import { MichelsonType } from '../MichelsonType'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
 import { Domain } from '../../../../../errors/coinlib-error'
 
 const michelsonRegex = /^Pair(?<values>(?:\s.+){2,})$/
@@ -115,10 +115,10 @@ export class MichelsonPair extends MichelsonType {
     return this.name ? { [this.name]: value } : value
   }
 
-  public toMichelineJSON(): MichelineDataNode {
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
     return {
       prim: 'Pair',
-      args: this.items.map((item) => item.get().toMichelineJSON())
+      args: this.items.map((item) => item.get().toMichelineJSON(mode))
     }
   }
 
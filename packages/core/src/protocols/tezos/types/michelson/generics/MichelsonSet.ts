@@ -0,0 +1,61 @@
+import { Lazy } from '../../../../../data/Lazy'
+import { InvalidValueError } from '../../../../../errors'
+import { CoinlibAssertionError, Domain } from '../../../../../errors/coinlib-error'
+import { MichelineDataNode } from '../../micheline/MichelineNode'
+import { compareMichelineNodes } from '../../utils'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
+
+export class MichelsonSet extends MichelsonType {
+  constructor(public readonly elements: Lazy<MichelsonType[]>, name?: string) {
+    super(name)
+  }
+
+  public static from(value: unknown, mappingFunction?: unknown, name?: string): MichelsonSet {
+    if (value instanceof MichelsonSet) {
+      return value
+    }
+
+    const elements: unknown[] | undefined = value instanceof Set ? Array.from(value) : Array.isArray(value) ? value : undefined
+    if (elements === undefined) {
+      throw new CoinlibAssertionError(Domain.TEZOS, 'MichelsonSet', 'array or Set', typeof value)
+    }
+
+    if (elements.some((element: unknown) => !(element instanceof MichelsonType)) && typeof mappingFunction !== 'function') {
+      throw new InvalidValueError(Domain.TEZOS, 'MichelsonSet: unknown generic mapping factory function.')
+    }
+
+    const lazyElements: Lazy<MichelsonType[]> = new Lazy(() => {
+      const michelsonElements: unknown[] = elements.map((element: unknown) =>
+        element instanceof MichelsonType ? element : (mappingFunction as Function)(element)
+      )
+
+      if (michelsonElements.some((element: unknown) => !(element instanceof MichelsonType))) {
+        throw new InvalidValueError(Domain.TEZOS, 'MichelsonSet: unknown generic mapping type.')
+      }
+
+      return michelsonElements as MichelsonType[]
+    })
+
+    return new MichelsonSet(lazyElements, name)
+  }
+
+  public asRawValue(): Record<string, any[]> | any[] {
+    const value: any[] = this.elements.get().map((element: MichelsonType) => element.asRawValue())
+
+    return this.name ? { [this.name]: value } : value
+  }
+
+  // the elements of a set literal must be sorted and unique
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
+    return this.elements
+      .get()
+      .map((element: MichelsonType) => ({ element, optimized: element.toMichelineJSON(MichelsonUnparsingMode.OPTIMIZED) }))
+      .sort((first, second) => compareMichelineNodes(first.optimized, second.optimized))
+      .filter((current, index, elements) => index === 0 || compareMichelineNodes(elements[index - 1].optimized, current.optimized) !== 0)
+      .map(({ element }) => element.toMichelineJSON(mode))
+  }
+
+  public eval(): void {
+    this.elements.get()
+  }
+}
@@ -11,4 +11,5 @@ export type MichelsonGrammarData =
   | 'Right' 
   | 'Some' 
   | 'None'
+  | 'Elt'
   | MichelsonGrammarInstruction
\ No newline at end of file
@@ -3,11 +3,15 @@ import { Domain } from '../../../../../errors/coinlib-error'
 import { isHex } from '../../../../../utils/hex'
 import { MichelineDataNode, MichelinePrimitive } from '../../micheline/MichelineNode'
 import { isMichelinePrimitive } from '../../utils'
-import { MichelsonType } from '../MichelsonType'
+import { TezosUtils } from '../../../TezosUtils'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
 
 import { MichelsonBytes } from './MichelsonBytes'
 import { MichelsonString } from './MichelsonString'
 
+// the length of an encoded address without an entrypoint
+const ADDRESS_LENGTH: number = 22
+
 export class MichelsonAddress extends MichelsonType {
   constructor(public readonly address: MichelsonString | MichelsonBytes, name?: string) {
     super(name)
@@ -22,11 +26,24 @@ export class MichelsonAddress extends MichelsonType {
   public static fromMicheline(micheline: MichelinePrimitive<'string'> | MichelinePrimitive<'bytes'>, name?: string): MichelsonAddress {
     const value: MichelsonString | MichelsonBytes = isMichelinePrimitive('string', micheline)
       ? MichelsonString.fromMicheline(micheline)
-      : MichelsonBytes.fromMicheline(micheline)
+      : MichelsonAddress.decodeBytes(micheline.bytes)
 
     return new MichelsonAddress(value, name)
   }
 
+  // the binary form, e.g. of packed or optimized data, is decoded to the readable address and entrypoint
+  private static decodeBytes(bytes: string): MichelsonString | MichelsonBytes {
+    const buffer: Buffer = Buffer.from(bytes, 'hex')
+    if (buffer.length < ADDRESS_LENGTH) {
+      return MichelsonBytes.from(bytes)
+    }
+
+    const address: string = TezosUtils.parseAddress(buffer.slice(0, ADDRESS_LENGTH))
+    const entrypoint: string = buffer.slice(ADDRESS_LENGTH).toString('utf8')
+
+    return MichelsonString.from(entrypoint.length > 0 ? `${address}%${entrypoint}` : address)
+  }
+
   public static fromUnknown(unknownValue: unknown, name?: string): MichelsonAddress {
     if (unknownValue instanceof MichelsonAddress) {
       return unknownValue
@@ -50,7 +67,15 @@ export class MichelsonAddress extends MichelsonType {
     return this.name ? { [this.name]: value } : value
   }
 
-  public toMichelineJSON(): MichelineDataNode {
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
+    if (mode === MichelsonUnparsingMode.OPTIMIZED && typeof this.address.value === 'string') {
+      // the entrypoint of a contract address is appended to the encoded address
+      const [address, entrypoint]: string[] = this.address.value.split('%')
+      const bytes: Buffer = Buffer.concat([TezosUtils.encodeAddress(address), Buffer.from(entrypoint ?? '', 'utf8')])
+
+      return { bytes: bytes.toString('hex') }
+    }
+
     return this.address.toMichelineJSON()
   }
 }
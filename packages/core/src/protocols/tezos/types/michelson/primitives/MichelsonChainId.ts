@@ -0,0 +1,63 @@
+import * as bs58check from '../../../../../dependencies/src/bs58check-2.1.2/index'
+import { InvalidValueError } from '../../../../../errors'
+import { Domain } from '../../../../../errors/coinlib-error'
+import { invalidArgumentTypeError } from '../../../../../utils/error'
+import { TezosUtils } from '../../../TezosUtils'
+import { MichelineDataNode, MichelinePrimitive } from '../../micheline/MichelineNode'
+import { isMichelinePrimitive } from '../../utils'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
+
+const CHAIN_ID_LENGTH: number = 4
+
+export class MichelsonChainId extends MichelsonType {
+  // the base58 encoded chain ID, e.g. `NetXdQprcVkpaWU`
+  constructor(public readonly value: string, name?: string) {
+    super(name)
+  }
+
+  public static from(value: unknown, name?: string): MichelsonChainId {
+    return isMichelinePrimitive('string', value) || isMichelinePrimitive('bytes', value)
+      ? MichelsonChainId.fromMicheline(value, name)
+      : MichelsonChainId.fromUnknown(value, name)
+  }
+
+  public static fromMicheline(micheline: MichelinePrimitive<'string'> | MichelinePrimitive<'bytes'>, name?: string): MichelsonChainId {
+    return isMichelinePrimitive('string', micheline)
+      ? MichelsonChainId.fromUnknown(micheline.string, name)
+      : MichelsonChainId.fromUnknown(Buffer.from(micheline.bytes, 'hex'), name)
+  }
+
+  public static fromUnknown(unknownValue: unknown, name?: string): MichelsonChainId {
+    if (unknownValue instanceof MichelsonChainId) {
+      return unknownValue
+    }
+
+    if (Buffer.isBuffer(unknownValue)) {
+      if (unknownValue.length !== CHAIN_ID_LENGTH) {
+        throw new InvalidValueError(Domain.TEZOS, `MichelsonChainId: invalid chain ID length ${unknownValue.length}.`)
+      }
+
+      return new MichelsonChainId(bs58check.encode(Buffer.concat([TezosUtils.tezosPrefixes.net, unknownValue])), name)
+    }
+
+    if (typeof unknownValue !== 'string') {
+      throw invalidArgumentTypeError('MichelsonChainId', 'string or Buffer', typeof unknownValue)
+    }
+
+    if (!unknownValue.startsWith('Net')) {
+      throw new InvalidValueError(Domain.TEZOS, `MichelsonChainId: invalid chain ID ${unknownValue}.`)
+    }
+
+    return new MichelsonChainId(unknownValue, name)
+  }
+
+  public asRawValue(): Record<string, string> | string {
+    return this.name ? { [this.name]: this.value } : this.value
+  }
+
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
+    return mode === MichelsonUnparsingMode.OPTIMIZED
+      ? { bytes: bs58check.decode(this.value).slice(TezosUtils.tezosPrefixes.net.length).toString('hex') }
+      : { string: this.value }
+  }
+}
@@ -16,7 +16,7 @@ export class MichelsonInt extends MichelsonType {
   }
 
   public static fromMicheline(micheline: MichelinePrimitive<'int'>, name?: string): MichelsonInt {
-    return MichelsonInt.fromUnknown(parseInt(micheline.int, 10), name)
+    return MichelsonInt.fromUnknown(micheline.int, name)
   }
 
   public static fromUnknown(unknownValue: unknown, name?: string): MichelsonInt {
@@ -0,0 +1,67 @@
+import { InvalidValueError } from '../../../../../errors'
+import { Domain } from '../../../../../errors/coinlib-error'
+import { invalidArgumentTypeError } from '../../../../../utils/error'
+import { TezosUtils } from '../../../TezosUtils'
+import { MichelineDataNode, MichelinePrimitive } from '../../micheline/MichelineNode'
+import { TezosCurve } from '../../TezosCurve'
+import { isMichelinePrimitive } from '../../utils'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
+
+// the binary form is tagged with the curve of the key
+const curveTags: TezosCurve[] = [TezosCurve.ED25519, TezosCurve.SECP256K1, TezosCurve.P256]
+
+export class MichelsonKey extends MichelsonType {
+  // the base58 encoded key, e.g. `edpk...`
+  constructor(public readonly value: string, name?: string) {
+    super(name)
+  }
+
+  public static from(value: unknown, name?: string): MichelsonKey {
+    return isMichelinePrimitive('string', value) || isMichelinePrimitive('bytes', value)
+      ? MichelsonKey.fromMicheline(value, name)
+      : MichelsonKey.fromUnknown(value, name)
+  }
+
+  public static fromMicheline(micheline: MichelinePrimitive<'string'> | MichelinePrimitive<'bytes'>, name?: string): MichelsonKey {
+    if (isMichelinePrimitive('string', micheline)) {
+      return MichelsonKey.fromUnknown(micheline.string, name)
+    }
+
+    const bytes: Buffer = Buffer.from(micheline.bytes, 'hex')
+    const curve: TezosCurve | undefined = curveTags[bytes[0]]
+    if (curve === undefined) {
+      throw new InvalidValueError(Domain.TEZOS, `MichelsonKey: unknown key tag ${bytes[0]}.`)
+    }
+
+    return new MichelsonKey(TezosUtils.encodePublicKey(bytes.slice(1).toString('hex'), curve), name)
+  }
+
+  public static fromUnknown(unknownValue: unknown, name?: string): MichelsonKey {
+    if (unknownValue instanceof MichelsonKey) {
+      return unknownValue
+    }
+
+    if (typeof unknownValue !== 'string') {
+      throw invalidArgumentTypeError('MichelsonKey', 'string', typeof unknownValue)
+    }
+
+    // validates the prefix and the checksum
+    TezosUtils.decodePublicKey(unknownValue)
+
+    return new MichelsonKey(unknownValue, name)
+  }
+
+  public asRawValue(): Record<string, string> | string {
+    return this.name ? { [this.name]: this.value } : this.value
+  }
+
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
+    if (mode !== MichelsonUnparsingMode.OPTIMIZED) {
+      return { string: this.value }
+    }
+
+    const { publicKey, curve }: { publicKey: string; curve: TezosCurve } = TezosUtils.decodePublicKey(this.value)
+
+    return { bytes: Buffer.concat([Buffer.from([curveTags.indexOf(curve)]), Buffer.from(publicKey, 'hex')]).toString('hex') }
+  }
+}
@@ -0,0 +1,51 @@
+import BigNumber from '../../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError } from '../../../../../errors'
+import { Domain } from '../../../../../errors/coinlib-error'
+import { invalidArgumentTypeError } from '../../../../../utils/error'
+import { MichelineDataNode, MichelinePrimitive } from '../../micheline/MichelineNode'
+import { isMichelinePrimitive } from '../../utils'
+import { MichelsonType } from '../MichelsonType'
+
+// mutez are stored as a signed 64 bit integer which must not be negative
+const MAX_MUTEZ: BigNumber = new BigNumber(2).pow(63).minus(1)
+
+export class MichelsonMutez extends MichelsonType {
+  constructor(public readonly value: BigNumber, name?: string) {
+    super(name)
+  }
+
+  public static from(value: unknown, name?: string): MichelsonMutez {
+    return isMichelinePrimitive('int', value) ? MichelsonMutez.fromMicheline(value, name) : MichelsonMutez.fromUnknown(value, name)
+  }
+
+  public static fromMicheline(micheline: MichelinePrimitive<'int'>, name?: string): MichelsonMutez {
+    return MichelsonMutez.fromUnknown(micheline.int, name)
+  }
+
+  public static fromUnknown(unknownValue: unknown, name?: string): MichelsonMutez {
+    if (unknownValue instanceof MichelsonMutez) {
+      return unknownValue
+    }
+
+    if (typeof unknownValue !== 'number' && typeof unknownValue !== 'string' && !BigNumber.isBigNumber(unknownValue)) {
+      throw invalidArgumentTypeError('MichelsonMutez', 'number or string or BigNumber', typeof unknownValue)
+    }
+
+    const value: BigNumber = BigNumber.isBigNumber(unknownValue) ? unknownValue : new BigNumber(unknownValue)
+    if (!value.isInteger() || value.isNegative() || value.gt(MAX_MUTEZ)) {
+      throw new InvalidValueError(Domain.TEZOS, `MichelsonMutez: invalid value ${value.toFixed()}.`)
+    }
+
+    return new MichelsonMutez(value, name)
+  }
+
+  public asRawValue(): Record<string, BigNumber> | BigNumber {
+    return this.name ? { [this.name]: this.value } : this.value
+  }
+
+  public toMichelineJSON(): MichelineDataNode {
+    return {
+      int: this.value.toFixed()
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import * as bs58check from '../../../../../dependencies/src/bs58check-2.1.2/index'
+import { InvalidValueError } from '../../../../../errors'
+import { Domain } from '../../../../../errors/coinlib-error'
+import { invalidArgumentTypeError } from '../../../../../utils/error'
+import { TezosUtils } from '../../../TezosUtils'
+import { MichelineDataNode, MichelinePrimitive } from '../../micheline/MichelineNode'
+import { isMichelinePrimitive } from '../../utils'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
+
+const SIGNATURE_LENGTH: number = 64
+
+export class MichelsonSignature extends MichelsonType {
+  // the base58 encoded signature, e.g. `edsig...`
+  constructor(public readonly value: string, name?: string) {
+    super(name)
+  }
+
+  public static from(value: unknown, name?: string): MichelsonSignature {
+    return isMichelinePrimitive('string', value) || isMichelinePrimitive('bytes', value)
+      ? MichelsonSignature.fromMicheline(value, name)
+      : MichelsonSignature.fromUnknown(value, name)
+  }
+
+  public static fromMicheline(micheline: MichelinePrimitive<'string'> | MichelinePrimitive<'bytes'>, name?: string): MichelsonSignature {
+    if (isMichelinePrimitive('string', micheline)) {
+      return MichelsonSignature.fromUnknown(micheline.string, name)
+    }
+
+    // the curve is not part of the binary form, the generic prefix is used
+    const bytes: Buffer = Buffer.from(micheline.bytes, 'hex')
+    if (bytes.length !== SIGNATURE_LENGTH) {
+      throw new InvalidValueError(Domain.TEZOS, `MichelsonSignature: invalid signature length ${bytes.length}.`)
+    }
+
+    return new MichelsonSignature(bs58check.encode(Buffer.concat([TezosUtils.tezosPrefixes.sig, bytes])), name)
+  }
+
+  public static fromUnknown(unknownValue: unknown, name?: string): MichelsonSignature {
+    if (unknownValue instanceof MichelsonSignature) {
+      return unknownValue
+    }
+
+    if (typeof unknownValue !== 'string') {
+      throw invalidArgumentTypeError('MichelsonSignature', 'string', typeof unknownValue)
+    }
+
+    if (!['edsig', 'spsig1', 'p2sig', 'sig'].some((prefix: string) => unknownValue.startsWith(prefix))) {
+      throw new InvalidValueError(Domain.TEZOS, `MichelsonSignature: invalid signature ${unknownValue}.`)
+    }
+
+    return new MichelsonSignature(unknownValue, name)
+  }
+
+  public asRawValue(): Record<string, string> | string {
+    return this.name ? { [this.name]: this.value } : this.value
+  }
+
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
+    if (mode !== MichelsonUnparsingMode.OPTIMIZED) {
+      return { string: this.value }
+    }
+
+    // the raw signature follows the prefix
+    const decoded: Buffer = bs58check.decode(this.value)
+
+    return { bytes: decoded.slice(decoded.length - SIGNATURE_LENGTH).toString('hex') }
+  }
+}
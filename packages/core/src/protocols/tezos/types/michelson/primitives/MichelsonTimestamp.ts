@@ -0,0 +1,64 @@
+import BigNumber from '../../../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError } from '../../../../../errors'
+import { Domain } from '../../../../../errors/coinlib-error'
+import { invalidArgumentTypeError } from '../../../../../utils/error'
+import { MichelineDataNode, MichelinePrimitive } from '../../micheline/MichelineNode'
+import { isMichelinePrimitive } from '../../utils'
+import { MichelsonType, MichelsonUnparsingMode } from '../MichelsonType'
+
+export class MichelsonTimestamp extends MichelsonType {
+  // the number of seconds since the epoch
+  constructor(public readonly value: BigNumber, name?: string) {
+    super(name)
+  }
+
+  public static from(value: unknown, name?: string): MichelsonTimestamp {
+    return isMichelinePrimitive('int', value) || isMichelinePrimitive('string', value)
+      ? MichelsonTimestamp.fromMicheline(value, name)
+      : MichelsonTimestamp.fromUnknown(value, name)
+  }
+
+  public static fromMicheline(micheline: MichelinePrimitive<'int'> | MichelinePrimitive<'string'>, name?: string): MichelsonTimestamp {
+    return MichelsonTimestamp.fromUnknown(isMichelinePrimitive('int', micheline) ? new BigNumber(micheline.int) : micheline.string, name)
+  }
+
+  public static fromUnknown(unknownValue: unknown, name?: string): MichelsonTimestamp {
+    if (unknownValue instanceof MichelsonTimestamp) {
+      return unknownValue
+    }
+
+    if (unknownValue instanceof Date) {
+      return new MichelsonTimestamp(new BigNumber(Math.floor(unknownValue.getTime() / 1000)), name)
+    }
+
+    if (typeof unknownValue === 'string' && !/^-?\d+$/.test(unknownValue)) {
+      // an RFC 3339 date
+      const time: number = Date.parse(unknownValue)
+      if (isNaN(time)) {
+        throw new InvalidValueError(Domain.TEZOS, `MichelsonTimestamp: invalid date ${unknownValue}.`)
+      }
+
+      return new MichelsonTimestamp(new BigNumber(Math.floor(time / 1000)), name)
+    }
+
+    if (typeof unknownValue !== 'number' && typeof unknownValue !== 'string' && !BigNumber.isBigNumber(unknownValue)) {
+      throw invalidArgumentTypeError('MichelsonTimestamp', 'Date or number or string or BigNumber', typeof unknownValue)
+    }
+
+    return new MichelsonTimestamp(BigNumber.isBigNumber(unknownValue) ? unknownValue : new BigNumber(unknownValue), name)
+  }
+
+  public asRawValue(): Record<string, string> | string {
+    const value: string = this.toRFC3339()
+
+    return this.name ? { [this.name]: value } : value
+  }
+
+  public toMichelineJSON(mode?: MichelsonUnparsingMode): MichelineDataNode {
+    return mode === MichelsonUnparsingMode.OPTIMIZED ? { int: this.value.toFixed() } : { string: this.toRFC3339() }
+  }
+
+  private toRFC3339(): string {
+    return new Date(this.value.times(1000).toNumber()).toISOString().replace('.000Z', 'Z')
+  }
+}
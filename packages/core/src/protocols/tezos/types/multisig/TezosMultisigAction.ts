@@ -0,0 +1,36 @@
+import { MichelineNode } from '../micheline/MichelineNode'
+
+export enum TezosMultisigActionType {
+  TRANSFER = 'transfer',
+  DELEGATE = 'delegate',
+  CHANGE_KEYS = 'change_keys',
+  LAMBDA = 'lambda'
+}
+
+export interface TezosMultisigTransferAction {
+  type: TezosMultisigActionType.TRANSFER
+  destination: string
+  amount: string // in mutez
+}
+
+export interface TezosMultisigDelegateAction {
+  type: TezosMultisigActionType.DELEGATE
+  delegate?: string // the delegate is withdrawn if not set
+}
+
+export interface TezosMultisigChangeKeysAction {
+  type: TezosMultisigActionType.CHANGE_KEYS
+  threshold: number
+  keys: string[]
+}
+
+export interface TezosMultisigLambdaAction {
+  type: TezosMultisigActionType.LAMBDA
+  code: MichelineNode // a `lambda unit (list operation)`
+}
+
+export type TezosMultisigAction =
+  | TezosMultisigTransferAction
+  | TezosMultisigDelegateAction
+  | TezosMultisigChangeKeysAction
+  | TezosMultisigLambdaAction
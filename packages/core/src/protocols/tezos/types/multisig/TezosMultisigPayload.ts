@@ -0,0 +1,15 @@
+import { TezosMultisigAction } from './TezosMultisigAction'
+
+export interface TezosMultisigStorage {
+  counter: string
+  threshold: number
+  keys: string[]
+}
+
+// the decoded data signed by the cosigners
+export interface TezosMultisigPayload {
+  chainId: string
+  contractAddress: string
+  counter: string
+  action: TezosMultisigAction
+}
@@ -1,9 +1,15 @@
+import { MichelineDataNode, MichelinePrimitiveApplication } from '../micheline/MichelineNode'
 import { TezosOperationType } from '../TezosOperationType'
 
 import { TezosOperation } from './TezosOperation'
 
+export interface TezosOriginationScript {
+  code: MichelinePrimitiveApplication<any>[] // the `parameter`, `storage` and `code` sections
+  storage: MichelineDataNode
+}
+
 export interface TezosOriginationOperation extends TezosOperation {
-  kind: TezosOperationType.DELEGATION
+  kind: TezosOperationType.ORIGINATION
   source: string
   fee: string
   counter: string
@@ -11,5 +17,5 @@ export interface TezosOriginationOperation extends TezosOperation {
   storage_limit: string
   balance: string
   delegate?: string
-  script: string
+  script: TezosOriginationScript
 }
@@ -1,3 +1,5 @@
+import BigNumber from '../../../dependencies/src/bignumber.js-9.0.0/bignumber'
+
 import { MichelineNode, MichelinePrimitive, MichelinePrimitiveApplication } from './micheline/MichelineNode'
 
 export function isMichelineNode(node: unknown): node is MichelineNode {
@@ -39,4 +41,68 @@ function isMichelineSequenceRecursive(node: unknown, recursionLevel: number): no
       node.every((element: unknown) => isMichelineNodeRecursive(element, recursionLevel + 1))
     )
   )
-}
\ No newline at end of file
+}
+
+// the types of the leaves of a right comb, e.g. `pair a (pair b c)` and `pair a b c` are both `[a, b, c]`
+export function michelineCombTypes(type: MichelineNode): string[] {
+  if (!isMichelinePrimitiveApplication(type)) {
+    return []
+  }
+  if (type.prim !== 'pair') {
+    return [type.prim]
+  }
+  const args: MichelineNode[] = type.args ?? []
+
+  return args.length < 2
+    ? []
+    : [
+        ...michelineCombTypes(args[0]),
+        ...(args.length > 2 ? michelineCombTypes({ prim: 'pair', args: args.slice(1) }) : michelineCombTypes(args[1]))
+      ]
+}
+
+// the order of the primitives of comparable values, e.g. `False` < `True` and `None` < `Some`
+const comparablePrimitivesOrder: string[] = ['False', 'True', 'None', 'Some', 'Left', 'Right', 'Unit', 'Pair']
+
+// compares the optimized Micheline representations of comparable Michelson values, used to sort map keys and set elements
+export function compareMichelineNodes(first: MichelineNode, second: MichelineNode): number {
+  if (isMichelinePrimitive('int', first) && isMichelinePrimitive('int', second)) {
+    return new BigNumber(first.int).comparedTo(second.int)
+  }
+
+  if (isMichelinePrimitive('string', first) && isMichelinePrimitive('string', second)) {
+    return compareStrings(first.string, second.string)
+  }
+
+  if (isMichelinePrimitive('bytes', first) && isMichelinePrimitive('bytes', second)) {
+    return compareStrings(first.bytes.toLowerCase(), second.bytes.toLowerCase())
+  }
+
+  if (isMichelinePrimitiveApplication(first) && isMichelinePrimitiveApplication(second)) {
+    if (first.prim !== second.prim) {
+      return comparablePrimitivesOrder.indexOf(first.prim) - comparablePrimitivesOrder.indexOf(second.prim)
+    }
+
+    const firstArgs: MichelineNode[] = first.args ?? []
+    const secondArgs: MichelineNode[] = second.args ?? []
+    for (let i = 0; i < Math.min(firstArgs.length, secondArgs.length); i++) {
+      const result: number = compareMichelineNodes(firstArgs[i], secondArgs[i])
+      if (result !== 0) {
+        return result
+      }
+    }
+
+    return firstArgs.length - secondArgs.length
+  }
+
+  // nodes of different kinds are never equal
+  return michelineNodeKind(first) - michelineNodeKind(second)
+}
+
+function michelineNodeKind(node: MichelineNode): number {
+  return ['int', 'string', 'bytes', 'prim'].findIndex((kind: string) => node instanceof Object && kind in node)
+}
+
+function compareStrings(first: string, second: string): number {
+  return first < second ? -1 : first > second ? 1 : 0
+}
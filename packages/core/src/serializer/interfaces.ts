@@ -6,7 +6,7 @@ export enum IACMessageType {
   TransactionSignRequest = 5,
   TransactionSignResponse = 6,
   MessageSignRequest = 7,
-  MessageSignResponse = 8
+  MessageSignResponse = 8,
   // MessageVerifyRequest = 9,
   // MessageVerifyResponse = 10,
   // MessageEncryptRequest = 11,
@@ -19,8 +19,8 @@ export enum IACMessageType {
   // ItemRetrieveResponse = 18,
   // ConfigSetRequest = 19,
   // ConfigSetResponse = 20,
-  // MultisigRequest = 21,
-  // MultisigResponse = 22,
+  MultisigRequest = 21,
+  MultisigResponse = 22
   // SocialRecoveryShareRequest = 23,
   // SocialRecoveryShareResponse = 24
 }
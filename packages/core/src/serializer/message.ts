@@ -1,10 +1,14 @@
+import * as rlp from '../dependencies/src/rlp-2.2.3/index'
 import { SerializerError, SerializerErrorType } from '../errors'
 import { MainProtocolSymbols, ProtocolSymbols } from '../utils/ProtocolSymbols'
 
 import { IACMessageType } from './interfaces'
 import { AccountShareResponse } from './schemas/definitions/account-share-response'
 import { MessageSignRequest } from './schemas/definitions/message-sign-request'
+import { TypedMessageSignRequest } from './schemas/definitions/message-sign-request-typed'
 import { MessageSignResponse } from './schemas/definitions/message-sign-response'
+import { MultisigRequest } from './schemas/definitions/multisig-request'
+import { MultisigResponse } from './schemas/definitions/multisig-response'
 import { SignedAeternityTransaction } from './schemas/definitions/signed-transaction-aeternity'
 import { SignedBitcoinTransaction } from './schemas/definitions/signed-transaction-bitcoin'
 import { SignedCosmosTransaction } from './schemas/definitions/signed-transaction-cosmos'
@@ -14,7 +18,10 @@ import { SignedTezosTransaction } from './schemas/definitions/signed-transaction
 import { SignedTezosSaplingTransaction } from './schemas/definitions/signed-transaction-tezos-sapling'
 import { UnsignedAeternityTransaction } from './schemas/definitions/unsigned-transaction-aeternity'
 import { UnsignedBitcoinTransaction } from './schemas/definitions/unsigned-transaction-bitcoin'
+import { UnsignedBitcoinPsbtTransaction } from './schemas/definitions/unsigned-transaction-bitcoin-psbt'
 import { UnsignedEthereumTransaction } from './schemas/definitions/unsigned-transaction-ethereum'
+import { UnsignedEthereumAccessListTransaction } from './schemas/definitions/unsigned-transaction-ethereum-access-list'
+import { UnsignedEthereumEIP1559Transaction } from './schemas/definitions/unsigned-transaction-ethereum-eip1559'
 import { UnsignedSubstrateTransaction } from './schemas/definitions/unsigned-transaction-substrate'
 import { UnsignedTezosTransaction } from './schemas/definitions/unsigned-transaction-tezos'
 import { UnsignedTezosSaplingTransaction } from './schemas/definitions/unsigned-transaction-tezos-sapling'
@@ -23,20 +30,26 @@ import { Serializer } from './serializer'
 import { UnsignedCosmosTransaction } from './types'
 import { generateId } from './utils/generateId'
 import { jsonToArray, rlpArrayToJson, unwrapSchema } from './utils/json-to-rlp'
-import { RLPData } from './utils/toBuffer'
+import { RLPData, toBuffer } from './utils/toBuffer'
 
 const ID_LENGTH: number = 10
 
 export type IACMessages =
   | AccountShareResponse
   | MessageSignRequest
+  | TypedMessageSignRequest
   | MessageSignResponse
+  | MultisigRequest
+  | MultisigResponse
   | UnsignedTezosTransaction
   | UnsignedTezosSaplingTransaction
   | UnsignedAeternityTransaction
   | UnsignedBitcoinTransaction
+  | UnsignedBitcoinPsbtTransaction
   | UnsignedCosmosTransaction
   | UnsignedEthereumTransaction
+  | UnsignedEthereumAccessListTransaction
+  | UnsignedEthereumEIP1559Transaction
   | UnsignedSubstrateTransaction
   | SignedTezosTransaction
   | SignedTezosSaplingTransaction
@@ -84,7 +97,7 @@ export class Message implements IACMessageDefinitionObject {
     this.payload = payload
     this.version = version
 
-    const schemaInfo: SchemaInfo = Serializer.getSchema(this.type, this.protocol)
+    const schemaInfo: SchemaInfo = Message.findSchemaForPayload(Serializer.getSchemaVariants(this.type, this.protocol), this.payload)
     this.schema = unwrapSchema(schemaInfo.schema)
   }
 
@@ -119,7 +132,7 @@ export class Message implements IACMessageDefinitionObject {
     const id: string = this.parseId(idBuf)
     const encodedPayload: RLPData = this.parsePayload(buf[3])
 
-    const schemaInfo: SchemaInfo = Serializer.getSchema(type, protocol)
+    const schemaInfo: SchemaInfo = Message.findSchemaForEncodedPayload(Serializer.getSchemaVariants(type, protocol), encodedPayload)
     const schema: SchemaItem = unwrapSchema(schemaInfo.schema)
     const schemaTransformer: SchemaTransformer | undefined = schemaInfo.transformer
     const json: IACMessages = (rlpArrayToJson(schema, encodedPayload) as any) as IACMessages
@@ -128,6 +141,46 @@ export class Message implements IACMessageDefinitionObject {
     return new Message(type, protocol, payload, id, version)
   }
 
+  private static findSchemaForPayload(variants: SchemaInfo[], payload: IACMessages): SchemaInfo {
+    if (variants.length === 1) {
+      return variants[0]
+    }
+
+    // Variants can extend the payload of the schema they are added to, the most recently added variant that fits the payload is used
+    const schemaInfo: SchemaInfo | undefined = [...variants].reverse().find((variant: SchemaInfo) => {
+      try {
+        jsonToArray('root', unwrapSchema(variant.schema), payload)
+
+        return true
+      } catch (error) {
+        return false
+      }
+    })
+
+    return schemaInfo ?? variants[0]
+  }
+
+  private static findSchemaForEncodedPayload(variants: SchemaInfo[], encodedPayload: RLPData): SchemaInfo {
+    if (variants.length === 1) {
+      return variants[0]
+    }
+
+    // The encoded payload does not carry any type information, a variant matches if the decoded payload encodes back to the same data
+    const encoded: Buffer = rlp.encode(toBuffer(encodedPayload))
+    const schemaInfo: SchemaInfo | undefined = [...variants].reverse().find((variant: SchemaInfo) => {
+      try {
+        const schema: SchemaItem = unwrapSchema(variant.schema)
+        const reencodedPayload: RLPData = jsonToArray('root', schema, rlpArrayToJson(schema, encodedPayload))
+
+        return rlp.encode(toBuffer(reencodedPayload)).equals(encoded)
+      } catch (error) {
+        return false
+      }
+    })
+
+    return schemaInfo ?? variants[0]
+  }
+
   private static parseVersion(buffer: Buffer): string {
     return this.validateProperty<string, string>(
       'Version',
@@ -159,7 +212,10 @@ export class Message implements IACMessageDefinitionObject {
       'Protocol',
       buffer,
       (buf: Buffer) => buf.toString(),
-      (val: string) => val.length === 0 || Object.values(MainProtocolSymbols).some((value: string) => val.split('-')[0] === value)
+      (val: string) =>
+        val.length === 0 ||
+        Object.values(MainProtocolSymbols).some((value: string) => val.split('-')[0] === value) ||
+        Serializer.hasTransactionSchema(val)
     )
   }
 
@@ -0,0 +1,5 @@
+import { MessageSignRequest } from './message-sign-request'
+
+export interface TypedMessageSignRequest extends MessageSignRequest {
+  messageType: string // Format of the message, eg. eth_signTypedData_v4 for EIP-712 typed data as JSON
+}
@@ -0,0 +1,10 @@
+import { SignedTransaction } from './signed-transaction'
+
+export interface SignedBitcoinSegwitTransaction extends SignedTransaction {
+  from: string[]
+  to: string[]
+  amount: string
+  fee: string
+  accountIdentifier: string
+  transaction: string
+}
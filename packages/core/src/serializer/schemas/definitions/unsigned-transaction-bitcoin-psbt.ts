@@ -0,0 +1,9 @@
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface RawBitcoinPsbtTransaction {
+  psbt: string
+}
+
+export interface UnsignedBitcoinPsbtTransaction extends UnsignedTransaction {
+  transaction: RawBitcoinPsbtTransaction
+}
@@ -0,0 +1,26 @@
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface IReplaceableInTransaction {
+  txId: string
+  value: string
+  vout: number
+  address: string
+  derivationPath?: string
+  sequence: number
+}
+
+interface IOutTransaction {
+  recipient: string
+  isChange: boolean
+  value: string
+  derivationPath?: string
+}
+
+interface RawBitcoinReplaceableTransaction {
+  ins: IReplaceableInTransaction[]
+  outs: IOutTransaction[]
+}
+
+export interface UnsignedBitcoinReplaceableTransaction extends UnsignedTransaction {
+  transaction: RawBitcoinReplaceableTransaction
+}
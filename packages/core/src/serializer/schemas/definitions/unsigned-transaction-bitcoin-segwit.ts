@@ -0,0 +1,25 @@
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface IInTransaction {
+  txId: string
+  value: string
+  vout: number
+  address: string
+  derivationPath?: string
+}
+
+interface IOutTransaction {
+  recipient: string
+  isChange: boolean
+  value: string
+  derivationPath?: string
+}
+
+interface RawBitcoinSegwitTransaction {
+  ins: IInTransaction[]
+  outs: IOutTransaction[]
+}
+
+export interface UnsignedBitcoinSegwitTransaction extends UnsignedTransaction {
+  transaction: RawBitcoinSegwitTransaction
+}
@@ -0,0 +1,60 @@
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface CosmosCoin {
+  denom: string
+  amount: string
+}
+
+interface CosmosFee {
+  amount: CosmosCoin[]
+  gas: string
+}
+
+enum CosmosMessageTypeIndex {
+  SEND = 0,
+  DELEGATE = 1,
+  UNDELEGATE = 2,
+  WITHDRAW_DELEGATION_REWARD = 3,
+  REDELEGATE = 4,
+  VOTE = 5,
+  VOTE_WEIGHTED = 6,
+  DEPOSIT = 7,
+  IBC_TRANSFER = 8
+}
+
+interface CosmosWeightedVoteOption {
+  option: number
+  weight: string
+}
+
+interface CosmosHeight {
+  revisionNumber: string
+  revisionHeight: string
+}
+
+interface CosmosMessage {
+  type: CosmosMessageTypeIndex
+  amount: CosmosCoin[]
+  fromAddress: string
+  toAddress: string
+  sourceValidatorAddress: string
+  proposalId: string
+  options: CosmosWeightedVoteOption[]
+  sourcePort: string
+  sourceChannel: string
+  timeoutHeight: CosmosHeight
+  timeoutTimestamp: string
+}
+
+interface CosmosTransaction {
+  messages: CosmosMessage[]
+  fee: CosmosFee
+  memo: string
+  chainID: string
+  accountNumber: string
+  sequence: string
+}
+
+export interface SerializableUnsignedCosmosExtendedTransaction extends UnsignedTransaction {
+  transaction: CosmosTransaction
+}
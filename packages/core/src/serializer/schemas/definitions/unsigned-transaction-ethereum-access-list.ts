@@ -0,0 +1,23 @@
+import { HexString } from './hex-string'
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface EthereumAccessListItem {
+  address: HexString
+  storageKeys: HexString[]
+}
+
+interface RawEthereumAccessListTransaction {
+  type: HexString
+  nonce: HexString
+  gasPrice: HexString
+  gasLimit: HexString
+  to: HexString
+  value: HexString
+  chainId: number
+  data: HexString
+  accessList: EthereumAccessListItem[]
+}
+
+export interface UnsignedEthereumAccessListTransaction extends UnsignedTransaction {
+  transaction: RawEthereumAccessListTransaction
+}
@@ -0,0 +1,24 @@
+import { HexString } from './hex-string'
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface EthereumAccessListItem {
+  address: HexString
+  storageKeys: HexString[]
+}
+
+interface RawEthereumEIP1559Transaction {
+  type: HexString
+  nonce: HexString
+  maxPriorityFeePerGas: HexString
+  maxFeePerGas: HexString
+  gasLimit: HexString
+  to: HexString
+  value: HexString
+  chainId: number
+  data: HexString
+  accessList: EthereumAccessListItem[]
+}
+
+export interface UnsignedEthereumEIP1559Transaction extends UnsignedTransaction {
+  transaction: RawEthereumEIP1559Transaction
+}
@@ -0,0 +1,17 @@
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface TezosContractEntrypointType {
+  contractAddress: string
+  entrypoint: string
+  type: string
+}
+
+interface RawTezosTransaction {
+  binaryTransaction: string
+  entrypointTypes: TezosContractEntrypointType[]
+  curve: string
+}
+
+export interface UnsignedTezosCurveEntrypointsTransaction extends UnsignedTransaction {
+  transaction: RawTezosTransaction
+}
@@ -0,0 +1,10 @@
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface RawTezosTransaction {
+  binaryTransaction: string
+  curve: string
+}
+
+export interface UnsignedTezosCurveTransaction extends UnsignedTransaction {
+  transaction: RawTezosTransaction
+}
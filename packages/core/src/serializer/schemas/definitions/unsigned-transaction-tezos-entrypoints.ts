@@ -0,0 +1,16 @@
+import { UnsignedTransaction } from './unsigned-transaction'
+
+interface TezosContractEntrypointType {
+  contractAddress: string
+  entrypoint: string
+  type: string
+}
+
+interface RawTezosTransaction {
+  binaryTransaction: string
+  entrypointTypes: TezosContractEntrypointType[]
+}
+
+export interface UnsignedTezosEntrypointsTransaction extends UnsignedTransaction {
+  transaction: RawTezosTransaction
+}
@@ -10,6 +10,7 @@ import { Payload } from './payloads/payload'
 import { SerializableUnsignedCosmosTransaction } from './schemas/definitions/unsigned-transaction-cosmos'
 import { SchemaInfo, SchemaRoot } from './schemas/schema'
 import { AeternityTransactionValidator } from './unsigned-transactions/aeternity-transactions.validator'
+import { BitcoinSegwitTransactionValidator } from './unsigned-transactions/bitcoin-segwit-transactions.validator'
 import { BitcoinTransactionValidator } from './unsigned-transactions/bitcoin-transactions.validator'
 import { CosmosTransactionValidator } from './unsigned-transactions/cosmos-transactions.validator'
 import { EthereumTransactionValidator } from './unsigned-transactions/ethereum-transactions.validator'
@@ -21,18 +22,32 @@ import { TransactionValidator } from './validators/transactions.validator'
 const accountShareResponse: SchemaRoot = require('./schemas/generated/account-share-response.json')
 
 const messageSignRequest: SchemaRoot = require('./schemas/generated/message-sign-request.json')
+const messageSignRequestTyped: SchemaRoot = require('./schemas/generated/message-sign-request-typed.json')
 const messageSignResponse: SchemaRoot = require('./schemas/generated/message-sign-response.json')
 
+const multisigRequest: SchemaRoot = require('./schemas/generated/multisig-request.json')
+const multisigResponse: SchemaRoot = require('./schemas/generated/multisig-response.json')
+
 const unsignedTransactionAeternity: SchemaRoot = require('./schemas/generated/transaction-sign-request-aeternity.json')
 const unsignedTransactionBitcoin: SchemaRoot = require('./schemas/generated/transaction-sign-request-bitcoin.json')
+const unsignedTransactionBitcoinPsbt: SchemaRoot = require('./schemas/generated/transaction-sign-request-bitcoin-psbt.json')
+const unsignedTransactionBitcoinReplaceable: SchemaRoot = require('./schemas/generated/transaction-sign-request-bitcoin-replaceable.json')
+const unsignedTransactionBitcoinSegwit: SchemaRoot = require('./schemas/generated/transaction-sign-request-bitcoin-segwit.json')
 const unsignedTransactionCosmos: SchemaRoot = require('./schemas/generated/transaction-sign-request-cosmos.json')
+const unsignedTransactionCosmosExtended: SchemaRoot = require('./schemas/generated/transaction-sign-request-cosmos-extended.json')
 const unsignedTransactionEthereum: SchemaRoot = require('./schemas/generated/transaction-sign-request-ethereum.json')
+const unsignedTransactionEthereumAccessList: SchemaRoot = require('./schemas/generated/transaction-sign-request-ethereum-access-list.json')
+const unsignedTransactionEthereumEIP1559: SchemaRoot = require('./schemas/generated/transaction-sign-request-ethereum-eip1559.json')
 const unsignedTransactionTezos: SchemaRoot = require('./schemas/generated/transaction-sign-request-tezos.json')
+const unsignedTransactionTezosEntrypoints: SchemaRoot = require('./schemas/generated/transaction-sign-request-tezos-entrypoints.json')
+const unsignedTransactionTezosCurve: SchemaRoot = require('./schemas/generated/transaction-sign-request-tezos-curve.json')
+const unsignedTransactionTezosCurveEntrypoints: SchemaRoot = require('./schemas/generated/transaction-sign-request-tezos-curve-entrypoints.json')
 const unsignedTransactionTezosSapling: SchemaRoot = require('./schemas/generated/transaction-sign-request-tezos-sapling.json')
 const unsignedTransactionSubstrate: SchemaRoot = require('./schemas/generated/transaction-sign-request-substrate.json')
 
 const signedTransactionAeternity: SchemaRoot = require('./schemas/generated/transaction-sign-response-aeternity.json')
 const signedTransactionBitcoin: SchemaRoot = require('./schemas/generated/transaction-sign-response-bitcoin.json')
+const signedTransactionBitcoinSegwit: SchemaRoot = require('./schemas/generated/transaction-sign-response-bitcoin-segwit.json')
 const signedTransactionCosmos: SchemaRoot = require('./schemas/generated/transaction-sign-response-cosmos.json')
 const signedTransactionEthereum: SchemaRoot = require('./schemas/generated/transaction-sign-response-ethereum.json')
 const signedTransactionTezos: SchemaRoot = require('./schemas/generated/transaction-sign-response-tezos.json')
@@ -51,7 +66,7 @@ export enum IACPayloadType {
 }
 
 export class Serializer {
-  private static readonly schemas: Map<string, SchemaInfo> = new Map()
+  private static readonly schemas: Map<string, SchemaInfo[]> = new Map()
 
   public static addSchema(schemaId: number, schema: SchemaInfo, protocol?: ProtocolSymbols): void {
     const protocolSpecificSchemaName: string = Serializer.getSchemaName(schemaId, protocol)
@@ -59,21 +74,41 @@ export class Serializer {
     if (this.schemas.has(protocolSpecificSchemaName)) {
       throw new SerializerError(SerializerErrorType.SCHEMA_ALREADY_EXISTS, `Schema ${protocolSpecificSchemaName} already exists`)
     }
-    this.schemas.set(protocolSpecificSchemaName, schema)
+    this.schemas.set(protocolSpecificSchemaName, [schema])
+  }
+
+  // A variant is an alternative payload format for an already registered schema, the matching one is picked based on the payload
+  public static addSchemaVariant(schemaId: number, schema: SchemaInfo, protocol?: ProtocolSymbols): void {
+    const protocolSpecificSchemaName: string = Serializer.getSchemaName(schemaId, protocol)
+
+    const variants: SchemaInfo[] | undefined = this.schemas.get(protocolSpecificSchemaName)
+    if (!variants) {
+      throw new SerializerError(SerializerErrorType.SCHEMA_DOES_NOT_EXISTS, `Schema ${protocolSpecificSchemaName} does not exist`)
+    }
+    variants.push(schema)
   }
 
   public static getSchema(schemaId: number, protocol?: ProtocolSymbols): SchemaInfo {
+    return Serializer.getSchemaVariants(schemaId, protocol)[0]
+  }
+
+  public static getSchemaVariants(schemaId: number, protocol?: ProtocolSymbols): SchemaInfo[] {
     const protocolSpecificSchemaName: string = Serializer.getSchemaName(schemaId, protocol)
 
     // Try to get the protocol specific scheme, if it doesn't exist fall back to the generic one
-    const schema: SchemaInfo | undefined =
+    const variants: SchemaInfo[] | undefined =
       this.schemas.get(protocolSpecificSchemaName) ?? this.schemas.get(Serializer.getSchemaName(schemaId))
 
-    if (!schema) {
+    if (!variants) {
       throw new SerializerError(SerializerErrorType.SCHEMA_DOES_NOT_EXISTS, `Schema ${protocolSpecificSchemaName} does not exist`)
     }
 
-    return schema
+    return variants
+  }
+
+  // protocols which are not known to the library, e.g. configured Cosmos SDK chains, are only supported after registering their schemas
+  public static hasTransactionSchema(protocol: string): boolean {
+    return this.schemas.has(Serializer.getSchemaName(IACMessageType.TransactionSignRequest, protocol as ProtocolSymbols))
   }
 
   private static getSchemaName(schemaId: number, protocol?: ProtocolSymbols): string {
@@ -83,8 +118,11 @@ export class Serializer {
       schemaId === IACMessageType.TransactionSignResponse
     ) {
       const split = schemaName.split('-')
-      if (split.length >= 3 && `${split[1]}-${split[2]}` === SubProtocolSymbols.ETH_ERC20) {
-        return `${schemaId}-${SubProtocolSymbols.ETH_ERC20}`
+      const ethereumTokenSymbol = [SubProtocolSymbols.ETH_ERC20, SubProtocolSymbols.ETH_ERC721, SubProtocolSymbols.ETH_ERC1155].find(
+        (symbol: SubProtocolSymbols) => `${split[1]}-${split[2]}` === symbol
+      )
+      if (split.length >= 3 && ethereumTokenSymbol !== undefined) {
+        return `${schemaId}-${ethereumTokenSymbol}`
       }
     }
     return protocol ? `${schemaId}-${protocol}` : schemaId.toString()
@@ -123,6 +161,7 @@ export class Serializer {
       // TODO: Exhaustive list?
       eth: EthereumTransactionValidator,
       btc: BitcoinTransactionValidator,
+      btc_segwit: BitcoinSegwitTransactionValidator,
       grs: BitcoinTransactionValidator,
       ae: AeternityTransactionValidator,
       xtz: TezosTransactionValidator,
@@ -151,11 +190,16 @@ export class Serializer {
 Serializer.addSchema(IACMessageType.AccountShareResponse, { schema: accountShareResponse })
 
 Serializer.addSchema(IACMessageType.MessageSignRequest, { schema: messageSignRequest })
+Serializer.addSchemaVariant(IACMessageType.MessageSignRequest, { schema: messageSignRequestTyped })
 Serializer.addSchema(IACMessageType.MessageSignResponse, { schema: messageSignResponse })
 
+Serializer.addSchema(IACMessageType.MultisigRequest, { schema: multisigRequest })
+Serializer.addSchema(IACMessageType.MultisigResponse, { schema: multisigResponse })
+
 // TODO: Make sure that we have a schema for every protocol we support
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionAeternity }, MainProtocolSymbols.AE)
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionBitcoin }, MainProtocolSymbols.BTC)
+Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionBitcoinSegwit }, MainProtocolSymbols.BTC_SEGWIT)
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionBitcoin }, MainProtocolSymbols.GRS)
 Serializer.addSchema(
   IACMessageType.TransactionSignRequest,
@@ -164,6 +208,8 @@ Serializer.addSchema(
 )
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionEthereum }, MainProtocolSymbols.ETH)
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionEthereum }, SubProtocolSymbols.ETH_ERC20)
+Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionEthereum }, SubProtocolSymbols.ETH_ERC721)
+Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionEthereum }, SubProtocolSymbols.ETH_ERC1155)
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionTezos }, MainProtocolSymbols.XTZ)
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionTezosSapling }, MainProtocolSymbols.XTZ_SHIELDED)
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionTezos }, SubProtocolSymbols.XTZ_BTC)
@@ -174,12 +220,80 @@ Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTr
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionSubstrate }, MainProtocolSymbols.POLKADOT)
 Serializer.addSchema(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionSubstrate }, MainProtocolSymbols.KUSAMA)
 
+Serializer.addSchemaVariant(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionBitcoinPsbt }, MainProtocolSymbols.BTC)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionCosmosExtended, transformer: unsignedTransactionTransformerCosmos },
+  MainProtocolSymbols.COSMOS
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionBitcoinPsbt },
+  MainProtocolSymbols.BTC_SEGWIT
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionBitcoinReplaceable },
+  MainProtocolSymbols.BTC
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionBitcoinReplaceable },
+  MainProtocolSymbols.BTC_SEGWIT
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionEthereumAccessList },
+  MainProtocolSymbols.ETH
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionEthereumAccessList },
+  SubProtocolSymbols.ETH_ERC20
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionEthereumAccessList },
+  SubProtocolSymbols.ETH_ERC721
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionEthereumAccessList },
+  SubProtocolSymbols.ETH_ERC1155
+)
+Serializer.addSchemaVariant(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionEthereumEIP1559 }, MainProtocolSymbols.ETH)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionEthereumEIP1559 },
+  SubProtocolSymbols.ETH_ERC20
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionEthereumEIP1559 },
+  SubProtocolSymbols.ETH_ERC721
+)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionEthereumEIP1559 },
+  SubProtocolSymbols.ETH_ERC1155
+)
+Serializer.addSchemaVariant(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionTezosEntrypoints }, MainProtocolSymbols.XTZ)
+Serializer.addSchemaVariant(IACMessageType.TransactionSignRequest, { schema: unsignedTransactionTezosCurve }, MainProtocolSymbols.XTZ)
+Serializer.addSchemaVariant(
+  IACMessageType.TransactionSignRequest,
+  { schema: unsignedTransactionTezosCurveEntrypoints },
+  MainProtocolSymbols.XTZ
+)
+
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionAeternity }, MainProtocolSymbols.AE)
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionBitcoin }, MainProtocolSymbols.BTC)
+Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionBitcoinSegwit }, MainProtocolSymbols.BTC_SEGWIT)
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionBitcoin }, MainProtocolSymbols.GRS)
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionCosmos }, MainProtocolSymbols.COSMOS)
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionEthereum }, MainProtocolSymbols.ETH)
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionEthereum }, SubProtocolSymbols.ETH_ERC20)
+Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionEthereum }, SubProtocolSymbols.ETH_ERC721)
+Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionEthereum }, SubProtocolSymbols.ETH_ERC1155)
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionTezos }, MainProtocolSymbols.XTZ)
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionTezosSapling }, MainProtocolSymbols.XTZ_SHIELDED)
 Serializer.addSchema(IACMessageType.TransactionSignResponse, { schema: signedTransactionTezos }, SubProtocolSymbols.XTZ_BTC)
@@ -1,12 +1,17 @@
 import { CosmosTransaction } from '../protocols/cosmos/CosmosTransaction'
+import { EthereumTransactionType } from '../protocols/ethereum/EthereumTypes'
+import { TezosContractEntrypointType } from '../protocols/tezos/types/contract/TezosContractEntrypointType'
 import { TezosSaplingInput } from '../protocols/tezos/types/sapling/TezosSaplingInput'
 import { TezosSaplingOutput } from '../protocols/tezos/types/sapling/TezosSaplingOutput'
 import { TezosSaplingStateDiff } from '../protocols/tezos/types/sapling/TezosSaplingStateDiff'
+import { TezosCurve } from '../protocols/tezos/types/TezosCurve'
 
 import { UnsignedTransaction } from './schemas/definitions/unsigned-transaction'
 
 export interface RawTezosTransaction {
   binaryTransaction: string
+  entrypointTypes?: TezosContractEntrypointType[] // used to decode the parameters of contract calls offline
+  curve?: TezosCurve // the curve of the signing key, ed25519 if it is missing
 }
 
 export interface RawTezosSaplingTransaction {
@@ -27,12 +32,40 @@ export interface RawEthereumTransaction {
   data: string
 }
 
+export interface EthereumAccessListItem {
+  address: string
+  storageKeys: string[]
+}
+
+// EIP-2930
+export interface RawEthereumAccessListTransaction extends RawEthereumTransaction {
+  type: EthereumTransactionType.ACCESS_LIST
+  accessList: EthereumAccessListItem[]
+}
+
+// EIP-1559
+export interface RawEthereumEIP1559Transaction {
+  type: EthereumTransactionType.EIP1559
+  nonce: string
+  maxPriorityFeePerGas: string
+  maxFeePerGas: string
+  gasLimit: string
+  to: string
+  value: string
+  chainId: number
+  data: string
+  accessList: EthereumAccessListItem[]
+}
+
+export type RawEthereumTypedTransaction = RawEthereumAccessListTransaction | RawEthereumEIP1559Transaction
+
 export interface IInTransaction {
   txId: string
   value: string
   vout: number
   address: string
   derivationPath?: string
+  sequence?: number // defaults to a final input, see BIP125 for replaceable inputs
 }
 
 export interface IOutTransaction {
@@ -47,6 +80,10 @@ export interface RawBitcoinTransaction {
   outs: IOutTransaction[]
 }
 
+export interface RawBitcoinPsbtTransaction {
+  psbt: string
+}
+
 export interface RawAeternityTransaction {
   networkId: string
   transaction: string
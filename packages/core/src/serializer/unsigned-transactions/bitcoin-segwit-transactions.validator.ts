@@ -0,0 +1,70 @@
+import { async } from '../../dependencies/src/validate.js-0.13.1/validate'
+import { BitcoinSegwitProtocol } from '../../protocols/bitcoin/BitcoinSegwitProtocol'
+import { SignedBitcoinSegwitTransaction } from '../schemas/definitions/signed-transaction-bitcoin-segwit'
+import { UnsignedBitcoinPsbtTransaction } from '../schemas/definitions/unsigned-transaction-bitcoin-psbt'
+import { UnsignedBitcoinSegwitTransaction } from '../schemas/definitions/unsigned-transaction-bitcoin-segwit'
+import { RawBitcoinPsbtTransaction, RawBitcoinTransaction } from '../types'
+import { TransactionValidator } from '../validators/transactions.validator'
+import { validateSyncScheme } from '../validators/validators'
+
+const addressConstraintOptions = {
+  addressValidationPattern: new BitcoinSegwitProtocol().addressValidationPattern
+}
+
+const unsignedTransactionConstraints = {
+  ins: {
+    presence: { allowEmpty: false },
+    isValidBitcoinInput: addressConstraintOptions
+  },
+  outs: {
+    presence: { allowEmpty: false },
+    isValidBitcoinOutput: addressConstraintOptions
+  }
+}
+
+const unsignedPsbtTransactionConstraints = {
+  psbt: {
+    presence: { allowEmpty: false },
+    isValidBitcoinPsbt: true
+  }
+}
+
+const signedTransactionConstraints = {
+  from: {
+    presence: { allowEmpty: false },
+    isValidBitcoinFromArray: addressConstraintOptions
+  },
+  amount: {
+    type: 'BigNumber',
+    presence: { allowEmpty: false }
+  },
+  fee: {
+    type: 'BigNumber',
+    presence: { allowEmpty: false }
+  },
+  accountIdentifier: {
+    type: 'String',
+    presence: { allowEmpty: false }
+  },
+  transaction: {
+    isValidBitcoinTxString: true,
+    type: 'String',
+    presence: { allowEmpty: false }
+  }
+}
+const success = () => undefined
+const error = (errors) => errors
+
+export class BitcoinSegwitTransactionValidator extends TransactionValidator {
+  public validateUnsignedTransaction(unsignedTx: UnsignedBitcoinSegwitTransaction | UnsignedBitcoinPsbtTransaction): Promise<any> {
+    const rawBitcoinSegwitTx: RawBitcoinTransaction | RawBitcoinPsbtTransaction = unsignedTx.transaction
+    validateSyncScheme({})
+
+    const constraints = 'psbt' in rawBitcoinSegwitTx ? unsignedPsbtTransactionConstraints : unsignedTransactionConstraints
+
+    return async(rawBitcoinSegwitTx, constraints).then(success, error)
+  }
+  public validateSignedTransaction(signedTx: SignedBitcoinSegwitTransaction): Promise<any> {
+    return async(signedTx, signedTransactionConstraints).then(success, error)
+  }
+}
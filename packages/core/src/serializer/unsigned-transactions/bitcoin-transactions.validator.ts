@@ -1,7 +1,8 @@
 import { async } from '../../dependencies/src/validate.js-0.13.1/validate'
 import { SignedBitcoinTransaction } from '../schemas/definitions/signed-transaction-bitcoin'
 import { UnsignedBitcoinTransaction } from '../schemas/definitions/unsigned-transaction-bitcoin'
-import { RawBitcoinTransaction } from '../types'
+import { UnsignedBitcoinPsbtTransaction } from '../schemas/definitions/unsigned-transaction-bitcoin-psbt'
+import { RawBitcoinPsbtTransaction, RawBitcoinTransaction } from '../types'
 import { TransactionValidator } from '../validators/transactions.validator'
 import { validateSyncScheme } from '../validators/validators'
 
@@ -16,6 +17,13 @@ const unsignedTransactionConstraints = {
   }
 }
 
+const unsignedPsbtTransactionConstraints = {
+  psbt: {
+    presence: { allowEmpty: false },
+    isValidBitcoinPsbt: true
+  }
+}
+
 const signedTransactionConstraints = {
   from: {
     presence: { allowEmpty: false },
@@ -43,11 +51,13 @@ const success = () => undefined
 const error = (errors) => errors
 
 export class BitcoinTransactionValidator extends TransactionValidator {
-  public validateUnsignedTransaction(unsignedTx: UnsignedBitcoinTransaction): Promise<any> {
-    const rawBitcoinTx: RawBitcoinTransaction = unsignedTx.transaction
+  public validateUnsignedTransaction(unsignedTx: UnsignedBitcoinTransaction | UnsignedBitcoinPsbtTransaction): Promise<any> {
+    const rawBitcoinTx: RawBitcoinTransaction | RawBitcoinPsbtTransaction = unsignedTx.transaction
     validateSyncScheme({})
 
-    return async(rawBitcoinTx, unsignedTransactionConstraints).then(success, error)
+    const constraints = 'psbt' in rawBitcoinTx ? unsignedPsbtTransactionConstraints : unsignedTransactionConstraints
+
+    return async(rawBitcoinTx, constraints).then(success, error)
   }
   public validateSignedTransaction(signedTx: SignedBitcoinTransaction): Promise<any> {
     return async(signedTx, signedTransactionConstraints).then(success, error)
@@ -1,7 +1,9 @@
 import { async } from '../../dependencies/src/validate.js-0.13.1/validate'
+import { EthereumTransactionType } from '../../protocols/ethereum/EthereumTypes'
 import { SignedEthereumTransaction } from '../schemas/definitions/signed-transaction-ethereum'
 import { UnsignedEthereumTransaction } from '../schemas/definitions/unsigned-transaction-ethereum'
-import { RawEthereumTransaction } from '../types'
+import { UnsignedEthereumAccessListTransaction } from '../schemas/definitions/unsigned-transaction-ethereum-access-list'
+import { UnsignedEthereumEIP1559Transaction } from '../schemas/definitions/unsigned-transaction-ethereum-eip1559'
 import { TransactionValidator } from '../validators/transactions.validator'
 import { validateSyncScheme } from '../validators/validators'
 
@@ -47,6 +49,32 @@ const unsignedTransactionConstraints = {
   }
 }
 
+const accessListConstraints = {
+  type: {
+    presence: { allowEmpty: false },
+    type: 'String',
+    isHexStringWithPrefix: true
+  },
+  accessList: {
+    presence: true,
+    type: 'Array'
+  }
+}
+
+const accessListTransactionConstraints = {
+  ...unsignedTransactionConstraints,
+  ...accessListConstraints
+}
+
+const { gasPrice, ...eip1559BaseConstraints } = unsignedTransactionConstraints
+
+const eip1559TransactionConstraints = {
+  ...eip1559BaseConstraints,
+  ...accessListConstraints,
+  maxPriorityFeePerGas: gasPrice,
+  maxFeePerGas: gasPrice
+}
+
 const signedTransactionConstraints = {
   transaction: {
     presence: { allowEmpty: false },
@@ -58,11 +86,20 @@ const success = () => undefined
 const error = (errors) => errors
 
 export class EthereumTransactionValidator extends TransactionValidator {
-  public validateUnsignedTransaction(unsignedTx: UnsignedEthereumTransaction): Promise<any> {
-    const rawTx: RawEthereumTransaction = unsignedTx.transaction
+  public validateUnsignedTransaction(
+    unsignedTx: UnsignedEthereumTransaction | UnsignedEthereumAccessListTransaction | UnsignedEthereumEIP1559Transaction
+  ): Promise<any> {
+    const rawTx = unsignedTx.transaction
     validateSyncScheme({})
 
-    return async(rawTx, unsignedTransactionConstraints).then(success, error)
+    switch ((rawTx as { type?: string }).type) {
+      case EthereumTransactionType.ACCESS_LIST:
+        return async(rawTx, accessListTransactionConstraints).then(success, error)
+      case EthereumTransactionType.EIP1559:
+        return async(rawTx, eip1559TransactionConstraints).then(success, error)
+      default:
+        return async(rawTx, unsignedTransactionConstraints).then(success, error)
+    }
   }
   public validateSignedTransaction(signedTx: SignedEthereumTransaction): any {
     return async(signedTx, signedTransactionConstraints).then(success, error)
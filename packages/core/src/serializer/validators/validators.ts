@@ -22,6 +22,7 @@ import { RawTezosTransaction } from '../types'
 
 import { AeternityProtocol } from './../../protocols/aeternity/AeternityProtocol'
 import { BitcoinProtocol } from './../../protocols/bitcoin/BitcoinProtocol'
+import { BitcoinPsbt } from './../../protocols/bitcoin/BitcoinPsbt'
 import { TezosProtocol } from './../../protocols/tezos/TezosProtocol'
 
 validators.type = (value, options, key, attributes) => {
@@ -116,7 +117,13 @@ validators.isValidEthereumTransactionString = (transaction: string) => {
 
 // BITCOIN
 
-validators.isValidBitcoinInput = (ins: unknown) => {
+const getBitcoinAddressPattern = (options: unknown): RegExp => {
+  const addressValidationPattern: unknown = isObject(options) ? (options as any).addressValidationPattern : undefined
+
+  return RegExp(isString(addressValidationPattern) ? (addressValidationPattern as string) : new BitcoinProtocol().addressValidationPattern)
+}
+
+validators.isValidBitcoinInput = (ins: unknown, options?: unknown) => {
   // if (!Array.isArray(ins)) {
   //   ins = [ins]
   // }
@@ -153,7 +160,7 @@ validators.isValidBitcoinInput = (ins: unknown) => {
     if (!value.hasOwnProperty('address')) {
       return 'doesn\'t have property address '
     } else {
-      const pattern = RegExp(new BitcoinProtocol().addressValidationPattern)
+      const pattern = getBitcoinAddressPattern(options)
 
       if (!pattern.test(value.address)) {
         return 'not a valid bitcoin address'
@@ -175,7 +182,7 @@ validators.isValidBitcoinInput = (ins: unknown) => {
   return null
 }
 
-validators.isValidBitcoinOutput = (outs: unknown) => {
+validators.isValidBitcoinOutput = (outs: unknown, options?: unknown) => {
   // console.log(outs)
   // if (!Array.isArray(outs)) {
   //   outs = [outs]
@@ -189,7 +196,7 @@ validators.isValidBitcoinOutput = (outs: unknown) => {
     if (!value.hasOwnProperty('recipient')) {
       return 'doesn\'t have property recipient'
     } else {
-      const pattern = RegExp(new BitcoinProtocol().addressValidationPattern)
+      const pattern = getBitcoinAddressPattern(options)
       if (!pattern.test(value.recipient)) {
         return 'invalid Bitcoin address'
       }
@@ -213,14 +220,14 @@ validators.isValidBitcoinOutput = (outs: unknown) => {
   return null
 }
 
-validators.isValidBitcoinFromArray = (array: unknown) => {
+validators.isValidBitcoinFromArray = (array: unknown, options?: unknown) => {
   if (!Array.isArray(array)) {
     return 'not an array of Bitcoin addresses'
   }
   for (let i = 0; i < array.length; i++) {
     const address: string = array[i]
     // const testpattern = RegExp(new BitcoinTestnetProtocol().addressValidationPattern) // TODO maybe don't use the testnetprotocol
-    const pattern = RegExp(new BitcoinProtocol().addressValidationPattern) // TODO maybe don't use the testnetprotocol
+    const pattern = getBitcoinAddressPattern(options) // TODO maybe don't use the testnetprotocol
 
     if (!pattern.test(address)) {
       return 'not a valid bitcoin address'
@@ -252,7 +259,11 @@ validators.isValidBitcoinTxString = (transaction: string) => {
   try {
     const protocol = new BitcoinProtocol()
     const bitcoinJSLib = protocol.options.config.bitcoinJSLib
-    bitcoinJSLib.Transaction.fromHex(transaction)
+    if (BitcoinPsbt.isPsbt(transaction)) {
+      BitcoinPsbt.fromString(transaction, protocol.options.network.extras.network)
+    } else {
+      bitcoinJSLib.Transaction.fromHex(transaction)
+    }
 
     return null
   } catch (error) {
@@ -260,6 +271,20 @@ validators.isValidBitcoinTxString = (transaction: string) => {
   }
 }
 
+validators.isValidBitcoinPsbt = (psbt: string) => {
+  // allow empty values by default (needs to be checked by "presence" check)
+  if (psbt === null || typeof psbt === 'undefined') {
+    return null
+  }
+  try {
+    BitcoinPsbt.fromString(psbt, new BitcoinProtocol().options.network.extras.network)
+
+    return null
+  } catch (error) {
+    return 'is not a valid Bitcoin PSBT'
+  }
+}
+
 // AETERNITY
 
 validators.isMainNet = (value: unknown) => {
@@ -1,6 +1,7 @@
 export enum MainProtocolSymbols {
   AE = 'ae',
   BTC = 'btc',
+  BTC_SEGWIT = 'btc_segwit',
   ETH = 'eth',
   XTZ = 'xtz',
   XTZ_SHIELDED = 'xtz_shielded',
@@ -19,7 +20,9 @@ export enum SubProtocolSymbols {
   XTZ_ETHTZ = 'xtz-eth',
   XTZ_W = 'xtz-w',
   ETH_ERC20 = 'eth-erc20',
-  ETH_ERC20_XCHF = 'eth-erc20-xchf'
+  ETH_ERC20_XCHF = 'eth-erc20-xchf',
+  ETH_ERC721 = 'eth-erc721',
+  ETH_ERC1155 = 'eth-erc1155'
 }
 
 export type ProtocolSymbols = MainProtocolSymbols | SubProtocolSymbols
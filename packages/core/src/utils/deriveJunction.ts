@@ -0,0 +1,119 @@
+import BigNumber from '../dependencies/src/bignumber.js-9.0.0/bignumber'
+import { InvalidValueError } from '../errors'
+import { Domain } from '../errors/coinlib-error'
+
+import { blake2bAsBytes } from './blake2b'
+import { changeEndianness, toHexStringRaw } from './hex'
+
+const CHAIN_CODE_LENGTH = 32
+
+export interface DeriveJunction {
+  chainCode: Uint8Array
+  isHard: boolean
+}
+
+function assertProperDerivationPath(path: string) {
+  if (!(['m', 'm/'] as any).includes(path.slice(0, 2)) && !path.startsWith('/')) {
+    throw new InvalidValueError(Domain.UTILS, 'Invalid derivation path')
+  }
+}
+
+function getIndexChainCode(value: string): Uint8Array {
+  const chainCode = new Uint8Array(CHAIN_CODE_LENGTH)
+  const index = parseInt(value, 10)
+  const indexHex = changeEndianness(toHexStringRaw(index))
+
+  chainCode.fill(0)
+  chainCode.set(Buffer.from(indexHex, 'hex'))
+
+  return chainCode
+}
+
+// junctions are short, only the single and two byte modes of the SCALE compact encoding are needed
+function encodeCompactLength(length: number): Buffer {
+  // tslint:disable:no-bitwise
+  return length < 64 ? Buffer.from([length << 2]) : Buffer.from(changeEndianness(toHexStringRaw((length << 2) | 1, 16)), 'hex')
+  // tslint:enable:no-bitwise
+}
+
+// numeric junctions are encoded as u64, all other junctions as SCALE encoded strings
+function getJunctionChainCode(value: string): Uint8Array {
+  if (/^\d+$/.test(value)) {
+    const chainCode = new Uint8Array(CHAIN_CODE_LENGTH)
+    chainCode.fill(0)
+    chainCode.set(Buffer.from(changeEndianness(toHexStringRaw(new BigNumber(value), 64)), 'hex'))
+
+    return chainCode
+  }
+
+  const bytes = Buffer.from(value, 'utf8')
+  const encoded = Buffer.concat([encodeCompactLength(bytes.length), bytes])
+
+  if (encoded.length > CHAIN_CODE_LENGTH) {
+    return blake2bAsBytes(encoded, CHAIN_CODE_LENGTH * 8)
+  }
+
+  const chainCode = new Uint8Array(CHAIN_CODE_LENGTH)
+  chainCode.fill(0)
+  chainCode.set(encoded)
+
+  return chainCode
+}
+
+// a BIP32 like path, e.g. `m/44'/354'/0'/0/0`
+function parseIndexPath(path: string): DeriveJunction[] {
+  if (path.length === 0) {
+    return []
+  }
+
+  return path.split('/').map((value: string) => {
+    const isHard = (['h', `'`] as any).includes(value.slice(-1))
+    const code = isHard ? value.slice(0, -1) : value
+
+    return {
+      chainCode: getIndexChainCode(code),
+      isHard
+    }
+  })
+}
+
+// a Substrate path, `//` starts a hard and `/` a soft junction, e.g. `//polkadot//0/soft`
+function parseJunctionPath(path: string): DeriveJunction[] {
+  const junctions = path.match(/\/\/?[^/]+/g) || []
+  if (junctions.join('') !== path) {
+    throw new InvalidValueError(Domain.UTILS, 'Invalid derivation path')
+  }
+
+  return junctions.map((junction: string) => {
+    const isHard = junction.startsWith('//')
+
+    return {
+      chainCode: getJunctionChainCode(junction.slice(isHard ? 2 : 1)),
+      isHard
+    }
+  })
+}
+
+export function parseDerivationPath(path: string): DeriveJunction[] {
+  assertProperDerivationPath(path)
+
+  return path.startsWith('m') ? parseIndexPath(path.slice(2)) : parseJunctionPath(path)
+}
+
+// the hard key derivation of Substrate for schemes which do not support soft derivation (ed25519, ecdsa),
+// the indexes of BIP32 like paths are all derived as hard junctions, so that the default paths (`m/44'/354'/0'/0/0`) can be used
+export function deriveHardSeed(hdkdPrefix: string, seed: Uint8Array, path: string): Buffer {
+  const prefix = Buffer.from(hdkdPrefix, 'utf8')
+  const encodedPrefix = Buffer.concat([encodeCompactLength(prefix.length), prefix])
+  const isIndexPath = path.startsWith('m')
+
+  const derived = parseDerivationPath(path).reduce((current: Uint8Array, junction: DeriveJunction) => {
+    if (!junction.isHard && !isIndexPath) {
+      throw new InvalidValueError(Domain.UTILS, 'Soft derivation is not supported for this key type')
+    }
+
+    return blake2bAsBytes(Buffer.concat([encodedPrefix, Buffer.from(current), Buffer.from(junction.chainCode)]), 256)
+  }, seed)
+
+  return Buffer.from(derived)
+}
@@ -0,0 +1,22 @@
+import { ed25519KeypairFromSeed, waitReady } from '@polkadot/wasm-crypto'
+
+import { KeyPair } from '../data/KeyPair'
+
+import { deriveHardSeed } from './deriveJunction'
+import { stripHexPrefix } from './hex'
+
+const HDKD_PREFIX = 'Ed25519HDKD'
+
+export async function createEd25519KeyPair(secret: string | Uint8Array, derivationPath: string): Promise<KeyPair> {
+  await waitReady()
+
+  const seed = typeof secret === 'string' ? Buffer.from(stripHexPrefix(secret), 'hex') : secret
+  const derivedSeed = deriveHardSeed(HDKD_PREFIX, seed.subarray(0, 32), derivationPath)
+  const keyPair = Buffer.from(ed25519KeypairFromSeed(derivedSeed))
+
+  // the private key is the seed followed by the public key, like in libsodium
+  return {
+    privateKey: keyPair,
+    publicKey: keyPair.slice(32)
+  }
+}
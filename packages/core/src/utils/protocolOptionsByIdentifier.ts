@@ -33,10 +33,13 @@ const getProtocolOptionsByIdentifier: (identifier: ProtocolSymbols, network?: Pr
     case MainProtocolSymbols.AE:
       return new AeternityProtocolOptions(network ? (network as AeternityProtocolNetwork) : new AeternityProtocolNetwork())
     case MainProtocolSymbols.BTC:
+    case MainProtocolSymbols.BTC_SEGWIT:
       return new BitcoinProtocolOptions(network ? (network as BitcoinProtocolNetwork) : new BitcoinProtocolNetwork())
     case MainProtocolSymbols.ETH:
     case SubProtocolSymbols.ETH_ERC20_XCHF:
     case SubProtocolSymbols.ETH_ERC20:
+    case SubProtocolSymbols.ETH_ERC721:
+    case SubProtocolSymbols.ETH_ERC1155:
       return new EthereumProtocolOptions(network ? (network as EthereumProtocolNetwork) : new EthereumProtocolNetwork())
     case MainProtocolSymbols.GRS:
       return new GroestlcoinProtocolOptions(network ? (network as GroestlcoinProtocolNetwork) : new GroestlcoinProtocolNetwork())
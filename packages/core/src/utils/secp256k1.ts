@@ -0,0 +1,17 @@
+import { KeyPair } from '../data/KeyPair'
+import SECP256K1 = require('../dependencies/src/secp256k1-3.7.1/elliptic')
+
+import { deriveHardSeed } from './deriveJunction'
+import { stripHexPrefix } from './hex'
+
+const HDKD_PREFIX = 'Secp256k1HDKD'
+
+export async function createSecp256k1KeyPair(secret: string | Uint8Array, derivationPath: string): Promise<KeyPair> {
+  const seed = typeof secret === 'string' ? Buffer.from(stripHexPrefix(secret), 'hex') : secret
+  const privateKey = deriveHardSeed(HDKD_PREFIX, seed.subarray(0, 32), derivationPath)
+
+  return {
+    privateKey,
+    publicKey: SECP256K1.publicKeyCreate(privateKey, true)
+  }
+}
@@ -0,0 +1,78 @@
+import { KeyPair } from '../data/KeyPair'
+import { fromString } from '../dependencies/src/bip32-path-0.4.2/index'
+import BN = require('../dependencies/src/bn.js-4.11.8/lib/bn')
+import createHmac = require('../dependencies/src/create-hmac-1.1.7/browser')
+import { ec as EC } from '../dependencies/src/elliptic-6.5.3/lib/elliptic'
+
+export type Slip10Curve = 'secp256k1' | 'p256'
+
+const HARDENED_OFFSET = 0x80000000
+const KEY_LENGTH = 32
+
+const SEED_KEYS: Record<Slip10Curve, string> = {
+  secp256k1: 'Bitcoin seed',
+  p256: 'Nist256p1 seed'
+}
+
+function hmacSha512(key: string | Buffer, data: Buffer): Buffer {
+  return createHmac('sha512', key).update(data).digest()
+}
+
+function serializeIndex(index: number): Buffer {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32BE(index, 0)
+
+  return buffer
+}
+
+function isValidPrivateKey(ec: EC, key: Buffer): boolean {
+  const value = new BN(key)
+
+  return !value.isZero() && value.cmp(ec.curve.n) < 0
+}
+
+function getCompressedPublicKey(ec: EC, privateKey: Buffer): Buffer {
+  return Buffer.from(ec.keyFromPrivate(privateKey).getPublic(true, 'hex'), 'hex')
+}
+
+function deriveChild(ec: EC, privateKey: Buffer, chainCode: Buffer, index: number): [Buffer, Buffer] {
+  let data =
+    index >= HARDENED_OFFSET
+      ? Buffer.concat([Buffer.from([0]), privateKey, serializeIndex(index)])
+      : Buffer.concat([getCompressedPublicKey(ec, privateKey), serializeIndex(index)])
+
+  // SLIP-10 retries with the right half of the HMAC if the derived key is invalid
+  for (;;) {
+    const digest = hmacSha512(chainCode, data)
+    const tweak = new BN(digest.slice(0, KEY_LENGTH))
+    const child = tweak.add(new BN(privateKey)).umod(ec.curve.n)
+
+    if (tweak.cmp(ec.curve.n) < 0 && !child.isZero()) {
+      return [child.toArrayLike(Buffer, 'be', KEY_LENGTH), digest.slice(KEY_LENGTH)]
+    }
+
+    data = Buffer.concat([Buffer.from([1]), digest.slice(KEY_LENGTH), serializeIndex(index)])
+  }
+}
+
+// SLIP-10 key derivation for the NIST P-256 and secp256k1 curves, for secp256k1 it is equivalent to BIP32
+export function createSlip10KeyPair(curve: Slip10Curve, seed: Buffer, derivationPath: string): KeyPair {
+  const ec = new EC(curve)
+
+  let digest = hmacSha512(SEED_KEYS[curve], seed)
+  while (!isValidPrivateKey(ec, digest.slice(0, KEY_LENGTH))) {
+    digest = hmacSha512(SEED_KEYS[curve], digest)
+  }
+
+  const [privateKey] = fromString(derivationPath, true)
+    .toPathArray()
+    .reduce(([key, chainCode]: [Buffer, Buffer], index: number) => deriveChild(ec, key, chainCode, index), [
+      digest.slice(0, KEY_LENGTH),
+      digest.slice(KEY_LENGTH)
+    ])
+
+  return {
+    privateKey,
+    publicKey: getCompressedPublicKey(ec, privateKey)
+  }
+}
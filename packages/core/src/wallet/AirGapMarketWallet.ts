@@ -81,7 +81,9 @@ export class AirGapMarketWallet extends AirGapWallet {
 
   public async balanceOf(): Promise<BigNumber> {
     if (
-      (this.protocol.identifier === MainProtocolSymbols.BTC || this.protocol.identifier === MainProtocolSymbols.GRS) &&
+      (this.protocol.identifier === MainProtocolSymbols.BTC ||
+        this.protocol.identifier === MainProtocolSymbols.BTC_SEGWIT ||
+        this.protocol.identifier === MainProtocolSymbols.GRS) &&
       this.isExtendedPublicKey
     ) {
       // TODO: Remove and test
@@ -110,7 +112,9 @@ export class AirGapMarketWallet extends AirGapWallet {
     // let transactions: IAirGapTransaction[] = []
     let transactionResult: IAirGapTransactionResult
     if (
-      (this.protocol.identifier === MainProtocolSymbols.BTC || this.protocol.identifier === MainProtocolSymbols.GRS) &&
+      (this.protocol.identifier === MainProtocolSymbols.BTC ||
+        this.protocol.identifier === MainProtocolSymbols.BTC_SEGWIT ||
+        this.protocol.identifier === MainProtocolSymbols.GRS) &&
       this.isExtendedPublicKey
     ) {
       // TODO: Remove and test
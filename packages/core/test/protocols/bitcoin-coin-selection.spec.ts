@@ -0,0 +1,123 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+
+import {
+  AccumulativeCoinSelector,
+  BitcoinAddressType,
+  BranchAndBoundCoinSelector,
+  CoinSelection,
+  CoinSelectionContext,
+  CoinSelectionUTXO,
+  LargestFirstCoinSelector,
+  OldestFirstCoinSelector,
+  OutpointCoinSelector
+} from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { getDustThreshold } from '../../src/protocols/bitcoin/BitcoinTransactionSize'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const utxos: CoinSelectionUTXO[] = [
+  { txid: 'a', vout: 0, value: '20000', confirmations: 10 },
+  { txid: 'b', vout: 0, value: '100000', confirmations: 5 },
+  { txid: 'c', vout: 1, value: '12000', confirmations: 200 },
+  { txid: 'd', vout: 0, value: '55000', confirmations: 50 }
+]
+
+// 100 sat per input, 50 sat for the change output and 200 sat for the rest of the transaction
+const createContext = (targetValue: number): CoinSelectionContext => ({
+  targetValue: new BigNumber(targetValue),
+  dustThreshold: new BigNumber(294),
+  getFee: (inputCount: number, withChange: boolean): BigNumber => new BigNumber(200 + inputCount * 100 + (withChange ? 50 : 0))
+})
+
+const txids = (selection: CoinSelection<CoinSelectionUTXO>): string[] => selection.utxos.map((utxo: CoinSelectionUTXO) => utxo.txid)
+
+describe(`ICoinProtocol Bitcoin Coin Selection - Custom Tests`, () => {
+  it('should calculate the dust threshold from the output script type', async () => {
+    expect(getDustThreshold(BitcoinAddressType.P2PKH)).to.equal(546)
+    expect(getDustThreshold(BitcoinAddressType.P2SH_P2WPKH)).to.equal(540)
+    expect(getDustThreshold(BitcoinAddressType.P2WPKH)).to.equal(294)
+  })
+
+  it('should spend the UTXOs in order with the accumulative selector', async () => {
+    const selection: CoinSelection<CoinSelectionUTXO> = new AccumulativeCoinSelector().select(utxos, createContext(25000))
+
+    expect(txids(selection)).to.deep.equal(['a', 'b'])
+    expect(selection.fee.toFixed()).to.equal('450')
+    expect(selection.change.toFixed()).to.equal('94550')
+  })
+
+  it('should spend the largest UTXOs first', async () => {
+    const selection: CoinSelection<CoinSelectionUTXO> = new LargestFirstCoinSelector().select(utxos, createContext(120000))
+
+    expect(txids(selection)).to.deep.equal(['b', 'd'])
+  })
+
+  it('should spend the oldest UTXOs first', async () => {
+    const selection: CoinSelection<CoinSelectionUTXO> = new OldestFirstCoinSelector().select(utxos, createContext(60000))
+
+    expect(txids(selection)).to.deep.equal(['c', 'd'])
+  })
+
+  it('should find a selection without change', async () => {
+    // c + d = 67000, minus 2 inputs and the base fee
+    const selection: CoinSelection<CoinSelectionUTXO> = new BranchAndBoundCoinSelector().select(utxos, createContext(66550))
+
+    expect(txids(selection).sort()).to.deep.equal(['c', 'd'])
+    expect(selection.change.toFixed()).to.equal('0')
+    expect(selection.fee.toFixed()).to.equal('450')
+  })
+
+  it('should search wallets with many UTXOs without exceeding the call stack', async () => {
+    const manyUtxos: CoinSelectionUTXO[] = Array.from(new Array(20000), (_, index: number) => ({
+      txid: index.toString(),
+      vout: 0,
+      value: '1000',
+      confirmations: 1
+    }))
+    // 15000 inputs with an effective value of 900 each
+    const selection: CoinSelection<CoinSelectionUTXO> = new BranchAndBoundCoinSelector().select(manyUtxos, createContext(13499800))
+
+    expect(selection.utxos).to.have.lengthOf(15000)
+    expect(selection.change.toFixed()).to.equal('0')
+  })
+
+  it('should use the fallback selector if there is no selection without change', async () => {
+    const selection: CoinSelection<CoinSelectionUTXO> = new BranchAndBoundCoinSelector().select(utxos, createContext(1000))
+
+    expect(txids(selection)).to.deep.equal(['b'])
+    expect(selection.change.isGreaterThan(0)).to.be.true
+  })
+
+  it('should spend exactly the given outpoints', async () => {
+    const selector: OutpointCoinSelector = new OutpointCoinSelector([
+      { txid: 'c', vout: 1 },
+      { txid: 'a', vout: 0 }
+    ])
+    const selection: CoinSelection<CoinSelectionUTXO> = selector.select(utxos, createContext(10000))
+
+    expect(txids(selection)).to.deep.equal(['c', 'a'])
+    expect(selection.change.toFixed()).to.equal('21550')
+  })
+
+  it('should reject unknown or insufficient outpoints', async () => {
+    expect(() => new OutpointCoinSelector([{ txid: 'c', vout: 0 }]).select(utxos, createContext(1000))).to.throw(
+      'outpoint c:0 is not spendable'
+    )
+    expect(() => new OutpointCoinSelector([{ txid: 'c', vout: 1 }]).select(utxos, createContext(20000))).to.throw('not enough balance')
+  })
+
+  it('should add dust change to the fee', async () => {
+    // a change of 20000 - 19300 - 350 = 350 is kept, a change of 20000 - 19500 - 350 = 150 is dust
+    const withChange: CoinSelection<CoinSelectionUTXO> = new AccumulativeCoinSelector().select(utxos, createContext(19300))
+    const withoutChange: CoinSelection<CoinSelectionUTXO> = new AccumulativeCoinSelector().select(utxos, createContext(19500))
+
+    expect(withChange.change.toFixed()).to.equal('350')
+    expect(withoutChange.change.toFixed()).to.equal('0')
+    expect(withoutChange.fee.toFixed()).to.equal('500')
+  })
+})
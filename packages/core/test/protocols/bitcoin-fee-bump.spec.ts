@@ -0,0 +1,196 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { BitcoinPsbt, BitcoinSegwitProtocol, IACMessageDefinitionObject, IACMessageType, MainProtocolSymbols, Serializer } from '../../src'
+import axios from '../../src/dependencies/src/axios-0.19.0/index'
+import * as bitcoinJS from '../../src/dependencies/src/bitgo-utxo-lib-5d91049fd7a988382df81c8260e244ee56d57aac/src/index'
+import { RawBitcoinTransaction } from '../../src/serializer/types'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const zpub: string = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+const zprv: string = 'zprvAdG4iTXWBoARxkkzNpNh8r6Qag3irQB8PzEMkAFeTRXxHpbF9z4QgEvBRmfvqWvGp42t42nvgGpNgYSJA9iefm1yYNZKEm7z6qUWCroSQnE'
+
+const txId: string = 'cccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccc'
+
+const createTransaction = (sequence: number, confirmations: number = 0) => ({
+  txid: txId,
+  version: 2,
+  vin: [
+    {
+      txid: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      sequence,
+      n: 0,
+      addresses: ['bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'],
+      value: '100000',
+      hex: ''
+    }
+  ],
+  vout: [
+    { value: '50000', n: 0, hex: '', addresses: ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'] },
+    { value: '40000', n: 1, hex: '', addresses: ['bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el'] }
+  ],
+  blockhash: '',
+  blockHeight: -1,
+  confirmations,
+  blockTime: 0,
+  value: '90000',
+  valueIn: '100000',
+  fees: '10000',
+  hex: '',
+  vsize: 141
+})
+
+const tokens = [
+  { type: 'XPUBAddress', name: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu', path: `m/84'/0'/0'/0/0` },
+  { type: 'XPUBAddress', name: 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el', path: `m/84'/0'/0'/1/0` }
+]
+
+describe(`ICoinProtocol Bitcoin Fee Bumping - Custom Tests`, () => {
+  const protocol: BitcoinSegwitProtocol = new BitcoinSegwitProtocol()
+  const indexerApi: string = protocol.options.network.extras.indexerApi
+
+  const stubIndexer = (transaction: any) => {
+    const stub = sinon.stub(axios, 'get')
+    stub.withArgs(`${indexerApi}/api/v2/tx/${txId}`).returns(Promise.resolve({ data: transaction }))
+    stub.withArgs(`${indexerApi}/api/v2/xpub/${zpub}?details=tokens&tokens=used`).returns(Promise.resolve({ data: { tokens } }))
+  }
+
+  const getSequences = (psbt: string): number[] =>
+    BitcoinPsbt.fromString(psbt, protocol.options.network.extras.network).transaction.ins.map((input) => input.sequence)
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should mark the inputs of a PSBT as replaceable', async () => {
+    const transaction: RawBitcoinTransaction = {
+      ins: [
+        {
+          txId: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+          value: '100000',
+          vout: 0,
+          address: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+          derivationPath: '0/0'
+        }
+      ],
+      outs: [{ recipient: '1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA', isChange: false, value: '90000', derivationPath: '' }]
+    }
+
+    expect(getSequences(await protocol.getPsbtFromRawTransaction(transaction, { extendedPublicKey: zpub }))).to.deep.equal([0xffffffff])
+    expect(
+      getSequences(await protocol.getPsbtFromRawTransaction(transaction, { extendedPublicKey: zpub }, { replaceable: true }))
+    ).to.deep.equal([0xfffffffd])
+  })
+
+  it('should sign transactions prepared as replaceable with the replaceable sequence', async () => {
+    const utxo = {
+      txid: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      vout: 0,
+      value: '100000',
+      height: 1,
+      confirmations: 1
+    }
+    const stub = sinon.stub(axios, 'get')
+    stub
+      .withArgs(`${indexerApi}/api/v2/utxo/${zpub}?confirmed=true`)
+      .returns(Promise.resolve({ data: [{ ...utxo, address: tokens[0].name, path: tokens[0].path }] }))
+
+    const transaction: RawBitcoinTransaction = await protocol.prepareTransactionFromExtendedPublicKey(
+      zpub,
+      0,
+      ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'],
+      ['50000'],
+      '1000',
+      { replaceable: true }
+    )
+    expect(transaction.ins.map((input) => input.sequence)).to.deep.equal([0xfffffffd])
+
+    // the sequences are part of the sign request
+    const serializer: Serializer = new Serializer()
+    const message: IACMessageDefinitionObject = {
+      id: 'random__id',
+      type: IACMessageType.TransactionSignRequest,
+      protocol: MainProtocolSymbols.BTC_SEGWIT,
+      payload: { publicKey: zpub, transaction, callbackURL: 'airgap-wallet://?d=' }
+    }
+    const [deserialized]: IACMessageDefinitionObject[] = await serializer.deserialize(await serializer.serialize([message]))
+    expect(deserialized.payload).to.deep.equal(message.payload)
+
+    const signed = bitcoinJS.Transaction.fromHex(await protocol.signWithExtendedPrivateKey(zprv, transaction))
+    expect(signed.ins[0].sequence).to.equal(0xfffffffd)
+
+    // the transaction created by the wallet can be fee bumped
+    sinon.restore()
+    stubIndexer({ ...createTransaction(signed.ins[0].sequence), hex: signed.toHex() })
+    await expect(protocol.prepareFeeBumpTransaction(zpub, txId, '100')).to.be.fulfilled
+  })
+
+  it('should reduce the change of the replacement to pay the higher fee', async () => {
+    stubIndexer(createTransaction(0xfffffffd))
+
+    const replacement: RawBitcoinTransaction = await protocol.prepareFeeBumpTransaction(zpub, txId, '100')
+
+    expect(replacement.ins.map((input) => [input.txId, input.vout, input.derivationPath, input.sequence])).to.deep.equal([
+      ['aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', 0, '0/0', 0xfffffffd]
+    ])
+    // 144 vB at 100 sat/vB
+    expect(replacement.outs.map((output) => [output.recipient, output.value, output.isChange])).to.deep.equal([
+      ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA', '50000', false],
+      ['bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el', '35600', true]
+    ])
+
+    const signed: string = await protocol.signWithExtendedPrivateKey(zprv, replacement)
+    expect(bitcoinJS.Transaction.fromHex(signed).ins[0].sequence).to.equal(0xfffffffd)
+  })
+
+  it('should pay at least the fee of the original transaction plus the relay fee', async () => {
+    stubIndexer(createTransaction(0xfffffffd))
+
+    const replacement: RawBitcoinTransaction = await protocol.prepareFeeBumpTransaction(zpub, txId, '10')
+
+    expect(replacement.outs[1].value).to.equal('39856')
+  })
+
+  it('should not replace transactions that are final or confirmed', async () => {
+    stubIndexer(createTransaction(0xffffffff))
+    await expect(protocol.prepareFeeBumpTransaction(zpub, txId, '100')).to.be.rejectedWith('does not signal replaceability')
+
+    sinon.restore()
+    stubIndexer(createTransaction(0xfffffffd, 1))
+    await expect(protocol.prepareFeeBumpTransaction(zpub, txId, '100')).to.be.rejectedWith('is already confirmed')
+  })
+
+  it('should spend the own output of a stuck transaction with a higher fee', async () => {
+    stubIndexer(createTransaction(0xffffffff))
+
+    const child: RawBitcoinTransaction = await protocol.prepareChildPaysForParentTransaction(zpub, txId, '100')
+
+    expect(child.ins.map((input) => [input.txId, input.vout, input.value, input.derivationPath, input.sequence])).to.deep.equal([
+      [txId, 1, '40000', '1/0', 0xfffffffd]
+    ])
+    // (141 vB + 110 vB) at 100 sat/vB minus the 10000 sat already paid by the parent
+    expect(child.outs).to.deep.equal([
+      {
+        recipient: (await protocol.getAddressFromExtendedPublicKey(zpub, 1, 1)).getValue(),
+        isChange: true,
+        value: '24900',
+        derivationPath: '1'
+      }
+    ])
+
+    expect(await protocol.signWithExtendedPrivateKey(zprv, child)).to.be.a('string')
+  })
+
+  it('should reject a child that cannot pay for its parent', async () => {
+    stubIndexer(createTransaction(0xffffffff))
+
+    await expect(protocol.prepareChildPaysForParentTransaction(zpub, txId, '1000')).to.be.rejectedWith(
+      'is not sufficient to pay for the parent'
+    )
+  })
+})
@@ -0,0 +1,144 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { BitcoinAddressType, BitcoinSegwitProtocol, OutpointCoinSelector } from '../../src'
+import axios from '../../src/dependencies/src/axios-0.19.0/index'
+import { estimateVirtualSize } from '../../src/protocols/bitcoin/BitcoinTransactionSize'
+import { RawBitcoinTransaction } from '../../src/serializer/types'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const zpub: string = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+
+const utxos = [
+  {
+    txid: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    vout: 0,
+    value: '30000',
+    height: 600000,
+    confirmations: 100,
+    address: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+    path: `m/84'/0'/0'/0/0`
+  },
+  {
+    txid: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+    vout: 1,
+    value: '50000',
+    height: 600001,
+    confirmations: 99,
+    address: 'bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g',
+    path: `m/84'/0'/0'/0/1`
+  }
+]
+
+describe(`ICoinProtocol Bitcoin Fee Estimation - Custom Tests`, () => {
+  const protocol: BitcoinSegwitProtocol = new BitcoinSegwitProtocol()
+  const indexerApi: string = protocol.options.network.extras.indexerApi
+
+  const stubIndexer = (feeRates: { [target: number]: string }) => {
+    const stub = sinon.stub(axios, 'get')
+    stub.withArgs(`${indexerApi}/api/v2/utxo/${zpub}?confirmed=true`).returns(Promise.resolve({ data: utxos }))
+    Object.keys(feeRates).forEach((target: string) => {
+      stub.withArgs(`${indexerApi}/api/v2/estimatefee/${target}`).returns(Promise.resolve({ data: { result: feeRates[target] } }))
+    })
+  }
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should estimate the virtual size of a transaction', async () => {
+    expect(estimateVirtualSize([BitcoinAddressType.P2PKH], [25, 25])).to.equal(226)
+    expect(estimateVirtualSize([BitcoinAddressType.P2WPKH], [22, 22])).to.equal(141)
+    expect(estimateVirtualSize([BitcoinAddressType.P2SH_P2WPKH, BitcoinAddressType.P2SH_P2WPKH], [23])).to.equal(225)
+  })
+
+  it('should prepare a transaction using a fee rate', async () => {
+    stubIndexer({})
+
+    const transaction: RawBitcoinTransaction = await protocol.prepareTransactionFromExtendedPublicKey(
+      zpub,
+      0,
+      ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'],
+      ['40000'],
+      '0',
+      { feeRate: '10' }
+    )
+
+    expect(transaction.ins.map((input) => input.derivationPath)).to.deep.equal(['0/0', '0/1'])
+    expect(transaction.outs).to.deep.equal([
+      { recipient: '1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA', isChange: false, value: '40000', derivationPath: '' },
+      // 212 vB at 10 sat/vB
+      { recipient: 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el', isChange: true, value: '37880', derivationPath: '0' }
+    ])
+  })
+
+  it('should prepare a transaction spending the selected outpoints', async () => {
+    stubIndexer({})
+
+    const transaction: RawBitcoinTransaction = await protocol.prepareTransactionFromExtendedPublicKey(
+      zpub,
+      0,
+      ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'],
+      ['10000'],
+      '0',
+      { feeRate: '10', coinSelector: new OutpointCoinSelector([{ txid: utxos[1].txid, vout: 1 }]) }
+    )
+
+    expect(transaction.ins.map((input) => input.txId)).to.deep.equal([utxos[1].txid])
+    // 144 vB at 10 sat/vB
+    expect(transaction.outs[1].value).to.equal('38560')
+  })
+
+  it('should add the change to the fee if it would be dust', async () => {
+    stubIndexer({})
+
+    const transaction: RawBitcoinTransaction = await protocol.prepareTransactionFromExtendedPublicKey(
+      zpub,
+      0,
+      ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'],
+      ['29850'],
+      '0',
+      { feeRate: '1' }
+    )
+
+    expect(transaction.ins).to.have.lengthOf(1)
+    expect(transaction.outs).to.have.lengthOf(1)
+  })
+
+  it('should estimate the fee defaults from the virtual size of the transaction', async () => {
+    stubIndexer({ 10: '0.00001', 5: '0.00005', 2: '0.0001' })
+
+    // 1 input, 2 outputs, 144 vB
+    expect(await protocol.estimateFeeDefaultsFromExtendedPublicKey(zpub, ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'], ['10000'])).to.deep.equal({
+      low: '0.00000144',
+      medium: '0.0000072',
+      high: '0.0000144'
+    })
+  })
+
+  it('should estimate the fee defaults spending all UTXOs if the balance is not sufficient', async () => {
+    stubIndexer({ 10: '0.00001', 5: '0.00005', 2: '0.0001' })
+
+    // 2 inputs, 2 outputs, 212 vB
+    expect(await protocol.estimateFeeDefaultsFromExtendedPublicKey(zpub, ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'], ['100000'])).to.deep.equal(
+      {
+        low: '0.00000212',
+        medium: '0.0000106',
+        high: '0.0000212'
+      }
+    )
+  })
+
+  it('should fall back to the static fee defaults if the indexer cannot estimate the fee rate', async () => {
+    stubIndexer({ 10: '-1', 5: '0.00005', 2: '0.0001' })
+
+    expect(await protocol.estimateFeeDefaultsFromExtendedPublicKey(zpub, ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'], ['10000'])).to.deep.equal(
+      protocol.feeDefaults
+    )
+  })
+})
@@ -0,0 +1,263 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  BitcoinMultisigAddress,
+  BitcoinMultisigAddressType,
+  BitcoinMultisigConfig,
+  BitcoinMultisigScripts,
+  BitcoinProtocol,
+  BitcoinPsbt,
+  IACMessageDefinitionObject,
+  IACMessageType,
+  MultisigRequest,
+  MultisigResponse,
+  Serializer
+} from '../../src'
+import axios from '../../src/dependencies/src/axios-0.19.0/index'
+import * as bitcoinJS from '../../src/dependencies/src/bitgo-utxo-lib-5d91049fd7a988382df81c8260e244ee56d57aac/src/index'
+import { RawBitcoinPsbtTransaction, RawBitcoinTransaction } from '../../src/serializer/types'
+import { MainProtocolSymbols } from '../../src/utils/ProtocolSymbols'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const mnemonic: string = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+const derivationPath: string = `m/48'/0'/0'/2'`
+
+describe(`ICoinProtocol Bitcoin Multisig - Custom Tests`, () => {
+  const protocol: BitcoinProtocol = new BitcoinProtocol()
+  const indexerApi: string = protocol.options.network.extras.indexerApi
+
+  // three cosigners of the same seed, separated by their passphrase
+  let extendedPrivateKeys: string[]
+  let extendedPublicKeys: string[]
+
+  const createConfig = (addressType: BitcoinMultisigAddressType, publicKeys: string[] = extendedPublicKeys): BitcoinMultisigConfig => ({
+    threshold: 2,
+    cosigners: publicKeys.map((extendedPublicKey: string) => ({ extendedPublicKey, derivationPath })),
+    addressType
+  })
+
+  const prepareTransaction = async (config: BitcoinMultisigConfig): Promise<string> => {
+    const address: string = (await protocol.getAddressFromMultisigConfig(config, 0, 1)).getValue()
+    const previousTransaction = new bitcoinJS.Transaction()
+    previousTransaction.addInput(Buffer.alloc(32), 0)
+    previousTransaction.addOutput(bitcoinJS.address.toOutputScript(address), 100000)
+
+    const stub = sinon.stub(axios, 'get').returns(Promise.resolve({ data: [] }))
+    stub
+      .withArgs(`${indexerApi}/api/v2/tx/${previousTransaction.getId()}`)
+      .returns(Promise.resolve({ data: { hex: previousTransaction.toHex() } }))
+    stub.withArgs(`${indexerApi}/api/v2/utxo/${address}?confirmed=true`).returns(
+      Promise.resolve({
+        data: [
+          {
+            txid: previousTransaction.getId(),
+            vout: 0,
+            value: '100000',
+            height: 1,
+            confirmations: 6
+          }
+        ]
+      })
+    )
+
+    const { psbt }: RawBitcoinPsbtTransaction = await protocol.prepareMultisigTransaction(
+      config,
+      ['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'],
+      ['40000'],
+      '0',
+      { feeRate: '10', addressCount: 5 }
+    )
+
+    return psbt
+  }
+
+  const serializeAndDeserialize = async (
+    type: IACMessageType,
+    payload: MultisigRequest | MultisigResponse
+  ): Promise<MultisigRequest | MultisigResponse> => {
+    const message: IACMessageDefinitionObject = { id: 'random__id', type, protocol: MainProtocolSymbols.BTC, payload }
+    const [deserialized]: IACMessageDefinitionObject[] = await new Serializer().deserialize(await new Serializer().serialize([message]))
+
+    return deserialized.payload as MultisigRequest | MultisigResponse
+  }
+
+  before(async () => {
+    extendedPrivateKeys = await Promise.all(
+      ['a', 'b', 'c'].map((password: string) => protocol.getExtendedPrivateKeyFromMnemonic(mnemonic, derivationPath, password))
+    )
+    extendedPublicKeys = await Promise.all(
+      ['a', 'b', 'c'].map((password: string) => protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath, password))
+    )
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should derive the same multisig addresses regardless of the order of the cosigners', async () => {
+    const p2wsh: string = (await protocol.getAddressFromMultisigConfig(createConfig(BitcoinMultisigAddressType.P2WSH), 0, 0)).getValue()
+    const reversed: string = (
+      await protocol.getAddressFromMultisigConfig(createConfig(BitcoinMultisigAddressType.P2WSH, [...extendedPublicKeys].reverse()), 0, 0)
+    ).getValue()
+
+    expect(p2wsh).to.match(/^bc1q[a-z0-9]{58}$/)
+    expect(reversed).to.equal(p2wsh)
+    expect((await protocol.getAddressFromMultisigConfig(createConfig(BitcoinMultisigAddressType.P2SH), 0, 0)).getValue()).to.match(/^3/)
+    expect((await protocol.getAddressFromMultisigConfig(createConfig(BitcoinMultisigAddressType.P2SH_P2WSH), 0, 0)).getValue()).to.match(
+      /^3/
+    )
+  })
+
+  it('should reject an invalid threshold', async () => {
+    await expect(
+      protocol.getAddressFromMultisigConfig({ ...createConfig(BitcoinMultisigAddressType.P2WSH), threshold: 4 }, 0, 0)
+    ).to.be.rejectedWith('Invalid multisig threshold 4 of 3')
+  })
+
+  it('should prepare a multisig transaction with the scripts and keys of all cosigners', async () => {
+    const config: BitcoinMultisigConfig = createConfig(BitcoinMultisigAddressType.P2WSH)
+    const psbt: string = await prepareTransaction(config)
+    const bitcoinPsbt: BitcoinPsbt = BitcoinPsbt.fromString(psbt, protocol.options.network.extras.network)
+
+    expect(bitcoinPsbt.inputs[0].witnessScript).to.not.be.undefined
+    expect(bitcoinPsbt.inputs[0].bip32Derivations.map((derivation) => derivation.path)).to.deep.equal([
+      `${derivationPath}/0/1`,
+      `${derivationPath}/0/1`,
+      `${derivationPath}/0/1`
+    ])
+
+    const transaction: RawBitcoinTransaction = await protocol.getRawTransactionFromMultisigPsbt(config, psbt)
+    // 1 input of a 2-of-3 P2WSH, 2 outputs, 192 vB at 10 sat/vB
+    expect(transaction.outs.map((output) => [output.value, output.isChange, output.derivationPath])).to.deep.equal([
+      ['40000', false, ''],
+      ['58080', true, '0']
+    ])
+    expect(transaction.outs[1].recipient).to.equal((await protocol.getAddressFromMultisigConfig(config, 1, 0)).getValue())
+  })
+
+  it('should collect the partial signatures of the cosigners through IAC messages', async () => {
+    const config: BitcoinMultisigConfig = createConfig(BitcoinMultisigAddressType.P2WSH)
+    const psbt: string = await prepareTransaction(config)
+
+    const firstRequest = (await serializeAndDeserialize(
+      IACMessageType.MultisigRequest,
+      await protocol.createMultisigRequest(extendedPublicKeys[0], psbt)
+    )) as MultisigRequest
+    const firstResponse = (await serializeAndDeserialize(
+      IACMessageType.MultisigResponse,
+      await protocol.signMultisigRequest(config, extendedPrivateKeys[0], firstRequest)
+    )) as MultisigResponse
+
+    await expect(protocol.finalizePsbt(await protocol.combineMultisigResponses([firstResponse]))).to.be.rejectedWith(
+      'Input 0 has 1 of 2 required signatures.'
+    )
+
+    const secondRequest = (await serializeAndDeserialize(
+      IACMessageType.MultisigRequest,
+      await protocol.createMultisigRequest(extendedPublicKeys[2], psbt, [firstResponse])
+    )) as MultisigRequest
+    const secondResponse: MultisigResponse = await protocol.signMultisigRequest(config, extendedPrivateKeys[2], secondRequest)
+    expect(secondResponse.signingPeers).to.have.lengthOf(2)
+
+    const signed = bitcoinJS.Transaction.fromHex(await protocol.finalizePsbt(await protocol.combineMultisigResponses([secondResponse])))
+    const bitcoinPsbt: BitcoinPsbt = BitcoinPsbt.fromString(psbt, protocol.options.network.extras.network)
+    const witnessScript: Buffer = bitcoinPsbt.inputs[0].witnessScript as Buffer
+    const { pubKeys } = bitcoinJS.script.multisig.output.decode(witnessScript)
+    const hash: Buffer = signed.hashForWitnessV0(0, witnessScript, 100000, bitcoinJS.Transaction.SIGHASH_ALL)
+
+    const [dummy, ...signatures]: Buffer[] = signed.ins[0].witness.slice(0, -1)
+    expect(dummy).to.have.lengthOf(0)
+    expect(signatures).to.have.lengthOf(2)
+    // the signatures have to be ordered like the public keys of the script
+    const signers: number[] = signatures.map((signature: Buffer) =>
+      pubKeys.findIndex((publicKey: Buffer) =>
+        bitcoinJS.ECPair.fromPublicKeyBuffer(publicKey).verify(hash, bitcoinJS.ECSignature.parseScriptSignature(signature).signature)
+      )
+    )
+    expect(signers.every((signer: number) => signer >= 0)).to.be.true
+    expect(signers[0]).to.be.lessThan(signers[1])
+  })
+
+  it('should combine partial signatures collected in parallel and finalize legacy multisig inputs', async () => {
+    const config: BitcoinMultisigConfig = createConfig(BitcoinMultisigAddressType.P2SH)
+    const psbt: string = await prepareTransaction(config)
+    const bitcoinPsbt: BitcoinPsbt = BitcoinPsbt.fromString(psbt, protocol.options.network.extras.network)
+    expect(bitcoinPsbt.inputs[0].witnessUtxo).to.be.undefined
+    expect(bitcoinPsbt.inputs[0].nonWitnessUtxo).to.not.be.undefined
+
+    const responses: MultisigResponse[] = await Promise.all(
+      [1, 2].map(async (index: number) =>
+        protocol.signMultisigRequest(
+          config,
+          extendedPrivateKeys[index],
+          await protocol.createMultisigRequest(extendedPublicKeys[index], psbt)
+        )
+      )
+    )
+    const signed = bitcoinJS.Transaction.fromHex(await protocol.finalizePsbt(await protocol.combineMultisigResponses(responses)))
+
+    // OP_0, two signatures and the redeem script
+    expect(bitcoinJS.script.decompile(signed.ins[0].script)).to.have.lengthOf(4)
+    expect(signed.ins[0].witness).to.have.lengthOf(0)
+  })
+
+  it('should reject a request that is addressed to another cosigner', async () => {
+    const config: BitcoinMultisigConfig = createConfig(BitcoinMultisigAddressType.P2SH_P2WSH)
+    const psbt: string = await prepareTransaction(config)
+    const request: MultisigRequest = await protocol.createMultisigRequest(extendedPublicKeys[0], psbt)
+
+    await expect(protocol.signMultisigRequest(config, extendedPrivateKeys[1], request)).to.be.rejectedWith('addressed to another cosigner')
+  })
+
+  it('should reject scripts that are not built from the cosigners and threshold of the wallet', async () => {
+    const config: BitcoinMultisigConfig = createConfig(BitcoinMultisigAddressType.P2WSH)
+    const psbt: string = await prepareTransaction(config)
+    const network = protocol.options.network.extras.network
+    const signerKey: Buffer = bitcoinJS.HDNode.fromBase58(extendedPublicKeys[0], network).derive(1).derive(0).getPublicKeyBuffer()
+    const attackerKey: Buffer = bitcoinJS.ECPair.makeRandom({ network }).getPublicKeyBuffer()
+    const forgedScripts: BitcoinMultisigScripts = BitcoinMultisigAddress.getScripts(
+      [signerKey, attackerKey],
+      1,
+      BitcoinMultisigAddressType.P2WSH
+    )
+
+    // a 1-of-2 script with the key of the signer is shown as change by its derivation
+    const forgedChange: BitcoinPsbt = BitcoinPsbt.fromString(psbt, network)
+    forgedChange.transaction.outs[1].script = forgedScripts.outputScript
+    forgedChange.outputs[1].witnessScript = forgedScripts.witnessScript
+    const forgedRequest: MultisigRequest = await protocol.createMultisigRequest(extendedPublicKeys[0], forgedChange.toBase64())
+
+    const transaction: RawBitcoinTransaction = await protocol.getRawTransactionFromMultisigPsbt(config, forgedChange.toBase64())
+    expect(transaction.outs.map((output) => output.isChange)).to.deep.equal([false, false])
+    await expect(protocol.signMultisigRequest(config, extendedPrivateKeys[0], forgedRequest)).to.be.rejectedWith(
+      'Change output 1 does not belong to the multisig wallet.'
+    )
+
+    // the same script as the witness script of an input
+    const forgedInput: BitcoinPsbt = BitcoinPsbt.fromString(psbt, network)
+    forgedInput.inputs[0].witnessUtxo = { script: forgedScripts.outputScript, value: 100000 }
+    forgedInput.inputs[0].witnessScript = forgedScripts.witnessScript
+    await expect(
+      protocol.signMultisigRequest(
+        config,
+        extendedPrivateKeys[0],
+        await protocol.createMultisigRequest(extendedPublicKeys[0], forgedInput.toBase64())
+      )
+    ).to.be.rejectedWith('Input 0 does not belong to the multisig wallet.')
+
+    // a wallet with another threshold
+    await expect(
+      protocol.signMultisigRequest(
+        { ...config, threshold: 1 },
+        extendedPrivateKeys[0],
+        await protocol.createMultisigRequest(extendedPublicKeys[0], psbt)
+      )
+    ).to.be.rejectedWith('Input 0 does not belong to the multisig wallet.')
+  })
+})
@@ -0,0 +1,262 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { BitcoinProtocol, BitcoinPsbt, BitcoinSegwitProtocol, IACMessageType, MainProtocolSymbols, Serializer } from '../../src'
+import axios from '../../src/dependencies/src/axios-0.19.0/index'
+import * as bitcoinJS from '../../src/dependencies/src/bitgo-utxo-lib-5d91049fd7a988382df81c8260e244ee56d57aac/src/index'
+import { IACMessageDefinitionObject } from '../../src/serializer/message'
+import { RawBitcoinTransaction } from '../../src/serializer/types'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const mnemonic: string = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+const zpub: string = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+const zprv: string = 'zprvAdG4iTXWBoARxkkzNpNh8r6Qag3irQB8PzEMkAFeTRXxHpbF9z4QgEvBRmfvqWvGp42t42nvgGpNgYSJA9iefm1yYNZKEm7z6qUWCroSQnE'
+const xpub: string = 'xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj'
+
+const segwitTransaction: RawBitcoinTransaction = {
+  ins: [
+    {
+      txId: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      value: '100000',
+      vout: 0,
+      address: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+      derivationPath: '0/0'
+    }
+  ],
+  outs: [
+    {
+      recipient: '1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA',
+      isChange: false,
+      value: '50000',
+      derivationPath: ''
+    },
+    {
+      recipient: 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el',
+      isChange: true,
+      value: '40000',
+      derivationPath: '0'
+    }
+  ]
+}
+
+// legacy inputs are signed with the whole previous transaction
+const previousTransaction = new bitcoinJS.Transaction()
+previousTransaction.addInput(Buffer.alloc(32), 0)
+previousTransaction.addOutput(bitcoinJS.address.toOutputScript('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'), 20000)
+previousTransaction.addOutput(bitcoinJS.address.toOutputScript('1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'), 100000)
+
+const legacyTransaction: RawBitcoinTransaction = {
+  ins: [
+    {
+      txId: previousTransaction.getId(),
+      value: '100000',
+      vout: 1,
+      address: '1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA',
+      derivationPath: '0/0'
+    }
+  ],
+  outs: [
+    {
+      recipient: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+      isChange: false,
+      value: '90000',
+      derivationPath: ''
+    }
+  ]
+}
+
+describe(`ICoinProtocol Bitcoin PSBT - Custom Tests`, () => {
+  const protocol: BitcoinSegwitProtocol = new BitcoinSegwitProtocol()
+  const legacyProtocol: BitcoinProtocol = new BitcoinProtocol()
+
+  beforeEach(() => {
+    sinon
+      .stub(axios, 'get')
+      .withArgs(`${legacyProtocol.options.network.extras.indexerApi}/api/v2/tx/${previousTransaction.getId()}`)
+      .returns(Promise.resolve({ data: { hex: previousTransaction.toHex() } }))
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should convert a raw transaction to a PSBT and back', async () => {
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction, { extendedPublicKey: zpub })
+    const bitcoinPsbt: BitcoinPsbt = BitcoinPsbt.fromString(psbt, protocol.options.network.extras.network)
+
+    expect(bitcoinPsbt.inputs[0].bip32Derivations[0].path).to.equal(`m/84'/0'/0'/0/0`)
+    expect(bitcoinPsbt.outputs[1].bip32Derivations[0].path).to.equal(`m/84'/0'/0'/1/0`)
+    expect(await protocol.getRawTransactionFromPsbt(psbt, zpub)).to.deep.equal(segwitTransaction)
+    expect(await protocol.getRawTransactionFromPsbt(Buffer.from(psbt, 'base64'), zpub)).to.deep.equal(segwitTransaction)
+    expect(await protocol.getRawTransactionFromPsbt(Buffer.from(psbt, 'base64').toString('hex'), zpub)).to.deep.equal(segwitTransaction)
+  })
+
+  it('should sign a native SegWit PSBT and extract the same transaction as the raw signing flow', async () => {
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction, { extendedPublicKey: zpub })
+    const signedPsbt: string = await protocol.signWithExtendedPrivateKey(zprv, { psbt })
+
+    expect(BitcoinPsbt.fromString(signedPsbt, protocol.options.network.extras.network).inputs[0].partialSignatures).to.have.lengthOf(1)
+    expect(await protocol.finalizePsbt(signedPsbt)).to.equal(await protocol.signWithExtendedPrivateKey(zprv, segwitTransaction))
+  })
+
+  it('should sign a nested SegWit PSBT with a redeem script', async () => {
+    const ypub: string = await protocol.getPublicKeyFromMnemonic(mnemonic, `m/49'/0'/0'`)
+    const yprv: string = await protocol.getExtendedPrivateKeyFromMnemonic(mnemonic, `m/49'/0'/0'`)
+    const transaction: RawBitcoinTransaction = {
+      ins: [{ ...segwitTransaction.ins[0], address: '37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf' }],
+      outs: [segwitTransaction.outs[0]]
+    }
+
+    const psbt: string = await protocol.getPsbtFromRawTransaction(transaction, { extendedPublicKey: ypub, derivationPath: `m/49'/0'/0'` })
+    const signedPsbt: string = await protocol.signWithExtendedPrivateKey(yprv, { psbt })
+
+    expect(await protocol.finalizePsbt(signedPsbt)).to.equal(await protocol.signWithExtendedPrivateKey(yprv, transaction))
+  })
+
+  it('should sign a legacy PSBT with the BitcoinProtocol', async () => {
+    const xprv: string = await legacyProtocol.getExtendedPrivateKeyFromMnemonic(mnemonic, legacyProtocol.standardDerivationPath)
+    const psbt: string = await legacyProtocol.getPsbtFromRawTransaction(legacyTransaction, {
+      extendedPublicKey: xpub,
+      masterFingerprint: '73c5da0a'
+    })
+    const signedPsbt: string = await legacyProtocol.signWithExtendedPrivateKey(xprv, { psbt })
+    const bitcoinPsbt: BitcoinPsbt = BitcoinPsbt.fromString(psbt, legacyProtocol.options.network.extras.network)
+
+    expect(bitcoinPsbt.inputs[0].bip32Derivations[0].masterFingerprint.toString('hex')).to.equal('73c5da0a')
+    expect(await legacyProtocol.finalizePsbt(signedPsbt)).to.equal(await legacyProtocol.signWithExtendedPrivateKey(xprv, legacyTransaction))
+  })
+
+  it('should only sign with SIGHASH_ALL unless other sighash types are allowed', async () => {
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction, { extendedPublicKey: zpub })
+    const bitcoinPsbt: BitcoinPsbt = BitcoinPsbt.fromString(psbt, protocol.options.network.extras.network)
+    const sighashNoneAnyoneCanPay: number = bitcoinJS.Transaction.SIGHASH_NONE | bitcoinJS.Transaction.SIGHASH_ANYONECANPAY
+    bitcoinPsbt.inputs[0].sighashType = sighashNoneAnyoneCanPay
+
+    await expect(protocol.signWithExtendedPrivateKey(zprv, { psbt: bitcoinPsbt.toBase64() })).to.be.rejectedWith(
+      `Sighash type ${sighashNoneAnyoneCanPay} of input 0 is not allowed.`
+    )
+
+    const keyPair = bitcoinJS.ECPair.makeRandom({ network: protocol.options.network.extras.network })
+    expect(() => bitcoinPsbt.signInput(0, keyPair)).to.throw('is not allowed')
+    bitcoinPsbt.signInput(0, keyPair, [sighashNoneAnyoneCanPay])
+    expect(bitcoinPsbt.inputs[0].partialSignatures).to.have.lengthOf(1)
+  })
+
+  it('should reject a PSBT without any inputs belonging to the key', async () => {
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction)
+
+    await expect(protocol.signWithExtendedPrivateKey(zprv, { psbt })).to.be.rejected
+  })
+
+  it('should not finalize an unsigned PSBT', async () => {
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction, { extendedPublicKey: zpub })
+
+    await expect(protocol.finalizePsbt(psbt)).to.be.rejected
+  })
+
+  it('should decode a foreign PSBT for display', async () => {
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction)
+    const [details] = await protocol.getTransactionDetails({ publicKey: '', transaction: { psbt } })
+
+    expect(details.from).to.deep.equal(['bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'])
+    expect(details.to).to.deep.equal(['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA', 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el'])
+    expect(details.amount).to.equal('90000')
+    expect(details.fee).to.equal('10000')
+  })
+
+  it('should only hide change outputs derived from the extended public key of the signer', async () => {
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction, { extendedPublicKey: zpub })
+    expect((await protocol.getTransactionDetails({ publicKey: zpub, transaction: { psbt } }))[0].to).to.deep.equal([
+      '1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'
+    ])
+
+    // the derivation of the PSBT puts the output of another key on a change path
+    const otherZpub: string = await protocol.getPublicKeyFromMnemonic(
+      'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong',
+      protocol.standardDerivationPath
+    )
+    const forgedChange: string = (await protocol.getAddressFromExtendedPublicKey(otherZpub, 1, 0)).getValue()
+    const forgedPsbt: string = await protocol.getPsbtFromRawTransaction(
+      { ins: segwitTransaction.ins, outs: [segwitTransaction.outs[0], { ...segwitTransaction.outs[1], recipient: forgedChange }] },
+      { extendedPublicKey: otherZpub }
+    )
+    const bitcoinPsbt: BitcoinPsbt = BitcoinPsbt.fromString(forgedPsbt, protocol.options.network.extras.network)
+    expect(bitcoinPsbt.outputs[1].bip32Derivations[0].path).to.equal(`m/84'/0'/0'/1/0`)
+
+    const [details] = await protocol.getTransactionDetails({ publicKey: zpub, transaction: { psbt: forgedPsbt } })
+    expect(details.to).to.deep.equal(['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA', forgedChange])
+    expect(details.amount).to.equal('90000')
+    expect((await protocol.getRawTransactionFromPsbt(forgedPsbt, zpub)).outs[1].isChange).to.be.false
+  })
+
+  it('should only trust the previous transaction for the amounts of legacy inputs', async () => {
+    const psbt: string = await legacyProtocol.getPsbtFromRawTransaction(legacyTransaction)
+    const network = legacyProtocol.options.network.extras.network
+
+    const bitcoinPsbt: BitcoinPsbt = BitcoinPsbt.fromString(psbt, network)
+    expect(bitcoinPsbt.inputs[0].witnessUtxo).to.be.undefined
+    expect(bitcoinPsbt.inputs[0].nonWitnessUtxo?.toString('hex')).to.equal(previousTransaction.toHex())
+    expect((await legacyProtocol.getTransactionDetails({ publicKey: '', transaction: { psbt } }))[0].fee).to.equal('10000')
+
+    // the signature of a legacy input does not commit to the amount of a witness UTXO
+    const spoofed: BitcoinPsbt = BitcoinPsbt.fromString(psbt, network)
+    spoofed.inputs[0].nonWitnessUtxo = undefined
+    spoofed.inputs[0].witnessUtxo = { script: previousTransaction.outs[1].script, value: 90001 }
+    await expect(legacyProtocol.getTransactionDetails({ publicKey: '', transaction: { psbt: spoofed.toBase64() } })).to.be.rejectedWith(
+      'missing its previous transaction'
+    )
+
+    // a previous transaction with other amounts has another ID than the one that is spent
+    const otherTransaction = previousTransaction.clone()
+    otherTransaction.outs[1].value = 90001
+    spoofed.inputs[0].nonWitnessUtxo = otherTransaction.toBuffer()
+    await expect(legacyProtocol.getTransactionDetails({ publicKey: '', transaction: { psbt: spoofed.toBase64() } })).to.be.rejectedWith(
+      'does not match its outpoint'
+    )
+  })
+
+  it('should show the details of a signed PSBT', async () => {
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction, { extendedPublicKey: zpub })
+    const signedPsbt: string = await protocol.signWithExtendedPrivateKey(zprv, { psbt })
+
+    const [details] = await protocol.getTransactionDetailsFromSigned({
+      accountIdentifier: '',
+      from: ['bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'],
+      to: [],
+      amount: '50000',
+      fee: '10000',
+      transaction: signedPsbt
+    })
+
+    expect(details.to).to.deep.equal(['1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'])
+  })
+
+  it('should serialize a PSBT transaction sign request', async () => {
+    const serializer: Serializer = new Serializer()
+    const psbt: string = await protocol.getPsbtFromRawTransaction(segwitTransaction, { extendedPublicKey: zpub })
+    const messages: IACMessageDefinitionObject[] = [
+      {
+        id: 'abcdefghij',
+        type: IACMessageType.TransactionSignRequest,
+        protocol: MainProtocolSymbols.BTC_SEGWIT,
+        payload: { publicKey: zpub, transaction: { psbt }, callbackURL: 'airgap-wallet://?d=' }
+      },
+      {
+        id: 'abcdefghij',
+        type: IACMessageType.TransactionSignRequest,
+        protocol: MainProtocolSymbols.BTC,
+        payload: { publicKey: xpub, transaction: legacyTransaction, callbackURL: 'airgap-wallet://?d=' }
+      }
+    ]
+
+    const deserialized: IACMessageDefinitionObject[] = await serializer.deserialize(await serializer.serialize(messages))
+
+    expect(deserialized).to.deep.equal(messages)
+  })
+})
@@ -0,0 +1,121 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+
+import { BitcoinAddressType, BitcoinSegwitProtocol } from '../../src'
+import { RawBitcoinTransaction } from '../../src/serializer/types'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+// BIP84 / BIP49 test vectors
+const mnemonic: string = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+const zpub: string = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+const zprv: string = 'zprvAdG4iTXWBoARxkkzNpNh8r6Qag3irQB8PzEMkAFeTRXxHpbF9z4QgEvBRmfvqWvGp42t42nvgGpNgYSJA9iefm1yYNZKEm7z6qUWCroSQnE'
+const ypub: string = 'ypub6Ww3ibxVfGzLrAH1PNcjyAWenMTbbAosGNB6VvmSEgytSER9azLDWCxoJwW7Ke7icmizBMXrzBx9979FfaHxHcrArf3zbeJJJUZPf663zsP'
+const xpub: string = 'xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj'
+
+const unsignedTransaction: RawBitcoinTransaction = {
+  ins: [
+    {
+      txId: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      value: '100000',
+      vout: 0,
+      address: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+      derivationPath: '0/0'
+    }
+  ],
+  outs: [
+    {
+      recipient: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+      isChange: false,
+      value: '50000'
+    },
+    {
+      recipient: 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el',
+      isChange: true,
+      value: '40000',
+      derivationPath: '0'
+    }
+  ]
+}
+
+describe(`ICoinProtocol Bitcoin SegWit - Custom Tests`, () => {
+  const protocol: BitcoinSegwitProtocol = new BitcoinSegwitProtocol()
+
+  it('should derive zpub and zprv keys from the standard derivation path', async () => {
+    expect(await protocol.getPublicKeyFromMnemonic(mnemonic, protocol.standardDerivationPath)).to.equal(zpub)
+    expect(await protocol.getExtendedPrivateKeyFromMnemonic(mnemonic, protocol.standardDerivationPath)).to.equal(zprv)
+  })
+
+  it('should derive ypub and xpub keys from BIP49 and BIP44 derivation paths', async () => {
+    expect(await protocol.getPublicKeyFromMnemonic(mnemonic, `m/49'/0'/0'`)).to.equal(ypub)
+    expect(await protocol.getPublicKeyFromMnemonic(mnemonic, `m/44'/0'/0'`)).to.equal(xpub)
+  })
+
+  it('should derive native SegWit addresses from a zpub', async () => {
+    const addresses: string[] = (await protocol.getAddressesFromExtendedPublicKey(zpub, 0, 2, 0)).map((address) => address.getValue())
+    const changeAddress = await protocol.getAddressFromExtendedPublicKey(zpub, 1, 0)
+
+    expect(addresses).to.deep.equal(['bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu', 'bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g'])
+    expect(changeAddress.getValue()).to.equal('bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el')
+    expect(changeAddress.addressType).to.equal(BitcoinAddressType.P2WPKH)
+  })
+
+  it('should derive nested SegWit addresses from a ypub and legacy addresses from an xpub', async () => {
+    const nestedAddress = await protocol.getAddressFromExtendedPublicKey(ypub, 0, 0)
+    const legacyAddress = await protocol.getAddressFromExtendedPublicKey(xpub, 0, 0)
+
+    expect(nestedAddress.getValue()).to.equal('37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf')
+    expect(nestedAddress.addressType).to.equal(BitcoinAddressType.P2SH_P2WPKH)
+    expect(legacyAddress.getValue()).to.equal('1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA')
+    expect(legacyAddress.addressType).to.equal(BitcoinAddressType.P2PKH)
+  })
+
+  it('should validate bech32 addresses', async () => {
+    const pattern: RegExp = new RegExp(protocol.addressValidationPattern)
+
+    expect(pattern.test('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu')).to.be.true
+    expect(pattern.test('37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf')).to.be.true
+    expect(pattern.test('tb1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu')).to.be.false
+  })
+
+  it('should sign a native SegWit transaction with witness data', async () => {
+    const signedTransaction: string = await protocol.signWithExtendedPrivateKey(zprv, unsignedTransaction)
+    const transaction = protocol.options.config.bitcoinJSLib.Transaction.fromHex(signedTransaction)
+
+    expect(transaction.hasWitnesses()).to.be.true
+    expect(transaction.ins[0].script.length).to.equal(0)
+    expect(transaction.ins[0].witness.length).to.equal(2)
+  })
+
+  it('should sign a nested SegWit transaction with a redeem script and witness data', async () => {
+    const yprv: string = await protocol.getExtendedPrivateKeyFromMnemonic(mnemonic, `m/49'/0'/0'`)
+    const signedTransaction: string = await protocol.signWithExtendedPrivateKey(yprv, {
+      ins: unsignedTransaction.ins,
+      outs: [unsignedTransaction.outs[0]]
+    })
+    const transaction = protocol.options.config.bitcoinJSLib.Transaction.fromHex(signedTransaction)
+
+    expect(transaction.hasWitnesses()).to.be.true
+    expect(transaction.ins[0].script.toString('hex')).to.equal('160014f990679acafe25c27615373b40bf22446d24ff44')
+  })
+
+  it('should reject a change address that does not belong to the wallet', async () => {
+    const transaction: RawBitcoinTransaction = {
+      ins: unsignedTransaction.ins,
+      outs: [unsignedTransaction.outs[0], { ...unsignedTransaction.outs[1], recipient: 'bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g' }]
+    }
+
+    await expect(protocol.signWithExtendedPrivateKey(zprv, transaction)).to.be.rejected
+  })
+
+  it('should sign and verify a message for a native SegWit address', async () => {
+    const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(mnemonic, protocol.standardDerivationPath)
+    const signature: string = await protocol.signMessage('hello', { privateKey })
+
+    expect(await protocol.verifyMessage('hello', signature, zpub)).to.be.true
+  })
+})
@@ -0,0 +1,170 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  COSMOS_HUB,
+  CosmosChainDescriptor,
+  CosmosDenomProtocol,
+  CosmosProtocol,
+  CosmosTransaction,
+  createCosmosChainProtocol,
+  IACMessageDefinitionObject,
+  IACMessageType,
+  ICoinSubProtocol,
+  Serializer
+} from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import BECH32 = require('../../src/dependencies/src/bech32-1.1.3/index')
+import { CosmosSendMessage } from '../../src/protocols/cosmos/cosmos-message/CosmosSendMessage'
+import { CosmosCoin } from '../../src/protocols/cosmos/CosmosCoin'
+import { CosmosAccount, CosmosNodeInfo } from '../../src/protocols/cosmos/CosmosNodeClient'
+
+import { CosmosTestProtocolSpec } from './specs/cosmos'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const cosmosProtocolSpec: CosmosTestProtocolSpec = new CosmosTestProtocolSpec()
+const publicKey: string = cosmosProtocolSpec.wallet.publicKey
+// the same key hash as the Cosmos Hub address, only with the Osmosis prefix
+const address: string = BECH32.encode('osmo', BECH32.decode(cosmosProtocolSpec.wallet.addresses[0]).words)
+const recipient: string = BECH32.encode('osmo', BECH32.decode(cosmosProtocolSpec.validAddresses[1]).words)
+
+const osmosis: CosmosChainDescriptor = {
+  identifier: 'osmosis',
+  name: 'Osmosis',
+  chainID: 'osmosis-1',
+  bech32Prefixes: {
+    account: 'osmo',
+    validator: 'osmovaloper'
+  },
+  coinType: 118,
+  currency: {
+    denom: 'uosmo',
+    symbol: 'OSMO',
+    name: 'Osmosis',
+    marketSymbol: 'osmo',
+    decimals: 6
+  },
+  tokens: [
+    {
+      denom: 'uion',
+      symbol: 'ION',
+      name: 'Ion',
+      marketSymbol: 'ion',
+      decimals: 6
+    }
+  ],
+  feeDenom: 'uosmo',
+  gasPrices: {
+    low: '0',
+    medium: '0.0025',
+    high: '0.004'
+  },
+  defaultGas: '250000',
+  restUrl: 'https://lcd.osmosis.example',
+  blockExplorerUrl: 'https://www.mintscan.io/osmosis'
+}
+
+describe(`ICoinProtocol Cosmos SDK Chains - Custom Tests`, () => {
+  const protocol: CosmosProtocol = createCosmosChainProtocol(osmosis)
+
+  const stubNode = (chainID: string, balances: { [denom: string]: string }): void => {
+    sinon.stub(protocol.nodeClient, 'fetchNodeInfo').returns(Promise.resolve({ network: chainID } as CosmosNodeInfo))
+    sinon
+      .stub(protocol.nodeClient, 'fetchAccount')
+      .returns(Promise.resolve({ value: { account_number: '42', sequence: '7' } } as CosmosAccount))
+    sinon
+      .stub(protocol.nodeClient, 'fetchBalance')
+      .callsFake(async (_address: string, _totalBalance?: boolean, denom?: string) => new BigNumber(balances[denom ?? ''] ?? '0'))
+  }
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should keep the Cosmos Hub configuration by default', async () => {
+    const hub: CosmosProtocol = new CosmosProtocol()
+
+    expect(hub.chain).to.equal(COSMOS_HUB)
+    expect(hub.feeDefaults).to.deep.equal({ low: '0.0005', medium: '0.005', high: '0.0075' })
+    expect(hub.units).to.deep.equal([
+      { unitSymbol: 'atom', factor: '1' },
+      { unitSymbol: 'uatom', factor: '0.000001' }
+    ])
+    expect(hub.addressValidationPattern).to.equal('^(cosmos|cosmosvaloper)[a-zA-Z0-9]{39}$')
+    expect(hub.subProtocols).to.deep.equal([])
+  })
+
+  it('should configure the protocol from the chain descriptor', async () => {
+    expect(protocol.identifier).to.equal('osmosis')
+    expect(protocol.symbol).to.equal('OSMO')
+    expect(protocol.standardDerivationPath).to.equal(`m/44'/118'/0'/0/0`)
+    expect(protocol.feeDefaults).to.deep.equal({ low: '0', medium: '0.000625', high: '0.001' })
+    expect(protocol.units[1]).to.deep.equal({ unitSymbol: 'uosmo', factor: '0.000001' })
+    expect(protocol.options.network.rpcUrl).to.equal(osmosis.restUrl)
+
+    expect((await protocol.getAddressFromPublicKey(publicKey)).getValue()).to.equal(address)
+    expect(address).to.match(new RegExp(protocol.addressValidationPattern))
+    expect(await protocol.getBlockExplorerLinkForAddress(address)).to.equal(`https://www.mintscan.io/osmosis/account/${address}/`)
+  })
+
+  it('should expose the additional bank denominations as sub protocols', async () => {
+    const subProtocols: ICoinSubProtocol[] = protocol.subProtocols
+    expect(subProtocols.map((subProtocol: ICoinSubProtocol) => subProtocol.identifier)).to.deep.equal(['osmosis-ion'])
+
+    const ion: CosmosDenomProtocol = subProtocols[0] as CosmosDenomProtocol
+    expect(ion.isSubProtocol).to.be.true
+    expect(ion.symbol).to.equal('ION')
+    expect(ion.feeSymbol).to.equal('osmo')
+
+    stubNode('osmosis-1', { uosmo: '1000', uion: '5000' })
+    expect(await protocol.getBalanceOfPublicKeyForSubProtocols(publicKey, subProtocols)).to.deep.equal(['5000'])
+    expect(await ion.estimateMaxTransactionValueFromPublicKey(publicKey, [recipient])).to.equal('5000')
+
+    const transaction: CosmosTransaction = await ion.prepareTransactionFromPublicKey(publicKey, [recipient], ['4000'], '625')
+    expect(transaction.messages).to.deep.equal([new CosmosSendMessage(address, recipient, [new CosmosCoin('uion', '4000')])])
+    expect(transaction.fee.amount).to.deep.equal([new CosmosCoin('uosmo', '625')])
+    expect(transaction.chainID).to.equal('osmosis-1')
+
+    await expect(ion.prepareTransactionFromPublicKey(publicKey, [recipient], ['4000'], '2000')).to.be.rejectedWith('not enough balance')
+  })
+
+  it('should serialize transactions of the chain and its sub protocols', async () => {
+    stubNode('osmosis-1', { uosmo: '1000000', uion: '5000' })
+    const serializer: Serializer = new Serializer()
+
+    for (const chainProtocol of [protocol, ...protocol.subProtocols]) {
+      const transaction: CosmosTransaction = await chainProtocol.prepareTransactionFromPublicKey(publicKey, [recipient], ['100'], '625')
+      const message: IACMessageDefinitionObject = {
+        id: 'random__id',
+        type: IACMessageType.TransactionSignRequest,
+        protocol: chainProtocol.identifier,
+        payload: { publicKey, transaction, callbackURL: 'airgap-wallet://?d=' }
+      }
+
+      const [deserialized] = await serializer.deserialize(await serializer.serialize([message]))
+      expect(deserialized.protocol).to.equal(chainProtocol.identifier)
+      expect((deserialized.payload as any).transaction).to.deep.equal(transaction)
+    }
+
+    // configuring the same chain again does not register its schemas twice
+    expect(() => createCosmosChainProtocol(osmosis)).to.not.throw()
+  })
+
+  it('should reject nodes of another chain', async () => {
+    stubNode('cosmoshub-4', { uosmo: '1000000' })
+
+    await expect(protocol.prepareTransactionFromPublicKey(publicKey, [recipient], ['100'], '625')).to.be.rejectedWith(
+      'The node is connected to cosmoshub-4 instead of osmosis-1.'
+    )
+
+    sinon.restore()
+    // chain upgrades only bump the revision number
+    stubNode('osmosis-2', { uosmo: '1000000' })
+    expect((await protocol.prepareTransactionFromPublicKey(publicKey, [recipient], ['100'], '625')).chainID).to.equal('osmosis-2')
+  })
+})
@@ -0,0 +1,199 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  CosmosDelegationActionType,
+  CosmosProtocol,
+  CosmosTransaction,
+  CosmosVoteOption,
+  IACMessageDefinitionObject,
+  IACMessageType,
+  IAirGapTransaction,
+  MainProtocolSymbols,
+  Serializer
+} from '../../src'
+import { AirGapTransactionType } from '../../src/interfaces/IAirGapTransaction'
+import { CosmosDepositMessage } from '../../src/protocols/cosmos/cosmos-message/CosmosDepositMessage'
+import { CosmosIBCTransferMessage } from '../../src/protocols/cosmos/cosmos-message/CosmosIBCTransferMessage'
+import { CosmosMessageType } from '../../src/protocols/cosmos/cosmos-message/CosmosMessage'
+import { CosmosRedelegateMessage } from '../../src/protocols/cosmos/cosmos-message/CosmosRedelegateMessage'
+import { CosmosSendMessage } from '../../src/protocols/cosmos/cosmos-message/CosmosSendMessage'
+import { CosmosVoteMessage } from '../../src/protocols/cosmos/cosmos-message/CosmosVoteMessage'
+import { CosmosCoin } from '../../src/protocols/cosmos/CosmosCoin'
+import { CosmosFee } from '../../src/protocols/cosmos/CosmosFee'
+import { CosmosAccount, CosmosNodeInfo } from '../../src/protocols/cosmos/CosmosNodeClient'
+import { ProtobufReader } from '../../src/protocols/cosmos/protobuf/ProtobufReader'
+
+import { CosmosTestProtocolSpec } from './specs/cosmos'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const cosmosProtocolSpec: CosmosTestProtocolSpec = new CosmosTestProtocolSpec()
+const address: string = cosmosProtocolSpec.wallet.addresses[0]
+const publicKey: string = cosmosProtocolSpec.wallet.publicKey
+const privateKey: Buffer = Buffer.from(cosmosProtocolSpec.wallet.privateKey, 'hex')
+const sourceValidator: string = cosmosProtocolSpec.validAddresses[6]
+const destinationValidator: string = cosmosProtocolSpec.validAddresses[7]
+const osmosisAddress: string = 'osmo1w3mea9ghfdc3r7ax45mehl2tcqw9p0vnpq4lkd'
+
+const createTransaction = (messages: CosmosTransaction['messages']): CosmosTransaction =>
+  new CosmosTransaction(messages, new CosmosFee([new CosmosCoin('uatom', '5000')], '300000'), 'memo', 'cosmoshub-4', '42', '7')
+
+describe(`ICoinProtocol Cosmos Messages - Custom Tests`, () => {
+  const protocol: CosmosProtocol = new CosmosProtocol()
+  const messages: CosmosTransaction['messages'] = [
+    new CosmosRedelegateMessage(address, sourceValidator, destinationValidator, new CosmosCoin('uatom', '1000')),
+    new CosmosVoteMessage(address, '42', [{ option: CosmosVoteOption.YES, weight: '1' }]),
+    new CosmosVoteMessage(
+      address,
+      '43',
+      [
+        { option: CosmosVoteOption.YES, weight: '0.7' },
+        { option: CosmosVoteOption.NO_WITH_VETO, weight: '0.3' }
+      ],
+      true
+    ),
+    new CosmosDepositMessage(address, '44', [new CosmosCoin('uatom', '250')]),
+    new CosmosIBCTransferMessage(
+      'transfer',
+      'channel-141',
+      new CosmosCoin('uatom', '300'),
+      address,
+      osmosisAddress,
+      { revisionNumber: '1', revisionHeight: '0' },
+      '1640000000000000000'
+    )
+  ]
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should encode the messages as Amino JSON', async () => {
+    const [redelegate, vote, voteWeighted, deposit, transfer] = messages.map((message) => message.toRPCBody())
+
+    expect(redelegate).to.deep.equal({
+      type: 'cosmos-sdk/MsgBeginRedelegate',
+      value: {
+        amount: { amount: '1000', denom: 'uatom' },
+        delegator_address: address,
+        validator_dst_address: destinationValidator,
+        validator_src_address: sourceValidator
+      }
+    })
+    expect(vote.value).to.deep.equal({ option: 1, proposal_id: '42', voter: address })
+    expect(voteWeighted.value.options).to.deep.equal([
+      { option: 1, weight: '0.700000000000000000' },
+      { option: 4, weight: '0.300000000000000000' }
+    ])
+    expect(deposit.value).to.deep.equal({ amount: [{ amount: '250', denom: 'uatom' }], depositor: address, proposal_id: '44' })
+    // zero integers are omitted, but the timeout height is always present
+    expect(JSON.stringify(transfer.value)).to.equal(
+      `{"receiver":"${osmosisAddress}","sender":"${address}","source_channel":"channel-141","source_port":"transfer",` +
+        `"timeout_height":{"revision_number":"1"},"timeout_timestamp":"1640000000000000000","token":{"amount":"300","denom":"uatom"}}`
+    )
+
+    const decoded: CosmosTransaction = CosmosTransaction.fromRPCBody(createTransaction(messages).toRPCBody())
+    expect(decoded.messages).to.deep.equal(messages)
+  })
+
+  it('should sign the messages and decode them from the signed transaction', async () => {
+    const signed: string = await protocol.signWithPrivateKey(privateKey, createTransaction(messages))
+    const decoded: CosmosTransaction = CosmosTransaction.fromTxRaw(Buffer.from(signed, 'base64'))
+    expect(decoded.messages).to.deep.equal(messages)
+
+    const anys: ProtobufReader[] = new ProtobufReader(Buffer.from(signed, 'base64')).message(1).messages(1)
+    expect(anys.map((any: ProtobufReader) => any.string(1))).to.deep.equal([
+      '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+      '/cosmos.gov.v1beta1.MsgVote',
+      '/cosmos.gov.v1beta1.MsgVoteWeighted',
+      '/cosmos.gov.v1beta1.MsgDeposit',
+      '/ibc.applications.transfer.v1.MsgTransfer'
+    ])
+    // the weights are sdk.Dec values, which are encoded as integers with 18 decimals
+    expect(anys[2].message(2).messages(3)[0].string(2)).to.equal('700000000000000000')
+
+    const details: IAirGapTransaction[] = await protocol.getTransactionDetailsFromSigned({ accountIdentifier: '', transaction: signed })
+    expect(details.map((detail: IAirGapTransaction) => [detail.amount, detail.to[0], detail.extra.type])).to.deep.equal([
+      ['1000', destinationValidator, AirGapTransactionType.REDELEGATE],
+      ['0', 'Proposal #42', AirGapTransactionType.VOTE],
+      ['0', 'Proposal #43', AirGapTransactionType.VOTE],
+      ['250', 'Proposal #44', AirGapTransactionType.DEPOSIT],
+      ['300', osmosisAddress, AirGapTransactionType.SPEND]
+    ])
+    expect(details[0].extra.sourceValidator).to.equal(sourceValidator)
+    expect(details[2].extra.options).to.deep.equal([
+      { option: 'YES', weight: '0.7' },
+      { option: 'NO_WITH_VETO', weight: '0.3' }
+    ])
+    expect(details[4].extra).to.include({ sourcePort: 'transfer', sourceChannel: 'channel-141', timeoutTimestamp: '1640000000000000000' })
+  })
+
+  it('should serialize the messages in the extended sign request schema', async () => {
+    const serializer: Serializer = new Serializer()
+    const createMessage = (transaction: CosmosTransaction): IACMessageDefinitionObject => ({
+      id: 'random__id',
+      type: IACMessageType.TransactionSignRequest,
+      protocol: MainProtocolSymbols.COSMOS,
+      payload: { publicKey, transaction, callbackURL: 'airgap-wallet://?d=' }
+    })
+
+    const extended: CosmosTransaction = createTransaction([
+      new CosmosSendMessage(address, osmosisAddress, [new CosmosCoin('uatom', '1')]),
+      ...messages
+    ])
+    const [deserialized] = await serializer.deserialize(await serializer.serialize([createMessage(extended)]))
+    expect((deserialized.payload as any).transaction).to.deep.equal(extended)
+
+    // transactions which only contain the original messages are not extended, so older versions can still read them
+    const original: CosmosTransaction = createTransaction([new CosmosSendMessage(address, osmosisAddress, [new CosmosCoin('uatom', '1')])])
+    expect(original.toJSON().messages[0]).to.not.have.property('proposalId')
+    const [deserializedOriginal] = await serializer.deserialize(await serializer.serialize([createMessage(original)]))
+    expect((deserializedOriginal.payload as any).transaction).to.deep.equal(original)
+  })
+
+  it('should prepare redelegate and vote actions', async () => {
+    sinon.stub(protocol.nodeClient, 'fetchNodeInfo').returns(Promise.resolve({ network: 'cosmoshub-4' } as CosmosNodeInfo))
+    sinon
+      .stub(protocol.nodeClient, 'fetchAccount')
+      .returns(Promise.resolve({ value: { account_number: '42', sequence: '7' } } as CosmosAccount))
+
+    const [redelegate] = await protocol.prepareDelegatorActionFromPublicKey(publicKey, CosmosDelegationActionType.REDELEGATE, {
+      sourceValidator,
+      validator: destinationValidator,
+      amount: '1000'
+    })
+    expect(redelegate.messages).to.deep.equal([messages[0]])
+    expect(redelegate).to.deep.include({ chainID: 'cosmoshub-4', accountNumber: '42', sequence: '7' })
+
+    const [vote] = await protocol.prepareDelegatorActionFromPublicKey(publicKey, CosmosDelegationActionType.VOTE, {
+      proposal: '42',
+      option: CosmosVoteOption.YES
+    })
+    expect(vote.messages).to.deep.equal([messages[1]])
+
+    const voteWeighted: CosmosTransaction = await protocol.vote(publicKey, '43', [
+      { option: CosmosVoteOption.YES, weight: '0.7' },
+      { option: CosmosVoteOption.NO_WITH_VETO, weight: '0.3' }
+    ])
+    expect(voteWeighted.messages[0].type).to.equal(CosmosMessageType.VoteWeighted)
+
+    await expect(
+      protocol.prepareDelegatorActionFromPublicKey(publicKey, CosmosDelegationActionType.REDELEGATE, { validator: destinationValidator })
+    ).to.be.rejectedWith('required: sourceValidator, validator, amount, but sourceValidator is missing.')
+    await expect(protocol.redelegate(publicKey, sourceValidator, sourceValidator, '1000')).to.be.rejectedWith(
+      'Cannot redelegate to the same validator.'
+    )
+    await expect(protocol.vote(publicKey, '42', CosmosVoteOption.UNSPECIFIED)).to.be.rejectedWith('Invalid vote option.')
+    await expect(
+      protocol.vote(publicKey, '42', [
+        { option: CosmosVoteOption.YES, weight: '0.5' },
+        { option: CosmosVoteOption.NO, weight: '0.3' }
+      ])
+    ).to.be.rejectedWith('The weights of the vote options must add up to 1.')
+  })
+})
@@ -0,0 +1,191 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { CosmosProtocol, CosmosSignMode, CosmosTransaction, IAirGapTransaction } from '../../src'
+import axios from '../../src/dependencies/src/axios-0.19.0/index'
+import SECP256K1 = require('../../src/dependencies/src/secp256k1-3.7.1/elliptic')
+import * as sha from '../../src/dependencies/src/sha.js-2.4.11/index'
+import { CosmosDelegateMessage } from '../../src/protocols/cosmos/cosmos-message/CosmosDelegateMessage'
+import { CosmosMessageType } from '../../src/protocols/cosmos/cosmos-message/CosmosMessage'
+import { CosmosWithdrawDelegationRewardMessage } from '../../src/protocols/cosmos/cosmos-message/CosmosWithdrawDelegationRewardMessage'
+import { CosmosCoin } from '../../src/protocols/cosmos/CosmosCoin'
+import { CosmosFee } from '../../src/protocols/cosmos/CosmosFee'
+import { CosmosNodeClient, CosmosPagedSendTxsResponse } from '../../src/protocols/cosmos/CosmosNodeClient'
+import { ProtobufReader } from '../../src/protocols/cosmos/protobuf/ProtobufReader'
+import { ProtobufWriter } from '../../src/protocols/cosmos/protobuf/ProtobufWriter'
+
+import { CosmosTestProtocolSpec } from './specs/cosmos'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const cosmosProtocolSpec: CosmosTestProtocolSpec = new CosmosTestProtocolSpec()
+const address: string = cosmosProtocolSpec.wallet.addresses[0]
+const validator: string = cosmosProtocolSpec.validAddresses[6]
+const privateKey: Buffer = Buffer.from(cosmosProtocolSpec.wallet.privateKey, 'hex')
+const publicKey: Buffer = Buffer.from(cosmosProtocolSpec.wallet.publicKey, 'hex')
+
+const sha256 = (bytes: Buffer): Buffer => Buffer.from(sha('sha256').update(bytes).digest())
+
+describe(`ICoinProtocol Cosmos Stargate - Custom Tests`, () => {
+  const protocol: CosmosProtocol = new CosmosProtocol()
+  const transaction: CosmosTransaction = cosmosProtocolSpec.txs[0].unsignedTx
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should encode protobuf fields canonically', async () => {
+    const encoded: Buffer = new ProtobufWriter().uint64(1, 150).string(2, 'testing').uint64(3, 0).string(4, '').finish()
+    expect(encoded.toString('hex')).to.equal('089601120774657374696e67')
+
+    const reader: ProtobufReader = new ProtobufReader(encoded)
+    expect(reader.uint64(1)).to.equal('150')
+    expect(reader.string(2)).to.equal('testing')
+    expect(reader.uint64(3)).to.equal('0')
+    expect(() => reader.uint64(2)).to.throw('Protobuf field 2 is not a varint.')
+
+    expect(new ProtobufWriter().uint64(1, '18446744073709551615').finish().toString('hex')).to.equal('08ffffffffffffffffff01')
+    expect(() => new ProtobufReader(Buffer.from('1207746573', 'hex'))).to.throw('Protobuf data is too short.')
+  })
+
+  it('should sign the SignDoc in SIGN_MODE_DIRECT', async () => {
+    const signed: Buffer = Buffer.from(await protocol.signWithPrivateKey(privateKey, transaction), 'base64')
+    const txRaw: ProtobufReader = new ProtobufReader(signed)
+    const signerInfo: ProtobufReader = txRaw.message(2).messages(1)[0]
+
+    expect(signerInfo.message(2).message(1).uint64(1)).to.equal(CosmosSignMode.DIRECT.toString())
+    expect(signerInfo.message(1).string(1)).to.equal('/cosmos.crypto.secp256k1.PubKey')
+    expect(signerInfo.message(1).message(2).bytes(1)).to.deep.equal(publicKey)
+
+    const signDoc: ProtobufReader = new ProtobufReader(transaction.toSignBytes(publicKey, CosmosSignMode.DIRECT))
+    expect(signDoc.bytes(1)).to.deep.equal(txRaw.bytes(1))
+    expect(signDoc.bytes(2)).to.deep.equal(txRaw.bytes(2))
+    expect(signDoc.string(3)).to.equal('cosmoshub-3')
+    expect(signDoc.uint64(4)).to.equal('0')
+
+    const [signature]: Buffer[] = txRaw.repeatedBytes(3)
+    expect(SECP256K1.verify(sha256(transaction.toSignBytes(publicKey, CosmosSignMode.DIRECT)), signature, publicKey)).to.be.true
+  })
+
+  it('should fall back to SIGN_MODE_LEGACY_AMINO_JSON', async () => {
+    const signed: Buffer = Buffer.from(
+      await protocol.signWithPrivateKey(privateKey, transaction, CosmosSignMode.LEGACY_AMINO_JSON),
+      'base64'
+    )
+    const txRaw: ProtobufReader = new ProtobufReader(signed)
+
+    expect(txRaw.message(2).messages(1)[0].message(2).message(1).uint64(1)).to.equal(CosmosSignMode.LEGACY_AMINO_JSON.toString())
+    // the signature of the Amino JSON is the same as the one of the legacy REST transaction
+    expect(txRaw.repeatedBytes(3)[0].toString('base64')).to.equal(
+      'WwCyYGN1VRqbF1x5KmSBP4EAcQO9ym2p7xRdpywSzcl4L9ubjj/fZNc1G2PgAShMG6fbu9LKbh6rxftlixjnPQ=='
+    )
+  })
+
+  it('should decode all supported messages from a signed transaction', async () => {
+    const staking: CosmosTransaction = new CosmosTransaction(
+      [
+        new CosmosDelegateMessage(address, validator, new CosmosCoin('uatom', '1000')),
+        new CosmosDelegateMessage(address, validator, new CosmosCoin('uatom', '500'), true),
+        new CosmosWithdrawDelegationRewardMessage(address, validator)
+      ],
+      new CosmosFee([new CosmosCoin('uatom', '5000')], '300000'),
+      'staking',
+      'cosmoshub-4',
+      '42',
+      '7'
+    )
+
+    const signed: string = await protocol.signWithPrivateKey(privateKey, staking)
+    const decoded: CosmosTransaction = CosmosTransaction.fromTxRaw(Buffer.from(signed, 'base64'))
+    expect(decoded.messages.map((message) => message.type)).to.deep.equal([
+      CosmosMessageType.Delegate,
+      CosmosMessageType.Undelegate,
+      CosmosMessageType.WithdrawDelegationReward
+    ])
+    expect(decoded.toRPCBody().msgs).to.deep.equal(staking.toRPCBody().msgs)
+    expect(decoded.fee).to.deep.equal(staking.fee)
+
+    const details: IAirGapTransaction[] = await protocol.getTransactionDetailsFromSigned({ accountIdentifier: '', transaction: signed })
+    expect(details.map((detail: IAirGapTransaction) => detail.amount)).to.deep.equal(['1000', '500', '0'])
+    expect(details[0].fee).to.equal('5000')
+    expect(details[0].transactionDetails).to.include({ memo: 'staking', sequence: '7' })
+  })
+
+  it('should use the gRPC-gateway routes', async () => {
+    const nodeClient: CosmosNodeClient = new CosmosNodeClient('https://node.example')
+    const get = sinon.stub(axios, 'get')
+    get.withArgs(`https://node.example/cosmos/bank/v1beta1/balances/${address}`).returns(
+      Promise.resolve({
+        data: {
+          balances: [
+            { denom: 'ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2', amount: '7' },
+            { denom: 'uatom', amount: '1234' }
+          ]
+        }
+      })
+    )
+    get
+      .withArgs(
+        `https://node.example/cosmos/tx/v1beta1/txs?events=message.action='send'&events=transfer.sender='${address}'&pagination.offset=2&pagination.limit=2&pagination.count_total=true`
+      )
+      .returns(
+        Promise.resolve({
+          data: {
+            tx_responses: [
+              {
+                height: '100',
+                txhash: 'AB',
+                gas_wanted: '200000',
+                gas_used: '80000',
+                tx: {
+                  body: {
+                    messages: [
+                      {
+                        '@type': '/cosmos.bank.v1beta1.MsgSend',
+                        from_address: address,
+                        to_address: address,
+                        amount: [{ denom: 'uatom', amount: '2' }]
+                      },
+                      { '@type': '/cosmos.staking.v1beta1.MsgDelegate', delegator_address: address, validator_address: validator }
+                    ],
+                    memo: ''
+                  },
+                  auth_info: { fee: { amount: [{ denom: 'uatom', amount: '1' }], gas_limit: '200000' } }
+                },
+                timestamp: '2021-06-01T00:00:00Z'
+              }
+            ],
+            pagination: { total: '3' }
+          }
+        })
+      )
+
+    expect((await nodeClient.fetchBalance(address)).toFixed()).to.equal('1234')
+
+    const sent: CosmosPagedSendTxsResponse = await nodeClient.fetchSendTransactionsFor(address, 2, 2)
+    expect(sent).to.deep.include({ total_count: '3', count: '1', page_number: '2', page_total: '2' })
+    expect(sent.txs[0].tx.value.msg).to.deep.equal([
+      {
+        type: 'cosmos-sdk/MsgSend',
+        value: { from_address: address, to_address: address, amount: [{ denom: 'uatom', amount: '2' }] }
+      }
+    ])
+    expect(sent.txs[0].tx.value.fee).to.deep.equal({ amount: [{ denom: 'uatom', amount: '1' }], gas: '200000' })
+
+    const post = sinon
+      .stub(axios, 'post')
+      .onFirstCall()
+      .returns(Promise.resolve({ data: { tx_response: { txhash: 'CD', height: '0', code: 0, raw_log: '[]' } } }))
+      .onSecondCall()
+      .returns(Promise.resolve({ data: { tx_response: { txhash: 'EF', height: '0', code: 5, raw_log: 'insufficient funds' } } }))
+
+    expect(await nodeClient.broadcastSignedTransaction('Co0B')).to.equal('CD')
+    expect(post.firstCall.args[0]).to.equal('https://node.example/cosmos/tx/v1beta1/txs')
+    expect(JSON.parse(post.firstCall.args[1])).to.deep.equal({ tx_bytes: 'Co0B', mode: 'BROADCAST_MODE_SYNC' })
+    await expect(nodeClient.broadcastSignedTransaction('Co0B')).to.be.rejectedWith('insufficient funds')
+  })
+})
@@ -0,0 +1,217 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  decodeFunctionCall,
+  encodeFunctionCall,
+  EthereumABIItem,
+  EthereumDecodedCall,
+  EthereumProtocol,
+  IAirGapTransaction,
+  RawEthereumTransaction
+} from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { EthereumRPCDataTransfer } from '../../src/protocols/ethereum/clients/node-clients/AirGapNodeClient'
+
+import { EthereumTestProtocolSpec } from './specs/ethereum'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const ethProtocolSpec: EthereumTestProtocolSpec = new EthereumTestProtocolSpec()
+const address: string = ethProtocolSpec.wallet.addresses[0]
+const contractAddress: string = '0xdAC17F958D2ee523a2206206994597C13D831ec7'
+
+const words = (...hex: string[]): string => hex.map((word: string) => word.padStart(64, '0')).join('')
+const padEnd = (hex: string): string => hex.padEnd(64, '0')
+
+// the examples of the Solidity ABI specification
+const abi: EthereumABIItem[] = [
+  {
+    type: 'function',
+    name: 'baz',
+    inputs: [
+      { name: 'x', type: 'uint32' },
+      { name: 'y', type: 'bool' }
+    ]
+  },
+  {
+    type: 'function',
+    name: 'sam',
+    inputs: [
+      { name: 'name', type: 'bytes' },
+      { name: 'z', type: 'bool' },
+      { name: 'data', type: 'uint[]' }
+    ]
+  },
+  {
+    type: 'function',
+    name: 'f',
+    inputs: [
+      { name: 'a', type: 'uint' },
+      { name: 'b', type: 'uint32[]' },
+      { name: 'c', type: 'bytes10' },
+      { name: 'd', type: 'bytes' }
+    ]
+  },
+  {
+    type: 'function',
+    name: 'g',
+    inputs: [
+      { name: 'a', type: 'uint[][]' },
+      { name: 'b', type: 'string[]' }
+    ]
+  },
+  {
+    type: 'function',
+    name: 'transfer',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  },
+  {
+    type: 'function',
+    name: 'order',
+    inputs: [
+      {
+        name: 'orders',
+        type: 'tuple[]',
+        components: [
+          { name: 'maker', type: 'address' },
+          { name: 'amounts', type: 'int8[2]' },
+          { name: 'note', type: 'string' }
+        ]
+      },
+      { name: 'deadline', type: 'uint64' }
+    ]
+  },
+  { type: 'event', name: 'Transfer', inputs: [{ name: 'from', type: 'address', indexed: true }] }
+]
+
+describe(`ICoinProtocol Ethereum ABI - Custom Tests`, () => {
+  const protocol: EthereumProtocol = new EthereumProtocol()
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should encode static and dynamic parameters', async () => {
+    expect(encodeFunctionCall(abi, 'baz', [69, true])).to.equal(`0xcdcd77c0${words('45', '1')}`)
+    expect(encodeFunctionCall(abi, 'sam', ['0x64617665', true, [1, 2, 3]])).to.equal(
+      `0xa5643bf2${words('60', '1', 'a0', '4')}${padEnd('64617665')}${words('3', '1', '2', '3')}`
+    )
+    expect(encodeFunctionCall(abi, 'f', ['0x123', ['0x456', '0x789'], '0x31323334353637383930', '0x48656c6c6f2c20776f726c6421'])).to.equal(
+      `0x8be65246${words('123', '80')}${padEnd('31323334353637383930')}${words('e0', '2', '456', '789', 'd')}${padEnd(
+        '48656c6c6f2c20776f726c6421'
+      )}`
+    )
+  })
+
+  it('should encode nested dynamic arrays', async () => {
+    expect(
+      encodeFunctionCall(abi, 'g', [
+        [[1, 2], [3]],
+        ['one', 'two', 'three']
+      ])
+    ).to.equal(
+      `0x2289b18c${words('40', '140', '2', '40', 'a0', '2', '1', '2', '1', '3', '3', '60', 'a0', 'e0', '3')}${padEnd('6f6e65')}${words(
+        '3'
+      )}${padEnd('74776f')}${words('5')}${padEnd('7468726565')}`
+    )
+  })
+
+  it('should encode calls like the ERC20 transfer data', async () => {
+    expect(encodeFunctionCall(abi, 'transfer', [address, '1000'])).to.equal(
+      new EthereumRPCDataTransfer(address, '0x3e8').abiEncoded().toLowerCase()
+    )
+  })
+
+  it('should decode calls into named parameters', async () => {
+    const orders = [
+      { maker: address, amounts: ['-1', '127'], note: 'first' },
+      { maker: contractAddress, amounts: ['-128', '0'], note: '' }
+    ]
+    const data: string = encodeFunctionCall(abi, 'order', [orders, '0xffffffff'])
+
+    // tuples can be passed as arrays as well
+    expect(encodeFunctionCall(abi, 'order', [orders.map((order) => [order.maker, order.amounts, order.note]), 4294967295])).to.equal(data)
+
+    const decoded: EthereumDecodedCall = decodeFunctionCall(abi, data)
+    expect(decoded.name).to.equal('order')
+    expect(decoded.signature).to.equal('order((address,int8[2],string)[],uint64)')
+    expect(decoded.parameters).to.deep.equal([
+      { name: 'orders', type: '(address,int8[2],string)[]', value: orders },
+      { name: 'deadline', type: 'uint64', value: '4294967295' }
+    ])
+
+    expect(decodeFunctionCall(abi, encodeFunctionCall(abi, 'g', [[[1, 2], [3]], ['one']])).parameters).to.deep.equal([
+      { name: 'a', type: 'uint256[][]', value: [['1', '2'], ['3']] },
+      { name: 'b', type: 'string[]', value: ['one'] }
+    ])
+  })
+
+  it('should reject invalid arguments and call data', async () => {
+    expect(() => encodeFunctionCall(abi, 'baz', [69])).to.throw('Expected 2 values, got 1.')
+    expect(() => encodeFunctionCall(abi, 'baz', [2 ** 32, true])).to.throw('out of range of uint32')
+    expect(() => encodeFunctionCall(abi, 'order', [[{ maker: address, amounts: ['128', '0'], note: '' }], 0])).to.throw(
+      'out of range of int8'
+    )
+    expect(() => encodeFunctionCall(abi, 'transfer', ['0x1234', '1'])).to.throw('Invalid address 0x1234.')
+    expect(() => encodeFunctionCall(abi, 'f', [1, [], '0x3132', '0x'])).to.throw('expected 10 bytes')
+    expect(() => encodeFunctionCall(abi, 'Transfer', [address])).to.throw('Function Transfer not found in the ABI.')
+
+    expect(() => decodeFunctionCall(abi, '0x12345678')).to.throw('No function with selector 0x12345678')
+    expect(() => decodeFunctionCall(abi, `0xa5643bf2${words('60', '1', 'a0')}`)).to.throw('ABI data is too short.')
+    expect(() => decodeFunctionCall(abi, `0xa5643bf2${words('60', '1', 'a0', 'ffffffffffff')}`)).to.throw('Invalid ABI offset or length.')
+  })
+
+  it('should prepare a contract call and show it when the ABI is known', async () => {
+    sinon.stub(protocol.options.nodeClient, 'fetchBalance').returns(Promise.resolve(new BigNumber('100000000000000000000')))
+    sinon.stub(protocol.options.nodeClient, 'fetchTransactionCount').returns(Promise.resolve(0))
+    const estimateTransactionGas = sinon
+      .stub(protocol.options.nodeClient, 'estimateTransactionGas')
+      .returns(Promise.resolve(new BigNumber(50000)))
+
+    const transaction = (await protocol.prepareTransactionFromPublicKey(
+      ethProtocolSpec.wallet.publicKey,
+      [contractAddress],
+      ['0'],
+      '1000000000000000',
+      { contractCall: { abi, method: 'transfer', args: [address, '1000'] } }
+    )) as RawEthereumTransaction
+    const data: string = encodeFunctionCall(abi, 'transfer', [address, '1000'])
+
+    expect(transaction.data).to.equal(data)
+    expect(estimateTransactionGas.firstCall.args[3]).to.equal(data)
+
+    const unsignedTx = { publicKey: ethProtocolSpec.wallet.publicKey, transaction }
+    expect((await protocol.getTransactionDetails(unsignedTx))[0].extra).to.deep.equal({})
+
+    protocol.addContractABI(contractAddress.toLowerCase(), abi)
+    const details: IAirGapTransaction[] = await protocol.getTransactionDetails(unsignedTx)
+    const contractCall: EthereumDecodedCall = {
+      name: 'transfer',
+      signature: 'transfer(address,uint256)',
+      parameters: [
+        { name: 'to', type: 'address', value: address },
+        { name: 'value', type: 'uint256', value: '1000' }
+      ]
+    }
+    expect(details[0].extra).to.deep.equal({ contractCall })
+
+    const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(ethProtocolSpec.mnemonic(), protocol.standardDerivationPath)
+    const signed: string = await protocol.signWithPrivateKey(privateKey, transaction)
+    expect((await protocol.getTransactionDetailsFromSigned({ accountIdentifier: '', transaction: signed }))[0].extra).to.deep.equal({
+      nonce: 0,
+      contractCall
+    })
+
+    // calls of unknown functions are shown as raw data
+    expect(await protocol.decodeContractCall(contractAddress, '0x12345678')).to.be.undefined
+  })
+})
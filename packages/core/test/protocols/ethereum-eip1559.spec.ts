@@ -0,0 +1,235 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  EthereumEIP1559FeeDefaults,
+  EthereumProtocol,
+  EthereumTransactionType,
+  EthereumTypedTransaction,
+  IACMessageDefinitionObject,
+  IACMessageType,
+  IAirGapTransaction,
+  RawEthereumAccessListTransaction,
+  RawEthereumEIP1559Transaction,
+  RawEthereumTransaction,
+  RawEthereumTypedTransaction,
+  Serializer,
+  UnsignedTransaction
+} from '../../src'
+import axios from '../../src/dependencies/src/axios-0.19.0/index'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import * as ethUtil from '../../src/dependencies/src/ethereumjs-util-5.2.0/index'
+import { AirGapNodeClient } from '../../src/protocols/ethereum/clients/node-clients/AirGapNodeClient'
+import { MainProtocolSymbols } from '../../src/utils/ProtocolSymbols'
+
+import { EthereumTestProtocolSpec } from './specs/ethereum'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const ethProtocolSpec: EthereumTestProtocolSpec = new EthereumTestProtocolSpec()
+const address: string = ethProtocolSpec.wallet.addresses[0]
+
+const eip1559Transaction: RawEthereumEIP1559Transaction = {
+  type: EthereumTransactionType.EIP1559,
+  nonce: '0x1',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  maxFeePerGas: '0x12a05f200',
+  gasLimit: '0x5208',
+  to: '0x4A1E1D37462a422873BFCCb1e705B05CC4bd922e',
+  value: '0xde0b6b3a7640000',
+  chainId: 1,
+  data: '0x',
+  accessList: []
+}
+
+const accessListTransaction: RawEthereumAccessListTransaction = {
+  type: EthereumTransactionType.ACCESS_LIST,
+  nonce: '0x0',
+  gasPrice: '0x4a817c800',
+  gasLimit: '0x7530',
+  to: '0x4a1e1d37462a422873bfccb1e705b05cc4bd922e',
+  value: '0x0',
+  chainId: 1,
+  data: '0x',
+  accessList: [
+    {
+      address: '0xde0b295669a9fd93d5f28d9ec85e40f4cb697bae',
+      storageKeys: ['0x0000000000000000000000000000000000000000000000000000000000000003']
+    }
+  ]
+}
+
+const feeHistory = {
+  oldestBlock: 100,
+  baseFeePerGas: [new BigNumber(20000000000), new BigNumber(30000000000)],
+  gasUsedRatio: [0.5],
+  reward: [
+    [new BigNumber(1000000000), new BigNumber(2000000000), new BigNumber(3000000000)],
+    [new BigNumber(1500000000), new BigNumber(2500000000), new BigNumber(3500000000)],
+    [new BigNumber(500000000), new BigNumber(1000000000), new BigNumber(5000000000)]
+  ]
+}
+
+describe(`ICoinProtocol Ethereum EIP-1559 - Custom Tests`, () => {
+  const protocol: EthereumProtocol = new EthereumProtocol()
+  let privateKey: Buffer
+
+  before(async () => {
+    privateKey = await protocol.getPrivateKeyFromMnemonic(ethProtocolSpec.mnemonic(), protocol.standardDerivationPath)
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should sign an EIP-1559 transaction in a typed envelope', async () => {
+    const signed: string = await protocol.signWithPrivateKey(privateKey, { ...eip1559Transaction })
+
+    expect(signed.startsWith('02')).to.be.true
+    // chain id, nonce, priority fee, max fee, gas limit, to, value, data, access list, y parity, r, s
+    expect(ethUtil.rlp.decode(Buffer.from(signed.slice(2), 'hex'))).to.have.lengthOf(12)
+
+    const details: IAirGapTransaction[] = await protocol.getTransactionDetailsFromSigned({ accountIdentifier: '', transaction: signed })
+    expect(details[0].from).to.deep.equal([address])
+    expect(details[0].to).to.deep.equal(['0x4A1E1D37462a422873BFCCb1e705B05CC4bd922e'])
+    expect(details[0].amount).to.equal('1000000000000000000')
+    // gas limit * max fee per gas
+    expect(details[0].fee).to.equal('105000000000000')
+    expect(details[0].extra).to.deep.equal({ nonce: 1 })
+    expect(details[0].hash).to.equal(`0x${ethUtil.keccak256(Buffer.from(signed, 'hex')).toString('hex')}`)
+  })
+
+  it('should sign an access list transaction and keep the access list', async () => {
+    const signed: string = await protocol.signWithPrivateKey(privateKey, { ...accessListTransaction })
+
+    expect(signed.startsWith('01')).to.be.true
+
+    const typedTx: EthereumTypedTransaction = EthereumTypedTransaction.fromSerialized(signed)
+    expect(typedTx.transaction).to.deep.equal(accessListTransaction)
+    expect(typedTx.getSenderAddress()).to.equal(address)
+  })
+
+  it('should show the maximum fee of an unsigned EIP-1559 transaction', async () => {
+    const details: IAirGapTransaction[] = await protocol.getTransactionDetails({
+      publicKey: ethProtocolSpec.wallet.publicKey,
+      transaction: eip1559Transaction
+    })
+
+    expect(details[0].fee).to.equal('105000000000000')
+  })
+
+  it('should estimate the maximum and the priority fees from the fee history', async () => {
+    sinon.stub(protocol.options.nodeClient, 'estimateTransactionGas').returns(Promise.resolve(new BigNumber(21000)))
+    sinon.stub(protocol.options.nodeClient, 'getBaseFeePerGas').returns(Promise.resolve(new BigNumber(30000000000)))
+    const getFeeHistory = sinon.stub(protocol.options.nodeClient, 'getFeeHistory').returns(Promise.resolve(feeHistory))
+
+    const feeDefaults = (await protocol.estimateFeeDefaultsFromPublicKey(ethProtocolSpec.wallet.publicKey, [address], ['1'], {
+      type: EthereumTransactionType.EIP1559
+    })) as EthereumEIP1559FeeDefaults
+
+    expect(getFeeHistory.firstCall.args).to.deep.equal([10, [25, 50, 75]])
+    // the median of each percentile over the blocks
+    expect(feeDefaults.maxPriorityFeePerGas).to.deep.equal({ low: '1000000000', medium: '2000000000', high: '3500000000' })
+    // 21000 gas * (2 * 30 Gwei base fee + priority fee)
+    expect(feeDefaults.low).to.equal('0.001281')
+    expect(feeDefaults.medium).to.equal('0.001302')
+    expect(feeDefaults.high).to.equal('0.0013335')
+  })
+
+  it('should not estimate EIP-1559 fees on networks without a base fee', async () => {
+    sinon.stub(protocol.options.nodeClient, 'estimateTransactionGas').returns(Promise.resolve(new BigNumber(21000)))
+    sinon.stub(protocol.options.nodeClient, 'getBaseFeePerGas').returns(Promise.resolve(undefined))
+
+    await expect(
+      protocol.estimateFeeDefaultsFromPublicKey(ethProtocolSpec.wallet.publicKey, [address], ['1'], {
+        type: EthereumTransactionType.EIP1559
+      })
+    ).to.be.rejectedWith('EIP-1559 transactions are not supported by this network.')
+  })
+
+  it('should prepare typed transactions from the fee', async () => {
+    sinon.stub(protocol.options.nodeClient, 'fetchBalance').returns(Promise.resolve(new BigNumber('100000000000000000000')))
+    sinon.stub(protocol.options.nodeClient, 'fetchTransactionCount').returns(Promise.resolve(2))
+    sinon.stub(protocol.options.nodeClient, 'estimateTransactionGas').returns(Promise.resolve(new BigNumber(21000)))
+    sinon.stub(protocol.options.nodeClient, 'getFeeHistory').returns(Promise.resolve(feeHistory))
+
+    const prepare = (options?: any): Promise<RawEthereumTransaction | RawEthereumTypedTransaction> =>
+      protocol.prepareTransactionFromPublicKey(ethProtocolSpec.wallet.publicKey, [address], ['1000'], '1302000000000000', options)
+
+    expect(await prepare()).to.not.have.property('type')
+    expect(await prepare({ type: EthereumTransactionType.EIP1559 })).to.deep.equal({
+      type: EthereumTransactionType.EIP1559,
+      nonce: '0x2',
+      maxPriorityFeePerGas: '0x77359400',
+      maxFeePerGas: '0xe6f7cec00',
+      gasLimit: '0x5208',
+      to: address,
+      value: '0x3e8',
+      chainId: 1,
+      data: '0x',
+      accessList: []
+    })
+    expect(await prepare({ type: EthereumTransactionType.EIP1559, maxPriorityFeePerGas: '100000000000' })).to.include({
+      // the priority fee cannot exceed the maximum fee
+      maxPriorityFeePerGas: '0xe6f7cec00'
+    })
+    expect(await prepare({ type: EthereumTransactionType.ACCESS_LIST, accessList: accessListTransaction.accessList })).to.deep.include({
+      type: EthereumTransactionType.ACCESS_LIST,
+      gasPrice: '0xe6f7cec00',
+      accessList: accessListTransaction.accessList
+    })
+  })
+
+  it('should read the base fee and the fee history from the node', async () => {
+    const post = sinon.stub(axios, 'post')
+    post
+      .onFirstCall()
+      .returns(Promise.resolve({ data: { jsonrpc: '2.0', id: 1, result: { number: '0x64', baseFeePerGas: '0x6fc23ac00' } } }))
+    post.onSecondCall().returns(
+      Promise.resolve({
+        data: {
+          jsonrpc: '2.0',
+          id: 1,
+          result: { oldestBlock: '0x63', baseFeePerGas: ['0x4a817c800', '0x6fc23ac00'], gasUsedRatio: [1], reward: [['0x3b9aca00']] }
+        }
+      })
+    )
+    post.onThirdCall().returns(Promise.resolve({ data: { jsonrpc: '2.0', id: 1, result: { number: '0x64' } } }))
+
+    const nodeClient: AirGapNodeClient = new AirGapNodeClient('https://node.example')
+
+    expect((await nodeClient.getBaseFeePerGas())?.toFixed()).to.equal('30000000000')
+    const history = await nodeClient.getFeeHistory(1, [50])
+    expect(history.oldestBlock).to.equal(99)
+    expect(history.baseFeePerGas.map((baseFee: BigNumber) => baseFee.toFixed())).to.deep.equal(['20000000000', '30000000000'])
+    expect(history.reward[0][0].toFixed()).to.equal('1000000000')
+    expect(JSON.parse(post.secondCall.args[1]).params).to.deep.equal(['0x1', 'latest', [50]])
+    expect(await nodeClient.getBaseFeePerGas()).to.be.undefined
+  })
+
+  it('should serialize legacy and typed sign requests with the matching schema', async () => {
+    const serializer: Serializer = new Serializer()
+
+    const transactions: (RawEthereumTransaction | RawEthereumTypedTransaction)[] = [
+      ethProtocolSpec.validRawTransactions[0],
+      accessListTransaction,
+      eip1559Transaction
+    ]
+    for (const transaction of transactions) {
+      const payload: UnsignedTransaction = { publicKey: ethProtocolSpec.wallet.publicKey, transaction, callbackURL: 'airgap-wallet://?d=' }
+      const message: IACMessageDefinitionObject = {
+        id: 'random__id',
+        type: IACMessageType.TransactionSignRequest,
+        protocol: MainProtocolSymbols.ETH,
+        payload
+      }
+      const [deserialized]: IACMessageDefinitionObject[] = await serializer.deserialize(await serializer.serialize([message]))
+
+      expect((deserialized.payload as any).transaction).to.deep.equal(transaction)
+    }
+  })
+})
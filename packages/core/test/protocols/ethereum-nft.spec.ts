@@ -0,0 +1,252 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  EthereumNFTProtocolConfig,
+  EthereumNFTProtocolOptions,
+  EthereumNFTStandard,
+  EthereumNFTTransfer,
+  GenericERC1155,
+  GenericERC721,
+  IACMessageDefinitionObject,
+  IACMessageType,
+  IAirGapTransaction,
+  RawEthereumTransaction,
+  Serializer,
+  SubProtocolSymbols
+} from '../../src'
+import axios from '../../src/dependencies/src/axios-0.19.0/index'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { EtherscanInfoClient } from '../../src/protocols/ethereum/clients/info-clients/EtherscanInfoClient'
+import { encodeParameters } from '../../src/protocols/ethereum/EthereumABI'
+import { EthereumProtocolNetwork } from '../../src/protocols/ethereum/EthereumProtocolOptions'
+import { EthereumUtils } from '../../src/protocols/ethereum/utils/utils'
+
+import { EthereumTestProtocolSpec } from './specs/ethereum'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const ethProtocolSpec: EthereumTestProtocolSpec = new EthereumTestProtocolSpec()
+const publicKey: string = ethProtocolSpec.wallet.publicKey
+const address: string = ethProtocolSpec.wallet.addresses[0]
+const recipient: string = '0xdAC17F958D2ee523a2206206994597C13D831ec7'
+const contractAddress: string = '0xBC4CA0EdA7647A8aB7C2061c2E118A18a936f13D'
+
+const encodeString = (value: string): string => `0x${encodeParameters([{ name: '', type: 'string' }], [value]).toString('hex')}`
+const encodeUint = (value: string): string => `0x${encodeParameters([{ name: '', type: 'uint256' }], [value]).toString('hex')}`
+
+const createTransfer = (from: string, to: string, tokenId: string, amount: string): EthereumNFTTransfer => ({
+  hash: '0x01',
+  blockNumber: '100',
+  timestamp: 1600000000,
+  from,
+  to,
+  tokenId,
+  amount,
+  gas: '100000',
+  gasPrice: '1000000000'
+})
+
+describe(`ICoinProtocol Ethereum NFT - Custom Tests`, () => {
+  const erc721: GenericERC721 = new GenericERC721(
+    new EthereumNFTProtocolOptions(
+      new EthereumProtocolNetwork(),
+      new EthereumNFTProtocolConfig('BAYC', 'Bored Ape Yacht Club', 'bayc', SubProtocolSymbols.ETH_ERC721, contractAddress)
+    )
+  )
+  const erc1155: GenericERC1155 = new GenericERC1155(
+    new EthereumNFTProtocolOptions(
+      new EthereumProtocolNetwork(),
+      new EthereumNFTProtocolConfig('ITEMS', 'Game Items', 'items', SubProtocolSymbols.ETH_ERC1155, contractAddress)
+    )
+  )
+  let privateKey: Buffer
+
+  before(async () => {
+    privateKey = await erc721.getPrivateKeyFromMnemonic(ethProtocolSpec.mnemonic(), erc721.standardDerivationPath)
+  })
+
+  beforeEach(() => {
+    sinon.stub(axios, 'post').rejects(new Error('unexpected request'))
+    sinon.stub(erc721.options.nodeClient, 'fetchBalance').returns(Promise.resolve(new BigNumber('1000000000000000000')))
+    sinon.stub(erc721.options.nodeClient, 'fetchTransactionCount').returns(Promise.resolve(3))
+    sinon.stub(erc721.options.nodeClient, 'estimateTransactionGas').returns(Promise.resolve(new BigNumber(80000)))
+    sinon.stub(erc1155.options.nodeClient, 'fetchBalance').returns(Promise.resolve(new BigNumber('1000000000000000000')))
+    sinon.stub(erc1155.options.nodeClient, 'fetchTransactionCount').returns(Promise.resolve(3))
+    sinon.stub(erc1155.options.nodeClient, 'estimateTransactionGas').returns(Promise.resolve(new BigNumber(80000)))
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should prepare an ERC-721 transfer of an owned token and show its token ID', async () => {
+    sinon
+      .stub(erc721.options.nodeClient, 'callContract')
+      .returns(Promise.resolve(`0x${encodeParameters([{ name: '', type: 'address' }], [address]).toString('hex')}`))
+
+    const transaction = (await erc721.prepareTransactionFromPublicKey(publicKey, [recipient], ['1'], '8000000000000000', {
+      tokenIds: ['1234']
+    })) as RawEthereumTransaction
+
+    expect(transaction.to).to.equal(contractAddress)
+    expect(transaction.value).to.equal('0x0')
+    // safeTransferFrom(address,address,uint256)
+    expect(transaction.data.startsWith('0x42842e0e')).to.be.true
+
+    const details: IAirGapTransaction[] = await erc721.getTransactionDetails({ publicKey, transaction })
+    expect(details).to.have.lengthOf(1)
+    expect(details[0].to).to.deep.equal([recipient])
+    expect(details[0].amount).to.equal('1')
+    expect(details[0].extra.tokenId).to.equal('1234')
+
+    const signed: string = await erc721.signWithPrivateKey(privateKey, transaction)
+    const signedDetails: IAirGapTransaction[] = await erc721.getTransactionDetailsFromSigned({ accountIdentifier: '', transaction: signed })
+    expect(signedDetails[0].from).to.deep.equal([address])
+    expect(signedDetails[0].extra).to.include({ nonce: 3, tokenId: '1234' })
+  })
+
+  it('should reject ERC-721 transfers of tokens that are not owned or not single', async () => {
+    sinon
+      .stub(erc721.options.nodeClient, 'callContract')
+      .returns(Promise.resolve(`0x${encodeParameters([{ name: '', type: 'address' }], [recipient]).toString('hex')}`))
+
+    await expect(
+      erc721.prepareTransactionFromPublicKey(publicKey, [recipient], ['1'], '8000000000000000', { tokenIds: ['1234'] })
+    ).to.be.rejectedWith('not enough balance of token 1234')
+    await expect(
+      erc721.prepareTransactionFromPublicKey(publicKey, [recipient], ['1', '1'], '8000000000000000', { tokenIds: ['1', '2'] })
+    ).to.be.rejectedWith('ERC-721 transfers are limited to a single token.')
+    await expect(erc721.prepareTransactionFromPublicKey(publicKey, [recipient], ['1'], '8000000000000000')).to.be.rejectedWith(
+      'NFT transfers need a token ID for each value.'
+    )
+  })
+
+  it('should prepare ERC-1155 single and batch transfers and show each token', async () => {
+    const callContract = sinon.stub(erc1155.options.nodeClient, 'callContract').returns(Promise.resolve(encodeUint('10')))
+
+    const single = (await erc1155.prepareTransactionFromPublicKey(publicKey, [recipient], ['5'], '8000000000000000', {
+      tokenIds: ['7']
+    })) as RawEthereumTransaction
+    // safeTransferFrom(address,address,uint256,uint256,bytes)
+    expect(single.data.startsWith('0xf242432a')).to.be.true
+
+    const batch = (await erc1155.prepareTransactionFromPublicKey(publicKey, [recipient], ['5', '10'], '8000000000000000', {
+      tokenIds: ['7', '8']
+    })) as RawEthereumTransaction
+    // safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)
+    expect(batch.data.startsWith('0x2eb2c2d6')).to.be.true
+
+    // ETH sent along with the call is shown apart from the token amounts
+    const details: IAirGapTransaction[] = await erc1155.getTransactionDetails({
+      publicKey,
+      transaction: { ...batch, value: EthereumUtils.toHex(10000000000000000) }
+    })
+    expect(
+      details.map((detail: IAirGapTransaction) => [detail.extra.tokenId, detail.amount, detail.fee, detail.extra.ethAmount])
+    ).to.deep.equal([
+      ['7', '5', '8000000000000000', '10000000000000000'],
+      ['8', '10', '0', '0']
+    ])
+
+    await expect(
+      erc1155.prepareTransactionFromPublicKey(publicKey, [recipient], ['11'], '8000000000000000', { tokenIds: ['7'] })
+    ).to.be.rejectedWith('not enough balance of token 7')
+    expect(callContract.callCount).to.equal(4)
+  })
+
+  it('should enumerate the owned tokens from the transfers', async () => {
+    const fetchNFTTransfers = sinon
+      .stub(erc1155.options.infoClient, 'fetchNFTTransfers')
+      .returns(
+        Promise.resolve([
+          createTransfer(recipient, address, '1', '5'),
+          createTransfer(recipient, address.toLowerCase(), '2', '1'),
+          createTransfer(address, recipient, '1', '2'),
+          createTransfer(address, recipient, '2', '1')
+        ])
+      )
+
+    expect(await erc1155.getOwnedTokensOfPublicKey(publicKey)).to.deep.equal([{ tokenId: '1', amount: '3' }])
+    expect(await erc1155.getBalanceOfPublicKey(publicKey)).to.equal('3')
+    expect(fetchNFTTransfers.firstCall.args).to.deep.equal([EthereumNFTStandard.ERC1155, contractAddress, address, 1, 1000, true])
+  })
+
+  it('should fetch the NFT transfers from Etherscan', async () => {
+    const get = sinon.stub(axios, 'get').returns(
+      Promise.resolve({
+        data: {
+          status: '1',
+          result: [
+            {
+              hash: '0x01',
+              blockNumber: '100',
+              timeStamp: '1600000000',
+              from: recipient,
+              to: address,
+              tokenID: '42',
+              gas: '100000',
+              gasPrice: '1000000000'
+            }
+          ]
+        }
+      })
+    )
+    const infoClient: EtherscanInfoClient = new EtherscanInfoClient('https://api.example')
+
+    expect(await infoClient.fetchNFTTransfers(EthereumNFTStandard.ERC721, contractAddress, address, 2, 10)).to.deep.equal([
+      createTransfer(recipient, address, '42', '1')
+    ])
+    expect(get.firstCall.args[0]).to.contain('action=tokennfttx')
+    expect(get.firstCall.args[0]).to.contain('&page=2&offset=10&sort=desc')
+  })
+
+  it('should resolve the token metadata', async () => {
+    const callContract = sinon
+      .stub(erc1155.options.nodeClient, 'callContract')
+      .returns(Promise.resolve(encodeString('ipfs://ipfs/QmHash/{id}.json')))
+
+    expect(await erc1155.getTokenMetadataURI('26')).to.equal(`https://ipfs.io/ipfs/QmHash/${'1a'.padStart(64, '0')}.json`)
+
+    callContract.returns(
+      Promise.resolve(encodeString(`data:application/json;base64,${Buffer.from('{"name":"Sword"}').toString('base64')}`))
+    )
+    expect(await erc1155.getTokenMetadata('26')).to.deep.equal({ name: 'Sword' })
+
+    // malformed on-chain metadata is ignored
+    callContract.returns(Promise.resolve(encodeString('data:application/json,{"name":')))
+    expect(await erc1155.getTokenMetadata('26')).to.deep.equal({})
+    callContract.returns(Promise.resolve(encodeString('data:application/json,%E0%A4%A')))
+    expect(await erc1155.getTokenMetadata('26')).to.deep.equal({})
+
+    sinon.stub(erc721.options.nodeClient, 'callContract').returns(Promise.resolve(encodeString('https://example.com/token/1')))
+    sinon
+      .stub(axios, 'get')
+      .withArgs('https://example.com/token/1')
+      .returns(Promise.resolve({ data: { name: 'Ape #1' } }))
+    expect(await erc721.getTokenMetadata('1')).to.deep.equal({ name: 'Ape #1' })
+  })
+
+  it('should serialize NFT transactions for offline signing', async () => {
+    const transaction: RawEthereumTransaction = {
+      ...ethProtocolSpec.validRawTransactions[0],
+      data: '0x42842e0e'
+    }
+
+    for (const protocol of [SubProtocolSymbols.ETH_ERC721, SubProtocolSymbols.ETH_ERC1155]) {
+      const message: IACMessageDefinitionObject = {
+        id: 'random__id',
+        type: IACMessageType.TransactionSignRequest,
+        protocol,
+        payload: { publicKey, transaction, callbackURL: 'airgap-wallet://?d=' }
+      }
+      const [deserialized]: IACMessageDefinitionObject[] = await new Serializer().deserialize(await new Serializer().serialize([message]))
+
+      expect(deserialized).to.deep.equal(message)
+    }
+  })
+})
@@ -0,0 +1,165 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+
+import {
+  EthereumMessageType,
+  EthereumProtocol,
+  EthereumTypedData,
+  IACMessageDefinitionObject,
+  IACMessageType,
+  MessageSignRequest,
+  Serializer,
+  TypedMessageSignRequest
+} from '../../src'
+import * as ethUtil from '../../src/dependencies/src/ethereumjs-util-5.2.0/index'
+import {
+  encodeType,
+  getDomainSeparator,
+  hashStruct,
+  hashType,
+  hashTypedData,
+  parseTypedData
+} from '../../src/protocols/ethereum/EthereumTypedData'
+import { MainProtocolSymbols } from '../../src/utils/ProtocolSymbols'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+// the example of the EIP-712 specification
+const mail: EthereumTypedData = {
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' }
+    ],
+    Person: [
+      { name: 'name', type: 'string' },
+      { name: 'wallet', type: 'address' }
+    ],
+    Mail: [
+      { name: 'from', type: 'Person' },
+      { name: 'to', type: 'Person' },
+      { name: 'contents', type: 'string' }
+    ]
+  },
+  primaryType: 'Mail',
+  domain: {
+    name: 'Ether Mail',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC'
+  },
+  message: {
+    from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+    to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+    contents: 'Hello, Bob!'
+  }
+}
+
+const toHex = (buffer: Buffer): string => `0x${buffer.toString('hex')}`
+
+describe(`ICoinProtocol Ethereum EIP-712 - Custom Tests`, () => {
+  const protocol: EthereumProtocol = new EthereumProtocol()
+  const privateKey: Buffer = ethUtil.keccak256(Buffer.from('cow', 'utf8'))
+  const publicKey: string = ethUtil.privateToPublic(privateKey).toString('hex')
+  // r and s of the specification, the recovery id is encoded like the one of signed messages
+  const signature: string =
+    '0x4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b9156201'
+
+  it('should encode and hash the types with their dependencies', async () => {
+    expect(encodeType('Mail', mail.types)).to.equal('Mail(Person from,Person to,string contents)Person(string name,address wallet)')
+    expect(toHex(hashType('Mail', mail.types))).to.equal('0xa0cedeb2dc280ba39b857546d74f5549c3a1d7bdc2dd96bf881f76108e23dac2')
+
+    const permitTypes = {
+      EIP712Domain: [],
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+      ]
+    }
+    expect(toHex(hashType('Permit', permitTypes))).to.equal('0x6e71edae12b1b97f4d1f60370fef10105fa2faae0126114a169c64845d6126c9')
+  })
+
+  it('should hash the domain, the message and the typed data', async () => {
+    expect(toHex(getDomainSeparator(mail))).to.equal('0xf2cee375fa42b42143804025fc449deafd50cc031ca257e0b194a650a912090f')
+    expect(toHex(hashStruct('Mail', mail.message, mail.types))).to.equal(
+      '0xc52c0ee5d84264471806290a3f2c4cecfc5490626bf912d01f240d7a274b371e'
+    )
+    expect(toHex(hashTypedData(mail))).to.equal('0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2')
+  })
+
+  it('should encode arrays as the hash of their encoded items', async () => {
+    const types = {
+      EIP712Domain: [],
+      Person: mail.types.Person,
+      Group: [
+        { name: 'members', type: 'Person[]' },
+        { name: 'scores', type: 'int8[2]' }
+      ]
+    }
+    const members = [mail.message.from, mail.message.to] as { [field: string]: unknown }[]
+
+    const expected: Buffer = ethUtil.keccak256(
+      Buffer.concat([
+        hashType('Group', types),
+        ethUtil.keccak256(Buffer.concat(members.map((member: { [field: string]: unknown }) => hashStruct('Person', member, types)))),
+        ethUtil.keccak256(
+          Buffer.concat([ethUtil.setLengthLeft(ethUtil.toBuffer(1), 32), Buffer.alloc(32, 0xff) /* -1 in two's complement */])
+        )
+      ])
+    )
+
+    expect(encodeType('Group', types)).to.equal('Group(Person[] members,int8[2] scores)Person(string name,address wallet)')
+    expect(hashStruct('Group', { members, scores: [1, -1] }, types)).to.deep.equal(expected)
+    expect(() => hashStruct('Group', { members: mail.message.from, scores: [] }, types)).to.throw('Expected an array')
+  })
+
+  it('should sign and verify typed data', async () => {
+    expect(await protocol.signTypedData(mail, { privateKey })).to.equal(signature)
+    expect(await protocol.verifyTypedData(mail, signature, publicKey)).to.be.true
+    expect(await protocol.verifyTypedData({ ...mail, message: { ...mail.message, contents: 'Hello, Alice!' } }, signature, publicKey)).to.be
+      .false
+    // typed data is not signed like a personal message
+    expect(await protocol.verifyMessage(JSON.stringify(mail), signature, publicKey)).to.be.false
+  })
+
+  it('should carry typed data in a message sign request', async () => {
+    const serializer: Serializer = new Serializer()
+    const serializeAndDeserialize = async (payload: MessageSignRequest | TypedMessageSignRequest) => {
+      const message: IACMessageDefinitionObject = {
+        id: 'random__id',
+        type: IACMessageType.MessageSignRequest,
+        protocol: MainProtocolSymbols.ETH,
+        payload
+      }
+      const [deserialized]: IACMessageDefinitionObject[] = await serializer.deserialize(await serializer.serialize([message]))
+
+      return deserialized.payload as MessageSignRequest | TypedMessageSignRequest
+    }
+
+    const request: TypedMessageSignRequest = await protocol.createTypedDataSignRequest(publicKey, mail, 'airgap-wallet://?d=')
+    expect(request.messageType).to.equal(EthereumMessageType.TYPED_DATA_V4)
+
+    const deserialized = await serializeAndDeserialize(request)
+    expect(deserialized).to.deep.equal(request)
+    expect(await protocol.getTypedDataFromMessageSignRequest(deserialized)).to.deep.equal(mail)
+
+    const personalRequest: MessageSignRequest = { message: 'example message', publicKey, callbackURL: 'airgap-wallet://?d=' }
+    const deserializedPersonal = await serializeAndDeserialize(personalRequest)
+    expect(deserializedPersonal).to.deep.equal(personalRequest)
+    await expect(protocol.getTypedDataFromMessageSignRequest(deserializedPersonal)).to.be.rejectedWith('does not contain typed data')
+  })
+
+  it('should reject invalid typed data', async () => {
+    expect(() => parseTypedData('{')).to.throw('Typed data is not valid JSON.')
+    expect(() => parseTypedData(JSON.stringify({ ...mail, types: { Mail: mail.types.Mail } }))).to.throw('including EIP712Domain')
+    expect(() => parseTypedData(JSON.stringify({ ...mail, primaryType: 'Letter' }))).to.throw('Unknown typed data type Letter.')
+  })
+})
@@ -0,0 +1,178 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  createSubstrateChainProtocol,
+  IACMessageDefinitionObject,
+  IACMessageType,
+  KusamaProtocol,
+  RawSubstrateTransaction,
+  Serializer,
+  SubstrateAddress,
+  SubstrateChainDescriptor,
+  SubstrateChainProtocol,
+  SubstrateStakingActionType
+} from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { SubstrateTransactionType } from '../../src/protocols/substrate/helpers/data/transaction/SubstrateTransaction'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+// the well-known development account `//Alice`
+const publicKey: string = 'd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d'
+const address: string = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY'
+// `//Bob`
+const recipient: string = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty'
+
+const devChain: SubstrateChainDescriptor = {
+  identifier: 'substrate-dev',
+  name: 'Development',
+  symbol: 'UNIT',
+  decimals: 12,
+  ss58Format: 42,
+  coinType: 354,
+  rpcUrl: 'http://127.0.0.1:9933',
+  blockExplorerUrl: 'https://polkadot.js.org/apps/?rpc=ws%3A%2F%2F127.0.0.1%3A9944#/explorer',
+  stakingAvailable: false
+}
+
+const westend: SubstrateChainDescriptor = {
+  identifier: 'westend',
+  name: 'Westend',
+  symbol: 'WND',
+  decimals: 12,
+  ss58Format: 42,
+  coinType: 354,
+  rpcUrl: 'https://westend-rpc.example',
+  blockExplorerUrl: 'https://westend.subscan.io',
+  blockExplorerApiUrl: 'https://westend.api.subscan.io/api/scan',
+  stakingAvailable: true
+}
+
+describe(`ICoinProtocol Substrate Chains - Custom Tests`, () => {
+  const protocol: SubstrateChainProtocol = createSubstrateChainProtocol(devChain)
+
+  const stubNode = (chainProtocol: SubstrateChainProtocol): void => {
+    sinon.stub(chainProtocol.options.accountController, 'getTransferableBalance').returns(Promise.resolve(new BigNumber(10000000000000)))
+    sinon.stub(chainProtocol.options.nodeClient, 'getTransactionMetadata').returns(
+      Promise.resolve({
+        moduleName: 'Balances',
+        name: 'transfer',
+        moduleIndex: 4,
+        callIndex: 0,
+        args: [
+          { name: 'dest', type: 'LookupSource' },
+          { name: 'value', type: 'Compact<u128>' }
+        ]
+      })
+    )
+    sinon.stub(chainProtocol.options.nodeClient, 'getTransferFeeEstimate').returns(Promise.resolve(new BigNumber(125000000)))
+    sinon.stub(chainProtocol.options.nodeClient, 'getAccountInfo').returns(Promise.resolve({ nonce: { value: new BigNumber(0) } } as any))
+    sinon
+      .stub(chainProtocol.options.nodeClient, 'getFirstBlockHash')
+      .returns(Promise.resolve('0xd51522c9ef7ba4e0990f7a4527de79afcac992ab97abbbc36722f8a27189b170'))
+    sinon
+      .stub(chainProtocol.options.nodeClient, 'getLastBlockHash')
+      .returns(Promise.resolve('0x33a7a745849347ce3008c07268be63d8cefd3ef61de0c7318e88a577fb7d26a9'))
+    sinon.stub(chainProtocol.options.nodeClient, 'getCurrentHeight').returns(Promise.resolve(new BigNumber(42)))
+    // a low runtime version, only Polkadot and Kusama had runtimes without multi addresses
+    sinon.stub(chainProtocol.options.nodeClient, 'getRuntimeVersion').returns(Promise.resolve({ specVersion: 1, transactionVersion: 1 }))
+  }
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should configure the protocol from the chain descriptor', async () => {
+    expect(protocol.identifier).to.equal('substrate-dev')
+    expect(protocol.name).to.equal('Development')
+    expect(protocol.symbol).to.equal('UNIT')
+    expect(protocol.decimals).to.equal(12)
+    expect(protocol.standardDerivationPath).to.equal(`m/44'/354'/0'/0/0`)
+    expect(protocol.feeDefaults).to.deep.equal({ low: '0.0001', medium: '0.0001', high: '0.0001' })
+    expect(protocol.units).to.deep.equal([
+      { unitSymbol: 'UNIT', factor: '1' },
+      { unitSymbol: 'Planck', factor: '0.000000000001' }
+    ])
+    expect(protocol.options.network.rpcUrl).to.equal(devChain.rpcUrl)
+
+    expect((await protocol.getAddressFromPublicKey(publicKey)).getValue()).to.equal(address)
+    expect(address).to.match(new RegExp(protocol.addressValidationPattern))
+    expect(await protocol.getBlockExplorerLinkForAddress(address)).to.equal(`${devChain.blockExplorerUrl}/account/${address}`)
+    expect(await protocol.getTransactionsFromPublicKey(publicKey, 10)).to.deep.include({ transactions: [] })
+
+    // the predefined chains keep their formats
+    expect((await new KusamaProtocol().getAddressFromPublicKey(publicKey)).getValue()).to.equal(
+      'HNZata7iMYWmk5RvZRTiAsSDhV8366zq2YGb3tLH5Upf74F'
+    )
+  })
+
+  it('should encode addresses of chains with two byte SS58 formats', async () => {
+    const chain: SubstrateChainProtocol = createSubstrateChainProtocol({ ...devChain, identifier: 'substrate-two-byte', ss58Format: 1284 })
+
+    const twoByteAddress: SubstrateAddress = await chain.getAddressFromPublicKey(publicKey)
+    expect(twoByteAddress.version).to.have.lengthOf(2)
+    expect(twoByteAddress.getValue()).to.match(new RegExp(chain.addressValidationPattern))
+    expect(SubstrateAddress.from(twoByteAddress.getValue(), chain.options.network.extras.network).getHexPublicKey()).to.equal(publicKey)
+
+    expect(() => createSubstrateChainProtocol({ ...devChain, identifier: 'substrate-invalid', ss58Format: 16384 })).to.throw(
+      'Invalid SS58 format 16384.'
+    )
+  })
+
+  it('should not query the staking state of chains without staking', async () => {
+    const isBonded = sinon.stub(protocol.options.accountController, 'isBonded').returns(Promise.resolve(false))
+    sinon.stub(protocol.options.accountController, 'getTransferableBalance').returns(Promise.resolve(new BigNumber(10000000000000)))
+
+    expect(await protocol.isPublicKeyDelegating(publicKey)).to.be.false
+    expect(await protocol.getCurrentDelegateesForPublicKey(publicKey)).to.deep.equal([])
+    expect(await protocol.getFutureRequiredTransactions(publicKey, 'check')).to.deep.equal([])
+    expect(isBonded.called).to.be.false
+
+    await expect(protocol.getDefaultDelegatee()).to.be.rejectedWith('Staking is not available on Development.')
+    await expect(protocol.prepareDelegatorActionFromPublicKey(publicKey, SubstrateStakingActionType.NOMINATE, {})).to.be.rejectedWith(
+      'Staking is not available on Development.'
+    )
+
+    expect(createSubstrateChainProtocol(westend).options.config.stakingAvailable).to.be.true
+  })
+
+  it('should prepare and serialize transactions of the chain', async () => {
+    stubNode(protocol)
+
+    const transaction: RawSubstrateTransaction = await protocol.prepareTransactionFromPublicKey(
+      publicKey,
+      [recipient],
+      ['1000000000000'],
+      '0'
+    )
+    const [details] = protocol.options.transactionController.decodeDetails(transaction.encoded)
+    expect(details.transaction.type).to.equal(SubstrateTransactionType.TRANSFER)
+    expect(details.transaction.method.encode({ network: protocol.options.network.extras.network, runtimeVersion: 1 })).to.equal(
+      // tslint:disable-next-line: prefer-template
+      '0400' + // moduleId + callId
+      '00' + // MultiAddress type
+      '8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48' + // AccountId destination
+        '070010a5d4e8' // value
+    )
+
+    const serializer: Serializer = new Serializer()
+    const message: IACMessageDefinitionObject = {
+      id: 'random__id',
+      type: IACMessageType.TransactionSignRequest,
+      protocol: protocol.identifier,
+      payload: { publicKey, transaction, callbackURL: 'airgap-wallet://?d=' }
+    }
+
+    const [deserialized] = await serializer.deserialize(await serializer.serialize([message]))
+    expect(deserialized.protocol).to.equal(protocol.identifier)
+    expect((deserialized.payload as any).transaction).to.deep.equal(transaction)
+
+    // configuring the same chain again does not register its schemas twice
+    expect(() => createSubstrateChainProtocol(devChain)).to.not.throw()
+  })
+})
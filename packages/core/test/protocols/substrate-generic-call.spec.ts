@@ -0,0 +1,305 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { IAirGapTransaction, PolkadotProtocol } from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { SubstrateCall } from '../../src/protocols/substrate/helpers/data/metadata/decorator/call/SubstrateCall'
+import { SCALETypeDefinition, SCALETypeKind } from '../../src/protocols/substrate/helpers/data/scale/SCALETypeDefinition'
+import { SCALEType } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEType'
+import { SubstrateTransactionType } from '../../src/protocols/substrate/helpers/data/transaction/SubstrateTransaction'
+import { SubstrateNetwork } from '../../src/protocols/substrate/SubstrateNetwork'
+
+import { PolkadotTestProtocolSpec } from './specs/polkadot'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const polkadotProtocolSpec: PolkadotTestProtocolSpec = new PolkadotTestProtocolSpec()
+const publicKey: string = polkadotProtocolSpec.wallet.publicKey
+const address: string = polkadotProtocolSpec.wallet.addresses[0]
+const recipient: string = polkadotProtocolSpec.validAddresses[0]
+
+const transferKeepAlive: SubstrateCall = {
+  moduleName: 'Balances',
+  name: 'transfer_keep_alive',
+  moduleIndex: 5,
+  callIndex: 3,
+  args: [
+    { name: 'dest', type: '<T::Lookup as StaticLookup>::Source' },
+    { name: 'value', type: 'Compact<T::Balance>' }
+  ]
+}
+
+const configure: SubstrateCall = {
+  moduleName: 'Example',
+  name: 'configure',
+  moduleIndex: 42,
+  callIndex: 1,
+  args: [
+    { name: 'payouts', type: 'Vec<(T::AccountId, BalanceOf<T>)>' },
+    { name: 'until', type: 'Option<T::BlockNumber>' },
+    { name: 'memo', type: 'Vec<u8>' }
+  ]
+}
+
+// the enum and struct descriptors of the V14 type registry
+const rewardDestination: string = '{"_enum":[[0,"Staked",null],[3,"Account","AccountId"]]}'
+
+const setPayee: SubstrateCall = {
+  moduleName: 'Staking',
+  name: 'set_payee',
+  moduleIndex: 7,
+  callIndex: 7,
+  args: [{ name: 'payee', type: rewardDestination }]
+}
+
+const setConfig: SubstrateCall = {
+  moduleName: 'Staking',
+  name: 'set_config',
+  moduleIndex: 7,
+  callIndex: 22,
+  args: [
+    {
+      name: 'config',
+      type: JSON.stringify({
+        _struct: [
+          ['min_bond', 'Compact<u128>'],
+          ['destination', rewardDestination],
+          ['offset', 'i32'],
+          ['limits', '(u8, u16, u256)'],
+          ['symbol', 'char']
+        ]
+      })
+    }
+  ]
+}
+
+describe(`ICoinProtocol Substrate Generic Calls - Custom Tests`, () => {
+  const protocol: PolkadotProtocol = new PolkadotProtocol()
+
+  beforeEach(() => {
+    sinon.stub(protocol.options.accountController, 'getTransferableBalance').returns(Promise.resolve(new BigNumber(10000000000000)))
+    sinon
+      .stub(protocol.options.nodeClient, 'getCallMetadata')
+      .withArgs('Balances', 'transfer_keep_alive')
+      .returns(Promise.resolve(transferKeepAlive))
+      .withArgs('Example', 'configure')
+      .returns(Promise.resolve(configure))
+      .withArgs('Staking', 'set_payee')
+      .returns(Promise.resolve(setPayee))
+      .withArgs('Staking', 'set_config')
+      .returns(Promise.resolve(setConfig))
+      .withArgs('Example', 'unknown')
+      .callsFake(() => Promise.reject('Could not find requested item: Example unknown'))
+    sinon.stub(protocol.options.nodeClient, 'getTransferFeeEstimate').returns(Promise.resolve(new BigNumber(1000000000)))
+    sinon.stub(protocol.options.nodeClient, 'getAccountInfo').returns(Promise.resolve({ nonce: { value: new BigNumber(1) } } as any))
+    sinon
+      .stub(protocol.options.nodeClient, 'getFirstBlockHash')
+      .returns(Promise.resolve('0xd51522c9ef7ba4e0990f7a4527de79afcac992ab97abbbc36722f8a27189b170'))
+    sinon
+      .stub(protocol.options.nodeClient, 'getLastBlockHash')
+      .returns(Promise.resolve('0x33a7a745849347ce3008c07268be63d8cefd3ef61de0c7318e88a577fb7d26a9'))
+    sinon.stub(protocol.options.nodeClient, 'getCurrentHeight').returns(Promise.resolve(new BigNumber(3192)))
+    sinon.stub(protocol.options.nodeClient, 'getRuntimeVersion').returns(Promise.resolve({ specVersion: 30, transactionVersion: 1 }))
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should resolve the argument types of the runtime metadata', async () => {
+    expect(SCALETypeDefinition.parse('<T::Lookup as StaticLookup>::Source').kind).to.equal(SCALETypeKind.MULTI_ADDRESS)
+    expect(SCALETypeDefinition.parse('Compact<BalanceOf<T>>').kind).to.equal(SCALETypeKind.COMPACT)
+    expect(SCALETypeDefinition.parse('Box<<T as Config>::Hash>')).to.include({ kind: SCALETypeKind.HASH, bitLength: 256 })
+    expect(SCALETypeDefinition.parse('[u8; 20]')).to.include({ kind: SCALETypeKind.HASH, bitLength: 160 })
+    expect(SCALETypeDefinition.parse('EraIndex')).to.include({ kind: SCALETypeKind.INT, bitLength: 32 })
+    expect(SCALETypeDefinition.parse('Vec<u8>').kind).to.equal(SCALETypeKind.BYTES)
+
+    const payouts: SCALETypeDefinition = SCALETypeDefinition.parse(configure.args[0].type)
+    const encoded: SCALEType = payouts.encode(SubstrateNetwork.POLKADOT, [
+      [recipient, '1000'],
+      [address, 5]
+    ])
+    expect(encoded.encode()).to.equal(
+      // tslint:disable-next-line: prefer-template
+      '08' + // number of elements
+      'e640a49ecf29e4de6bc7ae5fc6762bb54f9ba407d61cbc30e5a74399a41e2979' + // AccountId
+      'e8030000000000000000000000000000' + // Balance
+      '52e1d70619678f95a0806fa5eb818fc938cd5f885a19c3fb242d0b0d0620ee10' + // AccountId
+        '05000000000000000000000000000000' // Balance
+    )
+
+    const decoded = payouts.decode(SubstrateNetwork.POLKADOT, 30, encoded.encode())
+    expect(decoded.bytesDecoded * 2).to.equal(encoded.encode().length)
+    expect(payouts.toHumanReadable(decoded.decoded)).to.deep.equal([
+      [recipient, '1000'],
+      [address, '5']
+    ])
+
+    expect(() => SCALETypeDefinition.parse('RewardDestination<T::AccountId>')).to.throw(
+      'Unsupported argument type RewardDestination<T::AccountId>.'
+    )
+    expect(() => SCALETypeDefinition.parse('u8').encode(SubstrateNetwork.POLKADOT, 256)).to.throw('Invalid value 256 for argument type u8.')
+    expect(() => SCALETypeDefinition.parse('[u8; 32]').encode(SubstrateNetwork.POLKADOT, '0x1234')).to.throw(
+      'Invalid value 0x1234 for argument type [u8; 32].'
+    )
+  })
+
+  it('should prepare a call from its metadata and decode it for the signer', async () => {
+    const { encoded } = await protocol.prepareCall(publicKey, 'Balances', 'transfer_keep_alive', {
+      dest: recipient,
+      value: '1000000000000'
+    })
+
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    expect(unsigned.transaction.type).to.equal(SubstrateTransactionType.GENERIC_CALL)
+    expect(unsigned.call).to.deep.equal(transferKeepAlive)
+    expect(unsigned.transaction.method.encode({ network: SubstrateNetwork.POLKADOT, runtimeVersion: 30 })).to.equal(
+      // tslint:disable-next-line: prefer-template
+      '0503' + // moduleId + callId
+      '00' + // MultiAddress type
+      'e640a49ecf29e4de6bc7ae5fc6762bb54f9ba407d61cbc30e5a74399a41e2979' + // AccountId destination
+        '070010a5d4e8' // value
+    )
+
+    const details: IAirGapTransaction[] = await protocol.getTransactionDetails({ publicKey, transaction: { encoded } })
+    expect(details).to.have.lengthOf(1)
+    expect(details[0]).to.deep.include({ from: [address], fee: '1000000000' })
+    expect(details[0].extra).to.deep.equal({
+      type: 'GENERIC_CALL',
+      verified: false,
+      call: 'Balances.transfer_keep_alive',
+      args: { dest: recipient, value: '1000000000000' }
+    })
+
+    const signed: string = await protocol.signWithPrivateKey(Buffer.from(polkadotProtocolSpec.wallet.privateKey, 'hex'), { encoded })
+    const signedDetails: IAirGapTransaction[] = await protocol.getTransactionDetailsFromSigned({
+      accountIdentifier: publicKey,
+      transaction: signed
+    })
+    expect(signedDetails[0].extra).to.deep.equal(details[0].extra)
+  })
+
+  it('should decode nested argument types into a named tree', async () => {
+    const { encoded } = await protocol.prepareCall(publicKey, 'Example', 'configure', {
+      payouts: [[recipient, 1000]],
+      until: null,
+      memo: '0xcafe'
+    })
+
+    const [details] = await protocol.getTransactionDetails({ publicKey, transaction: { encoded } })
+    expect(details.extra).to.deep.equal({
+      type: 'GENERIC_CALL',
+      verified: false,
+      call: 'Example.configure',
+      args: { payouts: [[recipient, '1000']], until: null, memo: '0xcafe' }
+    })
+  })
+
+  it('should encode and decode the primitive types of the type registry', async () => {
+    const int8: SCALETypeDefinition = SCALETypeDefinition.parse('i8')
+    expect(int8).to.include({ kind: SCALETypeKind.SIGNED_INT, bitLength: 8 })
+    expect(int8.encode(SubstrateNetwork.POLKADOT, -2).encode()).to.equal('fe')
+    expect(int8.toHumanReadable(int8.decode(SubstrateNetwork.POLKADOT, 30, 'fe').decoded)).to.equal('-2')
+    expect(() => int8.encode(SubstrateNetwork.POLKADOT, 128)).to.throw('Invalid value 128 for argument type i8.')
+    expect(() => int8.encode(SubstrateNetwork.POLKADOT, -129)).to.throw('Invalid value -129 for argument type i8.')
+
+    const int256: SCALETypeDefinition = SCALETypeDefinition.parse('i256')
+    const minusOne: string = int256.encode(SubstrateNetwork.POLKADOT, -1).encode()
+    expect(minusOne).to.equal('ff'.repeat(32))
+    expect(int256.toHumanReadable(int256.decode(SubstrateNetwork.POLKADOT, 30, minusOne).decoded)).to.equal('-1')
+
+    const uint256: SCALETypeDefinition = SCALETypeDefinition.parse('u256')
+    expect(uint256.encode(SubstrateNetwork.POLKADOT, 1).encode()).to.equal(`01${'00'.repeat(31)}`)
+
+    const char: SCALETypeDefinition = SCALETypeDefinition.parse('char')
+    expect(char.encode(SubstrateNetwork.POLKADOT, 'é').encode()).to.equal('e9000000')
+    expect(char.toHumanReadable(char.decode(SubstrateNetwork.POLKADOT, 30, 'e9000000').decoded)).to.equal('é')
+    expect(() => char.encode(SubstrateNetwork.POLKADOT, 'ab')).to.throw('Invalid value ab for argument type char.')
+
+    const fixed: SCALETypeDefinition = SCALETypeDefinition.parse('[u16; 2]')
+    expect(fixed.encode(SubstrateNetwork.POLKADOT, [1, 2]).encode()).to.equal('01000200')
+    expect(fixed.toHumanReadable(fixed.decode(SubstrateNetwork.POLKADOT, 30, '01000200').decoded)).to.deep.equal(['1', '2'])
+  })
+
+  it('should prepare and decode a call with an enum argument', async () => {
+    const { encoded } = await protocol.prepareCall(publicKey, 'Staking', 'set_payee', { payee: { Account: recipient } })
+
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    expect(unsigned.transaction.method.encode({ network: SubstrateNetwork.POLKADOT, runtimeVersion: 30 })).to.equal(
+      // tslint:disable-next-line: prefer-template
+      '0707' + // moduleId + callId
+      '03' + // variant index
+        'e640a49ecf29e4de6bc7ae5fc6762bb54f9ba407d61cbc30e5a74399a41e2979' // AccountId
+    )
+
+    const [details] = await protocol.getTransactionDetails({ publicKey, transaction: { encoded } })
+    expect(details.extra).to.deep.equal({
+      type: 'GENERIC_CALL',
+      verified: false,
+      call: 'Staking.set_payee',
+      args: { payee: { Account: recipient } }
+    })
+
+    const staked = await protocol.prepareCall(publicKey, 'Staking', 'set_payee', { payee: 'Staked' })
+    const [stakedDetails] = await protocol.getTransactionDetails({ publicKey, transaction: { encoded: staked.encoded } })
+    expect(stakedDetails.extra.args).to.deep.equal({ payee: 'Staked' })
+
+    await expect(protocol.prepareCall(publicKey, 'Staking', 'set_payee', { payee: { Controller: recipient } })).to.be.rejectedWith(
+      'Invalid value [object Object]'
+    )
+  })
+
+  it('should prepare and decode a call with a struct argument', async () => {
+    const config = {
+      min_bond: '1000',
+      destination: 'Staked',
+      offset: -5,
+      limits: [1, 2, 3],
+      symbol: 'D'
+    }
+    const { encoded } = await protocol.prepareCall(publicKey, 'Staking', 'set_config', { config })
+
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    expect(unsigned.transaction.method.encode({ network: SubstrateNetwork.POLKADOT, runtimeVersion: 30 })).to.equal(
+      // tslint:disable-next-line: prefer-template
+      '0716' + // moduleId + callId
+      'a10f' + // min_bond
+      '00' + // destination
+      'fbffffff' + // offset
+      `010200${'03'.padEnd(64, '0')}` + // limits
+        '44000000' // symbol
+    )
+
+    const [details] = await protocol.getTransactionDetails({ publicKey, transaction: { encoded } })
+    expect(details.extra.args).to.deep.equal({
+      config: { min_bond: '1000', destination: 'Staked', offset: '-5', limits: ['1', '2', '3'], symbol: 'D' }
+    })
+
+    const { offset, ...incomplete } = config
+    await expect(protocol.prepareCall(publicKey, 'Staking', 'set_config', { config: incomplete })).to.be.rejectedWith(
+      'Invalid value [object Object]'
+    )
+  })
+
+  it('should reject invalid calls', async () => {
+    await expect(protocol.prepareCall(publicKey, 'Balances', 'transfer_keep_alive', { dest: recipient })).to.be.rejectedWith(
+      'Balances.transfer_keep_alive, required: dest, value, but value is missing.'
+    )
+    await expect(protocol.prepareCall(publicKey, 'Example', 'unknown', {})).to.be.rejectedWith(
+      'Could not find requested item: Example unknown'
+    )
+
+    const { encoded } = await protocol.prepareCall(publicKey, 'Balances', 'transfer_keep_alive', { dest: recipient, value: 1 })
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    const forged: string = protocol.options.transactionController.encodeDetails([
+      { ...unsigned, call: { ...transferKeepAlive, callIndex: 0 } }
+    ])
+    expect(() => protocol.options.transactionController.decodeDetails(forged)).to.throw(
+      'The encoded call does not match Balances.transfer_keep_alive.'
+    )
+  })
+})
@@ -0,0 +1,143 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { KusamaProtocol, PolkadotProtocol } from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { SubstrateCall } from '../../src/protocols/substrate/helpers/data/metadata/decorator/call/SubstrateCall'
+import { SubstrateSignatureType } from '../../src/protocols/substrate/helpers/data/transaction/SubstrateSignature'
+import { SubstrateTransactionDetails } from '../../src/protocols/substrate/helpers/SubstrateTransactionController'
+import {
+  KusamaProtocolConfig,
+  KusamaProtocolNetwork,
+  KusamaProtocolOptions
+} from '../../src/protocols/substrate/implementations/KusamaProtocolOptions'
+import {
+  PolkadotProtocolConfig,
+  PolkadotProtocolNetwork,
+  PolkadotProtocolOptions
+} from '../../src/protocols/substrate/implementations/PolkadotProtocolOptions'
+
+import { PolkadotTestProtocolSpec } from './specs/polkadot'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+// the development phrase of Substrate, the expected keys are the ones of `subkey inspect --scheme <scheme> //Alice`
+const DEV_PHRASE: string = 'bottom drive obey lake curtain smoke basket hold race lonely fit walk'
+
+const recipient: string = new PolkadotTestProtocolSpec().validAddresses[0]
+const transfer: SubstrateCall = { moduleName: 'Balances', name: 'transfer', moduleIndex: 5, callIndex: 0, args: [] }
+
+const createProtocol = (signatureType: SubstrateSignatureType): PolkadotProtocol =>
+  new PolkadotProtocol(new PolkadotProtocolOptions(new PolkadotProtocolNetwork(), new PolkadotProtocolConfig(signatureType)))
+
+const prepareAndSign = async (protocol: PolkadotProtocol, publicKey: string, privateKey: Buffer): Promise<SubstrateTransactionDetails> => {
+  sinon.stub(protocol.options.accountController, 'getTransferableBalance').returns(Promise.resolve(new BigNumber(10000000000000)))
+  sinon.stub(protocol.options.nodeClient, 'getTransactionMetadata').returns(Promise.resolve(transfer))
+  sinon.stub(protocol.options.nodeClient, 'getTransferFeeEstimate').returns(Promise.resolve(new BigNumber(1000000000)))
+  sinon.stub(protocol.options.nodeClient, 'getAccountInfo').returns(Promise.resolve({ nonce: { value: new BigNumber(1) } } as any))
+  sinon
+    .stub(protocol.options.nodeClient, 'getFirstBlockHash')
+    .returns(Promise.resolve('0xd51522c9ef7ba4e0990f7a4527de79afcac992ab97abbbc36722f8a27189b170'))
+  sinon
+    .stub(protocol.options.nodeClient, 'getLastBlockHash')
+    .returns(Promise.resolve('0x33a7a745849347ce3008c07268be63d8cefd3ef61de0c7318e88a577fb7d26a9'))
+  sinon.stub(protocol.options.nodeClient, 'getCurrentHeight').returns(Promise.resolve(new BigNumber(3192)))
+  sinon.stub(protocol.options.nodeClient, 'getRuntimeVersion').returns(Promise.resolve({ specVersion: 30, transactionVersion: 1 }))
+
+  const { encoded } = await protocol.prepareTransactionFromPublicKey(publicKey, [recipient], ['1000000000'], '0')
+  const signed: string = await protocol.signWithPrivateKey(privateKey, { encoded })
+
+  return protocol.options.transactionController.decodeDetails(signed)[0]
+}
+
+describe(`ICoinProtocol Substrate Key Types - Custom Tests`, () => {
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should derive sr25519 keys from Substrate junction paths', async () => {
+    const protocol: PolkadotProtocol = createProtocol(SubstrateSignatureType.Sr25519)
+
+    expect(await protocol.getPublicKeyFromMnemonic(DEV_PHRASE, '//Alice')).to.equal(
+      'd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d'
+    )
+    expect(await protocol.getPublicKeyFromMnemonic(DEV_PHRASE, '//Alice/soft')).to.not.equal(
+      await protocol.getPublicKeyFromMnemonic(DEV_PHRASE, '//Alice//soft')
+    )
+  })
+
+  it('should derive, sign and verify with ed25519 keys', async () => {
+    const protocol: PolkadotProtocol = createProtocol(SubstrateSignatureType.Ed25519)
+
+    const publicKey: string = await protocol.getPublicKeyFromMnemonic(DEV_PHRASE, '//Alice')
+    const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(DEV_PHRASE, '//Alice')
+    expect(publicKey).to.equal('88dc3417d5058ec4b4503e0c12ea1a0a89be200fe98922423d4334014fa6b0ee')
+    expect((await protocol.getAddressFromPublicKey(publicKey)).getHexPublicKey()).to.equal(publicKey)
+
+    await expect(protocol.getPublicKeyFromMnemonic(DEV_PHRASE, '//Alice/soft')).to.be.rejectedWith(
+      'Soft derivation is not supported for this key type'
+    )
+
+    const signature: string = await protocol.signMessage('message', { publicKey, privateKey })
+    expect(await protocol.verifyMessage('message', signature, publicKey)).to.be.true
+    expect(await protocol.verifyMessage('other message', signature, publicKey)).to.be.false
+
+    const signed: SubstrateTransactionDetails = await prepareAndSign(protocol, publicKey, privateKey)
+    expect(signed.transaction.signature.type.value).to.equal(SubstrateSignatureType.Ed25519)
+    expect(signed.transaction.signature.isSigned).to.be.true
+  })
+
+  it('should derive keys of every type from the standard derivation paths', async () => {
+    for (const signatureType of [SubstrateSignatureType.Sr25519, SubstrateSignatureType.Ed25519, SubstrateSignatureType.Ecdsa]) {
+      const protocols: (PolkadotProtocol | KusamaProtocol)[] = [
+        createProtocol(signatureType),
+        new KusamaProtocol(new KusamaProtocolOptions(new KusamaProtocolNetwork(), new KusamaProtocolConfig(signatureType)))
+      ]
+
+      for (const protocol of protocols) {
+        const publicKey: string = await protocol.getPublicKeyFromMnemonic(DEV_PHRASE, protocol.standardDerivationPath)
+        const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(DEV_PHRASE, protocol.standardDerivationPath)
+
+        const signature: string = await protocol.signMessage('message', { publicKey, privateKey })
+        expect(await protocol.verifyMessage('message', signature, publicKey)).to.be.true
+      }
+    }
+
+    // the soft indexes of BIP32 like paths are hard junctions for the schemes without soft derivation
+    const ed25519: PolkadotProtocol = createProtocol(SubstrateSignatureType.Ed25519)
+    expect(await ed25519.getPublicKeyFromMnemonic(DEV_PHRASE, `m/44'/354'/0'/0/0`)).to.equal(
+      await ed25519.getPublicKeyFromMnemonic(DEV_PHRASE, `m/44'/354'/0'/0'/0'`)
+    )
+    expect(await ed25519.getPublicKeyFromMnemonic(DEV_PHRASE, `m/44'/354'/0'/0/0`)).to.not.equal(
+      await ed25519.getPublicKeyFromMnemonic(DEV_PHRASE, `m/44'/354'/0'/0/1`)
+    )
+  })
+
+  it('should derive, sign and verify with ecdsa keys', async () => {
+    const protocol: PolkadotProtocol = createProtocol(SubstrateSignatureType.Ecdsa)
+
+    const publicKey: string = await protocol.getPublicKeyFromMnemonic(DEV_PHRASE, '//Alice')
+    const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(DEV_PHRASE, '//Alice')
+    expect(publicKey).to.equal('020a1091341fe5664bfa1782d5e04779689068c916b04cb365ec3153755684d9a1')
+    // the account ID is the hash of the public key
+    expect((await protocol.getAddressFromPublicKey(publicKey)).getHexPublicKey()).to.equal(
+      '01e552298e47454041ea31273b4b630c64c104e4514aa3643490b8aaca9cf8ed'
+    )
+
+    const signature: string = await protocol.signMessage('message', { publicKey, privateKey })
+    expect(Buffer.from(signature.slice(2), 'hex')).to.have.lengthOf(65)
+    expect(await protocol.verifyMessage('message', signature, publicKey)).to.be.true
+    expect(await protocol.verifyMessage('other message', signature, publicKey)).to.be.false
+
+    const signed: SubstrateTransactionDetails = await prepareAndSign(protocol, publicKey, privateKey)
+    expect(signed.transaction.signature.type.value).to.equal(SubstrateSignatureType.Ecdsa)
+    expect(signed.transaction.signature.signature.value).to.have.lengthOf(65)
+    expect(signed.transaction.signer.value.asBytes().toString('hex')).to.equal(
+      '01e552298e47454041ea31273b4b630c64c104e4514aa3643490b8aaca9cf8ed'
+    )
+  })
+})
@@ -0,0 +1,274 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { SubstrateAddress } from '../../src/protocols/substrate/helpers/data/account/SubstrateAddress'
+import { MetadataDecorator } from '../../src/protocols/substrate/helpers/data/metadata/decorator/MetadataDecorator'
+import {
+  SubstrateDoubleMapStorageEntry,
+  SubstrateMapStorageEntry,
+  SubstrateNMapStorageEntry,
+  SubstrateStorageEntryHasher
+} from '../../src/protocols/substrate/helpers/data/metadata/decorator/storage/SubstrateStorageEntry'
+import { Metadata } from '../../src/protocols/substrate/helpers/data/metadata/Metadata'
+import { SCALETypeDefinition, SCALETypeKind } from '../../src/protocols/substrate/helpers/data/scale/SCALETypeDefinition'
+import { SCALEAccountId } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEAccountId'
+import { SCALEBytes } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEBytes'
+import { SCALECompactInt } from '../../src/protocols/substrate/helpers/data/scale/type/SCALECompactInt'
+import { SCALEInt } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEInt'
+import { SCALEString } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEString'
+import { SubstrateNodeClient } from '../../src/protocols/substrate/helpers/node/SubstrateNodeClient'
+import { SubstrateNetwork } from '../../src/protocols/substrate/SubstrateNetwork'
+
+import { PolkadotTestProtocolSpec } from './specs/polkadot'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const polkadotProtocolSpec: PolkadotTestProtocolSpec = new PolkadotTestProtocolSpec()
+const address: string = polkadotProtocolSpec.wallet.addresses[0]
+
+const MAGIC_NUMBER: string = '6d657461'
+
+const str = (value: string): string => SCALEString.from(value).encode()
+const compact = (value: number): string => SCALECompactInt.from(value).encode()
+const int = (value: number, bitLength: number): string => SCALEInt.from(value, bitLength).encode()
+const bytes = (hex: string): string => SCALEBytes.from(hex).encode()
+const vec = (...elements: string[]): string => compact(elements.length) + elements.join('')
+const none: string = '00'
+const some = (value: string): string => `01${value}`
+
+// V14 type registry
+const field = (type: number, name?: string): string => (name ? some(str(name)) : none) + compact(type) + none + vec()
+const variant = (name: string, index: number, ...fields: string[]): string => str(name) + vec(...fields) + int(index, 8) + vec()
+const type = (id: number, path: string[], def: string, ...params: [string, number][]): string =>
+  compact(id) +
+  vec(...path.map(str)) +
+  vec(...params.map(([name, param]: [string, number]) => str(name) + some(compact(param)))) +
+  def +
+  vec()
+const composite = (...fields: string[]): string => `00${vec(...fields)}`
+const variants = (...elements: string[]): string => `01${vec(...elements)}`
+const sequence = (element: number): string => `02${compact(element)}`
+const array = (length: number, element: number): string => `03${int(length, 32)}${compact(element)}`
+const primitive = (index: number): string => `05${int(index, 8)}`
+const compactOf = (element: number): string => `06${compact(element)}`
+
+const registry: string = vec(
+  type(0, [], array(32, 1)),
+  type(1, [], primitive(3)), // u8
+  type(2, ['sp_core', 'crypto', 'AccountId32'], composite(field(0))),
+  type(3, [], primitive(7)), // u128
+  type(4, [], compactOf(3)),
+  type(5, ['sp_runtime', 'multiaddress', 'MultiAddress'], variants(variant('Id', 0, field(2))), ['AccountId', 2]),
+  type(
+    6,
+    ['pallet_balances', 'pallet', 'Call'],
+    variants(
+      variant('transfer', 0, field(5, 'dest'), field(4, 'value')),
+      variant('transfer_keep_alive', 3, field(5, 'dest'), field(4, 'value'))
+    )
+  ),
+  type(7, [], primitive(6)), // u64
+  type(8, ['sp_arithmetic', 'per_things', 'Perbill'], composite(field(9))),
+  type(9, [], primitive(5)), // u32
+  type(10, ['Option'], variants(variant('None', 0), variant('Some', 1, field(9))), ['T', 9]),
+  type(
+    11,
+    ['pallet_staking', 'pallet', 'pallet', 'Call'],
+    variants(
+      variant('bond_extra', 1, field(4, 'max_additional')),
+      variant('set_payee', 7, field(12, 'payee')),
+      variant('validate', 4, field(8, 'commission'), field(10, 'until')),
+      variant('set_config', 22, field(13, 'config'))
+    )
+  ),
+  type(12, ['pallet_staking', 'RewardDestination'], variants(variant('Staked', 0), variant('Account', 3, field(2))), ['AccountId', 2]),
+  type(13, ['pallet_staking', 'Config'], composite(field(9, 'min_bond'), field(12, 'destination'), field(14, 'offset'))),
+  type(14, [], primitive(11)), // i32
+  // the calls of the runtime contain the calls of the utility pallet, which contain the calls of the runtime again
+  type(15, ['pallet_utility', 'pallet', 'Call'], variants(variant('batch', 0, field(16, 'calls')))),
+  type(16, [], sequence(17)),
+  type(17, ['polkadot_runtime', 'Call'], variants(variant('Staking', 7, field(11)), variant('Utility', 26, field(15))))
+)
+
+const storageEntry = (name: string, entryType: string): string => str(name) + int(1, 8) + entryType + bytes('00') + vec()
+const constant = (name: string, constantType: number, value: string): string => str(name) + compact(constantType) + bytes(value) + vec()
+const pallet = (name: string, index: number, storage: string, calls: string, constants: string[]): string =>
+  str(name) + storage + calls + none + vec(...constants) + none + int(index, 8)
+
+const metadataV14: string =
+  MAGIC_NUMBER +
+  int(14, 8) +
+  registry +
+  vec(
+    pallet('System', 0, some(str('System') + vec(storageEntry('Account', `01${vec('02')}${compact(2)}${compact(3)}`))), none, []),
+    pallet('Babe', 1, none, none, [constant('EpochDuration', 7, int(2400, 64)), constant('ExpectedBlockTime', 7, int(6000, 64))]),
+    pallet('Balances', 5, none, some(compact(6)), [constant('ExistentialDeposit', 3, int(10000000000, 128))]),
+    pallet(
+      'Staking',
+      7,
+      some(str('Staking') + vec(storageEntry('ErasStakers', `01${vec('05', '05')}${compact(3)}${compact(3)}`))),
+      some(compact(11)),
+      [constant('SessionsPerEra', 9, int(6, 32))]
+    ),
+    pallet('Utility', 26, none, some(compact(15)), [])
+  ) +
+  compact(0) + // extrinsic type
+  int(4, 8) + // extrinsic version
+  vec() + // signed extensions
+  compact(0) // runtime type
+
+const metadataV13: string =
+  MAGIC_NUMBER +
+  int(13, 8) +
+  vec(
+    str('Staking') +
+      some(
+        str('Staking') +
+          vec(
+            storageEntry('Ledger', `00${str('StakingLedger')}`),
+            storageEntry(
+              'ErasStakers',
+              `03${vec(str('EraIndex'), str('AccountId'), str('AccountId'))}${vec('05', '05', '02')}${str('u128')}`
+            )
+          )
+      ) +
+      some(vec(str('bond_extra') + vec(str('max_additional') + str('Compact<BalanceOf<T>>')) + vec())) +
+      none +
+      vec() +
+      vec() +
+      int(7, 8)
+  ) +
+  int(4, 8) + // extrinsic version
+  vec() // signed extensions
+
+describe(`ICoinProtocol Substrate Metadata - Custom Tests`, () => {
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should decorate V14 metadata from the type registry', async () => {
+    const metadata: MetadataDecorator = Metadata.decode(SubstrateNetwork.POLKADOT, 9110, metadataV14).decorate()
+
+    expect(metadata.call('Balances', 'transfer_keep_alive')).to.deep.equal({
+      moduleName: 'Balances',
+      name: 'transfer_keep_alive',
+      moduleIndex: 5,
+      callIndex: 3,
+      args: [
+        { name: 'dest', type: 'LookupSource' },
+        { name: 'value', type: 'Compact<u128>' }
+      ]
+    })
+    expect(metadata.call('Staking', 'validate')?.args).to.deep.equal([
+      { name: 'commission', type: 'u32' },
+      { name: 'until', type: 'Option<u32>' }
+    ])
+    expect(SCALETypeDefinition.parse('LookupSource').kind).to.equal(SCALETypeKind.MULTI_ADDRESS)
+
+    // the call enum of the runtime contains itself, it cannot be expanded
+    expect(metadata.call('Utility', 'batch')?.args).to.deep.equal([{ name: 'calls', type: 'Vec<Call>' }])
+    expect(() => SCALETypeDefinition.parse('Vec<Call>')).to.throw('Unsupported argument type Vec<Call>.')
+
+    expect(metadata.storageEntry('System', 'Account')).to.be.instanceOf(SubstrateMapStorageEntry)
+    expect(metadata.storageEntry('System', 'Account')).to.include({ hasher: SubstrateStorageEntryHasher.BLAKE2_128_CONCAT })
+    expect(metadata.storageEntry('Staking', 'ErasStakers')).to.be.instanceOf(SubstrateDoubleMapStorageEntry)
+    expect(metadata.storageEntry('Staking', 'ErasStakers')).to.include({
+      firstHasher: SubstrateStorageEntryHasher.TWOX64_CONCAT,
+      secondHasher: SubstrateStorageEntryHasher.TWOX64_CONCAT
+    })
+
+    expect(metadata.constant('Balances', 'ExistentialDeposit')).to.deep.include({ type: 'u128' })
+    expect(metadata.constant('Babe', 'ExpectedBlockTime')?.value.toString('hex')).to.equal(int(6000, 64))
+  })
+
+  it('should resolve enum and struct arguments through the V14 type registry', async () => {
+    const metadata: MetadataDecorator = Metadata.decode(SubstrateNetwork.POLKADOT, 9110, metadataV14).decorate()
+    const rewardDestination: string = '{"_enum":[[0,"Staked",null],[3,"Account","AccountId"]]}'
+
+    expect(metadata.call('Staking', 'set_payee')).to.deep.include({
+      moduleIndex: 7,
+      callIndex: 7,
+      args: [{ name: 'payee', type: rewardDestination }]
+    })
+    expect(metadata.call('Staking', 'set_config')?.args).to.deep.equal([
+      {
+        name: 'config',
+        type: JSON.stringify({
+          _struct: [
+            ['min_bond', 'u32'],
+            ['destination', rewardDestination],
+            ['offset', 'i32']
+          ]
+        })
+      }
+    ])
+
+    const payee: SCALETypeDefinition = SCALETypeDefinition.parse(rewardDestination)
+    expect(payee.kind).to.equal(SCALETypeKind.ENUM)
+    expect(payee.encode(SubstrateNetwork.POLKADOT, 'Staked').encode()).to.equal('00')
+    expect(payee.encode(SubstrateNetwork.POLKADOT, { Account: address }).encode()).to.equal(
+      `03${SCALEAccountId.from(address, SubstrateNetwork.POLKADOT).encode()}`
+    )
+    expect(() => payee.encode(SubstrateNetwork.POLKADOT, 'Account')).to.throw('Invalid value Account')
+    expect(() => payee.decode(SubstrateNetwork.POLKADOT, 9110, '01')).to.throw('Unknown variant 1')
+  })
+
+  it('should decorate V13 metadata with N-map storage entries', async () => {
+    const metadata: MetadataDecorator = Metadata.decode(SubstrateNetwork.POLKADOT, 9050, metadataV13).decorate()
+
+    expect(metadata.call('Staking', 'bond_extra')).to.deep.include({ moduleIndex: 7, callIndex: 0 })
+
+    const erasStakers = metadata.storageEntry('Staking', 'ErasStakers')
+    expect(erasStakers).to.be.instanceOf(SubstrateNMapStorageEntry)
+    expect((erasStakers as SubstrateNMapStorageEntry).hashers).to.deep.equal([
+      SubstrateStorageEntryHasher.TWOX64_CONCAT,
+      SubstrateStorageEntryHasher.TWOX64_CONCAT,
+      SubstrateStorageEntryHasher.BLAKE2_128_CONCAT
+    ])
+
+    const accountId: SCALEAccountId = SCALEAccountId.from(address, SubstrateNetwork.POLKADOT)
+    const hash: string = await erasStakers!.hash(SCALEInt.from(1, 32), accountId, accountId)
+    const doubleMapHash: string = await new SubstrateDoubleMapStorageEntry(
+      'Staking',
+      'ErasStakers',
+      SubstrateStorageEntryHasher.TWOX64_CONCAT,
+      SubstrateStorageEntryHasher.TWOX64_CONCAT
+    ).hash(SCALEInt.from(1, 32), accountId)
+    expect(hash.startsWith(doubleMapHash)).to.be.true
+    expect(hash.endsWith(accountId.encode())).to.be.true
+
+    expect(() => Metadata.decode(SubstrateNetwork.POLKADOT, 9050, `${MAGIC_NUMBER}0a`)).to.throw('metadata version 10 is not supported')
+  })
+
+  it('should query a node serving V14 metadata', async () => {
+    const nodeClient: SubstrateNodeClient = new SubstrateNodeClient(SubstrateNetwork.POLKADOT, 'https://polkadot.example')
+    const storageKeys: string[] = []
+
+    sinon.stub(nodeClient, 'getRuntimeVersion').returns(Promise.resolve({ specVersion: 9110, transactionVersion: 8 }))
+    sinon.stub(nodeClient as any, 'send').callsFake(async (module: string, method: string, params: string[] = []) => {
+      if (method === 'getMetadata') {
+        return `0x${metadataV14}`
+      }
+      if (method === 'getStorage') {
+        storageKeys.push(params[0])
+      }
+
+      return null
+    })
+
+    expect((await nodeClient.getExistentialDeposit()).toString()).to.equal('10000000000')
+    expect(await nodeClient.getCallMetadata('Balances', 'transfer')).to.deep.include({ moduleIndex: 5, callIndex: 0 })
+    await expect(nodeClient.getCallMetadata('Balances', 'transfer_all')).to.be.rejectedWith(
+      'Could not find requested item: Balances transfer_all'
+    )
+
+    expect(await nodeClient.getAccountInfo(SubstrateAddress.from(address, SubstrateNetwork.POLKADOT))).to.be.null
+    expect(storageKeys).to.have.lengthOf(1)
+    expect(storageKeys[0]).to.match(/^26aa394eea5630e07c48ae0c9558cef7b99d880ec681799c0cf30e8886371da9[0-9a-f]{32}/)
+    expect(storageKeys[0].endsWith(SCALEAccountId.from(address, SubstrateNetwork.POLKADOT).encode())).to.be.true
+  })
+})
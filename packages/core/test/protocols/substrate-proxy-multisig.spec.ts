@@ -0,0 +1,201 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { IAirGapTransaction, PolkadotProtocol } from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { SubstrateAddress } from '../../src/protocols/substrate/helpers/data/account/SubstrateAddress'
+import { SubstrateCall } from '../../src/protocols/substrate/helpers/data/metadata/decorator/call/SubstrateCall'
+import { SubstrateMultisig } from '../../src/protocols/substrate/helpers/data/multisig/SubstrateMultisig'
+import { SubstrateProxyType } from '../../src/protocols/substrate/helpers/data/proxy/SubstrateProxyType'
+import { SCALEAccountId } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEAccountId'
+import { SCALEArray } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEArray'
+import { SCALEInt } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEInt'
+import { SubstrateTransactionType } from '../../src/protocols/substrate/helpers/data/transaction/SubstrateTransaction'
+import { SubstrateNetwork } from '../../src/protocols/substrate/SubstrateNetwork'
+import { blake2bAsHex } from '../../src/utils/blake2b'
+
+import { PolkadotTestProtocolSpec } from './specs/polkadot'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const polkadotProtocolSpec: PolkadotTestProtocolSpec = new PolkadotTestProtocolSpec()
+const publicKey: string = polkadotProtocolSpec.wallet.publicKey
+const address: string = polkadotProtocolSpec.wallet.addresses[0]
+const recipient: string = polkadotProtocolSpec.validAddresses[0]
+
+// the well-known development accounts `//Alice`, `//Bob` and `//Charlie`
+const alice: string = 'd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d'
+const bob: string = '8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48'
+const charlie: string = '90b5ab205c6974c9ea841be688864633dc9ca8a357843eeacf2314649965fe22'
+
+const calls: Map<SubstrateTransactionType, SubstrateCall> = new Map([
+  [SubstrateTransactionType.NOMINATE, { moduleName: 'Staking', name: 'nominate', moduleIndex: 7, callIndex: 5, args: [] }],
+  [SubstrateTransactionType.BOND, { moduleName: 'Staking', name: 'bond', moduleIndex: 7, callIndex: 0, args: [] }],
+  [SubstrateTransactionType.SUBMIT_BATCH_ALL, { moduleName: 'Utility', name: 'batch_all', moduleIndex: 26, callIndex: 2, args: [] }],
+  [SubstrateTransactionType.ADD_PROXY, { moduleName: 'Proxy', name: 'add_proxy', moduleIndex: 29, callIndex: 1, args: [] }],
+  [SubstrateTransactionType.PROXY, { moduleName: 'Proxy', name: 'proxy', moduleIndex: 29, callIndex: 0, args: [] }],
+  [SubstrateTransactionType.AS_MULTI, { moduleName: 'Multisig', name: 'as_multi', moduleIndex: 30, callIndex: 1, args: [] }],
+  [SubstrateTransactionType.APPROVE_AS_MULTI, { moduleName: 'Multisig', name: 'approve_as_multi', moduleIndex: 30, callIndex: 2, args: [] }]
+])
+
+const createMultisig = (height: number, index: number, ...approvals: string[]): SubstrateMultisig =>
+  SubstrateMultisig.decode(
+    SubstrateNetwork.POLKADOT,
+    30,
+    SCALEInt.from(height, 32).encode() +
+      SCALEInt.from(index, 32).encode() +
+      SCALEInt.from(200000000000, 128).encode() +
+      approvals[0] +
+      SCALEArray.from(approvals.map((approval: string) => SCALEAccountId.from(approval, SubstrateNetwork.POLKADOT))).encode()
+  )
+
+describe(`ICoinProtocol Substrate Proxy and Multisig - Custom Tests`, () => {
+  const protocol: PolkadotProtocol = new PolkadotProtocol()
+
+  beforeEach(() => {
+    sinon.stub(protocol.options.accountController, 'getTransferableBalance').returns(Promise.resolve(new BigNumber(10000000000000)))
+    sinon
+      .stub(protocol.options.nodeClient, 'getTransactionMetadata')
+      .callsFake((type: SubstrateTransactionType) => Promise.resolve(calls.get(type)!))
+    sinon.stub(protocol.options.nodeClient, 'getTransferFeeEstimate').returns(Promise.resolve(new BigNumber(1000000000)))
+    sinon.stub(protocol.options.nodeClient, 'getAccountInfo').returns(Promise.resolve({ nonce: { value: new BigNumber(1) } } as any))
+    sinon
+      .stub(protocol.options.nodeClient, 'getFirstBlockHash')
+      .returns(Promise.resolve('0xd51522c9ef7ba4e0990f7a4527de79afcac992ab97abbbc36722f8a27189b170'))
+    sinon
+      .stub(protocol.options.nodeClient, 'getLastBlockHash')
+      .returns(Promise.resolve('0x33a7a745849347ce3008c07268be63d8cefd3ef61de0c7318e88a577fb7d26a9'))
+    sinon.stub(protocol.options.nodeClient, 'getCurrentHeight').returns(Promise.resolve(new BigNumber(3192)))
+    sinon.stub(protocol.options.nodeClient, 'getRuntimeVersion').returns(Promise.resolve({ specVersion: 30, transactionVersion: 1 }))
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should add proxies and wrap calls in proxy calls', async () => {
+    const addProxy = await protocol.prepareAddProxy(publicKey, alice, SubstrateProxyType.STAKING)
+    const [addProxyDetails] = await protocol.getTransactionDetails({ publicKey, transaction: addProxy })
+    expect(addProxyDetails).to.deep.include({
+      to: [SubstrateAddress.from(alice, SubstrateNetwork.POLKADOT).getValue()],
+      extra: { type: 'ADD_PROXY', proxyType: 'STAKING', delay: '0' }
+    })
+
+    const { encoded } = await protocol.prepareProxyCall(publicKey, alice, SubstrateTransactionType.NOMINATE, { targets: [recipient] })
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    expect(unsigned.transaction.type).to.equal(SubstrateTransactionType.PROXY)
+    expect(unsigned.transaction.method.encode({ network: SubstrateNetwork.POLKADOT, runtimeVersion: 30 })).to.equal(
+      // tslint:disable-next-line: prefer-template
+      '1d00' + // moduleId + callId
+      alice + // real
+      '00' + // force proxy type
+      '0705' + // nested moduleId + callId
+      '04' + // number of targets
+      '00' + // MultiAddress type
+        'e640a49ecf29e4de6bc7ae5fc6762bb54f9ba407d61cbc30e5a74399a41e2979' // AccountId target
+    )
+
+    const details: IAirGapTransaction[] = await protocol.getTransactionDetails({ publicKey, transaction: { encoded } })
+    expect(details).to.have.lengthOf(1)
+    expect(details[0]).to.deep.include({
+      from: [SubstrateAddress.from(alice, SubstrateNetwork.POLKADOT).getValue()],
+      to: [recipient],
+      extra: { type: 'PROXY', call: 'NOMINATE' }
+    })
+
+    const signed: string = await protocol.signWithPrivateKey(Buffer.from(polkadotProtocolSpec.wallet.privateKey, 'hex'), { encoded })
+    const signedDetails: IAirGapTransaction[] = await protocol.getTransactionDetailsFromSigned({
+      accountIdentifier: publicKey,
+      transaction: signed
+    })
+    expect(signedDetails[0].extra).to.deep.equal(details[0].extra)
+  })
+
+  it('should derive multisig addresses regardless of the order of the signatories', async () => {
+    const multisig: string = await protocol.getMultisigAddress([alice, bob, charlie], 2)
+
+    expect(await protocol.getMultisigAddress([charlie, alice, bob], 2)).to.equal(multisig)
+    expect(await protocol.getMultisigAddress([alice, bob, charlie], 3)).to.not.equal(multisig)
+    // as derived by polkadot.js
+    expect(SubstrateAddress.from(multisig, SubstrateNetwork.POLKADOT).getHexPublicKey()).to.equal(
+      SubstrateAddress.from('5DjYJStmdZ2rcqXbXGX7TW85JsrW6uG4y9MUcLq2BoPMpRA7', SubstrateNetwork.POLKADOT).getHexPublicKey()
+    )
+  })
+
+  it('should approve multisig operations and execute them with the last approval', async () => {
+    const getPendingMultisig = sinon.stub(protocol.options.accountController, 'getPendingMultisig').returns(Promise.resolve(null))
+    sinon.stub(protocol.options.nodeClient, 'getTransactionWeight').returns(Promise.resolve(new BigNumber(190000000)))
+
+    const args = { targets: [recipient] }
+    const nominate = await protocol.options.transactionController.createTransactionMethod(SubstrateTransactionType.NOMINATE, args)
+    const callHash: string = blake2bAsHex(nominate.encode({ network: SubstrateNetwork.POLKADOT, runtimeVersion: 30 }), 256)
+
+    // the first approval opens the operation
+    const approve = await protocol.prepareMultisigCall(publicKey, [bob, alice], 3, SubstrateTransactionType.NOMINATE, args)
+    const [approveDetails] = await protocol.getTransactionDetails({ publicKey, transaction: approve })
+    expect(approveDetails.extra).to.deep.equal({
+      type: 'APPROVE_AS_MULTI',
+      callHash,
+      threshold: 3,
+      otherSignatories: [bob, alice].map((signatory: string) => SubstrateAddress.from(signatory, SubstrateNetwork.POLKADOT).getValue()),
+      timepoint: null
+    })
+    expect((getPendingMultisig.firstCall.args[0] as SubstrateAddress).getValue()).to.equal(
+      await protocol.getMultisigAddress([publicKey, alice, bob], 3)
+    )
+    expect(getPendingMultisig.firstCall.args[1]).to.equal(callHash)
+
+    // the last approval refers to the timepoint of the first one and executes the call
+    getPendingMultisig.returns(Promise.resolve(createMultisig(3100, 2, alice, bob)))
+    const { encoded } = await protocol.prepareMultisigCall(publicKey, [bob, alice], 3, SubstrateTransactionType.NOMINATE, args)
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    expect(unsigned.transaction.type).to.equal(SubstrateTransactionType.AS_MULTI)
+    expect(unsigned.transaction.method.encode({ network: SubstrateNetwork.POLKADOT, runtimeVersion: 30 })).to.equal(
+      // tslint:disable-next-line: prefer-template
+      '1e01' + // moduleId + callId
+      '0300' + // threshold
+      '08' + // number of other signatories
+      bob + // signatories are sorted
+      alice +
+      '01' + // timepoint is present
+      '1c0c0000' + // timepoint height
+      '02000000' + // timepoint index
+      '90' + // length of the call
+      nominate.encode({ network: SubstrateNetwork.POLKADOT, runtimeVersion: 30 }) +
+      '00' + // don't store the call
+        '802b530b00000000' // max weight
+    )
+
+    const [details] = await protocol.getTransactionDetails({ publicKey, transaction: { encoded } })
+    expect(details).to.deep.include({ from: [address], to: [recipient] })
+    expect(details.extra).to.deep.include({ type: 'AS_MULTI', call: 'NOMINATE', timepoint: { height: 3100, index: 2 } })
+
+    getPendingMultisig.returns(Promise.resolve(createMultisig(3100, 2, publicKey)))
+    await expect(protocol.prepareMultisigCall(publicKey, [bob, alice], 3, SubstrateTransactionType.NOMINATE, args)).to.be.rejectedWith(
+      'The multisig operation has already been approved by this account.'
+    )
+    await expect(protocol.prepareMultisigCall(publicKey, [bob], 3, SubstrateTransactionType.NOMINATE, args)).to.be.rejectedWith(
+      'Invalid multisig threshold 3.'
+    )
+  })
+
+  it('should batch calls atomically', async () => {
+    const { encoded } = await protocol.prepareBatchAll(publicKey, [
+      [SubstrateTransactionType.BOND, { controller: address, value: new BigNumber(1000000000000), payee: 0 }],
+      [SubstrateTransactionType.NOMINATE, { targets: [recipient] }]
+    ])
+
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    expect(unsigned.transaction.type).to.equal(SubstrateTransactionType.SUBMIT_BATCH_ALL)
+    expect(unsigned.transaction.method.encode({ network: SubstrateNetwork.POLKADOT, runtimeVersion: 30 }).startsWith('1a0208')).to.be.true
+
+    const details: IAirGapTransaction[] = await protocol.getTransactionDetails({ publicKey, transaction: { encoded } })
+    expect(details).to.have.lengthOf(2)
+    expect(details[0]).to.deep.include({ to: [address], amount: '1000000000000' })
+    expect(details[1]).to.deep.include({ to: [recipient] })
+  })
+})
@@ -0,0 +1,286 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { PolkadotProtocol } from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { SubstrateAddress } from '../../src/protocols/substrate/helpers/data/account/SubstrateAddress'
+import { SubstrateCall } from '../../src/protocols/substrate/helpers/data/metadata/decorator/call/SubstrateCall'
+import { SCALEAccountId } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEAccountId'
+import { SCALEArray } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEArray'
+import { SCALECompactInt } from '../../src/protocols/substrate/helpers/data/scale/type/SCALECompactInt'
+import { SCALEInt } from '../../src/protocols/substrate/helpers/data/scale/type/SCALEInt'
+import { SCALETuple } from '../../src/protocols/substrate/helpers/data/scale/type/SCALETuple'
+import { SubstrateActiveEraInfo } from '../../src/protocols/substrate/helpers/data/staking/SubstrateActiveEraInfo'
+import { SubstrateEraRewardPoints } from '../../src/protocols/substrate/helpers/data/staking/SubstrateEraRewardPoints'
+import { SubstrateExposure } from '../../src/protocols/substrate/helpers/data/staking/SubstrateExposure'
+import { SubstrateNominations } from '../../src/protocols/substrate/helpers/data/staking/SubstrateNominations'
+import {
+  SubstrateNominatorEraReward,
+  SubstratePendingPayout
+} from '../../src/protocols/substrate/helpers/data/staking/SubstrateNominatorDetails'
+import { SubstrateStakingLedger } from '../../src/protocols/substrate/helpers/data/staking/SubstrateStakingLedger'
+import { SubstrateValidatorPrefs } from '../../src/protocols/substrate/helpers/data/staking/SubstrateValidatorPrefs'
+import { SubstrateTransactionType } from '../../src/protocols/substrate/helpers/data/transaction/SubstrateTransaction'
+import { SubstrateNetwork } from '../../src/protocols/substrate/SubstrateNetwork'
+
+import { PolkadotTestProtocolSpec } from './specs/polkadot'
+
+// use chai-as-promised plugin
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const network: SubstrateNetwork = SubstrateNetwork.POLKADOT
+
+const polkadotProtocolSpec: PolkadotTestProtocolSpec = new PolkadotTestProtocolSpec()
+const publicKey: string = polkadotProtocolSpec.wallet.publicKey
+const nominator: SubstrateAddress = SubstrateAddress.from(publicKey, network)
+
+// the well-known development accounts `//Alice`, `//Bob` and `//Charlie`
+const alice: SubstrateAddress = SubstrateAddress.from('d43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d', network)
+const bob: SubstrateAddress = SubstrateAddress.from('8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48', network)
+const charlie: SubstrateAddress = SubstrateAddress.from('90b5ab205c6974c9ea841be688864633dc9ca8a357843eeacf2314649965fe22', network)
+
+const calls: Map<SubstrateTransactionType, SubstrateCall> = new Map([
+  [SubstrateTransactionType.COLLECT_PAYOUT, { moduleName: 'Staking', name: 'payout_stakers', moduleIndex: 7, callIndex: 18, args: [] }],
+  [SubstrateTransactionType.SUBMIT_BATCH, { moduleName: 'Utility', name: 'batch', moduleIndex: 26, callIndex: 0, args: [] }]
+])
+
+const createExposure = (own: number, others: [SubstrateAddress, number][]): SubstrateExposure =>
+  SubstrateExposure.decode(
+    network,
+    30,
+    SCALECompactInt.from(others.reduce((total: number, [_, value]: [SubstrateAddress, number]) => total + value, own)).encode() +
+      SCALECompactInt.from(own).encode() +
+      SCALEArray.from(
+        others.map(([address, value]: [SubstrateAddress, number]) =>
+          SCALETuple.from(SCALEAccountId.from(address, network), SCALECompactInt.from(value))
+        )
+      ).encode()
+  )
+
+const createLedger = (stash: SubstrateAddress, claimedRewards: number[]): SubstrateStakingLedger =>
+  SubstrateStakingLedger.decode(
+    network,
+    30,
+    SCALEAccountId.from(stash, network).encode() +
+      SCALECompactInt.from(0).encode() +
+      SCALECompactInt.from(0).encode() +
+      SCALEArray.from([]).encode() +
+      SCALEArray.from(claimedRewards.map((era: number) => SCALEInt.from(era, 32))).encode()
+  )
+
+describe(`ICoinProtocol Substrate Staking Rewards - Custom Tests`, () => {
+  const protocol: PolkadotProtocol = new PolkadotProtocol()
+
+  beforeEach(() => {
+    const nodeClient = protocol.options.nodeClient
+
+    sinon
+      .stub(nodeClient, 'getNominations')
+      .returns(
+        Promise.resolve(
+          SubstrateNominations.decode(
+            network,
+            30,
+            `${SCALEArray.from([SCALEAccountId.from(alice, network), SCALEAccountId.from(bob, network)]).encode()}${SCALEInt.from(
+              1,
+              32
+            ).encode()}00`
+          )
+        )
+      )
+    sinon
+      .stub(nodeClient, 'getActiveEraInfo')
+      .returns(Promise.resolve(SubstrateActiveEraInfo.decode(network, 30, `${SCALEInt.from(10, 32).encode()}00`)))
+    sinon.stub(nodeClient, 'getHistoryDepth').returns(Promise.resolve(3))
+    sinon.stub(nodeClient, 'getExpectedEraDuration').returns(Promise.resolve(new BigNumber(24 * 60 * 60 * 1000)))
+
+    // the validators are their own controllers, Alice has already been paid out for era 7
+    sinon.stub(nodeClient, 'getBonded').callsFake((address: SubstrateAddress) => Promise.resolve(address))
+    sinon
+      .stub(nodeClient, 'getStakingLedger')
+      .callsFake((address: SubstrateAddress) => Promise.resolve(createLedger(address, address.compare(alice) === 0 ? [7] : [])))
+
+    sinon.stub(nodeClient, 'getValidatorReward').returns(Promise.resolve(new BigNumber(100000)))
+    sinon
+      .stub(nodeClient, 'getRewardPoints')
+      .returns(
+        Promise.resolve(
+          SubstrateEraRewardPoints.decode(
+            network,
+            30,
+            SCALEInt.from(100, 32).encode() +
+              SCALEArray.from([
+                SCALETuple.from(SCALEAccountId.from(alice, network), SCALEInt.from(50, 32)),
+                SCALETuple.from(SCALEAccountId.from(bob, network), SCALEInt.from(25, 32)),
+                SCALETuple.from(SCALEAccountId.from(charlie, network), SCALEInt.from(25, 32))
+              ]).encode()
+          )
+        )
+      )
+    sinon
+      .stub(nodeClient, 'getValidatorPrefs')
+      .callsFake((_eraIndex: number, address: SubstrateAddress) =>
+        Promise.resolve(
+          SubstrateValidatorPrefs.decode(network, 30, SCALECompactInt.from(address.compare(alice) === 0 ? 100000000 : 0).encode())
+        )
+      )
+    // the nominator was not exposed to Bob in era 9 and only to Charlie, whom it no longer nominates, in era 8
+    sinon.stub(nodeClient, 'getStakersClipped').callsFake((eraIndex: number, address: SubstrateAddress) =>
+      Promise.resolve(
+        address.compare(alice) === 0
+          ? createExposure(50000000, [
+              [nominator, 25000000],
+              [charlie, 25000000]
+            ])
+          : address.compare(bob) === 0
+          ? createExposure(100000000, eraIndex === 9 ? [] : [[nominator, 100000000]])
+          : createExposure(100000000, eraIndex === 8 ? [[nominator, 100000000]] : [])
+      )
+    )
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should calculate the rewards of a nominator in each era', async () => {
+    const history: SubstrateNominatorEraReward[] = await protocol.getNominatorRewardHistory(nominator.getValue(), undefined, [
+      charlie.getValue()
+    ])
+
+    expect(history).to.deep.equal([
+      {
+        eraIndex: 7,
+        amount: '23750',
+        validators: [
+          { validator: alice.getValue(), amount: '11250', claimed: true },
+          { validator: bob.getValue(), amount: '12500', claimed: false }
+        ]
+      },
+      {
+        eraIndex: 8,
+        amount: '36250',
+        validators: [
+          { validator: alice.getValue(), amount: '11250', claimed: false },
+          { validator: bob.getValue(), amount: '12500', claimed: false },
+          { validator: charlie.getValue(), amount: '12500', claimed: false }
+        ]
+      },
+      {
+        eraIndex: 9,
+        amount: '11250',
+        validators: [{ validator: alice.getValue(), amount: '11250', claimed: false }]
+      }
+    ])
+  })
+
+  it('should only look up the current and the given past targets of the nominator', async () => {
+    const history: SubstrateNominatorEraReward[] = await protocol.getNominatorRewardHistory(nominator.getValue())
+
+    expect(history.map((eraReward: SubstrateNominatorEraReward) => eraReward.amount)).to.deep.equal(['23750', '23750', '11250'])
+    expect(
+      (protocol.options.nodeClient.getStakersClipped as sinon.SinonStub)
+        .getCalls()
+        .some((call: sinon.SinonSpyCall) => (call.args[1] as SubstrateAddress).compare(charlie) === 0)
+    ).to.be.false
+    expect((protocol.options.nodeClient.getRewardPoints as sinon.SinonStub).callCount).to.equal(3)
+  })
+
+  it('should find the unclaimed payouts', async () => {
+    const pendingPayouts: SubstratePendingPayout[] = await protocol.getPendingPayouts(nominator.getValue(), [charlie.getValue()])
+
+    expect(pendingPayouts).to.deep.equal([
+      { validator: bob.getValue(), eraIndex: 7, amount: '12500' },
+      { validator: alice.getValue(), eraIndex: 8, amount: '11250' },
+      { validator: bob.getValue(), eraIndex: 8, amount: '12500' },
+      { validator: charlie.getValue(), eraIndex: 8, amount: '12500' },
+      { validator: alice.getValue(), eraIndex: 9, amount: '11250' }
+    ])
+  })
+
+  it('should estimate the expected APY of a validator', async () => {
+    const expectedApy: string = await protocol.getValidatorExpectedApy(alice.getValue())
+
+    // 0.045% per era, restaked daily
+    expect(new BigNumber(expectedApy).toNumber()).to.be.closeTo(0.17846536, 0.00000001)
+  })
+
+  it('should collect all pending payouts in a batch', async () => {
+    sinon.stub(protocol.options.accountController, 'getTransferableBalance').returns(Promise.resolve(new BigNumber(10000000000000)))
+    sinon
+      .stub(protocol.options.nodeClient, 'getTransactionMetadata')
+      .callsFake((type: SubstrateTransactionType) => Promise.resolve(calls.get(type)!))
+    sinon.stub(protocol.options.nodeClient, 'getTransferFeeEstimate').returns(Promise.resolve(new BigNumber(1000000000)))
+    sinon.stub(protocol.options.nodeClient, 'getAccountInfo').returns(Promise.resolve({ nonce: { value: new BigNumber(1) } } as any))
+    sinon
+      .stub(protocol.options.nodeClient, 'getFirstBlockHash')
+      .returns(Promise.resolve('0xd51522c9ef7ba4e0990f7a4527de79afcac992ab97abbbc36722f8a27189b170'))
+    sinon
+      .stub(protocol.options.nodeClient, 'getLastBlockHash')
+      .returns(Promise.resolve('0x33a7a745849347ce3008c07268be63d8cefd3ef61de0c7318e88a577fb7d26a9'))
+    sinon.stub(protocol.options.nodeClient, 'getCurrentHeight').returns(Promise.resolve(new BigNumber(3192)))
+    sinon.stub(protocol.options.nodeClient, 'getRuntimeVersion').returns(Promise.resolve({ specVersion: 30, transactionVersion: 1 }))
+
+    const { encoded } = await protocol.prepareCollectPayouts(publicKey, 0, [charlie.getValue()])
+
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    expect(unsigned.transaction.type).to.equal(SubstrateTransactionType.SUBMIT_BATCH)
+    expect(unsigned.transaction.method.encode({ network, runtimeVersion: 30 })).to.equal(
+      // tslint:disable-next-line: prefer-template
+      '1a00' + // moduleId + callId
+      '14' + // number of calls
+      '0712' + // nested moduleId + callId
+      bob.getHexPublicKey() + // validator stash
+      '07000000' + // era
+        '0712' +
+        alice.getHexPublicKey() +
+        '08000000' +
+        '0712' +
+        bob.getHexPublicKey() +
+        '08000000' +
+        '0712' +
+        charlie.getHexPublicKey() +
+        '08000000' +
+        '0712' +
+        alice.getHexPublicKey() +
+        '09000000'
+    )
+  })
+
+  it('should limit the number of payouts collected in a batch', async () => {
+    sinon
+      .stub(protocol.options.accountController, 'getPendingPayouts')
+      .returns(
+        Promise.resolve(
+          Array.from(Array(12).keys()).map((index: number) => ({ validator: alice.getValue(), eraIndex: 20 - index, amount: '1000' }))
+        )
+      )
+    sinon.stub(protocol.options.accountController, 'getTransferableBalance').returns(Promise.resolve(new BigNumber(10000000000000)))
+    sinon
+      .stub(protocol.options.nodeClient, 'getTransactionMetadata')
+      .callsFake((type: SubstrateTransactionType) => Promise.resolve(calls.get(type)!))
+    sinon.stub(protocol.options.nodeClient, 'getTransferFeeEstimate').returns(Promise.resolve(new BigNumber(1000000000)))
+    sinon.stub(protocol.options.nodeClient, 'getAccountInfo').returns(Promise.resolve({ nonce: { value: new BigNumber(1) } } as any))
+    sinon
+      .stub(protocol.options.nodeClient, 'getFirstBlockHash')
+      .returns(Promise.resolve('0xd51522c9ef7ba4e0990f7a4527de79afcac992ab97abbbc36722f8a27189b170'))
+    sinon
+      .stub(protocol.options.nodeClient, 'getLastBlockHash')
+      .returns(Promise.resolve('0x33a7a745849347ce3008c07268be63d8cefd3ef61de0c7318e88a577fb7d26a9'))
+    sinon.stub(protocol.options.nodeClient, 'getCurrentHeight').returns(Promise.resolve(new BigNumber(3192)))
+    sinon.stub(protocol.options.nodeClient, 'getRuntimeVersion').returns(Promise.resolve({ specVersion: 30, transactionVersion: 1 }))
+
+    const { encoded } = await protocol.prepareCollectPayouts(publicKey)
+
+    // the 10 oldest of the 12 pending payouts, eras 9 to 18
+    const [unsigned] = protocol.options.transactionController.decodeDetails(encoded)
+    expect(unsigned.transaction.method.encode({ network, runtimeVersion: 30 })).to.equal(
+      `1a0028${Array.from(Array(10).keys())
+        .map((index: number) => `0712${alice.getHexPublicKey()}${SCALEInt.from(9 + index, 32).encode()}`)
+        .join('')}`
+    )
+  })
+})
@@ -0,0 +1,324 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  IACMessageDefinitionObject,
+  IACMessageType,
+  IAirGapTransaction,
+  Serializer,
+  TezosContractCallDecoder,
+  TezosContractCallDetails,
+  TezosContractCallWarningType,
+  TezosProtocol
+} from '../../src'
+import { MichelineDataNode, MichelineNode, MichelineTypeNode } from '../../src/protocols/tezos/types/micheline/MichelineNode'
+import { TezosOperation } from '../../src/protocols/tezos/types/operations/TezosOperation'
+import { TezosOperationType } from '../../src/protocols/tezos/types/TezosOperationType'
+import { TezosWrappedOperation } from '../../src/protocols/tezos/types/TezosWrappedOperation'
+import { RawTezosTransaction } from '../../src/serializer/types'
+import { MainProtocolSymbols } from '../../src/utils/ProtocolSymbols'
+import { TezosTestProtocolSpec } from '../protocols/specs/tezos'
+import { TezosProtocolStub } from '../protocols/stubs/tezos.stub'
+
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const tezosProtocolSpec: TezosTestProtocolSpec = new TezosTestProtocolSpec()
+const protocol: TezosProtocol = tezosProtocolSpec.lib as TezosProtocol
+
+const contractAddress: string = 'KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton'
+const unknownAddress: string = 'tz1MJx9vhaNRSimcuXPK2rW4fLccQnDAnVKJ'
+
+const operatorType = (label: string): MichelineTypeNode => ({
+  prim: 'pair',
+  args: [
+    { prim: 'address', annots: ['%owner'] },
+    { prim: 'address', annots: ['%operator'] },
+    { prim: 'nat', annots: ['%token_id'] }
+  ],
+  annots: [label]
+})
+const updateOperatorsType: MichelineTypeNode = {
+  prim: 'list',
+  args: [{ prim: 'or', args: [operatorType('%add_operator'), operatorType('%remove_operator')] }]
+}
+
+const multisigMainType: MichelineTypeNode = {
+  prim: 'pair',
+  args: [
+    {
+      prim: 'pair',
+      args: [
+        { prim: 'nat', annots: ['%counter'] },
+        {
+          prim: 'or',
+          args: [
+            { prim: 'lambda', args: [{ prim: 'unit' }, { prim: 'list', args: [{ prim: 'operation' }] }], annots: ['%operation'] },
+            {
+              prim: 'pair',
+              args: [
+                { prim: 'nat', annots: ['%threshold'] },
+                { prim: 'list', args: [{ prim: 'key' }], annots: ['%keys'] }
+              ],
+              annots: ['%change_keys']
+            }
+          ],
+          annots: [':action']
+        }
+      ],
+      annots: [':payload']
+    },
+    { prim: 'list', args: [{ prim: 'option', args: [{ prim: 'signature' }] }], annots: ['%sigs'] }
+  ]
+}
+// the lambda is code, which is not covered by the data grammar
+const multisigMainValue = (lambda: MichelineNode): MichelineDataNode => ({
+  prim: 'Pair',
+  args: [{ prim: 'Pair', args: [{ int: '3' }, { prim: 'Left', args: [lambda as MichelineDataNode] }] }, [{ prim: 'None' }]]
+})
+
+describe(`ICoinProtocol Tezos Contract Calls - Custom Tests`, () => {
+  const updateOperators = (operator: string): TezosOperation =>
+    ({
+      kind: TezosOperationType.TRANSACTION,
+      amount: '0',
+      destination: contractAddress,
+      parameters: {
+        entrypoint: 'update_operators',
+        value: [
+          {
+            prim: 'Left',
+            args: [{ prim: 'Pair', args: [{ string: tezosProtocolSpec.wallet.addresses[0] }, { string: operator }, { int: '0' }] }]
+          }
+        ]
+      }
+    } as TezosOperation)
+
+  const prepareTransaction = async (operator: string): Promise<RawTezosTransaction> => {
+    const wrappedOperation: TezosWrappedOperation = await protocol.prepareOperations(tezosProtocolSpec.wallet.publicKey, [
+      updateOperators(operator)
+    ])
+
+    return protocol.addEntrypointTypes(await protocol.forgeAndWrapOperations(wrappedOperation))
+  }
+
+  beforeEach(() => {
+    const { getStub } = new TezosProtocolStub().registerStub(tezosProtocolSpec, protocol)
+    getStub
+      .withArgs(
+        `${protocol.options.network.rpcUrl}/chains/main/blocks/head/context/contracts/${contractAddress}/entrypoints/update_operators`
+      )
+      .returns(Promise.resolve({ data: updateOperatorsType }))
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should add the types of the called entrypoints to the transaction', async () => {
+    const transaction: RawTezosTransaction = await prepareTransaction(unknownAddress)
+
+    expect(transaction.entrypointTypes).to.deep.equal([
+      { contractAddress, entrypoint: 'update_operators', type: JSON.stringify(updateOperatorsType) }
+    ])
+
+    // the types are sent along with the sign request
+    const serializer: Serializer = new Serializer()
+    const message: IACMessageDefinitionObject = {
+      id: 'random__id',
+      type: IACMessageType.TransactionSignRequest,
+      protocol: MainProtocolSymbols.XTZ,
+      payload: { publicKey: tezosProtocolSpec.wallet.publicKey, transaction, callbackURL: 'airgap-wallet://?d=' }
+    }
+    const [deserialized]: IACMessageDefinitionObject[] = await serializer.deserialize(await serializer.serialize([message]))
+    expect(deserialized.payload).to.deep.equal(message.payload)
+  })
+
+  it('should decode the parameters of the call and flag unknown operators', async () => {
+    const transaction: RawTezosTransaction = await prepareTransaction(unknownAddress)
+    const [airGapTx]: IAirGapTransaction[] = await protocol.getTransactionDetails({
+      publicKey: tezosProtocolSpec.wallet.publicKey,
+      transaction
+    })
+    const contractCall: TezosContractCallDetails = airGapTx.extra.contractCall
+
+    expect(contractCall.contractAddress).to.equal(contractAddress)
+    expect(contractCall.entrypoint).to.equal('update_operators')
+    expect(contractCall.parameters).to.deep.equal({
+      label: undefined,
+      type: 'list',
+      children: [
+        {
+          label: undefined,
+          type: 'or',
+          children: [
+            {
+              label: 'add_operator',
+              type: 'pair',
+              children: [
+                { label: 'owner', type: 'address', value: tezosProtocolSpec.wallet.addresses[0] },
+                {
+                  label: undefined,
+                  type: 'pair',
+                  children: [
+                    { label: 'operator', type: 'address', value: unknownAddress },
+                    { label: 'token_id', type: 'nat', value: '0' }
+                  ]
+                }
+              ]
+            }
+          ]
+        }
+      ]
+    })
+    expect(contractCall.warnings.map((warning) => warning.type)).to.deep.equal([TezosContractCallWarningType.UNKNOWN_OPERATOR])
+
+    // the sender is a known operator
+    const ownTransaction: RawTezosTransaction = await prepareTransaction(tezosProtocolSpec.wallet.addresses[0])
+    const [ownAirGapTx]: IAirGapTransaction[] = await protocol.getTransactionDetails({
+      publicKey: tezosProtocolSpec.wallet.publicKey,
+      transaction: ownTransaction
+    })
+    expect(ownAirGapTx.extra.contractCall.warnings).to.deep.equal([])
+
+    // without the types the call is not decoded and flagged
+    const [undecodedAirGapTx]: IAirGapTransaction[] = await protocol.getTransactionDetails({
+      publicKey: tezosProtocolSpec.wallet.publicKey,
+      transaction: { binaryTransaction: transaction.binaryTransaction }
+    })
+    const undecodedContractCall: TezosContractCallDetails = undecodedAirGapTx.extra.contractCall
+    expect(undecodedContractCall.entrypoint).to.equal('update_operators')
+    expect(undecodedContractCall.parameters).to.be.undefined
+    expect(undecodedContractCall.warnings.map((warning) => warning.type)).to.deep.equal([TezosContractCallWarningType.MISSING_TYPE])
+  })
+
+  it('should flag unknown operators by the structure of the type', async () => {
+    const decoder: TezosContractCallDecoder = new TezosContractCallDecoder([tezosProtocolSpec.wallet.addresses[0]])
+    const update = (prim: 'Left' | 'Right', operator: string): MichelineDataNode => ({
+      prim,
+      args: [
+        {
+          prim: 'Pair',
+          args: [{ string: tezosProtocolSpec.wallet.addresses[0] }, { prim: 'Pair', args: [{ string: operator }, { int: '0' }] }]
+        }
+      ]
+    })
+    // the annotations of the type can be chosen by the contract
+    const unlabelledType: MichelineTypeNode = {
+      prim: 'list',
+      args: [
+        {
+          prim: 'or',
+          args: [
+            {
+              prim: 'pair',
+              args: [{ prim: 'address' }, { prim: 'pair', args: [{ prim: 'address', annots: ['%spender'] }, { prim: 'nat' }] }]
+            },
+            { prim: 'pair', args: [{ prim: 'address' }, { prim: 'address' }, { prim: 'nat' }], annots: ['%add_operator'] }
+          ]
+        }
+      ]
+    }
+
+    const details: TezosContractCallDetails = decoder.decode(
+      contractAddress,
+      {
+        entrypoint: 'renamed',
+        value: [update('Left', unknownAddress), update('Left', tezosProtocolSpec.wallet.addresses[0]), update('Right', unknownAddress)]
+      },
+      unlabelledType
+    )
+    expect(details.warnings).to.deep.equal([
+      {
+        type: TezosContractCallWarningType.UNKNOWN_OPERATOR,
+        message: `The call allows the unknown address ${unknownAddress} to transfer tokens.`
+      }
+    ])
+
+    // removing an operator is not flagged, even if it is labelled as added
+    const removal: TezosContractCallDetails = decoder.decode(
+      contractAddress,
+      { entrypoint: 'renamed', value: [update('Right', unknownAddress)] },
+      unlabelledType
+    )
+    expect(removal.warnings).to.deep.equal([])
+  })
+
+  it('should flag delegate changes and transfers of the tez balance in lambdas', async () => {
+    const decoder: TezosContractCallDecoder = new TezosContractCallDecoder()
+
+    const setDelegate: TezosContractCallDetails = decoder.decode(
+      contractAddress,
+      { entrypoint: 'set_delegate', value: { prim: 'Some', args: [{ string: unknownAddress }] } },
+      { prim: 'option', args: [{ prim: 'key_hash' }] }
+    )
+    expect(setDelegate.warnings.map((warning) => warning.type)).to.deep.equal([TezosContractCallWarningType.SET_DELEGATE])
+
+    const delegateLambda: TezosContractCallDetails = decoder.decode(
+      contractAddress,
+      {
+        entrypoint: 'main',
+        value: multisigMainValue([
+          { prim: 'DROP' },
+          { prim: 'NIL', args: [{ prim: 'operation' }] },
+          { prim: 'PUSH', args: [{ prim: 'key_hash' }, { string: unknownAddress }] },
+          { prim: 'SOME' },
+          { prim: 'SET_DELEGATE' },
+          { prim: 'CONS' }
+        ])
+      },
+      multisigMainType
+    )
+    expect(delegateLambda.parameters?.children?.[0].label).to.equal('payload')
+    expect(delegateLambda.parameters?.children?.[0].children?.[1].children?.[0].label).to.equal('operation')
+    expect(delegateLambda.warnings.map((warning) => warning.type)).to.deep.equal([TezosContractCallWarningType.SET_DELEGATE])
+
+    const transferLambda: TezosContractCallDetails = decoder.decode(
+      contractAddress,
+      {
+        entrypoint: 'main',
+        value: multisigMainValue([
+          { prim: 'DROP' },
+          { prim: 'NIL', args: [{ prim: 'operation' }] },
+          { prim: 'PUSH', args: [{ prim: 'address' }, { string: unknownAddress }] },
+          { prim: 'CONTRACT', args: [{ prim: 'unit' }] },
+          [{ prim: 'IF_NONE', args: [[{ prim: 'UNIT' }, { prim: 'FAILWITH' }], []] }],
+          { prim: 'BALANCE' },
+          { prim: 'UNIT' },
+          { prim: 'TRANSFER_TOKENS' },
+          { prim: 'CONS' }
+        ])
+      },
+      multisigMainType
+    )
+    expect(transferLambda.warnings.map((warning) => warning.type)).to.deep.equal([TezosContractCallWarningType.TRANSFER_BALANCE])
+  })
+
+  it('should flag parameters which do not match the type of the entrypoint', async () => {
+    const details: TezosContractCallDetails = new TezosContractCallDecoder().decode(
+      contractAddress,
+      { entrypoint: 'update_operators', value: [{ prim: 'Pair', args: [{ int: '0' }, { int: '1' }] }] },
+      updateOperatorsType
+    )
+
+    expect(details.parameters).to.be.undefined
+    expect(details.warnings.map((warning) => warning.type)).to.deep.equal([TezosContractCallWarningType.INVALID_PARAMETERS])
+  })
+
+  it('should flag calls whose entrypoint type can not be parsed', async () => {
+    const transaction: RawTezosTransaction = {
+      ...(await prepareTransaction(unknownAddress)),
+      entrypointTypes: [{ contractAddress, entrypoint: 'update_operators', type: '{"prim":' }]
+    }
+    const [airGapTx]: IAirGapTransaction[] = await protocol.getTransactionDetails({
+      publicKey: tezosProtocolSpec.wallet.publicKey,
+      transaction
+    })
+    const contractCall: TezosContractCallDetails = airGapTx.extra.contractCall
+
+    expect(contractCall.parameters).to.be.undefined
+    expect(contractCall.warnings.map((warning) => warning.type)).to.deep.equal([TezosContractCallWarningType.INVALID_PARAMETERS])
+  })
+})
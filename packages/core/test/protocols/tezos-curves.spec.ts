@@ -0,0 +1,181 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+
+import { IACMessageDefinitionObject, IACMessageType, Serializer, TezosProtocol } from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import * as bs58check from '../../src/dependencies/src/bs58check-2.1.2/index'
+import { TezosProtocolConfig, TezosProtocolNetwork, TezosProtocolOptions } from '../../src/protocols/tezos/TezosProtocolOptions'
+import { TezosUtils } from '../../src/protocols/tezos/TezosUtils'
+import { TezosRevealOperation } from '../../src/protocols/tezos/types/operations/Reveal'
+import { TezosCurve } from '../../src/protocols/tezos/types/TezosCurve'
+import { TezosWrappedOperation } from '../../src/protocols/tezos/types/TezosWrappedOperation'
+import { RawTezosTransaction } from '../../src/serializer/types'
+import { MainProtocolSymbols } from '../../src/utils/ProtocolSymbols'
+
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+// the seed and the key of the first test vector of SLIP-10 for the path `m/0'/1/2'/2/1000000000`
+const SLIP10_SEED: string = '000102030405060708090a0b0c0d0e0f'
+const SLIP10_PATH: string = `m/0'/1/2'/2/1000000000`
+
+const mnemonic: string = 'spell device they juice trial skirt amazing boat badge steak usage february virus art survey'
+const derivationPath: string = `m/44h/1729h/0h/0h`
+
+const createProtocol = (curve: TezosCurve): TezosProtocol =>
+  new TezosProtocol(new TezosProtocolOptions(new TezosProtocolNetwork(), new TezosProtocolConfig(undefined, curve)))
+
+const curves: { curve: TezosCurve; addressPrefix: string; publicKeyPrefix: string; signaturePrefix: string; privateKey: string }[] = [
+  {
+    curve: TezosCurve.SECP256K1,
+    addressPrefix: 'tz2',
+    publicKeyPrefix: 'sppk',
+    signaturePrefix: 'spsig1',
+    privateKey: '471b76e389e528d6de6d816857e012c5455051cad6660850e58372a6c3e6e7c8'
+  },
+  {
+    curve: TezosCurve.P256,
+    addressPrefix: 'tz3',
+    publicKeyPrefix: 'p2pk',
+    signaturePrefix: 'p2sig',
+    privateKey: '21c4f269ef0a5fd1badf47eeacebeeaa3de22eb8e5b0adcd0f27dd99d34d0119'
+  }
+]
+
+describe(`ICoinProtocol Tezos Curves - Custom Tests`, () => {
+  curves.forEach(({ curve, addressPrefix, publicKeyPrefix, signaturePrefix, privateKey: expectedPrivateKey }) => {
+    describe(curve, () => {
+      const protocol: TezosProtocol = createProtocol(curve)
+
+      it('should derive keys with SLIP-10', async () => {
+        const privateKey: Buffer = await protocol.getPrivateKeyFromHexSecret(SLIP10_SEED, SLIP10_PATH)
+        const publicKey: string = await protocol.getPublicKeyFromHexSecret(SLIP10_SEED, SLIP10_PATH)
+
+        expect(privateKey.toString('hex')).to.equal(expectedPrivateKey)
+        expect(Buffer.from(publicKey, 'hex')).to.have.lengthOf(33)
+      })
+
+      it(`should create ${addressPrefix} addresses`, async () => {
+        const publicKey: string = await protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath)
+        const address: string = (await protocol.getAddressFromPublicKey(publicKey)).getValue()
+
+        expect(address.startsWith(addressPrefix)).to.be.true
+        expect(address).to.match(new RegExp(protocol.addressValidationPattern))
+      })
+
+      it(`should forge reveal operations with ${publicKeyPrefix} public keys`, async () => {
+        const publicKey: string = await protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath)
+        const address: string = (await protocol.getAddressFromPublicKey(publicKey)).getValue()
+
+        const reveal: TezosRevealOperation = await protocol.createRevealOperation(new BigNumber(1), publicKey, address)
+        expect(reveal.public_key.startsWith(publicKeyPrefix)).to.be.true
+
+        const forged: string = await protocol.forgeTezosOperation({
+          branch: 'BMJyc7ga9kLV3vH4kbn6GXbBNjRkLEJVSyovoXyY84Er1zMmKKT',
+          contents: [reveal]
+        })
+        const unforged: TezosWrappedOperation = await protocol.unforgeUnsignedTezosWrappedOperation(forged)
+
+        expect(unforged.contents[0]).to.deep.include({ public_key: reveal.public_key, source: address })
+      })
+
+      it('should sign operations with the operation watermark', async () => {
+        const publicKey: string = await protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath)
+        const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(mnemonic, derivationPath)
+        const binaryTransaction: string = 'd2794ab875a213d0f89e6fc3cf7df9c7188f888cb7fa435c054b85b1778bb95501'
+
+        const signed: string = await protocol.signWithPrivateKey(privateKey, { binaryTransaction })
+        expect(signed.slice(0, binaryTransaction.length)).to.equal(binaryTransaction)
+
+        const signature: Buffer = Buffer.from(signed.slice(binaryTransaction.length), 'hex')
+        const hash: Buffer = await protocol.cryptoClient.hash(Buffer.from(`03${binaryTransaction}`, 'hex'))
+        expect(signature).to.have.lengthOf(64)
+        expect(await protocol.cryptoClient.verify(hash, signature, publicKey)).to.be.true
+      })
+
+      it(`should sign and verify messages with ${signaturePrefix} signatures`, async () => {
+        const publicKey: string = await protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath)
+        const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(mnemonic, derivationPath)
+
+        const signature: string = await protocol.signMessage('message', { privateKey })
+        expect(signature.startsWith(signaturePrefix)).to.be.true
+        expect(await protocol.verifyMessage('message', signature, publicKey)).to.be.true
+        expect(await protocol.verifyMessage('other message', signature, publicKey)).to.be.false
+
+        // an ed25519 protocol verifies the signature by its prefix
+        expect(await createProtocol(TezosCurve.ED25519).verifyMessage('message', signature, publicKey)).to.be.true
+      })
+    })
+  })
+
+  it('should sign with the curve of the transaction', async () => {
+    const protocol: TezosProtocol = createProtocol(TezosCurve.SECP256K1)
+    const publicKey: string = await protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath)
+    const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(mnemonic, derivationPath)
+    const wrappedOperation: TezosWrappedOperation = {
+      branch: 'BMJyc7ga9kLV3vH4kbn6GXbBNjRkLEJVSyovoXyY84Er1zMmKKT',
+      contents: [
+        await protocol.createRevealOperation(new BigNumber(1), publicKey, (await protocol.getAddressFromPublicKey(publicKey)).getValue())
+      ]
+    }
+
+    const transaction: RawTezosTransaction = await protocol.forgeAndWrapOperations(wrappedOperation)
+    expect(transaction.curve).to.equal(TezosCurve.SECP256K1)
+
+    // the curve is sent along with the sign request, also together with the types of called entrypoints
+    const serializer: Serializer = new Serializer()
+    const transactions: RawTezosTransaction[] = [
+      transaction,
+      { ...transaction, entrypointTypes: [{ contractAddress: 'KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton', entrypoint: 'default', type: '{}' }] }
+    ]
+    for (const rawTransaction of transactions) {
+      const message: IACMessageDefinitionObject = {
+        id: 'random__id',
+        type: IACMessageType.TransactionSignRequest,
+        protocol: MainProtocolSymbols.XTZ,
+        payload: { publicKey, transaction: rawTransaction, callbackURL: 'airgap-wallet://?d=' }
+      }
+      const [deserialized]: IACMessageDefinitionObject[] = await serializer.deserialize(await serializer.serialize([message]))
+      expect(deserialized.payload).to.deep.equal(message.payload)
+    }
+
+    // an offline signer with the default configuration signs with the curve of the transaction
+    const signer: TezosProtocol = new TezosProtocol()
+    const signed: string = await signer.signWithPrivateKey(privateKey, transaction)
+    const hash: Buffer = await signer.cryptoClient.hash(Buffer.from(`03${transaction.binaryTransaction}`, 'hex'))
+    const signature: Buffer = Buffer.from(signed.slice(transaction.binaryTransaction.length), 'hex')
+    expect(await protocol.cryptoClient.verify(hash, signature, publicKey)).to.be.true
+
+    await expect(
+      signer.signWithPrivateKey(await signer.getPrivateKeyFromMnemonic(mnemonic, derivationPath), transaction)
+    ).to.be.rejectedWith('The private key is not a secp256k1 key.')
+
+    // tz1 transactions do not carry the curve
+    expect(await new TezosProtocol().forgeAndWrapOperations(wrappedOperation)).to.deep.equal({
+      binaryTransaction: transaction.binaryTransaction
+    })
+  })
+
+  it('should verify signatures with the generic prefix using the curve of the protocol', async () => {
+    const protocol: TezosProtocol = createProtocol(TezosCurve.P256)
+    const publicKey: string = await protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath)
+    const privateKey: Buffer = await protocol.getPrivateKeyFromMnemonic(mnemonic, derivationPath)
+
+    const hash: Buffer = await protocol.cryptoClient.hash(Buffer.from('message'))
+    const rawSignature: Buffer = await protocol.cryptoClient.sign(hash, privateKey)
+    const signature: string = bs58check.encode(Buffer.concat([TezosUtils.tezosPrefixes.sig, rawSignature]))
+
+    expect(signature.startsWith('sig')).to.be.true
+    expect(await protocol.verifyMessage('message', signature, publicKey)).to.be.true
+    expect(await createProtocol(TezosCurve.SECP256K1).verifyMessage('message', signature, publicKey)).to.be.false
+  })
+
+  it('should keep deriving tz1 addresses by default', async () => {
+    const protocol: TezosProtocol = new TezosProtocol()
+    const publicKey: string = await protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath)
+
+    expect((await protocol.getAddressFromPublicKey(publicKey)).getValue().startsWith('tz1')).to.be.true
+    expect((await protocol.createRevealOperation(new BigNumber(1), publicKey, 'tz1')).public_key.startsWith('edpk')).to.be.true
+  })
+})
@@ -0,0 +1,154 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  IACMessageDefinitionObject,
+  IACMessageType,
+  MessageSignRequest,
+  Serializer,
+  TezosMessageType,
+  TezosProtocol,
+  TypedMessageSignRequest
+} from '../../src'
+import axios from '../../src/dependencies/src/axios-0.19.0/index'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import * as bs58check from '../../src/dependencies/src/bs58check-2.1.2/index'
+import {
+  createPermitData,
+  hashMichelsonData,
+  packMichelsonData,
+  parseMichelsonData,
+  TezosMichelsonData,
+  unpackMichelsonData
+} from '../../src/protocols/tezos/TezosMichelsonData'
+import { MichelineTypeNode } from '../../src/protocols/tezos/types/micheline/MichelineNode'
+import { MichelsonPair } from '../../src/protocols/tezos/types/michelson/generics/MichelsonPair'
+import { TezosUtils } from '../../src/protocols/tezos/TezosUtils'
+import { MainProtocolSymbols } from '../../src/utils/ProtocolSymbols'
+
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const mnemonic: string = 'spell device they juice trial skirt amazing boat badge steak usage february virus art survey'
+const derivationPath: string = `m/44h/1729h/0h/0h`
+
+const address: string = 'tz1YvE7Sfo92ueEPEdZceNWd5MWNeMNSt16L'
+const contractAddress: string = 'KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton'
+
+const transferType: MichelineTypeNode = { prim: 'pair', args: [{ prim: 'address' }, { prim: 'mutez' }] }
+
+describe(`ICoinProtocol Tezos Michelson Data - Custom Tests`, () => {
+  const protocol: TezosProtocol = new TezosProtocol()
+  let privateKey: Buffer
+  let publicKey: string
+
+  before(async () => {
+    privateKey = await protocol.getPrivateKeyFromMnemonic(mnemonic, derivationPath)
+    publicKey = await protocol.getPublicKeyFromMnemonic(mnemonic, derivationPath)
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should pack Michelson data with the watermark', async () => {
+    expect(packMichelsonData(1, { prim: 'nat' }).packed).to.equal('050001')
+    expect(packMichelsonData('hello', { prim: 'string' }).packed).to.equal('05010000000568656c6c6f')
+
+    // addresses are packed in their binary form
+    expect(packMichelsonData([address, 1000000], transferType).packed).to.equal(
+      `0507070a00000016${TezosUtils.encodeAddress(address).toString('hex')}0080897a`
+    )
+  })
+
+  it('should unpack Michelson data with and without a type', async () => {
+    const data: TezosMichelsonData = packMichelsonData([address, 1000000], transferType)
+
+    const typed = unpackMichelsonData(data)
+    expect(typed).to.be.instanceOf(MichelsonPair)
+    expect(typed.toMichelineJSON()).to.deep.equal({ prim: 'Pair', args: [{ string: address }, { int: '1000000' }] })
+
+    const untyped = unpackMichelsonData({ packed: data.packed })
+    expect(untyped.toMichelineJSON()).to.deep.equal({
+      prim: 'Pair',
+      args: [{ bytes: TezosUtils.encodeAddress(address).toString('hex') }, { int: '1000000' }]
+    })
+
+    expect(() => unpackMichelsonData({ packed: data.packed.slice(2) })).to.throw('05 watermark')
+    expect(() => unpackMichelsonData({ packed: `${data.packed}00` })).to.throw()
+  })
+
+  it('should sign Michelson data so that it can be checked by a contract', async () => {
+    const data: TezosMichelsonData = packMichelsonData([address, 1000000], transferType)
+
+    const signature: string = await protocol.signMichelsonData(data, { privateKey })
+    expect(signature.startsWith('edsig')).to.be.true
+    expect(await protocol.verifyMichelsonData(data, signature, publicKey)).to.be.true
+    expect(await protocol.verifyMichelsonData(packMichelsonData([address, 1000001], transferType), signature, publicKey)).to.be.false
+
+    // `CHECK_SIGNATURE` verifies the signature of the blake2b hash of the packed bytes
+    const hash: Buffer = await protocol.cryptoClient.hash(Buffer.from(data.packed, 'hex'))
+    const rawSignature: Buffer = bs58check.decode(signature).slice(TezosUtils.tezosPrefixes.edsig.length)
+    expect(await protocol.cryptoClient.verify(hash, rawSignature, publicKey)).to.be.true
+
+    await expect(protocol.signMichelsonData({ packed: '0001' }, { privateKey })).to.be.rejectedWith('05 watermark')
+  })
+
+  it('should carry Michelson data in a message sign request', async () => {
+    const serializer: Serializer = new Serializer()
+    const serializeAndDeserialize = async (payload: MessageSignRequest | TypedMessageSignRequest) => {
+      const message: IACMessageDefinitionObject = {
+        id: 'random__id',
+        type: IACMessageType.MessageSignRequest,
+        protocol: MainProtocolSymbols.XTZ,
+        payload
+      }
+      const [deserialized]: IACMessageDefinitionObject[] = await serializer.deserialize(await serializer.serialize([message]))
+
+      return deserialized.payload as MessageSignRequest | TypedMessageSignRequest
+    }
+
+    const data: TezosMichelsonData = packMichelsonData([address, 1000000], transferType)
+    const request: TypedMessageSignRequest = await protocol.createMichelsonSignRequest(publicKey, data, 'airgap-wallet://?d=')
+    expect(request.messageType).to.equal(TezosMessageType.MICHELSON)
+
+    const deserialized = await serializeAndDeserialize(request)
+    expect(deserialized).to.deep.equal(request)
+
+    const requestData: TezosMichelsonData = await protocol.getMichelsonDataFromMessageSignRequest(deserialized)
+    expect(requestData).to.deep.equal(data)
+    expect(unpackMichelsonData(requestData).asRawValue()).to.deep.equal([address, new BigNumber(1000000)])
+
+    const personalRequest: MessageSignRequest = { message: 'example message', publicKey, callbackURL: 'airgap-wallet://?d=' }
+    await expect(protocol.getMichelsonDataFromMessageSignRequest(await serializeAndDeserialize(personalRequest))).to.be.rejectedWith(
+      'does not contain Michelson data'
+    )
+
+    expect(() => parseMichelsonData('{')).to.throw('not valid JSON')
+    expect(() => parseMichelsonData(JSON.stringify({ type: transferType }))).to.throw('Invalid Michelson data.')
+  })
+
+  it('should create the data of a TZIP-17 permit', async () => {
+    const parameter: TezosMichelsonData = packMichelsonData([address, 1000000], transferType)
+    const parameterHash: string = hashMichelsonData(parameter)
+    expect(parameterHash).to.equal(Buffer.from(await protocol.cryptoClient.hash(Buffer.from(parameter.packed, 'hex'))).toString('hex'))
+
+    sinon
+      .stub(axios, 'get')
+      .withArgs(`${protocol.options.network.rpcUrl}/chains/main/chain_id`)
+      .returns(Promise.resolve({ data: 'NetXdQprcVkpaWU' }))
+
+    const permit: TezosMichelsonData = await protocol.createPermitData(contractAddress, parameter, 7)
+    expect(permit).to.deep.equal(createPermitData('NetXdQprcVkpaWU', contractAddress, 7, parameterHash))
+    expect(unpackMichelsonData(permit).toMichelineJSON()).to.deep.equal({
+      prim: 'Pair',
+      args: [
+        { prim: 'Pair', args: [{ string: 'NetXdQprcVkpaWU' }, { string: contractAddress }] },
+        { prim: 'Pair', args: [{ int: '7' }, { bytes: parameterHash }] }
+      ]
+    })
+    expect(permit.packed.startsWith('0507070707')).to.be.true
+  })
+})
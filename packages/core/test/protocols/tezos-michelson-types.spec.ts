@@ -0,0 +1,123 @@
+import { expect } from 'chai'
+import 'mocha'
+
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { MichelineDataNode, MichelineTypeNode } from '../../src/protocols/tezos/types/micheline/MichelineNode'
+import { MichelsonLambda } from '../../src/protocols/tezos/types/michelson/generics/MichelsonLambda'
+import { MichelsonMap } from '../../src/protocols/tezos/types/michelson/generics/MichelsonMap'
+import { MichelsonSet } from '../../src/protocols/tezos/types/michelson/generics/MichelsonSet'
+import { MichelsonType, MichelsonUnparsingMode } from '../../src/protocols/tezos/types/michelson/MichelsonType'
+import { MichelsonTypeMeta } from '../../src/protocols/tezos/types/michelson/MichelsonTypeMeta'
+import { MichelsonChainId } from '../../src/protocols/tezos/types/michelson/primitives/MichelsonChainId'
+import { MichelsonInt } from '../../src/protocols/tezos/types/michelson/primitives/MichelsonInt'
+import { MichelsonKey } from '../../src/protocols/tezos/types/michelson/primitives/MichelsonKey'
+import { MichelsonMutez } from '../../src/protocols/tezos/types/michelson/primitives/MichelsonMutez'
+import { MichelsonSignature } from '../../src/protocols/tezos/types/michelson/primitives/MichelsonSignature'
+import { MichelsonTimestamp } from '../../src/protocols/tezos/types/michelson/primitives/MichelsonTimestamp'
+import { TezosUtils } from '../../src/protocols/tezos/TezosUtils'
+
+const createValue = (type: MichelineTypeNode, value: unknown): MichelsonType => {
+  const meta: MichelsonTypeMeta | undefined = MichelsonTypeMeta.fromMichelineNode(type)
+  if (meta === undefined) {
+    throw new Error('invalid type')
+  }
+
+  return meta.createValue(value, { lazyEval: false })
+}
+
+const publicKey: string = 'edpkvGfYw3LyB1UcCahKQk4rF2tvbMUk8GFiTuMjL75uGXrpvKXhjn'
+const signature: string = 'edsigtXomBKi5CTRf5cjATJWSyaRvhfYNHqSUGrn4SdbYRcGwQrUGjzEfQDTuqHhuA8b2d8NarZjz8TRf65WkpQmo423BtomS8Q'
+const lambda: MichelineDataNode = [{ prim: 'DROP' }, { prim: 'NIL', args: [{ prim: 'operation' }] }] as MichelineDataNode
+
+describe(`ICoinProtocol Tezos Michelson Types - Custom Tests`, () => {
+  it('should create values of the primitive types', () => {
+    const mutez: MichelsonType = createValue({ prim: 'mutez' }, '1000000')
+    expect(mutez).to.be.instanceOf(MichelsonMutez)
+    expect(mutez.toMichelineJSON()).to.deep.equal({ int: '1000000' })
+    expect(() => createValue({ prim: 'mutez' }, -1)).to.throw()
+
+    const timestamp: MichelsonType = createValue({ prim: 'timestamp' }, '2021-03-01T12:00:00Z')
+    expect(timestamp).to.be.instanceOf(MichelsonTimestamp)
+    expect(timestamp.toMichelineJSON()).to.deep.equal({ string: '2021-03-01T12:00:00Z' })
+    expect(timestamp.toMichelineJSON(MichelsonUnparsingMode.OPTIMIZED)).to.deep.equal({ int: '1614600000' })
+    expect(createValue({ prim: 'timestamp' }, { int: '1614600000' }).asRawValue()).to.equal('2021-03-01T12:00:00Z')
+
+    const key: MichelsonType = createValue({ prim: 'key' }, { string: publicKey })
+    expect(key).to.be.instanceOf(MichelsonKey)
+    expect(key.toMichelineJSON()).to.deep.equal({ string: publicKey })
+
+    expect(createValue({ prim: 'signature' }, signature)).to.be.instanceOf(MichelsonSignature)
+    expect(createValue({ prim: 'chain_id' }, 'NetXdQprcVkpaWU')).to.be.instanceOf(MichelsonChainId)
+    expect(
+      createValue({ prim: 'lambda', args: [{ prim: 'unit' }, { prim: 'list', args: [{ prim: 'operation' }] }] }, lambda)
+    ).to.be.instanceOf(MichelsonLambda)
+  })
+
+  it('should create sorted maps and sets', () => {
+    const map: MichelsonType = createValue({ prim: 'map', args: [{ prim: 'string' }, { prim: 'nat' }] }, { b: 2, a: 1 })
+    expect(map).to.be.instanceOf(MichelsonMap)
+    expect(map.toMichelineJSON()).to.deep.equal([
+      { prim: 'Elt', args: [{ string: 'a' }, { int: '1' }] },
+      { prim: 'Elt', args: [{ string: 'b' }, { int: '2' }] }
+    ])
+    expect((map as MichelsonMap).get(MichelsonTimestamp.from(0))).to.be.undefined
+
+    const micheline: MichelsonType = createValue({ prim: 'map', args: [{ prim: 'nat' }, { prim: 'bool' }] }, [
+      { prim: 'Elt', args: [{ int: '10' }, { prim: 'True' }] },
+      { prim: 'Elt', args: [{ int: '9' }, { prim: 'False' }] }
+    ])
+    expect(((micheline as MichelsonMap).get(MichelsonInt.from(10)) as MichelsonType).asRawValue()).to.be.true
+    expect(micheline.toMichelineJSON()).to.deep.equal([
+      { prim: 'Elt', args: [{ int: '9' }, { prim: 'False' }] },
+      { prim: 'Elt', args: [{ int: '10' }, { prim: 'True' }] }
+    ])
+
+    const set: MichelsonType = createValue({ prim: 'set', args: [{ prim: 'nat' }] }, [3, 1, 3, 2])
+    expect(set).to.be.instanceOf(MichelsonSet)
+    expect(set.toMichelineJSON()).to.deep.equal([{ int: '1' }, { int: '2' }, { int: '3' }])
+  })
+
+  it('should create big maps from IDs and map literals', () => {
+    const type: MichelineTypeNode = { prim: 'big_map', args: [{ prim: 'address' }, { prim: 'nat' }] }
+
+    expect(createValue(type, 42)).to.be.instanceOf(MichelsonInt)
+    expect(createValue(type, [['tz1YvE7Sfo92ueEPEdZceNWd5MWNeMNSt16L', 1]])).to.be.instanceOf(MichelsonMap)
+  })
+
+  it('should convert values to and from the packed binary form', () => {
+    expect(TezosUtils.encodeMichelsonType(MichelsonChainId.from('NetXdQprcVkpaWU'))).to.equal('0a000000047a06a770')
+    expect(TezosUtils.encodeMichelsonType(MichelsonMutez.from(new BigNumber(1000000)))).to.equal('0080897a')
+
+    const values: [MichelsonType, (micheline: unknown) => MichelsonType][] = [
+      [MichelsonMutez.from('1000000'), (micheline: unknown) => MichelsonMutez.from(micheline)],
+      [MichelsonTimestamp.from('2021-03-01T12:00:00Z'), (micheline: unknown) => MichelsonTimestamp.from(micheline)],
+      [MichelsonKey.from(publicKey), (micheline: unknown) => MichelsonKey.from(micheline)],
+      [MichelsonChainId.from('NetXdQprcVkpaWU'), (micheline: unknown) => MichelsonChainId.from(micheline)],
+      [MichelsonLambda.from(lambda), (micheline: unknown) => MichelsonLambda.from(micheline)]
+    ]
+
+    values.forEach(([value, factory]: [MichelsonType, (micheline: unknown) => MichelsonType]) => {
+      const decoded: MichelsonType = factory(TezosUtils.decodeMicheline(TezosUtils.encodeMichelsonType(value)))
+      expect(decoded.toMichelineJSON()).to.deep.equal(value.toMichelineJSON())
+    })
+
+    // the curve of a signature is not part of its binary form
+    const decodedSignature: MichelsonType = MichelsonSignature.from(
+      TezosUtils.decodeMicheline(TezosUtils.encodeMichelsonType(MichelsonSignature.from(signature)))
+    )
+    expect((decodedSignature.asRawValue() as string).startsWith('sig')).to.be.true
+    expect(decodedSignature.toMichelineJSON(MichelsonUnparsingMode.OPTIMIZED)).to.deep.equal(
+      MichelsonSignature.from(signature).toMichelineJSON(MichelsonUnparsingMode.OPTIMIZED)
+    )
+  })
+
+  it('should parse packed maps and lambdas', () => {
+    const map: MichelsonType = TezosUtils.parseHex(
+      `05${TezosUtils.encodeMichelsonType(MichelsonMap.from([[MichelsonInt.from(1), MichelsonInt.from(2)]]))}`
+    )
+    expect(map).to.be.instanceOf(MichelsonMap)
+    expect(map.asRawValue()).to.deep.equal([[new BigNumber(1), new BigNumber(2)]])
+
+    expect(TezosUtils.parseHex(`05${TezosUtils.encodeMichelsonType(MichelsonLambda.from(lambda))}`)).to.be.instanceOf(MichelsonLambda)
+  })
+})
@@ -0,0 +1,233 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import {
+  IACMessageDefinitionObject,
+  IACMessageType,
+  MultisigRequest,
+  MultisigResponse,
+  Serializer,
+  TezosMultisigActionType,
+  TezosMultisigPayload,
+  TezosMultisigProtocol,
+  TezosProtocol,
+  TezosUtils
+} from '../../src'
+import { RawTezosTransaction } from '../../src/serializer/types'
+import { TezosMichelsonData } from '../../src/protocols/tezos/TezosMichelsonData'
+import { MichelineNode } from '../../src/protocols/tezos/types/micheline/MichelineNode'
+import { TezosTransactionOperation } from '../../src/protocols/tezos/types/operations/Transaction'
+import { TezosWrappedOperation } from '../../src/protocols/tezos/types/TezosWrappedOperation'
+import { MainProtocolSymbols } from '../../src/utils/ProtocolSymbols'
+import { TezosTestProtocolSpec } from '../protocols/specs/tezos'
+import { TezosProtocolStub } from '../protocols/stubs/tezos.stub'
+
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const tezosProtocolSpec: TezosTestProtocolSpec = new TezosTestProtocolSpec()
+const protocol: TezosProtocol = tezosProtocolSpec.lib as TezosProtocol
+
+const mnemonic: string = 'spell device they juice trial skirt amazing boat badge steak usage february virus art survey'
+const derivationPaths: string[] = [`m/44h/1729h/0h/0h`, `m/44h/1729h/1h/0h`, `m/44h/1729h/2h/0h`]
+
+const contractAddress: string = 'KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton'
+const recipient: string = 'tz1YvE7Sfo92ueEPEdZceNWd5MWNeMNSt16L'
+
+const serializer: Serializer = new Serializer()
+const serializeAndDeserialize = async (type: IACMessageType, payload: MultisigRequest | MultisigResponse) => {
+  const message: IACMessageDefinitionObject = { id: 'random__id', type, protocol: MainProtocolSymbols.XTZ, payload }
+  const [deserialized]: IACMessageDefinitionObject[] = await serializer.deserialize(await serializer.serialize([message]))
+
+  return deserialized.payload
+}
+
+describe(`ICoinProtocol Tezos Multisig - Custom Tests`, () => {
+  const multisig: TezosMultisigProtocol = new TezosMultisigProtocol(protocol, contractAddress)
+  let privateKeys: Buffer[]
+  let publicKeys: string[]
+  let encodedPublicKeys: string[]
+  let getStub: sinon.SinonStub
+
+  before(async () => {
+    privateKeys = await Promise.all(derivationPaths.map((path: string) => protocol.getPrivateKeyFromMnemonic(mnemonic, path)))
+    publicKeys = await Promise.all(derivationPaths.map((path: string) => protocol.getPublicKeyFromMnemonic(mnemonic, path)))
+    // the contract stores base58 encoded keys
+    encodedPublicKeys = publicKeys.map((publicKey: string) => TezosUtils.encodePublicKey(publicKey))
+  })
+
+  beforeEach(() => {
+    getStub = new TezosProtocolStub().registerStub(tezosProtocolSpec, protocol).getStub
+    getStub.withArgs(`${protocol.options.network.rpcUrl}/chains/main/blocks/head/context/contracts/${contractAddress}/storage`).returns(
+      Promise.resolve({
+        data: {
+          prim: 'Pair',
+          args: [{ int: '3' }, { prim: 'Pair', args: [{ int: '2' }, encodedPublicKeys.map((key: string) => ({ string: key }))] }]
+        }
+      })
+    )
+    getStub.withArgs(`${protocol.options.network.rpcUrl}/chains/main/chain_id`).returns(Promise.resolve({ data: 'NetXdQprcVkpaWU' }))
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should read the storage of the contract', async () => {
+    expect(await multisig.getStorage()).to.deep.equal({ counter: '3', threshold: 2, keys: encodedPublicKeys })
+  })
+
+  it('should create and decode the payloads of all actions', async () => {
+    const transfer: TezosMichelsonData = await multisig.createPayload({
+      type: TezosMultisigActionType.TRANSFER,
+      destination: recipient,
+      amount: '1000000'
+    })
+    expect(transfer.packed.startsWith('0507070707')).to.be.true
+    expect(await multisig.getPayloadDetails(transfer)).to.deep.equal({
+      chainId: 'NetXdQprcVkpaWU',
+      contractAddress,
+      counter: '3',
+      action: { type: TezosMultisigActionType.TRANSFER, destination: recipient, amount: '1000000' }
+    })
+
+    const toContract: TezosMichelsonData = await multisig.createPayload({
+      type: TezosMultisigActionType.TRANSFER,
+      destination: contractAddress,
+      amount: '10'
+    })
+    expect((await multisig.getPayloadDetails(toContract)).action).to.deep.equal({
+      type: TezosMultisigActionType.TRANSFER,
+      destination: contractAddress,
+      amount: '10'
+    })
+
+    const delegate: TezosMichelsonData = await multisig.createPayload({ type: TezosMultisigActionType.DELEGATE, delegate: recipient })
+    expect((await multisig.getPayloadDetails(delegate)).action).to.deep.equal({
+      type: TezosMultisigActionType.DELEGATE,
+      delegate: recipient
+    })
+
+    const undelegate: TezosMichelsonData = await multisig.createPayload({ type: TezosMultisigActionType.DELEGATE })
+    expect((await multisig.getPayloadDetails(undelegate)).action).to.deep.equal({
+      type: TezosMultisigActionType.DELEGATE,
+      delegate: undefined
+    })
+
+    const changeKeys: TezosMichelsonData = await multisig.createPayload({
+      type: TezosMultisigActionType.CHANGE_KEYS,
+      threshold: 1,
+      keys: encodedPublicKeys.slice(0, 2)
+    })
+    expect((await multisig.getPayloadDetails(changeKeys)).action).to.deep.equal({
+      type: TezosMultisigActionType.CHANGE_KEYS,
+      threshold: 1,
+      keys: encodedPublicKeys.slice(0, 2)
+    })
+
+    // other lambdas are shown as code
+    const code: MichelineNode = [{ prim: 'DROP' }, { prim: 'NIL', args: [{ prim: 'operation' }] }]
+    const lambda: TezosMichelsonData = await multisig.createPayload({ type: TezosMultisigActionType.LAMBDA, code })
+    expect((await multisig.getPayloadDetails(lambda)).action).to.deep.equal({ type: TezosMultisigActionType.LAMBDA, code })
+
+    await expect(multisig.getPayloadDetails({ packed: '050001' })).to.be.rejectedWith('Invalid multisig payload')
+  })
+
+  it('should collect the signatures of the cosigners through IAC messages', async () => {
+    const payload: TezosMichelsonData = await multisig.createPayload({ type: TezosMultisigActionType.DELEGATE, delegate: recipient })
+
+    const firstRequest = (await serializeAndDeserialize(
+      IACMessageType.MultisigRequest,
+      await multisig.createMultisigRequest(publicKeys[0], payload)
+    )) as MultisigRequest
+    await expect(multisig.signMultisigRequest(privateKeys[1], firstRequest)).to.be.rejectedWith('addressed to another cosigner')
+
+    const firstResponse = (await serializeAndDeserialize(
+      IACMessageType.MultisigResponse,
+      await multisig.signMultisigRequest(privateKeys[0], firstRequest)
+    )) as MultisigResponse
+    expect(firstResponse.signingPeers).to.deep.equal([publicKeys[0]])
+
+    const secondRequest = (await serializeAndDeserialize(
+      IACMessageType.MultisigRequest,
+      await multisig.createMultisigRequest(publicKeys[2], payload, [firstResponse])
+    )) as MultisigRequest
+    const secondResponse: MultisigResponse = await multisig.signMultisigRequest(privateKeys[2], secondRequest)
+    expect(secondResponse.signingPeers).to.deep.equal([publicKeys[0], publicKeys[2]])
+
+    const signatures: string[] = (await multisig.combineMultisigResponses([firstResponse, secondResponse])).split(',')
+    expect(signatures).to.have.lengthOf(2)
+    expect(await protocol.verifyMichelsonData(payload, signatures[0], publicKeys[0])).to.be.true
+    expect(await protocol.verifyMichelsonData(payload, signatures[1], publicKeys[2])).to.be.true
+
+    const otherContract: TezosMultisigProtocol = new TezosMultisigProtocol(protocol, 'KT1XdCkqbHMbaRDLfrQhPDXt4qS1acHGQqCQ')
+    await expect(otherContract.signMultisigRequest(privateKeys[0], firstRequest)).to.be.rejectedWith('addressed to another contract')
+
+    getStub.withArgs(`${protocol.options.network.rpcUrl}/chains/main/chain_id`).returns(Promise.resolve({ data: 'NetXz969SFaFn8k' }))
+    await expect(multisig.signMultisigRequest(privateKeys[0], firstRequest)).to.be.rejectedWith('addressed to another network')
+  })
+
+  it('should prepare the main entrypoint call with the signatures', async () => {
+    const payload: TezosMichelsonData = await multisig.createPayload({
+      type: TezosMultisigActionType.TRANSFER,
+      destination: recipient,
+      amount: '1000000'
+    })
+    const details: TezosMultisigPayload = await multisig.getPayloadDetails(payload)
+
+    const sign = async (index: number, responses: MultisigResponse[] = []): Promise<MultisigResponse> =>
+      multisig.signMultisigRequest(privateKeys[index], await multisig.createMultisigRequest(publicKeys[index], payload, responses))
+    const firstResponse: MultisigResponse = await sign(2)
+    await expect(multisig.prepareMainCall(tezosProtocolSpec.wallet.publicKey, [firstResponse])).to.be.rejectedWith(
+      'has 1 of 2 required signatures'
+    )
+
+    const secondResponse: MultisigResponse = await sign(0, [firstResponse])
+    const rawTezosTx: RawTezosTransaction = await multisig.prepareMainCall(tezosProtocolSpec.wallet.publicKey, [secondResponse])
+    const unforged: TezosWrappedOperation = await protocol.unforgeUnsignedTezosWrappedOperation(rawTezosTx.binaryTransaction)
+    const operation: TezosTransactionOperation = unforged.contents[0] as TezosTransactionOperation
+    const [firstSignature, secondSignature]: string[] = secondResponse.signature.split(',')
+
+    expect(operation.destination).to.equal(contractAddress)
+    expect(operation.amount).to.equal('0')
+    expect(operation.parameters?.entrypoint).to.equal('main')
+    expect(operation.parameters?.value).to.deep.equal({
+      prim: 'Pair',
+      args: [
+        { prim: 'Pair', args: [{ int: details.counter }, (operation.parameters?.value as any).args[0].args[1]] },
+        [{ prim: 'Some', args: [{ string: secondSignature }] }, { prim: 'None' }, { prim: 'Some', args: [{ string: firstSignature }] }]
+      ]
+    })
+    expect((operation.parameters?.value as any).args[0].args[1].prim).to.equal('Left')
+  })
+
+  it('should reject responses which can not be submitted', async () => {
+    const payload: TezosMichelsonData = await multisig.createPayload({ type: TezosMultisigActionType.DELEGATE })
+    const response: MultisigResponse = await multisig.signMultisigRequest(
+      privateKeys[0],
+      await multisig.createMultisigRequest(publicKeys[0], payload)
+    )
+
+    await expect(
+      multisig.prepareMainCall(tezosProtocolSpec.wallet.publicKey, [
+        response,
+        { ...response, transaction: JSON.stringify({ packed: '050001' }) }
+      ])
+    ).to.be.rejectedWith('must sign the same payload')
+    await expect(
+      multisig.prepareMainCall(tezosProtocolSpec.wallet.publicKey, [{ ...response, signingPeers: [publicKeys[1]] }])
+    ).to.be.rejectedWith('Invalid multisig signature')
+
+    // the counter of the contract is increased after the payload has been signed
+    sinon.restore()
+    getStub = new TezosProtocolStub().registerStub(tezosProtocolSpec, protocol).getStub
+    getStub.withArgs(`${protocol.options.network.rpcUrl}/chains/main/blocks/head/context/contracts/${contractAddress}/storage`).returns(
+      Promise.resolve({
+        data: { prim: 'Pair', args: [{ int: '4' }, { prim: 'Pair', args: [{ int: '1' }, [{ string: encodedPublicKeys[0] }]] }] }
+      })
+    )
+    await expect(multisig.prepareMainCall(tezosProtocolSpec.wallet.publicKey, [response])).to.be.rejectedWith('has counter 3, expected 4')
+  })
+})
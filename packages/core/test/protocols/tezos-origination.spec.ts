@@ -0,0 +1,157 @@
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import 'mocha'
+import * as sinon from 'sinon'
+
+import { IAirGapTransaction, TezosProtocol } from '../../src'
+import BigNumber from '../../src/dependencies/src/bignumber.js-9.0.0/bignumber'
+import { RawTezosTransaction } from '../../src/serializer/types'
+import { TezosContractOrigination } from '../../src/protocols/tezos/contract/TezosContractOrigination'
+import { MichelinePrimitiveApplication } from '../../src/protocols/tezos/types/micheline/MichelineNode'
+import { TezosOriginationOperation } from '../../src/protocols/tezos/types/operations/Origination'
+import { TezosOperationType } from '../../src/protocols/tezos/types/TezosOperationType'
+import { TezosWrappedOperation } from '../../src/protocols/tezos/types/TezosWrappedOperation'
+import { TezosTestProtocolSpec } from '../protocols/specs/tezos'
+import { TezosProtocolStub } from '../protocols/stubs/tezos.stub'
+
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const tezosProtocolSpec: TezosTestProtocolSpec = new TezosTestProtocolSpec()
+const protocol: TezosProtocol = tezosProtocolSpec.lib as TezosProtocol
+
+const admin: string = 'tz1YvE7Sfo92ueEPEdZceNWd5MWNeMNSt16L'
+
+const code: MichelinePrimitiveApplication<any>[] = [
+  { prim: 'parameter', args: [{ prim: 'unit' }] },
+  {
+    prim: 'storage',
+    args: [
+      {
+        prim: 'pair',
+        args: [
+          { prim: 'big_map', args: [{ prim: 'address' }, { prim: 'nat' }], annots: ['%ledger'] },
+          { prim: 'address', annots: ['%admin'] }
+        ]
+      }
+    ]
+  },
+  { prim: 'code', args: [[{ prim: 'CDR' }, { prim: 'NIL', args: [{ prim: 'operation' }] }, { prim: 'PAIR' }]] }
+]
+
+describe(`ICoinProtocol Tezos Origination - Custom Tests`, () => {
+  let postStub: sinon.SinonStub
+
+  beforeEach(() => {
+    postStub = new TezosProtocolStub().registerStub(tezosProtocolSpec, protocol).postStub
+    postStub.withArgs(`${protocol.options.network.rpcUrl}/chains/main/blocks/head/helpers/scripts/run_operation`).returns(
+      Promise.resolve({
+        data: {
+          contents: [
+            {
+              kind: 'origination',
+              metadata: {
+                balance_updates: [],
+                operation_result: {
+                  status: 'applied',
+                  balance_updates: [],
+                  consumed_gas: '1500',
+                  paid_storage_size_diff: '400',
+                  originated_contracts: ['KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton']
+                },
+                internal_operation_results: []
+              }
+            }
+          ],
+          signature: ''
+        }
+      })
+    )
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  it('should validate the initial storage against the storage type', async () => {
+    const origination: TezosContractOrigination = TezosContractOrigination.from(code, { ledger: [[admin, 100]], admin })
+    expect(origination.toJSON()).to.deep.equal({
+      code,
+      storage: {
+        prim: 'Pair',
+        args: [[{ prim: 'Elt', args: [{ string: admin }, { int: '100' }] }], { string: admin }]
+      }
+    })
+
+    expect(() => TezosContractOrigination.from(code, { ledger: [[admin, 100]], admin: 42 })).to.throw('does not match the storage type')
+    expect(() => TezosContractOrigination.from(code.slice(1), { ledger: [], admin })).to.throw('missing the sections parameter')
+    expect(() => TezosContractOrigination.from({ prim: 'code' }, { ledger: [], admin })).to.throw('must be a Micheline sequence')
+  })
+
+  it('should prepare an origination with estimated limits', async () => {
+    const origination: TezosContractOrigination = TezosContractOrigination.from(
+      code,
+      { ledger: [[admin, 100]], admin },
+      new BigNumber(1000000)
+    )
+    const rawTezosTx: RawTezosTransaction = await protocol.prepareOriginationFromPublicKey(tezosProtocolSpec.wallet.publicKey, origination)
+
+    const unforged: TezosWrappedOperation = await protocol.unforgeUnsignedTezosWrappedOperation(rawTezosTx.binaryTransaction)
+    expect(unforged.contents.length).to.equal(1)
+
+    const operation: TezosOriginationOperation = unforged.contents[0] as TezosOriginationOperation
+    expect(operation.kind).to.equal(TezosOperationType.ORIGINATION)
+    expect(operation.balance).to.equal('1000000')
+    expect(operation.gas_limit).to.equal('1500')
+    // the paid storage and the originated contract
+    expect(operation.storage_limit).to.equal('657')
+    expect(operation.script).to.deep.equal(origination.toJSON())
+  })
+
+  it('should keep a provided fee', async () => {
+    const origination: TezosContractOrigination = TezosContractOrigination.from(code, { ledger: [], admin })
+    const rawTezosTx: RawTezosTransaction = await protocol.prepareOriginationFromPublicKey(
+      tezosProtocolSpec.wallet.publicKey,
+      origination,
+      '0.01'
+    )
+
+    const unforged: TezosWrappedOperation = await protocol.unforgeUnsignedTezosWrappedOperation(rawTezosTx.binaryTransaction)
+    expect((unforged.contents[0] as TezosOriginationOperation).fee).to.equal('10000')
+  })
+
+  it('should show the details of an origination', async () => {
+    const origination: TezosContractOrigination = TezosContractOrigination.from(
+      code,
+      { ledger: [[admin, 100]], admin },
+      new BigNumber(1000000)
+    )
+    const rawTezosTx: RawTezosTransaction = await protocol.prepareOriginationFromPublicKey(tezosProtocolSpec.wallet.publicKey, origination)
+
+    const [airGapTx]: IAirGapTransaction[] = await protocol.getTransactionDetails({
+      publicKey: tezosProtocolSpec.wallet.publicKey,
+      transaction: rawTezosTx
+    })
+
+    expect(airGapTx.from).to.deep.equal([admin])
+    expect(airGapTx.to).to.deep.equal(['Origination'])
+    expect(airGapTx.amount).to.equal('1000000')
+    expect(airGapTx.extra.origination.storageBurn).to.equal('164250')
+    expect(airGapTx.extra.origination.storage).to.deep.equal({
+      ledger: [[admin, new BigNumber(100)]],
+      admin
+    })
+  })
+
+  it('should reject originations with invalid storage', async () => {
+    await expect(
+      protocol.prepareOperations(tezosProtocolSpec.wallet.publicKey, [
+        {
+          kind: TezosOperationType.ORIGINATION,
+          balance: '0',
+          script: { code, storage: { int: '1' } }
+        } as TezosOriginationOperation
+      ])
+    ).to.be.rejectedWith('does not match the storage type')
+  })
+})